@@ -0,0 +1,90 @@
+/**
+ * POST /api/admin/orgs.pool.update
+ *
+ * Adds an organization to a parent's quota pool, changes its caps, or
+ * removes it from the pool. Pool members consume the parent's usage
+ * counters and are billed through the parent's subscription.
+ *
+ * Authentication: Required (Clerk session of a platform administrator)
+ *
+ * Request: {orgId, parentOrgId: string | null, caps?: {[metric]: number}}
+ * Response: 200 {orgId, parentOrgId, caps}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { updatePoolMembership } from "@/lib/services/orgs/org-pool-service";
+import {
+  UpdatePoolMembershipRequestSchema,
+  UpdatePoolMembershipResponse,
+} from "@/lib/api/admin/orgs-pool-update-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let userId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    // Require authenticated platform administrator
+    ({ userId } = await requireAdmin());
+
+    // Validate request body
+    const { orgId, parentOrgId, caps } = validateOrThrow(
+      UpdatePoolMembershipRequestSchema,
+      await request.json()
+    );
+
+    requestLogger.info("Updating pool membership", {
+      userId,
+      orgId,
+      parentOrgId,
+      caps,
+    });
+
+    const result: UpdatePoolMembershipResponse = await updatePoolMembership({
+      clerkOrgId: orgId,
+      parentClerkOrgId: parentOrgId,
+      caps,
+    });
+
+    requestLogger.info("Pool membership updated", { userId, ...result });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to update pool membership", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      userId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * POST /api/admin/quotas.reset
+ *
+ * Runs the usage period rollover on demand, for every active subscription
+ * or only those of one organization and/or current period. Used to recover
+ * when the scheduled rollover missed a renewal; dryRun reports the changes
+ * without writing them.
+ *
+ * Authentication: Required (Clerk session of a platform administrator)
+ *
+ * Request: {periodKey?: YYYY-MM-DD, orgId?, dryRun?: boolean}
+ * Response: 200 {dryRun, periodKey, checked, updated, created, closed, failed}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { rolloverUsagePeriods } from "@/lib/services/usage/period-rollover-service";
+import {
+  ResetQuotasRequestSchema,
+  ResetQuotasResponse,
+} from "@/lib/api/admin/quotas-reset-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let userId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    // Require authenticated platform administrator
+    ({ userId } = await requireAdmin());
+
+    // Validate request body
+    const { periodKey, orgId, dryRun } = validateOrThrow(
+      ResetQuotasRequestSchema,
+      await request.json()
+    );
+
+    requestLogger.info("Resetting quotas", {
+      userId,
+      periodKey,
+      orgId,
+      dryRun,
+    });
+
+    const result: ResetQuotasResponse = await rolloverUsagePeriods({
+      periodKey,
+      clerkOrgId: orgId,
+      dryRun,
+    });
+
+    requestLogger.info("Quota reset completed", { userId, ...result });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to reset quotas", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      userId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
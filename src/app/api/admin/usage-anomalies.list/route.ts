@@ -0,0 +1,89 @@
+/**
+ * GET /api/admin/usage-anomalies.list
+ *
+ * Lists usage anomalies flagged by /api/jobs/usage-anomalies.detect, newest
+ * hour first, across organizations or for one.
+ *
+ * Authentication: Required (Clerk session of a platform administrator)
+ *
+ * Query: ?orgId=...&status=open|resolved&limit=50 (all optional)
+ *
+ * Response: 200 {anomalies: [{id, orgId, metric, hour, observed, baseline,
+ *   ratio, status, capUntil, resolvedAt, resolvedByUserId, createdAt}]}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { listUsageAnomalies } from "@/lib/services/usage/usage-anomaly-service";
+import {
+  ListUsageAnomaliesQuerySchema,
+  ListUsageAnomaliesResponse,
+} from "@/lib/api/admin/usage-anomalies-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let userId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    // Require authenticated platform administrator
+    ({ userId } = await requireAdmin());
+
+    // Validate query parameters
+    const { orgId, status, limit } = validateOrThrow(
+      ListUsageAnomaliesQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    const result: ListUsageAnomaliesResponse = await listUsageAnomalies({
+      clerkOrgId: orgId,
+      status,
+      limit,
+    });
+
+    requestLogger.info("Usage anomalies retrieved", {
+      userId,
+      orgId,
+      status,
+      count: result.anomalies.length,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to list usage anomalies", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      userId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
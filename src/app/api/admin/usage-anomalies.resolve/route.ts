@@ -0,0 +1,89 @@
+/**
+ * POST /api/admin/usage-anomalies.resolve
+ *
+ * Marks a usage anomaly resolved, lifting its temporary hard cap (once
+ * cached subscription contexts expire, with the usage cache enabled).
+ * Resolving a resolved anomaly returns it unchanged.
+ *
+ * Authentication: Required (Clerk session of a platform administrator)
+ *
+ * Request: {anomalyId}
+ * Response: 200 {id, orgId, metric, hour, observed, baseline, ratio, status,
+ *   capUntil, resolvedAt, resolvedByUserId, createdAt}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { resolveAnomaly } from "@/lib/services/usage/usage-anomaly-service";
+import {
+  ResolveUsageAnomalyRequestSchema,
+  ResolveUsageAnomalyResponse,
+} from "@/lib/api/admin/usage-anomalies-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let userId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    // Require authenticated platform administrator
+    ({ userId } = await requireAdmin());
+
+    // Validate request body
+    const { anomalyId } = validateOrThrow(
+      ResolveUsageAnomalyRequestSchema,
+      await request.json()
+    );
+
+    requestLogger.info("Resolving usage anomaly", { userId, anomalyId });
+
+    const result: ResolveUsageAnomalyResponse = await resolveAnomaly(
+      anomalyId,
+      userId
+    );
+
+    requestLogger.info("Usage anomaly resolved", {
+      userId,
+      anomalyId,
+      orgId: result.orgId,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to resolve usage anomaly", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      userId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
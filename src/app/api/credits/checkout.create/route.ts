@@ -0,0 +1,93 @@
+/**
+ * POST /api/credits/checkout.create
+ *
+ * Starts a one-time Stripe Checkout payment for a prepaid credit pack for
+ * the authenticated user's organization. The credits are granted when
+ * Stripe confirms the payment (checkout.session.completed webhook).
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Request: {packCode: "api_call_1k" | "api_call_10k"}
+ *
+ * Response: 201 {checkoutSessionId, url}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { createCreditCheckout } from "@/lib/services/credits/credit-service";
+import {
+  CreateCreditCheckoutRequestSchema,
+  CreateCreditCheckoutResponse,
+} from "@/lib/api/credits/credits-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing credit checkout create request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate request body
+    const { packCode } = validateOrThrow(
+      CreateCreditCheckoutRequestSchema,
+      await request.json()
+    );
+
+    // Create checkout session for the authenticated organization
+    const result: CreateCreditCheckoutResponse = await createCreditCheckout(
+      clerkOrgId,
+      packCode
+    );
+
+    requestLogger.info("Credit checkout created", {
+      clerkOrgId,
+      packCode,
+      checkoutSessionId: result.checkoutSessionId,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 201,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to create credit checkout", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * GET /api/credits/ledger.list
+ *
+ * Lists the prepaid credit balances, active grants and credit ledger
+ * (grants, consumption and expiry) of the authenticated user's
+ * organization, newest entries first.
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Query: ?metric=api_call&type=consume&limit=50 (all optional)
+ *
+ * Response: 200 {balances: [{metric, available}],
+ *   grants: [{id, metric, packCode, amount, remaining, expiresAt, createdAt}],
+ *   entries: [{id, creditGrantId, metric, type, amount, usageCounterId, createdAt}]}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { listCreditLedger } from "@/lib/services/credits/credit-service";
+import {
+  ListCreditLedgerQuerySchema,
+  ListCreditLedgerResponse,
+} from "@/lib/api/credits/credits-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing credit ledger list request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate query parameters
+    const filters = validateOrThrow(
+      ListCreditLedgerQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    // List credits for the authenticated organization
+    const result: ListCreditLedgerResponse = await listCreditLedger(
+      clerkOrgId,
+      filters
+    );
+
+    requestLogger.info("Credit ledger retrieved", {
+      clerkOrgId,
+      grants: result.grants.length,
+      entries: result.entries.length,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to list credit ledger", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
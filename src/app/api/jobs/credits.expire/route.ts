@@ -0,0 +1,73 @@
+/**
+ * POST /api/jobs/credits.expire
+ *
+ * Zeroes prepaid credit grants past their expiry and records what they had
+ * left in the credit ledger. This endpoint is called by a scheduler;
+ * expired credits are never drawn from regardless, so runs can be
+ * infrequent and are safe to repeat.
+ *
+ * @module app/api/jobs/credits.expire
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { expireCredits } from "@/lib/services/credits/credit-service";
+import { ExpireCreditsResponse } from "@/lib/api/credits/credits-dto";
+import { logger } from "@/lib/utils/logger";
+import { toDomainError } from "@/lib/utils/errors";
+
+/**
+ * POST handler for expiring credit grants
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with success or error envelope
+ */
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+
+  try {
+    // Step 1: Validate/extract headers
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing credit expiry job");
+
+    // Step 2: Expire grants
+    const result: ExpireCreditsResponse = await expireCredits();
+
+    requestLogger.info("Credit expiry job completed", { ...result });
+
+    // Step 3: Return success envelope
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    // Error handling
+    const domainError = toDomainError(error);
+
+    logger.error("Credit expiry job failed", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
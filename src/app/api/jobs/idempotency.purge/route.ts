@@ -0,0 +1,74 @@
+/**
+ * POST /api/jobs/idempotency.purge
+ *
+ * Deletes usage idempotency keys older than
+ * config.usage.idempotencyWindowHours. This endpoint is called by a
+ * scheduler; expired keys are already ignored, so runs can be infrequent and
+ * are safe to repeat.
+ *
+ * @module app/api/jobs/idempotency.purge
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { purgeExpiredIdempotencyKeys } from "@/lib/services/usage/idempotency-service";
+import { PurgeIdempotencyKeysResponse } from "@/lib/api/usage/purge-idempotency-keys-dto";
+import { logger } from "@/lib/utils/logger";
+import { toDomainError } from "@/lib/utils/errors";
+
+/**
+ * POST handler for purging expired idempotency keys
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with success or error envelope
+ */
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+
+  try {
+    // Step 1: Validate/extract headers
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing idempotency key purge job");
+
+    // Step 2: Purge expired keys
+    const result: PurgeIdempotencyKeysResponse =
+      await purgeExpiredIdempotencyKeys();
+
+    requestLogger.info("Idempotency key purge job completed", { ...result });
+
+    // Step 3: Return success envelope
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    // Error handling
+    const domainError = toDomainError(error);
+
+    logger.error("Idempotency key purge job failed", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
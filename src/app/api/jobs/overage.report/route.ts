@@ -0,0 +1,77 @@
+/**
+ * POST /api/jobs/overage.report
+ *
+ * Reports usage beyond the included quota to Stripe metered billing.
+ * This endpoint is called by a scheduler; each run is safe to repeat because
+ * every reported range is recorded in the overage ledger first.
+ *
+ * Flow:
+ * 1. Find usage counters in overage for open (or recently closed) periods
+ * 2. Resend pending ledger entries and report any new overage
+ * 3. Return run summary
+ *
+ * @module app/api/jobs/overage.report
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { reportOverage } from "@/lib/services/billing/overage-reporting-service";
+import { ReportOverageResponse } from "@/lib/api/billing/report-overage-dto";
+import { logger } from "@/lib/utils/logger";
+import { toDomainError } from "@/lib/utils/errors";
+
+/**
+ * POST handler for reporting overage to Stripe
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with success or error envelope
+ */
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+
+  try {
+    // Step 1: Validate/extract headers
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing overage report job");
+
+    // Step 2: Report overage
+    const result: ReportOverageResponse = await reportOverage();
+
+    requestLogger.info("Overage report job completed", { ...result });
+
+    // Step 3: Return success envelope
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    // Error handling
+    const domainError = toDomainError(error);
+
+    logger.error("Overage report job failed", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
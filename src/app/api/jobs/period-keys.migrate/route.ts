@@ -0,0 +1,94 @@
+/**
+ * POST /api/jobs/period-keys.migrate
+ *
+ * Moves usage counters keyed by calendar month (YYYY-MM) to billing-period
+ * keys (YYYY-MM-DD). Run once after deploying billing-period keys, with
+ * dryRun first; repeat until scanned is 0. Flush the usage journal first
+ * when the Redis counter cache is enabled.
+ *
+ * Request: {dryRun?: boolean, limit?: number}
+ * Response: 200 {dryRun, scanned, migrated, conflicts, counters[]}
+ *
+ * @module app/api/jobs/period-keys.migrate
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { migrateLegacyPeriodKeys } from "@/lib/services/usage/period-key-service";
+import { migratePeriodKeysRequestSchema } from "@/lib/api/usage/migrate-period-keys-dto";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { logger } from "@/lib/utils/logger";
+import { toDomainError, ValidationError } from "@/lib/utils/errors";
+
+/**
+ * POST handler for migrating legacy period keys
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with success or error envelope
+ */
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+
+  try {
+    // Step 1: Validate/extract headers
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing period key migration job");
+
+    // Step 2: Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      throw new ValidationError("Invalid JSON in request body", {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const validated = validateOrThrow(migratePeriodKeysRequestSchema, body);
+
+    // Step 3: Migrate counters
+    const result = await migrateLegacyPeriodKeys(validated);
+
+    requestLogger.info("Period key migration job completed", {
+      dryRun: result.dryRun,
+      scanned: result.scanned,
+      migrated: result.migrated,
+      conflicts: result.conflicts,
+    });
+
+    // Step 4: Return success envelope
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    // Error handling
+    const domainError = toDomainError(error);
+
+    logger.error("Period key migration job failed", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
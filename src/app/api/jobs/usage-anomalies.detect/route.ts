@@ -0,0 +1,96 @@
+/**
+ * POST /api/jobs/usage-anomalies.detect
+ *
+ * Flags organizations whose usage of a metric in an hour spiked far above
+ * their own trailing hourly baseline, and applies a temporary hard cap when
+ * ANOMALY_CAP_HOURS is set. Schedule shortly after each hour; rerunning for
+ * an hour never flags it twice.
+ *
+ * Request: {hour?: ISO} (defaults to the last complete UTC hour)
+ * Response: 200 {hour, checked, flagged, capped, anomalies[]}
+ *
+ * @module app/api/jobs/usage-anomalies.detect
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { detectUsageAnomalies } from "@/lib/services/usage/usage-anomaly-service";
+import { detectUsageAnomaliesRequestSchema } from "@/lib/api/usage/detect-usage-anomalies-dto";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { logger } from "@/lib/utils/logger";
+import { toDomainError, ValidationError } from "@/lib/utils/errors";
+
+/**
+ * POST handler for detecting usage anomalies
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with success or error envelope
+ */
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+
+  try {
+    // Step 1: Validate/extract headers
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage anomaly detection job");
+
+    // Step 2: Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      throw new ValidationError("Invalid JSON in request body", {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const validated = validateOrThrow(detectUsageAnomaliesRequestSchema, body);
+
+    // Step 3: Detect anomalies
+    const result = await detectUsageAnomalies({
+      hour: validated.hour ? new Date(validated.hour) : undefined,
+    });
+
+    requestLogger.info("Usage anomaly detection job completed", {
+      hour: result.hour,
+      checked: result.checked,
+      flagged: result.flagged,
+      capped: result.capped,
+    });
+
+    // Step 4: Return success envelope
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    // Error handling
+    const domainError = toDomainError(error);
+
+    logger.error("Usage anomaly detection job failed", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
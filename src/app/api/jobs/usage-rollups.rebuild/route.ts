@@ -0,0 +1,98 @@
+/**
+ * POST /api/jobs/usage-rollups.rebuild
+ *
+ * Recomputes the hourly and daily usage rollups from raw usage records for
+ * a range, widened to whole UTC days (at most
+ * config.usage.rollupRebuildMaxDays per call). Run after backfilling usage
+ * records or when first deploying rollups over existing history; optionally
+ * limited to one organization.
+ *
+ * Request: {from: ISO, to: ISO, orgId?: string}
+ * Response: 200 {from, to, days, hourlyBuckets, dailyBuckets}
+ *
+ * @module app/api/jobs/usage-rollups.rebuild
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { rebuildUsageRollups } from "@/lib/services/usage/usage-rollup-service";
+import { rebuildUsageRollupsRequestSchema } from "@/lib/api/usage/rebuild-usage-rollups-dto";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { logger } from "@/lib/utils/logger";
+import { toDomainError, ValidationError } from "@/lib/utils/errors";
+
+/**
+ * POST handler for rebuilding usage rollups
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with success or error envelope
+ */
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+
+  try {
+    // Step 1: Validate/extract headers
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage rollup rebuild job");
+
+    // Step 2: Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      throw new ValidationError("Invalid JSON in request body", {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const validated = validateOrThrow(rebuildUsageRollupsRequestSchema, body);
+
+    // Step 3: Rebuild rollups
+    const result = await rebuildUsageRollups({
+      from: new Date(validated.from),
+      to: new Date(validated.to),
+      clerkOrgId: validated.orgId,
+    });
+
+    requestLogger.info("Usage rollup rebuild job completed", {
+      days: result.days,
+      hourlyBuckets: result.hourlyBuckets,
+      dailyBuckets: result.dailyBuckets,
+    });
+
+    // Step 4: Return success envelope
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    // Error handling
+    const domainError = toDomainError(error);
+
+    logger.error("Usage rollup rebuild job failed", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
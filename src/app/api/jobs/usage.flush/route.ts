@@ -0,0 +1,73 @@
+/**
+ * POST /api/jobs/usage.flush
+ *
+ * Writes usage recorded in the Redis counter cache through to Postgres.
+ * This endpoint is called by a scheduler every few seconds; overlapping runs
+ * skip while another holds the flush lock, and a run that crashes is
+ * finished safely by the next one. A no-op when REDIS_URL is not set.
+ *
+ * @module app/api/jobs/usage.flush
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { flushUsageJournal } from "@/lib/services/usage/usage-flush-service";
+import { FlushUsageJournalResponse } from "@/lib/api/usage/flush-usage-journal-dto";
+import { logger } from "@/lib/utils/logger";
+import { toDomainError } from "@/lib/utils/errors";
+
+/**
+ * POST handler for flushing the usage journal
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with success or error envelope
+ */
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+
+  try {
+    // Step 1: Validate/extract headers
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage journal flush job");
+
+    // Step 2: Write journaled usage to Postgres
+    const result: FlushUsageJournalResponse = await flushUsageJournal();
+
+    requestLogger.info("Usage journal flush job completed", { ...result });
+
+    // Step 3: Return success envelope
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    // Error handling
+    const domainError = toDomainError(error);
+
+    logger.error("Usage journal flush job failed", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * POST /api/jobs/usage.rollover
+ *
+ * Creates the new period's usage counters for subscriptions Stripe has
+ * renewed and closes the previous period's counters. This endpoint is called
+ * by a scheduler (hourly is enough); runs are safe to repeat because
+ * counters are only created when missing and usage is never reset.
+ *
+ * @module app/api/jobs/usage.rollover
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { rolloverUsagePeriods } from "@/lib/services/usage/period-rollover-service";
+import { RolloverUsagePeriodsResponse } from "@/lib/api/usage/rollover-usage-periods-dto";
+import { logger } from "@/lib/utils/logger";
+import { toDomainError } from "@/lib/utils/errors";
+
+/**
+ * POST handler for rolling over usage periods
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with success or error envelope
+ */
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+
+  try {
+    // Step 1: Validate/extract headers
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage period rollover job");
+
+    // Step 2: Roll every active subscription into its current period
+    const result: RolloverUsagePeriodsResponse = await rolloverUsagePeriods({
+      dryRun: false,
+    });
+
+    requestLogger.info("Usage period rollover job completed", { ...result });
+
+    // Step 3: Return success envelope
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    // Error handling
+    const domainError = toDomainError(error);
+
+    logger.error("Usage period rollover job failed", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
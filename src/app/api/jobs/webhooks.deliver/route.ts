@@ -0,0 +1,77 @@
+/**
+ * POST /api/jobs/webhooks.deliver
+ *
+ * Sends due outbound webhook deliveries to tenant endpoints.
+ * This endpoint is called by a scheduler; each delivery is claimed before it
+ * is sent, so overlapping runs never send the same attempt twice.
+ *
+ * Flow:
+ * 1. Find pending deliveries whose next attempt is due
+ * 2. Claim, sign and send each one; schedule a backoff retry on failure
+ * 3. Return run summary
+ *
+ * @module app/api/jobs/webhooks.deliver
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { deliverPendingWebhooks } from "@/lib/services/webhooks/webhook-delivery-service";
+import { DeliverWebhooksResponse } from "@/lib/api/webhooks/webhook-deliveries-dto";
+import { logger } from "@/lib/utils/logger";
+import { toDomainError } from "@/lib/utils/errors";
+
+/**
+ * POST handler for delivering outbound webhooks
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with success or error envelope
+ */
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+
+  try {
+    // Step 1: Validate/extract headers
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing webhook delivery job");
+
+    // Step 2: Deliver due webhooks
+    const result: DeliverWebhooksResponse = await deliverPendingWebhooks();
+
+    requestLogger.info("Webhook delivery job completed", { ...result });
+
+    // Step 3: Return success envelope
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    // Error handling
+    const domainError = toDomainError(error);
+
+    logger.error("Webhook delivery job failed", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -1,11 +1,24 @@
 /**
  * GET /api/me/entitlements.read
- * 
+ *
  * Returns the current plan, quota, and consumption for the authenticated user's organization.
- * 
- * Authentication: Required (Clerk session with org context)
- * 
- * Response: 200 {planCode, included, used, remaining, periodKey}
+ *
+ * Authentication: Required (Clerk session with org context, or an API key
+ * with the entitlements:read scope)
+ *
+ * Response: 200 {planCode, mode, included, rolledOver, used, remaining, overageAllowance, projectedUsed, exhaustsAt, periodKey, periodStart, periodEnd, metrics[], pool, member, anomalies[]}
+ * overageAllowance is the usage allowed past included (null when the plan is unlimited)
+ * rolledOver is unused quota carried over from earlier periods, counted in remaining
+ * projectedUsed is usage expected by periodEnd at the average rate so far;
+ * exhaustsAt is when remaining is expected to reach zero (null if it won't this
+ * period or already has); see /api/usage/forecast for the details
+ * For a pool member the quota is its parent's pool; pool {parentOrgId, metrics[]}
+ * carries the member's own usage and caps (null outside a pool)
+ * member {userId, metrics[{metric, cap, used, remaining}]} is the signed-in
+ * user's own usage this period and remaining under their member cap (remaining
+ * and cap are null when uncapped), next to the organization totals above
+ * anomalies[{metric, hour, observed, baseline, capUntil}] are open usage spikes;
+ * while capUntil is in the future the metric is enforced as on a hard plan
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -35,13 +48,17 @@ export async function GET(request: NextRequest) {
     requestLogger.info("Processing entitlements read request");
 
     // Require authenticated session with org context
-    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    const { userId, clerkOrgId: authClerkOrgId } =
+      await requireAuthWithOrg("entitlements:read");
     clerkOrgId = authClerkOrgId;
 
-    requestLogger.info("Authentication successful", { clerkOrgId });
+    requestLogger.info("Authentication successful", { clerkOrgId, userId });
 
     // Get entitlements
-    const result: GetEntitlementsResponse = await getEntitlements(clerkOrgId);
+    const result: GetEntitlementsResponse = await getEntitlements(
+      clerkOrgId,
+      userId
+    );
 
     requestLogger.info("Entitlements retrieved successfully", {
       clerkOrgId,
@@ -74,4 +91,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
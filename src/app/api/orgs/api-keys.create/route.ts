@@ -0,0 +1,96 @@
+/**
+ * POST /api/orgs/api-keys.create
+ *
+ * Issues an API key for the authenticated admin's organization, for
+ * server-to-server calls (Authorization: Bearer msk_...) to the endpoints
+ * its scopes cover.
+ *
+ * Authentication: Required (Clerk session of an organization admin)
+ *
+ * Request: {name, scopes: ["quota:check", "usage:write", "entitlements:read"], expiresAt?}
+ *
+ * Response: 201 {id, name, prefix, scopes, status, expiresAt, lastUsedAt, revokedAt,
+ *   createdByUserId, createdAt, key}
+ * The full key is only returned here and by api-keys.rotate; only its hash is stored.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireOrgAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { issueApiKey } from "@/lib/services/orgs/api-key-service";
+import {
+  CreateApiKeyRequestSchema,
+  CreateApiKeyResponse,
+} from "@/lib/api/orgs/api-keys-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing API key create request");
+
+    // Require authenticated organization admin
+    const { userId, clerkOrgId: authClerkOrgId } = await requireOrgAdmin();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId, userId });
+
+    // Validate request body
+    const input = validateOrThrow(
+      CreateApiKeyRequestSchema,
+      await request.json()
+    );
+
+    // Issue key for the authenticated organization
+    const result: CreateApiKeyResponse = await issueApiKey(
+      clerkOrgId,
+      userId,
+      input
+    );
+
+    requestLogger.info("API key created", {
+      clerkOrgId,
+      keyId: result.id,
+      prefix: result.prefix,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 201,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to create API key", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
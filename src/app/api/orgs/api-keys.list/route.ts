@@ -0,0 +1,76 @@
+/**
+ * GET /api/orgs/api-keys.list
+ *
+ * Lists the API keys of the authenticated admin's organization, oldest
+ * first, including revoked and expired keys. Keys are shown by prefix only.
+ *
+ * Authentication: Required (Clerk session of an organization admin)
+ *
+ * Response: 200 {keys: [{id, name, prefix, scopes, status, expiresAt, lastUsedAt,
+ *   revokedAt, createdByUserId, createdAt}]}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireOrgAdmin } from "@/lib/middleware/auth";
+import { listApiKeys } from "@/lib/services/orgs/api-key-service";
+import { ListApiKeysResponse } from "@/lib/api/orgs/api-keys-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing API key list request");
+
+    // Require authenticated organization admin
+    const { clerkOrgId: authClerkOrgId } = await requireOrgAdmin();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    const result: ListApiKeysResponse = await listApiKeys(clerkOrgId);
+
+    requestLogger.info("API keys retrieved", {
+      clerkOrgId,
+      keys: result.keys.length,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to list API keys", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * POST /api/orgs/api-keys.revoke
+ *
+ * Revokes an API key of the authenticated admin's organization. Revoking is
+ * permanent and takes effect on the key's next request.
+ *
+ * Authentication: Required (Clerk session of an organization admin)
+ *
+ * Request: {keyId}
+ *
+ * Response: 200 {id, name, prefix, scopes, status: "revoked", expiresAt, lastUsedAt,
+ *   revokedAt, createdByUserId, createdAt}
+ * 404 if the key belongs to another organization.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireOrgAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { revokeApiKey } from "@/lib/services/orgs/api-key-service";
+import {
+  RevokeApiKeyRequestSchema,
+  RevokeApiKeyResponse,
+} from "@/lib/api/orgs/api-keys-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing API key revoke request");
+
+    // Require authenticated organization admin
+    const { userId, clerkOrgId: authClerkOrgId } = await requireOrgAdmin();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId, userId });
+
+    // Validate request body
+    const { keyId } = validateOrThrow(
+      RevokeApiKeyRequestSchema,
+      await request.json()
+    );
+
+    const result: RevokeApiKeyResponse = await revokeApiKey(clerkOrgId, keyId);
+
+    requestLogger.info("API key revoked", {
+      clerkOrgId,
+      keyId,
+      prefix: result.prefix,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to revoke API key", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * POST /api/orgs/api-keys.rotate
+ *
+ * Issues a new secret for an API key of the authenticated admin's
+ * organization. The key keeps its ID, name, scopes and expiry (and the usage
+ * attributed to it); the previous secret stops working immediately.
+ *
+ * Authentication: Required (Clerk session of an organization admin)
+ *
+ * Request: {keyId}
+ *
+ * Response: 200 {id, name, prefix, scopes, status, expiresAt, lastUsedAt, revokedAt,
+ *   createdByUserId, createdAt, key}
+ * 400 if the key is revoked or expired; 404 if it belongs to another organization.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireOrgAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { rotateApiKey } from "@/lib/services/orgs/api-key-service";
+import {
+  RotateApiKeyRequestSchema,
+  RotateApiKeyResponse,
+} from "@/lib/api/orgs/api-keys-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing API key rotate request");
+
+    // Require authenticated organization admin
+    const { userId, clerkOrgId: authClerkOrgId } = await requireOrgAdmin();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId, userId });
+
+    // Validate request body
+    const { keyId } = validateOrThrow(
+      RotateApiKeyRequestSchema,
+      await request.json()
+    );
+
+    const result: RotateApiKeyResponse = await rotateApiKey(clerkOrgId, keyId);
+
+    requestLogger.info("API key rotated", {
+      clerkOrgId,
+      keyId,
+      prefix: result.prefix,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to rotate API key", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * GET /api/orgs/members.caps.list
+ *
+ * Lists the member usage caps of the authenticated admin's organization,
+ * ordered by member, then metric.
+ *
+ * Authentication: Required (Clerk session of an organization admin)
+ *
+ * Query: ?userId=user_123 (optional)
+ *
+ * Response: 200 {caps: [{userId, metric, cap}]}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireOrgAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { listMemberCaps } from "@/lib/services/orgs/member-cap-service";
+import {
+  ListMemberCapsQuerySchema,
+  ListMemberCapsResponse,
+} from "@/lib/api/orgs/member-caps-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing member caps list request");
+
+    // Require authenticated organization admin
+    const { clerkOrgId: authClerkOrgId } = await requireOrgAdmin();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate query parameters
+    const { userId } = validateOrThrow(
+      ListMemberCapsQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    const result: ListMemberCapsResponse = await listMemberCaps(
+      clerkOrgId,
+      userId
+    );
+
+    requestLogger.info("Member caps retrieved", {
+      clerkOrgId,
+      caps: result.caps.length,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to list member caps", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
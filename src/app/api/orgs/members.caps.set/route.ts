@@ -0,0 +1,93 @@
+/**
+ * POST /api/orgs/members.caps.set
+ *
+ * Sets or removes a member's usage cap for a metric in the authenticated
+ * admin's organization. The cap limits the usage attributed to that Clerk
+ * user per billing period, on top of the organization's own quota.
+ *
+ * Authentication: Required (Clerk session of an organization admin)
+ *
+ * Request: {userId, metric, cap: number | null}
+ * Response: 200 {orgId, userId, metric, cap}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireOrgAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { setMemberCap } from "@/lib/services/orgs/member-cap-service";
+import {
+  SetMemberCapRequestSchema,
+  SetMemberCapResponse,
+} from "@/lib/api/orgs/member-caps-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing member cap set request");
+
+    // Require authenticated organization admin
+    const { userId: adminUserId, clerkOrgId: authClerkOrgId } =
+      await requireOrgAdmin();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", {
+      clerkOrgId,
+      adminUserId,
+    });
+
+    // Validate request body
+    const { userId, metric, cap } = validateOrThrow(
+      SetMemberCapRequestSchema,
+      await request.json()
+    );
+
+    const result: SetMemberCapResponse = await setMemberCap({
+      clerkOrgId,
+      userId,
+      metric,
+      cap,
+    });
+
+    requestLogger.info("Member cap set", { adminUserId, ...result });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to set member cap", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -1,20 +1,38 @@
 /**
  * POST /api/quota/check
- * 
+ *
  * Checks if quota is available for an organization.
  * Returns 200 if quota available, 429 if quota exceeded.
- * 
- * Authentication: Required (Clerk session with org context)
- * 
- * Response: 
- * - 200 {allow: true, remaining: number} if quota available
- * - 429 {allow: false, remaining: 0} if quota exceeded
+ *
+ * Authentication: Required (Clerk session with org context, or an API key
+ * with the quota:check scope)
+ *
+ * Response:
+ * - 200 {allow: true, limit, used, remaining, resetAt, status, mode, overageAllowance,
+ *   overageRemaining, rolledOver, credits, upgrade, pool, member}
+ *   status is 'within_quota', or 'in_overage' when a soft/unlimited plan is past included;
+ *   limit and remaining count units rolled over from earlier periods and, once
+ *   those are used up too, prepaid credits; a pool member sees its parent's
+ *   pool, with pool {parentOrgId, cap, used, remaining} for its own share;
+ *   a caller with a member cap on the metric gets member {userId, cap, used,
+ *   remaining} for their own share
+ * - 429 standard denial envelope {metric, limit, used, remaining, resetAt, status, mode,
+ *   upgrade} (plus pool for pool members and member for capped callers) when
+ *   status is 'blocked', with
+ *   Retry-After until the period resets
+ *
+ * Both carry RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset headers
+ * computed from the usage counter's period end.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { requireHeaders } from "@/lib/utils/http/headers";
 import { logger } from "@/lib/utils/logger";
 import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import {
+  buildRateLimitHeaders,
+  buildQuotaDenialHeaders,
+} from "@/lib/utils/http/rate-limit-headers";
 import { toDomainError } from "@/lib/utils/errors";
 import { requireAuthWithOrg } from "@/lib/middleware/auth";
 import { validateOrThrow } from "@/lib/utils/validation";
@@ -43,10 +61,11 @@ export async function POST(request: NextRequest) {
     requestLogger.info("Processing quota check request");
 
     // Require authenticated session with org context
-    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    const { userId, clerkOrgId: authClerkOrgId } =
+      await requireAuthWithOrg("quota:check");
     clerkOrgId = authClerkOrgId;
 
-    requestLogger.info("Authentication successful", { clerkOrgId });
+    requestLogger.info("Authentication successful", { clerkOrgId, userId });
 
     // Validate request body
     const { orgId: requestOrgId, metric } = await validateOrThrow(
@@ -73,19 +92,26 @@ export async function POST(request: NextRequest) {
     }
 
     // Check quota
-    const result: CheckQuotaResponse = await checkQuota(clerkOrgId, metric);
+    const result: CheckQuotaResponse = await checkQuota(
+      clerkOrgId,
+      metric,
+      userId
+    );
 
     requestLogger.info("Quota check completed", {
       clerkOrgId,
       metric,
       allow: result.allow,
       remaining: result.remaining,
+      status: result.status,
+      mode: result.mode,
     });
 
     // Return 200 if allowed, 429 if denied
     if (result.allow) {
       return NextResponse.json(wrapSuccess(result, correlationId), {
         status: 200,
+        headers: buildRateLimitHeaders(result),
       });
     } else {
       // Quota exceeded - return 429 with standard denial envelope
@@ -95,15 +121,21 @@ export async function POST(request: NextRequest) {
           "Usage quota exceeded",
           {
             metric,
+            limit: result.limit,
+            used: result.used,
             remaining: result.remaining,
+            resetAt: result.resetAt,
+            status: result.status,
+            mode: result.mode,
+            upgrade: result.upgrade,
+            ...(result.pool && { pool: result.pool }),
+            ...(result.member && { member: result.member }),
           },
           correlationId
         ),
         {
           status: 429,
-          headers: {
-            "Retry-After": "3600", // 1 hour - approximate time until next period
-          },
+          headers: buildQuotaDenialHeaders(result),
         }
       );
     }
@@ -157,4 +189,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
@@ -1,22 +1,26 @@
 /**
  * POST /api/quota/deny-envelope.example
- * 
+ *
  * Example/documentation endpoint showing the standard 429 quota denial response format.
  * This endpoint always returns 429 with a standard denial envelope for reference.
- * 
+ *
  * This is not a real operational endpoint - it's for documentation and testing purposes.
- * 
- * Response: 429 with standard JSON + Retry-After header
+ *
+ * Response: 429 with standard JSON + Retry-After and RateLimit-* headers
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { requireHeaders } from "@/lib/utils/http/headers";
 import { wrapError } from "@/lib/utils/http/envelope";
+import { buildQuotaDenialHeaders } from "@/lib/utils/http/rate-limit-headers";
 
 export async function POST(request: NextRequest) {
   const headers = requireHeaders(request);
   const correlationId = headers.correlationId;
 
+  // Example period resetting an hour from now
+  const resetAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
   // Always return 429 with standard denial envelope
   return NextResponse.json(
     wrapError(
@@ -27,15 +31,19 @@ export async function POST(request: NextRequest) {
         limit: 30,
         used: 30,
         remaining: 0,
+        resetAt,
+        status: "blocked",
+        mode: "hard",
+        upgrade: {
+          planCode: "starter",
+          limit: 60,
+        },
       },
       correlationId
     ),
     {
       status: 429,
-      headers: {
-        "Retry-After": "3600", // 1 hour - approximate time until next period
-      },
+      headers: buildQuotaDenialHeaders({ limit: 30, remaining: 0, resetAt }),
     }
   );
 }
-
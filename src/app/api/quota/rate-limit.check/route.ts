@@ -0,0 +1,118 @@
+/**
+ * POST /api/quota/rate-limit.check
+ *
+ * Counts a request against the organization's short-window rate limits.
+ * Call once per request being admitted, alongside /api/quota/check.
+ *
+ * Authentication: Required (Clerk session with org context, or an API key
+ * with the quota:check scope)
+ *
+ * Response:
+ * - 200 {allow: true, window, limit, remaining}
+ * - 429 RATE_LIMITED envelope with Retry-After (seconds until a request is allowed)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { checkRateLimit } from "@/lib/services/quota/rate-limit-service";
+import {
+  CheckRateLimitRequestSchema,
+  CheckRateLimitResponse,
+} from "@/lib/api/quota/rate-limit-check-dto";
+import { RateLimitExceededError } from "@/lib/errors/quota-errors";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } =
+      await requireAuthWithOrg("quota:check");
+    clerkOrgId = authClerkOrgId;
+
+    // Validate request body
+    const { orgId: requestOrgId } = validateOrThrow(
+      CheckRateLimitRequestSchema,
+      await request.json()
+    );
+
+    // Verify that request orgId matches authenticated orgId
+    if (requestOrgId !== clerkOrgId) {
+      requestLogger.warn("Request orgId does not match authenticated orgId", {
+        requestOrgId,
+        clerkOrgId,
+      });
+      return NextResponse.json(
+        wrapError(
+          "FORBIDDEN",
+          "Organization ID in request does not match authenticated organization",
+          {},
+          correlationId
+        ),
+        { status: 403 }
+      );
+    }
+
+    const { allow, window, limit, remaining } =
+      await checkRateLimit(clerkOrgId);
+    const result: CheckRateLimitResponse = { allow, window, limit, remaining };
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    // Rate limited - return 429 with the wait until the next allowed request
+    if (error instanceof RateLimitExceededError) {
+      return NextResponse.json(
+        wrapError(
+          domainError.code,
+          domainError.message,
+          domainError.details,
+          correlationId
+        ),
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(error.retryAfterSeconds),
+          },
+        }
+      );
+    }
+
+    logger.error("Failed to check rate limit", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
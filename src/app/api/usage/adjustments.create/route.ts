@@ -0,0 +1,117 @@
+/**
+ * POST /api/usage/adjustments.create
+ *
+ * Applies a credit (gives units back) or debit (adds units) to a usage
+ * counter of an organization. The adjustment is recorded with its reason,
+ * the acting administrator and an optional reference to the usage record's
+ * request_id. Usage never goes below zero. Credits give quota back and
+ * avoid overage billing, so only platform administrators may adjust usage.
+ *
+ * Authentication: Required (Clerk session of a platform administrator)
+ *
+ * Request: {orgId, metric, periodKey?, type: 'credit'|'debit', amount, reason, request_id?}
+ * (periodKey may be omitted when request_id identifies the corrected usage)
+ *
+ * Response: 201 {adjustment, periodKey, used, remaining}
+ * Errors: 403 not an administrator, 404 counter or referenced usage not
+ *   found, 409 credit exceeds usage
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAdmin } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { createUsageAdjustment } from "@/lib/services/usage/usage-adjustment-service";
+import {
+  CreateUsageAdjustmentRequestSchema,
+  CreateUsageAdjustmentResponse,
+} from "@/lib/api/usage/adjustments-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage adjustment request");
+
+    // Require authenticated platform administrator
+    const { userId } = await requireAdmin();
+
+    requestLogger.info("Authentication successful", { userId });
+
+    // Validate request body
+    const {
+      orgId,
+      metric,
+      periodKey,
+      type,
+      amount,
+      reason,
+      request_id: usageRequestId,
+    } = await validateOrThrow(
+      CreateUsageAdjustmentRequestSchema,
+      await request.json()
+    );
+
+    clerkOrgId = orgId;
+
+    // Apply the adjustment as the administrator
+    const result: CreateUsageAdjustmentResponse = await createUsageAdjustment(
+      clerkOrgId,
+      userId,
+      {
+        metric,
+        periodKey,
+        type,
+        amount,
+        reason,
+        requestId: usageRequestId,
+      }
+    );
+
+    requestLogger.info("Usage adjustment created", {
+      clerkOrgId,
+      adjustmentId: result.adjustment.id,
+      delta: result.adjustment.delta,
+      periodKey: result.periodKey,
+      used: result.used,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 201,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to create usage adjustment", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * GET /api/usage/adjustments.list
+ *
+ * Lists usage adjustments (credits and debits) for the authenticated user's
+ * organization, newest first. Adjustments are kept apart from usage records.
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Query: ?periodKey=YYYY-MM-DD&metric=api_call&limit=50 (all optional)
+ *
+ * Response: 200 {adjustments: [{id, type, metric, periodKey, delta, usedBefore, usedAfter,
+ *   reason, actorUserId, request_id, createdAt}]}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { listUsageAdjustments } from "@/lib/services/usage/usage-adjustment-service";
+import {
+  ListUsageAdjustmentsQuerySchema,
+  ListUsageAdjustmentsResponse,
+} from "@/lib/api/usage/adjustments-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage adjustments list request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate query parameters
+    const filters = validateOrThrow(
+      ListUsageAdjustmentsQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    // List adjustments for the authenticated organization
+    const result: ListUsageAdjustmentsResponse = await listUsageAdjustments(
+      clerkOrgId,
+      filters
+    );
+
+    requestLogger.info("Usage adjustments retrieved", {
+      clerkOrgId,
+      count: result.adjustments.length,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to list usage adjustments", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * POST /api/usage/consume
+ *
+ * Atomically checks quota and records usage for an organization.
+ * Replaces calling /api/quota/check followed by /api/usage/record on the hot path.
+ *
+ * Authentication: Required (Clerk session with org context, or an API key
+ * with the usage:write scope)
+ *
+ * Usage is attributed to the session's user (or the API key) and also counts
+ * against its member cap, if an organization admin set one (429 with
+ * limit = cap).
+ *
+ * Response:
+ * - 200 {periodKey, used, remaining} if usage was consumed
+ * - 429 standard denial envelope {metric, limit, used, remaining, resetAt, status,
+ *   mode, upgrade} if used + value would exceed the plan's cap, with RateLimit-*
+ *   headers and Retry-After until the period resets
+ * Idempotency: Duplicate request_id returns identical response
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import {
+  buildQuotaDenialHeaders,
+  QuotaWindow,
+} from "@/lib/utils/http/rate-limit-headers";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { consumeUsage } from "@/lib/services/usage/usage-recording-service";
+import {
+  ConsumeUsageRequestSchema,
+  ConsumeUsageResponse,
+} from "@/lib/api/usage/consume-usage-dto";
+import { QuotaExceededError } from "@/lib/errors/quota-errors";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage consume request");
+
+    // Require authenticated session with org context
+    const { userId, clerkOrgId: authClerkOrgId } =
+      await requireAuthWithOrg("usage:write");
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId, userId });
+
+    // Validate request body
+    const {
+      orgId: requestOrgId,
+      metric,
+      value,
+      occurredAt: occurredAtString,
+      request_id: usageRequestId,
+    } = validateOrThrow(ConsumeUsageRequestSchema, await request.json());
+
+    // Verify that request orgId matches authenticated orgId
+    if (requestOrgId !== clerkOrgId) {
+      requestLogger.warn("Request orgId does not match authenticated orgId", {
+        requestOrgId,
+        clerkOrgId,
+      });
+      return NextResponse.json(
+        wrapError(
+          "FORBIDDEN",
+          "Organization ID in request does not match authenticated organization",
+          {},
+          correlationId
+        ),
+        { status: 403 }
+      );
+    }
+
+    // Parse occurredAt (handle both string and Date)
+    const occurredAt =
+      occurredAtString instanceof Date
+        ? occurredAtString
+        : new Date(occurredAtString);
+
+    // Check quota and record usage atomically
+    const result: ConsumeUsageResponse = await consumeUsage(
+      clerkOrgId,
+      metric,
+      value,
+      occurredAt,
+      usageRequestId,
+      userId
+    );
+
+    requestLogger.info("Usage consumed successfully", {
+      clerkOrgId,
+      metric,
+      value,
+      periodKey: result.periodKey,
+      used: result.used,
+      remaining: result.remaining,
+      request_id: usageRequestId,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    // Quota exceeded - return 429 with standard denial envelope
+    if (error instanceof QuotaExceededError) {
+      logger.warn("Usage consumption denied", {
+        request_id: requestId,
+        correlation_id: correlationId,
+        clerkOrgId,
+        details: domainError.details,
+      });
+
+      return NextResponse.json(
+        wrapError(
+          domainError.code,
+          domainError.message,
+          domainError.details,
+          correlationId
+        ),
+        {
+          status: 429,
+          headers: buildQuotaDenialHeaders(domainError.details as QuotaWindow),
+        }
+      );
+    }
+
+    logger.error("Failed to consume usage", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
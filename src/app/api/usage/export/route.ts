@@ -0,0 +1,133 @@
+/**
+ * GET /api/usage/export
+ *
+ * Streams usage for the authenticated user's organization as CSV or NDJSON,
+ * oldest first. With granularity=record, raw usage records with columns
+ * metric, value, occurredAt, request_id, periodKey; with hour or day, sums
+ * read from the usage rollups with columns metric, bucket, value, count.
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Query: ?format=csv|ndjson&granularity=record|hour|day&from=ISO&to=ISO
+ *        &metric=api_call
+ * (format defaults to csv, granularity to record, metric to all metrics;
+ * from and to are required)
+ *
+ * Response: 200 streamed file (Content-Disposition: attachment)
+ * Errors before streaming starts use the standard error envelope.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  HEADER_CORRELATION_ID,
+  requireHeaders,
+} from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import {
+  streamUsageExport,
+  USAGE_EXPORT_CONTENT_TYPES,
+} from "@/lib/services/usage/usage-export-service";
+import { UsageExportQuerySchema } from "@/lib/api/usage/export-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage export request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate query parameters
+    const query = validateOrThrow(
+      UsageExportQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+    const chunks = streamUsageExport(clerkOrgId, {
+      format: query.format,
+      granularity: query.granularity,
+      from,
+      to,
+      metric: query.metric,
+    });
+
+    // Pull one page per read so only the page being sent is held in memory
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await chunks.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(new TextEncoder().encode(value));
+          }
+        } catch (error) {
+          // Headers are already sent, so the only option is to abort
+          requestLogger.error("Usage export failed mid-stream", {
+            clerkOrgId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    });
+
+    const filename = `usage-${from.toISOString().slice(0, 10)}-${to
+      .toISOString()
+      .slice(0, 10)}.${query.format}`;
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": USAGE_EXPORT_CONTENT_TYPES[query.format],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+        [HEADER_CORRELATION_ID]: correlationId,
+      },
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to export usage", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * GET /api/usage/forecast
+ *
+ * Projects the authenticated user's organization's usage to the end of the
+ * current billing period, at its average rate so far this period, and
+ * estimates when each metric's quota (included + rolled over) runs out.
+ *
+ * Authentication: Required (Clerk session with org context, or an API key
+ * with the entitlements:read scope)
+ *
+ * Query: ?metric=api_call (optional; all metrics in the plan by default)
+ *
+ * Response: 200 {periodKey, periodStart, periodEnd, asOf, forecasts: [{metric,
+ *   used, limit, remaining, dailyRate, projectedUsed, projectedOverage,
+ *   exhaustsAt}]}
+ * exhaustsAt is null when the quota isn't expected to run out this period, or
+ * already has (remaining <= 0).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { getUsageForecast } from "@/lib/services/entitlements/entitlements-service";
+import {
+  UsageForecastQuerySchema,
+  UsageForecastResponse,
+} from "@/lib/api/usage/forecast-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage forecast request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } =
+      await requireAuthWithOrg("entitlements:read");
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate query parameters
+    const { metric } = validateOrThrow(
+      UsageForecastQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    // Forecast usage for the authenticated organization
+    const result: UsageForecastResponse = await getUsageForecast(
+      clerkOrgId,
+      metric
+    );
+
+    requestLogger.info("Usage forecast retrieved", {
+      clerkOrgId,
+      periodKey: result.periodKey,
+      metrics: result.forecasts.length,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to forecast usage", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * GET /api/usage/history
+ *
+ * Returns usage history for the authenticated user's organization: sums per
+ * hour, day or billing period over the requested range, plus a page of the
+ * raw usage records (newest first).
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Query: ?metric=api_call&from=ISO&to=ISO&granularity=hour|day|period&cursor=&limit=50
+ * (all optional; range defaults to the last 30 days, granularity to day)
+ *
+ * Response: 200 {metric, from, to, granularity, buckets: [{bucket, value, count}],
+ *   records: [{id, value, occurredAt, requestId}], nextCursor, adjustments: [...]}
+ * Adjustments (credits/debits) in the range are listed separately from records.
+ * Pass nextCursor back as `cursor` to fetch the next page of records.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { getUsageHistory } from "@/lib/services/usage/usage-history-service";
+import {
+  UsageHistoryQuerySchema,
+  UsageHistoryResponse,
+} from "@/lib/api/usage/history-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage history request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate query parameters
+    const query = validateOrThrow(
+      UsageHistoryQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    // Read history for the authenticated organization
+    const result: UsageHistoryResponse = await getUsageHistory(
+      clerkOrgId,
+      query
+    );
+
+    requestLogger.info("Usage history retrieved", {
+      clerkOrgId,
+      buckets: result.buckets.length,
+      records: result.records.length,
+      hasMore: result.nextCursor !== null,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to read usage history", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
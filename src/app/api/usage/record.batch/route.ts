@@ -0,0 +1,151 @@
+/**
+ * POST /api/usage/record.batch
+ *
+ * Records a batch of usage events for an organization in one request.
+ * Each item follows the POST /api/usage/record rules and is idempotent on its
+ * own request_id; increments are aggregated per counter and applied in one
+ * transaction.
+ *
+ * Authentication: Required (Clerk session with org context, or an API key
+ * with the usage:write scope)
+ *
+ * Usage is attributed to the session's user (or the API key), as for
+ * POST /api/usage/record.
+ *
+ * Request: {orgId, items: [{metric, value, occurredAt, request_id}, ...]}
+ *
+ * Response: 200 {results: [{index, request_id, status: 'recorded'|'duplicate'|'rejected', code?, reason?}],
+ *   recorded, duplicates, rejected, counters: [{metric, periodKey, used, remaining}]}
+ * A rejected item does not fail the batch.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import {
+  recordUsageBatch,
+  BatchUsageItem,
+} from "@/lib/services/usage/usage-recording-service";
+import {
+  RecordUsageBatchItemSchema,
+  RecordUsageBatchRequestSchema,
+  RecordUsageBatchResponse,
+} from "@/lib/api/usage/record-usage-batch-dto";
+
+/**
+ * Validates a single batch item
+ *
+ * @param item - Raw item from the request body
+ * @returns Validated item, or its validation failure
+ */
+function parseBatchItem(item: unknown): BatchUsageItem {
+  const parsed = RecordUsageBatchItemSchema.safeParse(item);
+
+  if (!parsed.success) {
+    const requestId = (item as { request_id?: unknown })?.request_id;
+    const [issue] = parsed.error.issues;
+    return {
+      requestId: typeof requestId === "string" ? requestId : null,
+      validationError: `${issue.path.join(".") || "item"}: ${issue.message}`,
+    };
+  }
+
+  const { metric, value, occurredAt, request_id } = parsed.data;
+  return {
+    metric,
+    value,
+    occurredAt: occurredAt instanceof Date ? occurredAt : new Date(occurredAt),
+    requestId: request_id,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage batch recording request");
+
+    // Require authenticated session with org context
+    const { userId, clerkOrgId: authClerkOrgId } =
+      await requireAuthWithOrg("usage:write");
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId, userId });
+
+    // Validate request envelope (items are validated individually below)
+    const { orgId: requestOrgId, items } = validateOrThrow(
+      RecordUsageBatchRequestSchema,
+      await request.json()
+    );
+
+    // Verify that request orgId matches authenticated orgId
+    if (requestOrgId !== clerkOrgId) {
+      requestLogger.warn("Request orgId does not match authenticated orgId", {
+        requestOrgId,
+        clerkOrgId,
+      });
+      return NextResponse.json(
+        wrapError(
+          "FORBIDDEN",
+          "Organization ID in request does not match authenticated organization",
+          {},
+          correlationId
+        ),
+        { status: 403 }
+      );
+    }
+
+    // Record batch
+    const result: RecordUsageBatchResponse = await recordUsageBatch(
+      clerkOrgId,
+      items.map(parseBatchItem),
+      userId
+    );
+
+    requestLogger.info("Usage batch recorded", {
+      clerkOrgId,
+      recorded: result.recorded,
+      duplicates: result.duplicates,
+      rejected: result.rejected,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to record usage batch", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
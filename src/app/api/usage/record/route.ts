@@ -1,11 +1,16 @@
 /**
  * POST /api/usage/record
- * 
+ *
  * Records usage for an organization with idempotency via request_id.
- * 
- * Authentication: Required (Clerk session with org context)
- * 
- * Response: 200 {periodKey, used, remaining}
+ *
+ * Authentication: Required (Clerk session with org context, or an API key
+ * with the usage:write scope)
+ *
+ * Usage is attributed to the session's user, or to the API key's ID (never
+ * capped by member caps).
+ *
+ * Response: 200 {periodKey, used, remaining}, with RateLimit-Limit /
+ * RateLimit-Remaining / RateLimit-Reset headers for the metric's current period
  * Idempotency: Duplicate request_id returns identical response
  */
 
@@ -13,10 +18,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { requireHeaders } from "@/lib/utils/http/headers";
 import { logger } from "@/lib/utils/logger";
 import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { buildRateLimitHeaders } from "@/lib/utils/http/rate-limit-headers";
 import { toDomainError } from "@/lib/utils/errors";
 import { requireAuthWithOrg } from "@/lib/middleware/auth";
 import { validateOrThrow } from "@/lib/utils/validation";
 import { recordUsage } from "@/lib/services/usage/usage-recording-service";
+import { checkQuota } from "@/lib/services/quota/quota-service";
 import {
   RecordUsageRequestSchema,
   RecordUsageResponse,
@@ -40,10 +47,11 @@ export async function POST(request: NextRequest) {
     requestLogger.info("Processing usage recording request");
 
     // Require authenticated session with org context
-    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    const { userId, clerkOrgId: authClerkOrgId } =
+      await requireAuthWithOrg("usage:write");
     clerkOrgId = authClerkOrgId;
 
-    requestLogger.info("Authentication successful", { clerkOrgId });
+    requestLogger.info("Authentication successful", { clerkOrgId, userId });
 
     // Validate request body
     const {
@@ -87,7 +95,8 @@ export async function POST(request: NextRequest) {
       metric,
       value,
       occurredAt,
-      usageRequestId
+      usageRequestId,
+      userId
     );
 
     requestLogger.info("Usage recorded successfully", {
@@ -100,8 +109,25 @@ export async function POST(request: NextRequest) {
       request_id: usageRequestId,
     });
 
+    // Quota headers are best-effort: the usage is already recorded, so a
+    // failed lookup only drops the headers
+    let rateLimitHeaders: Record<string, string> = {};
+
+    try {
+      rateLimitHeaders = buildRateLimitHeaders(
+        await checkQuota(clerkOrgId, metric, userId)
+      );
+    } catch (error) {
+      requestLogger.warn("Failed to resolve quota for rate limit headers", {
+        clerkOrgId,
+        metric,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
     return NextResponse.json(wrapSuccess(result, correlationId), {
       status: 200,
+      headers: rateLimitHeaders,
     });
   } catch (error) {
     const domainError = toDomainError(error);
@@ -125,4 +151,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
@@ -0,0 +1,91 @@
+/**
+ * GET /api/usage/thresholds.list
+ *
+ * Lists usage threshold-crossed events (e.g. 50/80/100% of included) for the
+ * authenticated user's organization, newest first.
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Query: ?periodKey=YYYY-MM-DD&metric=api_call&limit=50 (all optional)
+ *
+ * Response: 200 {events: [{id, metric, periodKey, threshold, included, used, createdAt}]}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { listThresholdEvents } from "@/lib/services/usage/usage-threshold-service";
+import {
+  ListThresholdEventsQuerySchema,
+  ListThresholdEventsResponse,
+} from "@/lib/api/usage/thresholds-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing usage thresholds list request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate query parameters
+    const filters = validateOrThrow(
+      ListThresholdEventsQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    // List threshold events for the authenticated organization
+    const result: ListThresholdEventsResponse = await listThresholdEvents(
+      clerkOrgId,
+      filters
+    );
+
+    requestLogger.info("Usage threshold events retrieved", {
+      clerkOrgId,
+      count: result.events.length,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to list usage threshold events", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
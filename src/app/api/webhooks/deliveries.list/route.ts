@@ -0,0 +1,92 @@
+/**
+ * GET /api/webhooks/deliveries.list
+ *
+ * Lists the outbound webhook delivery log for the authenticated user's
+ * organization, newest first.
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Query: ?endpointId=...&status=pending|succeeded|failed&limit=50 (all optional)
+ *
+ * Response: 200 {deliveries: [{id, endpointId, eventId, eventType, status, attempts,
+ *   nextAttemptAt, lastAttemptAt, responseStatus, lastError, createdAt}]}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { listDeliveries } from "@/lib/services/webhooks/webhook-delivery-service";
+import {
+  ListWebhookDeliveriesQuerySchema,
+  ListWebhookDeliveriesResponse,
+} from "@/lib/api/webhooks/webhook-deliveries-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing webhook deliveries list request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate query parameters
+    const filters = validateOrThrow(
+      ListWebhookDeliveriesQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    // List deliveries for the authenticated organization
+    const result: ListWebhookDeliveriesResponse = await listDeliveries(
+      clerkOrgId,
+      filters
+    );
+
+    requestLogger.info("Webhook deliveries retrieved", {
+      clerkOrgId,
+      count: result.deliveries.length,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to list webhook deliveries", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * POST /api/webhooks/deliveries.redeliver
+ *
+ * Immediately resends a logged webhook delivery with a fresh signature.
+ * A failed manual attempt does not change the delivery's retry schedule.
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Request: {deliveryId}
+ *
+ * Response:
+ * - 200 delivery {id, status, attempts, responseStatus, lastError, ...} after the attempt
+ * - 404 NOT_FOUND if the delivery doesn't exist or belongs to another org
+ * - 409 WEBHOOK_ENDPOINT_DISABLED if the endpoint is disabled
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { redeliverWebhook } from "@/lib/services/webhooks/webhook-delivery-service";
+import {
+  RedeliverWebhookRequestSchema,
+  RedeliverWebhookResponse,
+} from "@/lib/api/webhooks/webhook-deliveries-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing webhook redelivery request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate request body
+    const { deliveryId } = validateOrThrow(
+      RedeliverWebhookRequestSchema,
+      await request.json()
+    );
+
+    // Resend now (ownership checked by the service)
+    const result: RedeliverWebhookResponse = await redeliverWebhook(
+      clerkOrgId,
+      deliveryId
+    );
+
+    requestLogger.info("Webhook redelivered", {
+      clerkOrgId,
+      deliveryId,
+      status: result.status,
+      responseStatus: result.responseStatus,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to redeliver webhook", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * POST /api/webhooks/endpoints.create
+ *
+ * Registers an HTTPS endpoint to receive outbound webhooks for the
+ * authenticated user's organization.
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Request: {url, events: ["usage.threshold_crossed", ...], description?}
+ *
+ * Response: 201 {id, url, events, description, enabled, createdAt, updatedAt, secret}
+ * The signing secret is only ever returned by this endpoint.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { createEndpoint } from "@/lib/services/webhooks/outbound-webhook-service";
+import {
+  CreateWebhookEndpointRequestSchema,
+  CreateWebhookEndpointResponse,
+} from "@/lib/api/webhooks/webhook-endpoints-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing webhook endpoint create request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate request body
+    const input = validateOrThrow(
+      CreateWebhookEndpointRequestSchema,
+      await request.json()
+    );
+
+    // Register endpoint for the authenticated organization
+    const result: CreateWebhookEndpointResponse = await createEndpoint(
+      clerkOrgId,
+      input
+    );
+
+    requestLogger.info("Webhook endpoint created", {
+      clerkOrgId,
+      endpointId: result.id,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 201,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to create webhook endpoint", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
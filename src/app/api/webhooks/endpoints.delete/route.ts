@@ -0,0 +1,89 @@
+/**
+ * POST /api/webhooks/endpoints.delete
+ *
+ * Deletes an outbound webhook endpoint owned by the authenticated user's
+ * organization, together with its delivery log.
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Request: {endpointId}
+ *
+ * Response:
+ * - 200 {deleted: true}
+ * - 404 NOT_FOUND if the endpoint doesn't exist or belongs to another org
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { validateOrThrow } from "@/lib/utils/validation";
+import { deleteEndpoint } from "@/lib/services/webhooks/outbound-webhook-service";
+import {
+  DeleteWebhookEndpointRequestSchema,
+  DeleteWebhookEndpointResponse,
+} from "@/lib/api/webhooks/webhook-endpoints-dto";
+
+export async function POST(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing webhook endpoint delete request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // Validate request body
+    const { endpointId } = validateOrThrow(
+      DeleteWebhookEndpointRequestSchema,
+      await request.json()
+    );
+
+    // Delete endpoint (ownership checked by the service)
+    await deleteEndpoint(clerkOrgId, endpointId);
+
+    requestLogger.info("Webhook endpoint deleted", { clerkOrgId, endpointId });
+
+    const result: DeleteWebhookEndpointResponse = { deleted: true };
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to delete webhook endpoint", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * GET /api/webhooks/endpoints.list
+ *
+ * Lists outbound webhook endpoints for the authenticated user's organization.
+ * Signing secrets are never included.
+ *
+ * Authentication: Required (Clerk session with org context)
+ *
+ * Response: 200 {endpoints: [{id, url, events, description, enabled, createdAt, updatedAt}]}
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireHeaders } from "@/lib/utils/http/headers";
+import { logger } from "@/lib/utils/logger";
+import { wrapSuccess, wrapError } from "@/lib/utils/http/envelope";
+import { toDomainError } from "@/lib/utils/errors";
+import { requireAuthWithOrg } from "@/lib/middleware/auth";
+import { listEndpoints } from "@/lib/services/webhooks/outbound-webhook-service";
+import { ListWebhookEndpointsResponse } from "@/lib/api/webhooks/webhook-endpoints-dto";
+
+export async function GET(request: NextRequest) {
+  let correlationId = "";
+  let requestId = "";
+  let clerkOrgId = "";
+
+  try {
+    const headers = requireHeaders(request);
+    correlationId = headers.correlationId;
+    requestId = headers.requestId;
+
+    const requestLogger = logger.child({
+      request_id: requestId,
+      correlation_id: correlationId,
+    });
+
+    requestLogger.info("Processing webhook endpoints list request");
+
+    // Require authenticated session with org context
+    const { clerkOrgId: authClerkOrgId } = await requireAuthWithOrg();
+    clerkOrgId = authClerkOrgId;
+
+    requestLogger.info("Authentication successful", { clerkOrgId });
+
+    // List endpoints for the authenticated organization
+    const result: ListWebhookEndpointsResponse =
+      await listEndpoints(clerkOrgId);
+
+    requestLogger.info("Webhook endpoints retrieved", {
+      clerkOrgId,
+      count: result.endpoints.length,
+    });
+
+    return NextResponse.json(wrapSuccess(result, correlationId), {
+      status: 200,
+    });
+  } catch (error) {
+    const domainError = toDomainError(error);
+
+    logger.error("Failed to list webhook endpoints", {
+      request_id: requestId,
+      correlation_id: correlationId,
+      clerkOrgId,
+      error: domainError.message,
+      code: domainError.code,
+    });
+
+    return NextResponse.json(
+      wrapError(
+        domainError.code,
+        domainError.message,
+        domainError.details,
+        correlationId
+      ),
+      { status: domainError.statusCode }
+    );
+  }
+}
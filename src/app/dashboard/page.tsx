@@ -7,6 +7,7 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import Link from "next/link";
 
 export default function DashboardPage() {
   return (
@@ -65,8 +66,8 @@ export default function DashboardPage() {
             <CardDescription>Manage your account</CardDescription>
           </CardHeader>
           <CardContent className="space-y-2">
-            <Button className="w-full" variant="outline">
-              View Usage History
+            <Button asChild className="w-full" variant="outline">
+              <Link href="/dashboard/usage">View Usage History</Link>
             </Button>
             <Button className="w-full" variant="outline">
               Upgrade Plan
@@ -0,0 +1,210 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { UsageHistoryResponse } from "@/lib/api/usage/history-dto";
+
+type Granularity = UsageHistoryResponse["granularity"];
+
+const GRANULARITIES: Granularity[] = ["hour", "day", "period"];
+
+async function fetchHistory(
+  granularity: Granularity,
+  cursor?: string
+): Promise<UsageHistoryResponse> {
+  const params = new URLSearchParams({ granularity });
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+
+  const response = await fetch(`/api/usage/history?${params}`);
+  const body = await response.json();
+
+  if (!response.ok) {
+    throw new Error(body.error?.message ?? "Failed to load usage history");
+  }
+
+  return body.data;
+}
+
+export default function UsageHistoryPage() {
+  const [granularity, setGranularity] = useState<Granularity>("day");
+  const [history, setHistory] = useState<UsageHistoryResponse | null>(null);
+  const [records, setRecords] = useState<UsageHistoryResponse["records"]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await fetchHistory(granularity, cursor);
+        setHistory(data);
+        setRecords((previous) =>
+          cursor ? [...previous, ...data.records] : data.records
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [granularity]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Usage History</h1>
+          <p className="text-muted-foreground">
+            API calls recorded over the last 30 days
+          </p>
+        </div>
+        <Button asChild variant="outline">
+          <Link href="/dashboard">Back to Dashboard</Link>
+        </Button>
+      </div>
+
+      {error && <p className="mb-6 text-sm text-destructive">{error}</p>}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Totals</CardTitle>
+            <CardDescription>Usage summed per {granularity}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              {GRANULARITIES.map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={option === granularity ? "default" : "outline"}
+                  onClick={() => setGranularity(option)}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bucket</TableHead>
+                  <TableHead className="text-right">Usage</TableHead>
+                  <TableHead className="text-right">Records</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history?.buckets.map((bucket) => (
+                  <TableRow key={bucket.bucket}>
+                    <TableCell>{bucket.bucket}</TableCell>
+                    <TableCell className="text-right">{bucket.value}</TableCell>
+                    <TableCell className="text-right">{bucket.count}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Records</CardTitle>
+            <CardDescription>
+              Individual usage events, newest first
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Occurred At</TableHead>
+                  <TableHead>Request ID</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map((record) => (
+                  <TableRow key={record.id}>
+                    <TableCell>{record.occurredAt}</TableCell>
+                    <TableCell>{record.requestId ?? "-"}</TableCell>
+                    <TableCell className="text-right">{record.value}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {history?.nextCursor && (
+              <Button
+                className="w-full"
+                variant="outline"
+                disabled={loading}
+                onClick={() => load(history.nextCursor ?? undefined)}
+              >
+                Load More
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {history && history.adjustments.length > 0 && (
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Adjustments</CardTitle>
+              <CardDescription>
+                Credits and debits applied to your usage
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.adjustments.map((adjustment) => (
+                    <TableRow key={adjustment.id}>
+                      <TableCell>{adjustment.createdAt}</TableCell>
+                      <TableCell>{adjustment.periodKey}</TableCell>
+                      <TableCell>{adjustment.reason}</TableCell>
+                      <TableCell className="text-right">
+                        {adjustment.delta > 0
+                          ? `+${adjustment.delta}`
+                          : adjustment.delta}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Organization Pool DTOs
+ *
+ * Zod schemas and TypeScript types for the admin pool membership API.
+ *
+ * @module lib/api/admin/orgs-pool-update-dto
+ */
+
+import { z } from "zod";
+import { METRICS } from "../../stripe";
+
+const PoolCapsSchema = z.partialRecord(
+  z.enum(METRICS, `Metric must be one of: ${METRICS.join(", ")}`),
+  z.number().int().nonnegative()
+);
+
+/**
+ * Request schema for POST /api/admin/orgs.pool.update
+ *
+ * parentOrgId null removes the organization from its pool; caps (per
+ * metric, per billing period of the pool) replace the member's caps and
+ * can only be set with a parent.
+ */
+export const UpdatePoolMembershipRequestSchema = z
+  .object({
+    orgId: z.string().min(1, "Organization ID is required"),
+    parentOrgId: z.string().min(1).nullable(),
+    caps: PoolCapsSchema.optional(),
+  })
+  .refine((data) => data.parentOrgId !== null || data.caps === undefined, {
+    message: "caps require a parentOrgId",
+    path: ["caps"],
+  });
+
+/**
+ * Response schema for POST /api/admin/orgs.pool.update
+ */
+export const UpdatePoolMembershipResponseSchema = z.object({
+  orgId: z.string(),
+  parentOrgId: z.string().nullable(),
+  caps: PoolCapsSchema,
+});
+
+export type UpdatePoolMembershipRequest = z.infer<
+  typeof UpdatePoolMembershipRequestSchema
+>;
+export type UpdatePoolMembershipResponse = z.infer<
+  typeof UpdatePoolMembershipResponseSchema
+>;
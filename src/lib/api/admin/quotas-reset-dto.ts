@@ -0,0 +1,32 @@
+/**
+ * Quota Reset DTOs
+ *
+ * Zod schemas and TypeScript types for the admin quota reset API.
+ *
+ * @module lib/api/admin/quotas-reset-dto
+ */
+
+import { z } from "zod";
+import { rolloverUsagePeriodsResponseSchema } from "../usage/rollover-usage-periods-dto";
+
+/**
+ * Request schema for POST /api/admin/quotas.reset
+ *
+ * Without filters every active subscription is rolled over.
+ */
+export const ResetQuotasRequestSchema = z.object({
+  periodKey: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Period key must be in YYYY-MM-DD format")
+    .optional(),
+  orgId: z.string().min(1).optional(),
+  dryRun: z.boolean().default(false),
+});
+
+/**
+ * Response schema for POST /api/admin/quotas.reset
+ */
+export const ResetQuotasResponseSchema = rolloverUsagePeriodsResponseSchema;
+
+export type ResetQuotasRequest = z.infer<typeof ResetQuotasRequestSchema>;
+export type ResetQuotasResponse = z.infer<typeof ResetQuotasResponseSchema>;
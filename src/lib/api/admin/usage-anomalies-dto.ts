@@ -0,0 +1,67 @@
+/**
+ * Usage Anomaly DTOs
+ *
+ * Zod schemas and TypeScript types for the admin usage anomaly API.
+ *
+ * @module lib/api/admin/usage-anomalies-dto
+ */
+
+import { z } from "zod";
+
+const UsageAnomalySchema = z.object({
+  id: z.string(),
+  orgId: z.string(),
+  metric: z.string(),
+  hour: z.string(),
+  observed: z.number().int().nonnegative(),
+  baseline: z.number().nonnegative(),
+  ratio: z.number().nonnegative().nullable(),
+  status: z.enum(["open", "resolved"]),
+  capUntil: z.string().nullable(),
+  resolvedAt: z.string().nullable(),
+  resolvedByUserId: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+/**
+ * Query schema for GET /api/admin/usage-anomalies.list
+ */
+export const ListUsageAnomaliesQuerySchema = z.object({
+  orgId: z.string().min(1).optional(),
+  status: z
+    .enum(["open", "resolved"], "Status must be one of: open, resolved")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * Response schema for GET /api/admin/usage-anomalies.list
+ */
+export const ListUsageAnomaliesResponseSchema = z.object({
+  anomalies: z.array(UsageAnomalySchema),
+});
+
+/**
+ * Request schema for POST /api/admin/usage-anomalies.resolve
+ */
+export const ResolveUsageAnomalyRequestSchema = z.object({
+  anomalyId: z.string().min(1, "anomalyId is required"),
+});
+
+/**
+ * Response schema for POST /api/admin/usage-anomalies.resolve
+ */
+export const ResolveUsageAnomalyResponseSchema = UsageAnomalySchema;
+
+export type ListUsageAnomaliesQuery = z.infer<
+  typeof ListUsageAnomaliesQuerySchema
+>;
+export type ListUsageAnomaliesResponse = z.infer<
+  typeof ListUsageAnomaliesResponseSchema
+>;
+export type ResolveUsageAnomalyRequest = z.infer<
+  typeof ResolveUsageAnomalyRequestSchema
+>;
+export type ResolveUsageAnomalyResponse = z.infer<
+  typeof ResolveUsageAnomalyResponseSchema
+>;
@@ -0,0 +1,24 @@
+/**
+ * Overage Reporting DTOs
+ *
+ * Response schemas and types for the overage reporting job endpoint.
+ *
+ * @module lib/api/billing/report-overage-dto
+ */
+
+import { z } from "zod";
+
+/**
+ * Report overage response schema
+ */
+export const reportOverageResponseSchema = z.object({
+  countersChecked: z.number().int().nonnegative(),
+  countersReported: z.number().int().nonnegative(),
+  quantityReported: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+});
+
+/**
+ * Response type for reporting overage
+ */
+export type ReportOverageResponse = z.infer<typeof reportOverageResponseSchema>;
@@ -0,0 +1,106 @@
+/**
+ * Credit DTOs
+ *
+ * Zod schemas and TypeScript types for prepaid credit packs and the credit
+ * ledger API.
+ *
+ * @module lib/api/credits/credits-dto
+ */
+
+import { z } from "zod";
+import { CREDIT_PACKS, CreditPackCode, METRICS } from "../../stripe";
+
+const PACK_CODES = Object.keys(CREDIT_PACKS) as [
+  CreditPackCode,
+  ...CreditPackCode[],
+];
+
+const LEDGER_ENTRY_TYPES = ["grant", "consume", "expire", "release"] as const;
+
+/**
+ * Request schema for POST /api/credits/checkout.create
+ */
+export const CreateCreditCheckoutRequestSchema = z.object({
+  packCode: z.enum(
+    PACK_CODES,
+    `packCode must be one of: ${PACK_CODES.join(", ")}`
+  ),
+});
+
+/**
+ * Response schema for POST /api/credits/checkout.create
+ */
+export const CreateCreditCheckoutResponseSchema = z.object({
+  checkoutSessionId: z.string(),
+  url: z.string(),
+});
+
+/**
+ * Query schema for GET /api/credits/ledger.list
+ */
+export const ListCreditLedgerQuerySchema = z.object({
+  metric: z
+    .enum(METRICS, `Metric must be one of: ${METRICS.join(", ")}`)
+    .optional(),
+  type: z
+    .enum(
+      LEDGER_ENTRY_TYPES,
+      `type must be one of: ${LEDGER_ENTRY_TYPES.join(", ")}`
+    )
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * Response schema for GET /api/credits/ledger.list
+ */
+export const ListCreditLedgerResponseSchema = z.object({
+  balances: z.array(
+    z.object({
+      metric: z.string(),
+      available: z.number().int().nonnegative(),
+    })
+  ),
+  grants: z.array(
+    z.object({
+      id: z.string(),
+      metric: z.string(),
+      packCode: z.string(),
+      amount: z.number().int().positive(),
+      remaining: z.number().int().nonnegative(),
+      expiresAt: z.string(),
+      createdAt: z.string(),
+    })
+  ),
+  entries: z.array(
+    z.object({
+      id: z.string(),
+      creditGrantId: z.string(),
+      metric: z.string(),
+      type: z.enum(LEDGER_ENTRY_TYPES),
+      amount: z.number().int(),
+      usageCounterId: z.string().nullable(),
+      createdAt: z.string(),
+    })
+  ),
+});
+
+/**
+ * Response schema for POST /api/jobs/credits.expire
+ */
+export const ExpireCreditsResponseSchema = z.object({
+  expired: z.number().int().nonnegative(),
+  credits: z.number().int().nonnegative(),
+});
+
+export type CreateCreditCheckoutRequest = z.infer<
+  typeof CreateCreditCheckoutRequestSchema
+>;
+export type CreateCreditCheckoutResponse = z.infer<
+  typeof CreateCreditCheckoutResponseSchema
+>;
+export type ListCreditLedgerQuery = z.infer<typeof ListCreditLedgerQuerySchema>;
+export type ListCreditLedgerResponse = z.infer<
+  typeof ListCreditLedgerResponseSchema
+>;
+export type ExpireCreditsResponse = z.infer<typeof ExpireCreditsResponseSchema>;
@@ -1,8 +1,8 @@
 /**
  * Entitlements DTOs
- * 
+ *
  * Zod schemas and TypeScript types for entitlements API.
- * 
+ *
  * @module lib/api/entitlements/entitlements-dto
  */
 
@@ -13,11 +13,68 @@ import { z } from "zod";
  */
 export const GetEntitlementsResponseSchema = z.object({
   planCode: z.string(),
+  mode: z.enum(["hard", "soft", "unlimited"]),
   included: z.number().int().nonnegative(),
+  rolledOver: z.number().int().nonnegative(),
   used: z.number().int().nonnegative(),
   remaining: z.number().int(),
-  periodKey: z.string().regex(/^\d{4}-\d{2}$/, "Period key must be in YYYY-MM format"),
+  overageAllowance: z.number().int().nonnegative().nullable(),
+  projectedUsed: z.number().int().nonnegative(),
+  exhaustsAt: z.string().nullable(),
+  periodKey: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Period key must be in YYYY-MM-DD format"),
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  metrics: z.array(
+    z.object({
+      metric: z.string(),
+      included: z.number().int().nonnegative(),
+      rolledOver: z.number().int().nonnegative(),
+      used: z.number().int().nonnegative(),
+      remaining: z.number().int(),
+      overageAllowance: z.number().int().nonnegative().nullable(),
+      projectedUsed: z.number().int().nonnegative(),
+      exhaustsAt: z.string().nullable(),
+    })
+  ),
+  pool: z
+    .object({
+      parentOrgId: z.string(),
+      metrics: z.array(
+        z.object({
+          metric: z.string(),
+          cap: z.number().int().nonnegative().nullable(),
+          used: z.number().int().nonnegative(),
+          remaining: z.number().int().nonnegative().nullable(),
+        })
+      ),
+    })
+    .nullable(),
+  member: z
+    .object({
+      userId: z.string(),
+      metrics: z.array(
+        z.object({
+          metric: z.string(),
+          cap: z.number().int().nonnegative().nullable(),
+          used: z.number().int().nonnegative(),
+          remaining: z.number().int().nonnegative().nullable(),
+        })
+      ),
+    })
+    .nullable(),
+  anomalies: z.array(
+    z.object({
+      metric: z.string(),
+      hour: z.string(),
+      observed: z.number().int().nonnegative(),
+      baseline: z.number().nonnegative(),
+      capUntil: z.string().nullable(),
+    })
+  ),
 });
 
-export type GetEntitlementsResponse = z.infer<typeof GetEntitlementsResponseSchema>;
-
+export type GetEntitlementsResponse = z.infer<
+  typeof GetEntitlementsResponseSchema
+>;
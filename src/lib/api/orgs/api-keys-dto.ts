@@ -0,0 +1,85 @@
+/**
+ * API Key DTOs
+ *
+ * Zod schemas and TypeScript types for org-scoped API key management.
+ *
+ * @module lib/api/orgs/api-keys-dto
+ */
+
+import { z } from "zod";
+import { config } from "../../config";
+
+const SCOPES = config.apiKeys.scopes;
+
+const ApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(z.string()),
+  status: z.enum(["active", "expired", "revoked"]),
+  expiresAt: z.string().nullable(),
+  lastUsedAt: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+  createdByUserId: z.string(),
+  createdAt: z.string(),
+});
+
+const IssuedApiKeySchema = ApiKeySchema.extend({
+  key: z.string(),
+});
+
+/**
+ * Request schema for POST /api/orgs/api-keys.create
+ */
+export const CreateApiKeyRequestSchema = z.object({
+  name: z.string().min(1, "name is required").max(100),
+  scopes: z
+    .array(z.enum(SCOPES, `Scope must be one of: ${SCOPES.join(", ")}`))
+    .min(1, "At least one scope is required"),
+  expiresAt: z.iso.datetime("Invalid ISO 8601 datetime format").optional(),
+});
+
+/**
+ * Response schema for POST /api/orgs/api-keys.create
+ * (the full key is only returned here and by api-keys.rotate)
+ */
+export const CreateApiKeyResponseSchema = IssuedApiKeySchema;
+
+/**
+ * Response schema for GET /api/orgs/api-keys.list
+ */
+export const ListApiKeysResponseSchema = z.object({
+  keys: z.array(ApiKeySchema),
+});
+
+/**
+ * Request schema for POST /api/orgs/api-keys.rotate
+ */
+export const RotateApiKeyRequestSchema = z.object({
+  keyId: z.string().min(1, "keyId is required"),
+});
+
+/**
+ * Response schema for POST /api/orgs/api-keys.rotate
+ */
+export const RotateApiKeyResponseSchema = IssuedApiKeySchema;
+
+/**
+ * Request schema for POST /api/orgs/api-keys.revoke
+ */
+export const RevokeApiKeyRequestSchema = z.object({
+  keyId: z.string().min(1, "keyId is required"),
+});
+
+/**
+ * Response schema for POST /api/orgs/api-keys.revoke
+ */
+export const RevokeApiKeyResponseSchema = ApiKeySchema;
+
+export type CreateApiKeyRequest = z.infer<typeof CreateApiKeyRequestSchema>;
+export type CreateApiKeyResponse = z.infer<typeof CreateApiKeyResponseSchema>;
+export type ListApiKeysResponse = z.infer<typeof ListApiKeysResponseSchema>;
+export type RotateApiKeyRequest = z.infer<typeof RotateApiKeyRequestSchema>;
+export type RotateApiKeyResponse = z.infer<typeof RotateApiKeyResponseSchema>;
+export type RevokeApiKeyRequest = z.infer<typeof RevokeApiKeyRequestSchema>;
+export type RevokeApiKeyResponse = z.infer<typeof RevokeApiKeyResponseSchema>;
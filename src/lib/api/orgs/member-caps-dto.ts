@@ -0,0 +1,58 @@
+/**
+ * Member Cap DTOs
+ *
+ * Zod schemas and TypeScript types for the organization member caps API.
+ *
+ * @module lib/api/orgs/member-caps-dto
+ */
+
+import { z } from "zod";
+import { METRICS } from "../../stripe";
+
+/**
+ * Request schema for POST /api/orgs/members.caps.set
+ *
+ * cap is per billing period; null removes the member's cap for the metric.
+ */
+export const SetMemberCapRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  metric: z.enum(METRICS, `Metric must be one of: ${METRICS.join(", ")}`),
+  cap: z.number().int().nonnegative().nullable(),
+});
+
+/**
+ * Response schema for POST /api/orgs/members.caps.set
+ */
+export const SetMemberCapResponseSchema = z.object({
+  orgId: z.string(),
+  userId: z.string(),
+  metric: z.string(),
+  cap: z.number().int().nonnegative().nullable(),
+});
+
+/**
+ * Query schema for GET /api/orgs/members.caps.list
+ */
+export const ListMemberCapsQuerySchema = z.object({
+  userId: z.string().min(1).optional(),
+});
+
+/**
+ * Response schema for GET /api/orgs/members.caps.list
+ */
+export const ListMemberCapsResponseSchema = z.object({
+  caps: z.array(
+    z.object({
+      userId: z.string(),
+      metric: z.string(),
+      cap: z.number().int().nonnegative(),
+    })
+  ),
+});
+
+export type SetMemberCapRequest = z.infer<typeof SetMemberCapRequestSchema>;
+export type SetMemberCapResponse = z.infer<typeof SetMemberCapResponseSchema>;
+export type ListMemberCapsQuery = z.infer<typeof ListMemberCapsQuerySchema>;
+export type ListMemberCapsResponse = z.infer<
+  typeof ListMemberCapsResponseSchema
+>;
@@ -1,8 +1,8 @@
 /**
  * Quota Check DTOs
- * 
+ *
  * Zod schemas and TypeScript types for quota check API.
- * 
+ *
  * @module lib/api/quota/quota-check-dto
  */
 
@@ -18,15 +18,57 @@ export const CheckQuotaRequestSchema = z.object({
 
 /**
  * Response schema for POST /api/quota/check
- * 
- * Success (200): {allow: true, remaining: number}
- * Denied (429): {allow: false, remaining: 0}
+ *
+ * Success (200): {allow: true, limit, used, remaining, resetAt, status: 'within_quota' | 'in_overage', mode, ...}
+ * Denied (429): {allow: false, remaining: 0, status: 'blocked'}
+ *
+ * overageAllowance/overageRemaining are null when the plan is unlimited;
+ * rolledOver is unused quota carried over from earlier periods (counted in
+ * limit); credits (prepaid credits left, counted in limit) is null while usage is
+ * within included; upgrade is null when no plan includes more of the metric.
+ *
+ * For a pool member, limit/used describe its parent's pool and pool carries
+ * the member's own usage and cap (null outside a pool); remaining is the
+ * lesser of the pool's and the cap's.
+ *
+ * member carries the caller's own usage and member cap when the caller has
+ * a cap on the metric (null otherwise); remaining is limited by it too.
  */
 export const CheckQuotaResponseSchema = z.object({
   allow: z.boolean(),
+  limit: z.number().int().nonnegative(),
+  used: z.number().int().nonnegative(),
   remaining: z.number().int(),
+  resetAt: z.string().datetime(),
+  status: z.enum(["within_quota", "in_overage", "blocked"]),
+  mode: z.enum(["hard", "soft", "unlimited"]),
+  overageAllowance: z.number().int().nonnegative().nullable(),
+  overageRemaining: z.number().int().nonnegative().nullable(),
+  rolledOver: z.number().int().nonnegative(),
+  credits: z.number().int().nonnegative().nullable(),
+  upgrade: z
+    .object({
+      planCode: z.string(),
+      limit: z.number().int().nonnegative(),
+    })
+    .nullable(),
+  pool: z
+    .object({
+      parentOrgId: z.string(),
+      cap: z.number().int().nonnegative().nullable(),
+      used: z.number().int().nonnegative(),
+      remaining: z.number().int().nonnegative().nullable(),
+    })
+    .nullable(),
+  member: z
+    .object({
+      userId: z.string(),
+      cap: z.number().int().nonnegative(),
+      used: z.number().int().nonnegative(),
+      remaining: z.number().int().nonnegative(),
+    })
+    .nullable(),
 });
 
 export type CheckQuotaRequest = z.infer<typeof CheckQuotaRequestSchema>;
 export type CheckQuotaResponse = z.infer<typeof CheckQuotaResponseSchema>;
-
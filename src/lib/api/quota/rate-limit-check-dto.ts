@@ -0,0 +1,35 @@
+/**
+ * Rate Limit Check DTOs
+ *
+ * Zod schemas and TypeScript types for rate limit check API.
+ *
+ * @module lib/api/quota/rate-limit-check-dto
+ */
+
+import { z } from "zod";
+
+/**
+ * Request schema for POST /api/quota/rate-limit.check
+ */
+export const CheckRateLimitRequestSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+});
+
+/**
+ * Response schema for POST /api/quota/rate-limit.check
+ *
+ * Success (200): {allow: true, window, limit, remaining}
+ * window/limit/remaining describe the most constrained bucket after this
+ * request was counted. Denials are returned as a 429 RATE_LIMITED envelope.
+ */
+export const CheckRateLimitResponseSchema = z.object({
+  allow: z.boolean(),
+  window: z.enum(["second", "minute"]),
+  limit: z.number().int().positive(),
+  remaining: z.number().int().nonnegative(),
+});
+
+export type CheckRateLimitRequest = z.infer<typeof CheckRateLimitRequestSchema>;
+export type CheckRateLimitResponse = z.infer<
+  typeof CheckRateLimitResponseSchema
+>;
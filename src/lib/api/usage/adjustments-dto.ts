@@ -0,0 +1,98 @@
+/**
+ * Usage Adjustment DTOs
+ *
+ * Zod schemas and TypeScript types for usage adjustments API.
+ *
+ * @module lib/api/usage/adjustments-dto
+ */
+
+import { z } from "zod";
+import { METRICS } from "../../stripe";
+import { config } from "../../config";
+
+const PeriodKeySchema = z
+  .string()
+  .regex(
+    /^\d{4}-\d{2}(-\d{2})?$/,
+    "Period key must be in YYYY-MM-DD (or legacy YYYY-MM) format"
+  );
+
+/**
+ * Request schema for POST /api/usage/adjustments.create
+ * (periodKey may be omitted when request_id identifies the corrected usage)
+ */
+export const CreateUsageAdjustmentRequestSchema = z
+  .object({
+    orgId: z.string().min(1, "Organization ID is required"),
+    metric: z
+      .enum(METRICS, `Metric must be one of: ${METRICS.join(", ")}`)
+      .default(config.usage.defaultMetric),
+    periodKey: PeriodKeySchema.optional(),
+    type: z.enum(["credit", "debit"], "Type must be one of: credit, debit"),
+    amount: z.number().int().positive("Amount must be a positive integer"),
+    reason: z
+      .string()
+      .trim()
+      .min(1, "Reason is required")
+      .max(500, "Reason must be at most 500 characters"),
+    request_id: z.string().min(1).optional(),
+  })
+  .refine((body) => body.periodKey || body.request_id, {
+    error: "periodKey or request_id is required",
+    path: ["periodKey"],
+  });
+
+export const UsageAdjustmentSchema = z.object({
+  id: z.string(),
+  type: z.enum(["credit", "debit"]),
+  metric: z.string(),
+  periodKey: z.string(),
+  delta: z.number().int(),
+  usedBefore: z.number().int().nonnegative(),
+  usedAfter: z.number().int().nonnegative(),
+  reason: z.string(),
+  actorUserId: z.string(),
+  request_id: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+/**
+ * Response schema for POST /api/usage/adjustments.create
+ */
+export const CreateUsageAdjustmentResponseSchema = z.object({
+  adjustment: UsageAdjustmentSchema,
+  periodKey: z.string(),
+  used: z.number().int().nonnegative(),
+  remaining: z.number().int(),
+});
+
+/**
+ * Query schema for GET /api/usage/adjustments.list
+ */
+export const ListUsageAdjustmentsQuerySchema = z.object({
+  periodKey: PeriodKeySchema.optional(),
+  metric: z
+    .enum(METRICS, `Metric must be one of: ${METRICS.join(", ")}`)
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * Response schema for GET /api/usage/adjustments.list
+ */
+export const ListUsageAdjustmentsResponseSchema = z.object({
+  adjustments: z.array(UsageAdjustmentSchema),
+});
+
+export type CreateUsageAdjustmentRequest = z.infer<
+  typeof CreateUsageAdjustmentRequestSchema
+>;
+export type CreateUsageAdjustmentResponse = z.infer<
+  typeof CreateUsageAdjustmentResponseSchema
+>;
+export type ListUsageAdjustmentsQuery = z.infer<
+  typeof ListUsageAdjustmentsQuerySchema
+>;
+export type ListUsageAdjustmentsResponse = z.infer<
+  typeof ListUsageAdjustmentsResponseSchema
+>;
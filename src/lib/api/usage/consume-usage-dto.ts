@@ -0,0 +1,27 @@
+/**
+ * Consume Usage DTOs
+ *
+ * Zod schemas and TypeScript types for atomic usage consumption API.
+ * Request and response shapes match POST /api/usage/record.
+ *
+ * @module lib/api/usage/consume-usage-dto
+ */
+
+import { z } from "zod";
+import {
+  RecordUsageRequestSchema,
+  RecordUsageResponseSchema,
+} from "./record-usage-dto";
+
+/**
+ * Request schema for POST /api/usage/consume
+ */
+export const ConsumeUsageRequestSchema = RecordUsageRequestSchema;
+
+/**
+ * Response schema for POST /api/usage/consume
+ */
+export const ConsumeUsageResponseSchema = RecordUsageResponseSchema;
+
+export type ConsumeUsageRequest = z.infer<typeof ConsumeUsageRequestSchema>;
+export type ConsumeUsageResponse = z.infer<typeof ConsumeUsageResponseSchema>;
@@ -0,0 +1,55 @@
+/**
+ * Usage Anomaly Detection DTOs
+ *
+ * Request/response schemas and types for the usage anomaly detection job
+ * endpoint.
+ *
+ * @module lib/api/usage/detect-usage-anomalies-dto
+ */
+
+import { z } from "zod";
+
+/**
+ * Detect usage anomalies request schema
+ *
+ * hour defaults to the last complete UTC hour.
+ */
+export const detectUsageAnomaliesRequestSchema = z.object({
+  hour: z.iso.datetime("Invalid ISO 8601 datetime format").optional(),
+});
+
+/**
+ * Detect usage anomalies response schema
+ */
+export const detectUsageAnomaliesResponseSchema = z.object({
+  hour: z.string(),
+  checked: z.number().int().nonnegative(),
+  flagged: z.number().int().nonnegative(),
+  capped: z.number().int().nonnegative(),
+  anomalies: z.array(
+    z.object({
+      id: z.string(),
+      orgId: z.string(),
+      metric: z.string(),
+      hour: z.string(),
+      observed: z.number().int().nonnegative(),
+      baseline: z.number().nonnegative(),
+      ratio: z.number().nonnegative().nullable(),
+      capUntil: z.string().nullable(),
+    })
+  ),
+});
+
+/**
+ * Request type for detecting usage anomalies
+ */
+export type DetectUsageAnomaliesRequest = z.infer<
+  typeof detectUsageAnomaliesRequestSchema
+>;
+
+/**
+ * Response type for detecting usage anomalies
+ */
+export type DetectUsageAnomaliesResponse = z.infer<
+  typeof detectUsageAnomaliesResponseSchema
+>;
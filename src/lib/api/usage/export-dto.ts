@@ -0,0 +1,37 @@
+/**
+ * Usage Export DTOs
+ *
+ * Zod schemas and TypeScript types for the usage export API.
+ *
+ * @module lib/api/usage/export-dto
+ */
+
+import { z } from "zod";
+import { METRICS } from "../../stripe";
+
+/**
+ * Query schema for GET /api/usage/export
+ */
+export const UsageExportQuerySchema = z
+  .object({
+    format: z
+      .enum(["csv", "ndjson"], "Format must be one of: csv, ndjson")
+      .default("csv"),
+    granularity: z
+      .enum(
+        ["record", "hour", "day"],
+        "Granularity must be one of: record, hour, day"
+      )
+      .default("record"),
+    from: z.iso.datetime("Invalid ISO 8601 datetime format"),
+    to: z.iso.datetime("Invalid ISO 8601 datetime format"),
+    metric: z
+      .enum(METRICS, `Metric must be one of: ${METRICS.join(", ")}`)
+      .optional(),
+  })
+  .refine((query) => new Date(query.from) < new Date(query.to), {
+    error: "from must be before to",
+    path: ["from"],
+  });
+
+export type UsageExportQuery = z.infer<typeof UsageExportQuerySchema>;
@@ -0,0 +1,28 @@
+/**
+ * Usage Journal Flush DTOs
+ *
+ * Response schemas and types for the usage journal flush job endpoint.
+ *
+ * @module lib/api/usage/flush-usage-journal-dto
+ */
+
+import { z } from "zod";
+
+/**
+ * Flush usage journal response schema
+ *
+ * enabled is false (and all counts 0) when REDIS_URL is not set.
+ */
+export const flushUsageJournalResponseSchema = z.object({
+  enabled: z.boolean(),
+  flushed: z.number().int().nonnegative(),
+  applied: z.number().int().nonnegative(),
+  skipped: z.number().int().nonnegative(),
+});
+
+/**
+ * Response type for flushing the usage journal
+ */
+export type FlushUsageJournalResponse = z.infer<
+  typeof flushUsageJournalResponseSchema
+>;
@@ -0,0 +1,44 @@
+/**
+ * Usage Forecast DTOs
+ *
+ * Zod schemas and TypeScript types for the usage forecast API.
+ *
+ * @module lib/api/usage/forecast-dto
+ */
+
+import { z } from "zod";
+import { METRICS } from "../../stripe";
+
+/**
+ * Query schema for GET /api/usage/forecast
+ */
+export const UsageForecastQuerySchema = z.object({
+  metric: z
+    .enum(METRICS, `Metric must be one of: ${METRICS.join(", ")}`)
+    .optional(),
+});
+
+/**
+ * Response schema for GET /api/usage/forecast
+ */
+export const UsageForecastResponseSchema = z.object({
+  periodKey: z.string(),
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  asOf: z.string(),
+  forecasts: z.array(
+    z.object({
+      metric: z.string(),
+      used: z.number().int().nonnegative(),
+      limit: z.number().int().nonnegative(),
+      remaining: z.number().int(),
+      dailyRate: z.number().nonnegative(),
+      projectedUsed: z.number().int().nonnegative(),
+      projectedOverage: z.number().int().nonnegative(),
+      exhaustsAt: z.string().nullable(),
+    })
+  ),
+});
+
+export type UsageForecastQuery = z.infer<typeof UsageForecastQuerySchema>;
+export type UsageForecastResponse = z.infer<typeof UsageForecastResponseSchema>;
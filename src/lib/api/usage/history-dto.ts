@@ -0,0 +1,67 @@
+/**
+ * Usage History DTOs
+ *
+ * Zod schemas and TypeScript types for the usage history API.
+ *
+ * @module lib/api/usage/history-dto
+ */
+
+import { z } from "zod";
+import { METRICS } from "../../stripe";
+import { config } from "../../config";
+import { UsageAdjustmentSchema } from "./adjustments-dto";
+
+/**
+ * Query schema for GET /api/usage/history
+ */
+export const UsageHistoryQuerySchema = z
+  .object({
+    metric: z
+      .enum(METRICS, `Metric must be one of: ${METRICS.join(", ")}`)
+      .default(config.usage.defaultMetric),
+    from: z.iso.datetime("Invalid ISO 8601 datetime format").optional(),
+    to: z.iso.datetime("Invalid ISO 8601 datetime format").optional(),
+    granularity: z
+      .enum(
+        ["hour", "day", "period"],
+        "Granularity must be one of: hour, day, period"
+      )
+      .default("day"),
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+  })
+  .refine(
+    (query) =>
+      !query.from || !query.to || new Date(query.from) < new Date(query.to),
+    { error: "from must be before to", path: ["from"] }
+  );
+
+/**
+ * Response schema for GET /api/usage/history
+ */
+export const UsageHistoryResponseSchema = z.object({
+  metric: z.string(),
+  from: z.string(),
+  to: z.string(),
+  granularity: z.enum(["hour", "day", "period"]),
+  buckets: z.array(
+    z.object({
+      bucket: z.string(),
+      value: z.number().int().nonnegative(),
+      count: z.number().int().nonnegative(),
+    })
+  ),
+  records: z.array(
+    z.object({
+      id: z.string(),
+      value: z.number().int(),
+      occurredAt: z.string(),
+      requestId: z.string().nullable(),
+    })
+  ),
+  nextCursor: z.string().nullable(),
+  adjustments: z.array(UsageAdjustmentSchema),
+});
+
+export type UsageHistoryQuery = z.infer<typeof UsageHistoryQuerySchema>;
+export type UsageHistoryResponse = z.infer<typeof UsageHistoryResponseSchema>;
@@ -0,0 +1,52 @@
+/**
+ * Period Key Migration DTOs
+ *
+ * Request/response schemas and types for the period key migration job
+ * endpoint.
+ *
+ * @module lib/api/usage/migrate-period-keys-dto
+ */
+
+import { z } from "zod";
+
+/**
+ * Migrate period keys request schema
+ */
+export const migratePeriodKeysRequestSchema = z.object({
+  dryRun: z.boolean().default(false),
+  limit: z.number().int().min(1).max(1000).default(500),
+});
+
+/**
+ * Migrate period keys response schema
+ */
+export const migratePeriodKeysResponseSchema = z.object({
+  dryRun: z.boolean(),
+  scanned: z.number().int().nonnegative(),
+  migrated: z.number().int().nonnegative(),
+  conflicts: z.number().int().nonnegative(),
+  counters: z.array(
+    z.object({
+      usageCounterId: z.string(),
+      clerkOrgId: z.string(),
+      metric: z.string(),
+      from: z.string(),
+      to: z.string(),
+      status: z.enum(["pending", "migrated", "conflict"]),
+    })
+  ),
+});
+
+/**
+ * Request type for migrating period keys
+ */
+export type MigratePeriodKeysRequest = z.infer<
+  typeof migratePeriodKeysRequestSchema
+>;
+
+/**
+ * Response type for migrating period keys
+ */
+export type MigratePeriodKeysResponse = z.infer<
+  typeof migratePeriodKeysResponseSchema
+>;
@@ -0,0 +1,23 @@
+/**
+ * Idempotency Key Purge DTOs
+ *
+ * Response schemas and types for the idempotency key purge job endpoint.
+ *
+ * @module lib/api/usage/purge-idempotency-keys-dto
+ */
+
+import { z } from "zod";
+
+/**
+ * Purge idempotency keys response schema
+ */
+export const purgeIdempotencyKeysResponseSchema = z.object({
+  deleted: z.number().int().nonnegative(),
+});
+
+/**
+ * Response type for purging idempotency keys
+ */
+export type PurgeIdempotencyKeysResponse = z.infer<
+  typeof purgeIdempotencyKeysResponseSchema
+>;
@@ -0,0 +1,52 @@
+/**
+ * Usage Rollup Rebuild DTOs
+ *
+ * Request/response schemas and types for the usage rollup rebuild job
+ * endpoint.
+ *
+ * @module lib/api/usage/rebuild-usage-rollups-dto
+ */
+
+import { z } from "zod";
+
+/**
+ * Rebuild usage rollups request schema
+ */
+export const rebuildUsageRollupsRequestSchema = z
+  .object({
+    from: z.iso.datetime("Invalid ISO 8601 datetime format"),
+    to: z.iso.datetime("Invalid ISO 8601 datetime format"),
+    orgId: z.string().min(1).optional(),
+  })
+  .refine((body) => new Date(body.from) < new Date(body.to), {
+    error: "from must be before to",
+    path: ["from"],
+  });
+
+/**
+ * Rebuild usage rollups response schema
+ *
+ * from/to are the rebuilt range widened to whole UTC days; the bucket
+ * counts are the hourly and daily rollup rows written.
+ */
+export const rebuildUsageRollupsResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  days: z.number().int().positive(),
+  hourlyBuckets: z.number().int().nonnegative(),
+  dailyBuckets: z.number().int().nonnegative(),
+});
+
+/**
+ * Request type for rebuilding usage rollups
+ */
+export type RebuildUsageRollupsRequest = z.infer<
+  typeof rebuildUsageRollupsRequestSchema
+>;
+
+/**
+ * Response type for rebuilding usage rollups
+ */
+export type RebuildUsageRollupsResponse = z.infer<
+  typeof rebuildUsageRollupsResponseSchema
+>;
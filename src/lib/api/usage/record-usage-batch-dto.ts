@@ -0,0 +1,71 @@
+/**
+ * Record Usage Batch DTOs
+ *
+ * Zod schemas and TypeScript types for batch usage recording API.
+ * Items follow the same rules as POST /api/usage/record.
+ *
+ * @module lib/api/usage/record-usage-batch-dto
+ */
+
+import { z } from "zod";
+import { config } from "../../config";
+import { RecordUsageRequestSchema } from "./record-usage-dto";
+
+/**
+ * Item schema for POST /api/usage/record.batch
+ * (RecordUsageRequestSchema without orgId, which is given once per batch)
+ */
+export const RecordUsageBatchItemSchema = RecordUsageRequestSchema.omit({
+  orgId: true,
+});
+
+/**
+ * Request schema for POST /api/usage/record.batch
+ *
+ * Items are validated one by one so a bad item is rejected on its own
+ * instead of failing the whole batch.
+ */
+export const RecordUsageBatchRequestSchema = z.object({
+  orgId: z.string().min(1, "Organization ID is required"),
+  items: z
+    .array(z.unknown())
+    .min(1, "At least one item is required")
+    .max(
+      config.usage.batchMaxItems,
+      `At most ${config.usage.batchMaxItems} items are allowed per batch`
+    ),
+});
+
+/**
+ * Response schema for POST /api/usage/record.batch
+ */
+export const RecordUsageBatchResponseSchema = z.object({
+  results: z.array(
+    z.object({
+      index: z.number().int().nonnegative(),
+      request_id: z.string().nullable(),
+      status: z.enum(["recorded", "duplicate", "rejected"]),
+      code: z.string().optional(),
+      reason: z.string().optional(),
+    })
+  ),
+  recorded: z.number().int().nonnegative(),
+  duplicates: z.number().int().nonnegative(),
+  rejected: z.number().int().nonnegative(),
+  counters: z.array(
+    z.object({
+      metric: z.string(),
+      periodKey: z.string(),
+      used: z.number().int().nonnegative(),
+      remaining: z.number().int(),
+    })
+  ),
+});
+
+export type RecordUsageBatchItem = z.infer<typeof RecordUsageBatchItemSchema>;
+export type RecordUsageBatchRequest = z.infer<
+  typeof RecordUsageBatchRequestSchema
+>;
+export type RecordUsageBatchResponse = z.infer<
+  typeof RecordUsageBatchResponseSchema
+>;
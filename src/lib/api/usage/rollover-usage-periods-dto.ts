@@ -0,0 +1,32 @@
+/**
+ * Usage Period Rollover DTOs
+ *
+ * Response schemas and types for the usage period rollover job endpoint.
+ *
+ * @module lib/api/usage/rollover-usage-periods-dto
+ */
+
+import { z } from "zod";
+
+/**
+ * Rollover usage periods response schema
+ *
+ * updated counts subscriptions that got new counters or had earlier
+ * counters closed; created/closed count the counters themselves.
+ */
+export const rolloverUsagePeriodsResponseSchema = z.object({
+  dryRun: z.boolean(),
+  periodKey: z.string().nullable(),
+  checked: z.number().int().nonnegative(),
+  updated: z.number().int().nonnegative(),
+  created: z.number().int().nonnegative(),
+  closed: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+});
+
+/**
+ * Response type for rolling over usage periods
+ */
+export type RolloverUsagePeriodsResponse = z.infer<
+  typeof rolloverUsagePeriodsResponseSchema
+>;
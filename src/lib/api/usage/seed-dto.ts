@@ -1,8 +1,8 @@
 /**
  * Usage Seed DTOs
- * 
+ *
  * Request/response schemas and types for usage counter seeding endpoint.
- * 
+ *
  * @module lib/api/usage/seed-dto
  */
 
@@ -21,6 +21,15 @@ export const seedUsageRequestSchema = z.object({
 export const seedUsageResponseSchema = z.object({
   periodKey: z.string(),
   remaining: z.number(),
+  counters: z.array(
+    z.object({
+      metric: z.string(),
+      included: z.number(),
+      rolledOver: z.number(),
+      used: z.number(),
+      remaining: z.number(),
+    })
+  ),
 });
 
 /**
@@ -32,4 +41,3 @@ export type SeedUsageRequest = z.infer<typeof seedUsageRequestSchema>;
  * Response type for seeding usage counter
  */
 export type SeedUsageResponse = z.infer<typeof seedUsageResponseSchema>;
-
@@ -0,0 +1,51 @@
+/**
+ * Usage Threshold DTOs
+ *
+ * Zod schemas and TypeScript types for usage threshold events API.
+ *
+ * @module lib/api/usage/thresholds-dto
+ */
+
+import { z } from "zod";
+import { METRICS } from "../../stripe";
+
+/**
+ * Query schema for GET /api/usage/thresholds.list
+ */
+export const ListThresholdEventsQuerySchema = z.object({
+  periodKey: z
+    .string()
+    .regex(
+      /^\d{4}-\d{2}(-\d{2})?$/,
+      "Period key must be in YYYY-MM-DD (or legacy YYYY-MM) format"
+    )
+    .optional(),
+  metric: z
+    .enum(METRICS, `Metric must be one of: ${METRICS.join(", ")}`)
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * Response schema for GET /api/usage/thresholds.list
+ */
+export const ListThresholdEventsResponseSchema = z.object({
+  events: z.array(
+    z.object({
+      id: z.string(),
+      metric: z.string(),
+      periodKey: z.string(),
+      threshold: z.number().int().positive(),
+      included: z.number().int().nonnegative(),
+      used: z.number().int().nonnegative(),
+      createdAt: z.string(),
+    })
+  ),
+});
+
+export type ListThresholdEventsQuery = z.infer<
+  typeof ListThresholdEventsQuerySchema
+>;
+export type ListThresholdEventsResponse = z.infer<
+  typeof ListThresholdEventsResponseSchema
+>;
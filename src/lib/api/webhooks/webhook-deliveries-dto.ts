@@ -0,0 +1,85 @@
+/**
+ * Webhook Delivery DTOs
+ *
+ * Zod schemas and TypeScript types for the outbound webhook delivery log,
+ * manual redelivery and the delivery job.
+ *
+ * @module lib/api/webhooks/webhook-deliveries-dto
+ */
+
+import { z } from "zod";
+
+const WebhookDeliverySchema = z.object({
+  id: z.string(),
+  endpointId: z.string(),
+  eventId: z.string(),
+  eventType: z.string(),
+  status: z.enum(["pending", "succeeded", "failed"]),
+  attempts: z.number().int().nonnegative(),
+  nextAttemptAt: z.string().nullable(),
+  lastAttemptAt: z.string().nullable(),
+  responseStatus: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+/**
+ * Query schema for GET /api/webhooks/deliveries.list
+ */
+export const ListWebhookDeliveriesQuerySchema = z.object({
+  endpointId: z.string().min(1).optional(),
+  status: z
+    .enum(
+      ["pending", "succeeded", "failed"],
+      "Status must be one of: pending, succeeded, failed"
+    )
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * Response schema for GET /api/webhooks/deliveries.list
+ */
+export const ListWebhookDeliveriesResponseSchema = z.object({
+  deliveries: z.array(WebhookDeliverySchema),
+});
+
+/**
+ * Request schema for POST /api/webhooks/deliveries.redeliver
+ */
+export const RedeliverWebhookRequestSchema = z.object({
+  deliveryId: z.string().min(1, "deliveryId is required"),
+});
+
+/**
+ * Response schema for POST /api/webhooks/deliveries.redeliver
+ */
+export const RedeliverWebhookResponseSchema = WebhookDeliverySchema;
+
+/**
+ * Response schema for POST /api/jobs/webhooks.deliver
+ */
+export const DeliverWebhooksResponseSchema = z.object({
+  checked: z.number().int().nonnegative(),
+  delivered: z.number().int().nonnegative(),
+  retrying: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+  skipped: z.number().int().nonnegative(),
+  errors: z.number().int().nonnegative(),
+});
+
+export type ListWebhookDeliveriesQuery = z.infer<
+  typeof ListWebhookDeliveriesQuerySchema
+>;
+export type ListWebhookDeliveriesResponse = z.infer<
+  typeof ListWebhookDeliveriesResponseSchema
+>;
+export type RedeliverWebhookRequest = z.infer<
+  typeof RedeliverWebhookRequestSchema
+>;
+export type RedeliverWebhookResponse = z.infer<
+  typeof RedeliverWebhookResponseSchema
+>;
+export type DeliverWebhooksResponse = z.infer<
+  typeof DeliverWebhooksResponseSchema
+>;
@@ -0,0 +1,117 @@
+/**
+ * Webhook Endpoint DTOs
+ *
+ * Zod schemas and TypeScript types for tenant webhook endpoint management.
+ *
+ * @module lib/api/webhooks/webhook-endpoints-dto
+ */
+
+import { z } from "zod";
+import { config } from "../../config";
+import { isPublicHostname } from "../../utils/security/outbound-address";
+
+const EVENT_TYPES = config.webhooks.outbound.eventTypes;
+
+const EndpointUrlSchema = z
+  .url({
+    protocol: /^https$/,
+    error: "url must be a valid https:// URL",
+  })
+  .refine(
+    (url) =>
+      config.webhooks.outbound.allowPrivateNetworks ||
+      isPublicHostname(new URL(url).hostname),
+    "url must point to a public host"
+  );
+
+const EndpointEventsSchema = z
+  .array(z.enum(EVENT_TYPES, `Event must be one of: ${EVENT_TYPES.join(", ")}`))
+  .min(1, "At least one event is required");
+
+const WebhookEndpointSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  events: z.array(z.string()),
+  description: z.string().nullable(),
+  enabled: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * Request schema for POST /api/webhooks/endpoints.create
+ */
+export const CreateWebhookEndpointRequestSchema = z.object({
+  url: EndpointUrlSchema,
+  events: EndpointEventsSchema,
+  description: z.string().max(255).optional(),
+});
+
+/**
+ * Response schema for POST /api/webhooks/endpoints.create
+ * (the only response that includes the signing secret)
+ */
+export const CreateWebhookEndpointResponseSchema = WebhookEndpointSchema.extend(
+  {
+    secret: z.string(),
+  }
+);
+
+/**
+ * Response schema for GET /api/webhooks/endpoints.list
+ */
+export const ListWebhookEndpointsResponseSchema = z.object({
+  endpoints: z.array(WebhookEndpointSchema),
+});
+
+/**
+ * Request schema for POST /api/webhooks/endpoints.update
+ */
+export const UpdateWebhookEndpointRequestSchema = z.object({
+  endpointId: z.string().min(1, "endpointId is required"),
+  url: EndpointUrlSchema.optional(),
+  events: EndpointEventsSchema.optional(),
+  description: z.string().max(255).nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+/**
+ * Response schema for POST /api/webhooks/endpoints.update
+ */
+export const UpdateWebhookEndpointResponseSchema = WebhookEndpointSchema;
+
+/**
+ * Request schema for POST /api/webhooks/endpoints.delete
+ */
+export const DeleteWebhookEndpointRequestSchema = z.object({
+  endpointId: z.string().min(1, "endpointId is required"),
+});
+
+/**
+ * Response schema for POST /api/webhooks/endpoints.delete
+ */
+export const DeleteWebhookEndpointResponseSchema = z.object({
+  deleted: z.literal(true),
+});
+
+export type CreateWebhookEndpointRequest = z.infer<
+  typeof CreateWebhookEndpointRequestSchema
+>;
+export type CreateWebhookEndpointResponse = z.infer<
+  typeof CreateWebhookEndpointResponseSchema
+>;
+export type ListWebhookEndpointsResponse = z.infer<
+  typeof ListWebhookEndpointsResponseSchema
+>;
+export type UpdateWebhookEndpointRequest = z.infer<
+  typeof UpdateWebhookEndpointRequestSchema
+>;
+export type UpdateWebhookEndpointResponse = z.infer<
+  typeof UpdateWebhookEndpointResponseSchema
+>;
+export type DeleteWebhookEndpointRequest = z.infer<
+  typeof DeleteWebhookEndpointRequestSchema
+>;
+export type DeleteWebhookEndpointResponse = z.infer<
+  typeof DeleteWebhookEndpointResponseSchema
+>;
@@ -12,23 +12,95 @@ export const config = {
   plans: {
     trial: {
       stripePriceId: "price_1SF55833pr8E7tWLycMY8XKB",
-      apiCalls: 30,
+      quotas: {
+        api_call: 30,
+        token: 50000,
+        storage_gb: 1,
+        export: 5,
+      },
       trialDays: 14,
+      enforcement: {
+        mode: "hard",
+      },
+      rollover: {
+        mode: "none",
+      },
     },
     starter: {
       stripePriceId: "price_1SF55w33pr8E7tWLQJNWOvxd",
-      apiCalls: 60,
+      quotas: {
+        api_call: 60,
+        token: 250000,
+        storage_gb: 5,
+        export: 20,
+      },
       trialDays: 0,
+      enforcement: {
+        mode: "hard",
+      },
+      rollover: {
+        mode: "none",
+      },
     },
     growth: {
       stripePriceId: "price_1SF56S33pr8E7tWLslF4FKKW",
-      apiCalls: 300,
+      quotas: {
+        api_call: 300,
+        token: 1000000,
+        storage_gb: 25,
+        export: 100,
+      },
       trialDays: 0,
+      enforcement: {
+        mode: "soft",
+        burstPercent: 20,
+      },
+      rollover: {
+        mode: "percent",
+        limit: 25,
+        expiresAfterPeriods: 1,
+      },
+      overage: {
+        api_call: {
+          stripePriceId: "price_growth_api_call_overage",
+          meterEventName: "api_call_overage",
+        },
+      },
     },
     pro: {
       stripePriceId: "price_1SF56w33pr8E7tWLzL6eOFPW",
-      apiCalls: 1500,
+      quotas: {
+        api_call: 1500,
+        token: 5000000,
+        storage_gb: 100,
+        export: 500,
+      },
       trialDays: 0,
+      enforcement: {
+        mode: "unlimited",
+      },
+      rollover: {
+        mode: "full",
+        expiresAfterPeriods: 3,
+      },
+      overage: {
+        api_call: {
+          stripePriceId: "price_pro_api_call_overage",
+          meterEventName: "api_call_overage",
+        },
+        token: {
+          stripePriceId: "price_pro_token_overage",
+          meterEventName: "token_overage",
+        },
+        storage_gb: {
+          stripePriceId: "price_pro_storage_gb_overage",
+          meterEventName: "storage_gb_overage",
+        },
+        export: {
+          stripePriceId: "price_pro_export_overage",
+          meterEventName: "export_overage",
+        },
+      },
     },
   },
 
@@ -36,6 +108,84 @@ export const config = {
   usage: {
     idempotencyWindowHours: 24,
     defaultMetric: "api_call",
+    // How long after a period ends its overage is still reported to Stripe
+    overageReportWindowHours: 24,
+    // How long after a period ends backdated usage is still attributed to it
+    // (later events are rejected; keep within overageReportWindowHours so
+    // late overage is still billed)
+    lateUsageWindowHours: 24,
+    // Percent-of-included thresholds that record a threshold-crossed event
+    alertThresholds: [50, 80, 100],
+    // Maximum number of items accepted by /api/usage/record.batch
+    batchMaxItems: 500,
+    // Range returned by /api/usage/history when `from` is omitted
+    historyDefaultRangeDays: 30,
+    // Records read per database page while streaming /api/usage/export
+    exportPageSize: 1000,
+    // Days recomputed per call of /api/jobs/usage-rollups.rebuild
+    rollupRebuildMaxDays: 93,
+    // Usage so far is extrapolated over at least this much of the period, so
+    // forecasts early in a period aren't thrown off by the first few requests
+    forecastMinElapsedHours: 24,
+  },
+
+  // Usage spike detection (/api/jobs/usage-anomalies.detect)
+  anomalies: {
+    // Trailing window whose average hourly usage is an org's baseline
+    baselineDays: 7,
+    // An hour is flagged at this multiple of the baseline...
+    spikeRatio: 10,
+    // ...and at least this much usage of the metric, so low-volume orgs
+    // aren't flagged for noise (metrics not listed are not checked)
+    minHourlyValue: {
+      api_call: 1000,
+      token: 1000000,
+      storage_gb: 100,
+      export: 100,
+    } as Record<string, number>,
+    // Hours of hard enforcement applied to a flagged metric (ANOMALY_CAP_HOURS;
+    // 0 flags without capping)
+    capHours: Number(process.env.ANOMALY_CAP_HOURS || 0),
+    // Most recent open anomalies listed in an organization's entitlements
+    entitlementsLimit: 10,
+  },
+
+  // Prepaid credit packs (CREDIT_PACKS in lib/stripe)
+  credits: {
+    // Where Stripe Checkout returns the buyer, relative to app.url
+    checkoutSuccessPath: "/billing/credits?checkout=success",
+    checkoutCancelPath: "/billing/credits?checkout=cancelled",
+    // Grants expired per run of /api/jobs/credits.expire
+    expireBatchSize: 500,
+  },
+
+  // Redis counter cache (used only when REDIS_URL is set)
+  redis: {
+    // How long an organization's subscription and period are cached
+    contextTtlSeconds: 60,
+    // Journal entries written to Postgres per flush transaction
+    flushBatchSize: 500,
+    // Flush lock lifetime; a crashed flusher blocks others at most this long
+    flushLockSeconds: 60,
+  },
+
+  // Platform administration
+  admin: {
+    // Clerk user IDs allowed to call /api/admin/* (comma-separated ADMIN_USER_IDS)
+    userIds: (process.env.ADMIN_USER_IDS || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean),
+    // Clerk organization role allowed to manage member usage caps and API keys (ORG_ADMIN_ROLE)
+    orgAdminRole: process.env.ORG_ADMIN_ROLE || "org:admin",
+  },
+
+  // Org-scoped API keys for server-to-server calls (Authorization: Bearer msk_...)
+  apiKeys: {
+    prefix: "msk_",
+    scopes: ["quota:check", "usage:write", "entitlements:read"],
+    // lastUsedAt is written at most once per interval per key
+    lastUsedUpdateSeconds: 60,
   },
 
   // Webhook configuration
@@ -46,5 +196,26 @@ export const config = {
     clerk: {
       secret: process.env.CLERK_WEBHOOK_SECRET!,
     },
+    // Tenant endpoints receiving events from this system
+    outbound: {
+      eventTypes: [
+        "usage.threshold_crossed",
+        "quota.exhausted",
+        "subscription.status_changed",
+        "trial.ending",
+      ],
+      signatureHeader: "x-webhook-signature",
+      signatureToleranceSeconds: 300,
+      timeoutMs: 10000,
+      maxAttempts: 8,
+      // Retry n waits backoffBaseSeconds * 2^(n-1), capped at backoffMaxSeconds
+      backoffBaseSeconds: 60,
+      backoffMaxSeconds: 6 * 60 * 60,
+      deliveryBatchSize: 50,
+      // Allow endpoints on loopback/private addresses (local development
+      // only; WEBHOOK_ALLOW_PRIVATE_NETWORKS=true)
+      allowPrivateNetworks:
+        process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === "true",
+    },
   },
 } as const;
@@ -0,0 +1,141 @@
+/**
+ * API Key Repository
+ *
+ * Data access layer for org-scoped API keys.
+ * Keys are stored as their SHA-256 hash along with a visible prefix; the
+ * full key is never persisted.
+ *
+ * @module lib/db/repositories/api-key-repository
+ */
+
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+
+export interface ApiKeyRecord {
+  id: string;
+  clerkOrgId: string;
+  organizationId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdByUserId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Creates an API key
+ *
+ * @param data - Key data (prefix and hash of the generated key)
+ * @returns Created key record
+ */
+export async function createApiKey(data: {
+  organizationId: string;
+  clerkOrgId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  createdByUserId: string;
+}): Promise<ApiKeyRecord> {
+  try {
+    return await db.apiKey.create({
+      data,
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to create API key for organization: ${data.clerkOrgId}`,
+      "API_KEY_CREATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds an API key by ID
+ *
+ * @param id - Key ID
+ * @returns Key record or null if not found
+ */
+export async function findApiKeyById(id: string): Promise<ApiKeyRecord | null> {
+  return db.apiKey.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Finds an API key by the hash of the full key
+ *
+ * @param keyHash - SHA-256 hash of the presented key
+ * @returns Key record or null if no key matches
+ */
+export async function findApiKeyByHash(
+  keyHash: string
+): Promise<ApiKeyRecord | null> {
+  return db.apiKey.findUnique({
+    where: {
+      keyHash,
+    },
+  });
+}
+
+/**
+ * Finds all API keys for an organization, including revoked ones
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @returns Key records, oldest first
+ */
+export async function findApiKeysByClerkOrgId(
+  clerkOrgId: string
+): Promise<ApiKeyRecord[]> {
+  return db.apiKey.findMany({
+    where: {
+      clerkOrgId,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+}
+
+/**
+ * Updates an API key
+ *
+ * @param id - Key ID
+ * @param data - Fields to update (a new prefix and hash on rotation, or the
+ *   revocation or last-used time)
+ * @returns Updated key record
+ */
+export async function updateApiKey(
+  id: string,
+  data: {
+    prefix?: string;
+    keyHash?: string;
+    revokedAt?: Date;
+    lastUsedAt?: Date;
+  }
+): Promise<ApiKeyRecord> {
+  try {
+    return await db.apiKey.update({
+      where: {
+        id,
+      },
+      data,
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to update API key: ${id}`,
+      "API_KEY_UPDATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * Credit Repository
+ *
+ * Data access layer for prepaid credit grants and the credit ledger.
+ * Every change to a grant's remaining balance is written to the ledger in
+ * the same transaction, so the ledger always sums to the live balance.
+ *
+ * @module lib/db/repositories/credit-repository
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+import { UsageCounterRecord } from "./usage-repository";
+
+export type CreditLedgerEntryType = "grant" | "consume" | "expire" | "release";
+
+export interface CreditGrantRecord {
+  id: string;
+  clerkOrgId: string;
+  organizationId: string;
+  metric: string;
+  packCode: string;
+  amount: number;
+  remaining: number;
+  expiresAt: Date;
+  stripeCheckoutSessionId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreditLedgerEntryRecord {
+  id: string;
+  clerkOrgId: string;
+  creditGrantId: string;
+  metric: string;
+  type: CreditLedgerEntryType;
+  amount: number;
+  usageCounterId: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Credits taken from one grant by a draw
+ */
+export interface CreditDraw {
+  creditGrantId: string;
+  amount: number;
+}
+
+/**
+ * Thrown inside a draw transaction when a grant's balance changed since it
+ * was read, to roll the draw back
+ */
+class CreditDrawConflict extends Error {}
+
+/**
+ * Creates a credit grant and its grant ledger entry
+ *
+ * Grants are unique on stripeCheckoutSessionId, so a purchase is granted at
+ * most once however often its webhook is delivered.
+ *
+ * @param data - Grant data
+ * @returns Created grant, or null if the checkout session was already granted
+ */
+export async function createCreditGrant(data: {
+  organizationId: string;
+  clerkOrgId: string;
+  metric: string;
+  packCode: string;
+  amount: number;
+  expiresAt: Date;
+  stripeCheckoutSessionId: string;
+}): Promise<CreditGrantRecord | null> {
+  try {
+    return await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const grant = await tx.creditGrant.create({
+        data: {
+          ...data,
+          remaining: data.amount,
+        },
+      });
+
+      await tx.creditLedgerEntry.create({
+        data: {
+          clerkOrgId: data.clerkOrgId,
+          creditGrantId: grant.id,
+          metric: data.metric,
+          type: "grant",
+          amount: data.amount,
+        },
+      });
+
+      return grant;
+    });
+  } catch (error) {
+    // Unique constraint violation - checkout session already granted
+    if ((error as { code?: string })?.code === "P2002") {
+      return null;
+    }
+    throw new ApplicationError(
+      `Failed to create credit grant for checkout session: ${data.stripeCheckoutSessionId}`,
+      "CREDIT_GRANT_CREATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Sums the unexpired credits an organization has left for a metric
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric name
+ * @param now - Reference time for expiry
+ * @returns Available credits (0 if none)
+ */
+export async function sumAvailableCredits(
+  clerkOrgId: string,
+  metric: string,
+  now: Date
+): Promise<number> {
+  try {
+    const result = await db.creditGrant.aggregate({
+      where: {
+        clerkOrgId,
+        metric,
+        remaining: { gt: 0 },
+        expiresAt: { gt: now },
+      },
+      _sum: {
+        remaining: true,
+      },
+    });
+    return result._sum.remaining ?? 0;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to sum credits for organization: ${clerkOrgId}`,
+      "CREDIT_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds an organization's grants with credits left, soonest expiry first
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param now - Reference time for expiry
+ * @returns Active grant records
+ */
+export async function findActiveCreditGrants(
+  clerkOrgId: string,
+  now: Date
+): Promise<CreditGrantRecord[]> {
+  try {
+    return await db.creditGrant.findMany({
+      where: {
+        clerkOrgId,
+        remaining: { gt: 0 },
+        expiresAt: { gt: now },
+      },
+      orderBy: {
+        expiresAt: "asc",
+      },
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find credit grants for organization: ${clerkOrgId}`,
+      "CREDIT_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Draws credits into a usage counter's included quota
+ *
+ * In one transaction: take up to amount from the organization's unexpired
+ * grants for the counter's metric, soonest expiry first; raise the counter's
+ * included (and credited) by the amount taken; and write a consume ledger
+ * entry per grant. Each grant is decremented only if its balance is still
+ * what was read, so concurrent draws can never take a grant below zero.
+ *
+ * @param counter - Usage counter to draw into
+ * @param amount - Credits wanted
+ * @param now - Reference time for expiry
+ * @returns Credits taken per grant (empty if none are available), or null
+ *   if a concurrent draw changed a grant first (nothing is drawn)
+ */
+export async function drawCredits(
+  counter: UsageCounterRecord,
+  amount: number,
+  now: Date
+): Promise<CreditDraw[] | null> {
+  try {
+    return await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const grants: CreditGrantRecord[] = await tx.creditGrant.findMany({
+        where: {
+          clerkOrgId: counter.clerkOrgId,
+          metric: counter.metric,
+          remaining: { gt: 0 },
+          expiresAt: { gt: now },
+        },
+        orderBy: {
+          expiresAt: "asc",
+        },
+      });
+
+      const draws: CreditDraw[] = [];
+      let drawn = 0;
+
+      for (const grant of grants) {
+        if (drawn === amount) {
+          break;
+        }
+
+        const take = Math.min(grant.remaining, amount - drawn);
+        const { count } = await tx.creditGrant.updateMany({
+          where: { id: grant.id, remaining: grant.remaining },
+          data: { remaining: { decrement: take } },
+        });
+
+        if (count === 0) {
+          throw new CreditDrawConflict();
+        }
+
+        await tx.creditLedgerEntry.create({
+          data: {
+            clerkOrgId: counter.clerkOrgId,
+            creditGrantId: grant.id,
+            metric: counter.metric,
+            type: "consume",
+            amount: -take,
+            usageCounterId: counter.id,
+          },
+        });
+
+        draws.push({ creditGrantId: grant.id, amount: take });
+        drawn += take;
+      }
+
+      if (drawn > 0) {
+        await tx.usageCounter.update({
+          where: { id: counter.id },
+          data: {
+            included: { increment: drawn },
+            credited: { increment: drawn },
+          },
+        });
+      }
+
+      return draws;
+    });
+  } catch (error) {
+    if (error instanceof CreditDrawConflict) {
+      return null;
+    }
+    throw new ApplicationError(
+      `Failed to draw credits into usage counter: ${counter.id}`,
+      "CREDIT_DRAW_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Returns drawn credits to their grants
+ *
+ * Undoes drawCredits for usage that was not consumed after all. In one
+ * transaction: add each draw back to its grant's remaining balance, write a
+ * release ledger entry per grant, and lower the counter's included (and
+ * credited) by the total.
+ *
+ * @param counter - Usage counter the credits were drawn into
+ * @param draws - Draws returned by drawCredits
+ */
+export async function releaseCreditDraws(
+  counter: UsageCounterRecord,
+  draws: CreditDraw[]
+): Promise<void> {
+  const released = draws.reduce((sum, draw) => sum + draw.amount, 0);
+
+  try {
+    await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      for (const draw of draws) {
+        await tx.creditGrant.update({
+          where: { id: draw.creditGrantId },
+          data: { remaining: { increment: draw.amount } },
+        });
+
+        await tx.creditLedgerEntry.create({
+          data: {
+            clerkOrgId: counter.clerkOrgId,
+            creditGrantId: draw.creditGrantId,
+            metric: counter.metric,
+            type: "release",
+            amount: draw.amount,
+            usageCounterId: counter.id,
+          },
+        });
+      }
+
+      await tx.usageCounter.update({
+        where: { id: counter.id },
+        data: {
+          included: { decrement: released },
+          credited: { decrement: released },
+        },
+      });
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to release credits drawn into usage counter: ${counter.id}`,
+      "CREDIT_DRAW_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Expires grants whose expiry has passed
+ *
+ * Each grant's remaining balance is zeroed and an expire ledger entry
+ * written in one transaction, only if the balance is unchanged since it was
+ * read; a grant drawn from concurrently is picked up by the next run.
+ *
+ * @param now - Reference time for expiry
+ * @param limit - Maximum number of grants to expire
+ * @returns Expired grants with the balance they had left
+ */
+export async function expireCreditGrants(
+  now: Date,
+  limit: number
+): Promise<CreditGrantRecord[]> {
+  try {
+    const grants: CreditGrantRecord[] = await db.creditGrant.findMany({
+      where: {
+        remaining: { gt: 0 },
+        expiresAt: { lte: now },
+      },
+      orderBy: {
+        expiresAt: "asc",
+      },
+      take: limit,
+    });
+
+    const expired: CreditGrantRecord[] = [];
+
+    for (const grant of grants) {
+      const applied = await db.$transaction(
+        async (tx: Prisma.TransactionClient) => {
+          const { count } = await tx.creditGrant.updateMany({
+            where: { id: grant.id, remaining: grant.remaining },
+            data: { remaining: 0 },
+          });
+
+          if (count === 0) {
+            return false;
+          }
+
+          await tx.creditLedgerEntry.create({
+            data: {
+              clerkOrgId: grant.clerkOrgId,
+              creditGrantId: grant.id,
+              metric: grant.metric,
+              type: "expire",
+              amount: -grant.remaining,
+            },
+          });
+
+          return true;
+        }
+      );
+
+      if (applied) {
+        expired.push(grant);
+      }
+    }
+
+    return expired;
+  } catch (error) {
+    throw new ApplicationError(
+      "Failed to expire credit grants",
+      "CREDIT_EXPIRE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds ledger entries for an organization, newest first
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param filters - Optional metric/type filters and result limit
+ * @returns Ledger entry records
+ */
+export async function findCreditLedgerEntries(
+  clerkOrgId: string,
+  filters: { metric?: string; type?: CreditLedgerEntryType; limit: number }
+): Promise<CreditLedgerEntryRecord[]> {
+  try {
+    return await db.creditLedgerEntry.findMany({
+      where: {
+        clerkOrgId,
+        ...(filters.metric ? { metric: filters.metric } : {}),
+        ...(filters.type ? { type: filters.type } : {}),
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+      take: filters.limit,
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find credit ledger entries for organization: ${clerkOrgId}`,
+      "CREDIT_LEDGER_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
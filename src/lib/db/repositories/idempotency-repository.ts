@@ -0,0 +1,207 @@
+/**
+ * Idempotency Repository
+ *
+ * Data access layer for usage idempotency keys.
+ * Each key is unique per (clerkOrgId, request_id) and stores the response
+ * returned when the request was first recorded, until it expires.
+ *
+ * @module lib/db/repositories/idempotency-repository
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+
+export interface IdempotencyKeyRecord {
+  id: string;
+  clerkOrgId: string;
+  requestId: string;
+  response: unknown;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Finds unexpired idempotency keys for an organization's request_ids
+ *
+ * Unlike the old metadata scan, a query failure is thrown rather than
+ * treated as "not found", which would record the usage twice.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param requestIds - Request IDs to look up
+ * @param now - Reference time; keys expiring at or before it are ignored
+ * @returns Matching keys (at most one per request_id)
+ */
+export async function findIdempotencyKeys(
+  clerkOrgId: string,
+  requestIds: string[],
+  now: Date
+): Promise<IdempotencyKeyRecord[]> {
+  if (requestIds.length === 0) {
+    return [];
+  }
+
+  try {
+    const keys = await db.idempotencyKey.findMany({
+      where: {
+        clerkOrgId,
+        requestId: {
+          in: requestIds,
+        },
+        expiresAt: {
+          gt: now,
+        },
+      },
+    });
+    return keys;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find idempotency keys for organization: ${clerkOrgId}`,
+      "IDEMPOTENCY_KEY_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds the unexpired idempotency key for a single request_id
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param requestId - Request ID to look up
+ * @param now - Reference time; a key expiring at or before it is ignored
+ * @returns Idempotency key or null if the request_id is new (or expired)
+ */
+export async function findIdempotencyKey(
+  clerkOrgId: string,
+  requestId: string,
+  now: Date
+): Promise<IdempotencyKeyRecord | null> {
+  const [key] = await findIdempotencyKeys(clerkOrgId, [requestId], now);
+  return key ?? null;
+}
+
+/**
+ * Creates idempotency keys inside a recording transaction
+ *
+ * Expired keys for the same request_ids are removed first so a request_id
+ * can be reused once its window has passed, even before the purge job runs.
+ * A request_id recorded concurrently fails the insert with a unique
+ * constraint violation (P2002), rolling back the whole transaction.
+ *
+ * @param tx - Transaction client of the recording transaction
+ * @param clerkOrgId - Clerk organization ID
+ * @param keys - Keys to create with the response to replay
+ * @param now - Reference time for expiry
+ */
+export async function createIdempotencyKeys(
+  tx: Prisma.TransactionClient,
+  clerkOrgId: string,
+  keys: Array<{ requestId: string; response: unknown; expiresAt: Date }>,
+  now: Date
+): Promise<void> {
+  if (keys.length === 0) {
+    return;
+  }
+
+  await tx.idempotencyKey.deleteMany({
+    where: {
+      clerkOrgId,
+      requestId: {
+        in: keys.map((key) => key.requestId),
+      },
+      expiresAt: {
+        lte: now,
+      },
+    },
+  });
+
+  await tx.idempotencyKey.createMany({
+    data: keys.map((key) => ({ clerkOrgId, ...key })),
+  });
+}
+
+/**
+ * Creates idempotency keys that don't exist yet within a transaction
+ *
+ * Unlike createIdempotencyKeys, keys already held by another request are
+ * skipped instead of failing the transaction. Keys are created with the
+ * caller's IDs, so the IDs returned identify exactly the keys this call
+ * claimed; replaying the same keys claims nothing.
+ *
+ * @param tx - Transaction client
+ * @param keys - Keys to claim, with caller-generated IDs
+ * @param now - Reference time for expiry
+ * @returns IDs of the keys created by this call
+ */
+export async function claimIdempotencyKeys(
+  tx: Prisma.TransactionClient,
+  keys: Array<{
+    id: string;
+    clerkOrgId: string;
+    requestId: string;
+    response: unknown;
+    expiresAt: Date;
+  }>,
+  now: Date
+): Promise<Set<string>> {
+  if (keys.length === 0) {
+    return new Set();
+  }
+
+  await tx.idempotencyKey.deleteMany({
+    where: {
+      OR: keys.map((key) => ({
+        clerkOrgId: key.clerkOrgId,
+        requestId: key.requestId,
+      })),
+      expiresAt: {
+        lte: now,
+      },
+    },
+  });
+
+  await tx.idempotencyKey.createMany({
+    data: keys,
+    skipDuplicates: true,
+  });
+
+  const claimed: Array<{ id: string }> = await tx.idempotencyKey.findMany({
+    where: {
+      id: {
+        in: keys.map((key) => key.id),
+      },
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  return new Set(claimed.map((key) => key.id));
+}
+
+/**
+ * Deletes idempotency keys whose window has passed
+ *
+ * @param now - Reference time
+ * @returns Number of keys deleted
+ */
+export async function deleteExpiredIdempotencyKeys(now: Date): Promise<number> {
+  try {
+    const result = await db.idempotencyKey.deleteMany({
+      where: {
+        expiresAt: {
+          lte: now,
+        },
+      },
+    });
+    return result.count;
+  } catch (error) {
+    throw new ApplicationError(
+      "Failed to delete expired idempotency keys",
+      "IDEMPOTENCY_KEY_DELETE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Member Repository
+ *
+ * Data access layer for per-member sub-quotas.
+ * Usage recorded by a signed-in member of an organization is attributed to
+ * their Clerk user ID: each member's share of a usage counter is tracked in
+ * its own row, and organization admins can cap a member's share per metric
+ * and period.
+ *
+ * @module lib/db/repositories/member-repository
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+
+// Members' per-period caps: by Clerk user ID, then by metric
+export type MemberCaps = Record<string, Partial<Record<string, number>>>;
+
+export interface MemberUsageCapRecord {
+  id: string;
+  clerkOrgId: string;
+  userId: string;
+  metric: string;
+  cap: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MemberUsageRecord {
+  id: string;
+  usageCounterId: string;
+  clerkOrgId: string;
+  userId: string;
+  periodKey: string;
+  metric: string;
+  used: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Finds an organization's member caps
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param userId - Optional Clerk user ID to limit the caps to
+ * @returns Caps, one record per member and metric
+ */
+export async function findMemberUsageCaps(
+  clerkOrgId: string,
+  userId?: string
+): Promise<MemberUsageCapRecord[]> {
+  try {
+    return await db.memberUsageCap.findMany({
+      where: {
+        clerkOrgId,
+        ...(userId && { userId }),
+      },
+      orderBy: [{ userId: "asc" }, { metric: "asc" }],
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find member usage caps for organization: ${clerkOrgId}`,
+      "MEMBER_USAGE_CAP_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Sets a member's cap for a metric
+ *
+ * @param data - Organization, member, metric and cap per period
+ * @returns Cap record
+ */
+export async function upsertMemberUsageCap(data: {
+  clerkOrgId: string;
+  userId: string;
+  metric: string;
+  cap: number;
+}): Promise<MemberUsageCapRecord> {
+  try {
+    return await db.memberUsageCap.upsert({
+      where: {
+        clerkOrgId_userId_metric: {
+          clerkOrgId: data.clerkOrgId,
+          userId: data.userId,
+          metric: data.metric,
+        },
+      },
+      update: { cap: data.cap },
+      create: data,
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to set member usage cap for user: ${data.userId}`,
+      "MEMBER_USAGE_CAP_UPDATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Removes a member's cap for a metric
+ *
+ * @param data - Organization, member and metric
+ * @returns true if a cap was removed
+ */
+export async function deleteMemberUsageCap(data: {
+  clerkOrgId: string;
+  userId: string;
+  metric: string;
+}): Promise<boolean> {
+  try {
+    const { count } = await db.memberUsageCap.deleteMany({
+      where: data,
+    });
+    return count > 0;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to remove member usage cap for user: ${data.userId}`,
+      "MEMBER_USAGE_CAP_UPDATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Adds usage to a member's share of a usage counter
+ *
+ * Runs inside the transaction that increments the counter. With a cap, the
+ * increment only applies if the member's usage stays within it.
+ *
+ * @param tx - Transaction client
+ * @param data - Counter, organization, member, amount and the member's cap
+ *   (null = uncapped)
+ * @returns true if applied, false if it would exceed the cap
+ */
+export async function incrementMemberUsage(
+  tx: Prisma.TransactionClient,
+  data: {
+    usageCounterId: string;
+    clerkOrgId: string;
+    userId: string;
+    periodKey: string;
+    metric: string;
+    value: number;
+    cap: number | null;
+  }
+): Promise<boolean> {
+  await tx.memberUsage.upsert({
+    where: {
+      usageCounterId_clerkOrgId_userId: {
+        usageCounterId: data.usageCounterId,
+        clerkOrgId: data.clerkOrgId,
+        userId: data.userId,
+      },
+    },
+    update: {},
+    create: {
+      usageCounterId: data.usageCounterId,
+      clerkOrgId: data.clerkOrgId,
+      userId: data.userId,
+      periodKey: data.periodKey,
+      metric: data.metric,
+    },
+  });
+
+  const { count } = await tx.memberUsage.updateMany({
+    where: {
+      usageCounterId: data.usageCounterId,
+      clerkOrgId: data.clerkOrgId,
+      userId: data.userId,
+      ...(data.cap === null ? {} : { used: { lte: data.cap - data.value } }),
+    },
+    data: {
+      used: {
+        increment: data.value,
+      },
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Finds members' usage of an organization's counters for a period
+ *
+ * @param clerkOrgId - Clerk organization ID the usage was recorded for
+ * @param periodKey - Period key (YYYY-MM-DD) of the counters
+ * @param userId - Optional Clerk user ID to limit the usage to
+ * @returns Member usage, one record per member and metric used in the period
+ */
+export async function findMemberUsage(
+  clerkOrgId: string,
+  periodKey: string,
+  userId?: string
+): Promise<MemberUsageRecord[]> {
+  try {
+    return await db.memberUsage.findMany({
+      where: {
+        clerkOrgId,
+        periodKey,
+        ...(userId && { userId }),
+      },
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find member usage for organization: ${clerkOrgId}`,
+      "MEMBER_USAGE_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
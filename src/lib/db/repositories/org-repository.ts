@@ -1,20 +1,27 @@
 /**
  * Organization Repository
- * 
+ *
  * Data access layer for organization operations.
  * Handles database interactions for organization entities.
- * 
+ *
  * @module lib/db/repositories/org-repository
  */
 
 import { db } from "../../db";
 import { OrgCreationError } from "../../errors/org-errors";
 
+/**
+ * A pool member's usage cap per metric, per billing period of the pool
+ */
+export type PoolCaps = Partial<Record<string, number>>;
+
 export interface OrganizationRecord {
   id: string;
   clerkOrgId: string;
   name: string;
   stripeCustomerId: string | null;
+  parentOrganizationId?: string | null; // set for pool members
+  poolCaps?: PoolCaps; // metrics without a cap are uncapped
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,7 +30,7 @@ export interface OrganizationRecord {
  * Upserts an organization by Clerk org ID
  * Creates new organization if doesn't exist, returns existing if it does
  * Idempotent operation - safe to call multiple times with same clerkOrgId
- * 
+ *
  * @param clerkOrgId - Clerk organization ID
  * @returns Organization record with internal orgId
  * @throws OrgCreationError if database operation fails
@@ -57,7 +64,7 @@ export async function upsertOrganizationByClerkOrgId(
 
 /**
  * Finds an organization by internal ID
- * 
+ *
  * @param orgId - Internal organization ID
  * @returns Organization record or null if not found
  */
@@ -73,7 +80,7 @@ export async function findOrganizationById(
 
 /**
  * Finds an organization by Clerk org ID
- * 
+ *
  * @param clerkOrgId - Clerk organization ID
  * @returns Organization record or null if not found
  */
@@ -89,7 +96,7 @@ export async function findOrganizationByClerkOrgId(
 
 /**
  * Updates organization with Stripe customer ID
- * 
+ *
  * @param orgId - Internal organization ID
  * @param stripeCustomerId - Stripe customer ID to set
  * @returns Updated organization record
@@ -118,3 +125,54 @@ export async function updateOrganizationStripeCustomerId(
   }
 }
 
+/**
+ * Finds the member organizations of a pool
+ *
+ * @param parentOrganizationId - Internal ID of the pool's parent organization
+ * @returns Member organizations, oldest first
+ */
+export async function findChildOrganizations(
+  parentOrganizationId: string
+): Promise<OrganizationRecord[]> {
+  return db.organization.findMany({
+    where: {
+      parentOrganizationId,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+}
+
+/**
+ * Sets or clears an organization's pool membership
+ *
+ * @param orgId - Internal organization ID
+ * @param data - Parent organization's internal ID (null to leave the pool)
+ *   and the member's caps
+ * @returns Updated organization record
+ * @throws OrgCreationError if update fails
+ */
+export async function updateOrganizationPool(
+  orgId: string,
+  data: { parentOrganizationId: string | null; poolCaps: PoolCaps }
+): Promise<OrganizationRecord> {
+  try {
+    const organization = await db.organization.update({
+      where: {
+        id: orgId,
+      },
+      data: {
+        parentOrganizationId: data.parentOrganizationId,
+        poolCaps: data.poolCaps,
+      },
+    });
+
+    return organization;
+  } catch (error) {
+    throw new OrgCreationError(
+      `Failed to update pool membership of organization: ${orgId}`,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Overage Repository
+ *
+ * Data access layer for overage reporting.
+ * Handles the local ledger of overage quantities pushed to Stripe.
+ *
+ * @module lib/db/repositories/overage-repository
+ */
+
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+import { UsageCounterRecord } from "./usage-repository";
+
+export type OverageReportStatus = "pending" | "reported";
+
+export interface OverageReportRecord {
+  id: string;
+  clerkOrgId: string;
+  usageCounterId: string;
+  periodKey: string;
+  metric: string;
+  overageFrom: number;
+  overageTo: number;
+  quantity: number;
+  identifier: string;
+  status: string;
+  reportedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Builds the Stripe meter event identifier for a ledger entry
+ *
+ * Deterministic per counter and overage range, so resending a pending
+ * entry after a crash is deduplicated by Stripe instead of double-billing.
+ *
+ * @param usageCounterId - Usage counter ID
+ * @param overageTo - Cumulative overage reported through this entry
+ * @returns Meter event identifier
+ */
+export function buildOverageIdentifier(
+  usageCounterId: string,
+  overageTo: number
+): string {
+  return `ovg_${usageCounterId}_${overageTo}`;
+}
+
+/**
+ * Finds usage counters whose usage exceeds the included quota
+ *
+ * Units rolled over into a counter are not compared here; callers measure
+ * overage against included plus rolledOver.
+ *
+ * @param periodEndAfter - Only counters whose period ends after this date
+ * @returns Usage counters in overage
+ */
+export async function findUsageCountersInOverage(
+  periodEndAfter: Date
+): Promise<UsageCounterRecord[]> {
+  try {
+    const counters = await db.usageCounter.findMany({
+      where: {
+        used: {
+          gt: db.usageCounter.fields.included,
+        },
+        periodEnd: {
+          gt: periodEndAfter,
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+    return counters;
+  } catch (error) {
+    throw new ApplicationError(
+      "Failed to find usage counters in overage",
+      "OVERAGE_COUNTER_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds all ledger entries for a usage counter
+ *
+ * @param usageCounterId - Usage counter ID
+ * @returns Ledger entries ordered by overage range
+ */
+export async function findOverageReportsByUsageCounterId(
+  usageCounterId: string
+): Promise<OverageReportRecord[]> {
+  try {
+    const reports = await db.overageReport.findMany({
+      where: {
+        usageCounterId,
+      },
+      orderBy: {
+        overageTo: "asc",
+      },
+    });
+    return reports;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find overage reports for usage counter: ${usageCounterId}`,
+      "OVERAGE_REPORT_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Creates a pending ledger entry for an overage range
+ *
+ * Entries are unique on (usageCounterId, overageFrom), so two workers racing
+ * to report the same range cannot both claim it.
+ *
+ * @param data - Ledger entry data
+ * @returns Created ledger entry, or null if the range was already claimed
+ */
+export async function createOverageReport(data: {
+  usageCounterId: string;
+  clerkOrgId: string;
+  periodKey: string;
+  metric: string;
+  overageFrom: number;
+  overageTo: number;
+}): Promise<OverageReportRecord | null> {
+  try {
+    const report = await db.overageReport.create({
+      data: {
+        usageCounterId: data.usageCounterId,
+        clerkOrgId: data.clerkOrgId,
+        periodKey: data.periodKey,
+        metric: data.metric,
+        overageFrom: data.overageFrom,
+        overageTo: data.overageTo,
+        quantity: data.overageTo - data.overageFrom,
+        identifier: buildOverageIdentifier(data.usageCounterId, data.overageTo),
+        status: "pending",
+      },
+    });
+    return report;
+  } catch (error) {
+    // Unique constraint violation - another worker claimed this range
+    if ((error as { code?: string })?.code === "P2002") {
+      return null;
+    }
+    throw new ApplicationError(
+      `Failed to create overage report for usage counter: ${data.usageCounterId}`,
+      "OVERAGE_REPORT_CREATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Marks a ledger entry as reported to Stripe
+ *
+ * @param id - Ledger entry ID
+ * @returns Updated ledger entry
+ */
+export async function markOverageReportReported(
+  id: string
+): Promise<OverageReportRecord> {
+  try {
+    const report = await db.overageReport.update({
+      where: {
+        id,
+      },
+      data: {
+        status: "reported",
+        reportedAt: new Date(),
+      },
+    });
+    return report;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to mark overage report as reported: ${id}`,
+      "OVERAGE_REPORT_UPDATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
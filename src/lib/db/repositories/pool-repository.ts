@@ -0,0 +1,106 @@
+/**
+ * Pool Repository
+ *
+ * Data access layer for pooled quotas.
+ * A pool member's usage is counted on its parent's usage counters; each
+ * member's share of a counter is tracked in its own row so per-member caps
+ * can be enforced.
+ *
+ * @module lib/db/repositories/pool-repository
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+
+export interface PoolMemberUsageRecord {
+  id: string;
+  usageCounterId: string;
+  clerkOrgId: string;
+  periodKey: string;
+  metric: string;
+  used: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Adds usage to a pool member's share of a pool counter
+ *
+ * Runs inside the transaction that increments the pool counter. With a cap,
+ * the increment only applies if the member's usage stays within it.
+ *
+ * @param tx - Transaction client
+ * @param data - Pool counter, member, amount and the member's cap (null = uncapped)
+ * @returns true if applied, false if it would exceed the cap
+ */
+export async function incrementPoolMemberUsage(
+  tx: Prisma.TransactionClient,
+  data: {
+    usageCounterId: string;
+    clerkOrgId: string;
+    periodKey: string;
+    metric: string;
+    value: number;
+    cap: number | null;
+  }
+): Promise<boolean> {
+  await tx.poolMemberUsage.upsert({
+    where: {
+      usageCounterId_clerkOrgId: {
+        usageCounterId: data.usageCounterId,
+        clerkOrgId: data.clerkOrgId,
+      },
+    },
+    update: {},
+    create: {
+      usageCounterId: data.usageCounterId,
+      clerkOrgId: data.clerkOrgId,
+      periodKey: data.periodKey,
+      metric: data.metric,
+    },
+  });
+
+  const { count } = await tx.poolMemberUsage.updateMany({
+    where: {
+      usageCounterId: data.usageCounterId,
+      clerkOrgId: data.clerkOrgId,
+      ...(data.cap === null ? {} : { used: { lte: data.cap - data.value } }),
+    },
+    data: {
+      used: {
+        increment: data.value,
+      },
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Finds a pool member's usage of its parent's counters for a period
+ *
+ * @param clerkOrgId - Clerk org ID of the pool member
+ * @param periodKey - Period key (YYYY-MM-DD) of the pool counters
+ * @returns Member usage, one record per metric used in the period
+ */
+export async function findPoolMemberUsage(
+  clerkOrgId: string,
+  periodKey: string
+): Promise<PoolMemberUsageRecord[]> {
+  try {
+    return await db.poolMemberUsage.findMany({
+      where: {
+        clerkOrgId,
+        periodKey,
+      },
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find pool member usage for organization: ${clerkOrgId}`,
+      "POOL_MEMBER_USAGE_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Rate Limit Repository
+ *
+ * Data access layer for rate limit token buckets kept in Redis, so every
+ * server instance draws from the same buckets. Buckets are refilled and
+ * taken from by a Lua script so concurrent requests cannot overspend them,
+ * and each bucket expires once it would have refilled completely.
+ *
+ * Only used when REDIS_URL is set; see isRateLimitStoreShared.
+ *
+ * @module lib/db/repositories/rate-limit-repository
+ */
+
+import { redis } from "../../redis";
+import { ApplicationError } from "../../utils/errors";
+
+/**
+ * One window's bucket to take a token from
+ */
+export interface RateLimitBucketSpec {
+  window: string;
+  limit: number; // bucket capacity (requests per window)
+  seconds: number; // window length
+}
+
+/**
+ * Outcome of taking a token from every bucket for a key
+ *
+ * tokens holds each bucket's level after the request, in spec order.
+ */
+export interface RateLimitTake {
+  allow: boolean;
+  tokens: number[];
+}
+
+// A request is allowed only if every bucket has a whole token; a denied
+// request takes nothing. Token levels are fractional, so they are
+// formatted with fixed precision rather than as integers.
+const TAKE_TOKENS_SCRIPT = `
+local now = tonumber(ARGV[1])
+local tokens = {}
+local allow = 1
+for i = 1, #KEYS do
+  local limit = tonumber(ARGV[2 * i])
+  local seconds = tonumber(ARGV[2 * i + 1])
+  local available = limit
+  if redis.call('EXISTS', KEYS[i]) == 1 then
+    local bucket = redis.call('HMGET', KEYS[i], 'tokens', 'updatedAt')
+    local elapsed = math.max(now - tonumber(bucket[2]), 0) / 1000
+    available = math.min(limit, tonumber(bucket[1]) + elapsed * limit / seconds)
+  end
+  if available < 1 then
+    allow = 0
+  end
+  tokens[i] = available
+end
+local levels = {}
+for i = 1, #KEYS do
+  if allow == 1 then
+    tokens[i] = tokens[i] - 1
+  end
+  levels[i] = string.format('%.6f', tokens[i])
+  redis.call('HSET', KEYS[i], 'tokens', levels[i], 'updatedAt', ARGV[1])
+  redis.call('PEXPIRE', KEYS[i], tonumber(ARGV[2 * i + 1]) * 1000)
+end
+return {allow, unpack(levels)}
+`;
+
+/**
+ * Whether rate limit buckets are shared through Redis
+ *
+ * @returns true when REDIS_URL is set
+ */
+export function isRateLimitStoreShared(): boolean {
+  return redis !== null;
+}
+
+function bucketKey(key: string, window: string): string {
+  return `ratelimit:${key}:${window}`;
+}
+
+/**
+ * Takes one request from every bucket for a key
+ *
+ * A missing bucket starts full.
+ *
+ * @param key - Bucket key (the organization ID)
+ * @param buckets - Windows to take from
+ * @param now - Current time in epoch milliseconds
+ * @returns Whether the request is allowed, and each bucket's tokens left
+ * @throws ApplicationError if Redis is not configured or the script fails
+ */
+export async function takeRateLimitTokens(
+  key: string,
+  buckets: RateLimitBucketSpec[],
+  now: number
+): Promise<RateLimitTake> {
+  if (!redis) {
+    throw new ApplicationError(
+      `Rate limit store is not configured: ${key}`,
+      "RATE_LIMIT_STORE_ERROR",
+      500
+    );
+  }
+
+  try {
+    const [allow, ...tokens] = (await redis.eval(
+      TAKE_TOKENS_SCRIPT,
+      buckets.length,
+      ...buckets.map((bucket) => bucketKey(key, bucket.window)),
+      now,
+      ...buckets.flatMap((bucket) => [bucket.limit, bucket.seconds])
+    )) as [number, ...string[]];
+
+    return { allow: allow === 1, tokens: tokens.map(Number) };
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to take rate limit tokens: ${key}`,
+      "RATE_LIMIT_STORE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
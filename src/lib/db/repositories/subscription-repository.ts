@@ -1,9 +1,9 @@
 /**
  * Subscription Repository
- * 
+ *
  * Data access layer for subscription operations.
  * Handles database interactions for subscription entities.
- * 
+ *
  * @module lib/db/repositories/subscription-repository
  */
 
@@ -28,7 +28,7 @@ export interface SubscriptionRecord {
 
 /**
  * Creates a new subscription record
- * 
+ *
  * @param data - Subscription data to create
  * @returns Created subscription record
  * @throws OrgCreationError if database operation fails
@@ -64,7 +64,10 @@ export async function createSubscription(data: {
     return subscription;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    const errorDetails = error instanceof Error && 'code' in error ? { code: (error as any).code, meta: (error as any).meta } : {};
+    const errorDetails =
+      error instanceof Error && "code" in error
+        ? { code: (error as any).code, meta: (error as any).meta }
+        : {};
     throw new OrgCreationError(
       `Failed to create subscription: ${data.stripeSubscriptionId}`,
       { originalError: errorMessage, ...errorDetails }
@@ -74,7 +77,7 @@ export async function createSubscription(data: {
 
 /**
  * Finds a subscription by internal ID
- * 
+ *
  * @param id - Internal subscription ID
  * @returns Subscription record or null if not found
  */
@@ -90,7 +93,7 @@ export async function findSubscriptionById(
 
 /**
  * Finds a subscription by Stripe subscription ID
- * 
+ *
  * @param stripeSubscriptionId - Stripe subscription ID
  * @returns Subscription record or null if not found
  */
@@ -106,7 +109,7 @@ export async function findSubscriptionByStripeSubscriptionId(
 
 /**
  * Finds subscriptions by organization ID
- * 
+ *
  * @param organizationId - Internal organization ID
  * @returns Array of subscription records
  */
@@ -125,7 +128,7 @@ export async function findSubscriptionsByOrganizationId(
 
 /**
  * Finds active subscription for organization
- * 
+ *
  * @param organizationId - Internal organization ID
  * @returns Active subscription or null if not found
  */
@@ -147,7 +150,7 @@ export async function findActiveSubscriptionByOrganizationId(
 
 /**
  * Updates a subscription from Stripe webhook event data
- * 
+ *
  * @param stripeSubscriptionId - Stripe subscription ID
  * @param data - Subscription update data from Stripe
  * @returns Updated subscription record
@@ -183,3 +186,31 @@ export async function updateSubscriptionFromStripe(
   }
 }
 
+/**
+ * Finds all active subscriptions (status: active or trialing)
+ *
+ * @param filter - Optional Clerk organization ID to restrict to
+ * @returns Active subscription records, oldest first
+ * @throws OrgCreationError if database operation fails
+ */
+export async function findActiveSubscriptions(filter: {
+  clerkOrgId?: string;
+}): Promise<SubscriptionRecord[]> {
+  try {
+    return await db.subscription.findMany({
+      where: {
+        ...(filter.clerkOrgId ? { clerkOrgId: filter.clerkOrgId } : {}),
+        status: {
+          in: ["active", "trialing"],
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+  } catch (error) {
+    throw new OrgCreationError("Failed to find active subscriptions", {
+      originalError: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
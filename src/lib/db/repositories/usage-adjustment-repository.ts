@@ -0,0 +1,146 @@
+/**
+ * Usage Adjustment Repository
+ *
+ * Data access layer for usage adjustments.
+ * Handles signed corrections to usage counters and their audit trail.
+ *
+ * @module lib/db/repositories/usage-adjustment-repository
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+import { UsageCounterRecord } from "./usage-repository";
+
+export interface UsageAdjustmentRecord {
+  id: string;
+  clerkOrgId: string;
+  usageCounterId: string;
+  periodKey: string;
+  metric: string;
+  delta: number;
+  usedBefore: number;
+  usedAfter: number;
+  reason: string;
+  actorUserId: string;
+  referenceRequestId: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Applies a signed adjustment to a usage counter and records it
+ *
+ * The counter update is conditional on `used + delta >= 0`, so concurrent
+ * credits can never take usage below zero. The audit record is created in
+ * the same transaction with the counter values the update actually saw.
+ *
+ * @param data - Counter to adjust, signed delta, and audit details
+ * @returns Adjustment and updated counter, or null if usage would go below zero
+ */
+export async function applyUsageAdjustment(data: {
+  usageCounterId: string;
+  clerkOrgId: string;
+  periodKey: string;
+  metric: string;
+  delta: number;
+  reason: string;
+  actorUserId: string;
+  referenceRequestId: string | null;
+}): Promise<{
+  adjustment: UsageAdjustmentRecord;
+  counter: UsageCounterRecord;
+} | null> {
+  try {
+    return await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const rows: Array<{ used: number }> = await tx.$queryRaw`
+        UPDATE "usage_counters"
+        SET "used" = "used" + ${data.delta}, "updatedAt" = NOW()
+        WHERE "id" = ${data.usageCounterId}
+          AND "used" + ${data.delta} >= 0
+        RETURNING "used"
+      `;
+
+      if (rows.length === 0) {
+        return null;
+      }
+
+      const usedAfter = rows[0].used;
+
+      const adjustment = await tx.usageAdjustment.create({
+        data: {
+          usageCounterId: data.usageCounterId,
+          clerkOrgId: data.clerkOrgId,
+          periodKey: data.periodKey,
+          metric: data.metric,
+          delta: data.delta,
+          usedBefore: usedAfter - data.delta,
+          usedAfter,
+          reason: data.reason,
+          actorUserId: data.actorUserId,
+          referenceRequestId: data.referenceRequestId,
+        },
+      });
+
+      const counter = await tx.usageCounter.findUniqueOrThrow({
+        where: { id: data.usageCounterId },
+      });
+
+      return { adjustment, counter };
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to apply usage adjustment to usage counter: ${data.usageCounterId}`,
+      "USAGE_ADJUSTMENT_CREATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds usage adjustments for an organization, newest first
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param filters - Optional period/metric/[from, to) filters and result limit
+ * @returns Usage adjustment records
+ */
+export async function findUsageAdjustments(
+  clerkOrgId: string,
+  filters: {
+    periodKey?: string;
+    metric?: string;
+    from?: Date;
+    to?: Date;
+    limit: number;
+  }
+): Promise<UsageAdjustmentRecord[]> {
+  try {
+    const adjustments = await db.usageAdjustment.findMany({
+      where: {
+        clerkOrgId,
+        ...(filters.periodKey ? { periodKey: filters.periodKey } : {}),
+        ...(filters.metric ? { metric: filters.metric } : {}),
+        ...(filters.from || filters.to
+          ? {
+              createdAt: {
+                ...(filters.from ? { gte: filters.from } : {}),
+                ...(filters.to ? { lt: filters.to } : {}),
+              },
+            }
+          : {}),
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+      take: filters.limit,
+    });
+    return adjustments;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find usage adjustments for organization: ${clerkOrgId}`,
+      "USAGE_ADJUSTMENT_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
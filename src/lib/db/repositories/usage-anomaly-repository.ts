@@ -0,0 +1,178 @@
+/**
+ * Usage Anomaly Repository
+ *
+ * Data access layer for usage anomalies.
+ * An anomaly flags an hour of an organization's usage of a metric far above
+ * its baseline, optionally with a temporary hard cap, until an administrator
+ * resolves it.
+ *
+ * @module lib/db/repositories/usage-anomaly-repository
+ */
+
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+
+export type UsageAnomalyStatus = "open" | "resolved";
+
+// Metrics under an anomaly hard cap: metric -> end of the cap (ISO 8601)
+export type UsageAnomalyCaps = Partial<Record<string, string>>;
+
+export interface UsageAnomalyRecord {
+  id: string;
+  clerkOrgId: string;
+  metric: string;
+  hour: Date;
+  observed: number;
+  baseline: number;
+  status: string;
+  capUntil: Date | null;
+  resolvedAt: Date | null;
+  resolvedByUserId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Creates a usage anomaly
+ *
+ * Anomalies are unique on (clerkOrgId, metric, hour), so rerunning detection
+ * for an hour never flags it twice.
+ *
+ * @param data - Anomaly data
+ * @returns Created anomaly, or null if the hour was already flagged
+ */
+export async function createUsageAnomaly(data: {
+  clerkOrgId: string;
+  metric: string;
+  hour: Date;
+  observed: number;
+  baseline: number;
+  capUntil: Date | null;
+}): Promise<UsageAnomalyRecord | null> {
+  try {
+    return await db.usageAnomaly.create({ data });
+  } catch (error) {
+    // Unique constraint violation - hour already flagged
+    if ((error as { code?: string })?.code === "P2002") {
+      return null;
+    }
+    throw new ApplicationError(
+      `Failed to create usage anomaly for organization: ${data.clerkOrgId}`,
+      "USAGE_ANOMALY_CREATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds a usage anomaly by ID
+ *
+ * @param id - Anomaly ID
+ * @returns Anomaly, or null if not found
+ */
+export async function findUsageAnomalyById(
+  id: string
+): Promise<UsageAnomalyRecord | null> {
+  try {
+    return await db.usageAnomaly.findUnique({ where: { id } });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find usage anomaly: ${id}`,
+      "USAGE_ANOMALY_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds usage anomalies, newest hour first
+ *
+ * @param filters - Optional organization and status, and result limit
+ * @returns Anomaly records
+ */
+export async function findUsageAnomalies(filters: {
+  clerkOrgId?: string;
+  status?: UsageAnomalyStatus;
+  limit: number;
+}): Promise<UsageAnomalyRecord[]> {
+  try {
+    return await db.usageAnomaly.findMany({
+      where: {
+        ...(filters.clerkOrgId && { clerkOrgId: filters.clerkOrgId }),
+        ...(filters.status && { status: filters.status }),
+      },
+      orderBy: [{ hour: "desc" }, { metric: "asc" }],
+      take: filters.limit,
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find usage anomalies${
+        filters.clerkOrgId ? ` for organization: ${filters.clerkOrgId}` : ""
+      }`,
+      "USAGE_ANOMALY_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds an organization's open anomalies whose hard cap has not ended
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param now - Current time
+ * @returns Capping anomalies
+ */
+export async function findActiveUsageAnomalyCaps(
+  clerkOrgId: string,
+  now: Date
+): Promise<UsageAnomalyRecord[]> {
+  try {
+    return await db.usageAnomaly.findMany({
+      where: {
+        clerkOrgId,
+        status: "open",
+        capUntil: { gt: now },
+      },
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find usage anomaly caps for organization: ${clerkOrgId}`,
+      "USAGE_ANOMALY_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Marks a usage anomaly resolved, lifting any hard cap
+ *
+ * @param id - Anomaly ID
+ * @param resolvedByUserId - Clerk user ID of the resolving administrator
+ * @returns Updated anomaly
+ */
+export async function resolveUsageAnomaly(
+  id: string,
+  resolvedByUserId: string
+): Promise<UsageAnomalyRecord> {
+  try {
+    return await db.usageAnomaly.update({
+      where: { id },
+      data: {
+        status: "resolved",
+        resolvedAt: new Date(),
+        resolvedByUserId,
+      },
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to resolve usage anomaly: ${id}`,
+      "USAGE_ANOMALY_UPDATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
@@ -0,0 +1,599 @@
+/**
+ * Usage Cache Repository
+ *
+ * Data access layer for the Redis usage counter cache.
+ * Holds live counters for the current period, each organization's
+ * subscription context, request_id responses, and a journal of usage not
+ * yet written to Postgres. Increments are applied by Lua scripts so the
+ * idempotency check, quota check, increment and journal append are atomic.
+ *
+ * Only used when REDIS_URL is set; see isUsageCacheEnabled.
+ *
+ * @module lib/db/repositories/usage-cache-repository
+ */
+
+import type Redis from "ioredis";
+import { redis } from "../../redis";
+import { config } from "../../config";
+import { ApplicationError } from "../../utils/errors";
+import { generateId } from "../../utils/ids";
+import { UsageCounterRecord } from "./usage-repository";
+import { PoolCaps } from "./org-repository";
+import { MemberCaps } from "./member-repository";
+import { UsageAnomalyCaps } from "./usage-anomaly-repository";
+
+/**
+ * Subscription state needed to resolve an organization's usage counters
+ *
+ * For a pool member, the subscription and period are its parent's, and
+ * pool identifies the parent whose counters the member consumes.
+ * memberCaps holds the organization's per-member caps, and anomalyCaps the
+ * metrics under an anomaly hard cap.
+ */
+export interface UsageContext {
+  organizationId: string;
+  subscriptionId: string;
+  planCode: string;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  pool?: PoolContext;
+  memberCaps?: MemberCaps;
+  anomalyCaps?: UsageAnomalyCaps;
+}
+
+/**
+ * The pool a member organization consumes from
+ */
+export interface PoolContext {
+  clerkOrgId: string; // parent organization owning the pool counters
+  organizationId: string;
+  caps: PoolCaps; // member's per-period caps by metric
+}
+
+/**
+ * Usage recorded in Redis and waiting to be written to Postgres
+ *
+ * id becomes the ID of both the usage record and the idempotency key.
+ */
+export interface UsageJournalEntry {
+  id: string;
+  organizationId: string;
+  clerkOrgId: string;
+  subscriptionId: string;
+  usageCounterId: string;
+  metric: string;
+  value: number;
+  occurredAt: Date;
+  requestId: string;
+  userId?: string; // Clerk user ID the usage is attributed to
+  expiresAt: Date;
+  response: { periodKey: string; used: number; remaining: number };
+}
+
+export type CachedUsageIncrement =
+  | { status: "applied"; response: UsageJournalEntry["response"] }
+  | { status: "duplicate"; response: unknown }
+  | { status: "denied"; used: number }
+  | { status: "missing" };
+
+const JOURNAL_KEY = "usage:journal";
+const JOURNAL_LOCK_KEY = "usage:journal:lock";
+
+// Counters outlive their period by a day (or the late usage window, if
+// longer) so late flushes and backdated usage can still reach them
+const COUNTER_RETENTION_MS =
+  Math.max(config.usage.lateUsageWindowHours, 24) * 60 * 60 * 1000;
+
+// Lua numbers are doubles; format them as integers so every Redis build
+// stores and returns the same strings
+const PRIME_COUNTER_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  for i = 2, #ARGV, 2 do
+    redis.call('HSET', KEYS[1], ARGV[i], ARGV[i + 1])
+  end
+  redis.call('PEXPIREAT', KEYS[1], ARGV[1])
+end
+return redis.call('HGETALL', KEYS[1])
+`;
+
+const INCREMENT_COUNTER_SCRIPT = `
+local existing = redis.call('GET', KEYS[2])
+if existing then
+  return {'duplicate', existing}
+end
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return {'missing'}
+end
+local value = tonumber(ARGV[1])
+local used = tonumber(redis.call('HGET', KEYS[1], 'used'))
+if ARGV[2] ~= '' and used + value > tonumber(ARGV[2]) then
+  return {'denied', string.format('%d', used)}
+end
+used = tonumber(redis.call('HINCRBY', KEYS[1], 'used', value))
+redis.call('HINCRBY', KEYS[1], 'pending', value)
+local quota = tonumber(redis.call('HGET', KEYS[1], 'included')) +
+  tonumber(redis.call('HGET', KEYS[1], 'rolledOver') or '0')
+local response = '{"periodKey":"' .. redis.call('HGET', KEYS[1], 'periodKey') ..
+  '","used":' .. string.format('%d', used) ..
+  ',"remaining":' .. string.format('%d', quota - used) .. '}'
+redis.call('SET', KEYS[2], response, 'EX', tonumber(ARGV[3]))
+redis.call('RPUSH', KEYS[3],
+  string.sub(ARGV[4], 1, -2) .. ',"response":' .. response .. '}')
+return {'applied', response}
+`;
+
+const SETTLE_SCRIPT = `
+local trim = tonumber(ARGV[1])
+if trim > 0 then
+  redis.call('LTRIM', KEYS[1], trim, -1)
+end
+for i = 2, #KEYS do
+  if redis.call('EXISTS', KEYS[i]) == 1 then
+    local pending = tonumber(redis.call('HINCRBY', KEYS[i], 'pending', -tonumber(ARGV[2 * i - 2])))
+    if pending < 0 then
+      redis.call('HSET', KEYS[i], 'pending', '0')
+    end
+    local delta = tonumber(ARGV[2 * i - 1])
+    if delta ~= 0 then
+      redis.call('HINCRBY', KEYS[i], 'used', delta)
+    end
+  end
+end
+return 1
+`;
+
+const RAISE_INCLUDED_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+redis.call('HINCRBY', KEYS[1], 'credited', ARGV[1])
+return redis.call('HINCRBY', KEYS[1], 'included', ARGV[1])
+`;
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Whether the Redis usage counter cache is configured
+ *
+ * @returns true when REDIS_URL is set
+ */
+export function isUsageCacheEnabled(): boolean {
+  return redis !== null;
+}
+
+function contextKey(clerkOrgId: string): string {
+  return `usage:context:${clerkOrgId}`;
+}
+
+function counterKey(
+  clerkOrgId: string,
+  periodKey: string,
+  metric: string
+): string {
+  return `usage:counter:${clerkOrgId}:${periodKey}:${metric}`;
+}
+
+function idempotencyKey(clerkOrgId: string, requestId: string): string {
+  return `usage:idempotency:${clerkOrgId}:${requestId}`;
+}
+
+/**
+ * Runs a Redis operation, normalizing failures to ApplicationError
+ *
+ * @param description - What the operation does, for the error message
+ * @param operation - Operation to run against the client
+ * @returns Operation result
+ * @throws ApplicationError if Redis is not configured or the operation fails
+ */
+async function withRedis<T>(
+  description: string,
+  operation: (client: Redis) => Promise<T>
+): Promise<T> {
+  if (!redis) {
+    throw new ApplicationError(
+      `Usage cache is not configured: ${description}`,
+      "USAGE_CACHE_ERROR",
+      500
+    );
+  }
+
+  try {
+    return await operation(redis);
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to ${description}`,
+      "USAGE_CACHE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Parses a counter hash as stored by primeCachedUsageCounter
+ *
+ * @param hash - Hash fields and values
+ * @returns Counter record with the live used value
+ */
+function toUsageCounterRecord(
+  hash: Record<string, string>
+): UsageCounterRecord {
+  return {
+    id: hash.id,
+    clerkOrgId: hash.clerkOrgId,
+    periodKey: hash.periodKey,
+    periodStart: new Date(Number(hash.periodStart)),
+    periodEnd: new Date(Number(hash.periodEnd)),
+    metric: hash.metric,
+    included: Number(hash.included),
+    used: Number(hash.used),
+    credited: Number(hash.credited ?? 0),
+    rolledOver: Number(hash.rolledOver ?? 0),
+    organizationId: hash.organizationId,
+    subscriptionId: hash.subscriptionId,
+    createdAt: new Date(Number(hash.createdAt)),
+    updatedAt: new Date(Number(hash.updatedAt)),
+  };
+}
+
+/**
+ * Finds an organization's cached subscription context
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @returns Cached context, or null if not cached or expired
+ */
+export async function getCachedUsageContext(
+  clerkOrgId: string
+): Promise<UsageContext | null> {
+  const cached = await withRedis(
+    `read usage context for organization: ${clerkOrgId}`,
+    (client) => client.get(contextKey(clerkOrgId))
+  );
+
+  if (!cached) {
+    return null;
+  }
+
+  const context = JSON.parse(cached);
+  return {
+    ...context,
+    currentPeriodStart: new Date(context.currentPeriodStart),
+    currentPeriodEnd: new Date(context.currentPeriodEnd),
+  };
+}
+
+/**
+ * Caches an organization's subscription context
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param context - Context to cache
+ * @param ttlSeconds - How long the context stays cached
+ */
+export async function setCachedUsageContext(
+  clerkOrgId: string,
+  context: UsageContext,
+  ttlSeconds: number
+): Promise<void> {
+  await withRedis(
+    `cache usage context for organization: ${clerkOrgId}`,
+    (client) =>
+      client.set(
+        contextKey(clerkOrgId),
+        JSON.stringify(context),
+        "EX",
+        ttlSeconds
+      )
+  );
+}
+
+/**
+ * Finds a live usage counter in the cache
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param periodKey - Period key (YYYY-MM-DD)
+ * @param metric - Metric name
+ * @returns Counter with live usage, or null if not cached
+ */
+export async function getCachedUsageCounter(
+  clerkOrgId: string,
+  periodKey: string,
+  metric: string
+): Promise<UsageCounterRecord | null> {
+  const hash = await withRedis(
+    `read cached usage counter for organization: ${clerkOrgId}`,
+    (client) => client.hgetall(counterKey(clerkOrgId, periodKey, metric))
+  );
+
+  return hash.id ? toUsageCounterRecord(hash) : null;
+}
+
+/**
+ * Loads a Postgres usage counter into the cache unless it is already cached
+ *
+ * An already cached counter wins, since it may hold usage not yet flushed.
+ * The cached counter expires COUNTER_RETENTION_MS after its period ends.
+ *
+ * @param counter - Counter as read from Postgres
+ * @returns Cached counter with live usage
+ */
+export async function primeCachedUsageCounter(
+  counter: UsageCounterRecord
+): Promise<UsageCounterRecord> {
+  const fields: Record<string, string | number> = {
+    id: counter.id,
+    clerkOrgId: counter.clerkOrgId,
+    periodKey: counter.periodKey,
+    periodStart: counter.periodStart.getTime(),
+    periodEnd: counter.periodEnd.getTime(),
+    metric: counter.metric,
+    included: counter.included,
+    used: counter.used,
+    credited: counter.credited ?? 0,
+    rolledOver: counter.rolledOver ?? 0,
+    pending: 0,
+    organizationId: counter.organizationId,
+    subscriptionId: counter.subscriptionId,
+    createdAt: counter.createdAt.getTime(),
+    updatedAt: counter.updatedAt.getTime(),
+  };
+
+  const reply = (await withRedis(
+    `cache usage counter: ${counter.id}`,
+    (client) =>
+      client.eval(
+        PRIME_COUNTER_SCRIPT,
+        1,
+        counterKey(counter.clerkOrgId, counter.periodKey, counter.metric),
+        counter.periodEnd.getTime() + COUNTER_RETENTION_MS,
+        ...Object.entries(fields).flat()
+      )
+  )) as string[];
+
+  const hash: Record<string, string> = {};
+  for (let i = 0; i < reply.length; i += 2) {
+    hash[reply[i]] = reply[i + 1];
+  }
+
+  return toUsageCounterRecord(hash);
+}
+
+/**
+ * Atomically records usage against a cached counter
+ *
+ * In one script: return the stored response if the request_id was already
+ * recorded; otherwise increment used (unless it would pass cap), store the
+ * response under the request_id, and append the entry to the journal.
+ *
+ * @param data - Counter, value, cap (null = uncapped), request_id, journal
+ *   entry without its response, and how long the response is kept
+ * @returns applied with the new response, duplicate with the stored
+ *   response, denied with current usage, or missing if the counter is not cached
+ */
+export async function incrementCachedUsageCounter(data: {
+  counter: UsageCounterRecord;
+  value: number;
+  cap: number | null;
+  entry: Omit<UsageJournalEntry, "response">;
+  idempotencyTtlSeconds: number;
+}): Promise<CachedUsageIncrement> {
+  const [status, payload] = (await withRedis(
+    `increment cached usage counter: ${data.counter.id}`,
+    (client) =>
+      client.eval(
+        INCREMENT_COUNTER_SCRIPT,
+        3,
+        counterKey(
+          data.counter.clerkOrgId,
+          data.counter.periodKey,
+          data.counter.metric
+        ),
+        idempotencyKey(data.entry.clerkOrgId, data.entry.requestId),
+        JOURNAL_KEY,
+        data.value,
+        data.cap === null ? "" : data.cap,
+        data.idempotencyTtlSeconds,
+        JSON.stringify(data.entry)
+      )
+  )) as [string, string?];
+
+  // Only a counter that isn't cached is reported without a payload
+  if (payload === undefined) {
+    return { status: "missing" };
+  }
+
+  switch (status) {
+    case "applied":
+      return { status, response: JSON.parse(payload) };
+    case "duplicate":
+      return { status, response: JSON.parse(payload) };
+    case "denied":
+      return { status, used: Number(payload) };
+    default:
+      return { status: "missing" };
+  }
+}
+
+/**
+ * Raises a cached counter's included quota by credits drawn into it
+ *
+ * Mirrors drawCredits in Postgres, so capped increments see the credits
+ * straight away (and releaseCreditDraws, with a negative amount). A counter
+ * no longer cached picks them up when reprimed.
+ *
+ * @param counter - Counter the credits were drawn into
+ * @param amount - Credits drawn (negative for credits released)
+ */
+export async function raiseCachedUsageIncluded(
+  counter: UsageCounterRecord,
+  amount: number
+): Promise<void> {
+  await withRedis(`raise cached included quota: ${counter.id}`, (client) =>
+    client.eval(
+      RAISE_INCLUDED_SCRIPT,
+      1,
+      counterKey(counter.clerkOrgId, counter.periodKey, counter.metric),
+      amount
+    )
+  );
+}
+
+/**
+ * Finds cached responses for request_ids
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param requestIds - Request IDs to look up
+ * @returns Stored responses keyed by request_id (missing ids are omitted)
+ */
+export async function findCachedUsageResponses(
+  clerkOrgId: string,
+  requestIds: string[]
+): Promise<Map<string, unknown>> {
+  if (requestIds.length === 0) {
+    return new Map();
+  }
+
+  const values = await withRedis(
+    `read cached responses for organization: ${clerkOrgId}`,
+    (client) =>
+      client.mget(
+        requestIds.map((requestId) => idempotencyKey(clerkOrgId, requestId))
+      )
+  );
+
+  const responses = new Map<string, unknown>();
+  values.forEach((value, i) => {
+    if (value !== null) {
+      responses.set(requestIds[i], JSON.parse(value));
+    }
+  });
+  return responses;
+}
+
+/**
+ * Caches responses for request_ids recorded through Postgres directly
+ *
+ * Existing entries are left untouched.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param responses - Responses to cache per request_id
+ * @param ttlSeconds - How long each response is kept
+ */
+export async function cacheUsageResponses(
+  clerkOrgId: string,
+  responses: Array<{ requestId: string; response: unknown }>,
+  ttlSeconds: number
+): Promise<void> {
+  if (responses.length === 0) {
+    return;
+  }
+
+  await withRedis(
+    `cache responses for organization: ${clerkOrgId}`,
+    async (client) => {
+      const pipeline = client.pipeline();
+      for (const { requestId, response } of responses) {
+        pipeline.set(
+          idempotencyKey(clerkOrgId, requestId),
+          JSON.stringify(response),
+          "EX",
+          ttlSeconds,
+          "NX"
+        );
+      }
+      await pipeline.exec();
+    }
+  );
+}
+
+/**
+ * Reads the oldest journal entries without removing them
+ *
+ * @param limit - Maximum number of entries
+ * @returns Entries in the order they were recorded
+ */
+export async function readUsageJournal(
+  limit: number
+): Promise<UsageJournalEntry[]> {
+  const values = await withRedis("read usage journal", (client) =>
+    client.lrange(JOURNAL_KEY, 0, limit - 1)
+  );
+
+  return values.map((value) => {
+    const entry = JSON.parse(value);
+    return {
+      ...entry,
+      occurredAt: new Date(entry.occurredAt),
+      expiresAt: new Date(entry.expiresAt),
+    };
+  });
+}
+
+/**
+ * Removes flushed entries from the journal and brings counters up to date
+ *
+ * In one script: trims the first `count` journal entries, subtracts each
+ * counter's flushed amount from its pending usage, and adds to used the
+ * usage written to Postgres without going through the cache. Flushing
+ * leaves used as is, since the usage was already counted when journaled.
+ * Only deltas are applied, never a Postgres snapshot, so a flush and a
+ * direct write settling in either order can't undo each other. Counters no
+ * longer cached are skipped.
+ *
+ * @param count - Number of entries flushed from the head of the journal
+ * @param counters - Counters with the amount flushed from the journal and
+ *   the usage delta written straight to Postgres (either may be 0)
+ */
+export async function settleCachedUsageCounters(
+  count: number,
+  counters: Array<{
+    counter: UsageCounterRecord;
+    flushed: number;
+    delta: number;
+  }>
+): Promise<void> {
+  await withRedis("settle cached usage counters", (client) =>
+    client.eval(
+      SETTLE_SCRIPT,
+      counters.length + 1,
+      JOURNAL_KEY,
+      ...counters.map(({ counter }) =>
+        counterKey(counter.clerkOrgId, counter.periodKey, counter.metric)
+      ),
+      count,
+      ...counters.flatMap(({ flushed, delta }) => [flushed, delta])
+    )
+  );
+}
+
+/**
+ * Acquires the journal flush lock
+ *
+ * @param ttlSeconds - Lock lifetime
+ * @returns Lock token, or null if another flush holds the lock
+ */
+export async function acquireUsageJournalLock(
+  ttlSeconds: number
+): Promise<string | null> {
+  const token = generateId();
+  const acquired = await withRedis("acquire usage journal lock", (client) =>
+    client.set(JOURNAL_LOCK_KEY, token, "EX", ttlSeconds, "NX")
+  );
+
+  return acquired ? token : null;
+}
+
+/**
+ * Releases the journal flush lock if still held by this token
+ *
+ * @param token - Token returned by acquireUsageJournalLock
+ */
+export async function releaseUsageJournalLock(token: string): Promise<void> {
+  await withRedis("release usage journal lock", (client) =>
+    client.eval(RELEASE_LOCK_SCRIPT, 1, JOURNAL_LOCK_KEY, token)
+  );
+}
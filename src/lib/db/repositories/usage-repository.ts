@@ -1,14 +1,24 @@
 /**
  * Usage Repository
- * 
+ *
  * Data access layer for usage operations.
  * Handles database interactions for usage counters and records.
- * 
+ *
  * @module lib/db/repositories/usage-repository
  */
 
+import { Prisma } from "@prisma/client";
 import { db } from "../../db";
+import { config } from "../../config";
 import { OrgCreationError } from "../../errors/org-errors";
+import { DuplicateRequestIdError } from "../../errors/usage-errors";
+import {
+  createIdempotencyKeys,
+  claimIdempotencyKeys,
+} from "./idempotency-repository";
+import { incrementPoolMemberUsage } from "./pool-repository";
+import { incrementMemberUsage } from "./member-repository";
+import { incrementUsageRollups } from "./usage-rollup-repository";
 
 export interface UsageCounterRecord {
   id: string;
@@ -19,6 +29,9 @@ export interface UsageCounterRecord {
   metric: string;
   included: number;
   used: number;
+  credited?: number; // credits drawn into included this period
+  rolledOver?: number; // unused quota carried over from earlier periods
+  rolloverLots?: RolloverLot[];
   organizationId: string;
   subscriptionId: string;
   createdAt: Date;
@@ -26,25 +39,79 @@ export interface UsageCounterRecord {
 }
 
 /**
- * Formats a date to period key (YYYY-MM format)
- * 
- * @param date - Date to format
- * @returns Period key string (YYYY-MM)
+ * Units rolled over into a period from one earlier period
+ *
+ * periodsLeft counts the further periods the units may carry into once this
+ * one ends; lots at 0 expire with the period.
  */
-export function formatPeriodKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  return `${year}-${month}`;
+export interface RolloverLot {
+  periodKey: string; // period the units were included in
+  units: number;
+  periodsLeft: number;
+}
+
+/**
+ * Quota a counter's usage is measured against
+ *
+ * @param counter - Usage counter
+ * @returns Included quota plus units rolled over into the period
+ */
+export function getCounterQuota(counter: UsageCounterRecord): number {
+  return counter.included + (counter.rolledOver ?? 0);
+}
+
+/**
+ * Formats a billing period start to a period key (YYYY-MM-DD)
+ *
+ * The key is the calendar date the Stripe billing period starts on, in the
+ * given timezone, so every billing period gets its own key: anchors late in
+ * the month and two periods starting in the same month no longer collide,
+ * and the result does not depend on the server's local timezone.
+ *
+ * @param periodStart - Billing period start (subscription.currentPeriodStart)
+ * @param timeZone - IANA timezone (defaults to config.app.timezone)
+ * @returns Period key string (YYYY-MM-DD)
+ */
+export function formatPeriodKey(
+  periodStart: Date,
+  timeZone: string = config.app.timezone
+): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(periodStart);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value;
+
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/**
+ * Whether a period key uses the legacy calendar-month format (YYYY-MM)
+ *
+ * Counters created before period keys followed the billing period carry
+ * these keys until migrated with migrateUsageCounterPeriodKey.
+ *
+ * @param periodKey - Period key to test
+ * @returns true for YYYY-MM keys
+ */
+export function isLegacyPeriodKey(periodKey: string): boolean {
+  return /^\d{4}-\d{2}$/.test(periodKey);
 }
 
 /**
  * Upserts a usage counter
- * 
+ *
  * If a counter exists for the given clerkOrgId, periodKey, and metric,
- * it updates the included value but preserves the used value.
- * If it doesn't exist, it creates a new counter with used: 0.
- * 
- * @param data - Usage counter data
+ * it updates the included value but preserves the used value, any
+ * credits already drawn into included this period and any quota rolled
+ * over into it. A legacy (YYYY-MM) counter for the same billing period is moved to the
+ * new key first. Otherwise it creates a new counter with used: 0 and the
+ * given rollover.
+ *
+ * @param data - Usage counter data (rollover applies only on create)
  * @returns Created or updated usage counter record
  * @throws OrgCreationError if database operation fails
  */
@@ -57,8 +124,15 @@ export async function upsertUsageCounter(data: {
   periodEnd: Date;
   metric: string;
   included: number;
+  rollover?: { units: number; lots: RolloverLot[] };
 }): Promise<UsageCounterRecord> {
   try {
+    // Carry a legacy counter for this period over instead of starting at 0
+    const existing = isLegacyPeriodKey(data.periodKey)
+      ? null
+      : await findUsageCounter(data.clerkOrgId, data.periodKey, data.metric);
+    const credited: number = existing?.credited ?? 0;
+
     // Upsert: update if exists, create if not
     // Preserve existing 'used' value if counter already exists
     const counter = await db.usageCounter.upsert({
@@ -70,8 +144,8 @@ export async function upsertUsageCounter(data: {
         },
       },
       update: {
-        // Update included quota but preserve used value
-        included: data.included,
+        // Update included quota but preserve used value and drawn credits
+        included: data.included + credited,
         periodStart: data.periodStart,
         periodEnd: data.periodEnd,
         subscriptionId: data.subscriptionId,
@@ -87,6 +161,8 @@ export async function upsertUsageCounter(data: {
         metric: data.metric,
         included: data.included,
         used: 0, // Start with 0 used
+        rolledOver: data.rollover?.units ?? 0,
+        rolloverLots: data.rollover?.lots ?? [],
       },
     });
 
@@ -101,9 +177,12 @@ export async function upsertUsageCounter(data: {
 
 /**
  * Finds a usage counter by unique key
- * 
+ *
+ * A counter still keyed by calendar month for the same billing period is
+ * migrated to periodKey and returned.
+ *
  * @param clerkOrgId - Clerk organization ID
- * @param periodKey - Period key (YYYY-MM)
+ * @param periodKey - Period key (YYYY-MM-DD)
  * @param metric - Metric name (e.g., 'api_call')
  * @returns Usage counter record or null if not found
  */
@@ -112,6 +191,68 @@ export async function findUsageCounter(
   periodKey: string,
   metric: string
 ): Promise<UsageCounterRecord | null> {
+  const counter = await db.usageCounter.findUnique({
+    where: {
+      clerkOrgId_periodKey_metric: {
+        clerkOrgId,
+        periodKey,
+        metric,
+      },
+    },
+  });
+
+  if (counter || isLegacyPeriodKey(periodKey)) {
+    return counter;
+  }
+
+  return adoptLegacyUsageCounter(clerkOrgId, periodKey, metric);
+}
+
+/**
+ * Moves the legacy counter for a billing period to its new period key
+ *
+ * Legacy keys were the server-local month of the period start, so the
+ * counter is searched in the neighbouring months too and matched on its
+ * stored periodStart.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param periodKey - Period key (YYYY-MM-DD)
+ * @param metric - Metric name
+ * @returns Migrated counter, or null if there is no legacy counter
+ */
+async function adoptLegacyUsageCounter(
+  clerkOrgId: string,
+  periodKey: string,
+  metric: string
+): Promise<UsageCounterRecord | null> {
+  const [year, month] = periodKey.split("-").map(Number);
+  const legacyKeys = [-1, 0, 1].map((offset) => {
+    const date = new Date(Date.UTC(year, month - 1 + offset, 1));
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+  });
+
+  const candidates: UsageCounterRecord[] = await db.usageCounter.findMany({
+    where: {
+      clerkOrgId,
+      metric,
+      periodKey: {
+        in: legacyKeys,
+      },
+    },
+  });
+  const legacy = candidates.find(
+    (candidate) => formatPeriodKey(candidate.periodStart) === periodKey
+  );
+
+  if (!legacy) {
+    return null;
+  }
+
+  if (await migrateUsageCounterPeriodKey(legacy.id, periodKey)) {
+    return { ...legacy, periodKey };
+  }
+
+  // Another counter took the key first
   return db.usageCounter.findUnique({
     where: {
       clerkOrgId_periodKey_metric: {
@@ -123,9 +264,25 @@ export async function findUsageCounter(
   });
 }
 
+/**
+ * Finds a usage counter by ID
+ *
+ * @param id - Usage counter ID
+ * @returns Usage counter record or null if not found
+ */
+export async function findUsageCounterById(
+  id: string
+): Promise<UsageCounterRecord | null> {
+  return db.usageCounter.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
 /**
  * Finds usage counters for an organization
- * 
+ *
  * @param organizationId - Internal organization ID
  * @returns Array of usage counter records
  */
@@ -142,6 +299,154 @@ export async function findUsageCountersByOrganizationId(
   });
 }
 
+/**
+ * Finds all usage counters (one per metric) for an organization's period
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param periodKey - Period key (YYYY-MM-DD)
+ * @returns Array of usage counter records ordered by metric
+ */
+export async function findUsageCountersForPeriod(
+  clerkOrgId: string,
+  periodKey: string
+): Promise<UsageCounterRecord[]> {
+  return db.usageCounter.findMany({
+    where: {
+      clerkOrgId,
+      periodKey,
+    },
+    orderBy: {
+      metric: "asc",
+    },
+  });
+}
+
+/**
+ * Finds earlier-period counters of an organization that are still open
+ *
+ * A counter is open while its periodEnd is after the given period start.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param periodKey - Current period key (excluded)
+ * @param periodStart - Start of the current period
+ * @returns Open usage counters of earlier periods
+ */
+export async function findOpenUsageCountersBefore(
+  clerkOrgId: string,
+  periodKey: string,
+  periodStart: Date
+): Promise<UsageCounterRecord[]> {
+  return db.usageCounter.findMany({
+    where: {
+      clerkOrgId,
+      periodKey: {
+        not: periodKey,
+      },
+      periodStart: {
+        lt: periodStart,
+      },
+      periodEnd: {
+        gt: periodStart,
+      },
+    },
+    orderBy: {
+      metric: "asc",
+    },
+  });
+}
+
+/**
+ * Finds an organization's usage counters whose period contains a time
+ *
+ * A period contains the time when periodStart <= at < periodEnd.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param at - Time to look up (e.g. when backdated usage occurred)
+ * @returns Matching usage counters, latest period first (empty if unknown)
+ */
+export async function findUsageCountersCoveringTime(
+  clerkOrgId: string,
+  at: Date
+): Promise<UsageCounterRecord[]> {
+  return db.usageCounter.findMany({
+    where: {
+      clerkOrgId,
+      periodStart: {
+        lte: at,
+      },
+      periodEnd: {
+        gt: at,
+      },
+    },
+    orderBy: [{ periodStart: "desc" }, { metric: "asc" }],
+  });
+}
+
+/**
+ * Finds the counter of the period just before a period start, for a metric
+ *
+ * Only the adjacent period qualifies: one that started earlier and ran at
+ * least until periodStart. After a gap (no subscription in between) there
+ * is no previous counter.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric name
+ * @param periodStart - Start of the later period
+ * @returns Usage counter, or null if none
+ */
+export async function findPreviousUsageCounter(
+  clerkOrgId: string,
+  metric: string,
+  periodStart: Date
+): Promise<UsageCounterRecord | null> {
+  return db.usageCounter.findFirst({
+    where: {
+      clerkOrgId,
+      metric,
+      periodStart: {
+        lt: periodStart,
+      },
+      periodEnd: {
+        gte: periodStart,
+      },
+    },
+    orderBy: {
+      periodStart: "desc",
+    },
+  });
+}
+
+/**
+ * Closes usage counters by ending their period
+ *
+ * @param ids - Usage counter IDs
+ * @param periodEnd - New period end (the next period's start)
+ * @returns Number of counters closed
+ * @throws OrgCreationError if database operation fails
+ */
+export async function closeUsageCounters(
+  ids: string[],
+  periodEnd: Date
+): Promise<number> {
+  try {
+    const result = await db.usageCounter.updateMany({
+      where: {
+        id: {
+          in: ids,
+        },
+      },
+      data: {
+        periodEnd,
+      },
+    });
+    return result.count;
+  } catch (error) {
+    throw new OrgCreationError(`Failed to close ${ids.length} usage counters`, {
+      originalError: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 export interface UsageRecordRecord {
   id: string;
   clerkOrgId: string;
@@ -156,109 +461,723 @@ export interface UsageRecordRecord {
 }
 
 /**
- * Atomically increments the used value of a usage counter
- * 
- * @param counterId - Usage counter ID
- * @param value - Value to increment by (must be positive)
- * @returns Updated usage counter record
+ * Idempotency key written alongside recorded usage
+ *
+ * response builds the body replayed for the request_id from the counter
+ * state right after the increment.
+ */
+export interface UsageIdempotencyKey {
+  now: Date;
+  expiresAt: Date;
+  response: (counter: UsageCounterRecord) => unknown;
+}
+
+/**
+ * Finds an organization's usage record by request_id in metadata
+ *
+ * request_ids are only unique within an organization, so the lookup is
+ * scoped to it.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param requestId - Request ID to search for
+ * @returns Usage record or null if not found
+ * @throws OrgCreationError if database operation fails
+ */
+export async function findUsageRecordByRequestId(
+  clerkOrgId: string,
+  requestId: string
+): Promise<UsageRecordRecord | null> {
+  try {
+    // Query UsageRecord where metadata.request_id equals requestId
+    return await db.usageRecord.findFirst({
+      where: {
+        clerkOrgId,
+        metadata: {
+          path: ["request_id"],
+          equals: requestId,
+        },
+      },
+    });
+  } catch (error) {
+    throw new OrgCreationError(
+      `Failed to find usage record for request_id: ${requestId}`,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Applies a batch of usage in a single transaction
+ *
+ * Each counter is incremented once by the sum of its items, and all usage
+ * records are inserted (and added to the rollups) together with one
+ * idempotency key per record, so the batch is recorded entirely or not at all.
+ *
+ * @param data - Aggregated increments per counter, the usage records to create,
+ *   the idempotency keys' expiry and response, the pool member whose
+ *   share of the counters to increment if they are a pool's (uncapped), and
+ *   the organization member the usage is attributed to (uncapped)
+ * @returns Updated usage counter records, in the order of data.increments
+ * @throws DuplicateRequestIdError if any request_id was recorded concurrently
  * @throws OrgCreationError if database operation fails
  */
-export async function incrementUsageCounter(
-  counterId: string,
-  value: number
-): Promise<UsageCounterRecord> {
-  if (value <= 0) {
+export async function applyUsageBatch(data: {
+  increments: Array<{ usageCounterId: string; value: number }>;
+  records: Array<{
+    organizationId: string;
+    clerkOrgId: string;
+    subscriptionId: string;
+    usageCounterId: string;
+    metric: string;
+    value: number;
+    occurredAt: Date;
+    metadata: { request_id: string; user_id?: string };
+  }>;
+  idempotency: UsageIdempotencyKey;
+  poolMemberClerkOrgId?: string;
+  memberUserId?: string;
+}): Promise<UsageCounterRecord[]> {
+  const invalid = data.increments.find((increment) => increment.value <= 0);
+  if (invalid) {
     throw new OrgCreationError(
-      `Invalid increment value: ${value}. Must be positive.`,
-      { counterId, value }
+      `Invalid increment value: ${invalid.value}. Must be positive.`,
+      { counterId: invalid.usageCounterId, value: invalid.value }
     );
   }
 
   try {
-    // Use Prisma's atomic increment
-    const counter = await db.usageCounter.update({
-      where: { id: counterId },
-      data: {
-        used: {
-          increment: value,
+    return await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const counters: UsageCounterRecord[] = [];
+
+      for (const increment of data.increments) {
+        const counter: UsageCounterRecord = await tx.usageCounter.update({
+          where: { id: increment.usageCounterId },
+          data: {
+            used: {
+              increment: increment.value,
+            },
+          },
+        });
+        counters.push(counter);
+
+        if (data.poolMemberClerkOrgId) {
+          await incrementPoolMemberUsage(tx, {
+            usageCounterId: counter.id,
+            clerkOrgId: data.poolMemberClerkOrgId,
+            periodKey: counter.periodKey,
+            metric: counter.metric,
+            value: increment.value,
+            cap: null,
+          });
+        }
+
+        if (data.memberUserId) {
+          await incrementMemberUsage(tx, {
+            usageCounterId: counter.id,
+            clerkOrgId: data.records[0].clerkOrgId,
+            userId: data.memberUserId,
+            periodKey: counter.periodKey,
+            metric: counter.metric,
+            value: increment.value,
+            cap: null,
+          });
+        }
+      }
+
+      await tx.usageRecord.createMany({
+        data: data.records,
+      });
+      await incrementUsageRollups(tx, data.records);
+
+      // Each key replays the state of its record's counter after the batch
+      const countersById = new Map(
+        counters.map((counter) => [counter.id, counter])
+      );
+      await createIdempotencyKeys(
+        tx,
+        data.records[0].clerkOrgId,
+        data.records.map((record) => {
+          const counter = countersById.get(record.usageCounterId);
+          if (!counter) {
+            throw new Error(
+              `Usage record without an increment for counter: ${record.usageCounterId}`
+            );
+          }
+          return {
+            requestId: record.metadata.request_id,
+            response: data.idempotency.response(counter),
+            expiresAt: data.idempotency.expiresAt,
+          };
+        }),
+        data.idempotency.now
+      );
+
+      return counters;
+    });
+  } catch (error) {
+    // Unique constraint violation - a concurrent request recorded a request_id
+    if ((error as { code?: string })?.code === "P2002") {
+      throw new DuplicateRequestIdError(
+        "Usage already recorded for one or more request_ids in the batch",
+        { count: data.records.length }
+      );
+    }
+    throw new OrgCreationError(
+      `Failed to apply usage batch of ${data.records.length} records`,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+export type UsageHistoryGranularity = "hour" | "day" | "period";
+
+export interface UsageHistoryBucketRow {
+  bucket: string; // ISO start of hour/day, or periodKey for "period"
+  value: number;
+  count: number;
+}
+
+/**
+ * Sums usage records into time buckets
+ *
+ * Hour and day buckets are truncated in UTC; "period" groups by the billing
+ * period (periodKey) of the counter each record was rolled into.
+ *
+ * @param filter - Organization, metric and [from, to) range
+ * @param granularity - Bucket size
+ * @returns Non-empty buckets in ascending order
+ * @throws OrgCreationError if database operation fails
+ */
+export async function sumUsageRecordsByBucket(
+  filter: { clerkOrgId: string; metric: string; from: Date; to: Date },
+  granularity: UsageHistoryGranularity
+): Promise<UsageHistoryBucketRow[]> {
+  try {
+    if (granularity === "period") {
+      const rows: Array<{ bucket: string; value: number; count: number }> =
+        await db.$queryRaw`
+          SELECT uc."period_key" AS "bucket",
+                 SUM(ur."value")::int AS "value",
+                 COUNT(*)::int AS "count"
+          FROM "usage_records" ur
+          JOIN "usage_counters" uc ON uc."id" = ur."usageCounterId"
+          WHERE ur."clerk_org_id" = ${filter.clerkOrgId}
+            AND ur."metric" = ${filter.metric}
+            AND ur."occurred_at" >= ${filter.from}
+            AND ur."occurred_at" < ${filter.to}
+          GROUP BY uc."period_key"
+          ORDER BY uc."period_key"
+        `;
+      return rows;
+    }
+
+    const rows: Array<{ bucket: Date; value: number; count: number }> =
+      await db.$queryRaw`
+        SELECT date_trunc(${granularity}, "occurred_at") AS "bucket",
+               SUM("value")::int AS "value",
+               COUNT(*)::int AS "count"
+        FROM "usage_records"
+        WHERE "clerk_org_id" = ${filter.clerkOrgId}
+          AND "metric" = ${filter.metric}
+          AND "occurred_at" >= ${filter.from}
+          AND "occurred_at" < ${filter.to}
+        GROUP BY 1
+        ORDER BY 1
+      `;
+    return rows.map((row) => ({
+      bucket: row.bucket.toISOString(),
+      value: row.value,
+      count: row.count,
+    }));
+  } catch (error) {
+    throw new OrgCreationError(
+      `Failed to aggregate usage history for organization: ${filter.clerkOrgId}`,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds a page of usage records, newest first
+ *
+ * Keyset pagination on (occurredAt, id): pass the last record of the previous
+ * page as `after` to continue.
+ *
+ * @param filter - Organization, metric and [from, to) range
+ * @param page - Page size and optional position to continue after
+ * @returns Usage records for the page
+ * @throws OrgCreationError if database operation fails
+ */
+export async function findUsageRecordsPage(
+  filter: { clerkOrgId: string; metric: string; from: Date; to: Date },
+  page: { limit: number; after?: { occurredAt: Date; id: string } }
+): Promise<UsageRecordRecord[]> {
+  try {
+    return await db.usageRecord.findMany({
+      where: {
+        clerkOrgId: filter.clerkOrgId,
+        metric: filter.metric,
+        occurredAt: {
+          gte: filter.from,
+          lt: filter.to,
         },
+        ...(page.after
+          ? {
+              OR: [
+                { occurredAt: { lt: page.after.occurredAt } },
+                {
+                  occurredAt: page.after.occurredAt,
+                  id: { lt: page.after.id },
+                },
+              ],
+            }
+          : {}),
       },
+      orderBy: [{ occurredAt: "desc" }, { id: "desc" }],
+      take: page.limit,
     });
+  } catch (error) {
+    throw new OrgCreationError(
+      `Failed to find usage records for organization: ${filter.clerkOrgId}`,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
 
-    return counter;
+export interface UsageExportRow extends UsageRecordRecord {
+  usageCounter: {
+    periodKey: string;
+  };
+}
+
+/**
+ * Finds a page of usage records for export, oldest first
+ *
+ * Keyset pagination on (occurredAt, id) so exports of any size are read one
+ * page at a time. Each record carries the periodKey of its usage counter.
+ *
+ * @param filter - Organization, optional metric and [from, to) range
+ * @param page - Page size and optional position to continue after
+ * @returns Usage records with their period key
+ * @throws OrgCreationError if database operation fails
+ */
+export async function findUsageRecordsForExport(
+  filter: { clerkOrgId: string; metric?: string; from: Date; to: Date },
+  page: { limit: number; after?: { occurredAt: Date; id: string } }
+): Promise<UsageExportRow[]> {
+  try {
+    return await db.usageRecord.findMany({
+      where: {
+        clerkOrgId: filter.clerkOrgId,
+        ...(filter.metric ? { metric: filter.metric } : {}),
+        occurredAt: {
+          gte: filter.from,
+          lt: filter.to,
+        },
+        ...(page.after
+          ? {
+              OR: [
+                { occurredAt: { gt: page.after.occurredAt } },
+                {
+                  occurredAt: page.after.occurredAt,
+                  id: { gt: page.after.id },
+                },
+              ],
+            }
+          : {}),
+      },
+      include: {
+        usageCounter: {
+          select: {
+            periodKey: true,
+          },
+        },
+      },
+      orderBy: [{ occurredAt: "asc" }, { id: "asc" }],
+      take: page.limit,
+    });
   } catch (error) {
     throw new OrgCreationError(
-      `Failed to increment usage counter: ${counterId}`,
+      `Failed to export usage records for organization: ${filter.clerkOrgId}`,
       { originalError: error instanceof Error ? error.message : String(error) }
     );
   }
 }
 
 /**
- * Creates a usage record with metadata for idempotency
- * 
- * @param data - Usage record data
- * @returns Created usage record
+ * Thrown inside a consume transaction when the pool member's or the
+ * organization member's cap would be exceeded, to roll the counter
+ * increment back
+ */
+class MemberCapExceeded extends Error {}
+
+/**
+ * Atomically consumes quota from a usage counter and records the usage
+ *
+ * The increment is applied with a conditional UPDATE
+ * (`used + value <= included + rolledOver + overageAllowance`) so concurrent consumers can
+ * never push `used` past the plan's cap. A null overageAllowance (unlimited plan)
+ * increments unconditionally. The usage record (with its rollups) and the
+ * request_id's idempotency key are created in the same transaction, so a denied consume
+ * leaves nothing behind and a request_id can only ever be counted once.
+ *
+ * For a pool member (data.clerkOrgId consuming its parent's counter), the
+ * member's share of the counter is incremented too, and the whole consume
+ * is rolled back if that would exceed the member's cap. Likewise for usage
+ * attributed to a user (data.member), against the user's own cap.
+ *
+ * @param data - Counter to consume from, allowed overage, usage record data,
+ *   the idempotency key's expiry and response, the pool member's period
+ *   and cap if the counter is a pool's, and the user the usage is
+ *   attributed to with their cap
+ * @returns Updated usage counter record, or null if the increment would
+ *   exceed the cap (or the pool member's or user's cap)
+ * @throws DuplicateRequestIdError if the request_id was recorded concurrently
  * @throws OrgCreationError if database operation fails
  */
-export async function createUsageRecord(data: {
+export async function consumeUsageCounterWithinQuota(data: {
   organizationId: string;
   clerkOrgId: string;
   subscriptionId: string;
   usageCounterId: string;
   metric: string;
   value: number;
+  overageAllowance: number | null;
   occurredAt: Date;
-  metadata: { request_id: string };
-}): Promise<UsageRecordRecord> {
+  metadata: { request_id: string; user_id?: string };
+  idempotency: UsageIdempotencyKey;
+  poolMember?: { periodKey: string; cap: number | null };
+  member?: { userId: string; periodKey: string; cap: number | null };
+}): Promise<UsageCounterRecord | null> {
+  if (data.value <= 0) {
+    throw new OrgCreationError(
+      `Invalid increment value: ${data.value}. Must be positive.`,
+      { counterId: data.usageCounterId, value: data.value }
+    );
+  }
+
   try {
-    const record = await db.usageRecord.create({
-      data: {
-        organizationId: data.organizationId,
-        clerkOrgId: data.clerkOrgId,
-        subscriptionId: data.subscriptionId,
-        usageCounterId: data.usageCounterId,
-        metric: data.metric,
-        value: data.value,
-        occurredAt: data.occurredAt,
-        metadata: data.metadata,
-      },
+    return await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const affected =
+        data.overageAllowance === null
+          ? await tx.$executeRaw`
+              UPDATE "usage_counters"
+              SET "used" = "used" + ${data.value}, "updatedAt" = NOW()
+              WHERE "id" = ${data.usageCounterId}
+            `
+          : await tx.$executeRaw`
+              UPDATE "usage_counters"
+              SET "used" = "used" + ${data.value}, "updatedAt" = NOW()
+              WHERE "id" = ${data.usageCounterId}
+                AND "used" + ${data.value} <= "included" + "rolled_over" + ${data.overageAllowance}
+            `;
+
+      if (affected === 0) {
+        return null;
+      }
+
+      if (
+        data.poolMember &&
+        !(await incrementPoolMemberUsage(tx, {
+          usageCounterId: data.usageCounterId,
+          clerkOrgId: data.clerkOrgId,
+          periodKey: data.poolMember.periodKey,
+          metric: data.metric,
+          value: data.value,
+          cap: data.poolMember.cap,
+        }))
+      ) {
+        throw new MemberCapExceeded();
+      }
+
+      if (
+        data.member &&
+        !(await incrementMemberUsage(tx, {
+          usageCounterId: data.usageCounterId,
+          clerkOrgId: data.clerkOrgId,
+          userId: data.member.userId,
+          periodKey: data.member.periodKey,
+          metric: data.metric,
+          value: data.value,
+          cap: data.member.cap,
+        }))
+      ) {
+        throw new MemberCapExceeded();
+      }
+
+      await tx.usageRecord.create({
+        data: {
+          organizationId: data.organizationId,
+          clerkOrgId: data.clerkOrgId,
+          subscriptionId: data.subscriptionId,
+          usageCounterId: data.usageCounterId,
+          metric: data.metric,
+          value: data.value,
+          occurredAt: data.occurredAt,
+          metadata: data.metadata,
+        },
+      });
+      await incrementUsageRollups(tx, [data]);
+
+      const counter = await tx.usageCounter.findUniqueOrThrow({
+        where: { id: data.usageCounterId },
+      });
+
+      await createIdempotencyKeys(
+        tx,
+        data.clerkOrgId,
+        [
+          {
+            requestId: data.metadata.request_id,
+            response: data.idempotency.response(counter),
+            expiresAt: data.idempotency.expiresAt,
+          },
+        ],
+        data.idempotency.now
+      );
+
+      return counter;
     });
+  } catch (error) {
+    if (error instanceof MemberCapExceeded) {
+      return null;
+    }
+    // Unique constraint violation - a concurrent request recorded this request_id
+    if ((error as { code?: string })?.code === "P2002") {
+      throw new DuplicateRequestIdError(
+        `Usage already recorded for request_id: ${data.metadata.request_id}`,
+        { request_id: data.metadata.request_id }
+      );
+    }
+    throw new OrgCreationError(
+      `Failed to consume usage counter: ${data.usageCounterId}`,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Writes usage recorded in the Redis counter cache through to Postgres
+ *
+ * Each entry claims its request_id's idempotency key (keyed by the entry ID)
+ * before its usage record is created and its counter incremented, all in one
+ * transaction. Entries whose key is already held - because the entry was
+ * applied by an earlier flush that crashed before trimming the journal, or
+ * because the request_id was recorded through Postgres directly - are
+ * skipped, so replaying the journal never double-counts (in counters or
+ * rollups). Entries attributed to a user also add to that user's share of
+ * the counter (uncapped).
+ *
+ * @param entries - Journal entries in the order they were recorded
+ * @param now - Reference time for idempotency key expiry
+ * @returns IDs of the entries applied by this call and the resulting state of
+ *   every counter referenced by the entries
+ * @throws OrgCreationError if database operation fails
+ */
+export async function applyUsageJournal(
+  entries: Array<{
+    id: string;
+    organizationId: string;
+    clerkOrgId: string;
+    subscriptionId: string;
+    usageCounterId: string;
+    metric: string;
+    value: number;
+    occurredAt: Date;
+    requestId: string;
+    userId?: string;
+    response: unknown;
+    expiresAt: Date;
+  }>,
+  now: Date
+): Promise<{ applied: string[]; counters: UsageCounterRecord[] }> {
+  try {
+    return await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await claimIdempotencyKeys(
+        tx,
+        entries.map((entry) => ({
+          id: entry.id,
+          clerkOrgId: entry.clerkOrgId,
+          requestId: entry.requestId,
+          response: entry.response,
+          expiresAt: entry.expiresAt,
+        })),
+        now
+      );
+      const applied = entries.filter((entry) => claimed.has(entry.id));
+
+      if (applied.length > 0) {
+        await tx.usageRecord.createMany({
+          data: applied.map((entry) => ({
+            id: entry.id,
+            organizationId: entry.organizationId,
+            clerkOrgId: entry.clerkOrgId,
+            subscriptionId: entry.subscriptionId,
+            usageCounterId: entry.usageCounterId,
+            metric: entry.metric,
+            value: entry.value,
+            occurredAt: entry.occurredAt,
+            metadata: {
+              request_id: entry.requestId,
+              ...(entry.userId && { user_id: entry.userId }),
+            },
+          })),
+        });
+        await incrementUsageRollups(tx, applied);
+      }
+
+      const increments = new Map<string, number>();
+      for (const entry of applied) {
+        increments.set(
+          entry.usageCounterId,
+          (increments.get(entry.usageCounterId) ?? 0) + entry.value
+        );
+      }
+
+      for (const [usageCounterId, value] of increments) {
+        const counter: UsageCounterRecord = await tx.usageCounter.update({
+          where: { id: usageCounterId },
+          data: {
+            used: {
+              increment: value,
+            },
+          },
+        });
+
+        for (const entry of applied) {
+          if (entry.usageCounterId === usageCounterId && entry.userId) {
+            await incrementMemberUsage(tx, {
+              usageCounterId,
+              clerkOrgId: entry.clerkOrgId,
+              userId: entry.userId,
+              periodKey: counter.periodKey,
+              metric: entry.metric,
+              value: entry.value,
+              cap: null,
+            });
+          }
+        }
+      }
+
+      const counters: UsageCounterRecord[] = await tx.usageCounter.findMany({
+        where: {
+          id: {
+            in: [...new Set(entries.map((entry) => entry.usageCounterId))],
+          },
+        },
+      });
 
-    return record;
+      return { applied: applied.map((entry) => entry.id), counters };
+    });
   } catch (error) {
     throw new OrgCreationError(
-      `Failed to create usage record: ${data.metadata.request_id}`,
+      `Failed to apply usage journal of ${entries.length} entries`,
       { originalError: error instanceof Error ? error.message : String(error) }
     );
   }
 }
 
 /**
- * Finds a usage record by request_id in metadata
- * 
- * @param requestId - Request ID to search for
- * @returns Usage record or null if not found
+ * Finds usage counters still keyed by calendar month (YYYY-MM)
+ *
+ * @param limit - Maximum number of counters
+ * @returns Legacy usage counters ordered by ID
+ * @throws OrgCreationError if database operation fails
  */
-export async function findUsageRecordByRequestId(
-  requestId: string
-): Promise<UsageRecordRecord | null> {
+export async function findLegacyPeriodKeyUsageCounters(
+  limit: number
+): Promise<UsageCounterRecord[]> {
   try {
-    // Query UsageRecord where metadata.request_id equals requestId
-    const records = await db.usageRecord.findMany({
+    const rows: Array<{ id: string }> = await db.$queryRaw`
+      SELECT "id"
+      FROM "usage_counters"
+      WHERE "period_key" ~ '^[0-9]{4}-[0-9]{2}$'
+      ORDER BY "id"
+      LIMIT ${limit}
+    `;
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    return await db.usageCounter.findMany({
       where: {
-        metadata: {
-          path: ["request_id"],
-          equals: requestId,
+        id: {
+          in: rows.map((row) => row.id),
         },
       },
-      take: 1,
+      orderBy: {
+        id: "asc",
+      },
     });
-
-    return records.length > 0 ? records[0] : null;
   } catch (error) {
-    // If JSON path query fails, return null (record doesn't exist)
-    return null;
+    throw new OrgCreationError(
+      "Failed to find legacy period key usage counters",
+      {
+        originalError: error instanceof Error ? error.message : String(error),
+      }
+    );
   }
 }
 
+/**
+ * Moves a usage counter and its history to a new period key
+ *
+ * Rewrites the denormalized periodKey on the counter's threshold events,
+ * overage reports, adjustments, and pool member and member usage in the
+ * same transaction.
+ *
+ * @param usageCounterId - Usage counter ID
+ * @param periodKey - New period key
+ * @returns true if moved, false if a counter already holds the new key
+ * @throws OrgCreationError if database operation fails
+ */
+export async function migrateUsageCounterPeriodKey(
+  usageCounterId: string,
+  periodKey: string
+): Promise<boolean> {
+  try {
+    await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.usageCounter.update({
+        where: { id: usageCounterId },
+        data: { periodKey },
+      });
+
+      await tx.usageThresholdEvent.updateMany({
+        where: { usageCounterId },
+        data: { periodKey },
+      });
+
+      await tx.overageReport.updateMany({
+        where: { usageCounterId },
+        data: { periodKey },
+      });
+
+      await tx.usageAdjustment.updateMany({
+        where: { usageCounterId },
+        data: { periodKey },
+      });
+
+      await tx.poolMemberUsage.updateMany({
+        where: { usageCounterId },
+        data: { periodKey },
+      });
+
+      await tx.memberUsage.updateMany({
+        where: { usageCounterId },
+        data: { periodKey },
+      });
+    });
+
+    return true;
+  } catch (error) {
+    // Unique constraint violation - the new key is already in use
+    if ((error as { code?: string })?.code === "P2002") {
+      return false;
+    }
+    throw new OrgCreationError(
+      `Failed to migrate period key for usage counter: ${usageCounterId}`,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
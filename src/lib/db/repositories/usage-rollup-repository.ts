@@ -0,0 +1,306 @@
+/**
+ * Usage Rollup Repository
+ *
+ * Data access layer for pre-aggregated usage.
+ * Usage records are summed per organization, metric and UTC hour and day
+ * into rollup tables, incremented in the same transaction that writes the
+ * records, so history and exports don't have to scan raw events. Rollups
+ * can be recomputed from the raw records for a range of days.
+ *
+ * @module lib/db/repositories/usage-rollup-repository
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+
+export type UsageRollupGranularity = "hour" | "day";
+
+export interface UsageRollupRow {
+  clerkOrgId: string;
+  metric: string;
+  bucket: Date; // start of the UTC hour or day
+  value: number;
+  count: number;
+}
+
+export const ROLLUP_BUCKET_MS: Record<UsageRollupGranularity, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Truncates a time to the start of its UTC hour or day
+ *
+ * @param date - Time to truncate
+ * @param granularity - Bucket size
+ * @returns Start of the bucket containing date
+ */
+export function toRollupBucket(
+  date: Date,
+  granularity: UsageRollupGranularity
+): Date {
+  const size = ROLLUP_BUCKET_MS[granularity];
+  return new Date(Math.floor(date.getTime() / size) * size);
+}
+
+/**
+ * Adds usage records to the hourly and daily rollups
+ *
+ * Runs inside the transaction that creates the records. Records are summed
+ * per bucket first; each bucket is then added with an atomic upsert, in a
+ * fixed order so concurrent writers lock rows consistently.
+ *
+ * @param tx - Transaction client
+ * @param records - Usage records being created
+ */
+export async function incrementUsageRollups(
+  tx: Prisma.TransactionClient,
+  records: Array<{
+    clerkOrgId: string;
+    metric: string;
+    value: number;
+    occurredAt: Date;
+  }>
+): Promise<void> {
+  for (const granularity of ["hour", "day"] as const) {
+    const rollups = new Map<string, UsageRollupRow>();
+
+    for (const record of records) {
+      const bucket = toRollupBucket(record.occurredAt, granularity);
+      const key = `${record.clerkOrgId}|${record.metric}|${bucket.toISOString()}`;
+      const rollup = rollups.get(key) ?? {
+        clerkOrgId: record.clerkOrgId,
+        metric: record.metric,
+        bucket,
+        value: 0,
+        count: 0,
+      };
+
+      rollup.value += record.value;
+      rollup.count += 1;
+      rollups.set(key, rollup);
+    }
+
+    const ordered = [...rollups.entries()].sort(([a], [b]) =>
+      a < b ? -1 : a > b ? 1 : 0
+    );
+
+    for (const [, rollup] of ordered) {
+      if (granularity === "hour") {
+        await tx.$executeRaw`
+          INSERT INTO "usage_rollups_hourly" ("clerk_org_id", "metric", "bucket", "value", "count", "updatedAt")
+          VALUES (${rollup.clerkOrgId}, ${rollup.metric}, ${rollup.bucket}, ${rollup.value}, ${rollup.count}, NOW())
+          ON CONFLICT ("clerk_org_id", "metric", "bucket") DO UPDATE
+          SET "value" = "usage_rollups_hourly"."value" + EXCLUDED."value",
+              "count" = "usage_rollups_hourly"."count" + EXCLUDED."count",
+              "updatedAt" = NOW()
+        `;
+      } else {
+        await tx.$executeRaw`
+          INSERT INTO "usage_rollups_daily" ("clerk_org_id", "metric", "bucket", "value", "count", "updatedAt")
+          VALUES (${rollup.clerkOrgId}, ${rollup.metric}, ${rollup.bucket}, ${rollup.value}, ${rollup.count}, NOW())
+          ON CONFLICT ("clerk_org_id", "metric", "bucket") DO UPDATE
+          SET "value" = "usage_rollups_daily"."value" + EXCLUDED."value",
+              "count" = "usage_rollups_daily"."count" + EXCLUDED."count",
+              "updatedAt" = NOW()
+        `;
+      }
+    }
+  }
+}
+
+/**
+ * Finds rollups with buckets starting in a range
+ *
+ * @param granularity - Rollup table to read
+ * @param filter - Organization, optional metric and [from, to) range of
+ *   bucket starts
+ * @returns Rollups ordered by bucket, then metric
+ */
+export async function findUsageRollups(
+  granularity: UsageRollupGranularity,
+  filter: { clerkOrgId: string; metric?: string; from: Date; to: Date }
+): Promise<UsageRollupRow[]> {
+  const query = {
+    where: {
+      clerkOrgId: filter.clerkOrgId,
+      ...(filter.metric && { metric: filter.metric }),
+      bucket: {
+        gte: filter.from,
+        lt: filter.to,
+      },
+    },
+    orderBy: [{ bucket: "asc" as const }, { metric: "asc" as const }],
+  };
+
+  try {
+    return granularity === "hour"
+      ? await db.usageHourlyRollup.findMany(query)
+      : await db.usageDailyRollup.findMany(query);
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find usage rollups for organization: ${filter.clerkOrgId}`,
+      "USAGE_ROLLUP_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Sums raw usage records into UTC hour or day buckets
+ *
+ * Used for the parts of a range that don't cover whole rollup buckets.
+ *
+ * @param filter - Organization, optional metric and [from, to) range
+ * @param granularity - Bucket size
+ * @returns Non-empty buckets per metric, ordered by bucket, then metric
+ */
+export async function sumUsageRecordsIntoRollups(
+  filter: { clerkOrgId: string; metric?: string; from: Date; to: Date },
+  granularity: UsageRollupGranularity
+): Promise<UsageRollupRow[]> {
+  const metric = filter.metric ?? null;
+
+  try {
+    return await db.$queryRaw`
+      SELECT "clerk_org_id" AS "clerkOrgId",
+             "metric",
+             date_trunc(${granularity}, "occurred_at") AS "bucket",
+             SUM("value")::int AS "value",
+             COUNT(*)::int AS "count"
+      FROM "usage_records"
+      WHERE "clerk_org_id" = ${filter.clerkOrgId}
+        AND (${metric}::text IS NULL OR "metric" = ${metric})
+        AND "occurred_at" >= ${filter.from}
+        AND "occurred_at" < ${filter.to}
+      GROUP BY 1, 2, 3
+      ORDER BY 3, 2
+    `;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to sum usage records for organization: ${filter.clerkOrgId}`,
+      "USAGE_ROLLUP_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds each organization's usage of an hour with its trailing baseline
+ *
+ * The baseline is the average hourly usage over [baselineFrom, hour),
+ * counting hours without usage as zero.
+ *
+ * @param hour - Start of the UTC hour to read
+ * @param baselineFrom - Start of the baseline window (an hour boundary)
+ * @param minValue - Hours with less usage are skipped
+ * @returns Usage per organization and metric with its baseline
+ */
+export async function findHourlyUsageWithBaseline(
+  hour: Date,
+  baselineFrom: Date,
+  minValue: number
+): Promise<
+  Array<{
+    clerkOrgId: string;
+    metric: string;
+    observed: number;
+    baseline: number;
+  }>
+> {
+  const hours =
+    (hour.getTime() - baselineFrom.getTime()) / ROLLUP_BUCKET_MS.hour;
+
+  try {
+    return await db.$queryRaw`
+      SELECT h."clerk_org_id" AS "clerkOrgId",
+             h."metric",
+             h."value" AS "observed",
+             COALESCE((
+               SELECT SUM(b."value")
+               FROM "usage_rollups_hourly" b
+               WHERE b."clerk_org_id" = h."clerk_org_id"
+                 AND b."metric" = h."metric"
+                 AND b."bucket" >= ${baselineFrom}
+                 AND b."bucket" < ${hour}
+             ), 0)::float8 / ${hours} AS "baseline"
+      FROM "usage_rollups_hourly" h
+      WHERE h."bucket" = ${hour}
+        AND h."value" >= ${minValue}
+      ORDER BY 1, 2
+    `;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find hourly usage for ${hour.toISOString()}`,
+      "USAGE_ROLLUP_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Recomputes the hourly and daily rollups of one UTC day from raw records
+ *
+ * Deletes the day's rollups and re-inserts them from usage_records in one
+ * transaction, so readers never see a partial day. Safe to run while usage
+ * is being recorded: concurrent increments wait for the rebuilt rows.
+ *
+ * @param day - Start of the UTC day
+ * @param clerkOrgId - Optional organization to limit the rebuild to
+ * @returns Number of hourly and daily buckets written
+ */
+export async function rebuildUsageRollupsForDay(
+  day: Date,
+  clerkOrgId?: string
+): Promise<{ hourly: number; daily: number }> {
+  const from = toRollupBucket(day, "day");
+  const to = new Date(from.getTime() + ROLLUP_BUCKET_MS.day);
+  const orgId = clerkOrgId ?? null;
+
+  try {
+    return await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.$executeRaw`
+        DELETE FROM "usage_rollups_hourly"
+        WHERE "bucket" >= ${from} AND "bucket" < ${to}
+          AND (${orgId}::text IS NULL OR "clerk_org_id" = ${orgId})
+      `;
+      await tx.$executeRaw`
+        DELETE FROM "usage_rollups_daily"
+        WHERE "bucket" >= ${from} AND "bucket" < ${to}
+          AND (${orgId}::text IS NULL OR "clerk_org_id" = ${orgId})
+      `;
+
+      const hourly: number = await tx.$executeRaw`
+        INSERT INTO "usage_rollups_hourly" ("clerk_org_id", "metric", "bucket", "value", "count", "updatedAt")
+        SELECT "clerk_org_id", "metric", date_trunc('hour', "occurred_at"),
+               SUM("value")::int, COUNT(*)::int, NOW()
+        FROM "usage_records"
+        WHERE "occurred_at" >= ${from} AND "occurred_at" < ${to}
+          AND (${orgId}::text IS NULL OR "clerk_org_id" = ${orgId})
+        GROUP BY 1, 2, 3
+      `;
+      const daily: number = await tx.$executeRaw`
+        INSERT INTO "usage_rollups_daily" ("clerk_org_id", "metric", "bucket", "value", "count", "updatedAt")
+        SELECT "clerk_org_id", "metric", date_trunc('day', "occurred_at"),
+               SUM("value")::int, COUNT(*)::int, NOW()
+        FROM "usage_records"
+        WHERE "occurred_at" >= ${from} AND "occurred_at" < ${to}
+          AND (${orgId}::text IS NULL OR "clerk_org_id" = ${orgId})
+        GROUP BY 1, 2, 3
+      `;
+
+      return { hourly, daily };
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to rebuild usage rollups for ${from.toISOString().slice(0, 10)}`,
+      "USAGE_ROLLUP_REBUILD_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Usage Threshold Repository
+ *
+ * Data access layer for usage threshold events.
+ * Handles database interactions for threshold-crossed records.
+ *
+ * @module lib/db/repositories/usage-threshold-repository
+ */
+
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+
+export interface UsageThresholdEventRecord {
+  id: string;
+  clerkOrgId: string;
+  usageCounterId: string;
+  periodKey: string;
+  metric: string;
+  threshold: number;
+  included: number;
+  used: number;
+  createdAt: Date;
+}
+
+/**
+ * Creates a threshold-crossed event
+ *
+ * Events are unique on (usageCounterId, threshold), so a threshold is
+ * recorded at most once per counter no matter how many callers try.
+ *
+ * @param data - Threshold event data
+ * @returns Created event, or null if the threshold was already recorded
+ */
+export async function createUsageThresholdEvent(data: {
+  usageCounterId: string;
+  clerkOrgId: string;
+  periodKey: string;
+  metric: string;
+  threshold: number;
+  included: number;
+  used: number;
+}): Promise<UsageThresholdEventRecord | null> {
+  try {
+    const event = await db.usageThresholdEvent.create({
+      data,
+    });
+    return event;
+  } catch (error) {
+    // Unique constraint violation - threshold already recorded for this counter
+    if ((error as { code?: string })?.code === "P2002") {
+      return null;
+    }
+    throw new ApplicationError(
+      `Failed to create usage threshold event for usage counter: ${data.usageCounterId}`,
+      "USAGE_THRESHOLD_CREATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds threshold events for an organization, newest first
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param filters - Optional period/metric filters and result limit
+ * @returns Threshold event records
+ */
+export async function findUsageThresholdEvents(
+  clerkOrgId: string,
+  filters: { periodKey?: string; metric?: string; limit: number }
+): Promise<UsageThresholdEventRecord[]> {
+  try {
+    const events = await db.usageThresholdEvent.findMany({
+      where: {
+        clerkOrgId,
+        ...(filters.periodKey ? { periodKey: filters.periodKey } : {}),
+        ...(filters.metric ? { metric: filters.metric } : {}),
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+      take: filters.limit,
+    });
+    return events;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to find usage threshold events for organization: ${clerkOrgId}`,
+      "USAGE_THRESHOLD_FIND_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Webhook Delivery Repository
+ *
+ * Data access layer for outbound webhook deliveries.
+ * Handles the delivery log: one row per event per endpoint.
+ *
+ * @module lib/db/repositories/webhook-delivery-repository
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+import { WebhookEndpointRecord } from "./webhook-endpoint-repository";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  clerkOrgId: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDeliveryWithEndpoint extends WebhookDeliveryRecord {
+  endpoint: WebhookEndpointRecord;
+}
+
+/**
+ * Enqueues deliveries for an event
+ *
+ * Deliveries are unique on (endpointId, eventId), so publishing the same
+ * event twice never delivers it twice to the same endpoint.
+ *
+ * @param deliveries - One delivery per subscribed endpoint
+ * @returns Number of deliveries created
+ */
+export async function createWebhookDeliveries(
+  deliveries: Array<{
+    endpointId: string;
+    clerkOrgId: string;
+    eventId: string;
+    eventType: string;
+    payload: Prisma.InputJsonValue;
+    nextAttemptAt: Date;
+  }>
+): Promise<number> {
+  try {
+    const result = await db.webhookDelivery.createMany({
+      data: deliveries.map((delivery) => ({
+        ...delivery,
+        status: "pending",
+      })),
+      skipDuplicates: true,
+    });
+    return result.count;
+  } catch (error) {
+    throw new ApplicationError(
+      "Failed to enqueue webhook deliveries",
+      "WEBHOOK_DELIVERY_CREATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds pending deliveries whose next attempt is due
+ *
+ * @param now - Reference time
+ * @param limit - Maximum number of deliveries to return
+ * @returns Due deliveries with their endpoints, oldest first
+ */
+export async function findDueWebhookDeliveries(
+  now: Date,
+  limit: number
+): Promise<WebhookDeliveryWithEndpoint[]> {
+  return db.webhookDelivery.findMany({
+    where: {
+      status: "pending",
+      nextAttemptAt: {
+        lte: now,
+      },
+    },
+    include: {
+      endpoint: true,
+    },
+    orderBy: {
+      nextAttemptAt: "asc",
+    },
+    take: limit,
+  });
+}
+
+/**
+ * Claims a due delivery for this worker
+ *
+ * Pushes nextAttemptAt forward only if it still holds the value this worker
+ * read, so concurrent job runs never send the same attempt twice.
+ *
+ * @param id - Delivery ID
+ * @param expectedNextAttemptAt - nextAttemptAt as read by this worker
+ * @param leaseUntil - When the claim expires if the worker dies mid-attempt
+ * @returns True if this worker claimed the delivery
+ */
+export async function claimWebhookDelivery(
+  id: string,
+  expectedNextAttemptAt: Date,
+  leaseUntil: Date
+): Promise<boolean> {
+  const result = await db.webhookDelivery.updateMany({
+    where: {
+      id,
+      status: "pending",
+      nextAttemptAt: expectedNextAttemptAt,
+    },
+    data: {
+      nextAttemptAt: leaseUntil,
+    },
+  });
+  return result.count === 1;
+}
+
+/**
+ * Records the outcome of a delivery attempt
+ *
+ * @param id - Delivery ID
+ * @param data - Attempt outcome and next schedule
+ * @returns Updated delivery record
+ */
+export async function recordWebhookDeliveryAttempt(
+  id: string,
+  data: {
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: Date | null;
+    lastAttemptAt: Date;
+    responseStatus: number | null;
+    lastError: string | null;
+  }
+): Promise<WebhookDeliveryRecord> {
+  try {
+    const delivery = await db.webhookDelivery.update({
+      where: {
+        id,
+      },
+      data,
+    });
+    return delivery;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to record webhook delivery attempt: ${id}`,
+      "WEBHOOK_DELIVERY_UPDATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds a delivery by ID with its endpoint
+ *
+ * @param id - Delivery ID
+ * @returns Delivery record or null if not found
+ */
+export async function findWebhookDeliveryById(
+  id: string
+): Promise<WebhookDeliveryWithEndpoint | null> {
+  return db.webhookDelivery.findUnique({
+    where: {
+      id,
+    },
+    include: {
+      endpoint: true,
+    },
+  });
+}
+
+/**
+ * Finds deliveries for an organization, newest first
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param filters - Optional endpoint/status filters and result limit
+ * @returns Delivery records
+ */
+export async function findWebhookDeliveries(
+  clerkOrgId: string,
+  filters: { endpointId?: string; status?: string; limit: number }
+): Promise<WebhookDeliveryRecord[]> {
+  return db.webhookDelivery.findMany({
+    where: {
+      clerkOrgId,
+      ...(filters.endpointId ? { endpointId: filters.endpointId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take: filters.limit,
+  });
+}
@@ -0,0 +1,173 @@
+/**
+ * Webhook Endpoint Repository
+ *
+ * Data access layer for tenant webhook endpoints.
+ * Handles database interactions for outbound webhook registrations.
+ *
+ * @module lib/db/repositories/webhook-endpoint-repository
+ */
+
+import { db } from "../../db";
+import { ApplicationError } from "../../utils/errors";
+
+export interface WebhookEndpointRecord {
+  id: string;
+  clerkOrgId: string;
+  organizationId: string;
+  url: string;
+  secret: string;
+  events: string[];
+  description: string | null;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Creates a webhook endpoint
+ *
+ * @param data - Endpoint data
+ * @returns Created endpoint record
+ */
+export async function createWebhookEndpoint(data: {
+  organizationId: string;
+  clerkOrgId: string;
+  url: string;
+  secret: string;
+  events: string[];
+  description?: string | null;
+}): Promise<WebhookEndpointRecord> {
+  try {
+    const endpoint = await db.webhookEndpoint.create({
+      data: {
+        organizationId: data.organizationId,
+        clerkOrgId: data.clerkOrgId,
+        url: data.url,
+        secret: data.secret,
+        events: data.events,
+        description: data.description ?? null,
+      },
+    });
+    return endpoint;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to create webhook endpoint for organization: ${data.clerkOrgId}`,
+      "WEBHOOK_ENDPOINT_CREATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Finds a webhook endpoint by ID
+ *
+ * @param id - Endpoint ID
+ * @returns Endpoint record or null if not found
+ */
+export async function findWebhookEndpointById(
+  id: string
+): Promise<WebhookEndpointRecord | null> {
+  return db.webhookEndpoint.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Finds all webhook endpoints for an organization
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @returns Endpoint records, oldest first
+ */
+export async function findWebhookEndpointsByClerkOrgId(
+  clerkOrgId: string
+): Promise<WebhookEndpointRecord[]> {
+  return db.webhookEndpoint.findMany({
+    where: {
+      clerkOrgId,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+}
+
+/**
+ * Finds enabled endpoints subscribed to an event type
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param eventType - Event type (e.g. 'quota.exhausted')
+ * @returns Subscribed endpoint records
+ */
+export async function findSubscribedWebhookEndpoints(
+  clerkOrgId: string,
+  eventType: string
+): Promise<WebhookEndpointRecord[]> {
+  return db.webhookEndpoint.findMany({
+    where: {
+      clerkOrgId,
+      enabled: true,
+      events: {
+        has: eventType,
+      },
+    },
+  });
+}
+
+/**
+ * Updates a webhook endpoint
+ *
+ * @param id - Endpoint ID
+ * @param data - Fields to update
+ * @returns Updated endpoint record
+ */
+export async function updateWebhookEndpoint(
+  id: string,
+  data: {
+    url?: string;
+    events?: string[];
+    description?: string | null;
+    enabled?: boolean;
+  }
+): Promise<WebhookEndpointRecord> {
+  try {
+    const endpoint = await db.webhookEndpoint.update({
+      where: {
+        id,
+      },
+      data,
+    });
+    return endpoint;
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to update webhook endpoint: ${id}`,
+      "WEBHOOK_ENDPOINT_UPDATE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * Deletes a webhook endpoint and its delivery log
+ *
+ * @param id - Endpoint ID
+ */
+export async function deleteWebhookEndpoint(id: string): Promise<void> {
+  try {
+    await db.webhookEndpoint.delete({
+      where: {
+        id,
+      },
+    });
+  } catch (error) {
+    throw new ApplicationError(
+      `Failed to delete webhook endpoint: ${id}`,
+      "WEBHOOK_ENDPOINT_DELETE_ERROR",
+      500,
+      { originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
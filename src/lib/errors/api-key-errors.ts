@@ -0,0 +1,31 @@
+/**
+ * API Key Domain Errors
+ *
+ * Domain-specific error classes for org-scoped API key operations.
+ *
+ * @module lib/errors/api-key-errors
+ */
+
+import { NotFoundError, ValidationError } from "../utils/errors";
+
+/**
+ * API key not found error
+ * Thrown when a key does not exist or belongs to another organization
+ */
+export class ApiKeyNotFoundError extends NotFoundError {
+  constructor(message: string = "API key not found") {
+    super(message);
+    this.name = "ApiKeyNotFoundError";
+  }
+}
+
+/**
+ * API key validation error
+ * Thrown when a key cannot be changed in its current state
+ */
+export class ApiKeyValidationError extends ValidationError {
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = "ApiKeyValidationError";
+  }
+}
@@ -1,8 +1,8 @@
 /**
  * Quota Errors
- * 
+ *
  * Custom error classes for quota operations.
- * 
+ *
  * @module lib/errors/quota-errors
  */
 
@@ -38,3 +38,26 @@ export class QuotaCounterNotFoundError extends NotFoundError {
   }
 }
 
+/**
+ * Error thrown when consuming usage would exceed the included quota
+ */
+export class QuotaExceededError extends ApplicationError {
+  constructor(message: string, details?: unknown) {
+    super(message, "QUOTA_EXCEEDED", 429, details);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * Error thrown when a request exceeds the plan's short-window rate limit
+ */
+export class RateLimitExceededError extends ApplicationError {
+  constructor(
+    message: string,
+    public readonly retryAfterSeconds: number,
+    details?: unknown
+  ) {
+    super(message, "RATE_LIMITED", 429, details);
+    this.name = "RateLimitExceededError";
+  }
+}
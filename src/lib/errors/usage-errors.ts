@@ -0,0 +1,85 @@
+/**
+ * Usage Errors
+ *
+ * Custom error classes for usage recording, adjustments and anomalies.
+ *
+ * @module lib/errors/usage-errors
+ */
+
+import {
+  ApplicationError,
+  ConflictError,
+  NotFoundError,
+} from "../utils/errors";
+
+/**
+ * Error thrown when the usage counter to adjust does not exist
+ */
+export class UsageCounterNotFoundError extends NotFoundError {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageCounterNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when the referenced usage record does not exist
+ */
+export class UsageRecordNotFoundError extends NotFoundError {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageRecordNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when the usage anomaly to resolve does not exist
+ */
+export class UsageAnomalyNotFoundError extends NotFoundError {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageAnomalyNotFoundError";
+  }
+}
+
+/**
+ * Error thrown when a credit would take a counter's usage below zero
+ */
+export class UsageAdjustmentBelowZeroError extends ConflictError {
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = "UsageAdjustmentBelowZeroError";
+  }
+}
+
+/**
+ * Error thrown when a concurrent request already recorded the same request_id
+ */
+export class DuplicateRequestIdError extends ConflictError {
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = "DuplicateRequestIdError";
+  }
+}
+
+/**
+ * Error thrown when backdated usage belongs to a period that closed more
+ * than config.usage.lateUsageWindowHours ago
+ */
+export class LateUsageError extends ApplicationError {
+  constructor(message: string, details?: unknown) {
+    super(message, "USAGE_TOO_LATE", 422, details);
+    this.name = "LateUsageError";
+  }
+}
+
+/**
+ * Error thrown when no billing period of the organization contains the
+ * time backdated usage occurred
+ */
+export class UsagePeriodNotFoundError extends ApplicationError {
+  constructor(message: string, details?: unknown) {
+    super(message, "USAGE_PERIOD_NOT_FOUND", 422, details);
+    this.name = "UsagePeriodNotFoundError";
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Webhook Domain Errors
+ *
+ * Domain-specific error classes for outbound webhook operations.
+ *
+ * @module lib/errors/webhook-errors
+ */
+
+import { NotFoundError } from "../utils/errors";
+
+/**
+ * Webhook endpoint not found error
+ * Thrown when an endpoint does not exist or belongs to another organization
+ */
+export class WebhookEndpointNotFoundError extends NotFoundError {
+  constructor(message: string = "Webhook endpoint not found") {
+    super(message);
+    this.name = "WebhookEndpointNotFoundError";
+  }
+}
+
+/**
+ * Webhook delivery not found error
+ * Thrown when a delivery does not exist or belongs to another organization
+ */
+export class WebhookDeliveryNotFoundError extends NotFoundError {
+  constructor(message: string = "Webhook delivery not found") {
+    super(message);
+    this.name = "WebhookDeliveryNotFoundError";
+  }
+}
@@ -1,58 +1,170 @@
 /**
  * Authentication Middleware
- * 
+ *
  * Clerk session validation and auth context extraction.
- * Validates bearer tokens and extracts user/org context from Clerk sessions.
- * 
+ * Validates bearer tokens and extracts user/org context from Clerk sessions,
+ * or from org-scoped API keys (`Authorization: Bearer msk_...`) on endpoints
+ * that accept them.
+ *
  * @module lib/middleware/auth
  */
 
 import { auth } from "@clerk/nextjs/server";
+import { headers } from "next/headers";
 import { UnauthorizedError, ForbiddenError } from "../utils/errors";
+import { config } from "../config";
+import { isApiKey } from "../utils/security/api-key-secret";
+import {
+  authenticateApiKey,
+  ApiKeyScope,
+} from "../services/orgs/api-key-service";
 
 export interface AuthContext {
-  userId: string;
+  userId: string; // Clerk user ID, or the key's ID for API keys
   clerkOrgId: string | null;
+  apiKeyId?: string; // set when authenticated with an API key
+}
+
+export interface OrgAuthContext extends AuthContext {
+  clerkOrgId: string;
+}
+
+/**
+ * Authenticates a bearer API key, if the request carries one
+ *
+ * Usage made with a key is attributed to the key: its ID stands in for the
+ * Clerk user ID.
+ *
+ * @param scope - Scope the endpoint requires (undefined: API keys not accepted)
+ * @returns Auth context of the key's organization, or null without an API key
+ * @throws UnauthorizedError if the key is unknown, revoked or expired
+ * @throws ForbiddenError if the endpoint does not accept API keys or the key
+ *   lacks the scope
+ */
+async function authenticateBearerApiKey(
+  scope: ApiKeyScope | undefined
+): Promise<OrgAuthContext | null> {
+  const authorization = (await headers()).get("authorization");
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+
+  if (!token || !isApiKey(token)) {
+    return null;
+  }
+
+  const principal = await authenticateApiKey(token);
+
+  if (!principal) {
+    throw new UnauthorizedError("Invalid or expired API key");
+  }
+
+  if (!scope) {
+    throw new ForbiddenError("API keys are not accepted for this endpoint");
+  }
+
+  if (!principal.scopes.includes(scope)) {
+    throw new ForbiddenError(`API key lacks the ${scope} scope`);
+  }
+
+  return {
+    userId: principal.apiKeyId,
+    clerkOrgId: principal.clerkOrgId,
+    apiKeyId: principal.apiKeyId,
+  };
 }
 
 /**
- * Requires authenticated Clerk session
- * Extracts userId and clerkOrgId from session
- * 
+ * Requires authenticated Clerk session, or an API key with the given scope
+ * Extracts userId and clerkOrgId from session (or key)
+ *
+ * @param scope - Scope an API key needs for this endpoint; without one only
+ *   Clerk sessions are accepted
  * @returns Auth context with userId and clerkOrgId
- * @throws UnauthorizedError if no session
- * @throws ForbiddenError if no org context in session
+ * @throws UnauthorizedError if no session or the API key is invalid
+ * @throws ForbiddenError if the API key is not accepted or lacks the scope
  */
-export async function requireAuth(): Promise<AuthContext> {
+export async function requireAuth(scope?: ApiKeyScope): Promise<AuthContext> {
+  const apiKeyContext = await authenticateBearerApiKey(scope);
+
+  if (apiKeyContext) {
+    return apiKeyContext;
+  }
+
   const { userId, orgId } = await auth();
-  
+
   if (!userId) {
     throw new UnauthorizedError("Authentication required");
   }
-  
+
   return {
     userId,
-    clerkOrgId: orgId,
+    clerkOrgId: orgId ?? null,
   };
 }
 
 /**
- * Requires authenticated Clerk session with organization context
- * 
+ * Requires authenticated Clerk session with organization context, or an API
+ * key with the given scope (keys always carry their organization)
+ *
+ * @param scope - Scope an API key needs for this endpoint; without one only
+ *   Clerk sessions are accepted
  * @returns Auth context with userId and clerkOrgId (guaranteed non-null)
- * @throws UnauthorizedError if no session
- * @throws ForbiddenError if no org context in session
+ * @throws UnauthorizedError if no session or the API key is invalid
+ * @throws ForbiddenError if no org context in session, or the API key is not
+ *   accepted or lacks the scope
  */
-export async function requireAuthWithOrg(): Promise<Required<AuthContext>> {
-  const authContext = await requireAuth();
-  
+export async function requireAuthWithOrg(
+  scope?: ApiKeyScope
+): Promise<OrgAuthContext> {
+  const authContext = await requireAuth(scope);
+
   if (!authContext.clerkOrgId) {
     throw new ForbiddenError("Organization context required");
   }
-  
+
   return {
-    userId: authContext.userId,
+    ...authContext,
     clerkOrgId: authContext.clerkOrgId,
   };
 }
 
+/**
+ * Requires authenticated Clerk session of a platform administrator
+ *
+ * Administrators are listed by Clerk user ID in config.admin.userIds
+ * (ADMIN_USER_IDS); no organization context is needed.
+ *
+ * @returns Auth context of the administrator
+ * @throws UnauthorizedError if no session
+ * @throws ForbiddenError if the user is not an administrator
+ */
+export async function requireAdmin(): Promise<AuthContext> {
+  const authContext = await requireAuth();
+
+  if (!config.admin.userIds.includes(authContext.userId)) {
+    throw new ForbiddenError("Admin access required");
+  }
+
+  return authContext;
+}
+
+/**
+ * Requires authenticated Clerk session of an organization admin
+ *
+ * The session's role in its active organization must be
+ * config.admin.orgAdminRole (ORG_ADMIN_ROLE, Clerk's "org:admin" by default).
+ *
+ * @returns Auth context of the organization admin
+ * @throws UnauthorizedError if no session
+ * @throws ForbiddenError if no org context in session or the user is not an
+ *   admin of the organization
+ */
+export async function requireOrgAdmin(): Promise<OrgAuthContext> {
+  const authContext = await requireAuthWithOrg();
+  const { orgRole } = await auth();
+
+  if (orgRole !== config.admin.orgAdminRole) {
+    throw new ForbiddenError("Organization admin access required");
+  }
+
+  return authContext;
+}
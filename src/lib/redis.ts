@@ -0,0 +1,17 @@
+import Redis from "ioredis";
+import { env } from "./env";
+
+const globalForRedis = globalThis as unknown as {
+  redis: Redis | null | undefined;
+};
+
+// Optional: without REDIS_URL every caller falls back to Postgres
+export const redis: Redis | null =
+  globalForRedis.redis ??
+  (env.REDIS_URL
+    ? new Redis(env.REDIS_URL, {
+        maxRetriesPerRequest: 2,
+      })
+    : null);
+
+if (env.NODE_ENV !== "production") globalForRedis.redis = redis;
@@ -0,0 +1,243 @@
+/**
+ * Overage Reporting Service
+ *
+ * Business logic layer for billing usage beyond the quota (included plus
+ * any units rolled over from earlier periods).
+ * Pushes overage quantities to Stripe as meter events and keeps a local
+ * ledger of every reported range so a crash or retry never double-bills.
+ *
+ * @module lib/services/billing/overage-reporting-service
+ */
+
+import {
+  stripe,
+  PLANS_CONFIG,
+  PlanCode,
+  Metric,
+  OverageConfig,
+} from "../../stripe";
+import { config } from "../../config";
+import { findSubscriptionById } from "../../db/repositories/subscription-repository";
+import {
+  getCounterQuota,
+  UsageCounterRecord,
+} from "../../db/repositories/usage-repository";
+import {
+  findUsageCountersInOverage,
+  findOverageReportsByUsageCounterId,
+  createOverageReport,
+  markOverageReportReported,
+  OverageReportRecord,
+} from "../../db/repositories/overage-repository";
+import { StripeApiError } from "../../errors/stripe-errors";
+import { logger } from "../../utils/logger";
+
+export interface ReportOverageResult {
+  countersChecked: number;
+  countersReported: number;
+  quantityReported: number;
+  failed: number;
+}
+
+/**
+ * Looks up the overage price for a plan and metric
+ *
+ * @param planCode - Plan code
+ * @param metric - Metric name
+ * @returns Overage config, or null if overage is not billed
+ */
+export function getOverageConfig(
+  planCode: string,
+  metric: string
+): OverageConfig | null {
+  if (!(planCode in PLANS_CONFIG)) {
+    return null;
+  }
+  return PLANS_CONFIG[planCode as PlanCode].overage?.[metric as Metric] ?? null;
+}
+
+/**
+ * Sends a ledger entry to Stripe as a meter event
+ *
+ * The event is timestamped inside the counter's period so it lands on that
+ * period's invoice. The ledger identifier is passed through so Stripe
+ * deduplicates resends of the same entry.
+ *
+ * @param report - Ledger entry to send
+ * @param overageConfig - Overage price configuration
+ * @param stripeCustomerId - Stripe customer ID billed for the overage
+ * @param periodEnd - End of the counter's billing period
+ * @throws StripeApiError if Stripe rejects the event
+ */
+async function sendMeterEvent(
+  report: OverageReportRecord,
+  overageConfig: OverageConfig,
+  stripeCustomerId: string,
+  periodEnd: Date
+): Promise<void> {
+  const timestamp = Math.floor(
+    Math.min(Date.now(), periodEnd.getTime() - 1000) / 1000
+  );
+
+  try {
+    await stripe.billing.meterEvents.create({
+      event_name: overageConfig.meterEventName,
+      identifier: report.identifier,
+      timestamp,
+      payload: {
+        stripe_customer_id: stripeCustomerId,
+        value: String(report.quantity),
+      },
+    });
+  } catch (error) {
+    throw new StripeApiError(
+      `Failed to report overage to Stripe: ${error instanceof Error ? error.message : String(error)}`,
+      { identifier: report.identifier, originalError: error }
+    );
+  }
+}
+
+/**
+ * Reports unbilled overage for a single usage counter
+ *
+ * Flow:
+ * 1. Resolve the counter's subscription and overage price (skip if none)
+ * 2. Resend any pending ledger entries left behind by a previous failure
+ * 3. Claim the range between the last reported overage and current overage
+ * 4. Send the new entry to Stripe and mark it reported
+ *
+ * @param counter - Usage counter to report
+ * @returns Quantity reported to Stripe during this call
+ * @throws StripeApiError if Stripe rejects an event (entry stays pending)
+ */
+export async function reportOverageForCounter(
+  counter: UsageCounterRecord
+): Promise<number> {
+  // Step 1: Resolve subscription and overage price
+  const subscription = await findSubscriptionById(counter.subscriptionId);
+
+  if (!subscription) {
+    logger.warn("Subscription not found for usage counter", {
+      usageCounterId: counter.id,
+      subscriptionId: counter.subscriptionId,
+    });
+    return 0;
+  }
+
+  const overageConfig = getOverageConfig(subscription.planCode, counter.metric);
+
+  if (!overageConfig) {
+    return 0;
+  }
+
+  const reports = await findOverageReportsByUsageCounterId(counter.id);
+  let quantityReported = 0;
+
+  // Step 2: Resend pending entries (same identifier, deduplicated by Stripe)
+  for (const report of reports.filter((r) => r.status === "pending")) {
+    await sendMeterEvent(
+      report,
+      overageConfig,
+      subscription.stripeCustomerId,
+      counter.periodEnd
+    );
+    await markOverageReportReported(report.id);
+    quantityReported += report.quantity;
+  }
+
+  // Step 3: Claim the unreported range
+  const reportedThrough =
+    reports.length > 0 ? reports[reports.length - 1].overageTo : 0;
+  const overage = Math.max(counter.used - getCounterQuota(counter), 0);
+
+  if (overage <= reportedThrough) {
+    return quantityReported;
+  }
+
+  const report = await createOverageReport({
+    usageCounterId: counter.id,
+    clerkOrgId: counter.clerkOrgId,
+    periodKey: counter.periodKey,
+    metric: counter.metric,
+    overageFrom: reportedThrough,
+    overageTo: overage,
+  });
+
+  if (!report) {
+    logger.info("Overage range already claimed by another worker", {
+      usageCounterId: counter.id,
+      overageFrom: reportedThrough,
+    });
+    return quantityReported;
+  }
+
+  // Step 4: Send to Stripe and mark reported
+  await sendMeterEvent(
+    report,
+    overageConfig,
+    subscription.stripeCustomerId,
+    counter.periodEnd
+  );
+  await markOverageReportReported(report.id);
+  quantityReported += report.quantity;
+
+  logger.info("Overage reported to Stripe", {
+    clerkOrgId: counter.clerkOrgId,
+    periodKey: counter.periodKey,
+    metric: counter.metric,
+    identifier: report.identifier,
+    quantity: report.quantity,
+  });
+
+  return quantityReported;
+}
+
+/**
+ * Reports unbilled overage for every counter currently over quota
+ *
+ * Covers open periods plus periods that ended within
+ * config.usage.overageReportWindowHours. A failure on one counter is
+ * logged and counted; its entry stays pending and is resent on the next run.
+ *
+ * @param now - Reference time (defaults to current time)
+ * @returns Summary of the reporting run
+ */
+export async function reportOverage(
+  now: Date = new Date()
+): Promise<ReportOverageResult> {
+  const periodEndAfter = new Date(
+    now.getTime() - config.usage.overageReportWindowHours * 60 * 60 * 1000
+  );
+
+  const counters = await findUsageCountersInOverage(periodEndAfter);
+
+  logger.info("Reporting overage for usage counters", {
+    count: counters.length,
+  });
+
+  const result: ReportOverageResult = {
+    countersChecked: counters.length,
+    countersReported: 0,
+    quantityReported: 0,
+    failed: 0,
+  };
+
+  for (const counter of counters) {
+    try {
+      const quantity = await reportOverageForCounter(counter);
+      if (quantity > 0) {
+        result.countersReported += 1;
+        result.quantityReported += quantity;
+      }
+    } catch (error) {
+      result.failed += 1;
+      logger.error("Failed to report overage for usage counter", {
+        usageCounterId: counter.id,
+        clerkOrgId: counter.clerkOrgId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
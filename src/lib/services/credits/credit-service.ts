@@ -0,0 +1,452 @@
+/**
+ * Credit Service
+ *
+ * Business logic layer for prepaid credit packs.
+ * Organizations buy packs (CREDIT_PACKS) through a one-time Stripe Checkout
+ * payment; the checkout.session.completed webhook grants the credits. Once
+ * a period's quota (included plus any rolled-over units) is used up, usage
+ * draws credits, soonest expiry first, into the counter's included quota, so
+ * enforcement and overage billing only see usage beyond it. Unused credits
+ * expire validDays after purchase.
+ *
+ * @module lib/services/credits/credit-service
+ */
+
+import Stripe from "stripe";
+import { stripe, CREDIT_PACKS, CreditPackCode } from "../../stripe";
+import { config } from "../../config";
+import { findOrganizationByClerkOrgId } from "../../db/repositories/org-repository";
+import {
+  createCreditGrant,
+  sumAvailableCredits,
+  findActiveCreditGrants,
+  drawCredits,
+  releaseCreditDraws,
+  expireCreditGrants,
+  findCreditLedgerEntries,
+  CreditGrantRecord,
+  CreditLedgerEntryType,
+  CreditDraw,
+} from "../../db/repositories/credit-repository";
+import {
+  getCounterQuota,
+  UsageCounterRecord,
+} from "../../db/repositories/usage-repository";
+import {
+  isUsageCacheEnabled,
+  raiseCachedUsageIncluded,
+} from "../../db/repositories/usage-cache-repository";
+import {
+  StripeValidationError,
+  StripeOrgNotFoundError,
+  StripeApiError,
+} from "../../errors/stripe-errors";
+import { logger } from "../../utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Checkout session metadata marking a credit pack purchase
+const CREDIT_PACK_CHECKOUT_TYPE = "credit_pack";
+
+export interface CreateCreditCheckoutResult {
+  checkoutSessionId: string;
+  url: string;
+}
+
+export interface AppliedCredits {
+  counter: UsageCounterRecord; // included raised by the credits drawn
+  draws: CreditDraw[]; // to hand to releaseCredits if the usage is denied
+}
+
+export interface CreditLedgerResult {
+  balances: Array<{ metric: string; available: number }>;
+  grants: Array<{
+    id: string;
+    metric: string;
+    packCode: string;
+    amount: number;
+    remaining: number;
+    expiresAt: string;
+    createdAt: string;
+  }>;
+  entries: Array<{
+    id: string;
+    creditGrantId: string;
+    metric: string;
+    type: CreditLedgerEntryType;
+    amount: number;
+    usageCounterId: string | null;
+    createdAt: string;
+  }>;
+}
+
+export interface ExpireCreditsResult {
+  expired: number;
+  credits: number;
+}
+
+/**
+ * Creates a Stripe Checkout session to buy a credit pack
+ *
+ * Flow:
+ * 1. Find organization and ensure it has a Stripe customer
+ * 2. Create a one-time payment Checkout session for the pack's price,
+ *    tagged with the organization and pack in its metadata
+ * 3. Return the session ID and hosted payment page URL
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param packCode - Credit pack to buy
+ * @returns Checkout session ID and URL
+ * @throws StripeOrgNotFoundError if organization not found
+ * @throws StripeValidationError if organization has no Stripe customer
+ * @throws StripeApiError if Stripe rejects the session
+ */
+export async function createCreditCheckout(
+  clerkOrgId: string,
+  packCode: CreditPackCode
+): Promise<CreateCreditCheckoutResult> {
+  logger.info("Creating credit pack checkout", { clerkOrgId, packCode });
+
+  // Step 1: Find organization
+  const organization = await findOrganizationByClerkOrgId(clerkOrgId);
+
+  if (!organization) {
+    throw new StripeOrgNotFoundError(`Organization not found: ${clerkOrgId}`);
+  }
+
+  if (!organization.stripeCustomerId) {
+    throw new StripeValidationError(
+      `Organization ${clerkOrgId} does not have a Stripe customer ID. Please ensure customer first.`
+    );
+  }
+
+  // Step 2: Create Checkout session
+  const pack = CREDIT_PACKS[packCode];
+  let session: Stripe.Checkout.Session;
+
+  try {
+    session = await stripe.checkout.sessions.create({
+      mode: "payment",
+      customer: organization.stripeCustomerId,
+      line_items: [{ price: pack.stripePriceId, quantity: 1 }],
+      success_url: `${config.app.url}${config.credits.checkoutSuccessPath}`,
+      cancel_url: `${config.app.url}${config.credits.checkoutCancelPath}`,
+      metadata: {
+        type: CREDIT_PACK_CHECKOUT_TYPE,
+        clerkOrgId,
+        packCode,
+      },
+    });
+  } catch (error) {
+    logger.error("Failed to create credit pack checkout", {
+      clerkOrgId,
+      packCode,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new StripeApiError(
+      `Failed to create checkout session: ${error instanceof Error ? error.message : String(error)}`,
+      { originalError: error }
+    );
+  }
+
+  if (!session.url) {
+    throw new StripeApiError("Checkout session created but url is missing", {
+      checkoutSessionId: session.id,
+    });
+  }
+
+  logger.info("Credit pack checkout created", {
+    clerkOrgId,
+    packCode,
+    checkoutSessionId: session.id,
+  });
+
+  // Step 3: Return session
+  return {
+    checkoutSessionId: session.id,
+    url: session.url,
+  };
+}
+
+/**
+ * Grants the credits bought in a completed Checkout session
+ *
+ * Sessions that are not credit pack purchases, or whose payment has not
+ * settled yet (checkout.session.async_payment_succeeded follows), are
+ * ignored. Grants are unique per session, so redelivered webhooks grant
+ * nothing more.
+ *
+ * @param session - Checkout session from the webhook payload
+ * @returns Created grant, or null if nothing was granted
+ */
+export async function grantCreditsForCheckout(
+  session: Stripe.Checkout.Session
+): Promise<CreditGrantRecord | null> {
+  const metadata = session.metadata ?? {};
+
+  if (metadata.type !== CREDIT_PACK_CHECKOUT_TYPE) {
+    return null;
+  }
+
+  if (session.payment_status !== "paid") {
+    logger.info("Credit pack checkout not paid yet", {
+      checkoutSessionId: session.id,
+      paymentStatus: session.payment_status,
+    });
+    return null;
+  }
+
+  const packCode = metadata.packCode as CreditPackCode;
+  const pack = CREDIT_PACKS[packCode];
+
+  if (!pack) {
+    logger.error("Unknown credit pack in checkout session", {
+      checkoutSessionId: session.id,
+      packCode,
+    });
+    return null;
+  }
+
+  const organization = await findOrganizationByClerkOrgId(metadata.clerkOrgId);
+
+  if (!organization) {
+    logger.error("Organization not found for credit pack checkout", {
+      checkoutSessionId: session.id,
+      clerkOrgId: metadata.clerkOrgId,
+    });
+    return null;
+  }
+
+  const grant = await createCreditGrant({
+    organizationId: organization.id,
+    clerkOrgId: organization.clerkOrgId,
+    metric: pack.metric,
+    packCode,
+    amount: pack.credits,
+    expiresAt: new Date(session.created * 1000 + pack.validDays * DAY_MS),
+    stripeCheckoutSessionId: session.id,
+  });
+
+  if (!grant) {
+    logger.info("Credit pack already granted (idempotent)", {
+      checkoutSessionId: session.id,
+      clerkOrgId: organization.clerkOrgId,
+    });
+    return null;
+  }
+
+  logger.info("Credits granted", {
+    clerkOrgId: grant.clerkOrgId,
+    packCode,
+    metric: grant.metric,
+    amount: grant.amount,
+    expiresAt: grant.expiresAt,
+    checkoutSessionId: session.id,
+  });
+
+  return grant;
+}
+
+/**
+ * Draws credits to cover usage about to pass a counter's quota
+ *
+ * Called before an increment of value. If used + value would exceed
+ * included plus rolled-over units, the shortfall (or as much of it as the
+ * organization's credits cover) is drawn into included, in Postgres and in
+ * the usage cache. If the increment is then denied, hand the draws to
+ * releaseCredits so credits only pay for usage actually consumed.
+ *
+ * @param counter - Usage counter before the increment
+ * @param value - Amount about to be added to used
+ * @returns Counter with included raised by the credits drawn, and the draws
+ */
+export async function applyCredits(
+  counter: UsageCounterRecord,
+  value: number
+): Promise<AppliedCredits> {
+  const shortfall = counter.used + value - getCounterQuota(counter);
+
+  if (shortfall <= 0) {
+    return { counter, draws: [] };
+  }
+
+  const now = new Date();
+  const available = await sumAvailableCredits(
+    counter.clerkOrgId,
+    counter.metric,
+    now
+  );
+
+  if (available <= 0) {
+    return { counter, draws: [] };
+  }
+
+  const draws = await drawCredits(counter, Math.min(shortfall, available), now);
+
+  if (draws === null) {
+    // A concurrent request drew from the same grant first; the next
+    // increment past the quota tries again
+    logger.warn("Credit draw conflicted with a concurrent draw", {
+      clerkOrgId: counter.clerkOrgId,
+      usageCounterId: counter.id,
+      shortfall,
+    });
+    return { counter, draws: [] };
+  }
+
+  const drawn = draws.reduce((sum, draw) => sum + draw.amount, 0);
+
+  if (drawn === 0) {
+    return { counter, draws };
+  }
+
+  if (isUsageCacheEnabled()) {
+    await raiseCachedUsageIncluded(counter, drawn);
+  }
+
+  logger.info("Credits drawn into included quota", {
+    clerkOrgId: counter.clerkOrgId,
+    usageCounterId: counter.id,
+    metric: counter.metric,
+    drawn,
+  });
+
+  return {
+    counter: {
+      ...counter,
+      included: counter.included + drawn,
+      credited: (counter.credited ?? 0) + drawn,
+    },
+    draws,
+  };
+}
+
+/**
+ * Returns credits drawn by applyCredits for usage that was not consumed
+ *
+ * The credits go back to their grants and out of the counter's included
+ * quota, in Postgres and in the usage cache.
+ *
+ * @param counter - Counter as returned by applyCredits
+ * @param draws - Draws returned by applyCredits
+ * @returns Counter with included lowered by the credits released
+ */
+export async function releaseCredits(
+  counter: UsageCounterRecord,
+  draws: CreditDraw[]
+): Promise<UsageCounterRecord> {
+  const released = draws.reduce((sum, draw) => sum + draw.amount, 0);
+
+  if (released === 0) {
+    return counter;
+  }
+
+  await releaseCreditDraws(counter, draws);
+
+  if (isUsageCacheEnabled()) {
+    await raiseCachedUsageIncluded(counter, -released);
+  }
+
+  logger.info("Credits released from included quota", {
+    clerkOrgId: counter.clerkOrgId,
+    usageCounterId: counter.id,
+    metric: counter.metric,
+    released,
+  });
+
+  return {
+    ...counter,
+    included: counter.included - released,
+    credited: (counter.credited ?? 0) - released,
+  };
+}
+
+/**
+ * Sums the unexpired credits an organization has left for a metric
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric name
+ * @returns Available credits
+ */
+export async function getAvailableCredits(
+  clerkOrgId: string,
+  metric: string
+): Promise<number> {
+  return sumAvailableCredits(clerkOrgId, metric, new Date());
+}
+
+/**
+ * Lists an organization's credit balances, active grants and ledger
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param filters - Optional metric/type filters and ledger entry limit
+ * @returns Balances per metric, active grants (soonest expiry first) and
+ *   ledger entries (newest first)
+ */
+export async function listCreditLedger(
+  clerkOrgId: string,
+  filters: { metric?: string; type?: CreditLedgerEntryType; limit: number }
+): Promise<CreditLedgerResult> {
+  logger.info("Listing credit ledger", { clerkOrgId, ...filters });
+
+  const [activeGrants, entries] = await Promise.all([
+    findActiveCreditGrants(clerkOrgId, new Date()),
+    findCreditLedgerEntries(clerkOrgId, filters),
+  ]);
+  const grants = activeGrants.filter(
+    (grant) => !filters.metric || grant.metric === filters.metric
+  );
+
+  const balances = new Map<string, number>();
+  for (const grant of grants) {
+    balances.set(
+      grant.metric,
+      (balances.get(grant.metric) ?? 0) + grant.remaining
+    );
+  }
+
+  return {
+    balances: [...balances].map(([metric, available]) => ({
+      metric,
+      available,
+    })),
+    grants: grants.map((grant) => ({
+      id: grant.id,
+      metric: grant.metric,
+      packCode: grant.packCode,
+      amount: grant.amount,
+      remaining: grant.remaining,
+      expiresAt: grant.expiresAt.toISOString(),
+      createdAt: grant.createdAt.toISOString(),
+    })),
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      creditGrantId: entry.creditGrantId,
+      metric: entry.metric,
+      type: entry.type,
+      amount: entry.amount,
+      usageCounterId: entry.usageCounterId,
+      createdAt: entry.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Expires grants past their expiry, recording what they had left
+ *
+ * Expired grants are never drawn from regardless, so this only settles
+ * their balances and writes the ledger; runs are safe to repeat.
+ *
+ * @returns Number of grants expired and credits forfeited
+ */
+export async function expireCredits(): Promise<ExpireCreditsResult> {
+  const expired = await expireCreditGrants(
+    new Date(),
+    config.credits.expireBatchSize
+  );
+  const credits = expired.reduce((sum, grant) => sum + grant.remaining, 0);
+
+  logger.info("Credit grants expired", { expired: expired.length, credits });
+
+  return { expired: expired.length, credits };
+}
@@ -1,53 +1,199 @@
 /**
  * Entitlements Service
- * 
+ *
  * Business logic layer for entitlements operations.
  * Handles retrieval of plan, quota, and consumption data from local DB.
- * 
+ * A pool member's entitlements are its parent's pool, plus its own usage
+ * and caps within the pool. For a signed-in user, the user's own usage and
+ * member caps are included next to the organization's totals. Open usage
+ * anomalies are flagged, and a metric under an anomaly hard cap shows no
+ * overage allowance while the cap lasts. Each metric's usage is projected to
+ * the end of the period at its average rate so far, with the time its quota
+ * is expected to run out.
+ *
  * @module lib/services/entitlements/entitlements-service
  */
 
 import { findOrganizationByClerkOrgId } from "../../db/repositories/org-repository";
 import { findActiveSubscriptionByOrganizationId } from "../../db/repositories/subscription-repository";
-import { findUsageCounter, formatPeriodKey } from "../../db/repositories/usage-repository";
+import {
+  findUsageCountersForPeriod,
+  formatPeriodKey,
+} from "../../db/repositories/usage-repository";
+import { PLANS_CONFIG, PlanCode, METRICS, EnforcementMode } from "../../stripe";
+import { getQuotaAllowance } from "../quota/quota-service";
+import { resolvePoolOwner, getPoolMemberCap } from "../orgs/org-pool-service";
+import { findPoolMemberUsage } from "../../db/repositories/pool-repository";
+import {
+  findMemberUsageCaps,
+  findMemberUsage,
+} from "../../db/repositories/member-repository";
+import {
+  listUsageAnomalies,
+  loadAnomalyCaps,
+  isAnomalyCapped,
+} from "../usage/usage-anomaly-service";
+import { config } from "../../config";
 import {
   EntitlementsOrgNotFoundError,
   EntitlementsNoActiveSubscriptionError,
 } from "../../errors/entitlements-errors";
 import { logger } from "../../utils/logger";
 
+export interface MetricEntitlement {
+  metric: string;
+  included: number;
+  rolledOver: number; // unused quota carried over from earlier periods
+  used: number;
+  remaining: number;
+  overageAllowance: number | null; // null = unlimited
+  projectedUsed: number; // expected usage by the end of the period
+  exhaustsAt: string | null; // when remaining is expected to reach zero
+}
+
+export interface UsageForecast {
+  metric: string;
+  used: number;
+  limit: number; // included + rolledOver
+  remaining: number;
+  dailyRate: number; // average usage per day so far this period
+  projectedUsed: number;
+  projectedOverage: number; // projected usage past the limit
+  exhaustsAt: string | null; // null if not expected to run out this period
+}
+
+export interface GetUsageForecastResult {
+  periodKey: string;
+  periodStart: string;
+  periodEnd: string;
+  asOf: string;
+  forecasts: UsageForecast[];
+}
+
+export interface PoolMemberEntitlement {
+  metric: string;
+  cap: number | null; // null = uncapped
+  used: number; // member's own usage of the pool this period
+  remaining: number | null; // left under the cap; null = uncapped
+}
+
+export interface MemberEntitlement {
+  metric: string;
+  cap: number | null; // null = uncapped
+  used: number; // user's own usage this period
+  remaining: number | null; // left under the cap; null = uncapped
+}
+
+export interface AnomalyEntitlement {
+  metric: string;
+  hour: string; // start of the flagged UTC hour
+  observed: number;
+  baseline: number;
+  capUntil: string | null; // end of the hard cap; null if not capped
+}
+
 export interface GetEntitlementsResult {
   planCode: string;
+  mode: EnforcementMode;
   included: number;
+  rolledOver: number;
   used: number;
   remaining: number;
+  overageAllowance: number | null;
+  projectedUsed: number;
+  exhaustsAt: string | null;
   periodKey: string;
+  periodStart: string;
+  periodEnd: string;
+  metrics: MetricEntitlement[];
+  pool: {
+    parentOrgId: string; // Clerk org ID of the pool's parent
+    metrics: PoolMemberEntitlement[];
+  } | null; // set for pool members
+  member: {
+    userId: string; // Clerk user ID of the caller
+    metrics: MemberEntitlement[];
+  } | null; // set when a userId is given
+  anomalies: AnomalyEntitlement[]; // open usage anomalies, newest first
+}
+
+/**
+ * Projects usage to the end of a billing period
+ *
+ * Usage so far is assumed to continue at its average rate since the start
+ * of the period, taken over at least config.usage.forecastMinElapsedHours.
+ * Past the end of the period, usage is final.
+ *
+ * @param input - Usage and limit of a metric, and the period
+ * @param now - Time of the forecast
+ * @returns Average daily rate, projected usage, and the expected time usage
+ *   reaches the limit (null if it already has, or isn't expected to before
+ *   the period ends)
+ */
+export function forecastUsage(
+  input: { used: number; limit: number; periodStart: Date; periodEnd: Date },
+  now: Date = new Date()
+): { dailyRate: number; projectedUsed: number; exhaustsAt: string | null } {
+  const asOf = Math.min(now.getTime(), input.periodEnd.getTime());
+  const elapsedMs = Math.max(
+    asOf - input.periodStart.getTime(),
+    config.usage.forecastMinElapsedHours * 60 * 60 * 1000
+  );
+  const ratePerMs = input.used / elapsedMs;
+  const remaining = input.limit - input.used;
+  const exhaustsAt =
+    remaining > 0 && ratePerMs > 0
+      ? new Date(asOf + remaining / ratePerMs)
+      : null;
+
+  return {
+    dailyRate: Math.round(ratePerMs * 24 * 60 * 60 * 1000 * 100) / 100,
+    projectedUsed: Math.round(
+      input.used + ratePerMs * (input.periodEnd.getTime() - asOf)
+    ),
+    exhaustsAt:
+      exhaustsAt && exhaustsAt < input.periodEnd
+        ? exhaustsAt.toISOString()
+        : null,
+  };
 }
 
 /**
  * Gets entitlements for an organization
- * 
+ *
  * Flow:
  * 1. Find organization by clerkOrgId
  * 2. Find active subscription (status: active or trialing)
  * 3. Derive periodKey from subscription.currentPeriodStart
- * 4. Find usage counter for current period and metric 'api_call'
- * 5. Calculate remaining = included - used
- * 6. Return entitlements
- * 
+ * 4. Find usage counters for current period (one per metric)
+ * 5. Calculate remaining = included + rolledOver - used, the overage allowance
+ *    (from the plan's enforcement policy) and the usage forecast for every
+ *    metric in the plan
+ * 6. For a pool member, add its own usage, cap and remaining under the cap
+ *    per metric
+ * 7. For a user, add the user's own usage, member cap and remaining under
+ *    the cap per metric
+ * 8. List the organization's open usage anomalies
+ * 9. Return entitlements (top-level fields mirror the default metric)
+ *
+ * For a pool member, steps 2-5 apply to its parent's subscription and
+ * counters.
+ *
  * @param clerkOrgId - Clerk organization ID
+ * @param userId - Clerk user ID of the caller (optional)
  * @returns Entitlements result with plan, quota, and consumption
  * @throws EntitlementsOrgNotFoundError if organization not found
  * @throws EntitlementsNoActiveSubscriptionError if no active subscription
  */
 export async function getEntitlements(
-  clerkOrgId: string
+  clerkOrgId: string,
+  userId?: string
 ): Promise<GetEntitlementsResult> {
-  logger.info("Getting entitlements for organization", { clerkOrgId });
+  logger.info("Getting entitlements for organization", { clerkOrgId, userId });
 
   // Step 1: Find organization
   const organization = await findOrganizationByClerkOrgId(clerkOrgId);
-  
+
   if (!organization) {
     throw new EntitlementsOrgNotFoundError(
       `Organization not found: ${clerkOrgId}`
@@ -59,10 +205,9 @@ export async function getEntitlements(
     orgId: organization.id,
   });
 
-  // Step 2: Find active subscription
-  const subscription = await findActiveSubscriptionByOrganizationId(
-    organization.id
-  );
+  // Step 2: Find active subscription (the pool parent's, for a member)
+  const { owner, pool: poolContext } = await resolvePoolOwner(organization);
+  const subscription = await findActiveSubscriptionByOrganizationId(owner.id);
 
   if (!subscription) {
     throw new EntitlementsNoActiveSubscriptionError(
@@ -87,35 +232,216 @@ export async function getEntitlements(
     periodStart: subscription.currentPeriodStart,
   });
 
-  // Step 4: Find usage counter for current period
-  const usageCounter = await findUsageCounter(
-    clerkOrgId,
-    periodKey,
-    "api_call"
+  // Step 4: Find usage counters for current period
+  const usageCounters = await findUsageCountersForPeriod(
+    owner.clerkOrgId,
+    periodKey
   );
 
-  // Step 5: Calculate entitlements
-  // If no counter exists, return zeros (counter may not be seeded yet)
-  const included = usageCounter?.included ?? 0;
-  const used = usageCounter?.used ?? 0;
-  const remaining = included - used;
+  // Step 5: Calculate entitlements for every metric in the plan
+  // If a counter doesn't exist, return zeros (counter may not be seeded yet)
+  const anomalyCaps = await loadAnomalyCaps(clerkOrgId);
+  const planCode = subscription.planCode as PlanCode;
+  const planMetrics: string[] =
+    planCode in PLANS_CONFIG
+      ? Object.keys(PLANS_CONFIG[planCode].quotas)
+      : [...METRICS];
+
+  const metrics: MetricEntitlement[] = planMetrics.map((metric) => {
+    const usageCounter = usageCounters.find(
+      (counter) => counter.metric === metric
+    );
+    const included = usageCounter?.included ?? 0;
+    const rolledOver = usageCounter?.rolledOver ?? 0;
+    const used = usageCounter?.used ?? 0;
+    const { overageAllowance } = getQuotaAllowance(
+      subscription.planCode,
+      included,
+      isAnomalyCapped(anomalyCaps, metric)
+    );
+    const { projectedUsed, exhaustsAt } = forecastUsage({
+      used,
+      limit: included + rolledOver,
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+    });
+
+    return {
+      metric,
+      included,
+      rolledOver,
+      used,
+      remaining: included + rolledOver - used,
+      overageAllowance,
+      projectedUsed,
+      exhaustsAt,
+    };
+  });
+
+  // Step 6: A pool member's own share of the pool
+  let pool: GetEntitlementsResult["pool"] = null;
+
+  if (poolContext) {
+    const memberUsage = await findPoolMemberUsage(clerkOrgId, periodKey);
+
+    pool = {
+      parentOrgId: poolContext.clerkOrgId,
+      metrics: planMetrics.map((metric) => {
+        const cap = getPoolMemberCap(poolContext, metric);
+        const used =
+          memberUsage.find((usage) => usage.metric === metric)?.used ?? 0;
+
+        return {
+          metric,
+          cap,
+          used,
+          remaining: cap === null ? null : Math.max(cap - used, 0),
+        };
+      }),
+    };
+  }
+
+  // Step 7: The user's own share of the organization's quota
+  let member: GetEntitlementsResult["member"] = null;
+
+  if (userId) {
+    const [memberCaps, memberUsage] = await Promise.all([
+      findMemberUsageCaps(clerkOrgId, userId),
+      findMemberUsage(clerkOrgId, periodKey, userId),
+    ]);
+
+    member = {
+      userId,
+      metrics: planMetrics.map((metric) => {
+        const cap =
+          memberCaps.find((memberCap) => memberCap.metric === metric)?.cap ??
+          null;
+        const used =
+          memberUsage.find((usage) => usage.metric === metric)?.used ?? 0;
+
+        return {
+          metric,
+          cap,
+          used,
+          remaining: cap === null ? null : Math.max(cap - used, 0),
+        };
+      }),
+    };
+  }
+
+  // Step 8: Open usage anomalies
+  const { anomalies } = await listUsageAnomalies({
+    clerkOrgId,
+    status: "open",
+    limit: config.anomalies.entitlementsLimit,
+  });
+
+  const defaultMetric = metrics.find(
+    (entitlement) => entitlement.metric === config.usage.defaultMetric
+  );
+  const included = defaultMetric?.included ?? 0;
+  const rolledOver = defaultMetric?.rolledOver ?? 0;
+  const used = defaultMetric?.used ?? 0;
+  const remaining = included + rolledOver - used;
+  const { mode, overageAllowance } = getQuotaAllowance(
+    subscription.planCode,
+    included,
+    isAnomalyCapped(anomalyCaps, config.usage.defaultMetric)
+  );
 
   logger.info("Entitlements calculated", {
     clerkOrgId,
     planCode: subscription.planCode,
     periodKey,
     included,
+    rolledOver,
     used,
     remaining,
-    hasCounter: !!usageCounter,
+    counterCount: usageCounters.length,
   });
 
   return {
     planCode: subscription.planCode,
+    mode,
     included,
+    rolledOver,
     used,
     remaining,
+    overageAllowance,
+    projectedUsed: defaultMetric?.projectedUsed ?? 0,
+    exhaustsAt: defaultMetric?.exhaustsAt ?? null,
     periodKey,
+    periodStart: subscription.currentPeriodStart.toISOString(),
+    periodEnd: subscription.currentPeriodEnd.toISOString(),
+    metrics,
+    pool,
+    member,
+    anomalies: anomalies.map((anomaly) => ({
+      metric: anomaly.metric,
+      hour: anomaly.hour,
+      observed: anomaly.observed,
+      baseline: anomaly.baseline,
+      capUntil: anomaly.capUntil,
+    })),
   };
 }
 
+/**
+ * Gets the usage forecast for an organization's current period
+ *
+ * Forecasts every metric in the plan (or one metric) from the same quota
+ * and usage as getEntitlements, with the daily rate and projected overage.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric to forecast (optional; all metrics by default)
+ * @returns Period and a forecast per metric
+ * @throws EntitlementsOrgNotFoundError if organization not found
+ * @throws EntitlementsNoActiveSubscriptionError if no active subscription
+ */
+export async function getUsageForecast(
+  clerkOrgId: string,
+  metric?: string
+): Promise<GetUsageForecastResult> {
+  const entitlements = await getEntitlements(clerkOrgId);
+  const periodStart = new Date(entitlements.periodStart);
+  const periodEnd = new Date(entitlements.periodEnd);
+  const asOf = new Date();
+
+  const forecasts = entitlements.metrics
+    .filter((entitlement) => !metric || entitlement.metric === metric)
+    .map((entitlement): UsageForecast => {
+      const limit = entitlement.included + entitlement.rolledOver;
+      const { dailyRate, projectedUsed, exhaustsAt } = forecastUsage(
+        { used: entitlement.used, limit, periodStart, periodEnd },
+        asOf
+      );
+
+      return {
+        metric: entitlement.metric,
+        used: entitlement.used,
+        limit,
+        remaining: entitlement.remaining,
+        dailyRate,
+        projectedUsed,
+        projectedOverage: Math.max(projectedUsed - limit, 0),
+        exhaustsAt,
+      };
+    });
+
+  logger.info("Usage forecast calculated", {
+    clerkOrgId,
+    periodKey: entitlements.periodKey,
+    metric,
+    exhausting: forecasts
+      .filter((forecast) => forecast.exhaustsAt)
+      .map((forecast) => forecast.metric),
+  });
+
+  return {
+    periodKey: entitlements.periodKey,
+    periodStart: entitlements.periodStart,
+    periodEnd: entitlements.periodEnd,
+    asOf: asOf.toISOString(),
+    forecasts,
+  };
+}
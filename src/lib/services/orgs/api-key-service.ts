@@ -0,0 +1,303 @@
+/**
+ * API Key Service
+ *
+ * Business logic layer for org-scoped API keys.
+ * Organization admins issue keys for their backend services; a key is sent
+ * as `Authorization: Bearer msk_...` and authenticates as its organization
+ * for the scopes it carries. The full key is only returned when it is
+ * issued or rotated. Usage recorded with a key is attributed to the key's
+ * ID in place of a Clerk user, so member usage and member caps apply per key.
+ *
+ * @module lib/services/orgs/api-key-service
+ */
+
+import { config } from "../../config";
+import { findOrganizationByClerkOrgId } from "../../db/repositories/org-repository";
+import {
+  createApiKey,
+  findApiKeyByHash,
+  findApiKeyById,
+  findApiKeysByClerkOrgId,
+  updateApiKey,
+  ApiKeyRecord,
+} from "../../db/repositories/api-key-repository";
+import { OrgNotFoundError } from "../../errors/org-errors";
+import {
+  ApiKeyNotFoundError,
+  ApiKeyValidationError,
+} from "../../errors/api-key-errors";
+import {
+  generateApiKey,
+  hashApiKey,
+} from "../../utils/security/api-key-secret";
+import { logger } from "../../utils/logger";
+
+export type ApiKeyScope = (typeof config.apiKeys.scopes)[number];
+
+export type ApiKeyStatus = "active" | "expired" | "revoked";
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  status: ApiKeyStatus;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdByUserId: string;
+  createdAt: string;
+}
+
+export interface IssuedApiKey extends ApiKey {
+  key: string;
+}
+
+export interface ApiKeyPrincipal {
+  apiKeyId: string;
+  clerkOrgId: string;
+  scopes: string[];
+}
+
+/**
+ * Derives a key's status
+ *
+ * @param apiKey - Key record
+ * @param now - Reference time
+ * @returns 'revoked', 'expired' or 'active'
+ */
+function getApiKeyStatus(apiKey: ApiKeyRecord, now: Date): ApiKeyStatus {
+  if (apiKey.revokedAt) {
+    return "revoked";
+  }
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+    return "expired";
+  }
+  return "active";
+}
+
+/**
+ * Maps a key record to its API shape (the hash is never included)
+ *
+ * @param apiKey - Key record
+ * @param now - Reference time for the status
+ * @returns Key summary
+ */
+function toApiKey(apiKey: ApiKeyRecord, now: Date = new Date()): ApiKey {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    status: getApiKeyStatus(apiKey, now),
+    expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+    createdByUserId: apiKey.createdByUserId,
+    createdAt: apiKey.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Loads a key owned by an organization
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param keyId - Key ID
+ * @returns Key record
+ * @throws ApiKeyNotFoundError if missing or owned by another org
+ */
+async function getOwnedApiKey(
+  clerkOrgId: string,
+  keyId: string
+): Promise<ApiKeyRecord> {
+  const apiKey = await findApiKeyById(keyId);
+
+  if (!apiKey || apiKey.clerkOrgId !== clerkOrgId) {
+    throw new ApiKeyNotFoundError(`API key not found: ${keyId}`);
+  }
+
+  return apiKey;
+}
+
+/**
+ * Issues an API key for an organization
+ *
+ * The key is generated here and returned only in this response.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param createdByUserId - Clerk user ID of the admin issuing the key
+ * @param input - Key name, scopes and optional expiry
+ * @returns Issued key including the full key
+ * @throws OrgNotFoundError if organization doesn't exist
+ * @throws ApiKeyValidationError if the expiry is not in the future
+ */
+export async function issueApiKey(
+  clerkOrgId: string,
+  createdByUserId: string,
+  input: { name: string; scopes: ApiKeyScope[]; expiresAt?: string }
+): Promise<IssuedApiKey> {
+  const organization = await findOrganizationByClerkOrgId(clerkOrgId);
+
+  if (!organization) {
+    throw new OrgNotFoundError(`Organization not found: ${clerkOrgId}`);
+  }
+
+  const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null;
+
+  if (expiresAt && expiresAt <= new Date()) {
+    throw new ApiKeyValidationError("expiresAt must be in the future", {
+      expiresAt: input.expiresAt,
+    });
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const apiKey = await createApiKey({
+    organizationId: organization.id,
+    clerkOrgId,
+    name: input.name,
+    prefix,
+    keyHash,
+    scopes: [...new Set(input.scopes)],
+    expiresAt,
+    createdByUserId,
+  });
+
+  logger.info("API key issued", {
+    clerkOrgId,
+    keyId: apiKey.id,
+    prefix,
+    scopes: apiKey.scopes,
+  });
+
+  return { ...toApiKey(apiKey), key };
+}
+
+/**
+ * Lists API keys for an organization, including revoked and expired ones
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @returns Key summaries
+ */
+export async function listApiKeys(
+  clerkOrgId: string
+): Promise<{ keys: ApiKey[] }> {
+  const keys = await findApiKeysByClerkOrgId(clerkOrgId);
+  const now = new Date();
+
+  return { keys: keys.map((apiKey) => toApiKey(apiKey, now)) };
+}
+
+/**
+ * Rotates an API key
+ *
+ * Issues a new secret for the same key: its ID, name, scopes and expiry are
+ * kept, so usage stays attributed to it. The previous secret stops working
+ * immediately.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param keyId - Key ID
+ * @returns Rotated key including the new full key
+ * @throws ApiKeyNotFoundError if missing or owned by another org
+ * @throws ApiKeyValidationError if the key is revoked or expired
+ */
+export async function rotateApiKey(
+  clerkOrgId: string,
+  keyId: string
+): Promise<IssuedApiKey> {
+  const existing = await getOwnedApiKey(clerkOrgId, keyId);
+  const status = getApiKeyStatus(existing, new Date());
+
+  if (status !== "active") {
+    throw new ApiKeyValidationError(
+      `API key is ${status} and cannot be rotated`,
+      { keyId, status }
+    );
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const apiKey = await updateApiKey(keyId, { prefix, keyHash });
+
+  logger.info("API key rotated", {
+    clerkOrgId,
+    keyId,
+    previousPrefix: existing.prefix,
+    prefix,
+  });
+
+  return { ...toApiKey(apiKey), key };
+}
+
+/**
+ * Revokes an API key
+ *
+ * Revoking is permanent; revoking a revoked key is a no-op.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param keyId - Key ID
+ * @returns Revoked key summary
+ * @throws ApiKeyNotFoundError if missing or owned by another org
+ */
+export async function revokeApiKey(
+  clerkOrgId: string,
+  keyId: string
+): Promise<ApiKey> {
+  const existing = await getOwnedApiKey(clerkOrgId, keyId);
+
+  if (existing.revokedAt) {
+    return toApiKey(existing);
+  }
+
+  const apiKey = await updateApiKey(keyId, { revokedAt: new Date() });
+
+  logger.info("API key revoked", { clerkOrgId, keyId, prefix: apiKey.prefix });
+
+  return toApiKey(apiKey);
+}
+
+/**
+ * Authenticates a presented API key
+ *
+ * Records the key's last use at most once per
+ * config.apiKeys.lastUsedUpdateSeconds; failing to record it does not fail
+ * the request.
+ *
+ * @param key - Full key from the Authorization header
+ * @returns Key ID, organization and scopes, or null if the key is unknown,
+ *   revoked or expired
+ */
+export async function authenticateApiKey(
+  key: string
+): Promise<ApiKeyPrincipal | null> {
+  const apiKey = await findApiKeyByHash(hashApiKey(key));
+  const now = new Date();
+
+  if (!apiKey || getApiKeyStatus(apiKey, now) !== "active") {
+    logger.warn("API key rejected", {
+      prefix: apiKey?.prefix,
+      status: apiKey ? getApiKeyStatus(apiKey, now) : "unknown",
+    });
+    return null;
+  }
+
+  const lastUsedUpdateMs = config.apiKeys.lastUsedUpdateSeconds * 1000;
+
+  if (
+    !apiKey.lastUsedAt ||
+    now.getTime() - apiKey.lastUsedAt.getTime() >= lastUsedUpdateMs
+  ) {
+    try {
+      await updateApiKey(apiKey.id, { lastUsedAt: now });
+    } catch (error) {
+      logger.warn("Failed to record API key last use", {
+        keyId: apiKey.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    apiKeyId: apiKey.id,
+    clerkOrgId: apiKey.clerkOrgId,
+    scopes: apiKey.scopes,
+  };
+}
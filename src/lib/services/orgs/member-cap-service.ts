@@ -0,0 +1,145 @@
+/**
+ * Member Cap Service
+ *
+ * Business logic layer for per-member sub-quotas.
+ * Usage recorded from a signed-in session is attributed to the session's
+ * Clerk user, and organization admins can cap each member's usage of a
+ * metric per billing period. Member caps apply on top of the organization's
+ * own quota (and, for a pool member organization, its pool cap): a consume
+ * is denied once either is reached.
+ *
+ * @module lib/services/orgs/member-cap-service
+ */
+
+import { findOrganizationByClerkOrgId } from "../../db/repositories/org-repository";
+import {
+  findMemberUsageCaps,
+  upsertMemberUsageCap,
+  deleteMemberUsageCap,
+  MemberCaps,
+} from "../../db/repositories/member-repository";
+import { OrgNotFoundError } from "../../errors/org-errors";
+import { logger } from "../../utils/logger";
+
+export interface MemberCap {
+  userId: string;
+  metric: string;
+  cap: number;
+}
+
+export interface SetMemberCapResult {
+  orgId: string;
+  userId: string;
+  metric: string;
+  cap: number | null;
+}
+
+export interface ListMemberCapsResult {
+  caps: MemberCap[];
+}
+
+/**
+ * Loads an organization's member caps for its subscription context
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @returns Caps by Clerk user ID, then metric
+ */
+export async function loadMemberCaps(clerkOrgId: string): Promise<MemberCaps> {
+  const caps = await findMemberUsageCaps(clerkOrgId);
+  const memberCaps: MemberCaps = {};
+
+  for (const cap of caps) {
+    memberCaps[cap.userId] = {
+      ...memberCaps[cap.userId],
+      [cap.metric]: cap.cap,
+    };
+  }
+
+  return memberCaps;
+}
+
+/**
+ * Looks up a member's cap for a metric
+ *
+ * @param memberCaps - Organization's member caps (from its context)
+ * @param userId - Clerk user ID (undefined when usage is not attributed)
+ * @param metric - Metric name
+ * @returns Cap per period, or null if uncapped
+ */
+export function getMemberCap(
+  memberCaps: MemberCaps | undefined,
+  userId: string | undefined,
+  metric: string
+): number | null {
+  if (!userId) {
+    return null;
+  }
+  return memberCaps?.[userId]?.[metric] ?? null;
+}
+
+/**
+ * Sets or removes a member's cap for a metric
+ *
+ * The cap applies to the member's usage from the next request on (once
+ * cached subscription contexts expire, with the usage cache enabled),
+ * counting usage already attributed to them this period.
+ *
+ * @param data - Organization, member, metric and cap per period (null removes it)
+ * @returns Organization, member, metric and cap after the change
+ * @throws OrgNotFoundError if the organization is not found
+ */
+export async function setMemberCap(data: {
+  clerkOrgId: string;
+  userId: string;
+  metric: string;
+  cap: number | null;
+}): Promise<SetMemberCapResult> {
+  logger.info("Setting member usage cap", data);
+
+  const organization = await findOrganizationByClerkOrgId(data.clerkOrgId);
+
+  if (!organization) {
+    throw new OrgNotFoundError(`Organization not found: ${data.clerkOrgId}`);
+  }
+
+  const { cap, ...key } = data;
+
+  if (cap === null) {
+    const removed = await deleteMemberUsageCap(key);
+
+    logger.info("Member usage cap removed", { ...key, removed });
+  } else {
+    await upsertMemberUsageCap({ ...key, cap });
+
+    logger.info("Member usage cap set", data);
+  }
+
+  return {
+    orgId: data.clerkOrgId,
+    userId: data.userId,
+    metric: data.metric,
+    cap,
+  };
+}
+
+/**
+ * Lists an organization's member caps
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param userId - Optional Clerk user ID to limit the caps to
+ * @returns Caps ordered by member, then metric
+ */
+export async function listMemberCaps(
+  clerkOrgId: string,
+  userId?: string
+): Promise<ListMemberCapsResult> {
+  const caps = await findMemberUsageCaps(clerkOrgId, userId);
+
+  return {
+    caps: caps.map((cap) => ({
+      userId: cap.userId,
+      metric: cap.metric,
+      cap: cap.cap,
+    })),
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Organization Pool Service
+ *
+ * Business logic layer for pooled quotas.
+ * An enterprise contract is bought by one parent organization; its member
+ * (child) organizations consume the parent's usage counters instead of
+ * their own, optionally capped per member and period. Billing (Stripe
+ * customer and subscription) lives on the parent only. Pools are one level
+ * deep: a parent cannot itself be a member of another pool.
+ *
+ * @module lib/services/orgs/org-pool-service
+ */
+
+import {
+  findOrganizationById,
+  findOrganizationByClerkOrgId,
+  findChildOrganizations,
+  updateOrganizationPool,
+  OrganizationRecord,
+  PoolCaps,
+} from "../../db/repositories/org-repository";
+import { findActiveSubscriptionByOrganizationId } from "../../db/repositories/subscription-repository";
+import { PoolContext } from "../../db/repositories/usage-cache-repository";
+import { OrgNotFoundError, OrgValidationError } from "../../errors/org-errors";
+import { logger } from "../../utils/logger";
+
+export interface PoolOwner {
+  owner: OrganizationRecord; // organization whose subscription and counters apply
+  pool?: PoolContext; // set when the organization is a pool member
+}
+
+export interface UpdatePoolMembershipResult {
+  orgId: string;
+  parentOrgId: string | null;
+  caps: PoolCaps;
+}
+
+/**
+ * Whether an organization consumes a parent's pooled quota
+ *
+ * @param organization - Organization record
+ * @returns true for pool members
+ */
+export function isPoolMember(organization: OrganizationRecord): boolean {
+  return Boolean(organization.parentOrganizationId);
+}
+
+/**
+ * Resolves the organization whose subscription and counters apply
+ *
+ * @param organization - Organization the request is made for
+ * @returns The organization itself, or for a pool member its parent along
+ *   with the pool context
+ * @throws OrgNotFoundError if a pool member's parent no longer exists
+ */
+export async function resolvePoolOwner(
+  organization: OrganizationRecord
+): Promise<PoolOwner> {
+  if (!organization.parentOrganizationId) {
+    return { owner: organization };
+  }
+
+  const parent = await findOrganizationById(organization.parentOrganizationId);
+
+  if (!parent) {
+    throw new OrgNotFoundError(
+      `Pool parent organization not found for: ${organization.clerkOrgId}`
+    );
+  }
+
+  logger.info("Pool member resolved to parent organization", {
+    clerkOrgId: organization.clerkOrgId,
+    parentClerkOrgId: parent.clerkOrgId,
+  });
+
+  return {
+    owner: parent,
+    pool: {
+      clerkOrgId: parent.clerkOrgId,
+      organizationId: parent.id,
+      caps: organization.poolCaps ?? {},
+    },
+  };
+}
+
+/**
+ * Looks up a pool member's cap for a metric
+ *
+ * @param pool - Pool context (undefined for organizations outside a pool)
+ * @param metric - Metric name
+ * @returns Cap per period, or null if uncapped
+ */
+export function getPoolMemberCap(
+  pool: PoolContext | undefined,
+  metric: string
+): number | null {
+  return pool?.caps[metric] ?? null;
+}
+
+/**
+ * Adds an organization to a pool, changes its caps, or removes it
+ *
+ * Flow:
+ * 1. Find the organization
+ * 2. Without a parent: leave the pool (caps are cleared)
+ * 3. Otherwise find the parent and check the pool stays one level deep: the
+ *    parent is not a member itself and the organization has no members
+ * 4. Refuse organizations with their own active subscription (billing
+ *    lives on the parent; cancel it first)
+ * 5. Set the parent and caps
+ *
+ * Usage already recorded stays on the counters it was recorded against;
+ * the change applies to usage from the next request on (once cached
+ * subscription contexts expire, with the usage cache enabled).
+ *
+ * @param data - Clerk org IDs of the member and parent (null to leave), and
+ *   the member's caps per metric
+ * @returns Organization, parent and caps after the change
+ * @throws OrgNotFoundError if the organization or parent is not found
+ * @throws OrgValidationError if the change would nest pools or the
+ *   organization still has its own subscription
+ */
+export async function updatePoolMembership(data: {
+  clerkOrgId: string;
+  parentClerkOrgId: string | null;
+  caps?: PoolCaps;
+}): Promise<UpdatePoolMembershipResult> {
+  logger.info("Updating pool membership", data);
+
+  // Step 1: Find organization
+  const organization = await findOrganizationByClerkOrgId(data.clerkOrgId);
+
+  if (!organization) {
+    throw new OrgNotFoundError(`Organization not found: ${data.clerkOrgId}`);
+  }
+
+  // Step 2: Leave the pool
+  if (data.parentClerkOrgId === null) {
+    await updateOrganizationPool(organization.id, {
+      parentOrganizationId: null,
+      poolCaps: {},
+    });
+
+    logger.info("Organization left its pool", { clerkOrgId: data.clerkOrgId });
+
+    return { orgId: data.clerkOrgId, parentOrgId: null, caps: {} };
+  }
+
+  // Step 3: Find parent and keep pools one level deep
+  if (data.parentClerkOrgId === data.clerkOrgId) {
+    throw new OrgValidationError("An organization cannot pool with itself", {
+      orgId: data.clerkOrgId,
+    });
+  }
+
+  const parent = await findOrganizationByClerkOrgId(data.parentClerkOrgId);
+
+  if (!parent) {
+    throw new OrgNotFoundError(
+      `Parent organization not found: ${data.parentClerkOrgId}`
+    );
+  }
+
+  if (isPoolMember(parent)) {
+    throw new OrgValidationError(
+      `Parent organization ${data.parentClerkOrgId} is itself a pool member`,
+      { parentOrgId: data.parentClerkOrgId }
+    );
+  }
+
+  const children = await findChildOrganizations(organization.id);
+
+  if (children.length > 0) {
+    throw new OrgValidationError(
+      `Organization ${data.clerkOrgId} has pool members of its own`,
+      { orgId: data.clerkOrgId, members: children.length }
+    );
+  }
+
+  // Step 4: Billing lives on the parent only
+  const subscription = await findActiveSubscriptionByOrganizationId(
+    organization.id
+  );
+
+  if (subscription) {
+    throw new OrgValidationError(
+      `Organization ${data.clerkOrgId} has an active subscription; cancel it before joining a pool`,
+      { orgId: data.clerkOrgId, subscriptionId: subscription.id }
+    );
+  }
+
+  // Step 5: Set parent and caps
+  const caps = data.caps ?? {};
+
+  await updateOrganizationPool(organization.id, {
+    parentOrganizationId: parent.id,
+    poolCaps: caps,
+  });
+
+  logger.info("Organization joined pool", {
+    clerkOrgId: data.clerkOrgId,
+    parentClerkOrgId: data.parentClerkOrgId,
+    caps,
+  });
+
+  return { orgId: data.clerkOrgId, parentOrgId: data.parentClerkOrgId, caps };
+}
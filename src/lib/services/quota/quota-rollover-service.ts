@@ -0,0 +1,195 @@
+/**
+ * Quota Rollover Service
+ *
+ * Business logic layer for carrying unused quota into the next period.
+ * Each plan's rollover policy (PLANS_CONFIG[plan].rollover) decides how much
+ * of a period's unused included quota carries over: none, all of it, or up
+ * to a cap in units or as a percentage of the next period's included quota.
+ * Carried units are stored on the next period's counter as rolledOver,
+ * separate from included, and are used before the period's own quota. Each
+ * lot of carried units expires expiresAfterPeriods periods after the period
+ * it was included in.
+ *
+ * Rollover is computed once, when the next period's counter is created,
+ * from the usage recorded against the previous counter at that point.
+ *
+ * @module lib/services/quota/quota-rollover-service
+ */
+
+import { PLANS_CONFIG, PlanCode, RolloverPolicy } from "../../stripe";
+import {
+  findPreviousUsageCounter,
+  RolloverLot,
+  UsageCounterRecord,
+} from "../../db/repositories/usage-repository";
+import {
+  isUsageCacheEnabled,
+  getCachedUsageCounter,
+} from "../../db/repositories/usage-cache-repository";
+import { logger } from "../../utils/logger";
+
+export interface QuotaRollover {
+  units: number;
+  lots: RolloverLot[]; // oldest first
+}
+
+/**
+ * Resolves the most units a policy lets carry over
+ *
+ * @param policy - Rollover policy
+ * @param included - Next period's included quota
+ * @returns Cap in units (Infinity for full rollover)
+ */
+function getRolloverCap(policy: RolloverPolicy, included: number): number {
+  switch (policy.mode) {
+    case "full":
+      return Infinity;
+    case "units":
+      return policy.limit ?? 0;
+    case "percent":
+      return Math.floor((included * (policy.limit ?? 0)) / 100);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Computes the quota a period carries over from the previous period
+ *
+ * Units rolled into the previous period count as used first, oldest lot
+ * first; what is left of them carries on until it expires. The previous
+ * period's own unused quota (included less credits drawn and usage beyond
+ * its rolled-over units) becomes a new lot. A capped policy cuts the oldest
+ * lots first.
+ *
+ * @param policy - Rollover policy of the plan the next period is on
+ * @param previous - Usage counter of the previous period
+ * @param included - Next period's included quota (for percent caps)
+ * @returns Units carried over and the lots they come from
+ */
+export function computeQuotaRollover(
+  policy: RolloverPolicy,
+  previous: UsageCounterRecord,
+  included: number
+): QuotaRollover {
+  if (policy.mode === "none") {
+    return { units: 0, lots: [] };
+  }
+
+  const rolledOver = previous.rolledOver ?? 0;
+  let consumed = Math.min(previous.used, rolledOver);
+  const lots: RolloverLot[] = [];
+
+  for (const lot of previous.rolloverLots ?? []) {
+    const used = Math.min(lot.units, consumed);
+    consumed -= used;
+
+    if (lot.units > used && lot.periodsLeft > 0) {
+      lots.push({
+        periodKey: lot.periodKey,
+        units: lot.units - used,
+        periodsLeft: lot.periodsLeft - 1,
+      });
+    }
+  }
+
+  const unused = Math.max(
+    previous.included -
+      (previous.credited ?? 0) -
+      Math.max(previous.used - rolledOver, 0),
+    0
+  );
+  const expiresAfterPeriods = policy.expiresAfterPeriods ?? 1;
+
+  if (unused > 0 && expiresAfterPeriods > 0) {
+    lots.push({
+      periodKey: previous.periodKey,
+      units: unused,
+      periodsLeft: expiresAfterPeriods - 1,
+    });
+  }
+
+  let excess =
+    lots.reduce((sum, lot) => sum + lot.units, 0) -
+    getRolloverCap(policy, included);
+
+  for (const lot of lots) {
+    if (excess <= 0) {
+      break;
+    }
+    const cut = Math.min(lot.units, excess);
+    lot.units -= cut;
+    excess -= cut;
+  }
+
+  const kept = lots.filter((lot) => lot.units > 0);
+
+  return {
+    units: kept.reduce((sum, lot) => sum + lot.units, 0),
+    lots: kept,
+  };
+}
+
+/**
+ * Resolves the quota a new period's counter carries over
+ *
+ * Finds the metric's counter for the period just before periodStart (with
+ * its live usage from the usage cache when enabled, so unflushed usage
+ * counts) and applies the plan's rollover policy to it. Unknown plan codes
+ * roll nothing over.
+ *
+ * @param data - Organization, plan, metric, new period start and the new
+ *   period's included quota
+ * @returns Rollover for the new counter (none without a previous period)
+ */
+export async function resolveQuotaRollover(data: {
+  clerkOrgId: string;
+  planCode: string;
+  metric: string;
+  periodStart: Date;
+  included: number;
+}): Promise<QuotaRollover> {
+  const policy: RolloverPolicy =
+    data.planCode in PLANS_CONFIG
+      ? PLANS_CONFIG[data.planCode as PlanCode].rollover
+      : { mode: "none" };
+
+  if (policy.mode === "none") {
+    return { units: 0, lots: [] };
+  }
+
+  let previous = await findPreviousUsageCounter(
+    data.clerkOrgId,
+    data.metric,
+    data.periodStart
+  );
+
+  if (!previous) {
+    return { units: 0, lots: [] };
+  }
+
+  if (isUsageCacheEnabled()) {
+    const cached = await getCachedUsageCounter(
+      data.clerkOrgId,
+      previous.periodKey,
+      data.metric
+    );
+    if (cached) {
+      previous = { ...previous, used: cached.used };
+    }
+  }
+
+  const rollover = computeQuotaRollover(policy, previous, data.included);
+
+  if (rollover.units > 0) {
+    logger.info("Unused quota rolled over", {
+      clerkOrgId: data.clerkOrgId,
+      metric: data.metric,
+      fromPeriodKey: previous.periodKey,
+      units: rollover.units,
+      lots: rollover.lots.length,
+    });
+  }
+
+  return rollover;
+}
@@ -1,58 +1,219 @@
 /**
  * Quota Service
- * 
+ *
  * Business logic layer for quota operations.
  * Handles real-time quota checks for usage enforcement.
- * 
+ * With REDIS_URL set, the subscription context and live counter are read
+ * from the usage cache, so a warm check makes no database round trips.
+ * Unused quota rolled over from earlier periods counts towards the limit,
+ * and prepaid credits extend it once it is used up.
+ * A pool member is checked against its parent's pool, and against its own
+ * cap within the pool if it has one. A signed-in user with a member cap on
+ * the metric is checked against their own share as well. A metric under an
+ * anomaly hard cap is enforced as on a hard plan until the cap ends.
+ *
  * @module lib/services/quota/quota-service
  */
 
 import { findOrganizationByClerkOrgId } from "../../db/repositories/org-repository";
 import { findActiveSubscriptionByOrganizationId } from "../../db/repositories/subscription-repository";
-import { findUsageCounter, formatPeriodKey } from "../../db/repositories/usage-repository";
+import {
+  findUsageCounter,
+  formatPeriodKey,
+  getCounterQuota,
+  UsageCounterRecord,
+} from "../../db/repositories/usage-repository";
+import {
+  isUsageCacheEnabled,
+  getCachedUsageContext,
+  setCachedUsageContext,
+  getCachedUsageCounter,
+  primeCachedUsageCounter,
+  UsageContext,
+} from "../../db/repositories/usage-cache-repository";
+import { getAvailableCredits } from "../credits/credit-service";
+import { resolvePoolOwner, getPoolMemberCap } from "../orgs/org-pool-service";
+import { findPoolMemberUsage } from "../../db/repositories/pool-repository";
+import { loadMemberCaps, getMemberCap } from "../orgs/member-cap-service";
+import { findMemberUsage } from "../../db/repositories/member-repository";
+import {
+  loadAnomalyCaps,
+  isAnomalyCapped,
+} from "../usage/usage-anomaly-service";
+import { config } from "../../config";
 import {
   QuotaOrgNotFoundError,
   QuotaNoActiveSubscriptionError,
   QuotaCounterNotFoundError,
 } from "../../errors/quota-errors";
+import { PLANS_CONFIG, PlanCode, Metric, EnforcementMode } from "../../stripe";
 import { logger } from "../../utils/logger";
 
+export type QuotaStatus = "within_quota" | "in_overage" | "blocked";
+
+export interface QuotaAllowance {
+  mode: EnforcementMode;
+  overageAllowance: number | null; // units allowed beyond included; null = unlimited
+}
+
+export interface UpgradeHint {
+  planCode: PlanCode;
+  limit: number; // included quota for the metric on that plan
+}
+
+export interface PoolQuota {
+  parentOrgId: string; // Clerk org ID of the pool's parent
+  cap: number | null; // member's cap for the metric; null = uncapped
+  used: number; // member's own usage of the pool this period
+  remaining: number | null; // left under the cap; null = uncapped
+}
+
+export interface MemberQuota {
+  userId: string; // Clerk user ID of the caller
+  cap: number; // user's cap for the metric
+  used: number; // user's own usage this period
+  remaining: number; // left under the cap
+}
+
 export interface CheckQuotaResult {
   allow: boolean;
+  limit: number;
+  used: number;
   remaining: number;
+  resetAt: string; // end of the current period (ISO 8601)
+  status: QuotaStatus;
+  mode: EnforcementMode;
+  overageAllowance: number | null;
+  overageRemaining: number | null;
+  rolledOver: number; // unused quota carried over from earlier periods
+  credits: number | null; // prepaid credits left; null while within the quota (not looked up)
+  upgrade: UpgradeHint | null;
+  pool: PoolQuota | null; // set for pool members
+  member: MemberQuota | null; // set for users with a cap on the metric
 }
 
 /**
- * Checks if quota is available for an organization
- * 
- * Flow:
- * 1. Find organization by clerkOrgId
- * 2. Find active subscription (status: active or trialing)
- * 3. Derive periodKey from subscription.currentPeriodStart
- * 4. Find usage counter for current period and metric
- * 5. Calculate remaining = included - used
- * 6. Return allow=true if remaining > 0, allow=false if remaining <= 0
- * 
+ * Resolves the overage allowance for a plan's enforcement policy
+ *
+ * - hard: no usage beyond included
+ * - soft: burstPercent% of included (rounded down)
+ * - unlimited: no limit (null)
+ *
+ * Unknown plan codes fall back to a hard cap, as does a metric under an
+ * anomaly hard cap (see usage-anomaly-service).
+ *
+ * @param planCode - Plan code from the subscription
+ * @param included - Included quota for the metric
+ * @param anomalyCapped - Whether the metric is under an anomaly hard cap
+ * @returns Enforcement mode and overage allowance
+ */
+export function getQuotaAllowance(
+  planCode: string,
+  included: number,
+  anomalyCapped = false
+): QuotaAllowance {
+  const policy =
+    !anomalyCapped && planCode in PLANS_CONFIG
+      ? PLANS_CONFIG[planCode as PlanCode].enforcement
+      : { mode: "hard" as const };
+
+  switch (policy.mode) {
+    case "soft":
+      return {
+        mode: "soft",
+        overageAllowance: Math.floor(
+          (included * (policy.burstPercent ?? 0)) / 100
+        ),
+      };
+    case "unlimited":
+      return { mode: "unlimited", overageAllowance: null };
+    default:
+      return { mode: "hard", overageAllowance: 0 };
+  }
+}
+
+/**
+ * Suggests the plan to upgrade to for more of a metric
+ *
+ * The next paid plan (in PLANS_CONFIG order) whose included quota for the
+ * metric is larger than the current plan's. Unknown plan codes are treated
+ * as having no quota.
+ *
+ * @param planCode - Plan code from the subscription
+ * @param metric - Metric name
+ * @returns Plan and its included quota, or null if no plan offers more
+ */
+export function getUpgradeHint(
+  planCode: string,
+  metric: string
+): UpgradeHint | null {
+  const planCodes = Object.keys(PLANS_CONFIG) as PlanCode[];
+  const current = planCodes.indexOf(planCode as PlanCode);
+  const included =
+    current === -1
+      ? 0
+      : (PLANS_CONFIG[planCodes[current]].quotas[metric as Metric] ?? 0);
+
+  const next = planCodes
+    .slice(current + 1)
+    .find(
+      (code) =>
+        PLANS_CONFIG[code].trialDays === 0 &&
+        (PLANS_CONFIG[code].quotas[metric as Metric] ?? 0) > included
+    );
+
+  return next
+    ? { planCode: next, limit: PLANS_CONFIG[next].quotas[metric as Metric] }
+    : null;
+}
+
+/**
+ * Determines quota status for a usage level
+ *
+ * @param included - Included quota
+ * @param used - Current usage
+ * @param overageAllowance - Units allowed beyond included (null = unlimited)
+ * @returns within_quota, in_overage or blocked
+ */
+export function evaluateQuotaStatus(
+  included: number,
+  used: number,
+  overageAllowance: number | null
+): QuotaStatus {
+  if (used < included) {
+    return "within_quota";
+  }
+  if (overageAllowance === null || used < included + overageAllowance) {
+    return "in_overage";
+  }
+  return "blocked";
+}
+
+/**
+ * Resolves the organization's subscription context
+ *
+ * Served from the usage cache when enabled; otherwise (or on a cache miss)
+ * read from the organization and its active subscription (its parent's,
+ * for a pool member).
+ *
  * @param clerkOrgId - Clerk organization ID
- * @param metric - Metric name (e.g., 'api_call')
- * @returns Quota check result with allow flag and remaining quota
+ * @returns Organization and subscription IDs, plan code, current period and
+ *   the pool the organization consumes from, if any
  * @throws QuotaOrgNotFoundError if organization not found
  * @throws QuotaNoActiveSubscriptionError if no active subscription
- * @throws QuotaCounterNotFoundError if usage counter not found
  */
-export async function checkQuota(
-  clerkOrgId: string,
-  metric: string = "api_call"
-): Promise<CheckQuotaResult> {
-  logger.info("Checking quota for organization", { clerkOrgId, metric });
+async function resolveQuotaContext(clerkOrgId: string): Promise<UsageContext> {
+  if (isUsageCacheEnabled()) {
+    const cached = await getCachedUsageContext(clerkOrgId);
+    if (cached) {
+      return cached;
+    }
+  }
 
-  // Step 1: Find organization
   const organization = await findOrganizationByClerkOrgId(clerkOrgId);
-  
+
   if (!organization) {
-    throw new QuotaOrgNotFoundError(
-      `Organization not found: ${clerkOrgId}`
-    );
+    throw new QuotaOrgNotFoundError(`Organization not found: ${clerkOrgId}`);
   }
 
   logger.info("Organization found", {
@@ -60,10 +221,9 @@ export async function checkQuota(
     orgId: organization.id,
   });
 
-  // Step 2: Find active subscription
-  const subscription = await findActiveSubscriptionByOrganizationId(
-    organization.id
-  );
+  const { owner, pool } = await resolvePoolOwner(organization);
+
+  const subscription = await findActiveSubscriptionByOrganizationId(owner.id);
 
   if (!subscription) {
     throw new QuotaNoActiveSubscriptionError(
@@ -79,18 +239,116 @@ export async function checkQuota(
     currentPeriodStart: subscription.currentPeriodStart,
   });
 
+  const context: UsageContext = {
+    organizationId: organization.id,
+    subscriptionId: subscription.id,
+    planCode: subscription.planCode,
+    currentPeriodStart: subscription.currentPeriodStart,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+    pool,
+    memberCaps: await loadMemberCaps(clerkOrgId),
+    anomalyCaps: await loadAnomalyCaps(clerkOrgId),
+  };
+
+  if (isUsageCacheEnabled()) {
+    await setCachedUsageContext(
+      clerkOrgId,
+      context,
+      config.redis.contextTtlSeconds
+    );
+  }
+
+  return context;
+}
+
+/**
+ * Finds the live usage counter for a period
+ *
+ * With the usage cache enabled, the cached counter (including usage not yet
+ * flushed to Postgres) is returned, and a counter read from Postgres is
+ * loaded into the cache.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param periodKey - Period key (YYYY-MM-DD)
+ * @param metric - Metric name
+ * @returns Usage counter, or null if none exists for the period
+ */
+async function findLiveUsageCounter(
+  clerkOrgId: string,
+  periodKey: string,
+  metric: string
+): Promise<UsageCounterRecord | null> {
+  if (!isUsageCacheEnabled()) {
+    return findUsageCounter(clerkOrgId, periodKey, metric);
+  }
+
+  const cached = await getCachedUsageCounter(clerkOrgId, periodKey, metric);
+  if (cached) {
+    return cached;
+  }
+
+  const counter = await findUsageCounter(clerkOrgId, periodKey, metric);
+  return counter ? primeCachedUsageCounter(counter) : null;
+}
+
+/**
+ * Checks if quota is available for an organization
+ *
+ * Flow:
+ * 1. Find organization by clerkOrgId
+ * 2. Find active subscription (status: active or trialing)
+ * 3. Derive periodKey from subscription.currentPeriodStart
+ * 4. Find usage counter for current period and metric
+ * 5. Add units rolled over from earlier periods to included, and once that
+ *    quota is used up, the organization's prepaid credits
+ * 6. Resolve the plan's enforcement policy (hard, soft, unlimited), or
+ *    hard while the metric is under an anomaly hard cap
+ * 7. For a pool member with a cap on the metric, block once its own usage
+ *    reaches the cap and limit remaining to what is left under it
+ * 8. Likewise for a user with a member cap on the metric
+ * 9. Return status: within_quota or in_overage (allow=true), blocked (allow=false),
+ *    with the period's limit, usage, reset time and an upgrade hint
+ *
+ * For a pool member, steps 2-6 apply to its parent's subscription and
+ * counters. Steps 1, 2 and 4 are served from the usage cache when it is
+ * enabled.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric name (e.g., 'api_call')
+ * @param userId - Clerk user ID of the caller (optional; for member caps)
+ * @returns Quota check result with allow flag, limit/used/remaining, resetAt,
+ *   overage status, credits and upgrade hint
+ * @throws QuotaOrgNotFoundError if organization not found
+ * @throws QuotaNoActiveSubscriptionError if no active subscription
+ * @throws QuotaCounterNotFoundError if usage counter not found
+ */
+export async function checkQuota(
+  clerkOrgId: string,
+  metric: string = "api_call",
+  userId?: string
+): Promise<CheckQuotaResult> {
+  logger.info("Checking quota for organization", {
+    clerkOrgId,
+    metric,
+    userId,
+  });
+
+  // Steps 1-2: Resolve organization and active subscription
+  const context = await resolveQuotaContext(clerkOrgId);
+
   // Step 3: Derive periodKey from subscription.currentPeriodStart
-  const periodKey = formatPeriodKey(subscription.currentPeriodStart);
+  const periodKey = formatPeriodKey(context.currentPeriodStart);
 
   logger.info("Period key derived", {
     clerkOrgId,
     periodKey,
-    periodStart: subscription.currentPeriodStart,
+    periodStart: context.currentPeriodStart,
   });
 
-  // Step 4: Find usage counter for current period
-  const usageCounter = await findUsageCounter(
-    clerkOrgId,
+  // Step 4: Find usage counter for current period (the pool's, for a member)
+  const counterOrgId = context.pool?.clerkOrgId ?? clerkOrgId;
+  const usageCounter = await findLiveUsageCounter(
+    counterOrgId,
     periodKey,
     metric
   );
@@ -101,9 +359,84 @@ export async function checkQuota(
     );
   }
 
-  // Step 5: Calculate remaining quota
-  const remaining = usageCounter.included - usageCounter.used;
-  const allow = remaining > 0;
+  // Step 5: Credits are drawn into included only as usage needs them
+  const quota = getCounterQuota(usageCounter);
+  const credits =
+    usageCounter.used >= quota
+      ? await getAvailableCredits(counterOrgId, metric)
+      : null;
+  const included = quota + (credits ?? 0);
+
+  // Step 6: Apply the plan's enforcement policy (burst is a share of the
+  // plan's quota, not of rolled-over units or credits)
+  const { mode, overageAllowance } = getQuotaAllowance(
+    context.planCode,
+    usageCounter.included - (usageCounter.credited ?? 0),
+    isAnomalyCapped(context.anomalyCaps, metric)
+  );
+  let status = evaluateQuotaStatus(
+    included,
+    usageCounter.used,
+    overageAllowance
+  );
+  let remaining = Math.max(included - usageCounter.used, 0);
+
+  // Step 7: Apply a pool member's own cap
+  let pool: PoolQuota | null = null;
+
+  if (context.pool) {
+    const cap = getPoolMemberCap(context.pool, metric);
+    const memberUsage = await findPoolMemberUsage(clerkOrgId, periodKey);
+    const memberUsed =
+      memberUsage.find((usage) => usage.usageCounterId === usageCounter.id)
+        ?.used ?? 0;
+
+    pool = {
+      parentOrgId: context.pool.clerkOrgId,
+      cap,
+      used: memberUsed,
+      remaining: cap === null ? null : Math.max(cap - memberUsed, 0),
+    };
+
+    if (pool.remaining !== null) {
+      remaining = Math.min(remaining, pool.remaining);
+      if (pool.remaining === 0) {
+        status = "blocked";
+      }
+    }
+  }
+
+  // Step 8: Apply the user's member cap
+  let member: MemberQuota | null = null;
+  const memberCap = getMemberCap(context.memberCaps, userId, metric);
+
+  if (userId && memberCap !== null) {
+    const memberUsage = await findMemberUsage(clerkOrgId, periodKey, userId);
+    const memberUsed =
+      memberUsage.find((usage) => usage.usageCounterId === usageCounter.id)
+        ?.used ?? 0;
+
+    member = {
+      userId,
+      cap: memberCap,
+      used: memberUsed,
+      remaining: Math.max(memberCap - memberUsed, 0),
+    };
+
+    remaining = Math.min(remaining, member.remaining);
+    if (member.remaining === 0) {
+      status = "blocked";
+    }
+  }
+
+  const allow = status !== "blocked";
+  const overageRemaining =
+    overageAllowance === null
+      ? null
+      : Math.min(
+          overageAllowance,
+          Math.max(included + overageAllowance - usageCounter.used, 0)
+        );
 
   logger.info("Quota check completed", {
     clerkOrgId,
@@ -111,13 +444,30 @@ export async function checkQuota(
     periodKey,
     included: usageCounter.included,
     used: usageCounter.used,
+    rolledOver: usageCounter.rolledOver ?? 0,
+    credits,
     remaining,
+    mode,
+    status,
     allow,
+    pool,
+    member,
   });
 
   return {
     allow,
-    remaining: allow ? remaining : 0, // Return 0 if denied
+    limit: included,
+    used: usageCounter.used,
+    remaining,
+    resetAt: usageCounter.periodEnd.toISOString(),
+    status,
+    mode,
+    overageAllowance,
+    overageRemaining,
+    rolledOver: usageCounter.rolledOver ?? 0,
+    credits,
+    upgrade: getUpgradeHint(context.planCode, metric),
+    pool,
+    member,
   };
 }
-
@@ -0,0 +1,335 @@
+/**
+ * Rate Limit Service
+ *
+ * Business logic layer for short-window rate limiting.
+ * Monthly quotas cap total usage; rate limits cap how fast it arrives.
+ * Each organization gets a per-second and a per-minute token bucket sized
+ * from its plan's rateLimit policy in PLANS_CONFIG.
+ *
+ * With REDIS_URL set, buckets are kept in Redis and shared by every server
+ * instance. Otherwise they are held in process memory, so each instance
+ * enforces the limits independently; idle buckets are pruned.
+ *
+ * @module lib/services/quota/rate-limit-service
+ */
+
+import { findOrganizationByClerkOrgId } from "../../db/repositories/org-repository";
+import { findActiveSubscriptionByOrganizationId } from "../../db/repositories/subscription-repository";
+import {
+  isRateLimitStoreShared,
+  takeRateLimitTokens,
+} from "../../db/repositories/rate-limit-repository";
+import { resolvePoolOwner } from "../orgs/org-pool-service";
+import {
+  QuotaOrgNotFoundError,
+  QuotaNoActiveSubscriptionError,
+  RateLimitExceededError,
+} from "../../errors/quota-errors";
+import { PLANS_CONFIG, PlanCode, RateLimitPolicy } from "../../stripe";
+import { logger } from "../../utils/logger";
+
+export type RateLimitWindow = "second" | "minute";
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // epoch milliseconds of the last refill
+}
+
+export interface RateLimitResult {
+  allow: boolean;
+  window: RateLimitWindow;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+const WINDOWS: {
+  window: RateLimitWindow;
+  seconds: number;
+  policyKey: keyof RateLimitPolicy;
+}[] = [
+  { window: "second", seconds: 1, policyKey: "requestsPerSecond" },
+  { window: "minute", seconds: 60, policyKey: "requestsPerMinute" },
+];
+
+interface BucketState {
+  window: RateLimitWindow;
+  seconds: number;
+  limit: number;
+  bucket: TokenBucket;
+}
+
+// A bucket untouched for the longest window has refilled completely, the
+// same as a missing one, so it can be dropped
+const IDLE_BUCKET_MS =
+  Math.max(...WINDOWS.map((window) => window.seconds)) * 1000;
+
+const buckets = new Map<string, TokenBucket>();
+let lastPrunedAt = 0;
+
+/**
+ * Resolves the rate limit policy for a plan
+ *
+ * Unknown plan codes fall back to the trial limits.
+ *
+ * @param planCode - Plan code from the subscription
+ * @returns Requests allowed per second and per minute
+ */
+export function getRateLimitPolicy(planCode: string): RateLimitPolicy {
+  return planCode in PLANS_CONFIG
+    ? PLANS_CONFIG[planCode as PlanCode].rateLimit
+    : PLANS_CONFIG.trial.rateLimit;
+}
+
+/**
+ * Refills a token bucket for the time elapsed since its last refill
+ *
+ * Tokens accrue continuously at limit / windowSeconds per second and are
+ * capped at limit. A missing bucket starts full.
+ *
+ * @param bucket - Current bucket state (undefined if never used)
+ * @param limit - Bucket capacity (requests per window)
+ * @param windowSeconds - Window length in seconds
+ * @param now - Current time in epoch milliseconds
+ * @returns Refilled bucket
+ */
+export function refillTokenBucket(
+  bucket: TokenBucket | undefined,
+  limit: number,
+  windowSeconds: number,
+  now: number
+): TokenBucket {
+  if (!bucket) {
+    return { tokens: limit, updatedAt: now };
+  }
+
+  const elapsedSeconds = Math.max(now - bucket.updatedAt, 0) / 1000;
+
+  return {
+    tokens: Math.min(
+      limit,
+      bucket.tokens + (elapsedSeconds * limit) / windowSeconds
+    ),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Drops in-memory buckets idle long enough to have refilled completely
+ *
+ * @param now - Current time in epoch milliseconds
+ * @returns Number of buckets dropped
+ */
+export function pruneIdleRateLimitBuckets(now: number): number {
+  let pruned = 0;
+
+  for (const [key, bucket] of buckets) {
+    if (now - bucket.updatedAt >= IDLE_BUCKET_MS) {
+      buckets.delete(key);
+      pruned++;
+    }
+  }
+
+  lastPrunedAt = now;
+  return pruned;
+}
+
+/**
+ * Builds the result for the most constrained window
+ *
+ * On denial, retryAfterSeconds is the wait until every window has a
+ * token again.
+ *
+ * @param states - Each window's bucket after the request
+ * @param allow - Whether the request took a token
+ * @returns Result for the most constrained window
+ */
+function toRateLimitResult(
+  states: BucketState[],
+  allow: boolean
+): RateLimitResult {
+  if (!allow) {
+    // Report the window that takes longest to refill one token
+    const waits = states
+      .filter((state) => state.bucket.tokens < 1)
+      .map((state) => ({
+        state,
+        seconds: Math.max(
+          Math.ceil(((1 - state.bucket.tokens) * state.seconds) / state.limit),
+          1
+        ),
+      }));
+    const longest = waits.reduce((a, b) => (b.seconds > a.seconds ? b : a));
+
+    return {
+      allow: false,
+      window: longest.state.window,
+      limit: longest.state.limit,
+      remaining: 0,
+      retryAfterSeconds: longest.seconds,
+    };
+  }
+
+  const tightest = states.reduce((a, b) =>
+    b.bucket.tokens < a.bucket.tokens ? b : a
+  );
+
+  return {
+    allow: true,
+    window: tightest.window,
+    limit: tightest.limit,
+    remaining: Math.floor(tightest.bucket.tokens),
+    retryAfterSeconds: 0,
+  };
+}
+
+/**
+ * Takes one request from every in-memory bucket for a key
+ *
+ * The request is allowed only if every window has a whole token left;
+ * a denied request takes nothing, so the minute bucket is not drained by
+ * requests the second bucket already refused.
+ *
+ * @param key - Bucket key (the organization ID)
+ * @param policy - Plan rate limit policy
+ * @param now - Current time in epoch milliseconds (defaults to Date.now())
+ * @returns Result for the most constrained window
+ */
+export function takeRateLimitToken(
+  key: string,
+  policy: RateLimitPolicy,
+  now: number = Date.now()
+): RateLimitResult {
+  if (now - lastPrunedAt >= IDLE_BUCKET_MS) {
+    pruneIdleRateLimitBuckets(now);
+  }
+
+  const states: BucketState[] = WINDOWS.map(
+    ({ window, seconds, policyKey }) => {
+      const limit = policy[policyKey];
+      return {
+        window,
+        seconds,
+        limit,
+        bucket: refillTokenBucket(
+          buckets.get(`${key}:${window}`),
+          limit,
+          seconds,
+          now
+        ),
+      };
+    }
+  );
+
+  const allow = states.every((state) => state.bucket.tokens >= 1);
+
+  for (const state of states) {
+    if (allow) {
+      state.bucket.tokens -= 1;
+    }
+    buckets.set(`${key}:${state.window}`, state.bucket);
+  }
+
+  return toRateLimitResult(states, allow);
+}
+
+/**
+ * Takes one request from every bucket for a key in the shared Redis store
+ *
+ * Same rules as takeRateLimitToken, applied atomically in Redis.
+ *
+ * @param key - Bucket key (the organization ID)
+ * @param policy - Plan rate limit policy
+ * @param now - Current time in epoch milliseconds (defaults to Date.now())
+ * @returns Result for the most constrained window
+ */
+export async function takeSharedRateLimitToken(
+  key: string,
+  policy: RateLimitPolicy,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const windows = WINDOWS.map(({ window, seconds, policyKey }) => ({
+    window,
+    seconds,
+    limit: policy[policyKey],
+  }));
+
+  const { allow, tokens } = await takeRateLimitTokens(key, windows, now);
+
+  return toRateLimitResult(
+    windows.map((window, i) => ({
+      ...window,
+      bucket: { tokens: tokens[i], updatedAt: now },
+    })),
+    allow
+  );
+}
+
+/**
+ * Checks and counts a request against an organization's rate limits
+ *
+ * Flow:
+ * 1. Find organization by clerkOrgId
+ * 2. Find active subscription (status: active or trialing); a pool member
+ *    uses its parent's subscription
+ * 3. Resolve the plan's rate limit policy
+ * 4. Take a token from the per-second and per-minute buckets, in Redis
+ *    when REDIS_URL is set
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @returns Result for the most constrained window (allow is always true)
+ * @throws QuotaOrgNotFoundError if organization not found
+ * @throws QuotaNoActiveSubscriptionError if no active subscription
+ * @throws RateLimitExceededError if a window has no requests left
+ */
+export async function checkRateLimit(
+  clerkOrgId: string
+): Promise<RateLimitResult> {
+  // Step 1: Find organization
+  const organization = await findOrganizationByClerkOrgId(clerkOrgId);
+
+  if (!organization) {
+    throw new QuotaOrgNotFoundError(`Organization not found: ${clerkOrgId}`);
+  }
+
+  // Step 2: Find active subscription (the pool parent's for a pool member)
+  const { owner } = await resolvePoolOwner(organization);
+  const subscription = await findActiveSubscriptionByOrganizationId(owner.id);
+
+  if (!subscription) {
+    throw new QuotaNoActiveSubscriptionError(
+      `No active subscription found for organization: ${clerkOrgId}`
+    );
+  }
+
+  // Step 3: Resolve policy
+  const policy = getRateLimitPolicy(subscription.planCode);
+
+  // Step 4: Take a token (from the shared buckets when Redis is configured)
+  const result = isRateLimitStoreShared()
+    ? await takeSharedRateLimitToken(clerkOrgId, policy)
+    : takeRateLimitToken(clerkOrgId, policy);
+
+  if (!result.allow) {
+    logger.warn("Rate limit exceeded", {
+      clerkOrgId,
+      planCode: subscription.planCode,
+      window: result.window,
+      limit: result.limit,
+      retryAfterSeconds: result.retryAfterSeconds,
+    });
+
+    throw new RateLimitExceededError(
+      `Rate limit exceeded: ${result.limit} requests per ${result.window}`,
+      result.retryAfterSeconds,
+      {
+        window: result.window,
+        limit: result.limit,
+        remaining: 0,
+        retryAfter: result.retryAfterSeconds,
+      }
+    );
+  }
+
+  return result;
+}
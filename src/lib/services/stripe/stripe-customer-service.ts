@@ -1,18 +1,22 @@
 /**
  * Stripe Customer Service
- * 
+ *
  * Business logic layer for Stripe customer operations.
  * Handles customer creation, lookup, and synchronization with local database.
- * 
+ *
  * @module lib/services/stripe/stripe-customer-service
  */
 
 import { stripe } from "../../stripe";
-import { findOrganizationById, updateOrganizationStripeCustomerId } from "../../db/repositories/org-repository";
+import {
+  findOrganizationById,
+  updateOrganizationStripeCustomerId,
+} from "../../db/repositories/org-repository";
 import {
   StripeCustomerCreationError,
   StripeApiError,
   StripeOrgNotFoundError,
+  StripeValidationError,
 } from "../../errors/stripe-errors";
 import { logger } from "../../utils/logger";
 import Stripe from "stripe";
@@ -23,11 +27,13 @@ export interface EnsureCustomerResult {
 
 /**
  * Searches for a Stripe customer by email
- * 
+ *
  * @param email - Email address to search for
  * @returns Stripe Customer ID if found, null otherwise
  */
-async function searchStripeCustomerByEmail(email: string): Promise<string | null> {
+async function searchStripeCustomerByEmail(
+  email: string
+): Promise<string | null> {
   try {
     const customers = await stripe.customers.list({
       email,
@@ -53,7 +59,7 @@ async function searchStripeCustomerByEmail(email: string): Promise<string | null
 
 /**
  * Creates a new Stripe customer
- * 
+ *
  * @param email - Customer email
  * @param orgId - Internal organization ID for metadata
  * @returns Created Stripe customer ID
@@ -86,16 +92,19 @@ async function createStripeCustomer(
 
 /**
  * Ensures a Stripe customer exists for the organization
- * 
+ *
  * Flow:
  * 1. Check local DB - if stripeCustomerId exists, return it (idempotency)
  * 2. Search Stripe - if missing locally, search by email to prevent duplicates
  * 3. Create in Stripe - if not found in Stripe, create new customer
  * 4. Update local DB - save stripeCustomerId to organization record
- * 
+ *
+ * Pool members are billed through their parent and get no customer.
+ *
  * @param orgId - Internal organization ID
  * @param email - Admin email address
  * @returns Stripe customer ID
+ * @throws StripeValidationError if the organization is a pool member
  */
 export async function ensureCustomer(
   orgId: string,
@@ -105,11 +114,17 @@ export async function ensureCustomer(
 
   // Step 1: Check local DB
   const organization = await findOrganizationById(orgId);
-  
+
   if (!organization) {
     throw new StripeOrgNotFoundError(`Organization not found: ${orgId}`);
   }
 
+  if (organization.parentOrganizationId) {
+    throw new StripeValidationError(
+      `Organization ${orgId} is a pool member; billing is managed on its parent organization.`
+    );
+  }
+
   // If stripeCustomerId already exists, return it (idempotency)
   if (organization.stripeCustomerId) {
     logger.info("Stripe customer already exists in local DB", {
@@ -163,4 +178,3 @@ export async function ensureCustomer(
     stripeCustomerId,
   };
 }
-
@@ -1,9 +1,9 @@
 /**
  * Stripe Subscription Service
- * 
+ *
  * Business logic layer for Stripe subscription operations.
  * Handles subscription creation, validation, and synchronization with local database.
- * 
+ *
  * @module lib/services/stripe/stripe-subscription-service
  */
 
@@ -26,7 +26,7 @@ export interface CreateSubscriptionResult {
 
 /**
  * Validates plan code against PLANS_CONFIG
- * 
+ *
  * @param planCode - Plan code to validate
  * @returns True if valid plan code
  */
@@ -36,7 +36,7 @@ export function isValidPlanCode(planCode: string): planCode is PlanCode {
 
 /**
  * Creates a subscription in Stripe
- * 
+ *
  * @param customerId - Stripe customer ID
  * @param planCode - Plan code
  * @param orgId - Internal organization ID for metadata
@@ -49,13 +49,20 @@ async function createStripeSubscription(
 ): Promise<Stripe.Subscription> {
   try {
     const planConfig = PLANS_CONFIG[planCode];
-    
+
+    // Metered overage prices ride along as extra items (no quantity);
+    // Stripe bills them from the meter events reported by the overage job
+    const overagePrices = Object.values(planConfig.overage ?? {});
+
     const subscriptionParams: Stripe.SubscriptionCreateParams = {
       customer: customerId,
       items: [
         {
           price: planConfig.stripePriceId,
         },
+        ...overagePrices.map((overage) => ({
+          price: overage.stripePriceId,
+        })),
       ],
       metadata: {
         orgId,
@@ -87,11 +94,13 @@ async function createStripeSubscription(
 
 /**
  * Maps Stripe subscription status to local status
- * 
+ *
  * @param stripeStatus - Stripe subscription status
  * @returns Local status string
  */
-function mapStripeStatusToLocalStatus(stripeStatus: Stripe.Subscription.Status): string {
+function mapStripeStatusToLocalStatus(
+  stripeStatus: Stripe.Subscription.Status
+): string {
   // Map Stripe statuses to our local statuses
   const statusMap: Record<string, string> = {
     active: "active",
@@ -108,13 +117,14 @@ function mapStripeStatusToLocalStatus(stripeStatus: Stripe.Subscription.Status):
 
 /**
  * Creates a trial subscription for an organization
- * 
+ *
  * Flow:
  * 1. Validate planCode against PLANS_CONFIG
- * 2. Ensure Organization has stripeCustomerId
+ * 2. Ensure Organization is not a pool member (billed through its parent)
+ *    and has stripeCustomerId
  * 3. Create subscription in Stripe
  * 4. Persist subscription to local DB
- * 
+ *
  * @param orgId - Internal organization ID
  * @param planCode - Plan code (trial, starter, growth, pro)
  * @returns Subscription details
@@ -134,11 +144,17 @@ export async function createSubscriptionForOrganization(
 
   // Step 2: Ensure Organization has stripeCustomerId
   const organization = await findOrganizationById(orgId);
-  
+
   if (!organization) {
     throw new StripeOrgNotFoundError(`Organization not found: ${orgId}`);
   }
 
+  if (organization.parentOrganizationId) {
+    throw new StripeValidationError(
+      `Organization ${orgId} is a pool member; billing is managed on its parent organization.`
+    );
+  }
+
   if (!organization.stripeCustomerId) {
     throw new StripeValidationError(
       `Organization ${orgId} does not have a Stripe customer ID. Please ensure customer first.`
@@ -209,4 +225,3 @@ export async function createSubscriptionForOrganization(
     trialEndsAt: trialEndsAt ? trialEndsAt.toISOString() : null,
   };
 }
-
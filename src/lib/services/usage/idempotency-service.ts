@@ -0,0 +1,32 @@
+/**
+ * Idempotency Service
+ *
+ * Business logic layer for usage idempotency key maintenance.
+ * Expired keys are ignored by lookups already; purging keeps the table
+ * bounded to roughly one idempotency window of traffic.
+ *
+ * @module lib/services/usage/idempotency-service
+ */
+
+import { deleteExpiredIdempotencyKeys } from "../../db/repositories/idempotency-repository";
+import { logger } from "../../utils/logger";
+
+export interface PurgeIdempotencyKeysResult {
+  deleted: number;
+}
+
+/**
+ * Deletes idempotency keys whose window has passed
+ *
+ * @param now - Reference time (defaults to current time)
+ * @returns Number of keys deleted
+ */
+export async function purgeExpiredIdempotencyKeys(
+  now: Date = new Date()
+): Promise<PurgeIdempotencyKeysResult> {
+  const deleted = await deleteExpiredIdempotencyKeys(now);
+
+  logger.info("Expired idempotency keys purged", { deleted });
+
+  return { deleted };
+}
@@ -0,0 +1,107 @@
+/**
+ * Period Key Service
+ *
+ * Business logic layer for migrating usage counters to billing-period keys.
+ * Counters used to be keyed by calendar month (YYYY-MM); they are now keyed
+ * by the date their billing period starts (YYYY-MM-DD, see formatPeriodKey).
+ * Counters for the current period are adopted on first lookup; this service
+ * moves the rest in bulk.
+ *
+ * @module lib/services/usage/period-key-service
+ */
+
+import {
+  findLegacyPeriodKeyUsageCounters,
+  migrateUsageCounterPeriodKey,
+  formatPeriodKey,
+} from "../../db/repositories/usage-repository";
+import { logger } from "../../utils/logger";
+
+export type PeriodKeyMigrationStatus = "pending" | "migrated" | "conflict";
+
+export interface PeriodKeyMigration {
+  usageCounterId: string;
+  clerkOrgId: string;
+  metric: string;
+  from: string;
+  to: string;
+  status: PeriodKeyMigrationStatus;
+}
+
+export interface MigratePeriodKeysResult {
+  dryRun: boolean;
+  scanned: number;
+  migrated: number;
+  conflicts: number;
+  counters: PeriodKeyMigration[];
+}
+
+/**
+ * Moves legacy usage counters to billing-period keys
+ *
+ * Flow:
+ * 1. Find up to `limit` counters still keyed YYYY-MM
+ * 2. Derive each new key from the counter's stored periodStart
+ * 3. Unless dryRun, move the counter and its threshold events, overage
+ *    reports, adjustments, and pool member and member usage to the new key
+ *
+ * A conflict means a counter already holds the new key (created for the
+ * same period before the legacy one was moved); both are left untouched
+ * for manual review. Repeat until scanned is 0 (or only conflicts remain).
+ *
+ * @param options - dryRun to only report planned moves; limit per run
+ * @returns Summary and per-counter outcome
+ */
+export async function migrateLegacyPeriodKeys(options: {
+  dryRun: boolean;
+  limit: number;
+}): Promise<MigratePeriodKeysResult> {
+  // Step 1: Find legacy counters
+  const counters = await findLegacyPeriodKeyUsageCounters(options.limit);
+
+  logger.info("Migrating legacy period keys", {
+    count: counters.length,
+    dryRun: options.dryRun,
+  });
+
+  const result: MigratePeriodKeysResult = {
+    dryRun: options.dryRun,
+    scanned: counters.length,
+    migrated: 0,
+    conflicts: 0,
+    counters: [],
+  };
+
+  for (const counter of counters) {
+    // Step 2: Derive the new key
+    const migration: PeriodKeyMigration = {
+      usageCounterId: counter.id,
+      clerkOrgId: counter.clerkOrgId,
+      metric: counter.metric,
+      from: counter.periodKey,
+      to: formatPeriodKey(counter.periodStart),
+      status: "pending",
+    };
+
+    // Step 3: Move the counter
+    if (!options.dryRun) {
+      if (await migrateUsageCounterPeriodKey(counter.id, migration.to)) {
+        migration.status = "migrated";
+        result.migrated += 1;
+      } else {
+        migration.status = "conflict";
+        result.conflicts += 1;
+        logger.warn("Period key already in use; legacy counter left as is", {
+          usageCounterId: counter.id,
+          clerkOrgId: counter.clerkOrgId,
+          from: migration.from,
+          to: migration.to,
+        });
+      }
+    }
+
+    result.counters.push(migration);
+  }
+
+  return result;
+}
@@ -0,0 +1,212 @@
+/**
+ * Period Rollover Service
+ *
+ * Business logic layer for moving subscriptions into their next usage period.
+ * When Stripe renews a subscription, the webhook processor advances its
+ * currentPeriodStart/End; rollover then creates the new period's counters
+ * from the plan (so quota checks work before the first usage is recorded),
+ * carrying over unused quota as the plan's rollover policy allows (see
+ * quota-rollover-service), and closes the previous period's counters at the
+ * new period start.
+ *
+ * @module lib/services/usage/period-rollover-service
+ */
+
+import { PLANS_CONFIG, PlanCode, Metric } from "../../stripe";
+import {
+  findActiveSubscriptions,
+  SubscriptionRecord,
+} from "../../db/repositories/subscription-repository";
+import {
+  formatPeriodKey,
+  findUsageCounter,
+  upsertUsageCounter,
+  findOpenUsageCountersBefore,
+  closeUsageCounters,
+} from "../../db/repositories/usage-repository";
+import { resolveQuotaRollover } from "../quota/quota-rollover-service";
+import { ApplicationError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+
+export interface RolloverSubscriptionResult {
+  periodKey: string;
+  created: number;
+  closed: number;
+}
+
+export interface RolloverUsagePeriodsResult {
+  dryRun: boolean;
+  periodKey: string | null;
+  checked: number;
+  updated: number;
+  created: number;
+  closed: number;
+  failed: number;
+}
+
+/**
+ * Rolls one subscription into its current period
+ *
+ * Flow:
+ * 1. Derive periodKey from subscription.currentPeriodStart
+ * 2. Create each plan metric's counter for the period if missing (used: 0),
+ *    with the previous period's unused quota rolled over
+ * 3. Close earlier counters still open past the period start
+ *
+ * Usage on existing counters is never touched, so repeating this is safe.
+ *
+ * @param subscription - Active subscription
+ * @param dryRun - Count the changes without writing them
+ * @returns Period key and number of counters created and closed
+ * @throws ApplicationError if the subscription's plan code is unknown
+ */
+export async function rolloverSubscriptionPeriod(
+  subscription: SubscriptionRecord,
+  dryRun: boolean
+): Promise<RolloverSubscriptionResult> {
+  // Step 1: Derive periodKey
+  const periodKey = formatPeriodKey(subscription.currentPeriodStart);
+  const planCode = subscription.planCode as PlanCode;
+
+  if (!(planCode in PLANS_CONFIG)) {
+    throw new ApplicationError(
+      `Invalid plan code in subscription: ${planCode}`,
+      "INVALID_PLAN_CODE",
+      500,
+      { subscriptionId: subscription.id, planCode }
+    );
+  }
+
+  // Step 2: Create missing counters
+  const quotas = Object.entries(PLANS_CONFIG[planCode].quotas) as [
+    Metric,
+    number,
+  ][];
+  let created = 0;
+
+  for (const [metric, included] of quotas) {
+    const existing = await findUsageCounter(
+      subscription.clerkOrgId,
+      periodKey,
+      metric
+    );
+
+    if (existing) {
+      continue;
+    }
+
+    if (!dryRun) {
+      const rollover = await resolveQuotaRollover({
+        clerkOrgId: subscription.clerkOrgId,
+        planCode,
+        metric,
+        periodStart: subscription.currentPeriodStart,
+        included,
+      });
+
+      await upsertUsageCounter({
+        organizationId: subscription.organizationId,
+        clerkOrgId: subscription.clerkOrgId,
+        subscriptionId: subscription.id,
+        periodKey,
+        periodStart: subscription.currentPeriodStart,
+        periodEnd: subscription.currentPeriodEnd,
+        metric,
+        included,
+        rollover,
+      });
+    }
+    created += 1;
+  }
+
+  // Step 3: Close the previous period
+  const previous = await findOpenUsageCountersBefore(
+    subscription.clerkOrgId,
+    periodKey,
+    subscription.currentPeriodStart
+  );
+
+  if (previous.length > 0 && !dryRun) {
+    await closeUsageCounters(
+      previous.map((counter) => counter.id),
+      subscription.currentPeriodStart
+    );
+  }
+
+  if (created > 0 || previous.length > 0) {
+    logger.info("Subscription rolled into new usage period", {
+      clerkOrgId: subscription.clerkOrgId,
+      subscriptionId: subscription.id,
+      periodKey,
+      created,
+      closed: previous.length,
+      dryRun,
+    });
+  }
+
+  return { periodKey, created, closed: previous.length };
+}
+
+/**
+ * Rolls every active subscription into its current period
+ *
+ * Called on a schedule by /api/jobs/usage.rollover, and on demand (with
+ * filters and dry run) by /api/admin/quotas.reset. A failure on one
+ * subscription is logged and counted; the rest still roll over.
+ *
+ * @param options - Optional periodKey/clerkOrgId filters and dry-run flag
+ * @returns Summary of the run (updated = subscriptions with changes)
+ */
+export async function rolloverUsagePeriods(options: {
+  periodKey?: string;
+  clerkOrgId?: string;
+  dryRun: boolean;
+}): Promise<RolloverUsagePeriodsResult> {
+  const subscriptions = (
+    await findActiveSubscriptions({ clerkOrgId: options.clerkOrgId })
+  ).filter(
+    (subscription) =>
+      !options.periodKey ||
+      formatPeriodKey(subscription.currentPeriodStart) === options.periodKey
+  );
+
+  logger.info("Rolling over usage periods", {
+    count: subscriptions.length,
+    periodKey: options.periodKey,
+    clerkOrgId: options.clerkOrgId,
+    dryRun: options.dryRun,
+  });
+
+  const result: RolloverUsagePeriodsResult = {
+    dryRun: options.dryRun,
+    periodKey: options.periodKey ?? null,
+    checked: subscriptions.length,
+    updated: 0,
+    created: 0,
+    closed: 0,
+    failed: 0,
+  };
+
+  for (const subscription of subscriptions) {
+    try {
+      const { created, closed } = await rolloverSubscriptionPeriod(
+        subscription,
+        options.dryRun
+      );
+      if (created > 0 || closed > 0) {
+        result.updated += 1;
+        result.created += created;
+        result.closed += closed;
+      }
+    } catch (error) {
+      result.failed += 1;
+      logger.error("Failed to roll over usage period", {
+        subscriptionId: subscription.id,
+        clerkOrgId: subscription.clerkOrgId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,265 @@
+/**
+ * Usage Adjustment Service
+ *
+ * Business logic layer for usage adjustments.
+ * Applies signed corrections (credits give units back, debits add units) to a
+ * usage counter with a reason, the acting user, and an optional reference to
+ * the usage record being corrected. Every adjustment is kept as an audit
+ * record separate from ordinary usage records.
+ *
+ * @module lib/services/usage/usage-adjustment-service
+ */
+
+import {
+  findUsageCounter,
+  findUsageCounterById,
+  findUsageRecordByRequestId,
+  getCounterQuota,
+  UsageCounterRecord,
+} from "../../db/repositories/usage-repository";
+import {
+  applyUsageAdjustment,
+  findUsageAdjustments,
+  UsageAdjustmentRecord,
+} from "../../db/repositories/usage-adjustment-repository";
+import {
+  isUsageCacheEnabled,
+  getCachedUsageCounter,
+  settleCachedUsageCounters,
+} from "../../db/repositories/usage-cache-repository";
+import { recordThresholdCrossings } from "./usage-threshold-service";
+import {
+  UsageAdjustmentBelowZeroError,
+  UsageCounterNotFoundError,
+  UsageRecordNotFoundError,
+} from "../../errors/usage-errors";
+import { ValidationError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+
+export type UsageAdjustmentType = "credit" | "debit";
+
+export interface UsageAdjustment {
+  id: string;
+  type: UsageAdjustmentType;
+  metric: string;
+  periodKey: string;
+  delta: number;
+  usedBefore: number;
+  usedAfter: number;
+  reason: string;
+  actorUserId: string;
+  request_id: string | null;
+  createdAt: string;
+}
+
+export interface CreateUsageAdjustmentResult {
+  adjustment: UsageAdjustment;
+  periodKey: string;
+  used: number;
+  remaining: number;
+}
+
+export interface ListUsageAdjustmentsResult {
+  adjustments: UsageAdjustment[];
+}
+
+/**
+ * Maps an adjustment record to its API shape
+ *
+ * @param record - Usage adjustment record
+ * @returns Adjustment as returned by the API
+ */
+export function toUsageAdjustment(
+  record: UsageAdjustmentRecord
+): UsageAdjustment {
+  return {
+    id: record.id,
+    type: record.delta < 0 ? "credit" : "debit",
+    metric: record.metric,
+    periodKey: record.periodKey,
+    delta: record.delta,
+    usedBefore: record.usedBefore,
+    usedAfter: record.usedAfter,
+    reason: record.reason,
+    actorUserId: record.actorUserId,
+    request_id: record.referenceRequestId,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Resolves the usage counter an adjustment applies to
+ *
+ * With a request_id the counter is the one the referenced usage was recorded
+ * against; metric and periodKey, when given, must agree with it.
+ *
+ * @throws UsageRecordNotFoundError if the referenced usage does not exist
+ * @throws UsageCounterNotFoundError if no counter matches
+ * @throws ValidationError if neither periodKey nor request_id is given, or
+ *   metric/periodKey contradict the referenced usage
+ */
+async function resolveAdjustedCounter(
+  clerkOrgId: string,
+  input: { metric: string; periodKey?: string; requestId?: string }
+): Promise<UsageCounterRecord> {
+  if (!input.requestId) {
+    if (!input.periodKey) {
+      throw new ValidationError("periodKey or request_id is required");
+    }
+
+    const counter = await findUsageCounter(
+      clerkOrgId,
+      input.periodKey,
+      input.metric
+    );
+    if (!counter) {
+      throw new UsageCounterNotFoundError(
+        `Usage counter not found for ${input.metric} in period ${input.periodKey}`
+      );
+    }
+    return counter;
+  }
+
+  const record = await findUsageRecordByRequestId(clerkOrgId, input.requestId);
+
+  if (!record) {
+    throw new UsageRecordNotFoundError(
+      `Usage record not found for request_id: ${input.requestId}`
+    );
+  }
+
+  const counter = await findUsageCounterById(record.usageCounterId);
+
+  if (!counter) {
+    throw new UsageCounterNotFoundError(
+      `Usage counter not found for request_id: ${input.requestId}`
+    );
+  }
+
+  if (
+    counter.metric !== input.metric ||
+    (input.periodKey && counter.periodKey !== input.periodKey)
+  ) {
+    throw new ValidationError(
+      "metric and periodKey must match the referenced usage",
+      {
+        request_id: input.requestId,
+        metric: counter.metric,
+        periodKey: counter.periodKey,
+      }
+    );
+  }
+
+  return counter;
+}
+
+/**
+ * Applies a credit or debit to an organization's usage counter
+ *
+ * Flow:
+ * 1. Resolve the counter (from periodKey + metric, or the referenced usage)
+ * 2. Atomically adjust `used` and record the adjustment (credits that would
+ *    take usage below zero are rejected)
+ * 3. With the usage cache enabled, apply the adjustment to the cached
+ *    counter so live usage reflects it
+ * 4. For debits, record any usage thresholds the adjustment crosses
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param actorUserId - Clerk user making the adjustment
+ * @param input - Metric, period or referenced request_id, type, amount and reason
+ * @returns The adjustment and the counter's new usage
+ * @throws UsageAdjustmentBelowZeroError if a credit exceeds current usage
+ */
+export async function createUsageAdjustment(
+  clerkOrgId: string,
+  actorUserId: string,
+  input: {
+    metric: string;
+    periodKey?: string;
+    type: UsageAdjustmentType;
+    amount: number;
+    reason: string;
+    requestId?: string;
+  }
+): Promise<CreateUsageAdjustmentResult> {
+  // Step 1: Resolve the counter
+  const counter = await resolveAdjustedCounter(clerkOrgId, input);
+  const delta = input.type === "credit" ? -input.amount : input.amount;
+
+  // Step 2: Adjust usage and record the audit entry
+  const result = await applyUsageAdjustment({
+    usageCounterId: counter.id,
+    clerkOrgId,
+    periodKey: counter.periodKey,
+    metric: counter.metric,
+    delta,
+    reason: input.reason,
+    actorUserId,
+    referenceRequestId: input.requestId ?? null,
+  });
+
+  if (!result) {
+    throw new UsageAdjustmentBelowZeroError(
+      "Credit exceeds current usage for this period",
+      { periodKey: counter.periodKey, used: counter.used, delta }
+    );
+  }
+
+  logger.info("Usage adjusted", {
+    clerkOrgId,
+    actorUserId,
+    periodKey: counter.periodKey,
+    metric: counter.metric,
+    delta,
+    usedAfter: result.adjustment.usedAfter,
+    request_id: input.requestId,
+  });
+
+  // Step 3: Apply the adjustment to the cached counter (live usage
+  // includes unflushed usage)
+  let liveCounter = result.counter;
+
+  if (isUsageCacheEnabled()) {
+    await settleCachedUsageCounters(0, [
+      { counter: result.counter, flushed: 0, delta },
+    ]);
+    liveCounter =
+      (await getCachedUsageCounter(
+        clerkOrgId,
+        result.counter.periodKey,
+        result.counter.metric
+      )) ?? result.counter;
+  }
+
+  // Step 4: Debits count towards usage alerts like recorded usage
+  if (delta > 0) {
+    await recordThresholdCrossings(liveCounter, delta);
+  }
+
+  return {
+    adjustment: toUsageAdjustment(result.adjustment),
+    periodKey: liveCounter.periodKey,
+    used: liveCounter.used,
+    remaining: getCounterQuota(liveCounter) - liveCounter.used,
+  };
+}
+
+/**
+ * Lists usage adjustments for an organization, newest first
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param filters - Optional period/metric filters and result limit
+ * @returns Usage adjustments
+ */
+export async function listUsageAdjustments(
+  clerkOrgId: string,
+  filters: { periodKey?: string; metric?: string; limit: number }
+): Promise<ListUsageAdjustmentsResult> {
+  logger.info("Listing usage adjustments", { clerkOrgId, ...filters });
+
+  const adjustments = await findUsageAdjustments(clerkOrgId, filters);
+
+  return {
+    adjustments: adjustments.map(toUsageAdjustment),
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Usage Anomaly Service
+ *
+ * Business logic layer for usage spike detection.
+ * Each hour, every organization's usage of each metric (from its usage
+ * records, via the hourly rollups) is compared with its own baseline: the
+ * average hourly usage over the trailing config.anomalies.baselineDays.
+ * Hours at config.anomalies.spikeRatio times the baseline and at least
+ * config.anomalies.minHourlyValue are flagged as anomalies.
+ *
+ * With config.anomalies.capHours set, a flagged metric is also put under a
+ * temporary hard cap: until the cap ends or an administrator resolves the
+ * anomaly, usage past the included quota (plus rollover and credits) is
+ * denied as on a hard-enforcement plan, whatever the plan's own policy.
+ *
+ * @module lib/services/usage/usage-anomaly-service
+ */
+
+import { config } from "../../config";
+import {
+  createUsageAnomaly,
+  findActiveUsageAnomalyCaps,
+  findUsageAnomalies,
+  findUsageAnomalyById,
+  resolveUsageAnomaly,
+  UsageAnomalyCaps,
+  UsageAnomalyRecord,
+  UsageAnomalyStatus,
+} from "../../db/repositories/usage-anomaly-repository";
+import {
+  findHourlyUsageWithBaseline,
+  toRollupBucket,
+  ROLLUP_BUCKET_MS,
+} from "../../db/repositories/usage-rollup-repository";
+import { UsageAnomalyNotFoundError } from "../../errors/usage-errors";
+import { logger } from "../../utils/logger";
+
+export interface UsageAnomaly {
+  id: string;
+  orgId: string;
+  metric: string;
+  hour: string; // start of the flagged UTC hour
+  observed: number;
+  baseline: number;
+  ratio: number | null; // observed / baseline; null without a baseline
+  status: UsageAnomalyStatus;
+  capUntil: string | null;
+  resolvedAt: string | null;
+  resolvedByUserId: string | null;
+  createdAt: string;
+}
+
+export interface DetectUsageAnomaliesResult {
+  hour: string;
+  checked: number; // organization-metric pairs above the minimum usage
+  flagged: number;
+  capped: number;
+  anomalies: UsageAnomaly[];
+}
+
+/**
+ * Maps an anomaly record to its API shape
+ *
+ * @param record - Anomaly record
+ * @returns Anomaly with ISO timestamps and its ratio to the baseline
+ */
+export function toUsageAnomaly(record: UsageAnomalyRecord): UsageAnomaly {
+  return {
+    id: record.id,
+    orgId: record.clerkOrgId,
+    metric: record.metric,
+    hour: record.hour.toISOString(),
+    observed: record.observed,
+    baseline: Math.round(record.baseline * 100) / 100,
+    ratio:
+      record.baseline > 0
+        ? Math.round((record.observed / record.baseline) * 10) / 10
+        : null,
+    status: record.status as UsageAnomalyStatus,
+    capUntil: record.capUntil?.toISOString() ?? null,
+    resolvedAt: record.resolvedAt?.toISOString() ?? null,
+    resolvedByUserId: record.resolvedByUserId,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Loads an organization's anomaly hard caps for its subscription context
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @returns End of the cap by metric, for metrics under a cap
+ */
+export async function loadAnomalyCaps(
+  clerkOrgId: string
+): Promise<UsageAnomalyCaps> {
+  const anomalies = await findActiveUsageAnomalyCaps(clerkOrgId, new Date());
+  const caps: UsageAnomalyCaps = {};
+
+  for (const anomaly of anomalies) {
+    const capUntil = anomaly.capUntil?.toISOString();
+    const current = caps[anomaly.metric];
+    if (capUntil && (!current || capUntil > current)) {
+      caps[anomaly.metric] = capUntil;
+    }
+  }
+
+  return caps;
+}
+
+/**
+ * Whether a metric is under an anomaly hard cap
+ *
+ * The cap's end is checked against the current time, since contexts are
+ * cached for a while.
+ *
+ * @param anomalyCaps - Organization's anomaly caps (from its context)
+ * @param metric - Metric name
+ * @returns true if usage of the metric is hard-capped
+ */
+export function isAnomalyCapped(
+  anomalyCaps: UsageAnomalyCaps | undefined,
+  metric: string
+): boolean {
+  const capUntil = anomalyCaps?.[metric];
+  return capUntil !== undefined && new Date(capUntil) > new Date();
+}
+
+/**
+ * Flags organizations whose usage in an hour spiked above their baseline
+ *
+ * Checks the last complete UTC hour unless an hour is given. Rerunning for
+ * an hour only flags organizations not flagged for it already.
+ *
+ * @param input - Optional hour to check (any time within it)
+ * @returns Hour checked, counts, and the anomalies created
+ */
+export async function detectUsageAnomalies(
+  input: { hour?: Date } = {}
+): Promise<DetectUsageAnomaliesResult> {
+  const hour = input.hour
+    ? toRollupBucket(input.hour, "hour")
+    : new Date(
+        toRollupBucket(new Date(), "hour").getTime() - ROLLUP_BUCKET_MS.hour
+      );
+  const baselineFrom = new Date(
+    hour.getTime() - config.anomalies.baselineDays * ROLLUP_BUCKET_MS.day
+  );
+  const minHourlyValue = config.anomalies.minHourlyValue;
+  const capUntil =
+    config.anomalies.capHours > 0
+      ? new Date(
+          hour.getTime() +
+            ROLLUP_BUCKET_MS.hour +
+            config.anomalies.capHours * ROLLUP_BUCKET_MS.hour
+        )
+      : null;
+
+  logger.info("Detecting usage anomalies", { hour, baselineFrom, capUntil });
+
+  const usage = await findHourlyUsageWithBaseline(
+    hour,
+    baselineFrom,
+    Math.min(...Object.values(minHourlyValue))
+  );
+  const spikes = usage.filter(
+    (row) =>
+      row.metric in minHourlyValue &&
+      row.observed >= minHourlyValue[row.metric] &&
+      row.observed >= row.baseline * config.anomalies.spikeRatio
+  );
+
+  const anomalies: UsageAnomaly[] = [];
+
+  for (const spike of spikes) {
+    const created = await createUsageAnomaly({ ...spike, hour, capUntil });
+
+    if (created) {
+      logger.warn("Usage anomaly flagged", {
+        clerkOrgId: spike.clerkOrgId,
+        metric: spike.metric,
+        hour,
+        observed: spike.observed,
+        baseline: spike.baseline,
+        capUntil,
+      });
+      anomalies.push(toUsageAnomaly(created));
+    }
+  }
+
+  const capped = capUntil ? anomalies.length : 0;
+
+  logger.info("Usage anomaly detection completed", {
+    hour,
+    checked: usage.length,
+    flagged: anomalies.length,
+    capped,
+  });
+
+  return {
+    hour: hour.toISOString(),
+    checked: usage.length,
+    flagged: anomalies.length,
+    capped,
+    anomalies,
+  };
+}
+
+/**
+ * Lists usage anomalies, newest hour first
+ *
+ * @param filters - Optional organization and status, and result limit
+ * @returns Anomalies
+ */
+export async function listUsageAnomalies(filters: {
+  clerkOrgId?: string;
+  status?: UsageAnomalyStatus;
+  limit: number;
+}): Promise<{ anomalies: UsageAnomaly[] }> {
+  const anomalies = await findUsageAnomalies(filters);
+  return { anomalies: anomalies.map(toUsageAnomaly) };
+}
+
+/**
+ * Resolves a usage anomaly, lifting its hard cap
+ *
+ * The cap stops applying once cached subscription contexts expire, with
+ * the usage cache enabled. Resolving a resolved anomaly changes nothing.
+ *
+ * @param anomalyId - Anomaly ID
+ * @param userId - Clerk user ID of the resolving administrator
+ * @returns The resolved anomaly
+ * @throws UsageAnomalyNotFoundError if the anomaly does not exist
+ */
+export async function resolveAnomaly(
+  anomalyId: string,
+  userId: string
+): Promise<UsageAnomaly> {
+  const anomaly = await findUsageAnomalyById(anomalyId);
+
+  if (!anomaly) {
+    throw new UsageAnomalyNotFoundError(
+      `Usage anomaly not found: ${anomalyId}`
+    );
+  }
+
+  if (anomaly.status === "resolved") {
+    return toUsageAnomaly(anomaly);
+  }
+
+  const resolved = await resolveUsageAnomaly(anomalyId, userId);
+
+  logger.info("Usage anomaly resolved", {
+    anomalyId,
+    clerkOrgId: anomaly.clerkOrgId,
+    metric: anomaly.metric,
+    userId,
+  });
+
+  return toUsageAnomaly(resolved);
+}
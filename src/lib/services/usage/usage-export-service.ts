@@ -0,0 +1,206 @@
+/**
+ * Usage Export Service
+ *
+ * Business logic layer for exporting usage.
+ * Produces CSV or NDJSON for a date range, either raw usage records one
+ * database page at a time, so exports of any size stream without being held
+ * in memory, or hourly or daily sums read from the usage rollups.
+ *
+ * @module lib/services/usage/usage-export-service
+ */
+
+import { config } from "../../config";
+import {
+  findUsageRecordsForExport,
+  UsageExportRow,
+} from "../../db/repositories/usage-repository";
+import { logger } from "../../utils/logger";
+import { sumUsageByBucket, UsageBucket } from "./usage-rollup-service";
+
+export type UsageExportFormat = "csv" | "ndjson";
+
+export type UsageExportGranularity = "record" | "hour" | "day";
+
+export const USAGE_EXPORT_COLUMNS = [
+  "metric",
+  "value",
+  "occurredAt",
+  "request_id",
+  "periodKey",
+] as const;
+
+export const USAGE_EXPORT_BUCKET_COLUMNS = [
+  "metric",
+  "bucket",
+  "value",
+  "count",
+] as const;
+
+export const USAGE_EXPORT_CONTENT_TYPES: Record<UsageExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break
+ *
+ * @param value - Field value
+ * @returns Escaped field
+ */
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats one usage record as a line of the export
+ *
+ * @param row - Usage record with its period key
+ * @param format - Export format
+ * @returns Line including the trailing newline
+ */
+export function formatUsageExportRow(
+  row: UsageExportRow,
+  format: UsageExportFormat
+): string {
+  const requestId =
+    (row.metadata as { request_id?: string } | null)?.request_id ?? null;
+
+  if (format === "ndjson") {
+    return (
+      JSON.stringify({
+        metric: row.metric,
+        value: row.value,
+        occurredAt: row.occurredAt.toISOString(),
+        request_id: requestId,
+        periodKey: row.usageCounter.periodKey,
+      }) + "\n"
+    );
+  }
+
+  return (
+    [
+      row.metric,
+      String(row.value),
+      row.occurredAt.toISOString(),
+      requestId ?? "",
+      row.usageCounter.periodKey,
+    ]
+      .map(escapeCsvField)
+      .join(",") + "\n"
+  );
+}
+
+/**
+ * Formats one hourly or daily sum as a line of the export
+ *
+ * @param bucket - Usage summed per metric and bucket
+ * @param format - Export format
+ * @returns Line including the trailing newline
+ */
+export function formatUsageExportBucket(
+  bucket: UsageBucket,
+  format: UsageExportFormat
+): string {
+  if (format === "ndjson") {
+    return (
+      JSON.stringify({
+        metric: bucket.metric,
+        bucket: bucket.bucket,
+        value: bucket.value,
+        count: bucket.count,
+      }) + "\n"
+    );
+  }
+
+  return (
+    [bucket.metric, bucket.bucket, String(bucket.value), String(bucket.count)]
+      .map(escapeCsvField)
+      .join(",") + "\n"
+  );
+}
+
+/**
+ * Streams usage for an organization as CSV or NDJSON
+ *
+ * With "record" granularity, raw records are exported oldest first and each
+ * yielded chunk holds one database page (config.usage.exportPageSize
+ * records). With "hour" or "day", usage summed per metric and UTC bucket is
+ * exported instead, ordered by bucket. CSV output starts with a header line.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param query - Format, granularity, [from, to) range and optional metric
+ *   filter
+ * @returns Async iterator of export chunks
+ */
+export async function* streamUsageExport(
+  clerkOrgId: string,
+  query: {
+    format: UsageExportFormat;
+    granularity?: UsageExportGranularity;
+    from: Date;
+    to: Date;
+    metric?: string;
+  }
+): AsyncGenerator<string> {
+  const filter = {
+    clerkOrgId,
+    metric: query.metric,
+    from: query.from,
+    to: query.to,
+  };
+  const granularity = query.granularity ?? "record";
+  const limit = config.usage.exportPageSize;
+  let after: { occurredAt: Date; id: string } | undefined;
+  let exported = 0;
+
+  logger.info("Exporting usage records", {
+    ...filter,
+    format: query.format,
+    granularity,
+  });
+
+  if (granularity !== "record") {
+    if (query.format === "csv") {
+      yield USAGE_EXPORT_BUCKET_COLUMNS.join(",") + "\n";
+    }
+
+    const buckets = await sumUsageByBucket(filter, granularity);
+
+    for (let i = 0; i < buckets.length; i += limit) {
+      yield buckets
+        .slice(i, i + limit)
+        .map((bucket) => formatUsageExportBucket(bucket, query.format))
+        .join("");
+    }
+
+    logger.info("Usage export completed", {
+      clerkOrgId,
+      exported: buckets.length,
+    });
+    return;
+  }
+
+  if (query.format === "csv") {
+    yield USAGE_EXPORT_COLUMNS.join(",") + "\n";
+  }
+
+  while (true) {
+    const rows = await findUsageRecordsForExport(filter, { limit, after });
+
+    if (rows.length === 0) {
+      break;
+    }
+
+    yield rows.map((row) => formatUsageExportRow(row, query.format)).join("");
+    exported += rows.length;
+
+    if (rows.length < limit) {
+      break;
+    }
+
+    const last = rows[rows.length - 1];
+    after = { occurredAt: last.occurredAt, id: last.id };
+  }
+
+  logger.info("Usage export completed", { clerkOrgId, exported });
+}
@@ -0,0 +1,119 @@
+/**
+ * Usage Flush Service
+ *
+ * Business logic layer for writing the Redis usage journal to Postgres.
+ * Usage recorded through the counter cache is appended to a journal; each
+ * flush applies the oldest entries in one transaction, then trims them and
+ * clears them from the cached counters' pending usage in one Redis script.
+ * A crash between the two leaves the entries in the journal, and replaying
+ * them is a no-op because each entry's idempotency key is already claimed.
+ *
+ * @module lib/services/usage/usage-flush-service
+ */
+
+import { config } from "../../config";
+import { applyUsageJournal } from "../../db/repositories/usage-repository";
+import {
+  isUsageCacheEnabled,
+  readUsageJournal,
+  settleCachedUsageCounters,
+  acquireUsageJournalLock,
+  releaseUsageJournalLock,
+} from "../../db/repositories/usage-cache-repository";
+import { logger } from "../../utils/logger";
+
+export interface FlushUsageJournalResult {
+  enabled: boolean;
+  flushed: number;
+  applied: number;
+  skipped: number;
+}
+
+/**
+ * Writes journaled usage to Postgres until the journal is drained
+ *
+ * Flow:
+ * 1. Take the flush lock (skip the run if another flush holds it)
+ * 2. Read up to config.redis.flushBatchSize entries from the journal head
+ * 3. Apply them to Postgres; entries already applied are skipped
+ * 4. Trim them from the journal and subtract them from each cached
+ *    counter's pending usage (used already counts them)
+ * 5. Repeat until the journal is empty or half the lock lifetime has passed
+ *
+ * @param now - Reference time (defaults to current time)
+ * @returns Entries flushed, of which applied and skipped as duplicates
+ */
+export async function flushUsageJournal(
+  now: Date = new Date()
+): Promise<FlushUsageJournalResult> {
+  const result: FlushUsageJournalResult = {
+    enabled: isUsageCacheEnabled(),
+    flushed: 0,
+    applied: 0,
+    skipped: 0,
+  };
+
+  if (!result.enabled) {
+    return result;
+  }
+
+  // Step 1: Take the flush lock
+  const token = await acquireUsageJournalLock(config.redis.flushLockSeconds);
+
+  if (!token) {
+    logger.info("Usage journal flush already in progress");
+    return result;
+  }
+
+  const deadline = Date.now() + (config.redis.flushLockSeconds * 1000) / 2;
+
+  try {
+    while (Date.now() < deadline) {
+      // Step 2: Read the oldest entries
+      const entries = await readUsageJournal(config.redis.flushBatchSize);
+
+      if (entries.length === 0) {
+        break;
+      }
+
+      // Step 3: Apply to Postgres
+      const { applied, counters } = await applyUsageJournal(entries, now);
+
+      // Step 4: Trim and settle pending usage
+      const flushedByCounter = new Map<string, number>();
+      for (const entry of entries) {
+        flushedByCounter.set(
+          entry.usageCounterId,
+          (flushedByCounter.get(entry.usageCounterId) ?? 0) + entry.value
+        );
+      }
+
+      await settleCachedUsageCounters(
+        entries.length,
+        counters.map((counter) => ({
+          counter,
+          flushed: flushedByCounter.get(counter.id) ?? 0,
+          delta: 0,
+        }))
+      );
+
+      result.flushed += entries.length;
+      result.applied += applied.length;
+      result.skipped += entries.length - applied.length;
+
+      logger.info("Usage journal batch flushed", {
+        flushed: entries.length,
+        applied: applied.length,
+        counters: counters.length,
+      });
+
+      if (entries.length < config.redis.flushBatchSize) {
+        break;
+      }
+    }
+  } finally {
+    await releaseUsageJournalLock(token);
+  }
+
+  return result;
+}
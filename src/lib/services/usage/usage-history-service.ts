@@ -0,0 +1,189 @@
+/**
+ * Usage History Service
+ *
+ * Business logic layer for reading recorded usage back.
+ * Returns bucketed sums over a time range together with a cursor-paginated
+ * page of the raw usage records behind them. Hour and day buckets are read
+ * from the usage rollups; period buckets are summed from the raw records.
+ * Adjustments made in the range are listed separately and are not included
+ * in the sums.
+ *
+ * @module lib/services/usage/usage-history-service
+ */
+
+import { config } from "../../config";
+import {
+  findUsageRecordsPage,
+  sumUsageRecordsByBucket,
+  UsageHistoryBucketRow,
+  UsageHistoryGranularity,
+} from "../../db/repositories/usage-repository";
+import { findUsageAdjustments } from "../../db/repositories/usage-adjustment-repository";
+import { toUsageAdjustment, UsageAdjustment } from "./usage-adjustment-service";
+import { sumUsageByBucket } from "./usage-rollup-service";
+import { ValidationError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+
+export interface UsageHistoryRecord {
+  id: string;
+  value: number;
+  occurredAt: string;
+  requestId: string | null;
+}
+
+export interface UsageHistoryResult {
+  metric: string;
+  from: string;
+  to: string;
+  granularity: UsageHistoryGranularity;
+  buckets: UsageHistoryBucketRow[];
+  records: UsageHistoryRecord[];
+  nextCursor: string | null;
+  adjustments: UsageAdjustment[];
+}
+
+interface RecordCursor {
+  occurredAt: Date;
+  id: string;
+}
+
+/**
+ * Encodes the position after a record as an opaque cursor
+ *
+ * @param cursor - occurredAt and id of the last record on the page
+ * @returns URL-safe cursor string
+ */
+export function encodeHistoryCursor(cursor: RecordCursor): string {
+  return Buffer.from(
+    JSON.stringify({ o: cursor.occurredAt.toISOString(), i: cursor.id })
+  ).toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by encodeHistoryCursor
+ *
+ * @param cursor - Cursor string from a previous response
+ * @returns Position to continue after
+ * @throws ValidationError if the cursor is malformed
+ */
+export function decodeHistoryCursor(cursor: string): RecordCursor {
+  try {
+    const { o, i } = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    const occurredAt = new Date(o);
+
+    if (typeof i !== "string" || Number.isNaN(occurredAt.getTime())) {
+      throw new Error("Invalid cursor fields");
+    }
+
+    return { occurredAt, id: i };
+  } catch {
+    throw new ValidationError("Invalid cursor", { cursor });
+  }
+}
+
+/**
+ * Sums a metric's usage into history buckets
+ *
+ * @param filter - Organization, metric and [from, to) range
+ * @param granularity - Bucket size
+ * @returns Non-empty buckets in ascending order
+ */
+async function sumHistoryBuckets(
+  filter: { clerkOrgId: string; metric: string; from: Date; to: Date },
+  granularity: UsageHistoryGranularity
+): Promise<UsageHistoryBucketRow[]> {
+  if (granularity === "period") {
+    return sumUsageRecordsByBucket(filter, granularity);
+  }
+
+  const buckets = await sumUsageByBucket(filter, granularity);
+  return buckets.map(({ bucket, value, count }) => ({ bucket, value, count }));
+}
+
+/**
+ * Returns usage history for an organization and metric
+ *
+ * Buckets always cover the whole [from, to) range; only the raw records are
+ * paginated. Adjustments made within the range (newest first, up to `limit`)
+ * are returned alongside, never mixed into buckets or records. `to` defaults
+ * to now and `from` to config.usage.historyDefaultRangeDays before `to`.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param query - Metric, optional range, granularity and record page
+ * @returns Bucketed sums, a page of records, the cursor for the next page,
+ *   and adjustments in the range
+ * @throws ValidationError if the cursor is malformed or the range is empty
+ */
+export async function getUsageHistory(
+  clerkOrgId: string,
+  query: {
+    metric: string;
+    from?: string;
+    to?: string;
+    granularity: UsageHistoryGranularity;
+    cursor?: string;
+    limit: number;
+  }
+): Promise<UsageHistoryResult> {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from
+    ? new Date(query.from)
+    : new Date(
+        to.getTime() -
+          config.usage.historyDefaultRangeDays * 24 * 60 * 60 * 1000
+      );
+
+  if (from >= to) {
+    throw new ValidationError("from must be before to", {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+  }
+
+  const after = query.cursor ? decodeHistoryCursor(query.cursor) : undefined;
+  const filter = { clerkOrgId, metric: query.metric, from, to };
+
+  logger.info("Reading usage history", {
+    clerkOrgId,
+    metric: query.metric,
+    from,
+    to,
+    granularity: query.granularity,
+    paginated: Boolean(after),
+  });
+
+  const [buckets, records, adjustments] = await Promise.all([
+    sumHistoryBuckets(filter, query.granularity),
+    // Fetch one extra record to know whether another page exists
+    findUsageRecordsPage(filter, { limit: query.limit + 1, after }),
+    findUsageAdjustments(clerkOrgId, {
+      metric: query.metric,
+      from,
+      to,
+      limit: query.limit,
+    }),
+  ]);
+
+  const page = records.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    metric: query.metric,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    granularity: query.granularity,
+    buckets,
+    records: page.map((record) => ({
+      id: record.id,
+      value: record.value,
+      occurredAt: record.occurredAt.toISOString(),
+      requestId:
+        (record.metadata as { request_id?: string } | null)?.request_id ?? null,
+    })),
+    nextCursor:
+      records.length > query.limit && last
+        ? encodeHistoryCursor({ occurredAt: last.occurredAt, id: last.id })
+        : null,
+    adjustments: adjustments.map(toUsageAdjustment),
+  };
+}
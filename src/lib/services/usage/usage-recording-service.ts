@@ -1,25 +1,97 @@
 /**
  * Usage Recording Service
- * 
+ *
  * Business logic layer for usage recording operations.
- * Handles idempotent usage recording with request_id.
- * 
+ * Handles idempotent usage recording and atomic quota consumption with request_id.
+ * Each request_id is held in a dedicated idempotency key for
+ * config.usage.idempotencyWindowHours; replays within the window return the
+ * original response.
+ *
+ * Usage is attributed to the billing period containing its occurredAt:
+ * backdated events land on the earlier period's counter for up to
+ * config.usage.lateUsageWindowHours after that period ends, and are
+ * rejected with USAGE_TOO_LATE afterwards.
+ *
+ * Usage is measured against a counter's quota: its included quota plus any
+ * unused quota rolled over from earlier periods (see quota-rollover-service).
+ * An increment that would take usage past that quota first draws the
+ * organization's prepaid credits into included (see credit-service), so
+ * credits are spent before overage or denial.
+ *
+ * Usage of a pool member organization is counted on its parent's counters
+ * (and in the member's share of them, against any per-member cap) but
+ * recorded and made idempotent under the member's own clerkOrgId.
+ *
+ * Usage made from a signed-in session is attributed to the session's Clerk
+ * user (userId): it adds to the user's share of the counter, and a consume
+ * is denied once that share reaches the user's cap, if an organization
+ * admin set one (see member-cap-service).
+ *
+ * While a metric is under an anomaly hard cap (see usage-anomaly-service),
+ * consumption allows no overage, whatever the plan's enforcement policy.
+ *
+ * When REDIS_URL is set, single requests are counted in the Redis counter
+ * cache and written through to Postgres by the usage flush job; batches
+ * still go straight to Postgres and resync the cached counters afterwards.
+ * Pool members and capped users always go through Postgres, where their
+ * caps are enforced, and resync the cached counter afterwards.
+ *
  * @module lib/services/usage/usage-recording-service
  */
 
 import { findOrganizationByClerkOrgId } from "../../db/repositories/org-repository";
-import { findActiveSubscriptionByOrganizationId } from "../../db/repositories/subscription-repository";
+import {
+  findActiveSubscriptionByOrganizationId,
+  findSubscriptionById,
+} from "../../db/repositories/subscription-repository";
 import {
   findUsageCounter,
+  findUsageCountersCoveringTime,
   formatPeriodKey,
-  incrementUsageCounter,
-  createUsageRecord,
-  findUsageRecordByRequestId,
   upsertUsageCounter,
+  consumeUsageCounterWithinQuota,
+  applyUsageBatch,
+  getCounterQuota,
+  UsageCounterRecord,
+  UsageIdempotencyKey,
 } from "../../db/repositories/usage-repository";
-import { PLANS_CONFIG, PlanCode } from "../../stripe";
+import {
+  findIdempotencyKey,
+  findIdempotencyKeys,
+} from "../../db/repositories/idempotency-repository";
+import {
+  isUsageCacheEnabled,
+  getCachedUsageContext,
+  setCachedUsageContext,
+  getCachedUsageCounter,
+  primeCachedUsageCounter,
+  incrementCachedUsageCounter,
+  findCachedUsageResponses,
+  cacheUsageResponses,
+  settleCachedUsageCounters,
+  UsageContext,
+} from "../../db/repositories/usage-cache-repository";
+import { PLANS_CONFIG, PlanCode, Metric } from "../../stripe";
+import { config } from "../../config";
+import { getQuotaAllowance, getUpgradeHint } from "../quota/quota-service";
+import { resolveQuotaRollover } from "../quota/quota-rollover-service";
+import { recordThresholdCrossings } from "./usage-threshold-service";
+import { applyCredits, releaseCredits } from "../credits/credit-service";
+import { CreditDraw } from "../../db/repositories/credit-repository";
+import { resolvePoolOwner, getPoolMemberCap } from "../orgs/org-pool-service";
+import { findPoolMemberUsage } from "../../db/repositories/pool-repository";
+import { loadMemberCaps, getMemberCap } from "../orgs/member-cap-service";
+import { findMemberUsage } from "../../db/repositories/member-repository";
+import { loadAnomalyCaps, isAnomalyCapped } from "./usage-anomaly-service";
 import { logger } from "../../utils/logger";
 import { ApplicationError } from "../../utils/errors";
+import { generateId } from "../../utils/ids";
+import { QuotaExceededError } from "../../errors/quota-errors";
+import {
+  DuplicateRequestIdError,
+  LateUsageError,
+  UsagePeriodNotFoundError,
+} from "../../errors/usage-errors";
 
 export interface RecordUsageResult {
   periodKey: string;
@@ -27,86 +99,164 @@ export interface RecordUsageResult {
   remaining: number;
 }
 
+export type ConsumeUsageResult = RecordUsageResult;
+
 /**
- * Records usage for an organization with idempotency
- * 
- * Flow:
- * 1. Check idempotency: find existing UsageRecord by request_id
- * 2. If exists → return existing result (idempotent)
- * 3. If not exists:
- *    a. Find organization and active subscription
- *    b. Derive periodKey from subscription
- *    c. Find or create usage counter
- *    d. Atomically increment used by value
- *    e. Create UsageRecord with metadata: {request_id}
- *    f. Return {periodKey, used, remaining}
- * 
+ * Batch item as received by recordUsageBatch: either a validated item or a
+ * validation failure (rejected without touching the database)
+ */
+export type BatchUsageItem =
+  | {
+      metric: string;
+      value: number;
+      occurredAt: Date;
+      requestId: string;
+    }
+  | {
+      requestId: string | null;
+      validationError: string;
+    };
+
+export type BatchUsageItemStatus = "recorded" | "duplicate" | "rejected";
+
+export interface BatchUsageItemResult {
+  index: number;
+  request_id: string | null;
+  status: BatchUsageItemStatus;
+  code?: string;
+  reason?: string;
+}
+
+export interface RecordUsageBatchResult {
+  results: BatchUsageItemResult[];
+  recorded: number;
+  duplicates: number;
+  rejected: number;
+  counters: Array<{
+    metric: string;
+    periodKey: string;
+    used: number;
+    remaining: number;
+  }>;
+}
+
+interface ResolvedUsageCounter {
+  context: UsageContext;
+  periodKey: string;
+  usageCounter: UsageCounterRecord;
+}
+
+const IDEMPOTENCY_WINDOW_SECONDS =
+  config.usage.idempotencyWindowHours * 60 * 60;
+const LATE_USAGE_WINDOW_MS = config.usage.lateUsageWindowHours * 60 * 60 * 1000;
+
+// Per-item errors that reject a batch item instead of failing the batch
+const REJECTED_BATCH_ITEM_CODES = [
+  "UNKNOWN_METRIC",
+  "USAGE_TOO_LATE",
+  "USAGE_PERIOD_NOT_FOUND",
+];
+
+/**
+ * Builds the usage result for a counter right after an increment
+ *
+ * @param counter - Usage counter after the increment
+ * @returns {periodKey, used, remaining}
+ */
+function toUsageResult(counter: UsageCounterRecord): RecordUsageResult {
+  return {
+    periodKey: counter.periodKey,
+    used: counter.used,
+    remaining: getCounterQuota(counter) - counter.used,
+  };
+}
+
+/**
+ * Builds the idempotency key written with newly recorded usage
+ *
+ * @param now - Reference time
+ * @returns Key expiring config.usage.idempotencyWindowHours from now
+ */
+function buildIdempotencyKey(now: Date): UsageIdempotencyKey {
+  return {
+    now,
+    expiresAt: new Date(now.getTime() + IDEMPOTENCY_WINDOW_SECONDS * 1000),
+    response: toUsageResult,
+  };
+}
+
+/**
+ * Returns the original response of a previously recorded request_id, if any
+ *
  * @param clerkOrgId - Clerk organization ID
- * @param metric - Metric name (e.g., 'api_call')
- * @param value - Usage value to record (must be positive)
- * @param occurredAt - When the usage occurred
  * @param requestId - Request ID for idempotency
- * @returns Usage recording result with periodKey, used, and remaining
+ * @returns Stored response, or null if request_id is new or its window expired
  */
-export async function recordUsage(
+async function findExistingUsageResult(
   clerkOrgId: string,
-  metric: string,
-  value: number,
-  occurredAt: Date,
   requestId: string
-): Promise<RecordUsageResult> {
-  logger.info("Recording usage", {
+): Promise<RecordUsageResult | null> {
+  const key = await findIdempotencyKey(clerkOrgId, requestId, new Date());
+
+  if (!key) {
+    return null;
+  }
+
+  logger.info("Returning original result for request_id (idempotent)", {
     clerkOrgId,
-    metric,
-    value,
-    occurredAt,
     requestId,
+    recordedAt: key.createdAt,
   });
 
-  // Step 1: Check idempotency
-  const existingRecord = await findUsageRecordByRequestId(requestId);
-  
-  if (existingRecord) {
-    logger.info("Usage record already exists (idempotent)", {
-      requestId,
-      recordId: existingRecord.id,
-    });
-
-    // Get the usage counter to return current state
-    const counter = await findUsageCounter(
-      existingRecord.clerkOrgId,
-      formatPeriodKey(existingRecord.occurredAt),
-      existingRecord.metric
-    );
+  return key.response as RecordUsageResult;
+}
 
-    if (!counter) {
-      throw new ApplicationError(
-        `Usage counter not found for existing record: ${requestId}`,
-        "COUNTER_NOT_FOUND",
-        500,
-        { requestId, recordId: existingRecord.id }
-      );
-    }
+/**
+ * Returns the response of a request_id that a concurrent request recorded
+ * between our idempotency check and our transaction
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param requestId - Request ID for idempotency
+ * @param error - Unique violation raised by the losing transaction
+ * @returns Response stored by the winning request
+ * @throws DuplicateRequestIdError if the winner's key cannot be read
+ */
+async function replayConcurrentRequest(
+  clerkOrgId: string,
+  requestId: string,
+  error: DuplicateRequestIdError
+): Promise<RecordUsageResult> {
+  const existingResult = await findExistingUsageResult(clerkOrgId, requestId);
 
-    const remaining = counter.included - counter.used;
+  if (!existingResult) {
+    throw error;
+  }
 
-    logger.info("Returning existing usage record result", {
-      requestId,
-      periodKey: formatPeriodKey(existingRecord.occurredAt),
-      used: counter.used,
-      remaining,
-    });
+  return existingResult;
+}
 
-    return {
-      periodKey: formatPeriodKey(existingRecord.occurredAt),
-      used: counter.used,
-      remaining,
-    };
+/**
+ * Resolves the organization's subscription context
+ *
+ * Served from the usage cache when enabled; otherwise (or on a cache miss)
+ * read from the organization and its active subscription (its parent's,
+ * for a pool member).
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @returns Organization and subscription IDs, plan code, current period and
+ *   the pool the organization consumes from, if any
+ */
+async function resolveUsageContext(clerkOrgId: string): Promise<UsageContext> {
+  if (isUsageCacheEnabled()) {
+    const cached = await getCachedUsageContext(clerkOrgId);
+    if (cached) {
+      return cached;
+    }
   }
 
-  // Step 2: Find organization
+  // Find organization
   const organization = await findOrganizationByClerkOrgId(clerkOrgId);
-  
+
   if (!organization) {
     throw new ApplicationError(
       `Organization not found: ${clerkOrgId}`,
@@ -121,10 +271,11 @@ export async function recordUsage(
     orgId: organization.id,
   });
 
-  // Step 3: Find active subscription
-  const subscription = await findActiveSubscriptionByOrganizationId(
-    organization.id
-  );
+  // Pool members are billed through their parent's subscription
+  const { owner, pool } = await resolvePoolOwner(organization);
+
+  // Find active subscription
+  const subscription = await findActiveSubscriptionByOrganizationId(owner.id);
 
   if (!subscription) {
     throw new ApplicationError(
@@ -141,33 +292,190 @@ export async function recordUsage(
     planCode: subscription.planCode,
   });
 
-  // Step 4: Derive periodKey from subscription.currentPeriodStart
-  const periodKey = formatPeriodKey(subscription.currentPeriodStart);
+  const context: UsageContext = {
+    organizationId: organization.id,
+    subscriptionId: subscription.id,
+    planCode: subscription.planCode,
+    currentPeriodStart: subscription.currentPeriodStart,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+    pool,
+    memberCaps: await loadMemberCaps(clerkOrgId),
+    anomalyCaps: await loadAnomalyCaps(clerkOrgId),
+  };
+
+  if (isUsageCacheEnabled()) {
+    await setCachedUsageContext(
+      clerkOrgId,
+      context,
+      config.redis.contextTtlSeconds
+    );
+  }
+
+  return context;
+}
+
+/**
+ * Resolves the organization whose usage counters usage is counted on
+ *
+ * @param clerkOrgId - Clerk organization ID the usage is recorded for
+ * @param context - Its subscription context
+ * @returns The organization itself, or the pool's parent for a pool member
+ */
+function getCounterOwner(
+  clerkOrgId: string,
+  context: UsageContext
+): { clerkOrgId: string; organizationId: string } {
+  return context.pool
+    ? {
+        clerkOrgId: context.pool.clerkOrgId,
+        organizationId: context.pool.organizationId,
+      }
+    : { clerkOrgId, organizationId: context.organizationId };
+}
+
+/**
+ * Looks up a metric's included quota for a plan
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param subscriptionId - Subscription the plan belongs to
+ * @param planCode - Plan code from the subscription
+ * @param metric - Metric name (e.g., 'api_call')
+ * @returns Included quota for the metric
+ * @throws ApplicationError if the plan code or the metric is unknown
+ */
+function getIncludedQuota(
+  clerkOrgId: string,
+  subscriptionId: string,
+  planCode: string,
+  metric: string
+): number {
+  if (!(planCode in PLANS_CONFIG)) {
+    throw new ApplicationError(
+      `Invalid plan code in subscription: ${planCode}`,
+      "INVALID_PLAN_CODE",
+      500,
+      { clerkOrgId, subscriptionId, planCode }
+    );
+  }
+
+  const planConfig = PLANS_CONFIG[planCode as PlanCode];
+  const included: number | undefined = planConfig.quotas[metric as Metric];
+
+  if (included === undefined) {
+    throw new ApplicationError(
+      `Unknown metric for plan ${planCode}: ${metric}`,
+      "UNKNOWN_METRIC",
+      400,
+      { clerkOrgId, planCode, metric }
+    );
+  }
+
+  return included;
+}
+
+/**
+ * Rejects backdated usage whose period closed too long ago
+ *
+ * @param periodEnd - End of the period the usage belongs to
+ * @param occurredAt - When the usage occurred
+ * @throws LateUsageError if the period ended more than
+ *   config.usage.lateUsageWindowHours ago
+ */
+function assertWithinLateUsageWindow(periodEnd: Date, occurredAt: Date): void {
+  if (periodEnd.getTime() > Date.now() - LATE_USAGE_WINDOW_MS) {
+    return;
+  }
+
+  throw new LateUsageError(
+    `Usage occurred in a billing period that closed more than ${config.usage.lateUsageWindowHours} hours ago`,
+    {
+      occurredAt: occurredAt.toISOString(),
+      periodEnd: periodEnd.toISOString(),
+      lateUsageWindowHours: config.usage.lateUsageWindowHours,
+    }
+  );
+}
+
+/**
+ * Whether a counter's period contains a time (periodStart <= at < periodEnd)
+ *
+ * @param counter - Usage counter
+ * @param at - Time to test
+ * @returns true if the time falls inside the counter's period
+ */
+function isWithinPeriod(counter: UsageCounterRecord, at: Date): boolean {
+  return counter.periodStart <= at && at < counter.periodEnd;
+}
+
+/**
+ * Resolves the usage counter for the period usage occurred in
+ *
+ * Finds the organization's subscription context; usage that occurred
+ * before the current period goes to resolveBackdatedUsageCounter.
+ * Otherwise derives the current periodKey and creates the counter from the
+ * plan quota if it doesn't exist yet. With the usage cache enabled, a
+ * cached counter is returned as is and a counter read from Postgres is
+ * loaded into the cache.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric name (e.g., 'api_call')
+ * @param occurredAt - When the usage occurred
+ * @returns Subscription context, periodKey and usage counter
+ * @throws LateUsageError / UsagePeriodNotFoundError for backdated usage
+ *   that cannot be attributed
+ */
+async function resolveUsageCounter(
+  clerkOrgId: string,
+  metric: string,
+  occurredAt: Date
+): Promise<ResolvedUsageCounter> {
+  const context = await resolveUsageContext(clerkOrgId);
+
+  if (occurredAt < context.currentPeriodStart) {
+    return resolveBackdatedUsageCounter(
+      clerkOrgId,
+      metric,
+      occurredAt,
+      context
+    );
+  }
+
+  // Derive periodKey from subscription.currentPeriodStart
+  const periodKey = formatPeriodKey(context.currentPeriodStart);
+  const owner = getCounterOwner(clerkOrgId, context);
 
   logger.info("Period key derived", {
     clerkOrgId,
     periodKey,
-    periodStart: subscription.currentPeriodStart,
+    periodStart: context.currentPeriodStart,
   });
 
-  // Step 5: Find or create usage counter
-  let usageCounter = await findUsageCounter(clerkOrgId, periodKey, metric);
+  if (isUsageCacheEnabled()) {
+    const cached = await getCachedUsageCounter(
+      owner.clerkOrgId,
+      periodKey,
+      metric
+    );
+    if (cached) {
+      return { context, periodKey, usageCounter: cached };
+    }
+  }
+
+  // Find or create usage counter
+  let usageCounter = await findUsageCounter(
+    owner.clerkOrgId,
+    periodKey,
+    metric
+  );
 
   if (!usageCounter) {
     // Counter doesn't exist - create it with quota from plan
-    const planCode = subscription.planCode as PlanCode;
-    
-    if (!(planCode in PLANS_CONFIG)) {
-      throw new ApplicationError(
-        `Invalid plan code in subscription: ${planCode}`,
-        "INVALID_PLAN_CODE",
-        500,
-        { clerkOrgId, subscriptionId: subscription.id, planCode }
-      );
-    }
-
-    const planConfig = PLANS_CONFIG[planCode];
-    const included = planConfig.apiCalls;
+    const included = getIncludedQuota(
+      clerkOrgId,
+      context.subscriptionId,
+      context.planCode,
+      metric
+    );
 
     logger.info("Creating usage counter", {
       clerkOrgId,
@@ -177,63 +485,1159 @@ export async function recordUsage(
     });
 
     usageCounter = await upsertUsageCounter({
-      organizationId: organization.id,
-      clerkOrgId,
-      subscriptionId: subscription.id,
+      organizationId: owner.organizationId,
+      clerkOrgId: owner.clerkOrgId,
+      subscriptionId: context.subscriptionId,
       periodKey,
-      periodStart: subscription.currentPeriodStart,
-      periodEnd: subscription.currentPeriodEnd,
+      periodStart: context.currentPeriodStart,
+      periodEnd: context.currentPeriodEnd,
       metric,
       included,
+      rollover: await resolveQuotaRollover({
+        clerkOrgId: owner.clerkOrgId,
+        planCode: context.planCode,
+        metric,
+        periodStart: context.currentPeriodStart,
+        included,
+      }),
     });
   }
 
-  // Step 6: Atomically increment usage counter
-  const updatedCounter = await incrementUsageCounter(usageCounter.id, value);
+  if (isUsageCacheEnabled()) {
+    usageCounter = await primeCachedUsageCounter(usageCounter);
+  }
+
+  return { context, periodKey, usageCounter };
+}
 
-  logger.info("Usage counter incremented", {
-    clerkOrgId,
-    counterId: updatedCounter.id,
-    value,
-    used: updatedCounter.used,
-  });
+/**
+ * Resolves the usage counter of an earlier period for backdated usage
+ *
+ * The period is the one whose counters contain occurredAt; a metric with
+ * no counter in that period yet gets one from the quota of the plan its
+ * subscription is on. The returned context describes that period and its
+ * subscription rather than the current one; the organization's pool, member
+ * caps and anomaly hard caps still apply, as they are current limits on
+ * usage arriving now.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric name (e.g., 'api_call')
+ * @param occurredAt - When the usage occurred (before the current period)
+ * @param context - Current subscription context
+ * @returns Context, periodKey and usage counter of the earlier period
+ * @throws LateUsageError if that period closed more than
+ *   config.usage.lateUsageWindowHours ago
+ * @throws UsagePeriodNotFoundError if no period contains occurredAt
+ */
+async function resolveBackdatedUsageCounter(
+  clerkOrgId: string,
+  metric: string,
+  occurredAt: Date,
+  context: UsageContext
+): Promise<ResolvedUsageCounter> {
+  // Earlier periods end no later than the current one starts
+  assertWithinLateUsageWindow(context.currentPeriodStart, occurredAt);
 
-  // Step 7: Create usage record with metadata for idempotency
-  await createUsageRecord({
-    organizationId: organization.id,
+  const owner = getCounterOwner(clerkOrgId, context);
+  const counters = await findUsageCountersCoveringTime(
+    owner.clerkOrgId,
+    occurredAt
+  );
+
+  if (counters.length === 0) {
+    throw new UsagePeriodNotFoundError(
+      `No billing period found for usage that occurred at ${occurredAt.toISOString()}`,
+      { clerkOrgId, occurredAt: occurredAt.toISOString() }
+    );
+  }
+
+  const period = counters[0];
+  assertWithinLateUsageWindow(period.periodEnd, occurredAt);
+
+  const planCode =
+    period.subscriptionId === context.subscriptionId
+      ? context.planCode
+      : ((await findSubscriptionById(period.subscriptionId))?.planCode ??
+        context.planCode);
+
+  const periodContext: UsageContext = {
+    organizationId: context.organizationId,
+    subscriptionId: period.subscriptionId,
+    planCode,
+    currentPeriodStart: period.periodStart,
+    currentPeriodEnd: period.periodEnd,
+    pool: context.pool,
+    memberCaps: context.memberCaps,
+    anomalyCaps: context.anomalyCaps,
+  };
+
+  let usageCounter =
+    counters.find(
+      (counter) =>
+        counter.periodKey === period.periodKey && counter.metric === metric
+    ) ?? null;
+
+  if (!usageCounter) {
+    const included = getIncludedQuota(
+      clerkOrgId,
+      period.subscriptionId,
+      planCode,
+      metric
+    );
+
+    logger.info("Creating usage counter for earlier period", {
+      clerkOrgId,
+      periodKey: period.periodKey,
+      metric,
+      included,
+    });
+
+    usageCounter = await upsertUsageCounter({
+      organizationId: owner.organizationId,
+      clerkOrgId: owner.clerkOrgId,
+      subscriptionId: period.subscriptionId,
+      periodKey: period.periodKey,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      metric,
+      included,
+      rollover: await resolveQuotaRollover({
+        clerkOrgId: owner.clerkOrgId,
+        planCode,
+        metric,
+        periodStart: period.periodStart,
+        included,
+      }),
+    });
+  }
+
+  if (isUsageCacheEnabled()) {
+    usageCounter = await primeCachedUsageCounter(usageCounter);
+  }
+
+  logger.info("Backdated usage attributed to earlier period", {
     clerkOrgId,
-    subscriptionId: subscription.id,
-    usageCounterId: updatedCounter.id,
     metric,
-    value,
     occurredAt,
-    metadata: {
-      request_id: requestId,
-    },
+    periodKey: period.periodKey,
   });
 
-  logger.info("Usage record created", {
-    clerkOrgId,
-    requestId,
-    value,
-    occurredAt,
-  });
+  return { context: periodContext, periodKey: period.periodKey, usageCounter };
+}
+
+/**
+ * Whether a single request is counted in the usage cache
+ *
+ * Pool members and users with a cap on the metric go through Postgres,
+ * where their caps are enforced.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric name
+ * @param userId - Clerk user ID the usage is attributed to, if any
+ * @returns true if the usage cache is enabled and no pool or member cap
+ *   applies
+ */
+async function isCachedUsageRequest(
+  clerkOrgId: string,
+  metric: string,
+  userId: string | undefined
+): Promise<boolean> {
+  if (!isUsageCacheEnabled()) {
+    return false;
+  }
 
-  // Step 8: Calculate remaining
-  const remaining = updatedCounter.included - updatedCounter.used;
+  const context = await resolveUsageContext(clerkOrgId);
+  return (
+    !context.pool && getMemberCap(context.memberCaps, userId, metric) === null
+  );
+}
 
-  logger.info("Usage recording completed", {
+/**
+ * Adds usage that bypassed the usage cache and was written to Postgres to
+ * the cached counter, and caches its request_id's response so a retry
+ * through the cache replays it
+ *
+ * @param clerkOrgId - Clerk organization ID the usage was recorded for
+ * @param requestId - Request ID of the usage
+ * @param counter - Usage counter as committed in Postgres
+ * @param value - Usage written
+ */
+async function settleUncachedUsageCounter(
+  clerkOrgId: string,
+  requestId: string,
+  counter: UsageCounterRecord,
+  value: number
+): Promise<void> {
+  if (isUsageCacheEnabled()) {
+    await settleCachedUsageCounters(0, [{ counter, flushed: 0, delta: value }]);
+    await cacheUsageResponses(
+      clerkOrgId,
+      [{ requestId, response: toUsageResult(counter) }],
+      IDEMPOTENCY_WINDOW_SECONDS
+    );
+  }
+}
+
+/**
+ * Returns the original response of a previously recorded request_id for the
+ * usage cache path
+ *
+ * Responses of usage recorded through the cache are in Redis. A request_id
+ * recorded straight to Postgres (or before the cache was enabled) is only
+ * in the idempotency key store; its response is copied into Redis for the
+ * rest of its window.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param requestId - Request ID for idempotency
+ * @returns Stored response, or null if request_id is new or its window expired
+ */
+async function findRecordedUsageResult(
+  clerkOrgId: string,
+  requestId: string
+): Promise<RecordUsageResult | null> {
+  const cached = await findCachedUsageResponses(clerkOrgId, [requestId]);
+
+  if (cached.has(requestId)) {
+    return cached.get(requestId) as RecordUsageResult;
+  }
+
+  const now = new Date();
+  const key = await findIdempotencyKey(clerkOrgId, requestId, now);
+
+  if (!key) {
+    return null;
+  }
+
+  await cacheUsageResponses(
+    clerkOrgId,
+    [{ requestId, response: key.response }],
+    Math.ceil((key.expiresAt.getTime() - now.getTime()) / 1000)
+  );
+
+  logger.info("Returning original result for request_id (idempotent)", {
     clerkOrgId,
-    periodKey,
-    used: updatedCounter.used,
-    remaining,
     requestId,
+    recordedAt: key.createdAt,
   });
 
-  return {
-    periodKey,
-    used: updatedCounter.used,
-    remaining,
-  };
+  return key.response as RecordUsageResult;
 }
 
+/**
+ * Records or consumes usage in the Redis counter cache
+ *
+ * A request_id already recorded replays its original response (see
+ * findRecordedUsageResult). Otherwise the request_id check, optional cap
+ * check, increment and journal append happen in one Redis script; the usage flush job later writes the journal
+ * to Postgres. If the cached counter expired since it was resolved, it is
+ * reloaded and the increment retried once. Prepaid credits for usage past
+ * the quota are drawn beforehand, and released if the increment is denied.
+ *
+ * @param data - Usage to record, the user it is attributed to and whether
+ *   the plan's cap applies
+ * @returns {periodKey, used, remaining} (the original response for a repeated request_id)
+ * @throws QuotaExceededError if capped and value would exceed the plan's cap
+ */
+async function applyCachedUsage(data: {
+  clerkOrgId: string;
+  metric: string;
+  value: number;
+  occurredAt: Date;
+  requestId: string;
+  userId?: string;
+  capped: boolean;
+}): Promise<RecordUsageResult> {
+  // A request_id recorded earlier (even before its period closed) replays
+  const existingResult = await findRecordedUsageResult(
+    data.clerkOrgId,
+    data.requestId
+  );
+
+  if (existingResult) {
+    return existingResult;
+  }
+
+  const {
+    context,
+    periodKey,
+    usageCounter: resolvedCounter,
+  } = await resolveUsageCounter(data.clerkOrgId, data.metric, data.occurredAt);
+
+  // Draw credits before passing the quota
+  const { counter: creditedCounter, draws } = await applyCredits(
+    resolvedCounter,
+    data.value
+  );
+  let usageCounter = creditedCounter;
+
+  const { mode, overageAllowance } = getQuotaAllowance(
+    context.planCode,
+    usageCounter.included - (usageCounter.credited ?? 0),
+    isAnomalyCapped(context.anomalyCaps, data.metric)
+  );
+  const cap =
+    data.capped && overageAllowance !== null
+      ? getCounterQuota(usageCounter) + overageAllowance
+      : null;
+
+  const increment = {
+    counter: usageCounter,
+    value: data.value,
+    cap,
+    entry: {
+      id: generateId(),
+      organizationId: context.organizationId,
+      clerkOrgId: data.clerkOrgId,
+      subscriptionId: context.subscriptionId,
+      usageCounterId: usageCounter.id,
+      metric: data.metric,
+      value: data.value,
+      occurredAt: data.occurredAt,
+      requestId: data.requestId,
+      userId: data.userId,
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_WINDOW_SECONDS * 1000),
+    },
+    idempotencyTtlSeconds: IDEMPOTENCY_WINDOW_SECONDS,
+  };
+
+  let result = await incrementCachedUsageCounter(increment);
+
+  if (result.status === "missing") {
+    await primeCachedUsageCounter(usageCounter);
+    result = await incrementCachedUsageCounter(increment);
+  }
+
+  // Credits drawn for usage that wasn't applied go back to their grants
+  if (result.status !== "applied") {
+    usageCounter = await releaseCredits(usageCounter, draws);
+  }
+
+  switch (result.status) {
+    case "duplicate":
+      logger.info("Returning original result for request_id (idempotent)", {
+        clerkOrgId: data.clerkOrgId,
+        requestId: data.requestId,
+      });
+      return result.response as RecordUsageResult;
+
+    case "denied": {
+      const remaining = Math.max(
+        getCounterQuota(usageCounter) - result.used,
+        0
+      );
+
+      logger.warn("Usage consumption denied (quota exceeded)", {
+        clerkOrgId: data.clerkOrgId,
+        periodKey,
+        metric: data.metric,
+        value: data.value,
+        remaining,
+        mode,
+        requestId: data.requestId,
+      });
+
+      throw new QuotaExceededError("Usage quota exceeded", {
+        metric: data.metric,
+        limit: getCounterQuota(usageCounter),
+        used: result.used,
+        remaining,
+        resetAt: usageCounter.periodEnd.toISOString(),
+        status: "blocked",
+        mode,
+        upgrade: getUpgradeHint(context.planCode, data.metric),
+      });
+    }
+
+    case "applied":
+      // Record threshold crossings (50/80/100% of included)
+      await recordThresholdCrossings(
+        { ...usageCounter, used: result.response.used },
+        data.value
+      );
+
+      logger.info("Usage recorded in cache", {
+        clerkOrgId: data.clerkOrgId,
+        periodKey,
+        used: result.response.used,
+        remaining: result.response.remaining,
+        requestId: data.requestId,
+      });
+
+      return result.response;
+
+    default:
+      throw new ApplicationError(
+        `Usage counter not cached: ${usageCounter.id}`,
+        "COUNTER_NOT_FOUND",
+        500,
+        { requestId: data.requestId, usageCounterId: usageCounter.id }
+      );
+  }
+}
+
+/**
+ * Records usage for an organization with idempotency
+ *
+ * Flow:
+ * 1. Check idempotency: find an unexpired key for (clerkOrgId, request_id)
+ * 2. If exists → return the original response (idempotent)
+ * 3. If not exists:
+ *    a. Find organization and active subscription
+ *    b. Derive periodKey from subscription (or, for usage that occurred
+ *       before the current period, find the earlier period's counter)
+ *    c. Find or create usage counter
+ *    d. Draw prepaid credits for any usage past the quota
+ *    e. In one transaction: increment used by value (and the user's share),
+ *       create UsageRecord with metadata: {request_id, user_id}, and create
+ *       the idempotency key
+ *    f. If a concurrent request won the key → return its response
+ *    g. Record any alert thresholds crossed by this increment
+ *    h. Return {periodKey, used, remaining}
+ *
+ * With the usage cache enabled, steps 1-3 run as one Redis script instead
+ * (see applyCachedUsage) and Postgres is updated by the usage flush job.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric name (e.g., 'api_call')
+ * @param value - Usage value to record (must be positive)
+ * @param occurredAt - When the usage occurred
+ * @param requestId - Request ID for idempotency
+ * @param userId - Clerk user ID to attribute the usage to (optional)
+ * @returns Usage recording result with periodKey, used, and remaining
+ * @throws LateUsageError if occurredAt is in a period that closed more than
+ *   config.usage.lateUsageWindowHours ago
+ */
+export async function recordUsage(
+  clerkOrgId: string,
+  metric: string,
+  value: number,
+  occurredAt: Date,
+  requestId: string,
+  userId?: string
+): Promise<RecordUsageResult> {
+  logger.info("Recording usage", {
+    clerkOrgId,
+    metric,
+    value,
+    occurredAt,
+    requestId,
+    userId,
+  });
+
+  if (await isCachedUsageRequest(clerkOrgId, metric, userId)) {
+    return applyCachedUsage({
+      clerkOrgId,
+      metric,
+      value,
+      occurredAt,
+      requestId,
+      userId,
+      capped: false,
+    });
+  }
+
+  // Step 1: Check idempotency
+  const existingResult = await findExistingUsageResult(clerkOrgId, requestId);
+
+  if (existingResult) {
+    return existingResult;
+  }
+
+  // Step 2: Resolve subscription context and usage counter
+  const {
+    context,
+    periodKey,
+    usageCounter: resolvedCounter,
+  } = await resolveUsageCounter(clerkOrgId, metric, occurredAt);
+
+  // Step 3: Draw credits for any usage past the quota
+  const { counter: usageCounter, draws } = await applyCredits(
+    resolvedCounter,
+    value
+  );
+
+  // Step 4: Increment, record and claim the request_id in one transaction
+  let updatedCounter: UsageCounterRecord | null;
+
+  try {
+    updatedCounter = await consumeUsageCounterWithinQuota({
+      organizationId: context.organizationId,
+      clerkOrgId,
+      subscriptionId: context.subscriptionId,
+      usageCounterId: usageCounter.id,
+      metric,
+      value,
+      overageAllowance: null, // recording is never capped
+      occurredAt,
+      metadata: {
+        request_id: requestId,
+        ...(userId && { user_id: userId }),
+      },
+      idempotency: buildIdempotencyKey(new Date()),
+      poolMember: context.pool ? { periodKey, cap: null } : undefined,
+      member: userId ? { userId, periodKey, cap: null } : undefined,
+    });
+  } catch (error) {
+    await releaseCredits(usageCounter, draws);
+    if (error instanceof DuplicateRequestIdError) {
+      return replayConcurrentRequest(clerkOrgId, requestId, error);
+    }
+    throw error;
+  }
+
+  if (!updatedCounter) {
+    throw new ApplicationError(
+      `Usage counter not updated: ${usageCounter.id}`,
+      "COUNTER_NOT_FOUND",
+      500,
+      { requestId, usageCounterId: usageCounter.id }
+    );
+  }
+
+  logger.info("Usage recorded", {
+    clerkOrgId,
+    counterId: updatedCounter.id,
+    requestId,
+    value,
+    occurredAt,
+    used: updatedCounter.used,
+  });
+
+  await settleUncachedUsageCounter(
+    clerkOrgId,
+    requestId,
+    updatedCounter,
+    value
+  );
+
+  // Step 5: Record threshold crossings (50/80/100% of included)
+  await recordThresholdCrossings(updatedCounter, value);
+
+  // Step 6: Calculate remaining
+  const result = toUsageResult(updatedCounter);
+
+  logger.info("Usage recording completed", {
+    clerkOrgId,
+    periodKey,
+    used: result.used,
+    remaining: result.remaining,
+    requestId,
+  });
+
+  return result;
+}
+
+/**
+ * Explains a denied consume by a pool member's own cap, if that is what
+ * denied it
+ *
+ * @param clerkOrgId - Clerk organization ID of the consumer
+ * @param context - Its subscription context
+ * @param usageCounter - Pool counter consumed from
+ * @param value - Usage value that was denied
+ * @throws QuotaExceededError (limited to the member's cap) if value would
+ *   take the member past its cap
+ */
+async function assertWithinPoolMemberCap(
+  clerkOrgId: string,
+  context: UsageContext,
+  usageCounter: UsageCounterRecord,
+  value: number
+): Promise<void> {
+  const cap = getPoolMemberCap(context.pool, usageCounter.metric);
+
+  if (cap === null) {
+    return;
+  }
+
+  const memberUsage = await findPoolMemberUsage(
+    clerkOrgId,
+    usageCounter.periodKey
+  );
+  const used =
+    memberUsage.find((usage) => usage.usageCounterId === usageCounter.id)
+      ?.used ?? 0;
+
+  if (used + value <= cap) {
+    return;
+  }
+
+  const remaining = Math.max(cap - used, 0);
+
+  logger.warn("Usage consumption denied (pool member cap exceeded)", {
+    clerkOrgId,
+    parentClerkOrgId: usageCounter.clerkOrgId,
+    periodKey: usageCounter.periodKey,
+    metric: usageCounter.metric,
+    value,
+    cap,
+    used,
+  });
+
+  throw new QuotaExceededError("Pool member usage cap exceeded", {
+    metric: usageCounter.metric,
+    limit: cap,
+    used,
+    remaining,
+    resetAt: usageCounter.periodEnd.toISOString(),
+    status: "blocked",
+    mode: "hard",
+    upgrade: null, // caps are set by the pool's administrator
+  });
+}
+
+/**
+ * Explains a denied consume by the user's own cap, if that is what denied it
+ *
+ * @param clerkOrgId - Clerk organization ID of the consumer
+ * @param userId - Clerk user ID the usage is attributed to, if any
+ * @param context - Subscription context of the consumer
+ * @param usageCounter - Counter consumed from
+ * @param value - Usage value that was denied
+ * @throws QuotaExceededError (limited to the user's cap) if value would take
+ *   the user past their cap
+ */
+async function assertWithinMemberCap(
+  clerkOrgId: string,
+  userId: string | undefined,
+  context: UsageContext,
+  usageCounter: UsageCounterRecord,
+  value: number
+): Promise<void> {
+  const cap = getMemberCap(context.memberCaps, userId, usageCounter.metric);
+
+  if (cap === null) {
+    return;
+  }
+
+  const memberUsage = await findMemberUsage(
+    clerkOrgId,
+    usageCounter.periodKey,
+    userId
+  );
+  const used =
+    memberUsage.find((usage) => usage.usageCounterId === usageCounter.id)
+      ?.used ?? 0;
+
+  if (used + value <= cap) {
+    return;
+  }
+
+  const remaining = Math.max(cap - used, 0);
+
+  logger.warn("Usage consumption denied (member cap exceeded)", {
+    clerkOrgId,
+    userId,
+    periodKey: usageCounter.periodKey,
+    metric: usageCounter.metric,
+    value,
+    cap,
+    used,
+  });
+
+  throw new QuotaExceededError("Member usage cap exceeded", {
+    metric: usageCounter.metric,
+    limit: cap,
+    used,
+    remaining,
+    resetAt: usageCounter.periodEnd.toISOString(),
+    status: "blocked",
+    mode: "hard",
+    upgrade: null, // caps are set by the organization's admins
+  });
+}
+
+/**
+ * Atomically checks quota and consumes usage for an organization
+ *
+ * Unlike calling checkQuota followed by recordUsage, the quota check and the
+ * increment happen in a single conditional update, so concurrent requests can
+ * never overshoot the plan's cap (`included` plus any soft-cap burst allowance;
+ * unlimited plans are never capped). Shares request_id idempotency with recordUsage.
+ *
+ * Flow:
+ * 1. Check idempotency: find an unexpired key for (clerkOrgId, request_id)
+ * 2. If exists → return the original response (idempotent)
+ * 3. If not exists:
+ *    a. Resolve organization, subscription, periodKey and usage counter
+ *       (of the period containing occurredAt)
+ *    b. Draw prepaid credits for any usage past the quota
+ *    c. Resolve the plan's overage allowance (hard: 0, soft: burst %, unlimited: none;
+ *       0 while the metric is under an anomaly hard cap)
+ *    d. Increment used only if used + value <= included + allowance (and,
+ *       for a pool member or a capped user, its share stays within its
+ *       cap), and create UsageRecord and the idempotency key in the same
+ *       transaction
+ *    e. If the increment was rejected → release the credits drawn in b and
+ *       throw QuotaExceededError (nothing is stored, so the request_id may
+ *       be retried)
+ *    f. Record any alert thresholds crossed by this increment
+ *    g. Return {periodKey, used, remaining}
+ *
+ * With the usage cache enabled, the cap check and increment run as one
+ * Redis script instead (see applyCachedUsage), with the same guarantees.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param metric - Metric name (e.g., 'api_call')
+ * @param value - Usage value to consume (must be positive)
+ * @param occurredAt - When the usage occurred
+ * @param requestId - Request ID for idempotency
+ * @param userId - Clerk user ID to attribute the usage to (optional)
+ * @returns Consumption result with periodKey, used, and remaining
+ * @throws QuotaExceededError if consuming value would exceed the plan's cap
+ *   (or the pool member's or user's cap)
+ * @throws LateUsageError if occurredAt is in a period that closed more than
+ *   config.usage.lateUsageWindowHours ago
+ */
+export async function consumeUsage(
+  clerkOrgId: string,
+  metric: string,
+  value: number,
+  occurredAt: Date,
+  requestId: string,
+  userId?: string
+): Promise<ConsumeUsageResult> {
+  logger.info("Consuming usage", {
+    clerkOrgId,
+    metric,
+    value,
+    occurredAt,
+    requestId,
+    userId,
+  });
+
+  if (await isCachedUsageRequest(clerkOrgId, metric, userId)) {
+    return applyCachedUsage({
+      clerkOrgId,
+      metric,
+      value,
+      occurredAt,
+      requestId,
+      userId,
+      capped: true,
+    });
+  }
+
+  // Step 1: Check idempotency
+  const existingResult = await findExistingUsageResult(clerkOrgId, requestId);
+
+  if (existingResult) {
+    return existingResult;
+  }
+
+  // Step 2: Resolve subscription context and usage counter
+  const {
+    context,
+    periodKey,
+    usageCounter: resolvedCounter,
+  } = await resolveUsageCounter(clerkOrgId, metric, occurredAt);
+
+  // Step 3: Draw credits for any usage past the quota
+  const { counter: creditedCounter, draws } = await applyCredits(
+    resolvedCounter,
+    value
+  );
+  let usageCounter = creditedCounter;
+
+  // Step 4: Resolve how far past its quota the plan may go (burst is a
+  // share of the plan's quota, not of credits; none under an anomaly cap)
+  const { mode, overageAllowance } = getQuotaAllowance(
+    context.planCode,
+    usageCounter.included - (usageCounter.credited ?? 0),
+    isAnomalyCapped(context.anomalyCaps, metric)
+  );
+
+  // Step 5: Conditionally increment, record and claim the request_id in one transaction
+  let updatedCounter: UsageCounterRecord | null;
+
+  try {
+    updatedCounter = await consumeUsageCounterWithinQuota({
+      organizationId: context.organizationId,
+      clerkOrgId,
+      subscriptionId: context.subscriptionId,
+      usageCounterId: usageCounter.id,
+      metric,
+      value,
+      overageAllowance,
+      occurredAt,
+      metadata: {
+        request_id: requestId,
+        ...(userId && { user_id: userId }),
+      },
+      idempotency: buildIdempotencyKey(new Date()),
+      poolMember: context.pool
+        ? { periodKey, cap: getPoolMemberCap(context.pool, metric) }
+        : undefined,
+      member: userId
+        ? {
+            userId,
+            periodKey,
+            cap: getMemberCap(context.memberCaps, userId, metric),
+          }
+        : undefined,
+    });
+  } catch (error) {
+    await releaseCredits(usageCounter, draws);
+    if (error instanceof DuplicateRequestIdError) {
+      return replayConcurrentRequest(clerkOrgId, requestId, error);
+    }
+    throw error;
+  }
+
+  if (!updatedCounter) {
+    // Nothing was consumed, so the credits drawn for it go back
+    usageCounter = await releaseCredits(usageCounter, draws);
+
+    await assertWithinPoolMemberCap(clerkOrgId, context, usageCounter, value);
+    await assertWithinMemberCap(
+      clerkOrgId,
+      userId,
+      context,
+      usageCounter,
+      value
+    );
+
+    const remaining = Math.max(
+      getCounterQuota(usageCounter) - usageCounter.used,
+      0
+    );
+
+    logger.warn("Usage consumption denied (quota exceeded)", {
+      clerkOrgId,
+      periodKey,
+      metric,
+      value,
+      remaining,
+      mode,
+      requestId,
+    });
+
+    throw new QuotaExceededError("Usage quota exceeded", {
+      metric,
+      limit: getCounterQuota(usageCounter),
+      used: usageCounter.used,
+      remaining,
+      resetAt: usageCounter.periodEnd.toISOString(),
+      status: "blocked",
+      mode,
+      upgrade: getUpgradeHint(context.planCode, metric),
+    });
+  }
+
+  await settleUncachedUsageCounter(
+    clerkOrgId,
+    requestId,
+    updatedCounter,
+    value
+  );
+
+  // Step 6: Record threshold crossings (50/80/100% of included)
+  await recordThresholdCrossings(updatedCounter, value);
+
+  const remaining = getCounterQuota(updatedCounter) - updatedCounter.used;
+
+  logger.info("Usage consumption completed", {
+    clerkOrgId,
+    periodKey,
+    used: updatedCounter.used,
+    remaining,
+    requestId,
+  });
+
+  return {
+    periodKey,
+    used: updatedCounter.used,
+    remaining,
+  };
+}
+
+/**
+ * Records a batch of usage items with per-item idempotency
+ *
+ * Flow:
+ * 1. Reject items that failed validation
+ * 2. Mark items whose request_id was already recorded (or repeats earlier in
+ *    the batch) as duplicates
+ * 3. Resolve the usage counter for each item's metric and period; reject
+ *    items whose metric is not part of the plan or whose backdated period
+ *    closed too long ago (or is unknown)
+ * 4. Draw prepaid credits for usage past each counter's included quota,
+ *    then increment each counter once by the sum of its items and create all
+ *    usage records and idempotency keys in one transaction
+ * 5. With the usage cache enabled, resync the cached counters and cache the
+ *    recorded request_ids' responses
+ * 6. Record any alert thresholds crossed by each counter's increment
+ * 7. Return per-item results and the resulting counter state
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param items - Batch items in request order
+ * @param userId - Clerk user ID to attribute the usage to (optional; its
+ *   share is uncapped, as for recordUsage)
+ * @returns Per-item results (recorded / duplicate / rejected) and counters touched
+ * @throws ApplicationError if the organization or its active subscription is missing
+ * @throws DuplicateRequestIdError if a concurrent request recorded one of the
+ *   request_ids (nothing from the batch is stored; retrying marks it duplicate)
+ */
+export async function recordUsageBatch(
+  clerkOrgId: string,
+  items: BatchUsageItem[],
+  userId?: string
+): Promise<RecordUsageBatchResult> {
+  logger.info("Recording usage batch", {
+    clerkOrgId,
+    count: items.length,
+    userId,
+  });
+
+  const results: BatchUsageItemResult[] = new Array(items.length);
+  const reject = (index: number, code: string, reason: string) => {
+    results[index] = {
+      index,
+      request_id: items[index].requestId,
+      status: "rejected",
+      code,
+      reason,
+    };
+  };
+
+  // Step 1: Reject invalid items
+  const candidates: Array<{
+    index: number;
+    metric: string;
+    value: number;
+    occurredAt: Date;
+    requestId: string;
+  }> = [];
+
+  items.forEach((item, index) => {
+    if ("validationError" in item) {
+      reject(index, "VALIDATION_ERROR", item.validationError);
+    } else {
+      candidates.push({ index, ...item });
+    }
+  });
+
+  // Step 2: Per-item idempotency (previous requests and repeats within the batch)
+  const now = new Date();
+  const existing = await findIdempotencyKeys(
+    clerkOrgId,
+    [...new Set(candidates.map((item) => item.requestId))],
+    now
+  );
+  const seen = new Set(existing.map((key) => key.requestId));
+
+  if (isUsageCacheEnabled()) {
+    // Recorded through the cache but not yet flushed to Postgres
+    const cached = await findCachedUsageResponses(clerkOrgId, [
+      ...new Set(candidates.map((item) => item.requestId)),
+    ]);
+    cached.forEach((_, requestId) => seen.add(requestId));
+  }
+
+  const pending: typeof candidates = [];
+
+  for (const item of candidates) {
+    if (seen.has(item.requestId)) {
+      results[item.index] = {
+        index: item.index,
+        request_id: item.requestId,
+        status: "duplicate",
+      };
+      continue;
+    }
+    seen.add(item.requestId);
+    pending.push(item);
+  }
+
+  // Step 3: Resolve one usage counter per metric and period
+  const itemsByCounter = new Map<
+    string,
+    { resolved: ResolvedUsageCounter; items: typeof candidates }
+  >();
+  const unknownMetrics = new Map<string, ApplicationError>();
+
+  for (const item of pending) {
+    const unknownMetric = unknownMetrics.get(item.metric);
+
+    if (unknownMetric) {
+      reject(item.index, unknownMetric.code, unknownMetric.message);
+      continue;
+    }
+
+    // Reuse a counter already resolved for this metric and period
+    let resolved = [...itemsByCounter.values()].find(
+      (group) =>
+        group.resolved.usageCounter.metric === item.metric &&
+        isWithinPeriod(group.resolved.usageCounter, item.occurredAt)
+    )?.resolved;
+
+    if (!resolved) {
+      try {
+        resolved = await resolveUsageCounter(
+          clerkOrgId,
+          item.metric,
+          item.occurredAt
+        );
+      } catch (error) {
+        if (
+          error instanceof ApplicationError &&
+          REJECTED_BATCH_ITEM_CODES.includes(error.code)
+        ) {
+          if (error.code === "UNKNOWN_METRIC") {
+            unknownMetrics.set(item.metric, error);
+          }
+          reject(item.index, error.code, error.message);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    const group = itemsByCounter.get(resolved.usageCounter.id) ?? {
+      resolved,
+      items: [],
+    };
+    group.items.push(item);
+    itemsByCounter.set(resolved.usageCounter.id, group);
+  }
+
+  const increments: Array<{ usageCounterId: string; value: number }> = [];
+  const records: Parameters<typeof applyUsageBatch>[0]["records"] = [];
+  const credits: Array<{ counter: UsageCounterRecord; draws: CreditDraw[] }> =
+    [];
+
+  for (const { resolved, items: counterItems } of itemsByCounter.values()) {
+    const value = counterItems.reduce((sum, item) => sum + item.value, 0);
+
+    // Draw credits for any usage past the quota
+    credits.push(await applyCredits(resolved.usageCounter, value));
+
+    increments.push({
+      usageCounterId: resolved.usageCounter.id,
+      value,
+    });
+
+    for (const item of counterItems) {
+      records.push({
+        organizationId: resolved.context.organizationId,
+        clerkOrgId,
+        subscriptionId: resolved.context.subscriptionId,
+        usageCounterId: resolved.usageCounter.id,
+        metric: item.metric,
+        value: item.value,
+        occurredAt: item.occurredAt,
+        metadata: {
+          request_id: item.requestId,
+          ...(userId && { user_id: userId }),
+        },
+      });
+      results[item.index] = {
+        index: item.index,
+        request_id: item.requestId,
+        status: "recorded",
+      };
+    }
+  }
+
+  // Step 4: Apply aggregated increments and records atomically (a pool
+  // member's and the user's shares of the counters are uncapped, as for
+  // recordUsage)
+  const pooled = [...itemsByCounter.values()].some(
+    ({ resolved }) => resolved.context.pool
+  );
+  let counters: UsageCounterRecord[] = [];
+
+  if (increments.length > 0) {
+    try {
+      counters = await applyUsageBatch({
+        increments,
+        records,
+        idempotency: buildIdempotencyKey(now),
+        poolMemberClerkOrgId: pooled ? clerkOrgId : undefined,
+        memberUserId: userId,
+      });
+    } catch (error) {
+      // Nothing was recorded, so the credits drawn for it go back
+      for (const { counter, draws } of credits) {
+        await releaseCredits(counter, draws);
+      }
+      throw error;
+    }
+  }
+
+  // Step 5: Add the committed batch to cached counters and cache its
+  // request_ids
+  if (isUsageCacheEnabled() && counters.length > 0) {
+    await settleCachedUsageCounters(
+      0,
+      counters.map((counter, i) => ({
+        counter,
+        flushed: 0,
+        delta: increments[i].value,
+      }))
+    );
+
+    // Live usage includes cached usage not yet flushed to Postgres
+    counters = await Promise.all(
+      counters.map(
+        async (counter) =>
+          (await getCachedUsageCounter(
+            counter.clerkOrgId,
+            counter.periodKey,
+            counter.metric
+          )) ?? counter
+      )
+    );
+
+    const countersById = new Map(
+      counters.map((counter) => [counter.id, counter])
+    );
+    // A request_id left uncached replays from its Postgres idempotency key
+    await cacheUsageResponses(
+      clerkOrgId,
+      records.flatMap((record) => {
+        const counter = countersById.get(record.usageCounterId);
+        return counter
+          ? [
+              {
+                requestId: record.metadata.request_id,
+                response: toUsageResult(counter),
+              },
+            ]
+          : [];
+      }),
+      IDEMPOTENCY_WINDOW_SECONDS
+    );
+  }
+
+  // Step 6: Record threshold crossings per counter
+  for (const [i, counter] of counters.entries()) {
+    await recordThresholdCrossings(counter, increments[i].value);
+  }
+
+  // Step 7: Summarize
+  const count = (status: BatchUsageItemStatus) =>
+    results.filter((result) => result.status === status).length;
+
+  const result: RecordUsageBatchResult = {
+    results,
+    recorded: count("recorded"),
+    duplicates: count("duplicate"),
+    rejected: count("rejected"),
+    counters: counters.map((counter) => ({
+      metric: counter.metric,
+      periodKey: counter.periodKey,
+      used: counter.used,
+      remaining: getCounterQuota(counter) - counter.used,
+    })),
+  };
+
+  logger.info("Usage batch recording completed", {
+    clerkOrgId,
+    recorded: result.recorded,
+    duplicates: result.duplicates,
+    rejected: result.rejected,
+  });
+
+  return result;
+}
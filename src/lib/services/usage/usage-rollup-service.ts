@@ -0,0 +1,220 @@
+/**
+ * Usage Rollup Service
+ *
+ * Business logic layer for reading and rebuilding pre-aggregated usage.
+ * Bucketed sums over a range are read from the daily and hourly rollups for
+ * the whole days and hours it covers, and from raw usage records only for
+ * the partial hours at either end. Rollups are kept current as usage is
+ * written; the rebuild recomputes them from raw records (after a backfill,
+ * a bug fix, or when first deploying rollups over existing history).
+ *
+ * @module lib/services/usage/usage-rollup-service
+ */
+
+import { config } from "../../config";
+import {
+  findUsageRollups,
+  rebuildUsageRollupsForDay,
+  sumUsageRecordsIntoRollups,
+  toRollupBucket,
+  ROLLUP_BUCKET_MS,
+  UsageRollupGranularity,
+} from "../../db/repositories/usage-rollup-repository";
+import { ValidationError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+
+export interface UsageBucket {
+  metric: string;
+  bucket: string; // ISO start of the UTC hour or day
+  value: number;
+  count: number;
+}
+
+export interface UsageRollupSegment {
+  source: "records" | UsageRollupGranularity;
+  from: Date;
+  to: Date;
+}
+
+export interface RebuildUsageRollupsResult {
+  from: string;
+  to: string;
+  days: number;
+  hourlyBuckets: number;
+  dailyBuckets: number;
+}
+
+/**
+ * Rounds a time up to the start of the next UTC hour or day
+ *
+ * @param date - Time to round
+ * @param granularity - Bucket size
+ * @returns date itself if it starts a bucket, else the next bucket's start
+ */
+function ceilToRollupBucket(
+  date: Date,
+  granularity: UsageRollupGranularity
+): Date {
+  return toRollupBucket(
+    new Date(date.getTime() + ROLLUP_BUCKET_MS[granularity] - 1),
+    granularity
+  );
+}
+
+/**
+ * Splits a range into the parts read from each source
+ *
+ * Whole days (for daily buckets) come from the daily rollups, remaining
+ * whole hours from the hourly rollups, and partial hours at either end from
+ * raw records.
+ *
+ * @param from - Range start (inclusive)
+ * @param to - Range end (exclusive)
+ * @param granularity - Bucket size being read
+ * @returns Non-empty, contiguous segments in ascending order
+ */
+export function planUsageRollupSegments(
+  from: Date,
+  to: Date,
+  granularity: UsageRollupGranularity
+): UsageRollupSegment[] {
+  const hourFrom = ceilToRollupBucket(from, "hour");
+  const hourTo = toRollupBucket(to, "hour");
+
+  if (hourFrom >= hourTo) {
+    return [{ source: "records", from, to }];
+  }
+
+  const segments: UsageRollupSegment[] = [];
+
+  if (from < hourFrom) {
+    segments.push({ source: "records", from, to: hourFrom });
+  }
+
+  const dayFrom = ceilToRollupBucket(hourFrom, "day");
+  const dayTo = toRollupBucket(hourTo, "day");
+
+  if (granularity === "day" && dayFrom < dayTo) {
+    if (hourFrom < dayFrom) {
+      segments.push({ source: "hour", from: hourFrom, to: dayFrom });
+    }
+    segments.push({ source: "day", from: dayFrom, to: dayTo });
+    if (dayTo < hourTo) {
+      segments.push({ source: "hour", from: dayTo, to: hourTo });
+    }
+  } else {
+    segments.push({ source: "hour", from: hourFrom, to: hourTo });
+  }
+
+  if (hourTo < to) {
+    segments.push({ source: "records", from: hourTo, to });
+  }
+
+  return segments;
+}
+
+/**
+ * Sums usage into UTC hour or day buckets, preferring the rollups
+ *
+ * @param filter - Organization, optional metric and [from, to) range
+ * @param granularity - Bucket size
+ * @returns Non-empty buckets per metric, ordered by bucket, then metric
+ */
+export async function sumUsageByBucket(
+  filter: { clerkOrgId: string; metric?: string; from: Date; to: Date },
+  granularity: UsageRollupGranularity
+): Promise<UsageBucket[]> {
+  const segments = planUsageRollupSegments(filter.from, filter.to, granularity);
+
+  const parts = await Promise.all(
+    segments.map((segment) => {
+      const range = { ...filter, from: segment.from, to: segment.to };
+      return segment.source === "records"
+        ? sumUsageRecordsIntoRollups(range, granularity)
+        : findUsageRollups(segment.source, range);
+    })
+  );
+
+  // Hourly rows read for day buckets are folded into their day
+  const buckets = new Map<string, UsageBucket>();
+
+  for (const row of parts.flat()) {
+    const bucket = toRollupBucket(row.bucket, granularity).toISOString();
+    const key = `${bucket}|${row.metric}`;
+    const sum = buckets.get(key) ?? {
+      metric: row.metric,
+      bucket,
+      value: 0,
+      count: 0,
+    };
+
+    sum.value += row.value;
+    sum.count += row.count;
+    buckets.set(key, sum);
+  }
+
+  return [...buckets.values()].sort(
+    (a, b) =>
+      a.bucket.localeCompare(b.bucket) || a.metric.localeCompare(b.metric)
+  );
+}
+
+/**
+ * Recomputes rollups from raw usage records
+ *
+ * The range is widened to whole UTC days, and each day is rebuilt in its
+ * own transaction. Usage still held in the Redis journal is not in the raw
+ * records yet; flush it first for an exact rebuild of the current day.
+ *
+ * @param input - [from, to) range and optional organization
+ * @returns Rebuilt day range and the number of buckets written
+ * @throws ValidationError if the range is empty or spans more than
+ *   config.usage.rollupRebuildMaxDays days
+ */
+export async function rebuildUsageRollups(input: {
+  from: Date;
+  to: Date;
+  clerkOrgId?: string;
+}): Promise<RebuildUsageRollupsResult> {
+  const from = toRollupBucket(input.from, "day");
+  const to = ceilToRollupBucket(input.to, "day");
+  const days = Math.round(
+    (to.getTime() - from.getTime()) / ROLLUP_BUCKET_MS.day
+  );
+
+  if (days <= 0 || days > config.usage.rollupRebuildMaxDays) {
+    throw new ValidationError(
+      `Rebuild range must span 1 to ${config.usage.rollupRebuildMaxDays} days`,
+      { from: from.toISOString(), to: to.toISOString(), days }
+    );
+  }
+
+  logger.info("Rebuilding usage rollups", {
+    from,
+    to,
+    days,
+    clerkOrgId: input.clerkOrgId,
+  });
+
+  let hourlyBuckets = 0;
+  let dailyBuckets = 0;
+
+  for (let day = 0; day < days; day++) {
+    const result = await rebuildUsageRollupsForDay(
+      new Date(from.getTime() + day * ROLLUP_BUCKET_MS.day),
+      input.clerkOrgId
+    );
+    hourlyBuckets += result.hourly;
+    dailyBuckets += result.daily;
+  }
+
+  logger.info("Usage rollups rebuilt", { days, hourlyBuckets, dailyBuckets });
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    days,
+    hourlyBuckets,
+    dailyBuckets,
+  };
+}
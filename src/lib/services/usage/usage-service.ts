@@ -1,42 +1,60 @@
 /**
  * Usage Service
- * 
+ *
  * Business logic layer for usage operations.
  * Handles usage counter seeding, quota calculation, and usage tracking.
- * 
+ *
  * @module lib/services/usage/usage-service
  */
 
-import { PLANS_CONFIG, PlanCode } from "../../stripe";
+import { PLANS_CONFIG, PlanCode, Metric } from "../../stripe";
+import { config } from "../../config";
 import { findActiveSubscriptionByOrganizationId } from "../../db/repositories/subscription-repository";
-import { upsertUsageCounter, formatPeriodKey } from "../../db/repositories/usage-repository";
+import {
+  upsertUsageCounter,
+  formatPeriodKey,
+} from "../../db/repositories/usage-repository";
 import { findOrganizationById } from "../../db/repositories/org-repository";
+import { resolveQuotaRollover } from "../quota/quota-rollover-service";
 import { logger } from "../../utils/logger";
 import { ApplicationError } from "../../utils/errors";
 
+export interface SeededCounter {
+  metric: string;
+  included: number;
+  rolledOver: number; // unused quota carried over from the previous period
+  used: number;
+  remaining: number;
+}
+
 export interface SeedUsageResult {
   periodKey: string;
   remaining: number;
+  counters: SeededCounter[];
 }
 
 /**
- * Seeds a usage counter for an organization
- * 
+ * Seeds usage counters for an organization (one per metric in the plan)
+ *
  * Flow:
  * 1. Fetch active subscription for organization
  * 2. Derive periodKey from subscription.currentPeriodStart
- * 3. Lookup included quota from PLANS_CONFIG based on planCode
- * 4. Upsert usage counter (preserve existing used value if re-seeding)
- * 
+ * 3. Lookup included quotas per metric from PLANS_CONFIG based on planCode
+ * 4. Upsert one usage counter per metric (preserve existing used value if re-seeding;
+ *    a new counter carries over unused quota per the plan's rollover policy)
+ *
  * @param orgId - Internal organization ID
- * @returns Seed result with periodKey and remaining quota
+ * @returns Seed result with periodKey, remaining quota for the default metric,
+ *          and the seeded counters for every metric
  */
-export async function seedUsageCounter(orgId: string): Promise<SeedUsageResult> {
+export async function seedUsageCounter(
+  orgId: string
+): Promise<SeedUsageResult> {
   logger.info("Seeding usage counter for organization", { orgId });
 
   // Step 1: Fetch active subscription
   const subscription = await findActiveSubscriptionByOrganizationId(orgId);
-  
+
   if (!subscription) {
     throw new ApplicationError(
       `No active subscription found for organization: ${orgId}`,
@@ -55,7 +73,7 @@ export async function seedUsageCounter(orgId: string): Promise<SeedUsageResult>
 
   // Step 2: Derive periodKey from subscription.currentPeriodStart
   const periodKey = formatPeriodKey(subscription.currentPeriodStart);
-  
+
   logger.info("Period key derived", {
     orgId,
     periodKey,
@@ -64,7 +82,7 @@ export async function seedUsageCounter(orgId: string): Promise<SeedUsageResult>
 
   // Step 3: Calculate quota from PLANS_CONFIG
   const planCode = subscription.planCode as PlanCode;
-  
+
   if (!(planCode in PLANS_CONFIG)) {
     throw new ApplicationError(
       `Invalid plan code in subscription: ${planCode}`,
@@ -75,12 +93,12 @@ export async function seedUsageCounter(orgId: string): Promise<SeedUsageResult>
   }
 
   const planConfig = PLANS_CONFIG[planCode];
-  const included = planConfig.apiCalls;
+  const quotas = Object.entries(planConfig.quotas) as [Metric, number][];
 
-  logger.info("Quota calculated from plan", {
+  logger.info("Quotas calculated from plan", {
     orgId,
     planCode,
-    included,
+    quotas: planConfig.quotas,
   });
 
   // Step 4: Get organization to get clerkOrgId
@@ -94,32 +112,56 @@ export async function seedUsageCounter(orgId: string): Promise<SeedUsageResult>
     );
   }
 
-  // Step 5: Upsert usage counter
-  // This will preserve existing 'used' value if counter already exists
-  const counter = await upsertUsageCounter({
-    organizationId: orgId,
-    clerkOrgId: organization.clerkOrgId,
-    subscriptionId: subscription.id,
-    periodKey,
-    periodStart: subscription.currentPeriodStart,
-    periodEnd: subscription.currentPeriodEnd,
-    metric: "api_call",
-    included,
-  });
+  // Step 5: Upsert one usage counter per metric
+  // This will preserve existing 'used' values if counters already exist
+  const counters: SeededCounter[] = [];
+
+  for (const [metric, included] of quotas) {
+    // Only applies if the counter is created now
+    const rollover = await resolveQuotaRollover({
+      clerkOrgId: organization.clerkOrgId,
+      planCode,
+      metric,
+      periodStart: subscription.currentPeriodStart,
+      included,
+    });
+
+    const counter = await upsertUsageCounter({
+      organizationId: orgId,
+      clerkOrgId: organization.clerkOrgId,
+      subscriptionId: subscription.id,
+      periodKey,
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+      metric,
+      included,
+      rollover,
+    });
+    const rolledOver = counter.rolledOver ?? 0;
 
-  const remaining = included - counter.used;
+    counters.push({
+      metric,
+      included,
+      rolledOver,
+      used: counter.used,
+      remaining: included + rolledOver - counter.used,
+    });
+  }
+
+  const defaultCounter = counters.find(
+    (counter) => counter.metric === config.usage.defaultMetric
+  );
+  const remaining = defaultCounter?.remaining ?? 0;
 
-  logger.info("Usage counter seeded successfully", {
+  logger.info("Usage counters seeded successfully", {
     orgId,
     periodKey,
-    included,
-    used: counter.used,
-    remaining,
+    counters,
   });
 
   return {
     periodKey,
     remaining,
+    counters,
   };
 }
-
@@ -0,0 +1,191 @@
+/**
+ * Usage Threshold Service
+ *
+ * Business logic layer for usage threshold alerts.
+ * Records a threshold-crossed event the first time a usage counter reaches
+ * each configured percentage of its quota (included plus any units rolled
+ * over from earlier periods). Newly recorded events are published to tenant
+ * webhooks, along with quota.exhausted when an increment uses up the quota.
+ *
+ * @module lib/services/usage/usage-threshold-service
+ */
+
+import { config } from "../../config";
+import {
+  getCounterQuota,
+  UsageCounterRecord,
+} from "../../db/repositories/usage-repository";
+import {
+  createUsageThresholdEvent,
+  findUsageThresholdEvents,
+  UsageThresholdEventRecord,
+} from "../../db/repositories/usage-threshold-repository";
+import { publishWebhookEvent } from "../webhooks/outbound-webhook-service";
+import { logger } from "../../utils/logger";
+
+export interface ThresholdEvent {
+  id: string;
+  metric: string;
+  periodKey: string;
+  threshold: number;
+  included: number;
+  used: number;
+  createdAt: string;
+}
+
+export interface ListThresholdEventsResult {
+  events: ThresholdEvent[];
+}
+
+/**
+ * Finds thresholds crossed by moving usage from usedBefore to usedAfter
+ *
+ * A threshold t is crossed when usedBefore < t% of included <= usedAfter.
+ * Concurrent increments each cover a disjoint [before, after) range, so
+ * exactly one increment crosses any given threshold.
+ *
+ * @param included - Included quota (thresholds are skipped when 0)
+ * @param usedBefore - Usage before the increment
+ * @param usedAfter - Usage after the increment
+ * @param thresholds - Thresholds in percent (defaults to config.usage.alertThresholds)
+ * @returns Crossed thresholds in ascending order
+ */
+export function getCrossedThresholds(
+  included: number,
+  usedBefore: number,
+  usedAfter: number,
+  thresholds: readonly number[] = config.usage.alertThresholds
+): number[] {
+  if (included <= 0) {
+    return [];
+  }
+
+  return [...thresholds]
+    .sort((a, b) => a - b)
+    .filter(
+      (threshold) =>
+        usedBefore * 100 < included * threshold &&
+        usedAfter * 100 >= included * threshold
+    );
+}
+
+/**
+ * Records threshold-crossed events for a usage increment
+ *
+ * Called after the counter has been incremented. Each newly recorded event
+ * is published as usage.threshold_crossed; reaching the quota is also
+ * published as quota.exhausted. Events report the quota measured against
+ * (included plus rolled-over units) as included. Failures are logged and
+ * swallowed so alerting can never fail usage recording.
+ *
+ * @param counter - Usage counter after the increment
+ * @param value - Amount the counter was incremented by
+ * @returns Newly recorded events (already-recorded thresholds are skipped)
+ */
+export async function recordThresholdCrossings(
+  counter: UsageCounterRecord,
+  value: number
+): Promise<UsageThresholdEventRecord[]> {
+  const usedBefore = counter.used - value;
+  const quota = getCounterQuota(counter);
+  const crossed = getCrossedThresholds(quota, usedBefore, counter.used);
+  const exhausted =
+    getCrossedThresholds(quota, usedBefore, counter.used, [100]).length > 0;
+
+  if (crossed.length === 0 && !exhausted) {
+    return [];
+  }
+
+  const events: UsageThresholdEventRecord[] = [];
+
+  try {
+    for (const threshold of crossed) {
+      const event = await createUsageThresholdEvent({
+        usageCounterId: counter.id,
+        clerkOrgId: counter.clerkOrgId,
+        periodKey: counter.periodKey,
+        metric: counter.metric,
+        threshold,
+        included: quota,
+        used: counter.used,
+      });
+
+      if (event) {
+        events.push(event);
+        logger.info("Usage threshold crossed", {
+          clerkOrgId: counter.clerkOrgId,
+          periodKey: counter.periodKey,
+          metric: counter.metric,
+          threshold,
+          used: counter.used,
+          included: quota,
+        });
+
+        await publishWebhookEvent({
+          clerkOrgId: counter.clerkOrgId,
+          type: "usage.threshold_crossed",
+          eventId: `usage.threshold_crossed:${event.id}`,
+          data: {
+            metric: event.metric,
+            periodKey: event.periodKey,
+            threshold: event.threshold,
+            included: event.included,
+            used: event.used,
+          },
+        });
+      }
+    }
+  } catch (error) {
+    logger.error("Failed to record usage threshold crossings", {
+      clerkOrgId: counter.clerkOrgId,
+      usageCounterId: counter.id,
+      thresholds: crossed,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  if (exhausted) {
+    // One increment per counter crosses the quota, so the ID is per counter
+    await publishWebhookEvent({
+      clerkOrgId: counter.clerkOrgId,
+      type: "quota.exhausted",
+      eventId: `quota.exhausted:${counter.id}`,
+      data: {
+        metric: counter.metric,
+        periodKey: counter.periodKey,
+        included: quota,
+        used: counter.used,
+      },
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Lists threshold events for an organization, newest first
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param filters - Optional period/metric filters and result limit
+ * @returns Threshold events
+ */
+export async function listThresholdEvents(
+  clerkOrgId: string,
+  filters: { periodKey?: string; metric?: string; limit: number }
+): Promise<ListThresholdEventsResult> {
+  logger.info("Listing usage threshold events", { clerkOrgId, ...filters });
+
+  const events = await findUsageThresholdEvents(clerkOrgId, filters);
+
+  return {
+    events: events.map((event) => ({
+      id: event.id,
+      metric: event.metric,
+      periodKey: event.periodKey,
+      threshold: event.threshold,
+      included: event.included,
+      used: event.used,
+      createdAt: event.createdAt.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Outbound Webhook Service
+ *
+ * Business logic layer for tenant webhook endpoints.
+ * Manages endpoint registrations and fans published events out to the
+ * delivery log; the delivery job sends them.
+ *
+ * @module lib/services/webhooks/outbound-webhook-service
+ */
+
+import type { Prisma } from "@prisma/client";
+import { config } from "../../config";
+import { findOrganizationByClerkOrgId } from "../../db/repositories/org-repository";
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  findSubscribedWebhookEndpoints,
+  findWebhookEndpointById,
+  findWebhookEndpointsByClerkOrgId,
+  updateWebhookEndpoint,
+  WebhookEndpointRecord,
+} from "../../db/repositories/webhook-endpoint-repository";
+import { createWebhookDeliveries } from "../../db/repositories/webhook-delivery-repository";
+import { OrgNotFoundError } from "../../errors/org-errors";
+import { WebhookEndpointNotFoundError } from "../../errors/webhook-errors";
+import { generateWebhookSecret } from "../../utils/webhooks/outbound-webhook-signature";
+import { logger } from "../../utils/logger";
+
+export type WebhookEventType =
+  (typeof config.webhooks.outbound.eventTypes)[number];
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  events: string[];
+  description: string | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatedWebhookEndpoint extends WebhookEndpoint {
+  secret: string;
+}
+
+export interface WebhookEventPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  clerkOrgId: string;
+  data: Prisma.InputJsonObject;
+}
+
+/**
+ * Maps an endpoint record to its API shape (the secret is never included)
+ *
+ * @param endpoint - Endpoint record
+ * @returns Endpoint summary
+ */
+function toWebhookEndpoint(endpoint: WebhookEndpointRecord): WebhookEndpoint {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    events: endpoint.events,
+    description: endpoint.description,
+    enabled: endpoint.enabled,
+    createdAt: endpoint.createdAt.toISOString(),
+    updatedAt: endpoint.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Loads an endpoint owned by an organization
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param endpointId - Endpoint ID
+ * @returns Endpoint record
+ * @throws WebhookEndpointNotFoundError if missing or owned by another org
+ */
+async function getOwnedEndpoint(
+  clerkOrgId: string,
+  endpointId: string
+): Promise<WebhookEndpointRecord> {
+  const endpoint = await findWebhookEndpointById(endpointId);
+
+  if (!endpoint || endpoint.clerkOrgId !== clerkOrgId) {
+    throw new WebhookEndpointNotFoundError(
+      `Webhook endpoint not found: ${endpointId}`
+    );
+  }
+
+  return endpoint;
+}
+
+/**
+ * Registers a webhook endpoint for an organization
+ *
+ * The signing secret is generated here and returned only in this response.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param input - Endpoint URL, subscribed events and optional description
+ * @returns Created endpoint including its signing secret
+ * @throws OrgNotFoundError if organization doesn't exist
+ */
+export async function createEndpoint(
+  clerkOrgId: string,
+  input: { url: string; events: WebhookEventType[]; description?: string }
+): Promise<CreatedWebhookEndpoint> {
+  const organization = await findOrganizationByClerkOrgId(clerkOrgId);
+
+  if (!organization) {
+    throw new OrgNotFoundError(`Organization not found: ${clerkOrgId}`);
+  }
+
+  const secret = generateWebhookSecret();
+  const endpoint = await createWebhookEndpoint({
+    organizationId: organization.id,
+    clerkOrgId,
+    url: input.url,
+    secret,
+    events: input.events,
+    description: input.description ?? null,
+  });
+
+  logger.info("Webhook endpoint created", {
+    clerkOrgId,
+    endpointId: endpoint.id,
+    events: endpoint.events,
+  });
+
+  return { ...toWebhookEndpoint(endpoint), secret };
+}
+
+/**
+ * Lists webhook endpoints for an organization
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @returns Endpoint summaries
+ */
+export async function listEndpoints(
+  clerkOrgId: string
+): Promise<{ endpoints: WebhookEndpoint[] }> {
+  const endpoints = await findWebhookEndpointsByClerkOrgId(clerkOrgId);
+  return { endpoints: endpoints.map(toWebhookEndpoint) };
+}
+
+/**
+ * Updates a webhook endpoint
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param endpointId - Endpoint ID
+ * @param input - Fields to update
+ * @returns Updated endpoint summary
+ * @throws WebhookEndpointNotFoundError if missing or owned by another org
+ */
+export async function updateEndpoint(
+  clerkOrgId: string,
+  endpointId: string,
+  input: {
+    url?: string;
+    events?: WebhookEventType[];
+    description?: string | null;
+    enabled?: boolean;
+  }
+): Promise<WebhookEndpoint> {
+  await getOwnedEndpoint(clerkOrgId, endpointId);
+
+  const endpoint = await updateWebhookEndpoint(endpointId, input);
+
+  logger.info("Webhook endpoint updated", {
+    clerkOrgId,
+    endpointId,
+    fields: Object.keys(input),
+  });
+
+  return toWebhookEndpoint(endpoint);
+}
+
+/**
+ * Deletes a webhook endpoint and its delivery log
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param endpointId - Endpoint ID
+ * @throws WebhookEndpointNotFoundError if missing or owned by another org
+ */
+export async function deleteEndpoint(
+  clerkOrgId: string,
+  endpointId: string
+): Promise<void> {
+  await getOwnedEndpoint(clerkOrgId, endpointId);
+  await deleteWebhookEndpoint(endpointId);
+
+  logger.info("Webhook endpoint deleted", { clerkOrgId, endpointId });
+}
+
+/**
+ * Publishes an event to every endpoint subscribed to its type
+ *
+ * Enqueues one pending delivery per endpoint, due immediately. The event ID
+ * must be deterministic for the underlying occurrence: deliveries are unique
+ * per (endpoint, event ID), so re-publishing is a no-op. Failures are logged
+ * and swallowed so webhooks can never fail the operation that raised them.
+ *
+ * @param event - Organization, event type, deterministic event ID and data
+ * @returns Number of deliveries enqueued
+ */
+export async function publishWebhookEvent(event: {
+  clerkOrgId: string;
+  type: WebhookEventType;
+  eventId: string;
+  data: Prisma.InputJsonObject;
+}): Promise<number> {
+  try {
+    const endpoints = await findSubscribedWebhookEndpoints(
+      event.clerkOrgId,
+      event.type
+    );
+
+    if (endpoints.length === 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    const payload = {
+      id: event.eventId,
+      type: event.type,
+      createdAt: now.toISOString(),
+      clerkOrgId: event.clerkOrgId,
+      data: event.data,
+    } satisfies WebhookEventPayload;
+
+    const count = await createWebhookDeliveries(
+      endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        clerkOrgId: event.clerkOrgId,
+        eventId: event.eventId,
+        eventType: event.type,
+        payload,
+        nextAttemptAt: now,
+      }))
+    );
+
+    logger.info("Webhook event published", {
+      clerkOrgId: event.clerkOrgId,
+      eventId: event.eventId,
+      eventType: event.type,
+      deliveries: count,
+    });
+
+    return count;
+  } catch (error) {
+    logger.error("Failed to publish webhook event", {
+      clerkOrgId: event.clerkOrgId,
+      eventId: event.eventId,
+      eventType: event.type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return 0;
+  }
+}
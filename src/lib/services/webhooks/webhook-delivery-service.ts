@@ -0,0 +1,340 @@
+/**
+ * Webhook Delivery Service
+ *
+ * Business logic layer for sending outbound webhooks.
+ * Signs each delivery with its endpoint's secret, retries failures with
+ * exponential backoff, and supports manual redelivery from the log.
+ *
+ * @module lib/services/webhooks/webhook-delivery-service
+ */
+
+import { config } from "../../config";
+import {
+  claimWebhookDelivery,
+  findDueWebhookDeliveries,
+  findWebhookDeliveries,
+  findWebhookDeliveryById,
+  recordWebhookDeliveryAttempt,
+  WebhookDeliveryRecord,
+  WebhookDeliveryStatus,
+  WebhookDeliveryWithEndpoint,
+} from "../../db/repositories/webhook-delivery-repository";
+import { WebhookEndpointRecord } from "../../db/repositories/webhook-endpoint-repository";
+import { WebhookDeliveryNotFoundError } from "../../errors/webhook-errors";
+import { postOutbound } from "../../utils/http/outbound-request";
+import { buildWebhookSignatureHeader } from "../../utils/webhooks/outbound-webhook-signature";
+import { ApplicationError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export interface DeliverWebhooksResult {
+  checked: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+  skipped: number;
+  errors: number;
+}
+
+interface SendResult {
+  responseStatus: number | null;
+  error: string | null;
+}
+
+/**
+ * Maps a delivery record to its API shape
+ *
+ * @param delivery - Delivery record
+ * @returns Delivery summary
+ */
+function toWebhookDelivery(delivery: WebhookDeliveryRecord): WebhookDelivery {
+  return {
+    id: delivery.id,
+    endpointId: delivery.endpointId,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    status: delivery.status as WebhookDeliveryStatus,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+    lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+    responseStatus: delivery.responseStatus,
+    lastError: delivery.lastError,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Computes the wait before the next automatic attempt
+ *
+ * @param attempts - Attempts made so far (>= 1)
+ * @returns Delay in seconds: base * 2^(attempts-1), capped at the maximum
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  const { backoffBaseSeconds, backoffMaxSeconds } = config.webhooks.outbound;
+  return Math.min(backoffBaseSeconds * 2 ** (attempts - 1), backoffMaxSeconds);
+}
+
+/**
+ * Sends a signed delivery to its endpoint
+ *
+ * The signature is computed at send time so its timestamp is always fresh,
+ * including on retries. Any 2xx response counts as delivered.
+ *
+ * @param delivery - Delivery to send
+ * @param endpoint - Target endpoint
+ * @returns Response status (null on network error) and error message if failed
+ */
+async function sendWebhook(
+  delivery: WebhookDeliveryRecord,
+  endpoint: WebhookEndpointRecord
+): Promise<SendResult> {
+  const { signatureHeader, timeoutMs } = config.webhooks.outbound;
+  const body = JSON.stringify(delivery.payload);
+
+  try {
+    const response = await postOutbound(
+      endpoint.url,
+      body,
+      {
+        [signatureHeader]: buildWebhookSignatureHeader(body, endpoint.secret),
+        "x-webhook-id": delivery.eventId,
+        "x-webhook-event": delivery.eventType,
+      },
+      timeoutMs
+    );
+
+    if (response.status >= 200 && response.status < 300) {
+      return { responseStatus: response.status, error: null };
+    }
+
+    return {
+      responseStatus: response.status,
+      error: `Endpoint responded with HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      responseStatus: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Makes one automatic delivery attempt and schedules the next one
+ *
+ * Flow:
+ * 1. Fail deliveries whose endpoint was disabled after they were queued
+ * 2. Send the signed payload
+ * 3. On success mark delivered; on failure back off, or give up after
+ *    config.webhooks.outbound.maxAttempts
+ *
+ * @param delivery - Claimed delivery with its endpoint
+ * @param now - Reference time for scheduling the retry
+ * @returns Resulting delivery status
+ */
+export async function attemptWebhookDelivery(
+  delivery: WebhookDeliveryWithEndpoint,
+  now: Date = new Date()
+): Promise<WebhookDeliveryStatus> {
+  // Step 1: Skip disabled endpoints
+  if (!delivery.endpoint.enabled) {
+    await recordWebhookDeliveryAttempt(delivery.id, {
+      status: "failed",
+      attempts: delivery.attempts,
+      nextAttemptAt: null,
+      lastAttemptAt: now,
+      responseStatus: null,
+      lastError: "Endpoint disabled",
+    });
+    return "failed";
+  }
+
+  // Step 2: Send
+  const result = await sendWebhook(delivery, delivery.endpoint);
+  const attempts = delivery.attempts + 1;
+
+  // Step 3: Record outcome and schedule
+  let status: WebhookDeliveryStatus;
+  let nextAttemptAt: Date | null = null;
+
+  if (!result.error) {
+    status = "succeeded";
+  } else if (attempts >= config.webhooks.outbound.maxAttempts) {
+    status = "failed";
+  } else {
+    status = "pending";
+    nextAttemptAt = new Date(
+      now.getTime() + getRetryDelaySeconds(attempts) * 1000
+    );
+  }
+
+  await recordWebhookDeliveryAttempt(delivery.id, {
+    status,
+    attempts,
+    nextAttemptAt,
+    lastAttemptAt: now,
+    responseStatus: result.responseStatus,
+    lastError: result.error,
+  });
+
+  logger.info("Webhook delivery attempted", {
+    deliveryId: delivery.id,
+    endpointId: delivery.endpointId,
+    eventType: delivery.eventType,
+    attempts,
+    status,
+    responseStatus: result.responseStatus,
+    error: result.error,
+  });
+
+  return status;
+}
+
+/**
+ * Sends every pending delivery whose next attempt is due
+ *
+ * Each delivery is claimed before sending, so overlapping job runs never
+ * send the same attempt twice. A claim acts as a lease: if the worker dies
+ * mid-attempt, the delivery becomes due again once the lease expires.
+ * Deliveries are sent one after another, so each lease (and the attempt's
+ * retry schedule) starts when that delivery is claimed, not when the run
+ * started.
+ *
+ * @param now - Reference time for finding due deliveries (defaults to
+ *   current time)
+ * @returns Summary of the delivery run
+ */
+export async function deliverPendingWebhooks(
+  now: Date = new Date()
+): Promise<DeliverWebhooksResult> {
+  const { deliveryBatchSize, timeoutMs } = config.webhooks.outbound;
+  const deliveries = await findDueWebhookDeliveries(now, deliveryBatchSize);
+
+  logger.info("Delivering pending webhooks", { count: deliveries.length });
+
+  const result: DeliverWebhooksResult = {
+    checked: deliveries.length,
+    delivered: 0,
+    retrying: 0,
+    failed: 0,
+    skipped: 0,
+    errors: 0,
+  };
+
+  for (const delivery of deliveries) {
+    try {
+      const attemptNow = new Date();
+      const claimed = await claimWebhookDelivery(
+        delivery.id,
+        delivery.nextAttemptAt as Date,
+        new Date(attemptNow.getTime() + timeoutMs * 2)
+      );
+
+      if (!claimed) {
+        result.skipped += 1;
+        continue;
+      }
+
+      const status = await attemptWebhookDelivery(delivery, attemptNow);
+      if (status === "succeeded") {
+        result.delivered += 1;
+      } else if (status === "pending") {
+        result.retrying += 1;
+      } else {
+        result.failed += 1;
+      }
+    } catch (error) {
+      result.errors += 1;
+      logger.error("Failed to process webhook delivery", {
+        deliveryId: delivery.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Manually redelivers a logged webhook
+ *
+ * Sends the original payload once, immediately, with a fresh signature.
+ * Success marks the delivery succeeded; failure leaves its status and
+ * retry schedule untouched.
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param deliveryId - Delivery ID
+ * @returns Updated delivery summary
+ * @throws WebhookDeliveryNotFoundError if missing or owned by another org
+ * @throws ApplicationError if the endpoint is disabled
+ */
+export async function redeliverWebhook(
+  clerkOrgId: string,
+  deliveryId: string
+): Promise<WebhookDelivery> {
+  const delivery = await findWebhookDeliveryById(deliveryId);
+
+  if (!delivery || delivery.clerkOrgId !== clerkOrgId) {
+    throw new WebhookDeliveryNotFoundError(
+      `Webhook delivery not found: ${deliveryId}`
+    );
+  }
+
+  if (!delivery.endpoint.enabled) {
+    throw new ApplicationError(
+      `Webhook endpoint is disabled: ${delivery.endpointId}`,
+      "WEBHOOK_ENDPOINT_DISABLED",
+      409
+    );
+  }
+
+  const result = await sendWebhook(delivery, delivery.endpoint);
+
+  const updated = await recordWebhookDeliveryAttempt(delivery.id, {
+    status: result.error
+      ? (delivery.status as WebhookDeliveryStatus)
+      : "succeeded",
+    attempts: delivery.attempts + 1,
+    nextAttemptAt: result.error ? delivery.nextAttemptAt : null,
+    lastAttemptAt: new Date(),
+    responseStatus: result.responseStatus,
+    lastError: result.error,
+  });
+
+  logger.info("Webhook manually redelivered", {
+    clerkOrgId,
+    deliveryId,
+    responseStatus: result.responseStatus,
+    error: result.error,
+  });
+
+  return toWebhookDelivery(updated);
+}
+
+/**
+ * Lists webhook deliveries for an organization, newest first
+ *
+ * @param clerkOrgId - Clerk organization ID
+ * @param filters - Optional endpoint/status filters and result limit
+ * @returns Delivery summaries
+ */
+export async function listDeliveries(
+  clerkOrgId: string,
+  filters: { endpointId?: string; status?: string; limit: number }
+): Promise<{ deliveries: WebhookDelivery[] }> {
+  const deliveries = await findWebhookDeliveries(clerkOrgId, filters);
+  return { deliveries: deliveries.map(toWebhookDelivery) };
+}
@@ -1,9 +1,9 @@
 /**
  * Webhook Processor Service
- * 
+ *
  * Business logic layer for processing Stripe webhook events.
  * Handles event routing, subscription synchronization, and state convergence.
- * 
+ *
  * @module lib/services/webhooks/webhook-processor-service
  */
 
@@ -15,7 +15,10 @@ import {
 import {
   findSubscriptionByStripeSubscriptionId,
   updateSubscriptionFromStripe,
+  SubscriptionRecord,
 } from "../../db/repositories/subscription-repository";
+import { publishWebhookEvent } from "./outbound-webhook-service";
+import { grantCreditsForCheckout } from "../credits/credit-service";
 import { logger } from "../../utils/logger";
 import { ApplicationError } from "../../utils/errors";
 
@@ -25,7 +28,7 @@ export interface ProcessWebhookResult {
 
 /**
  * Processes a Stripe webhook event: routes to handler and updates DB state
- * 
+ *
  * Flow:
  * 1. Fetch event from WebhookQueue
  * 2. Check if already processed (skip if processed = true)
@@ -33,7 +36,7 @@ export interface ProcessWebhookResult {
  * 4. Update DB state to mirror Stripe
  * 5. Mark event as processed
  * 6. Return convergence result
- * 
+ *
  * @param eventId - Stripe event ID to process
  * @returns Process result with convergence status
  */
@@ -92,12 +95,16 @@ export async function processStripeWebhook(
       case "customer.subscription.trial_will_end":
         await handleSubscriptionTrialWillEnd(event);
         break;
+      case "checkout.session.completed":
+      case "checkout.session.async_payment_succeeded":
+        await handleCheckoutSessionPaid(event);
+        break;
       default:
         logger.info("Unhandled webhook event type (no-op)", {
           eventId,
           eventType: webhookEvent.eventType,
         });
-        // Don't throw error for unhandled events - just log and mark as processed
+      // Don't throw error for unhandled events - just log and mark as processed
     }
 
     // Step 5: Mark event as processed
@@ -123,7 +130,7 @@ export async function processStripeWebhook(
 
 /**
  * Handles customer.subscription.created event
- * 
+ *
  * @param event - Stripe event
  */
 async function handleSubscriptionCreated(event: Stripe.Event): Promise<void> {
@@ -136,10 +143,35 @@ async function handleSubscriptionCreated(event: Stripe.Event): Promise<void> {
   // This handler is mainly for logging/auditing
 }
 
+/**
+ * Publishes subscription.status_changed to the organization's webhooks
+ *
+ * @param event - Stripe event that caused the change (its ID keys the delivery)
+ * @param dbSubscription - Subscription as stored before the change
+ * @param status - New subscription status
+ */
+async function publishStatusChanged(
+  event: Stripe.Event,
+  dbSubscription: SubscriptionRecord,
+  status: string
+): Promise<void> {
+  await publishWebhookEvent({
+    clerkOrgId: dbSubscription.clerkOrgId,
+    type: "subscription.status_changed",
+    eventId: `subscription.status_changed:${event.id}`,
+    data: {
+      subscriptionId: dbSubscription.id,
+      planCode: dbSubscription.planCode,
+      previousStatus: dbSubscription.status,
+      status,
+    },
+  });
+}
+
 /**
  * Handles customer.subscription.updated event
  * Updates subscription status, periods, and trial end date
- * 
+ *
  * @param event - Stripe event
  */
 async function handleSubscriptionUpdated(event: Stripe.Event): Promise<void> {
@@ -152,9 +184,8 @@ async function handleSubscriptionUpdated(event: Stripe.Event): Promise<void> {
   });
 
   // Find subscription in DB
-  const dbSubscription = await findSubscriptionByStripeSubscriptionId(
-    stripeSubscriptionId
-  );
+  const dbSubscription =
+    await findSubscriptionByStripeSubscriptionId(stripeSubscriptionId);
 
   if (!dbSubscription) {
     logger.warn("Subscription not found in DB for update", {
@@ -188,12 +219,16 @@ async function handleSubscriptionUpdated(event: Stripe.Event): Promise<void> {
     subscriptionId: stripeSubscriptionId,
     status: subscription.status,
   });
+
+  if (dbSubscription.status !== subscription.status) {
+    await publishStatusChanged(event, dbSubscription, subscription.status);
+  }
 }
 
 /**
  * Handles customer.subscription.deleted event
  * Marks subscription as canceled
- * 
+ *
  * @param event - Stripe event
  */
 async function handleSubscriptionDeleted(event: Stripe.Event): Promise<void> {
@@ -205,9 +240,8 @@ async function handleSubscriptionDeleted(event: Stripe.Event): Promise<void> {
   });
 
   // Find subscription in DB
-  const dbSubscription = await findSubscriptionByStripeSubscriptionId(
-    stripeSubscriptionId
-  );
+  const dbSubscription =
+    await findSubscriptionByStripeSubscriptionId(stripeSubscriptionId);
 
   if (!dbSubscription) {
     logger.warn("Subscription not found in DB for deletion", {
@@ -227,14 +261,20 @@ async function handleSubscriptionDeleted(event: Stripe.Event): Promise<void> {
   logger.info("Subscription marked as canceled", {
     subscriptionId: stripeSubscriptionId,
   });
+
+  if (dbSubscription.status !== "canceled") {
+    await publishStatusChanged(event, dbSubscription, "canceled");
+  }
 }
 
 /**
  * Handles invoice.payment_succeeded event
- * 
+ *
  * @param event - Stripe event
  */
-async function handleInvoicePaymentSucceeded(event: Stripe.Event): Promise<void> {
+async function handleInvoicePaymentSucceeded(
+  event: Stripe.Event
+): Promise<void> {
   const invoice = event.data.object as Stripe.Invoice;
   logger.info("Handling invoice payment succeeded", {
     invoiceId: invoice.id,
@@ -246,7 +286,7 @@ async function handleInvoicePaymentSucceeded(event: Stripe.Event): Promise<void>
 
 /**
  * Handles invoice.payment_failed event
- * 
+ *
  * @param event - Stripe event
  */
 async function handleInvoicePaymentFailed(event: Stripe.Event): Promise<void> {
@@ -261,16 +301,60 @@ async function handleInvoicePaymentFailed(event: Stripe.Event): Promise<void> {
 
 /**
  * Handles customer.subscription.trial_will_end event
- * 
+ *
  * @param event - Stripe event
  */
-async function handleSubscriptionTrialWillEnd(event: Stripe.Event): Promise<void> {
+async function handleSubscriptionTrialWillEnd(
+  event: Stripe.Event
+): Promise<void> {
   const subscription = event.data.object as Stripe.Subscription;
   logger.info("Handling subscription trial will end", {
     subscriptionId: subscription.id,
     trialEnd: subscription.trial_end,
   });
-  // Trial ending soon - this handler is mainly for logging/notifications
+  // Trial ending soon - notify the tenant's webhooks
   // Actual status change will come via subscription.updated event
+  const dbSubscription = await findSubscriptionByStripeSubscriptionId(
+    subscription.id
+  );
+
+  if (!dbSubscription) {
+    logger.warn("Subscription not found in DB for trial ending", {
+      stripeSubscriptionId: subscription.id,
+    });
+    return;
+  }
+
+  await publishWebhookEvent({
+    clerkOrgId: dbSubscription.clerkOrgId,
+    type: "trial.ending",
+    eventId: `trial.ending:${event.id}`,
+    data: {
+      subscriptionId: dbSubscription.id,
+      planCode: dbSubscription.planCode,
+      trialEndsAt: subscription.trial_end
+        ? new Date(subscription.trial_end * 1000).toISOString()
+        : null,
+    },
+  });
 }
 
+/**
+ * Handles checkout.session.completed and
+ * checkout.session.async_payment_succeeded events
+ *
+ * Grants the credits of a paid credit pack purchase. Completed sessions
+ * paid by a delayed method are granted on async_payment_succeeded instead.
+ *
+ * @param event - Stripe event
+ */
+async function handleCheckoutSessionPaid(event: Stripe.Event): Promise<void> {
+  const session = event.data.object as Stripe.Checkout.Session;
+  logger.info("Handling checkout session paid", {
+    checkoutSessionId: session.id,
+    eventType: event.type,
+    paymentStatus: session.payment_status,
+  });
+
+  await grantCreditsForCheckout(session);
+}
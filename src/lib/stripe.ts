@@ -6,28 +6,204 @@ export const stripe = new Stripe(env.STRIPE_SECRET_KEY, {
   typescript: true,
 });
 
+// Metrics metered in UsageCounter (one counter per metric per period)
+export const METRICS = ["api_call", "token", "storage_gb", "export"] as const;
+
+export type Metric = (typeof METRICS)[number];
+
+export type PlanCode = "trial" | "starter" | "growth" | "pro";
+
+// Metered Stripe price billed for usage beyond the included quota.
+// The price must be backed by a Stripe meter listening for meterEventName.
+export interface OverageConfig {
+  stripePriceId: string;
+  meterEventName: string;
+}
+
+// How usage beyond the included quota is enforced
+// hard: deny once included is used up
+// soft: allow a burst of burstPercent% over included, then deny
+// unlimited: never deny; all overage is billed through the overage prices
+export type EnforcementMode = "hard" | "soft" | "unlimited";
+
+export interface EnforcementPolicy {
+  mode: EnforcementMode;
+  burstPercent?: number;
+}
+
+// How unused quota carries over into the next period
+// none: unused quota is forfeited at period end
+// full: all unused quota carries over
+// units: at most `limit` units carry over
+// percent: at most `limit`% of the next period's included quota carries over
+// Rolled-over units are used before the period's own quota and expire after
+// expiresAfterPeriods periods (default 1).
+export type RolloverMode = "none" | "full" | "units" | "percent";
+
+export interface RolloverPolicy {
+  mode: RolloverMode;
+  limit?: number;
+  expiresAfterPeriods?: number;
+}
+
+// Short-window request limits, enforced as token buckets alongside the
+// per-period quotas. Each bucket holds up to its limit and refills evenly
+// over its window, so a full bucket allows a burst of exactly the limit.
+export interface RateLimitPolicy {
+  requestsPerSecond: number;
+  requestsPerMinute: number;
+}
+
+export interface PlanConfig {
+  stripePriceId: string;
+  quotas: Record<Metric, number>;
+  trialDays: number;
+  enforcement: EnforcementPolicy;
+  rollover: RolloverPolicy;
+  rateLimit: RateLimitPolicy;
+  overage?: Partial<Record<Metric, OverageConfig>>;
+}
+
 // Plan configuration from your docs
-export const PLANS_CONFIG = {
+// quotas: included amount per metric per billing period
+// enforcement: what happens once included is used up
+// rollover: what happens to included quota left unused at period end
+// rateLimit: requests allowed per second and per minute
+// overage: optional metered prices; metrics without one are not billed past quota
+export const PLANS_CONFIG: Record<PlanCode, PlanConfig> = {
   trial: {
     stripePriceId: "price_1SF55833pr8E7tWLycMY8XKB",
-    apiCalls: 30,
+    quotas: {
+      api_call: 30,
+      token: 50000,
+      storage_gb: 1,
+      export: 5,
+    },
     trialDays: 14,
+    rateLimit: {
+      requestsPerSecond: 2,
+      requestsPerMinute: 30,
+    },
+    enforcement: {
+      mode: "hard",
+    },
+    rollover: {
+      mode: "none",
+    },
   },
   starter: {
     stripePriceId: "price_1SF55w33pr8E7tWLQJNWOvxd",
-    apiCalls: 60,
+    quotas: {
+      api_call: 60,
+      token: 250000,
+      storage_gb: 5,
+      export: 20,
+    },
     trialDays: 0,
+    rateLimit: {
+      requestsPerSecond: 5,
+      requestsPerMinute: 120,
+    },
+    enforcement: {
+      mode: "hard",
+    },
+    rollover: {
+      mode: "none",
+    },
   },
   growth: {
     stripePriceId: "price_1SF56S33pr8E7tWLslF4FKKW",
-    apiCalls: 300,
+    quotas: {
+      api_call: 300,
+      token: 1000000,
+      storage_gb: 25,
+      export: 100,
+    },
     trialDays: 0,
+    rateLimit: {
+      requestsPerSecond: 20,
+      requestsPerMinute: 600,
+    },
+    enforcement: {
+      mode: "soft",
+      burstPercent: 20,
+    },
+    rollover: {
+      mode: "percent",
+      limit: 25,
+      expiresAfterPeriods: 1,
+    },
+    overage: {
+      api_call: {
+        stripePriceId: "price_growth_api_call_overage",
+        meterEventName: "api_call_overage",
+      },
+    },
   },
   pro: {
     stripePriceId: "price_1SF56w33pr8E7tWLzL6eOFPW",
-    apiCalls: 1500,
+    quotas: {
+      api_call: 1500,
+      token: 5000000,
+      storage_gb: 100,
+      export: 500,
+    },
     trialDays: 0,
+    rateLimit: {
+      requestsPerSecond: 50,
+      requestsPerMinute: 3000,
+    },
+    enforcement: {
+      mode: "unlimited",
+    },
+    rollover: {
+      mode: "full",
+      expiresAfterPeriods: 3,
+    },
+    overage: {
+      api_call: {
+        stripePriceId: "price_pro_api_call_overage",
+        meterEventName: "api_call_overage",
+      },
+      token: {
+        stripePriceId: "price_pro_token_overage",
+        meterEventName: "token_overage",
+      },
+      storage_gb: {
+        stripePriceId: "price_pro_storage_gb_overage",
+        meterEventName: "storage_gb_overage",
+      },
+      export: {
+        stripePriceId: "price_pro_export_overage",
+        meterEventName: "export_overage",
+      },
+    },
   },
-} as const;
+};
+
+export type CreditPackCode = "api_call_1k" | "api_call_10k";
 
-export type PlanCode = keyof typeof PLANS_CONFIG;
+// One-time top-up pack. A purchase grants `credits` units of `metric` that
+// are drawn once a period's included quota is used up, and expire
+// `validDays` after purchase.
+export interface CreditPackConfig {
+  stripePriceId: string;
+  metric: Metric;
+  credits: number;
+  validDays: number;
+}
+
+export const CREDIT_PACKS: Record<CreditPackCode, CreditPackConfig> = {
+  api_call_1k: {
+    stripePriceId: "price_credits_api_call_1k",
+    metric: "api_call",
+    credits: 1000,
+    validDays: 365,
+  },
+  api_call_10k: {
+    stripePriceId: "price_credits_api_call_10k",
+    metric: "api_call",
+    credits: 10000,
+    validDays: 365,
+  },
+};
@@ -0,0 +1,96 @@
+/**
+ * Outbound HTTP Requests
+ *
+ * Minimal JSON POST over node's http/https modules, used for deliveries to
+ * tenant webhook endpoints. Deliberately avoids global fetch so delivery
+ * behaves the same in every runtime and can be exercised against a local
+ * HTTP server in tests. Targets on loopback, private and other reserved
+ * addresses are refused unless config.webhooks.outbound.allowPrivateNetworks
+ * is set.
+ *
+ * @module lib/utils/http/outbound-request
+ */
+
+import http from "http";
+import https from "https";
+import { config } from "../../config";
+import {
+  isPublicHostname,
+  publicAddressLookup,
+} from "../security/outbound-address";
+
+export interface OutboundResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * Sends a POST request with a raw body
+ *
+ * Resolves with any HTTP status (callers decide what counts as success);
+ * rejects on network errors and timeouts, and without connecting when the
+ * host is (or resolves to) a non-public address.
+ *
+ * @param url - Target URL (http or https)
+ * @param body - Raw request body
+ * @param headers - Additional request headers
+ * @param timeoutMs - Request timeout in milliseconds
+ * @returns Response status and body (truncated to 1 KB)
+ */
+export function postOutbound(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number
+): Promise<OutboundResponse> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const transport = target.protocol === "https:" ? https : http;
+    const publicOnly = !config.webhooks.outbound.allowPrivateNetworks;
+
+    // IP literals are connected to without a lookup, so check them here
+    if (publicOnly && !isPublicHostname(target.hostname)) {
+      reject(
+        new Error(`Refusing to connect to non-public host ${target.host}`)
+      );
+      return;
+    }
+
+    const request = transport.request(
+      target,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "content-length": Buffer.byteLength(body).toString(),
+          ...headers,
+        },
+        timeout: timeoutMs,
+        ...(publicOnly && { lookup: publicAddressLookup }),
+      },
+      (response) => {
+        let responseBody = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk: string) => {
+          if (responseBody.length < 1024) {
+            responseBody += chunk;
+          }
+        });
+        response.on("end", () => {
+          resolve({
+            status: response.statusCode ?? 0,
+            body: responseBody.slice(0, 1024),
+          });
+        });
+      }
+    );
+
+    request.on("timeout", () => {
+      request.destroy(new Error(`Request timed out after ${timeoutMs}ms`));
+    });
+    request.on("error", reject);
+
+    request.write(body);
+    request.end();
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * Rate Limit Header Utilities
+ *
+ * Builds the IETF draft RateLimit-Limit / RateLimit-Remaining /
+ * RateLimit-Reset headers for quota responses, so clients can pace
+ * themselves without parsing the body.
+ *
+ * @module lib/utils/http/rate-limit-headers
+ */
+
+export const HEADER_RATE_LIMIT_LIMIT = "RateLimit-Limit";
+export const HEADER_RATE_LIMIT_REMAINING = "RateLimit-Remaining";
+export const HEADER_RATE_LIMIT_RESET = "RateLimit-Reset";
+export const HEADER_RETRY_AFTER = "Retry-After";
+
+export interface QuotaWindow {
+  limit: number; // included quota for the period
+  remaining: number;
+  resetAt: string; // ISO 8601 end of the period (UsageCounter.periodEnd)
+}
+
+/**
+ * Seconds until a quota window resets
+ *
+ * @param resetAt - ISO 8601 reset time
+ * @param now - Reference time (defaults to current time)
+ * @returns Whole seconds until resetAt, rounded up (0 once it has passed)
+ */
+export function secondsUntilReset(
+  resetAt: string,
+  now: Date = new Date()
+): number {
+  return Math.max(Math.ceil((Date.parse(resetAt) - now.getTime()) / 1000), 0);
+}
+
+/**
+ * Builds RateLimit-* headers for a quota window
+ *
+ * RateLimit-Reset is delta-seconds until the period ends, as the draft
+ * specifies, rather than a timestamp.
+ *
+ * @param window - Limit, remaining quota and reset time
+ * @param now - Reference time (defaults to current time)
+ * @returns Header map for NextResponse
+ */
+export function buildRateLimitHeaders(
+  window: QuotaWindow,
+  now: Date = new Date()
+): Record<string, string> {
+  return {
+    [HEADER_RATE_LIMIT_LIMIT]: String(window.limit),
+    [HEADER_RATE_LIMIT_REMAINING]: String(Math.max(window.remaining, 0)),
+    [HEADER_RATE_LIMIT_RESET]: String(secondsUntilReset(window.resetAt, now)),
+  };
+}
+
+/**
+ * Builds the headers of a 429 quota denial
+ *
+ * RateLimit-* headers plus Retry-After pointing at the period reset
+ * (at least one second, so clients never retry immediately).
+ *
+ * @param window - Limit, remaining quota and reset time
+ * @param now - Reference time (defaults to current time)
+ * @returns Header map for NextResponse
+ */
+export function buildQuotaDenialHeaders(
+  window: QuotaWindow,
+  now: Date = new Date()
+): Record<string, string> {
+  return {
+    ...buildRateLimitHeaders(window, now),
+    [HEADER_RETRY_AFTER]: String(
+      Math.max(secondsUntilReset(window.resetAt, now), 1)
+    ),
+  };
+}
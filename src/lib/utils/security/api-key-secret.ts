@@ -0,0 +1,54 @@
+/**
+ * API Key Secrets
+ *
+ * Utilities for issuing and hashing org-scoped API keys.
+ * Key format: `msk_<8 hex>_<48 hex>`. The leading `msk_<8 hex>` is the
+ * key's prefix, stored in clear so admins can tell keys apart; the full key
+ * is only stored as its SHA-256 hash.
+ *
+ * @module lib/utils/security/api-key-secret
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { config } from "../../config";
+
+export interface GeneratedApiKey {
+  key: string; // full key, shown to the admin once
+  prefix: string;
+  keyHash: string;
+}
+
+/**
+ * Whether a bearer token is an API key (rather than a Clerk session token)
+ *
+ * @param token - Bearer token
+ * @returns true if the token carries the API key prefix
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(config.apiKeys.prefix);
+}
+
+/**
+ * Hashes an API key for storage and lookup
+ *
+ * Keys carry 192 bits of randomness, so a plain SHA-256 is enough; no salt
+ * or slow hash is needed.
+ *
+ * @param key - Full API key
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Generates a new API key
+ *
+ * @returns Full key, its visible prefix and its hash
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const prefix = `${config.apiKeys.prefix}${randomBytes(4).toString("hex")}`;
+  const key = `${prefix}_${randomBytes(24).toString("hex")}`;
+
+  return { key, prefix, keyHash: hashApiKey(key) };
+}
@@ -0,0 +1,139 @@
+/**
+ * Outbound Address Checks
+ *
+ * Guards requests to tenant-supplied URLs (webhook endpoints) against
+ * server-side request forgery: loopback, private, link-local (including
+ * cloud metadata at 169.254.169.254) and other reserved addresses are
+ * refused, both when a URL is registered and for the address a hostname
+ * resolves to when the request is sent.
+ *
+ * @module lib/utils/security/outbound-address
+ */
+
+import dns from "dns";
+import net from "net";
+
+const RESERVED_SUBNETS: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"], // "this" network
+  ["10.0.0.0", 8, "ipv4"], // private
+  ["100.64.0.0", 10, "ipv4"], // carrier-grade NAT
+  ["127.0.0.0", 8, "ipv4"], // loopback
+  ["169.254.0.0", 16, "ipv4"], // link-local, cloud metadata
+  ["172.16.0.0", 12, "ipv4"], // private
+  ["192.0.0.0", 24, "ipv4"], // IETF protocol assignments
+  ["192.0.2.0", 24, "ipv4"], // documentation
+  ["192.88.99.0", 24, "ipv4"], // 6to4 relay
+  ["192.168.0.0", 16, "ipv4"], // private
+  ["198.18.0.0", 15, "ipv4"], // benchmarking
+  ["198.51.100.0", 24, "ipv4"], // documentation
+  ["203.0.113.0", 24, "ipv4"], // documentation
+  ["224.0.0.0", 4, "ipv4"], // multicast
+  ["240.0.0.0", 4, "ipv4"], // reserved, broadcast
+  ["::", 128, "ipv6"], // unspecified
+  ["::1", 128, "ipv6"], // loopback
+  ["64:ff9b::", 96, "ipv6"], // NAT64
+  ["100::", 64, "ipv6"], // discard
+  ["2001:db8::", 32, "ipv6"], // documentation
+  ["fc00::", 7, "ipv6"], // unique local
+  ["fe80::", 10, "ipv6"], // link-local
+  ["ff00::", 8, "ipv6"], // multicast
+];
+
+const reserved = new net.BlockList();
+for (const [prefix, length, family] of RESERVED_SUBNETS) {
+  reserved.addSubnet(prefix, length, family);
+}
+
+// Names that resolve inside the network rather than on the internet
+const LOCAL_HOSTNAME_SUFFIXES = [".localhost", ".local", ".internal"];
+
+/**
+ * Whether an IP address is publicly routable
+ *
+ * IPv4-mapped IPv6 addresses are checked as their IPv4 address.
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns false for loopback, private, link-local and reserved addresses,
+ *   and for anything that isn't an IP address
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+
+  if (family === 0) {
+    return false;
+  }
+
+  return !reserved.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Whether a URL hostname may be used as an outbound target
+ *
+ * IP literals must be public addresses; names must be fully qualified and
+ * not local (localhost, *.local, *.internal). A name can still resolve to
+ * a private address, so the resolved address is checked again at send time
+ * (see publicAddressLookup).
+ *
+ * @param hostname - Hostname as parsed by URL (IPv6 in brackets)
+ * @returns true if the hostname is allowed
+ */
+export function isPublicHostname(hostname: string): boolean {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+
+  if (net.isIP(host)) {
+    return isPublicAddress(host);
+  }
+
+  return (
+    host.includes(".") &&
+    host !== "localhost" &&
+    !LOCAL_HOSTNAME_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  );
+}
+
+/**
+ * DNS lookup for http(s).request that refuses non-public addresses
+ *
+ * Checks the addresses the connection is actually made to, so a hostname
+ * re-pointed at a private address after registration is still refused.
+ */
+export const publicAddressLookup: net.LookupFunction = (
+  hostname,
+  options,
+  callback
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+
+    if (blocked) {
+      callback(
+        new Error(
+          `Refusing to connect to non-public address ${blocked.address} for ${hostname}`
+        ),
+        "",
+        0
+      );
+      return;
+    }
+
+    if (options.all) {
+      (
+        callback as unknown as (
+          error: null,
+          addresses: dns.LookupAddress[]
+        ) => void
+      )(null, addresses);
+      return;
+    }
+
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
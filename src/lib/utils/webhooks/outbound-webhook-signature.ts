@@ -0,0 +1,96 @@
+/**
+ * Outbound Webhook Signatures
+ *
+ * Utilities for signing webhooks sent to tenant endpoints.
+ * Header format mirrors Stripe's: `t=<unix seconds>,v1=<hex HMAC-SHA256>`,
+ * where the HMAC covers `${t}.${body}` with the endpoint's secret.
+ *
+ * @module lib/utils/webhooks/outbound-webhook-signature
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Generates a new endpoint signing secret
+ *
+ * @returns Secret string prefixed with whsec_
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Computes the v1 signature for a payload
+ *
+ * @param payload - Raw request body
+ * @param secret - Endpoint signing secret
+ * @param timestamp - Unix timestamp in seconds
+ * @returns Hex-encoded HMAC-SHA256 signature
+ */
+export function computeWebhookSignature(
+  payload: string,
+  secret: string,
+  timestamp: number
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+}
+
+/**
+ * Builds the signature header value for a payload
+ *
+ * @param payload - Raw request body
+ * @param secret - Endpoint signing secret
+ * @param timestamp - Unix timestamp in seconds (defaults to now)
+ * @returns Header value `t=...,v1=...`
+ */
+export function buildWebhookSignatureHeader(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeWebhookSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Verifies a signature header against a payload
+ *
+ * Provided for tenants (and tests) receiving our webhooks.
+ *
+ * @param payload - Raw request body as received
+ * @param header - Signature header value
+ * @param secret - Endpoint signing secret
+ * @param toleranceSeconds - Maximum allowed age of the timestamp
+ * @returns True if the signature is valid and fresh
+ */
+export function verifyWebhookSignatureHeader(
+  payload: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = 300
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const [key, ...rest] = part.split("=");
+      return [key.trim(), rest.join("=")];
+    })
+  );
+
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) {
+    return false;
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    computeWebhookSignature(payload, secret, timestamp),
+    "hex"
+  );
+  const actual = Buffer.from(parts.v1, "hex");
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -1,6 +1,6 @@
 /**
  * Mock Database Helper
- * 
+ *
  * Utilities for mocking Prisma database operations in tests
  */
 
@@ -20,7 +20,7 @@ export function resetDbMocks(): void {
 
 /**
  * Mocks organization upsert operation
- * 
+ *
  * @param result - Organization record to return
  */
 export function mockOrganizationUpsert(result: {
@@ -35,22 +35,24 @@ export function mockOrganizationUpsert(result: {
 
 /**
  * Mocks organization findUnique operation
- * 
+ *
  * @param result - Organization record to return (or null)
  */
-export function mockOrganizationFindUnique(result: {
-  id: string;
-  clerkOrgId: string;
-  name: string;
-  createdAt: Date;
-  updatedAt: Date;
-} | null): void {
+export function mockOrganizationFindUnique(
+  result: {
+    id: string;
+    clerkOrgId: string;
+    name: string;
+    createdAt: Date;
+    updatedAt: Date;
+  } | null
+): void {
   mockDb.organization.findUnique.mockResolvedValue(result);
 }
 
 /**
  * Mocks organization upsert to throw error
- * 
+ *
  * @param error - Error to throw
  */
 export function mockOrganizationUpsertError(error: Error): void {
@@ -59,7 +61,7 @@ export function mockOrganizationUpsertError(error: Error): void {
 
 /**
  * Creates a mock organization record
- * 
+ *
  * @param overrides - Optional field overrides
  * @returns Mock organization record
  */
@@ -103,8 +105,14 @@ export function mockFindOrganizationByClerkOrgId(
     updatedAt: Date;
   } | null
 ): void {
-  const { findOrganizationByClerkOrgId } = require("@/lib/db/repositories/org-repository");
-  (findOrganizationByClerkOrgId as jest.MockedFunction<typeof findOrganizationByClerkOrgId>).mockResolvedValue(result);
+  const {
+    findOrganizationByClerkOrgId,
+  } = require("@/lib/db/repositories/org-repository");
+  (
+    findOrganizationByClerkOrgId as jest.MockedFunction<
+      typeof findOrganizationByClerkOrgId
+    >
+  ).mockResolvedValue(result);
 }
 
 /**
@@ -127,8 +135,14 @@ export function mockFindActiveSubscriptionByOrganizationId(
     updatedAt: Date;
   } | null
 ): void {
-  const { findActiveSubscriptionByOrganizationId } = require("@/lib/db/repositories/subscription-repository");
-  (findActiveSubscriptionByOrganizationId as jest.MockedFunction<typeof findActiveSubscriptionByOrganizationId>).mockResolvedValue(result);
+  const {
+    findActiveSubscriptionByOrganizationId,
+  } = require("@/lib/db/repositories/subscription-repository");
+  (
+    findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+      typeof findActiveSubscriptionByOrganizationId
+    >
+  ).mockResolvedValue(result);
 }
 
 /**
@@ -167,8 +181,8 @@ export function mockSubscriptionRecord(overrides?: {
     planCode: "starter",
     stripePriceId: "price_test",
     status: "active",
-    currentPeriodStart: new Date(2025, 0, 15),
-    currentPeriodEnd: new Date(2025, 1, 15),
+    currentPeriodStart: new Date("2025-01-15T08:00:00Z"),
+    currentPeriodEnd: new Date("2025-02-15T08:00:00Z"),
     trialEndsAt: null,
     organizationId: "org_internal_123",
     createdAt: now,
@@ -196,8 +210,12 @@ export function mockFindUsageCounter(
     updatedAt: Date;
   } | null
 ): void {
-  const { findUsageCounter } = require("@/lib/db/repositories/usage-repository");
-  (findUsageCounter as jest.MockedFunction<typeof findUsageCounter>).mockResolvedValue(result);
+  const {
+    findUsageCounter,
+  } = require("@/lib/db/repositories/usage-repository");
+  (
+    findUsageCounter as jest.MockedFunction<typeof findUsageCounter>
+  ).mockResolvedValue(result);
 }
 
 /**
@@ -228,9 +246,9 @@ export function mockUsageCounterRecord(overrides?: {
   return {
     id: "counter_123",
     clerkOrgId: "org_test456",
-    periodKey: "2025-01",
-    periodStart: new Date(2025, 0, 1),
-    periodEnd: new Date(2025, 1, 1),
+    periodKey: "2025-01-15",
+    periodStart: new Date("2025-01-15T08:00:00Z"),
+    periodEnd: new Date("2025-02-15T08:00:00Z"),
     metric: "api_call",
     included: 60,
     used: 0,
@@ -242,6 +260,283 @@ export function mockUsageCounterRecord(overrides?: {
   };
 }
 
+/**
+ * Creates a mock overage report (ledger entry) record
+ */
+export function mockOverageReportRecord(overrides?: {
+  id?: string;
+  usageCounterId?: string;
+  overageFrom?: number;
+  overageTo?: number;
+  status?: string;
+}): {
+  id: string;
+  clerkOrgId: string;
+  usageCounterId: string;
+  periodKey: string;
+  metric: string;
+  overageFrom: number;
+  overageTo: number;
+  quantity: number;
+  identifier: string;
+  status: string;
+  reportedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+} {
+  const now = new Date();
+  const usageCounterId = overrides?.usageCounterId ?? "counter_123";
+  const overageFrom = overrides?.overageFrom ?? 0;
+  const overageTo = overrides?.overageTo ?? 20;
+  const status = overrides?.status ?? "reported";
+  return {
+    id: "ovg_record_123",
+    clerkOrgId: "org_test456",
+    usageCounterId,
+    periodKey: "2025-01-15",
+    metric: "api_call",
+    overageFrom,
+    overageTo,
+    quantity: overageTo - overageFrom,
+    identifier: `ovg_${usageCounterId}_${overageTo}`,
+    status,
+    reportedAt: status === "reported" ? now : null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a mock usage adjustment record
+ */
+export function mockUsageAdjustmentRecord(overrides?: {
+  id?: string;
+  delta?: number;
+  usedBefore?: number;
+  referenceRequestId?: string | null;
+}): {
+  id: string;
+  clerkOrgId: string;
+  usageCounterId: string;
+  periodKey: string;
+  metric: string;
+  delta: number;
+  usedBefore: number;
+  usedAfter: number;
+  reason: string;
+  actorUserId: string;
+  referenceRequestId: string | null;
+  createdAt: Date;
+} {
+  const delta = overrides?.delta ?? -5;
+  const usedBefore = overrides?.usedBefore ?? 20;
+  return {
+    id: "adj_123",
+    clerkOrgId: "org_test456",
+    usageCounterId: "counter_123",
+    periodKey: "2025-01-15",
+    metric: "api_call",
+    delta,
+    usedBefore,
+    usedAfter: usedBefore + delta,
+    reason: "Refund for failed requests",
+    actorUserId: "user_123",
+    referenceRequestId: null,
+    createdAt: new Date("2025-01-21T08:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a mock webhook endpoint record
+ */
+export function mockWebhookEndpointRecord(overrides?: {
+  id?: string;
+  clerkOrgId?: string;
+  url?: string;
+  secret?: string;
+  events?: string[];
+  enabled?: boolean;
+}): {
+  id: string;
+  clerkOrgId: string;
+  organizationId: string;
+  url: string;
+  secret: string;
+  events: string[];
+  description: string | null;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+} {
+  const now = new Date();
+  return {
+    id: "whe_123",
+    clerkOrgId: "org_test456",
+    organizationId: "org_internal_123",
+    url: "https://example.com/webhooks",
+    secret: "whsec_test",
+    events: ["usage.threshold_crossed", "quota.exhausted"],
+    description: null,
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a mock API key record
+ */
+export function mockApiKeyRecord(overrides?: {
+  id?: string;
+  clerkOrgId?: string;
+  prefix?: string;
+  keyHash?: string;
+  scopes?: string[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+}): {
+  id: string;
+  clerkOrgId: string;
+  organizationId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdByUserId: string;
+  createdAt: Date;
+  updatedAt: Date;
+} {
+  const now = new Date();
+  return {
+    id: "key_123",
+    clerkOrgId: "org_test456",
+    organizationId: "org_internal_123",
+    name: "Backend metering",
+    prefix: "msk_1a2b3c4d",
+    keyHash: "hash_test",
+    scopes: ["quota:check", "usage:write"],
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+    createdByUserId: "user_admin",
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a mock usage anomaly record
+ */
+export function mockUsageAnomalyRecord(overrides?: {
+  id?: string;
+  clerkOrgId?: string;
+  metric?: string;
+  hour?: Date;
+  observed?: number;
+  baseline?: number;
+  status?: string;
+  capUntil?: Date | null;
+  resolvedAt?: Date | null;
+  resolvedByUserId?: string | null;
+}): {
+  id: string;
+  clerkOrgId: string;
+  metric: string;
+  hour: Date;
+  observed: number;
+  baseline: number;
+  status: string;
+  capUntil: Date | null;
+  resolvedAt: Date | null;
+  resolvedByUserId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+} {
+  return {
+    id: "anomaly_123",
+    clerkOrgId: "org_test456",
+    metric: "api_call",
+    hour: new Date("2025-01-15T10:00:00.000Z"),
+    observed: 12000,
+    baseline: 40,
+    status: "open",
+    capUntil: null,
+    resolvedAt: null,
+    resolvedByUserId: null,
+    createdAt: new Date("2025-01-15T11:05:00.000Z"),
+    updatedAt: new Date("2025-01-15T11:05:00.000Z"),
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a mock webhook delivery record with its endpoint
+ */
+export function mockWebhookDeliveryRecord(overrides?: {
+  id?: string;
+  clerkOrgId?: string;
+  status?: string;
+  attempts?: number;
+  nextAttemptAt?: Date | null;
+  endpoint?: ReturnType<typeof mockWebhookEndpointRecord>;
+}): {
+  id: string;
+  clerkOrgId: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  endpoint: ReturnType<typeof mockWebhookEndpointRecord>;
+} {
+  const now = new Date();
+  const endpoint = overrides?.endpoint ?? mockWebhookEndpointRecord();
+  return {
+    id: "whd_123",
+    clerkOrgId: "org_test456",
+    endpointId: endpoint.id,
+    eventId: "quota.exhausted:counter_123",
+    eventType: "quota.exhausted",
+    payload: {
+      id: "quota.exhausted:counter_123",
+      type: "quota.exhausted",
+      createdAt: "2025-01-20T10:00:00.000Z",
+      clerkOrgId: "org_test456",
+      data: {
+        metric: "api_call",
+        periodKey: "2025-01-15",
+        included: 60,
+        used: 60,
+      },
+    },
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    lastAttemptAt: null,
+    responseStatus: null,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+    endpoint,
+  };
+}
+
 /**
  * Mock organization record for repository functions
  */
@@ -250,11 +545,15 @@ export function mockOrganizationRecord(overrides?: {
   clerkOrgId?: string;
   name?: string;
   stripeCustomerId?: string | null;
+  parentOrganizationId?: string | null;
+  poolCaps?: Partial<Record<string, number>>;
 }): {
   id: string;
   clerkOrgId: string;
   name: string;
   stripeCustomerId: string | null;
+  parentOrganizationId?: string | null;
+  poolCaps?: Partial<Record<string, number>>;
   createdAt: Date;
   updatedAt: Date;
 } {
@@ -269,4 +568,3 @@ export function mockOrganizationRecord(overrides?: {
     ...overrides,
   };
 }
-
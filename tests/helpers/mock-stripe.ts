@@ -1,6 +1,6 @@
 /**
  * Mock Stripe Helper
- * 
+ *
  * Utilities for mocking Stripe SDK in tests
  */
 
@@ -11,7 +11,7 @@ export const mockStripe = stripe as jest.Mocked<typeof stripe>;
 
 /**
  * Mocks Stripe customers.list to return a customer
- * 
+ *
  * @param customerId - Stripe customer ID to return
  * @param email - Customer email
  */
@@ -49,7 +49,7 @@ export function mockStripeCustomerListEmpty(): void {
 
 /**
  * Mocks Stripe customers.create to return a new customer
- * 
+ *
  * @param customerId - Stripe customer ID to return
  * @param email - Customer email
  * @param metadata - Customer metadata
@@ -70,7 +70,7 @@ export function mockStripeCustomerCreate(
 
 /**
  * Mocks Stripe customers.create to throw an error
- * 
+ *
  * @param error - Error to throw
  */
 export function mockStripeCustomerCreateError(error: Error): void {
@@ -79,7 +79,7 @@ export function mockStripeCustomerCreateError(error: Error): void {
 
 /**
  * Mocks Stripe customers.list to throw an error
- * 
+ *
  * @param error - Error to throw
  */
 export function mockStripeCustomerListError(error: Error): void {
@@ -88,7 +88,7 @@ export function mockStripeCustomerListError(error: Error): void {
 
 /**
  * Mocks Stripe subscriptions.create to return a new subscription
- * 
+ *
  * @param subscriptionId - Stripe subscription ID to return
  * @param customerId - Stripe customer ID
  * @param status - Subscription status (default: "trialing")
@@ -99,7 +99,8 @@ export function mockStripeSubscriptionCreate(
   subscriptionId: string = "sub_test123",
   customerId: string = "cus_test123",
   status: Stripe.Subscription.Status = "trialing",
-  trialEndsAt: number | null = Math.floor(Date.now() / 1000) + 14 * 24 * 60 * 60, // 14 days from now
+  trialEndsAt: number | null = Math.floor(Date.now() / 1000) +
+    14 * 24 * 60 * 60, // 14 days from now
   planCode: string = "trial"
 ): void {
   const now = Math.floor(Date.now() / 1000);
@@ -138,7 +139,7 @@ export function mockStripeSubscriptionCreate(
 
 /**
  * Mocks Stripe subscriptions.create to throw an error
- * 
+ *
  * @param error - Error to throw
  */
 export function mockStripeSubscriptionCreateError(error: Error): void {
@@ -147,7 +148,7 @@ export function mockStripeSubscriptionCreateError(error: Error): void {
 
 /**
  * Mocks Stripe setupIntents.create to return a new SetupIntent
- * 
+ *
  * @param setupIntentId - Stripe SetupIntent ID to return
  * @param customerId - Stripe customer ID
  * @param clientSecret - Client secret (default: auto-generated)
@@ -171,7 +172,7 @@ export function mockStripeSetupIntentCreate(
 
 /**
  * Mocks Stripe setupIntents.create to throw an error
- * 
+ *
  * @param error - Error to throw
  */
 export function mockStripeSetupIntentCreateError(error: Error): void {
@@ -180,7 +181,7 @@ export function mockStripeSetupIntentCreateError(error: Error): void {
 
 /**
  * Mocks Stripe paymentMethods.attach to successfully attach a payment method
- * 
+ *
  * @param paymentMethodId - Payment method ID to return
  * @param customerId - Customer ID the payment method is attached to
  */
@@ -204,7 +205,7 @@ export function mockStripePaymentMethodAttach(
 
 /**
  * Mocks Stripe paymentMethods.attach to throw an error
- * 
+ *
  * @param error - Error to throw
  */
 export function mockStripePaymentMethodAttachError(error: Error): void {
@@ -213,7 +214,7 @@ export function mockStripePaymentMethodAttachError(error: Error): void {
 
 /**
  * Mocks Stripe customers.update to successfully update a customer
- * 
+ *
  * @param customerId - Customer ID
  * @param defaultPaymentMethodId - Default payment method ID
  */
@@ -232,7 +233,7 @@ export function mockStripeCustomerUpdate(
 
 /**
  * Mocks Stripe customers.update to throw an error
- * 
+ *
  * @param error - Error to throw
  */
 export function mockStripeCustomerUpdateError(error: Error): void {
@@ -241,7 +242,7 @@ export function mockStripeCustomerUpdateError(error: Error): void {
 
 /**
  * Mocks Stripe webhooks.constructEvent to return a valid event
- * 
+ *
  * @param eventId - Stripe event ID
  * @param eventType - Event type (e.g., "customer.subscription.updated")
  * @param eventData - Event data object
@@ -264,7 +265,7 @@ export function mockStripeWebhookConstructEvent(
 
 /**
  * Mocks Stripe webhooks.constructEvent to throw an error (invalid signature)
- * 
+ *
  * @param error - Error to throw
  */
 export function mockStripeWebhookConstructEventError(error: Error): void {
@@ -273,10 +274,77 @@ export function mockStripeWebhookConstructEventError(error: Error): void {
   });
 }
 
+/**
+ * Mocks Stripe billing.meterEvents.create to successfully record a meter event
+ *
+ * @param eventName - Meter event name to return
+ */
+export function mockStripeMeterEventCreate(
+  eventName: string = "api_call_overage"
+): void {
+  mockStripe.billing.meterEvents.create = jest
+    .fn()
+    .mockImplementation(
+      async (params: Stripe.Billing.MeterEventCreateParams) => ({
+        object: "billing.meter_event",
+        event_name: eventName,
+        identifier: params.identifier,
+        payload: params.payload,
+        timestamp: params.timestamp ?? Math.floor(Date.now() / 1000),
+        created: Math.floor(Date.now() / 1000),
+        livemode: false,
+      })
+    );
+}
+
+/**
+ * Mocks Stripe billing.meterEvents.create to throw an error
+ *
+ * @param error - Error to throw
+ */
+export function mockStripeMeterEventCreateError(error: Error): void {
+  mockStripe.billing.meterEvents.create = jest.fn().mockRejectedValue(error);
+}
+
+/**
+ * Mocks Stripe checkout.sessions.create to return an open session
+ *
+ * @param sessionId - Checkout session ID to return
+ * @param url - Hosted payment page URL to return
+ */
+export function mockStripeCheckoutSessionCreate(
+  sessionId: string = "cs_test123",
+  url: string | null = "https://checkout.stripe.com/c/pay/cs_test123"
+): void {
+  mockStripe.checkout.sessions.create = jest
+    .fn()
+    .mockImplementation(
+      async (params: Stripe.Checkout.SessionCreateParams) => ({
+        id: sessionId,
+        object: "checkout.session",
+        mode: params.mode,
+        customer: params.customer,
+        metadata: params.metadata,
+        payment_status: "unpaid",
+        status: "open",
+        url,
+        created: Math.floor(Date.now() / 1000),
+      })
+    );
+}
+
+/**
+ * Mocks Stripe checkout.sessions.create to throw an error
+ *
+ * @param error - Error to throw
+ */
+export function mockStripeCheckoutSessionCreateError(error: Error): void {
+  mockStripe.checkout.sessions.create = jest.fn().mockRejectedValue(error);
+}
+
 /**
  * Resets all Stripe mocks
  */
 export function resetStripeMocks(): void {
   jest.clearAllMocks();
 }
-
@@ -0,0 +1,152 @@
+/**
+ * Integration Tests: POST /api/admin/orgs.pool.update
+ *
+ * Tests the admin pool membership API endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/admin/orgs.pool.update/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { updatePoolMembership } from "@/lib/services/orgs/org-pool-service";
+import { OrgValidationError } from "@/lib/errors/org-errors";
+import { ForbiddenError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/orgs/org-pool-service");
+
+const mockRequireAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAdmin
+>;
+const mockUpdatePoolMembership = updatePoolMembership as jest.MockedFunction<
+  typeof updatePoolMembership
+>;
+
+describe("POST /api/admin/orgs.pool.update", () => {
+  const buildRequest = (body: Record<string, unknown>) =>
+    createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/admin/orgs.pool.update",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId: null,
+    });
+  });
+
+  test("returns 200 with the membership when joining a pool", async () => {
+    // Arrange
+    const membership = {
+      orgId: "org_team_a",
+      parentOrgId: "org_enterprise",
+      caps: { api_call: 5000 },
+    };
+    mockUpdatePoolMembership.mockResolvedValue(membership);
+
+    // Act
+    const response = await POST(buildRequest(membership));
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual(membership);
+    expect(mockUpdatePoolMembership).toHaveBeenCalledWith({
+      clerkOrgId: "org_team_a",
+      parentClerkOrgId: "org_enterprise",
+      caps: { api_call: 5000 },
+    });
+  });
+
+  test("removes the organization from its pool when parentOrgId is null", async () => {
+    // Arrange
+    mockUpdatePoolMembership.mockResolvedValue({
+      orgId: "org_team_a",
+      parentOrgId: null,
+      caps: {},
+    });
+
+    // Act
+    const response = await POST(
+      buildRequest({ orgId: "org_team_a", parentOrgId: null })
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockUpdatePoolMembership).toHaveBeenCalledWith({
+      clerkOrgId: "org_team_a",
+      parentClerkOrgId: null,
+      caps: undefined,
+    });
+  });
+
+  test("returns 400 for caps on an unknown metric", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        orgId: "org_team_a",
+        parentOrgId: "org_enterprise",
+        caps: { minutes: 10 },
+      })
+    );
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+    expect(mockUpdatePoolMembership).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 for caps without a parent", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        orgId: "org_team_a",
+        parentOrgId: null,
+        caps: { api_call: 10 },
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(mockUpdatePoolMembership).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 when the pool would be nested", async () => {
+    // Arrange
+    mockUpdatePoolMembership.mockRejectedValue(
+      new OrgValidationError(
+        "Parent organization org_team_b is itself a pool member"
+      )
+    );
+
+    // Act
+    const response = await POST(
+      buildRequest({ orgId: "org_team_a", parentOrgId: "org_team_b" })
+    );
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+  });
+
+  test("returns 403 when the user is not an administrator", async () => {
+    // Arrange
+    mockRequireAdmin.mockRejectedValue(
+      new ForbiddenError("Admin access required")
+    );
+
+    // Act
+    const response = await POST(
+      buildRequest({ orgId: "org_team_a", parentOrgId: "org_enterprise" })
+    );
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(mockUpdatePoolMembership).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Integration Tests: POST /api/admin/quotas.reset
+ *
+ * Tests the admin quota reset API endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/admin/quotas.reset/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { rolloverUsagePeriods } from "@/lib/services/usage/period-rollover-service";
+import { ForbiddenError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/usage/period-rollover-service");
+
+const mockRequireAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAdmin
+>;
+const mockRolloverUsagePeriods = rolloverUsagePeriods as jest.MockedFunction<
+  typeof rolloverUsagePeriods
+>;
+
+describe("POST /api/admin/quotas.reset", () => {
+  const buildRequest = (body: Record<string, unknown> = {}) =>
+    createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/admin/quotas.reset",
+      body,
+    });
+
+  const summary = {
+    dryRun: true,
+    periodKey: "2025-02-15",
+    checked: 1,
+    updated: 1,
+    created: 4,
+    closed: 4,
+    failed: 0,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId: null,
+    });
+    mockRolloverUsagePeriods.mockResolvedValue(summary);
+  });
+
+  test("returns 200 with {updated, periodKey} for a filtered dry run", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        periodKey: "2025-02-15",
+        orgId: "org_test456",
+        dryRun: true,
+      })
+    );
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual(summary);
+    expect(mockRolloverUsagePeriods).toHaveBeenCalledWith({
+      periodKey: "2025-02-15",
+      clerkOrgId: "org_test456",
+      dryRun: true,
+    });
+  });
+
+  test("rolls over every active subscription when no filter is given", async () => {
+    // Act
+    const response = await POST(buildRequest());
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockRolloverUsagePeriods).toHaveBeenCalledWith({
+      periodKey: undefined,
+      clerkOrgId: undefined,
+      dryRun: false,
+    });
+  });
+
+  test("returns 403 when the user is not an administrator", async () => {
+    // Arrange
+    mockRequireAdmin.mockRejectedValue(
+      new ForbiddenError("Admin access required")
+    );
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(body.error.code).toBe("FORBIDDEN");
+    expect(mockRolloverUsagePeriods).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 for a legacy period key", async () => {
+    // Act
+    const response = await POST(buildRequest({ periodKey: "2025-02" }));
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+    expect(mockRolloverUsagePeriods).not.toHaveBeenCalled();
+  });
+});
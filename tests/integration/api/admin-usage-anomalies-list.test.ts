@@ -0,0 +1,109 @@
+/**
+ * Integration Tests: GET /api/admin/usage-anomalies.list
+ *
+ * Tests the admin usage anomaly list API endpoint with mocked dependencies.
+ */
+
+import { GET } from "@/app/api/admin/usage-anomalies.list/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { listUsageAnomalies } from "@/lib/services/usage/usage-anomaly-service";
+import { ForbiddenError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/usage/usage-anomaly-service");
+
+const mockRequireAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAdmin
+>;
+const mockListUsageAnomalies = listUsageAnomalies as jest.MockedFunction<
+  typeof listUsageAnomalies
+>;
+
+describe("GET /api/admin/usage-anomalies.list", () => {
+  const buildRequest = (query = "") =>
+    createTestRequest({
+      method: "GET",
+      url: `http://localhost:3000/api/admin/usage-anomalies.list${query}`,
+    });
+
+  const anomaly = {
+    id: "anomaly_123",
+    orgId: "org_test456",
+    metric: "api_call",
+    hour: "2025-01-15T10:00:00.000Z",
+    observed: 12000,
+    baseline: 40,
+    ratio: 300,
+    status: "open" as const,
+    capUntil: null,
+    resolvedAt: null,
+    resolvedByUserId: null,
+    createdAt: "2025-01-15T11:05:00.000Z",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId: null,
+    });
+    mockListUsageAnomalies.mockResolvedValue({ anomalies: [anomaly] });
+  });
+
+  test("returns 200 with the anomalies", async () => {
+    // Act
+    const response = await GET(buildRequest());
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ anomalies: [anomaly] });
+    expect(mockListUsageAnomalies).toHaveBeenCalledWith({
+      clerkOrgId: undefined,
+      status: undefined,
+      limit: 50,
+    });
+  });
+
+  test("filters by organization and status", async () => {
+    // Act
+    const response = await GET(
+      buildRequest("?orgId=org_test456&status=open&limit=10")
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockListUsageAnomalies).toHaveBeenCalledWith({
+      clerkOrgId: "org_test456",
+      status: "open",
+      limit: 10,
+    });
+  });
+
+  test("returns 400 for an unknown status", async () => {
+    // Act
+    const response = await GET(buildRequest("?status=ignored"));
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+    expect(mockListUsageAnomalies).not.toHaveBeenCalled();
+  });
+
+  test("returns 403 when the user is not an administrator", async () => {
+    // Arrange
+    mockRequireAdmin.mockRejectedValue(
+      new ForbiddenError("Admin access required")
+    );
+
+    // Act
+    const response = await GET(buildRequest());
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(mockListUsageAnomalies).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Integration Tests: POST /api/admin/usage-anomalies.resolve
+ *
+ * Tests the admin usage anomaly resolve API endpoint with mocked
+ * dependencies.
+ */
+
+import { POST } from "@/app/api/admin/usage-anomalies.resolve/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { resolveAnomaly } from "@/lib/services/usage/usage-anomaly-service";
+import { UsageAnomalyNotFoundError } from "@/lib/errors/usage-errors";
+import { ForbiddenError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/usage/usage-anomaly-service");
+
+const mockRequireAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAdmin
+>;
+const mockResolveAnomaly = resolveAnomaly as jest.MockedFunction<
+  typeof resolveAnomaly
+>;
+
+describe("POST /api/admin/usage-anomalies.resolve", () => {
+  const buildRequest = (body: Record<string, unknown>) =>
+    createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/admin/usage-anomalies.resolve",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId: null,
+    });
+  });
+
+  test("returns 200 with the resolved anomaly", async () => {
+    // Arrange
+    const resolved = {
+      id: "anomaly_123",
+      orgId: "org_test456",
+      metric: "api_call",
+      hour: "2025-01-15T10:00:00.000Z",
+      observed: 12000,
+      baseline: 40,
+      ratio: 300,
+      status: "resolved" as const,
+      capUntil: "2025-01-16T11:00:00.000Z",
+      resolvedAt: "2025-01-15T12:00:00.000Z",
+      resolvedByUserId: "user_admin",
+      createdAt: "2025-01-15T11:05:00.000Z",
+    };
+    mockResolveAnomaly.mockResolvedValue(resolved);
+
+    // Act
+    const response = await POST(buildRequest({ anomalyId: "anomaly_123" }));
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual(resolved);
+    expect(mockResolveAnomaly).toHaveBeenCalledWith(
+      "anomaly_123",
+      "user_admin"
+    );
+  });
+
+  test("returns 400 without an anomaly ID", async () => {
+    // Act
+    const response = await POST(buildRequest({}));
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+    expect(mockResolveAnomaly).not.toHaveBeenCalled();
+  });
+
+  test("returns 404 for an unknown anomaly", async () => {
+    // Arrange
+    mockResolveAnomaly.mockRejectedValue(
+      new UsageAnomalyNotFoundError("Usage anomaly not found: anomaly_missing")
+    );
+
+    // Act
+    const response = await POST(buildRequest({ anomalyId: "anomaly_missing" }));
+
+    // Assert
+    expect(response.status).toBe(404);
+  });
+
+  test("returns 403 when the user is not an administrator", async () => {
+    // Arrange
+    mockRequireAdmin.mockRejectedValue(
+      new ForbiddenError("Admin access required")
+    );
+
+    // Act
+    const response = await POST(buildRequest({ anomalyId: "anomaly_123" }));
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(mockResolveAnomaly).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Integration Tests: POST /api/credits/checkout.create
+ *
+ * Tests the credit pack checkout API endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/credits/checkout.create/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import { UnauthorizedError } from "@/lib/utils/errors";
+import {
+  mockStripe,
+  mockStripeCheckoutSessionCreate,
+} from "../../helpers/mock-stripe";
+import { mockOrganizationRecord } from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/org-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+
+describe("POST /api/credits/checkout.create", () => {
+  const clerkOrgId = "org_test_123";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 201 with the checkout session for the authenticated org", async () => {
+    // Arrange
+    mockFindOrganizationByClerkOrgId.mockResolvedValue(
+      mockOrganizationRecord({ clerkOrgId, stripeCustomerId: "cus_test" })
+    );
+    mockStripeCheckoutSessionCreate("cs_test123");
+
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/credits/checkout.create",
+      body: { packCode: "api_call_10k" },
+    });
+
+    // Act
+    const response = await POST(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({
+      data: {
+        checkoutSessionId: "cs_test123",
+        url: "https://checkout.stripe.com/c/pay/cs_test123",
+      },
+      correlationId: expect.any(String),
+    });
+    expect(mockStripe.checkout.sessions.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mode: "payment",
+        line_items: [{ price: "price_credits_api_call_10k", quantity: 1 }],
+        metadata: expect.objectContaining({
+          clerkOrgId,
+          packCode: "api_call_10k",
+        }),
+      })
+    );
+  });
+
+  test("returns 400 for an unknown pack", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/credits/checkout.create",
+      body: { packCode: "api_call_1m" },
+    });
+
+    // Act
+    const response = await POST(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error).toBeDefined();
+    expect(mockFindOrganizationByClerkOrgId).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAuthWithOrg.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/credits/checkout.create",
+      body: { packCode: "api_call_1k" },
+    });
+
+    // Act
+    const response = await POST(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
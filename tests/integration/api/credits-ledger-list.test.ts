@@ -0,0 +1,153 @@
+/**
+ * Integration Tests: GET /api/credits/ledger.list
+ *
+ * Tests the credit ledger API endpoint with mocked dependencies.
+ */
+
+import { GET } from "@/app/api/credits/ledger.list/route";
+import { createTestRequest } from "../../helpers/test-request";
+import {
+  findActiveCreditGrants,
+  findCreditLedgerEntries,
+} from "@/lib/db/repositories/credit-repository";
+import { UnauthorizedError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/credit-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+
+const mockFindActiveCreditGrants =
+  findActiveCreditGrants as jest.MockedFunction<typeof findActiveCreditGrants>;
+const mockFindCreditLedgerEntries =
+  findCreditLedgerEntries as jest.MockedFunction<
+    typeof findCreditLedgerEntries
+  >;
+
+describe("GET /api/credits/ledger.list", () => {
+  const clerkOrgId = "org_test_123";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 200 with balances, grants and ledger entries for the authenticated org", async () => {
+    // Arrange
+    mockFindActiveCreditGrants.mockResolvedValue([
+      {
+        id: "grant_123",
+        clerkOrgId,
+        organizationId: "org_internal_123",
+        metric: "api_call",
+        packCode: "api_call_1k",
+        amount: 1000,
+        remaining: 940,
+        expiresAt: new Date("2026-01-15T00:00:00.000Z"),
+        stripeCheckoutSessionId: "cs_test123",
+        createdAt: new Date("2025-01-15T00:00:00.000Z"),
+        updatedAt: new Date("2025-01-20T00:00:00.000Z"),
+      },
+    ]);
+    mockFindCreditLedgerEntries.mockResolvedValue([
+      {
+        id: "entry_2",
+        clerkOrgId,
+        creditGrantId: "grant_123",
+        metric: "api_call",
+        type: "consume",
+        amount: -60,
+        usageCounterId: "counter_123",
+        createdAt: new Date("2025-01-20T00:00:00.000Z"),
+      },
+    ]);
+
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/credits/ledger.list?metric=api_call&type=consume",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      data: {
+        balances: [{ metric: "api_call", available: 940 }],
+        grants: [
+          {
+            id: "grant_123",
+            metric: "api_call",
+            packCode: "api_call_1k",
+            amount: 1000,
+            remaining: 940,
+            expiresAt: "2026-01-15T00:00:00.000Z",
+            createdAt: "2025-01-15T00:00:00.000Z",
+          },
+        ],
+        entries: [
+          {
+            id: "entry_2",
+            creditGrantId: "grant_123",
+            metric: "api_call",
+            type: "consume",
+            amount: -60,
+            usageCounterId: "counter_123",
+            createdAt: "2025-01-20T00:00:00.000Z",
+          },
+        ],
+      },
+      correlationId: expect.any(String),
+    });
+    expect(mockFindCreditLedgerEntries).toHaveBeenCalledWith(clerkOrgId, {
+      metric: "api_call",
+      type: "consume",
+      limit: 50,
+    });
+  });
+
+  test("returns 400 for an invalid entry type", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/credits/ledger.list?type=refund",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error).toBeDefined();
+    expect(mockFindCreditLedgerEntries).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAuthWithOrg.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/credits/ledger.list",
+    });
+
+    // Act
+    const response = await GET(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
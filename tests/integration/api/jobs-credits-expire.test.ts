@@ -0,0 +1,70 @@
+/**
+ * Integration Tests: POST /api/jobs/credits.expire
+ *
+ * Tests the credit expiry job endpoint with mocked service
+ */
+
+import { POST } from "@/app/api/jobs/credits.expire/route";
+import { expireCredits } from "@/lib/services/credits/credit-service";
+import { ApplicationError } from "@/lib/utils/errors";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+
+// Mock service
+jest.mock("@/lib/services/credits/credit-service");
+
+const mockExpireCredits = expireCredits as jest.MockedFunction<
+  typeof expireCredits
+>;
+
+describe("POST /api/jobs/credits.expire", () => {
+  const buildRequest = () =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/jobs/credits.expire",
+      method: "POST",
+      body: {},
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("returns 200 with the grants expired and credits forfeited", async () => {
+    // Arrange
+    mockExpireCredits.mockResolvedValue({ expired: 3, credits: 420 });
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      data: { expired: 3, credits: 420 },
+      correlationId: "test-correlation-id-456",
+    });
+  });
+
+  test("returns error envelope when expiry fails", async () => {
+    // Arrange
+    mockExpireCredits.mockRejectedValue(
+      new ApplicationError(
+        "Failed to expire credit grants",
+        "CREDIT_EXPIRE_ERROR",
+        500
+      )
+    );
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(body).toMatchObject({
+      error: { code: "CREDIT_EXPIRE_ERROR" },
+    });
+  });
+});
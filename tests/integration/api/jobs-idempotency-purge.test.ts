@@ -0,0 +1,71 @@
+/**
+ * Integration Tests: POST /api/jobs/idempotency.purge
+ *
+ * Tests the idempotency key purge job endpoint with mocked service
+ */
+
+import { POST } from "@/app/api/jobs/idempotency.purge/route";
+import { purgeExpiredIdempotencyKeys } from "@/lib/services/usage/idempotency-service";
+import { ApplicationError } from "@/lib/utils/errors";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+
+// Mock service
+jest.mock("@/lib/services/usage/idempotency-service");
+
+const mockPurgeExpiredIdempotencyKeys =
+  purgeExpiredIdempotencyKeys as jest.MockedFunction<
+    typeof purgeExpiredIdempotencyKeys
+  >;
+
+describe("POST /api/jobs/idempotency.purge", () => {
+  const buildRequest = () =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/jobs/idempotency.purge",
+      method: "POST",
+      body: {},
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("returns 200 with the number of keys deleted", async () => {
+    // Arrange
+    mockPurgeExpiredIdempotencyKeys.mockResolvedValue({ deleted: 12 });
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      data: { deleted: 12 },
+      correlationId: "test-correlation-id-456",
+    });
+  });
+
+  test("returns error envelope when the purge fails", async () => {
+    // Arrange
+    mockPurgeExpiredIdempotencyKeys.mockRejectedValue(
+      new ApplicationError(
+        "Failed to delete expired idempotency keys",
+        "IDEMPOTENCY_KEY_DELETE_ERROR",
+        500
+      )
+    );
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(body).toMatchObject({
+      error: { code: "IDEMPOTENCY_KEY_DELETE_ERROR" },
+    });
+  });
+});
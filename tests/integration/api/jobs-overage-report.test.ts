@@ -0,0 +1,80 @@
+/**
+ * Integration Tests: POST /api/jobs/overage.report
+ *
+ * Tests the overage reporting job endpoint with mocked service
+ */
+
+import { POST } from "@/app/api/jobs/overage.report/route";
+import { reportOverage } from "@/lib/services/billing/overage-reporting-service";
+import { ApplicationError } from "@/lib/utils/errors";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+
+// Mock service
+jest.mock("@/lib/services/billing/overage-reporting-service");
+
+const mockReportOverage = reportOverage as jest.MockedFunction<
+  typeof reportOverage
+>;
+
+describe("POST /api/jobs/overage.report", () => {
+  const buildRequest = () =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/jobs/overage.report",
+      method: "POST",
+      body: {},
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("returns 200 with the run summary", async () => {
+    // Arrange
+    mockReportOverage.mockResolvedValue({
+      countersChecked: 3,
+      countersReported: 2,
+      quantityReported: 45,
+      failed: 1,
+    });
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      data: {
+        countersChecked: 3,
+        countersReported: 2,
+        quantityReported: 45,
+        failed: 1,
+      },
+      correlationId: "test-correlation-id-456",
+    });
+  });
+
+  test("returns error envelope when the run fails", async () => {
+    // Arrange
+    mockReportOverage.mockRejectedValue(
+      new ApplicationError(
+        "Failed to find usage counters in overage",
+        "OVERAGE_COUNTER_FIND_ERROR",
+        500
+      )
+    );
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(body).toMatchObject({
+      error: { code: "OVERAGE_COUNTER_FIND_ERROR" },
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Integration Tests: POST /api/jobs/period-keys.migrate
+ *
+ * Tests the period key migration job endpoint with mocked service
+ */
+
+import { POST } from "@/app/api/jobs/period-keys.migrate/route";
+import { migrateLegacyPeriodKeys } from "@/lib/services/usage/period-key-service";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+
+// Mock service
+jest.mock("@/lib/services/usage/period-key-service");
+
+const mockMigrateLegacyPeriodKeys =
+  migrateLegacyPeriodKeys as jest.MockedFunction<
+    typeof migrateLegacyPeriodKeys
+  >;
+
+describe("POST /api/jobs/period-keys.migrate", () => {
+  const buildRequest = (body: unknown) =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/jobs/period-keys.migrate",
+      method: "POST",
+      body,
+    });
+
+  const summary = {
+    dryRun: true,
+    scanned: 1,
+    migrated: 0,
+    conflicts: 0,
+    counters: [
+      {
+        usageCounterId: "counter_legacy",
+        clerkOrgId: "org_test456",
+        metric: "api_call",
+        from: "2025-01",
+        to: "2025-01-15",
+        status: "pending" as const,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("returns 200 with the migration summary", async () => {
+    // Arrange
+    mockMigrateLegacyPeriodKeys.mockResolvedValue(summary);
+
+    // Act
+    const response = await POST(buildRequest({ dryRun: true, limit: 10 }));
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      data: summary,
+      correlationId: "test-correlation-id-456",
+    });
+    expect(mockMigrateLegacyPeriodKeys).toHaveBeenCalledWith({
+      dryRun: true,
+      limit: 10,
+    });
+  });
+
+  test("defaults to a live run of 500 counters", async () => {
+    // Arrange
+    mockMigrateLegacyPeriodKeys.mockResolvedValue({
+      ...summary,
+      dryRun: false,
+    });
+
+    // Act
+    const response = await POST(buildRequest({}));
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockMigrateLegacyPeriodKeys).toHaveBeenCalledWith({
+      dryRun: false,
+      limit: 500,
+    });
+  });
+
+  test("returns 400 for an invalid limit", async () => {
+    // Act
+    const response = await POST(buildRequest({ limit: 0 }));
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ error: { code: "VALIDATION_ERROR" } });
+    expect(mockMigrateLegacyPeriodKeys).not.toHaveBeenCalled();
+  });
+});
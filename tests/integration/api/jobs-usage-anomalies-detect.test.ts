@@ -0,0 +1,79 @@
+/**
+ * Integration Tests: POST /api/jobs/usage-anomalies.detect
+ *
+ * Tests the usage anomaly detection job endpoint with mocked service
+ */
+
+import { POST } from "@/app/api/jobs/usage-anomalies.detect/route";
+import { detectUsageAnomalies } from "@/lib/services/usage/usage-anomaly-service";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+
+// Mock service
+jest.mock("@/lib/services/usage/usage-anomaly-service");
+
+const mockDetectUsageAnomalies = detectUsageAnomalies as jest.MockedFunction<
+  typeof detectUsageAnomalies
+>;
+
+describe("POST /api/jobs/usage-anomalies.detect", () => {
+  const buildRequest = (body: unknown) =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/jobs/usage-anomalies.detect",
+      method: "POST",
+      body,
+    });
+
+  const summary = {
+    hour: "2025-01-15T10:00:00.000Z",
+    checked: 3,
+    flagged: 0,
+    capped: 0,
+    anomalies: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDetectUsageAnomalies.mockResolvedValue(summary);
+  });
+
+  test("returns 200 with the detection summary for the last hour", async () => {
+    // Act
+    const response = await POST(buildRequest({}));
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      data: summary,
+      correlationId: "test-correlation-id-456",
+    });
+    expect(mockDetectUsageAnomalies).toHaveBeenCalledWith({
+      hour: undefined,
+    });
+  });
+
+  test("checks the given hour", async () => {
+    // Act
+    const response = await POST(buildRequest({ hour: "2025-01-15T10:30:00Z" }));
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockDetectUsageAnomalies).toHaveBeenCalledWith({
+      hour: new Date("2025-01-15T10:30:00Z"),
+    });
+  });
+
+  test("returns 400 for an invalid hour", async () => {
+    // Act
+    const response = await POST(buildRequest({ hour: "yesterday" }));
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ error: { code: "VALIDATION_ERROR" } });
+    expect(mockDetectUsageAnomalies).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Integration Tests: POST /api/jobs/usage.flush
+ *
+ * Tests the usage journal flush job endpoint with mocked service
+ */
+
+import { POST } from "@/app/api/jobs/usage.flush/route";
+import { flushUsageJournal } from "@/lib/services/usage/usage-flush-service";
+import { ApplicationError } from "@/lib/utils/errors";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+
+// Mock service
+jest.mock("@/lib/services/usage/usage-flush-service");
+
+const mockFlushUsageJournal = flushUsageJournal as jest.MockedFunction<
+  typeof flushUsageJournal
+>;
+
+describe("POST /api/jobs/usage.flush", () => {
+  const buildRequest = () =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/jobs/usage.flush",
+      method: "POST",
+      body: {},
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("returns 200 with the flush summary", async () => {
+    // Arrange
+    mockFlushUsageJournal.mockResolvedValue({
+      enabled: true,
+      flushed: 5,
+      applied: 4,
+      skipped: 1,
+    });
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      data: { enabled: true, flushed: 5, applied: 4, skipped: 1 },
+      correlationId: "test-correlation-id-456",
+    });
+  });
+
+  test("returns 200 with enabled false when Redis is not configured", async () => {
+    // Arrange
+    mockFlushUsageJournal.mockResolvedValue({
+      enabled: false,
+      flushed: 0,
+      applied: 0,
+      skipped: 0,
+    });
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      data: { enabled: false, flushed: 0, applied: 0, skipped: 0 },
+    });
+  });
+
+  test("returns error envelope when the flush fails", async () => {
+    // Arrange
+    mockFlushUsageJournal.mockRejectedValue(
+      new ApplicationError(
+        "Failed to read usage journal",
+        "USAGE_CACHE_ERROR",
+        500
+      )
+    );
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(body).toMatchObject({
+      error: { code: "USAGE_CACHE_ERROR" },
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Integration Tests: POST /api/jobs/usage.rollover
+ *
+ * Tests the usage period rollover job endpoint with mocked service
+ */
+
+import { POST } from "@/app/api/jobs/usage.rollover/route";
+import { rolloverUsagePeriods } from "@/lib/services/usage/period-rollover-service";
+import { ApplicationError } from "@/lib/utils/errors";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+
+// Mock service
+jest.mock("@/lib/services/usage/period-rollover-service");
+
+const mockRolloverUsagePeriods = rolloverUsagePeriods as jest.MockedFunction<
+  typeof rolloverUsagePeriods
+>;
+
+describe("POST /api/jobs/usage.rollover", () => {
+  const buildRequest = () =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/jobs/usage.rollover",
+      method: "POST",
+      body: {},
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const summary = {
+    dryRun: false,
+    periodKey: null,
+    checked: 3,
+    updated: 1,
+    created: 4,
+    closed: 4,
+    failed: 0,
+  };
+
+  test("returns 200 with the rollover summary", async () => {
+    // Arrange
+    mockRolloverUsagePeriods.mockResolvedValue(summary);
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      data: summary,
+      correlationId: "test-correlation-id-456",
+    });
+    expect(mockRolloverUsagePeriods).toHaveBeenCalledWith({ dryRun: false });
+  });
+
+  test("returns error envelope when the rollover fails", async () => {
+    // Arrange
+    mockRolloverUsagePeriods.mockRejectedValue(
+      new ApplicationError(
+        "Failed to find active subscriptions",
+        "ORG_CREATION_ERROR",
+        500
+      )
+    );
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(body).toMatchObject({
+      error: { code: "ORG_CREATION_ERROR" },
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Integration Tests: POST /api/jobs/usage-rollups.rebuild
+ *
+ * Tests the usage rollup rebuild job endpoint with mocked service
+ */
+
+import { POST } from "@/app/api/jobs/usage-rollups.rebuild/route";
+import { rebuildUsageRollups } from "@/lib/services/usage/usage-rollup-service";
+import { ValidationError } from "@/lib/utils/errors";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+
+// Mock service
+jest.mock("@/lib/services/usage/usage-rollup-service");
+
+const mockRebuildUsageRollups = rebuildUsageRollups as jest.MockedFunction<
+  typeof rebuildUsageRollups
+>;
+
+describe("POST /api/jobs/usage-rollups.rebuild", () => {
+  const buildRequest = (body: unknown) =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/jobs/usage-rollups.rebuild",
+      method: "POST",
+      body,
+    });
+
+  const summary = {
+    from: "2025-01-01T00:00:00.000Z",
+    to: "2025-01-03T00:00:00.000Z",
+    days: 2,
+    hourlyBuckets: 30,
+    dailyBuckets: 4,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("returns 200 with the rebuild summary", async () => {
+    // Arrange
+    mockRebuildUsageRollups.mockResolvedValue(summary);
+
+    // Act
+    const response = await POST(
+      buildRequest({
+        from: "2025-01-01T06:00:00Z",
+        to: "2025-01-02T18:00:00Z",
+        orgId: "org_test456",
+      })
+    );
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      data: summary,
+      correlationId: "test-correlation-id-456",
+    });
+    expect(mockRebuildUsageRollups).toHaveBeenCalledWith({
+      from: new Date("2025-01-01T06:00:00Z"),
+      to: new Date("2025-01-02T18:00:00Z"),
+      clerkOrgId: "org_test456",
+    });
+  });
+
+  test("returns 400 when from is not before to", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        from: "2025-01-02T00:00:00Z",
+        to: "2025-01-01T00:00:00Z",
+      })
+    );
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ error: { code: "VALIDATION_ERROR" } });
+    expect(mockRebuildUsageRollups).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 when the range is too long to rebuild at once", async () => {
+    // Arrange
+    mockRebuildUsageRollups.mockRejectedValue(
+      new ValidationError("Rebuild range must span 1 to 93 days")
+    );
+
+    // Act
+    const response = await POST(
+      buildRequest({
+        from: "2024-01-01T00:00:00Z",
+        to: "2025-01-01T00:00:00Z",
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Integration Tests: POST /api/jobs/webhooks.deliver
+ *
+ * Tests the outbound webhook delivery job endpoint with mocked service
+ */
+
+import { POST } from "@/app/api/jobs/webhooks.deliver/route";
+import { deliverPendingWebhooks } from "@/lib/services/webhooks/webhook-delivery-service";
+import { ApplicationError } from "@/lib/utils/errors";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+
+// Mock service
+jest.mock("@/lib/services/webhooks/webhook-delivery-service");
+
+const mockDeliverPendingWebhooks =
+  deliverPendingWebhooks as jest.MockedFunction<typeof deliverPendingWebhooks>;
+
+describe("POST /api/jobs/webhooks.deliver", () => {
+  const buildRequest = () =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/jobs/webhooks.deliver",
+      method: "POST",
+      body: {},
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("returns 200 with the run summary", async () => {
+    // Arrange
+    mockDeliverPendingWebhooks.mockResolvedValue({
+      checked: 4,
+      delivered: 2,
+      retrying: 1,
+      failed: 0,
+      skipped: 1,
+      errors: 0,
+    });
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      data: {
+        checked: 4,
+        delivered: 2,
+        retrying: 1,
+        failed: 0,
+        skipped: 1,
+        errors: 0,
+      },
+      correlationId: "test-correlation-id-456",
+    });
+  });
+
+  test("returns error envelope when the run fails", async () => {
+    // Arrange
+    mockDeliverPendingWebhooks.mockRejectedValue(
+      new ApplicationError("Database unavailable", "DATABASE_ERROR", 500)
+    );
+
+    // Act
+    const response = await POST(buildRequest());
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(body).toMatchObject({ error: { code: "DATABASE_ERROR" } });
+  });
+});
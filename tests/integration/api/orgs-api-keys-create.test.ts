@@ -0,0 +1,99 @@
+/**
+ * Integration Tests: POST /api/orgs/api-keys.create
+ *
+ * Tests the API key issuing endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/orgs/api-keys.create/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { issueApiKey } from "@/lib/services/orgs/api-key-service";
+import { ForbiddenError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/orgs/api-key-service");
+
+const mockRequireOrgAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireOrgAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireOrgAdmin
+>;
+const mockIssueApiKey = issueApiKey as jest.MockedFunction<typeof issueApiKey>;
+
+describe("POST /api/orgs/api-keys.create", () => {
+  const clerkOrgId = "org_test_123";
+
+  const buildRequest = (body: Record<string, unknown>) =>
+    createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/orgs/api-keys.create",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireOrgAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 201 with the issued key for the admin's organization", async () => {
+    // Arrange
+    mockIssueApiKey.mockResolvedValue({
+      id: "key_123",
+      name: "Backend metering",
+      prefix: "msk_1a2b3c4d",
+      scopes: ["usage:write"],
+      status: "active",
+      expiresAt: null,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdByUserId: "user_admin",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      key: "msk_1a2b3c4d_secret",
+    });
+
+    // Act
+    const response = await POST(
+      buildRequest({ name: "Backend metering", scopes: ["usage:write"] })
+    );
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(body.data.key).toBe("msk_1a2b3c4d_secret");
+    expect(mockIssueApiKey).toHaveBeenCalledWith(clerkOrgId, "user_admin", {
+      name: "Backend metering",
+      scopes: ["usage:write"],
+    });
+  });
+
+  test("returns 400 for an unknown scope or no scopes", async () => {
+    // Act
+    const unknownScope = await POST(
+      buildRequest({ name: "Backend", scopes: ["admin:all"] })
+    );
+    const noScopes = await POST(buildRequest({ name: "Backend", scopes: [] }));
+
+    // Assert
+    expect(unknownScope.status).toBe(400);
+    expect(noScopes.status).toBe(400);
+    expect(mockIssueApiKey).not.toHaveBeenCalled();
+  });
+
+  test("returns 403 when the caller is not an organization admin", async () => {
+    // Arrange
+    mockRequireOrgAdmin.mockRejectedValue(
+      new ForbiddenError("Organization admin access required")
+    );
+
+    // Act
+    const response = await POST(
+      buildRequest({ name: "Backend metering", scopes: ["usage:write"] })
+    );
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(mockIssueApiKey).not.toHaveBeenCalled();
+  });
+});
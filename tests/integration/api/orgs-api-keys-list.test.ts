@@ -0,0 +1,82 @@
+/**
+ * Integration Tests: GET /api/orgs/api-keys.list
+ *
+ * Tests the API key listing endpoint with mocked dependencies.
+ */
+
+import { GET } from "@/app/api/orgs/api-keys.list/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { listApiKeys } from "@/lib/services/orgs/api-key-service";
+import { UnauthorizedError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/orgs/api-key-service");
+
+const mockRequireOrgAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireOrgAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireOrgAdmin
+>;
+const mockListApiKeys = listApiKeys as jest.MockedFunction<typeof listApiKeys>;
+
+describe("GET /api/orgs/api-keys.list", () => {
+  const clerkOrgId = "org_test_123";
+
+  const buildRequest = () =>
+    createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/orgs/api-keys.list",
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireOrgAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 200 with the organization's keys", async () => {
+    // Arrange
+    mockListApiKeys.mockResolvedValue({
+      keys: [
+        {
+          id: "key_123",
+          name: "Backend metering",
+          prefix: "msk_1a2b3c4d",
+          scopes: ["usage:write"],
+          status: "active",
+          expiresAt: null,
+          lastUsedAt: "2025-01-02T00:00:00.000Z",
+          revokedAt: null,
+          createdByUserId: "user_admin",
+          createdAt: "2025-01-01T00:00:00.000Z",
+        },
+      ],
+    });
+
+    // Act
+    const response = await GET(buildRequest());
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockListApiKeys).toHaveBeenCalledWith(clerkOrgId);
+    expect(body.data.keys).toHaveLength(1);
+    expect(body.data.keys[0].lastUsedAt).toBe("2025-01-02T00:00:00.000Z");
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireOrgAdmin.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    // Act
+    const response = await GET(buildRequest());
+
+    // Assert
+    expect(response.status).toBe(401);
+    expect(mockListApiKeys).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Integration Tests: POST /api/orgs/api-keys.revoke
+ *
+ * Tests the API key revocation endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/orgs/api-keys.revoke/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { revokeApiKey } from "@/lib/services/orgs/api-key-service";
+import { ApiKeyNotFoundError } from "@/lib/errors/api-key-errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/orgs/api-key-service");
+
+const mockRequireOrgAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireOrgAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireOrgAdmin
+>;
+const mockRevokeApiKey = revokeApiKey as jest.MockedFunction<
+  typeof revokeApiKey
+>;
+
+describe("POST /api/orgs/api-keys.revoke", () => {
+  const clerkOrgId = "org_test_123";
+
+  const buildRequest = (body: Record<string, unknown>) =>
+    createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/orgs/api-keys.revoke",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireOrgAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 200 with the revoked key", async () => {
+    // Arrange
+    mockRevokeApiKey.mockResolvedValue({
+      id: "key_123",
+      name: "Backend metering",
+      prefix: "msk_1a2b3c4d",
+      scopes: ["usage:write"],
+      status: "revoked",
+      expiresAt: null,
+      lastUsedAt: null,
+      revokedAt: "2025-01-03T00:00:00.000Z",
+      createdByUserId: "user_admin",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+
+    // Act
+    const response = await POST(buildRequest({ keyId: "key_123" }));
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body.data.status).toBe("revoked");
+    expect(body.data).not.toHaveProperty("key");
+    expect(mockRevokeApiKey).toHaveBeenCalledWith(clerkOrgId, "key_123");
+  });
+
+  test("returns 404 for another organization's key", async () => {
+    // Arrange
+    mockRevokeApiKey.mockRejectedValue(
+      new ApiKeyNotFoundError("API key not found: key_other")
+    );
+
+    // Act
+    const response = await POST(buildRequest({ keyId: "key_other" }));
+
+    // Assert
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Integration Tests: POST /api/orgs/api-keys.rotate
+ *
+ * Tests the API key rotation endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/orgs/api-keys.rotate/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { rotateApiKey } from "@/lib/services/orgs/api-key-service";
+import { ApiKeyValidationError } from "@/lib/errors/api-key-errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/orgs/api-key-service");
+
+const mockRequireOrgAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireOrgAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireOrgAdmin
+>;
+const mockRotateApiKey = rotateApiKey as jest.MockedFunction<
+  typeof rotateApiKey
+>;
+
+describe("POST /api/orgs/api-keys.rotate", () => {
+  const clerkOrgId = "org_test_123";
+
+  const buildRequest = (body: Record<string, unknown>) =>
+    createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/orgs/api-keys.rotate",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireOrgAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 200 with the new key", async () => {
+    // Arrange
+    mockRotateApiKey.mockResolvedValue({
+      id: "key_123",
+      name: "Backend metering",
+      prefix: "msk_9f8e7d6c",
+      scopes: ["usage:write"],
+      status: "active",
+      expiresAt: null,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdByUserId: "user_admin",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      key: "msk_9f8e7d6c_secret",
+    });
+
+    // Act
+    const response = await POST(buildRequest({ keyId: "key_123" }));
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body.data.key).toBe("msk_9f8e7d6c_secret");
+    expect(mockRotateApiKey).toHaveBeenCalledWith(clerkOrgId, "key_123");
+  });
+
+  test("returns 400 for a revoked key", async () => {
+    // Arrange
+    mockRotateApiKey.mockRejectedValue(
+      new ApiKeyValidationError("API key is revoked and cannot be rotated")
+    );
+
+    // Act
+    const response = await POST(buildRequest({ keyId: "key_123" }));
+
+    // Assert
+    expect(response.status).toBe(400);
+  });
+
+  test("returns 400 when keyId is missing", async () => {
+    // Act
+    const response = await POST(buildRequest({}));
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(mockRotateApiKey).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Integration Tests: GET /api/orgs/members.caps.list
+ *
+ * Tests the member caps list API endpoint with mocked dependencies.
+ */
+
+import { GET } from "@/app/api/orgs/members.caps.list/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { findMemberUsageCaps } from "@/lib/db/repositories/member-repository";
+import { ForbiddenError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/member-repository");
+
+const mockRequireOrgAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireOrgAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireOrgAdmin
+>;
+const mockFindMemberUsageCaps = findMemberUsageCaps as jest.MockedFunction<
+  typeof findMemberUsageCaps
+>;
+
+describe("GET /api/orgs/members.caps.list", () => {
+  const clerkOrgId = "org_test_123";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireOrgAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 200 with the admin's organization's caps", async () => {
+    // Arrange
+    mockFindMemberUsageCaps.mockResolvedValue([
+      {
+        id: "member_cap_123",
+        clerkOrgId,
+        userId: "user_runaway",
+        metric: "api_call",
+        cap: 500,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    ]);
+
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/orgs/members.caps.list?userId=user_runaway",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({
+      caps: [{ userId: "user_runaway", metric: "api_call", cap: 500 }],
+    });
+    expect(mockFindMemberUsageCaps).toHaveBeenCalledWith(
+      clerkOrgId,
+      "user_runaway"
+    );
+  });
+
+  test("returns 403 when the caller is not an organization admin", async () => {
+    // Arrange
+    mockRequireOrgAdmin.mockRejectedValue(
+      new ForbiddenError("Organization admin access required")
+    );
+
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/orgs/members.caps.list",
+    });
+
+    // Act
+    const response = await GET(request);
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(mockFindMemberUsageCaps).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Integration Tests: POST /api/orgs/members.caps.set
+ *
+ * Tests the member cap API endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/orgs/members.caps.set/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { setMemberCap } from "@/lib/services/orgs/member-cap-service";
+import { ForbiddenError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/orgs/member-cap-service");
+
+const mockRequireOrgAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireOrgAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireOrgAdmin
+>;
+const mockSetMemberCap = setMemberCap as jest.MockedFunction<
+  typeof setMemberCap
+>;
+
+describe("POST /api/orgs/members.caps.set", () => {
+  const clerkOrgId = "org_test_123";
+
+  const buildRequest = (body: Record<string, unknown>) =>
+    createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/orgs/members.caps.set",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireOrgAdmin.mockResolvedValue({
+      userId: "user_admin",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 200 with the cap set for the admin's organization", async () => {
+    // Arrange
+    mockSetMemberCap.mockResolvedValue({
+      orgId: clerkOrgId,
+      userId: "user_runaway",
+      metric: "api_call",
+      cap: 500,
+    });
+
+    // Act
+    const response = await POST(
+      buildRequest({ userId: "user_runaway", metric: "api_call", cap: 500 })
+    );
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({
+      orgId: clerkOrgId,
+      userId: "user_runaway",
+      metric: "api_call",
+      cap: 500,
+    });
+    expect(mockSetMemberCap).toHaveBeenCalledWith({
+      clerkOrgId,
+      userId: "user_runaway",
+      metric: "api_call",
+      cap: 500,
+    });
+  });
+
+  test("removes the cap when cap is null", async () => {
+    // Arrange
+    mockSetMemberCap.mockResolvedValue({
+      orgId: clerkOrgId,
+      userId: "user_runaway",
+      metric: "api_call",
+      cap: null,
+    });
+
+    // Act
+    const response = await POST(
+      buildRequest({ userId: "user_runaway", metric: "api_call", cap: null })
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockSetMemberCap).toHaveBeenCalledWith(
+      expect.objectContaining({ cap: null })
+    );
+  });
+
+  test("returns 400 for an unknown metric or a negative cap", async () => {
+    // Act
+    const unknownMetric = await POST(
+      buildRequest({ userId: "user_runaway", metric: "sms", cap: 5 })
+    );
+    const negativeCap = await POST(
+      buildRequest({ userId: "user_runaway", metric: "api_call", cap: -1 })
+    );
+
+    // Assert
+    expect(unknownMetric.status).toBe(400);
+    expect(negativeCap.status).toBe(400);
+    expect(mockSetMemberCap).not.toHaveBeenCalled();
+  });
+
+  test("returns 403 when the caller is not an organization admin", async () => {
+    // Arrange
+    mockRequireOrgAdmin.mockRejectedValue(
+      new ForbiddenError("Organization admin access required")
+    );
+
+    // Act
+    const response = await POST(
+      buildRequest({ userId: "user_runaway", metric: "api_call", cap: 500 })
+    );
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(mockSetMemberCap).not.toHaveBeenCalled();
+  });
+});
@@ -1,20 +1,19 @@
 /**
  * Integration Tests: POST /api/quota/check
- * 
+ *
  * Tests the quota check API endpoint with mocked dependencies.
  */
 
 import { POST } from "@/app/api/quota/check/route";
 import { createTestRequest } from "../../helpers/test-request";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
+import { findUsageCounter } from "@/lib/db/repositories/usage-repository";
 import {
-  findOrganizationByClerkOrgId,
-} from "@/lib/db/repositories/org-repository";
-import {
-  findActiveSubscriptionByOrganizationId,
-} from "@/lib/db/repositories/subscription-repository";
-import {
-  findUsageCounter,
-} from "@/lib/db/repositories/usage-repository";
+  mockOrganizationRecord,
+  mockSubscriptionRecord,
+  mockUsageCounterRecord,
+} from "../../helpers/mock-db";
 
 // Mock dependencies
 jest.mock("@/lib/middleware/auth");
@@ -30,12 +29,14 @@ const mockRequireAuthWithOrg = require("@/lib/middleware/auth")
   typeof import("@/lib/middleware/auth").requireAuthWithOrg
 >;
 
-const mockFindOrganizationByClerkOrgId = findOrganizationByClerkOrgId as jest.MockedFunction<
-  typeof findOrganizationByClerkOrgId
->;
-const mockFindActiveSubscriptionByOrganizationId = findActiveSubscriptionByOrganizationId as jest.MockedFunction<
-  typeof findActiveSubscriptionByOrganizationId
->;
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockFindActiveSubscriptionByOrganizationId =
+  findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+    typeof findActiveSubscriptionByOrganizationId
+  >;
 const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
   typeof findUsageCounter
 >;
@@ -74,8 +75,8 @@ describe("POST /api/quota/check", () => {
         planCode: "starter",
         stripePriceId: "price_test",
         status: "active",
-        currentPeriodStart: new Date(2025, 0, 15),
-        currentPeriodEnd: new Date(2025, 1, 15),
+        currentPeriodStart: new Date("2025-01-15T08:00:00Z"),
+        currentPeriodEnd: new Date("2025-02-15T08:00:00Z"),
         trialEndsAt: null,
         organizationId: orgId,
         createdAt: new Date(),
@@ -85,9 +86,9 @@ describe("POST /api/quota/check", () => {
       mockFindUsageCounter.mockResolvedValue({
         id: "counter_123",
         clerkOrgId,
-        periodKey: "2025-01",
-        periodStart: new Date(2025, 0, 1),
-        periodEnd: new Date(2025, 1, 1),
+        periodKey: "2025-01-15",
+        periodStart: new Date("2025-01-15T08:00:00Z"),
+        periodEnd: new Date("2025-02-15T08:00:00Z"),
         metric: "api_call",
         included: 60,
         used: 15,
@@ -115,7 +116,60 @@ describe("POST /api/quota/check", () => {
       expect(body).toMatchObject({
         data: {
           allow: true,
+          limit: 60,
+          used: 15,
           remaining: 45,
+          resetAt: "2025-02-15T08:00:00.000Z",
+        },
+        correlationId: expect.any(String),
+      });
+      expect(response.headers.get("RateLimit-Limit")).toBe("60");
+      expect(response.headers.get("RateLimit-Remaining")).toBe("45");
+      // The period already ended
+      expect(response.headers.get("RateLimit-Reset")).toBe("0");
+    });
+
+    test("returns 200 with status in_overage within a soft cap burst", async () => {
+      // Arrange
+      const clerkOrgId = "org_test_123";
+
+      mockRequireAuthWithOrg.mockResolvedValue({
+        userId: "user_123",
+        clerkOrgId,
+      });
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ clerkOrgId })
+      );
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({ clerkOrgId, planCode: "growth" })
+      );
+      mockFindUsageCounter.mockResolvedValue(
+        mockUsageCounterRecord({ clerkOrgId, included: 300, used: 330 })
+      );
+
+      const request = createTestRequest({
+        method: "POST",
+        url: "http://localhost:3000/api/quota/check",
+        body: {
+          orgId: clerkOrgId,
+          metric: "api_call",
+        },
+      });
+
+      // Act
+      const response = await POST(request);
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({
+        data: {
+          allow: true,
+          remaining: 0,
+          status: "in_overage",
+          mode: "soft",
+          overageAllowance: 60,
+          overageRemaining: 30,
         },
         correlationId: expect.any(String),
       });
@@ -126,6 +180,7 @@ describe("POST /api/quota/check", () => {
       const clerkOrgId = "org_test_123";
       const orgId = "org_internal_123";
       const subscriptionId = "sub_123";
+      const periodEnd = new Date(Date.now() + 2 * 60 * 60 * 1000);
 
       mockRequireAuthWithOrg.mockResolvedValue({
         userId: "user_123",
@@ -149,8 +204,8 @@ describe("POST /api/quota/check", () => {
         planCode: "trial",
         stripePriceId: "price_test",
         status: "trialing",
-        currentPeriodStart: new Date(2025, 0, 15),
-        currentPeriodEnd: new Date(2025, 1, 15),
+        currentPeriodStart: new Date("2025-01-15T08:00:00Z"),
+        currentPeriodEnd: new Date("2025-02-15T08:00:00Z"),
         trialEndsAt: null,
         organizationId: orgId,
         createdAt: new Date(),
@@ -160,9 +215,9 @@ describe("POST /api/quota/check", () => {
       mockFindUsageCounter.mockResolvedValue({
         id: "counter_123",
         clerkOrgId,
-        periodKey: "2025-01",
-        periodStart: new Date(2025, 0, 1),
-        periodEnd: new Date(2025, 1, 1),
+        periodKey: "2025-01-15",
+        periodStart: new Date("2025-01-15T08:00:00Z"),
+        periodEnd,
         metric: "api_call",
         included: 30,
         used: 30, // All quota used
@@ -191,10 +246,23 @@ describe("POST /api/quota/check", () => {
         error: {
           code: "QUOTA_EXCEEDED",
           message: "Usage quota exceeded",
+          details: {
+            metric: "api_call",
+            limit: 30,
+            used: 30,
+            remaining: 0,
+            resetAt: periodEnd.toISOString(),
+            upgrade: { planCode: "starter", limit: 60 },
+          },
         },
         correlationId: expect.any(String),
       });
-      expect(response.headers.get("Retry-After")).toBe("3600");
+      // Retry once the period resets, two hours from now
+      const retryAfter = Number(response.headers.get("Retry-After"));
+      expect(retryAfter).toBeGreaterThan(7190);
+      expect(retryAfter).toBeLessThanOrEqual(7200);
+      expect(response.headers.get("RateLimit-Reset")).toBe(String(retryAfter));
+      expect(response.headers.get("RateLimit-Remaining")).toBe("0");
     });
   });
 
@@ -310,8 +378,8 @@ describe("POST /api/quota/check", () => {
         planCode: "trial",
         stripePriceId: "price_test",
         status: "trialing",
-        currentPeriodStart: new Date(2025, 0, 15),
-        currentPeriodEnd: new Date(2025, 1, 15),
+        currentPeriodStart: new Date("2025-01-15T08:00:00Z"),
+        currentPeriodEnd: new Date("2025-02-15T08:00:00Z"),
         trialEndsAt: null,
         organizationId: orgId,
         createdAt: new Date(),
@@ -402,8 +470,8 @@ describe("POST /api/quota/check", () => {
         planCode: "starter",
         stripePriceId: "price_test",
         status: "active",
-        currentPeriodStart: new Date(2025, 0, 15),
-        currentPeriodEnd: new Date(2025, 1, 15),
+        currentPeriodStart: new Date("2025-01-15T08:00:00Z"),
+        currentPeriodEnd: new Date("2025-02-15T08:00:00Z"),
         trialEndsAt: null,
         organizationId: orgId,
         createdAt: new Date(),
@@ -413,9 +481,9 @@ describe("POST /api/quota/check", () => {
       mockFindUsageCounter.mockResolvedValue({
         id: "counter_123",
         clerkOrgId,
-        periodKey: "2025-01",
-        periodStart: new Date(2025, 0, 1),
-        periodEnd: new Date(2025, 1, 1),
+        periodKey: "2025-01-15",
+        periodStart: new Date("2025-01-15T08:00:00Z"),
+        periodEnd: new Date("2025-02-15T08:00:00Z"),
         metric: "api_call",
         included: 60,
         used: 15,
@@ -443,10 +511,9 @@ describe("POST /api/quota/check", () => {
       expect(body.data.allow).toBe(true);
       expect(mockFindUsageCounter).toHaveBeenCalledWith(
         clerkOrgId,
-        "2025-01",
+        "2025-01-15",
         "api_call" // Default metric
       );
     });
   });
 });
-
@@ -1,6 +1,6 @@
 /**
  * Integration Tests: POST /api/quota/deny-envelope.example
- * 
+ *
  * Tests the quota denial envelope example endpoint.
  */
 
@@ -31,11 +31,16 @@ describe("POST /api/quota/deny-envelope.example", () => {
           limit: 30,
           used: 30,
           remaining: 0,
+          resetAt: expect.any(String),
+          upgrade: { planCode: "starter", limit: 60 },
         },
       },
       correlationId: expect.any(String),
     });
     expect(response.headers.get("Retry-After")).toBe("3600");
+    expect(response.headers.get("RateLimit-Limit")).toBe("30");
+    expect(response.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(response.headers.get("RateLimit-Reset")).toBe("3600");
   });
 
   test("always returns 429 regardless of request body", async () => {
@@ -78,4 +83,3 @@ describe("POST /api/quota/deny-envelope.example", () => {
     expect(typeof body.correlationId).toBe("string");
   });
 });
-
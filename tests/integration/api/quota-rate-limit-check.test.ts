@@ -0,0 +1,153 @@
+/**
+ * Integration Tests: POST /api/quota/rate-limit.check
+ *
+ * Tests the rate limit check API endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/quota/rate-limit.check/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
+import {
+  mockOrganizationRecord,
+  mockSubscriptionRecord,
+} from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/subscription-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockFindActiveSubscriptionByOrganizationId =
+  findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+    typeof findActiveSubscriptionByOrganizationId
+  >;
+
+describe("POST /api/quota/rate-limit.check", () => {
+  // Buckets are kept in process memory, so each test uses its own org
+  let orgSequence = 0;
+  let clerkOrgId = "";
+
+  const buildRequest = (body: Record<string, unknown> = {}) =>
+    createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/quota/rate-limit.check",
+      body: {
+        orgId: clerkOrgId,
+        ...body,
+      },
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clerkOrgId = `org_rate_limit_${++orgSequence}`;
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+    mockFindOrganizationByClerkOrgId.mockResolvedValue(
+      mockOrganizationRecord({ clerkOrgId })
+    );
+    mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+      mockSubscriptionRecord({ clerkOrgId, planCode: "trial" })
+    );
+  });
+
+  describe("Success Cases", () => {
+    test("returns 200 with the most constrained window", async () => {
+      // Act
+      const response = await POST(buildRequest());
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({
+        data: {
+          allow: true,
+          window: "second",
+          limit: 2,
+          remaining: 1,
+        },
+        correlationId: expect.any(String),
+      });
+    });
+  });
+
+  describe("Error Cases", () => {
+    test("returns 429 RATE_LIMITED with Retry-After once the plan limit is reached", async () => {
+      // Arrange - trial allows 2 requests per second
+      await POST(buildRequest());
+      await POST(buildRequest());
+
+      // Act
+      const response = await POST(buildRequest());
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(429);
+      expect(response.headers.get("Retry-After")).toBe("1");
+      expect(body).toMatchObject({
+        error: {
+          code: "RATE_LIMITED",
+          details: {
+            window: "second",
+            limit: 2,
+            remaining: 0,
+            retryAfter: 1,
+          },
+        },
+        correlationId: expect.any(String),
+      });
+    });
+
+    test("returns 401 when not authenticated", async () => {
+      // Arrange
+      const { UnauthorizedError } = jest.requireActual("@/lib/utils/errors");
+      mockRequireAuthWithOrg.mockRejectedValue(
+        new UnauthorizedError("Authentication required")
+      );
+
+      // Act
+      const response = await POST(buildRequest());
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(body.error.code).toBe("UNAUTHORIZED");
+    });
+
+    test("returns 403 when orgId does not match authenticated orgId", async () => {
+      // Act
+      const response = await POST(buildRequest({ orgId: "org_different_456" }));
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(body.error.code).toBe("FORBIDDEN");
+      expect(mockFindOrganizationByClerkOrgId).not.toHaveBeenCalled();
+    });
+
+    test("returns 404 when no active subscription", async () => {
+      // Arrange
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(null);
+
+      // Act
+      const response = await POST(buildRequest());
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(body.error.code).toBe("NOT_FOUND");
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Integration Tests: POST /api/usage/adjustments.create
+ *
+ * Tests the usage adjustment API endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/usage/adjustments.create/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { findUsageCounter } from "@/lib/db/repositories/usage-repository";
+import { applyUsageAdjustment } from "@/lib/db/repositories/usage-adjustment-repository";
+import { UnauthorizedError, ForbiddenError } from "@/lib/utils/errors";
+import {
+  mockUsageCounterRecord,
+  mockUsageAdjustmentRecord,
+} from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/usage-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/usage-repository"),
+  findUsageCounter: jest.fn(),
+  findUsageCounterById: jest.fn(),
+  findUsageRecordByRequestId: jest.fn(),
+}));
+jest.mock("@/lib/db/repositories/usage-adjustment-repository");
+jest.mock("@/lib/services/usage/usage-threshold-service");
+
+const mockRequireAdmin = jest.requireMock("@/lib/middleware/auth")
+  .requireAdmin as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAdmin
+>;
+
+const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
+  typeof findUsageCounter
+>;
+const mockApplyUsageAdjustment = applyUsageAdjustment as jest.MockedFunction<
+  typeof applyUsageAdjustment
+>;
+
+describe("POST /api/usage/adjustments.create", () => {
+  const clerkOrgId = "org_test456";
+  const counter = mockUsageCounterRecord({ included: 60, used: 20 });
+
+  const validBody = {
+    orgId: clerkOrgId,
+    metric: "api_call",
+    periodKey: "2025-01-15",
+    type: "credit",
+    amount: 5,
+    reason: "Refund for failed requests",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAdmin.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId: null,
+    });
+    mockFindUsageCounter.mockResolvedValue(counter);
+    mockApplyUsageAdjustment.mockResolvedValue({
+      adjustment: mockUsageAdjustmentRecord(),
+      counter: { ...counter, used: 15 },
+    });
+  });
+
+  test("returns 201 with the adjustment and new usage", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/usage/adjustments.create",
+      body: validBody,
+    });
+
+    // Act
+    const response = await POST(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({
+      data: {
+        adjustment: {
+          id: "adj_123",
+          type: "credit",
+          delta: -5,
+          usedBefore: 20,
+          usedAfter: 15,
+          reason: "Refund for failed requests",
+          actorUserId: "user_123",
+        },
+        periodKey: "2025-01-15",
+        used: 15,
+        remaining: 45,
+      },
+    });
+    expect(mockApplyUsageAdjustment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        clerkOrgId,
+        delta: -5,
+        actorUserId: "user_123",
+      })
+    );
+  });
+
+  test("returns 409 when a credit would take usage below zero", async () => {
+    // Arrange
+    mockApplyUsageAdjustment.mockResolvedValue(null);
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/usage/adjustments.create",
+      body: { ...validBody, amount: 25 },
+    });
+
+    // Act
+    const response = await POST(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(409);
+    expect(body.error.code).toBe("CONFLICT");
+  });
+
+  test("returns 404 when the period has no usage counter", async () => {
+    // Arrange
+    mockFindUsageCounter.mockResolvedValue(null);
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/usage/adjustments.create",
+      body: validBody,
+    });
+
+    // Act
+    const response = await POST(request);
+
+    // Assert
+    expect(response.status).toBe(404);
+    expect(mockApplyUsageAdjustment).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 when neither periodKey nor request_id is given", async () => {
+    // Arrange
+    const { periodKey: _periodKey, ...body } = validBody;
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/usage/adjustments.create",
+      body,
+    });
+
+    // Act
+    const response = await POST(request);
+
+    // Assert
+    expect(response.status).toBe(400);
+  });
+
+  test("returns 400 without a reason", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/usage/adjustments.create",
+      body: { ...validBody, reason: "  " },
+    });
+
+    // Act
+    const response = await POST(request);
+
+    // Assert
+    expect(response.status).toBe(400);
+  });
+
+  test("returns 403 for a member who is not a platform administrator", async () => {
+    // Arrange
+    mockRequireAdmin.mockRejectedValue(
+      new ForbiddenError("Admin access required")
+    );
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/usage/adjustments.create",
+      body: validBody,
+    });
+
+    // Act
+    const response = await POST(request);
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(mockApplyUsageAdjustment).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAdmin.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+    const request = createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/usage/adjustments.create",
+      body: validBody,
+    });
+
+    // Act
+    const response = await POST(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Integration Tests: GET /api/usage/adjustments.list
+ *
+ * Tests the usage adjustments list API endpoint with mocked dependencies.
+ */
+
+import { GET } from "@/app/api/usage/adjustments.list/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { findUsageAdjustments } from "@/lib/db/repositories/usage-adjustment-repository";
+import { UnauthorizedError } from "@/lib/utils/errors";
+import { mockUsageAdjustmentRecord } from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/usage-adjustment-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+
+const mockFindUsageAdjustments = findUsageAdjustments as jest.MockedFunction<
+  typeof findUsageAdjustments
+>;
+
+describe("GET /api/usage/adjustments.list", () => {
+  const clerkOrgId = "org_test_123";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 200 with adjustments for the authenticated org", async () => {
+    // Arrange
+    mockFindUsageAdjustments.mockResolvedValue([
+      mockUsageAdjustmentRecord({ referenceRequestId: "req_failed" }),
+    ]);
+
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/adjustments.list?periodKey=2025-01-15",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      data: {
+        adjustments: [
+          {
+            id: "adj_123",
+            type: "credit",
+            metric: "api_call",
+            periodKey: "2025-01-15",
+            delta: -5,
+            request_id: "req_failed",
+            createdAt: "2025-01-21T08:00:00.000Z",
+          },
+        ],
+      },
+      correlationId: expect.any(String),
+    });
+    expect(mockFindUsageAdjustments).toHaveBeenCalledWith(clerkOrgId, {
+      periodKey: "2025-01-15",
+      limit: 50,
+    });
+  });
+
+  test("returns 400 for invalid periodKey", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/adjustments.list?periodKey=January",
+    });
+
+    // Act
+    const response = await GET(request);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(mockFindUsageAdjustments).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAuthWithOrg.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/adjustments.list",
+    });
+
+    // Act
+    const response = await GET(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
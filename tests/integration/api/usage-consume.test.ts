@@ -0,0 +1,174 @@
+/**
+ * Integration Tests: POST /api/usage/consume
+ *
+ * Tests the atomic usage consumption API endpoint with mocked dependencies.
+ */
+
+import { POST } from "@/app/api/usage/consume/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
+import {
+  findUsageCounter,
+  consumeUsageCounterWithinQuota,
+} from "@/lib/db/repositories/usage-repository";
+import { findIdempotencyKey } from "@/lib/db/repositories/idempotency-repository";
+import {
+  mockOrganizationRecord,
+  mockSubscriptionRecord,
+  mockUsageCounterRecord,
+} from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/subscription-repository");
+jest.mock("@/lib/db/repositories/usage-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/usage-repository"),
+  findUsageCounter: jest.fn(),
+  consumeUsageCounterWithinQuota: jest.fn(),
+}));
+jest.mock("@/lib/db/repositories/idempotency-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockFindActiveSubscriptionByOrganizationId =
+  findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+    typeof findActiveSubscriptionByOrganizationId
+  >;
+const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
+  typeof findUsageCounter
+>;
+const mockFindIdempotencyKey = findIdempotencyKey as jest.MockedFunction<
+  typeof findIdempotencyKey
+>;
+const mockConsumeUsageCounterWithinQuota =
+  consumeUsageCounterWithinQuota as jest.MockedFunction<
+    typeof consumeUsageCounterWithinQuota
+  >;
+
+describe("POST /api/usage/consume", () => {
+  const clerkOrgId = "org_test_123";
+
+  const buildRequest = (body: Record<string, unknown>) =>
+    createTestRequest({
+      method: "POST",
+      url: "http://localhost:3000/api/usage/consume",
+      body: {
+        orgId: clerkOrgId,
+        metric: "api_call",
+        value: 5,
+        occurredAt: new Date(2025, 0, 15, 10, 30, 0).toISOString(),
+        request_id: "req_consume_123",
+        ...body,
+      },
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+    mockFindIdempotencyKey.mockResolvedValue(null);
+    mockFindOrganizationByClerkOrgId.mockResolvedValue(
+      mockOrganizationRecord({ clerkOrgId })
+    );
+    mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+      mockSubscriptionRecord({ clerkOrgId })
+    );
+  });
+
+  describe("Success Cases", () => {
+    test("returns 200 with {periodKey, used, remaining} when within quota", async () => {
+      // Arrange
+      mockFindUsageCounter.mockResolvedValue(
+        mockUsageCounterRecord({ clerkOrgId, used: 15 })
+      );
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue(
+        mockUsageCounterRecord({ clerkOrgId, used: 20 })
+      );
+
+      // Act
+      const response = await POST(buildRequest({}));
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({
+        data: {
+          periodKey: "2025-01-15",
+          used: 20,
+          remaining: 40,
+        },
+        correlationId: expect.any(String),
+      });
+    });
+  });
+
+  describe("Error Cases", () => {
+    test("returns 429 with denial envelope when quota would be exceeded", async () => {
+      // Arrange
+      mockFindUsageCounter.mockResolvedValue(
+        mockUsageCounterRecord({ clerkOrgId, used: 58 })
+      );
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue(null);
+
+      // Act
+      const response = await POST(buildRequest({}));
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(429);
+      // The fixture period already ended, so retry after the minimum second
+      expect(response.headers.get("Retry-After")).toBe("1");
+      expect(response.headers.get("RateLimit-Limit")).toBe("60");
+      expect(response.headers.get("RateLimit-Remaining")).toBe("2");
+      expect(body).toMatchObject({
+        error: {
+          code: "QUOTA_EXCEEDED",
+          message: "Usage quota exceeded",
+          details: {
+            metric: "api_call",
+            limit: 60,
+            used: 58,
+            remaining: 2,
+            resetAt: "2025-02-15T08:00:00.000Z",
+            upgrade: { planCode: "growth", limit: 300 },
+          },
+        },
+        correlationId: expect.any(String),
+      });
+    });
+
+    test("returns 403 when orgId does not match authenticated orgId", async () => {
+      // Act
+      const response = await POST(buildRequest({ orgId: "org_different_456" }));
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(body.error.code).toBe("FORBIDDEN");
+      expect(mockConsumeUsageCounterWithinQuota).not.toHaveBeenCalled();
+    });
+
+    test("returns 400 for invalid value (non-positive)", async () => {
+      // Act
+      const response = await POST(buildRequest({ value: 0 }));
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(body.error).toBeDefined();
+      expect(mockConsumeUsageCounterWithinQuota).not.toHaveBeenCalled();
+    });
+  });
+});
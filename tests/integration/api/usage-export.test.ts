@@ -0,0 +1,161 @@
+/**
+ * Integration Tests: GET /api/usage/export
+ *
+ * Tests the usage export API endpoint with mocked dependencies.
+ */
+
+import { GET } from "@/app/api/usage/export/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { findUsageRecordsForExport } from "@/lib/db/repositories/usage-repository";
+import { UnauthorizedError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/usage-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+
+const mockFindUsageRecordsForExport =
+  findUsageRecordsForExport as jest.MockedFunction<
+    typeof findUsageRecordsForExport
+  >;
+
+describe("GET /api/usage/export", () => {
+  const clerkOrgId = "org_test_123";
+  const range = "from=2025-01-01T00:00:00Z&to=2025-02-01T00:00:00Z";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+    mockFindUsageRecordsForExport.mockResolvedValue([
+      {
+        id: "rec_1",
+        clerkOrgId,
+        metric: "api_call",
+        value: 2,
+        occurredAt: new Date("2025-01-21T08:00:00.000Z"),
+        metadata: { request_id: "req_abc" },
+        organizationId: "org_db_123",
+        subscriptionId: "sub_db_123",
+        usageCounterId: "counter_123",
+        createdAt: new Date("2025-01-21T08:00:00.000Z"),
+        usageCounter: { periodKey: "2025-01" },
+      },
+    ]);
+  });
+
+  test("streams CSV for the authenticated org", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: `http://localhost:3000/api/usage/export?${range}&metric=api_call`,
+    });
+
+    // Act
+    const response = await GET(request);
+    const text = await response.text();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe(
+      "text/csv; charset=utf-8"
+    );
+    expect(response.headers.get("content-disposition")).toBe(
+      'attachment; filename="usage-2025-01-01-2025-02-01.csv"'
+    );
+    expect(text).toBe(
+      "metric,value,occurredAt,request_id,periodKey\n" +
+        "api_call,2,2025-01-21T08:00:00.000Z,req_abc,2025-01\n"
+    );
+    expect(mockFindUsageRecordsForExport).toHaveBeenCalledWith(
+      {
+        clerkOrgId,
+        metric: "api_call",
+        from: new Date("2025-01-01T00:00:00Z"),
+        to: new Date("2025-02-01T00:00:00Z"),
+      },
+      expect.any(Object)
+    );
+  });
+
+  test("streams NDJSON when requested", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: `http://localhost:3000/api/usage/export?${range}&format=ndjson`,
+    });
+
+    // Act
+    const response = await GET(request);
+    const text = await response.text();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe(
+      "application/x-ndjson; charset=utf-8"
+    );
+    expect(JSON.parse(text.trim())).toEqual({
+      metric: "api_call",
+      value: 2,
+      occurredAt: "2025-01-21T08:00:00.000Z",
+      request_id: "req_abc",
+      periodKey: "2025-01",
+    });
+  });
+
+  test("returns 400 when the date range is missing", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/export?format=csv",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error).toBeDefined();
+    expect(mockFindUsageRecordsForExport).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 for an unsupported format", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: `http://localhost:3000/api/usage/export?${range}&format=xlsx`,
+    });
+
+    // Act
+    const response = await GET(request);
+
+    // Assert
+    expect(response.status).toBe(400);
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAuthWithOrg.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    const request = createTestRequest({
+      method: "GET",
+      url: `http://localhost:3000/api/usage/export?${range}`,
+    });
+
+    // Act
+    const response = await GET(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Integration Tests: GET /api/usage/forecast
+ *
+ * Tests the usage forecast API endpoint with mocked dependencies.
+ */
+
+import { GET } from "@/app/api/usage/forecast/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { getUsageForecast } from "@/lib/services/entitlements/entitlements-service";
+import { EntitlementsNoActiveSubscriptionError } from "@/lib/errors/entitlements-errors";
+import { UnauthorizedError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/entitlements/entitlements-service");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+const mockGetUsageForecast = getUsageForecast as jest.MockedFunction<
+  typeof getUsageForecast
+>;
+
+describe("GET /api/usage/forecast", () => {
+  const clerkOrgId = "org_test_123";
+
+  const buildRequest = (query = "") =>
+    createTestRequest({
+      method: "GET",
+      url: `http://localhost:3000/api/usage/forecast${query}`,
+    });
+
+  const forecast = {
+    periodKey: "2024-12-31",
+    periodStart: "2025-01-01T00:00:00.000Z",
+    periodEnd: "2025-01-31T00:00:00.000Z",
+    asOf: "2025-01-11T00:00:00.000Z",
+    forecasts: [
+      {
+        metric: "api_call",
+        used: 100,
+        limit: 250,
+        remaining: 150,
+        dailyRate: 10,
+        projectedUsed: 300,
+        projectedOverage: 50,
+        exhaustsAt: "2025-01-26T00:00:00.000Z",
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+    mockGetUsageForecast.mockResolvedValue(forecast);
+  });
+
+  test("returns 200 with the forecast for the authenticated org", async () => {
+    // Act
+    const response = await GET(buildRequest());
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual(forecast);
+    expect(mockRequireAuthWithOrg).toHaveBeenCalledWith("entitlements:read");
+    expect(mockGetUsageForecast).toHaveBeenCalledWith(clerkOrgId, undefined);
+  });
+
+  test("forecasts the requested metric", async () => {
+    // Act
+    const response = await GET(buildRequest("?metric=token"));
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockGetUsageForecast).toHaveBeenCalledWith(clerkOrgId, "token");
+  });
+
+  test("returns 400 for an unknown metric", async () => {
+    // Act
+    const response = await GET(buildRequest("?metric=minutes"));
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+    expect(mockGetUsageForecast).not.toHaveBeenCalled();
+  });
+
+  test("returns 404 without an active subscription", async () => {
+    // Arrange
+    mockGetUsageForecast.mockRejectedValue(
+      new EntitlementsNoActiveSubscriptionError(
+        `No active subscription found for organization: ${clerkOrgId}`
+      )
+    );
+
+    // Act
+    const response = await GET(buildRequest());
+
+    // Assert
+    expect(response.status).toBe(404);
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAuthWithOrg.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    // Act
+    const response = await GET(buildRequest());
+
+    // Assert
+    expect(response.status).toBe(401);
+    expect(mockGetUsageForecast).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Integration Tests: GET /api/usage/history
+ *
+ * Tests the usage history API endpoint with mocked dependencies.
+ */
+
+import { GET } from "@/app/api/usage/history/route";
+import { createTestRequest } from "../../helpers/test-request";
+import {
+  findUsageRecordsPage,
+  sumUsageRecordsByBucket,
+} from "@/lib/db/repositories/usage-repository";
+import { findUsageAdjustments } from "@/lib/db/repositories/usage-adjustment-repository";
+import { UnauthorizedError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/usage-repository");
+jest.mock("@/lib/db/repositories/usage-adjustment-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+
+const mockFindUsageRecordsPage = findUsageRecordsPage as jest.MockedFunction<
+  typeof findUsageRecordsPage
+>;
+const mockSumUsageRecordsByBucket =
+  sumUsageRecordsByBucket as jest.MockedFunction<
+    typeof sumUsageRecordsByBucket
+  >;
+const mockFindUsageAdjustments = findUsageAdjustments as jest.MockedFunction<
+  typeof findUsageAdjustments
+>;
+
+describe("GET /api/usage/history", () => {
+  const clerkOrgId = "org_test_123";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+    mockFindUsageAdjustments.mockResolvedValue([]);
+    mockSumUsageRecordsByBucket.mockResolvedValue([
+      { bucket: "2025-01", value: 23, count: 20 },
+    ]);
+    mockFindUsageRecordsPage.mockResolvedValue([
+      {
+        id: "rec_1",
+        clerkOrgId,
+        metric: "api_call",
+        value: 1,
+        occurredAt: new Date("2025-01-21T08:00:00.000Z"),
+        metadata: { request_id: "req_abc" },
+        organizationId: "org_db_123",
+        subscriptionId: "sub_db_123",
+        usageCounterId: "counter_123",
+        createdAt: new Date("2025-01-21T08:00:00.000Z"),
+      },
+    ]);
+  });
+
+  test("returns 200 with buckets and records for the authenticated org", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/history?metric=api_call&from=2025-01-01T00:00:00Z&to=2025-02-01T00:00:00Z&granularity=period&limit=10",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      data: {
+        metric: "api_call",
+        from: "2025-01-01T00:00:00.000Z",
+        to: "2025-02-01T00:00:00.000Z",
+        granularity: "period",
+        buckets: [{ bucket: "2025-01", value: 23, count: 20 }],
+        records: [
+          {
+            id: "rec_1",
+            value: 1,
+            occurredAt: "2025-01-21T08:00:00.000Z",
+            requestId: "req_abc",
+          },
+        ],
+        nextCursor: null,
+        adjustments: [],
+      },
+      correlationId: expect.any(String),
+    });
+    expect(mockSumUsageRecordsByBucket).toHaveBeenCalledWith(
+      {
+        clerkOrgId,
+        metric: "api_call",
+        from: new Date("2025-01-01T00:00:00Z"),
+        to: new Date("2025-02-01T00:00:00Z"),
+      },
+      "period"
+    );
+    expect(mockFindUsageRecordsPage).toHaveBeenCalledWith(expect.any(Object), {
+      limit: 11,
+      after: undefined,
+    });
+  });
+
+  test("returns 400 for invalid granularity", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/history?granularity=week",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error).toBeDefined();
+    expect(mockSumUsageRecordsByBucket).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 when from is after to", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/history?from=2025-02-01T00:00:00Z&to=2025-01-01T00:00:00Z",
+    });
+
+    // Act
+    const response = await GET(request);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(mockFindUsageRecordsPage).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 for a malformed cursor", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/history?cursor=garbage",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_ERROR");
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAuthWithOrg.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/history",
+    });
+
+    // Act
+    const response = await GET(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Integration Tests: POST /api/usage/record.batch
+ *
+ * Tests the batch usage recording API endpoint with mocked service.
+ */
+
+import { POST } from "@/app/api/usage/record.batch/route";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+import { recordUsageBatch } from "@/lib/services/usage/usage-recording-service";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/usage/usage-recording-service");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+const mockRecordUsageBatch = recordUsageBatch as jest.MockedFunction<
+  typeof recordUsageBatch
+>;
+
+describe("POST /api/usage/record.batch", () => {
+  const clerkOrgId = "org_test456";
+  const buildRequest = (body: unknown) =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/usage/record.batch",
+      method: "POST",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+    mockRecordUsageBatch.mockImplementation(async (_clerkOrgId, items) => ({
+      results: items.map((item, index) => ({
+        index,
+        request_id: item.requestId,
+        status: "validationError" in item ? "rejected" : "recorded",
+      })),
+      recorded: items.filter((item) => !("validationError" in item)).length,
+      duplicates: 0,
+      rejected: items.filter((item) => "validationError" in item).length,
+      counters: [],
+    }));
+  });
+
+  test("returns 200 with per-item results", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        orgId: clerkOrgId,
+        items: [
+          {
+            metric: "api_call",
+            value: 5,
+            occurredAt: "2025-01-15T10:30:00.000Z",
+            request_id: "req_1",
+          },
+          {
+            value: 2,
+            occurredAt: "2025-01-15T10:31:00.000Z",
+            request_id: "req_2",
+          },
+        ],
+      })
+    );
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockRecordUsageBatch).toHaveBeenCalledWith(
+      clerkOrgId,
+      [
+        {
+          metric: "api_call",
+          value: 5,
+          occurredAt: new Date("2025-01-15T10:30:00.000Z"),
+          requestId: "req_1",
+        },
+        {
+          metric: "api_call", // default metric
+          value: 2,
+          occurredAt: new Date("2025-01-15T10:31:00.000Z"),
+          requestId: "req_2",
+        },
+      ],
+      "user_123"
+    );
+    expect(body).toMatchObject({
+      data: { recorded: 2, rejected: 0 },
+      correlationId: "test-correlation-id-456",
+    });
+  });
+
+  test("passes invalid items through as rejections instead of failing the batch", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        orgId: clerkOrgId,
+        items: [
+          {
+            metric: "api_call",
+            value: -1,
+            occurredAt: "2025-01-15T10:30:00.000Z",
+            request_id: "req_negative",
+          },
+          { metric: "api_call", value: 1, occurredAt: "yesterday" },
+        ],
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    const [, items] = mockRecordUsageBatch.mock.calls[0];
+    expect(items).toEqual([
+      {
+        requestId: "req_negative",
+        validationError: expect.stringContaining("value"),
+      },
+      { requestId: null, validationError: expect.any(String) },
+    ]);
+  });
+
+  test("returns 400 for an empty batch", async () => {
+    // Act
+    const response = await POST(buildRequest({ orgId: clerkOrgId, items: [] }));
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(mockRecordUsageBatch).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 when the batch exceeds the item limit", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        orgId: clerkOrgId,
+        items: new Array(501).fill({}),
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(mockRecordUsageBatch).not.toHaveBeenCalled();
+  });
+
+  test("returns 403 when orgId doesn't match the authenticated org", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({ orgId: "org_other", items: [{}] })
+    );
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(body).toMatchObject({ error: { code: "FORBIDDEN" } });
+    expect(mockRecordUsageBatch).not.toHaveBeenCalled();
+  });
+});
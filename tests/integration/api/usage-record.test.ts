@@ -1,24 +1,18 @@
 /**
  * Integration Tests: POST /api/usage/record
- * 
+ *
  * Tests the usage recording API endpoint with mocked dependencies.
  */
 
 import { POST } from "@/app/api/usage/record/route";
 import { createTestRequest } from "../../helpers/test-request";
-import {
-  findOrganizationByClerkOrgId,
-} from "@/lib/db/repositories/org-repository";
-import {
-  findActiveSubscriptionByOrganizationId,
-} from "@/lib/db/repositories/subscription-repository";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
 import {
   findUsageCounter,
-  incrementUsageCounter,
-  createUsageRecord,
-  findUsageRecordByRequestId,
-  upsertUsageCounter,
+  consumeUsageCounterWithinQuota,
 } from "@/lib/db/repositories/usage-repository";
+import { findIdempotencyKey } from "@/lib/db/repositories/idempotency-repository";
 
 // Mock dependencies
 jest.mock("@/lib/middleware/auth");
@@ -27,37 +21,33 @@ jest.mock("@/lib/db/repositories/subscription-repository");
 jest.mock("@/lib/db/repositories/usage-repository", () => ({
   ...jest.requireActual("@/lib/db/repositories/usage-repository"),
   findUsageCounter: jest.fn(),
-  incrementUsageCounter: jest.fn(),
-  createUsageRecord: jest.fn(),
-  findUsageRecordByRequestId: jest.fn(),
+  consumeUsageCounterWithinQuota: jest.fn(),
   upsertUsageCounter: jest.fn(),
 }));
+jest.mock("@/lib/db/repositories/idempotency-repository");
 
 const mockRequireAuthWithOrg = require("@/lib/middleware/auth")
   .requireAuthWithOrg as jest.MockedFunction<
   typeof import("@/lib/middleware/auth").requireAuthWithOrg
 >;
 
-const mockFindOrganizationByClerkOrgId = findOrganizationByClerkOrgId as jest.MockedFunction<
-  typeof findOrganizationByClerkOrgId
->;
-const mockFindActiveSubscriptionByOrganizationId = findActiveSubscriptionByOrganizationId as jest.MockedFunction<
-  typeof findActiveSubscriptionByOrganizationId
->;
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockFindActiveSubscriptionByOrganizationId =
+  findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+    typeof findActiveSubscriptionByOrganizationId
+  >;
 const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
   typeof findUsageCounter
 >;
-const mockIncrementUsageCounter = incrementUsageCounter as jest.MockedFunction<
-  typeof incrementUsageCounter
->;
-const mockCreateUsageRecord = createUsageRecord as jest.MockedFunction<
-  typeof createUsageRecord
->;
-const mockFindUsageRecordByRequestId = findUsageRecordByRequestId as jest.MockedFunction<
-  typeof findUsageRecordByRequestId
->;
-const mockUpsertUsageCounter = upsertUsageCounter as jest.MockedFunction<
-  typeof upsertUsageCounter
+const mockConsumeUsageCounterWithinQuota =
+  consumeUsageCounterWithinQuota as jest.MockedFunction<
+    typeof consumeUsageCounterWithinQuota
+  >;
+const mockFindIdempotencyKey = findIdempotencyKey as jest.MockedFunction<
+  typeof findIdempotencyKey
 >;
 
 describe("POST /api/usage/record", () => {
@@ -80,7 +70,7 @@ describe("POST /api/usage/record", () => {
         clerkOrgId,
       });
 
-      mockFindUsageRecordByRequestId.mockResolvedValue(null);
+      mockFindIdempotencyKey.mockResolvedValue(null);
       mockFindOrganizationByClerkOrgId.mockResolvedValue({
         id: orgId,
         clerkOrgId,
@@ -121,7 +111,7 @@ describe("POST /api/usage/record", () => {
         updatedAt: new Date(),
       });
 
-      mockIncrementUsageCounter.mockResolvedValue({
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
         id: counterId,
         clerkOrgId,
         periodKey: "2025-01",
@@ -136,19 +126,6 @@ describe("POST /api/usage/record", () => {
         updatedAt: new Date(),
       });
 
-      mockCreateUsageRecord.mockResolvedValue({
-        id: "record_123",
-        clerkOrgId,
-        metric: "api_call",
-        value: 5,
-        occurredAt,
-        metadata: { request_id: requestId },
-        organizationId: orgId,
-        subscriptionId,
-        usageCounterId: counterId,
-        createdAt: new Date(),
-      });
-
       const request = createTestRequest({
         method: "POST",
         url: "http://localhost:3000/api/usage/record",
@@ -175,14 +152,13 @@ describe("POST /api/usage/record", () => {
         },
         correlationId: expect.any(String),
       });
+      expect(response.headers.get("RateLimit-Limit")).toBe("60");
+      expect(response.headers.get("RateLimit-Reset")).toBe("0");
     });
 
     test("returns existing result when request_id already exists (idempotent)", async () => {
       // Arrange
       const clerkOrgId = "org_test_123";
-      const orgId = "org_internal_123";
-      const subscriptionId = "sub_123";
-      const counterId = "counter_123";
       const requestId = "req_existing_123";
       const occurredAt = new Date(2025, 0, 15, 10, 30, 0);
 
@@ -191,34 +167,16 @@ describe("POST /api/usage/record", () => {
         clerkOrgId,
       });
 
-      const existingRecord = {
-        id: "record_existing_123",
+      mockFindIdempotencyKey.mockResolvedValue({
+        id: "idem_existing_123",
         clerkOrgId,
-        metric: "api_call",
-        value: 5,
-        occurredAt,
-        metadata: { request_id: requestId },
-        organizationId: orgId,
-        subscriptionId,
-        usageCounterId: counterId,
+        requestId,
+        response: { periodKey: "2025-01", used: 20, remaining: 40 },
         createdAt: new Date(),
-      };
-
-      mockFindUsageRecordByRequestId.mockResolvedValue(existingRecord);
-      mockFindUsageCounter.mockResolvedValue({
-        id: counterId,
-        clerkOrgId,
-        periodKey: "2025-01",
-        periodStart: new Date(2025, 0, 1),
-        periodEnd: new Date(2025, 1, 1),
-        metric: "api_call",
-        included: 60,
-        used: 20, // Already recorded
-        organizationId: orgId,
-        subscriptionId,
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
       });
+      // Quota lookup for the rate limit headers fails
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(null);
 
       const request = createTestRequest({
         method: "POST",
@@ -248,8 +206,9 @@ describe("POST /api/usage/record", () => {
       });
 
       // Should not increment or create new record
-      expect(mockIncrementUsageCounter).not.toHaveBeenCalled();
-      expect(mockCreateUsageRecord).not.toHaveBeenCalled();
+      expect(mockConsumeUsageCounterWithinQuota).not.toHaveBeenCalled();
+      // Headers are dropped, the recorded response is still returned
+      expect(response.headers.get("RateLimit-Limit")).toBeNull();
     });
   });
 
@@ -372,6 +331,36 @@ describe("POST /api/usage/record", () => {
       expect(response.status).toBe(400);
       expect(body.error).toBeDefined();
     });
+
+    test("returns 400 for unknown metric", async () => {
+      // Arrange
+      const clerkOrgId = "org_test_123";
+
+      mockRequireAuthWithOrg.mockResolvedValue({
+        userId: "user_123",
+        clerkOrgId,
+      });
+
+      const request = createTestRequest({
+        method: "POST",
+        url: "http://localhost:3000/api/usage/record",
+        body: {
+          orgId: clerkOrgId,
+          metric: "gpu_seconds", // Not declared in any plan
+          value: 5,
+          occurredAt: new Date().toISOString(),
+          request_id: "req_123",
+        },
+      });
+
+      // Act
+      const response = await POST(request);
+      const body = await response.json();
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+      expect(mockConsumeUsageCounterWithinQuota).not.toHaveBeenCalled();
+    });
   });
 });
-
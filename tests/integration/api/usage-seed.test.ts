@@ -1,6 +1,6 @@
 /**
  * Integration Tests: POST /api/usage/seed
- * 
+ *
  * Tests the usage seed endpoint with baseline and situational scenarios
  */
 
@@ -10,19 +10,10 @@ import {
   mockUnauthenticated,
   resetClerkAuthMock,
 } from "../../helpers/mock-clerk-auth";
-import {
-  createMockOrganization,
-  resetDbMocks,
-} from "../../helpers/mock-db";
-import {
-  findActiveSubscriptionByOrganizationId,
-} from "@/lib/db/repositories/subscription-repository";
-import {
-  findOrganizationById,
-} from "@/lib/db/repositories/org-repository";
-import {
-  upsertUsageCounter,
-} from "@/lib/db/repositories/usage-repository";
+import { createMockOrganization, resetDbMocks } from "../../helpers/mock-db";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
+import { findOrganizationById } from "@/lib/db/repositories/org-repository";
+import { upsertUsageCounter } from "@/lib/db/repositories/usage-repository";
 import {
   createTestRequestWithHeaders,
   extractJsonBody,
@@ -36,9 +27,10 @@ jest.mock("@/lib/db/repositories/usage-repository", () => ({
   upsertUsageCounter: jest.fn(),
 }));
 
-const mockFindActiveSubscriptionByOrganizationId = findActiveSubscriptionByOrganizationId as jest.MockedFunction<
-  typeof findActiveSubscriptionByOrganizationId
->;
+const mockFindActiveSubscriptionByOrganizationId =
+  findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+    typeof findActiveSubscriptionByOrganizationId
+  >;
 const mockFindOrganizationById = findOrganizationById as jest.MockedFunction<
   typeof findOrganizationById
 >;
@@ -59,10 +51,9 @@ describe("POST /api/usage/seed", () => {
       const orgId = "org_internal_123";
       const clerkOrgId = "org_test456";
       const subscriptionId = "sub_internal_789";
-      const now = new Date();
-      const periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      const periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-      const periodKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+      const periodStart = new Date("2025-11-01T07:00:00Z"); // midnight in Los Angeles
+      const periodEnd = new Date("2025-12-01T08:00:00Z");
+      const periodKey = "2025-11-01";
 
       const mockOrg = createMockOrganization({
         id: orgId,
@@ -101,7 +92,9 @@ describe("POST /api/usage/seed", () => {
       };
 
       mockAuthenticatedWithOrg("user_test123", clerkOrgId);
-      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
       mockFindOrganizationById.mockResolvedValue(mockOrg);
       mockUpsertUsageCounter.mockResolvedValue(mockCounter);
 
@@ -168,10 +161,9 @@ describe("POST /api/usage/seed", () => {
       // Arrange
       const orgId = "org_internal_123";
       const clerkOrgId = "org_test456";
-      const now = new Date();
-      const periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      const periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-      const periodKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+      const periodStart = new Date("2025-11-01T07:00:00Z"); // midnight in Los Angeles
+      const periodEnd = new Date("2025-12-01T08:00:00Z");
+      const periodKey = "2025-11-01";
 
       const planCodes = [
         { code: "trial", included: 30 },
@@ -221,7 +213,9 @@ describe("POST /api/usage/seed", () => {
           updatedAt: new Date(),
         };
 
-        mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+        mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+          mockSubscription
+        );
         mockUpsertUsageCounter.mockResolvedValue(mockCounter);
 
         const request = createTestRequestWithHeaders({
@@ -244,7 +238,9 @@ describe("POST /api/usage/seed", () => {
   describe("Situational Tests", () => {
     test("1. no_org_context - Returns 403 when no Clerk org in session", async () => {
       // Arrange
-      const { mockAuthenticatedWithoutOrg } = await import("../../helpers/mock-clerk-auth");
+      const { mockAuthenticatedWithoutOrg } = await import(
+        "../../helpers/mock-clerk-auth"
+      );
       mockAuthenticatedWithoutOrg("user_test123");
 
       const request = createTestRequestWithHeaders({
@@ -289,10 +285,9 @@ describe("POST /api/usage/seed", () => {
       const orgId = "org_internal_123";
       const clerkOrgId = "org_test456";
       const subscriptionId = "sub_internal_789";
-      const now = new Date();
-      const periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      const periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-      const periodKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+      const periodStart = new Date("2025-11-01T07:00:00Z"); // midnight in Los Angeles
+      const periodEnd = new Date("2025-12-01T08:00:00Z");
+      const periodKey = "2025-11-01";
 
       const mockOrg = createMockOrganization({
         id: orgId,
@@ -331,7 +326,9 @@ describe("POST /api/usage/seed", () => {
       };
 
       mockAuthenticatedWithOrg("user_test123", clerkOrgId);
-      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
       mockFindOrganizationById.mockResolvedValue(mockOrg);
       mockUpsertUsageCounter.mockResolvedValue(mockCounter);
 
@@ -381,7 +378,9 @@ describe("POST /api/usage/seed", () => {
       };
 
       mockAuthenticatedWithOrg("user_test123", clerkOrgId);
-      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
       mockFindOrganizationById.mockResolvedValue(mockOrg);
 
       const request = createTestRequestWithHeaders({
@@ -401,4 +400,3 @@ describe("POST /api/usage/seed", () => {
     });
   });
 });
-
@@ -0,0 +1,122 @@
+/**
+ * Integration Tests: GET /api/usage/thresholds.list
+ *
+ * Tests the usage threshold events API endpoint with mocked dependencies.
+ */
+
+import { GET } from "@/app/api/usage/thresholds.list/route";
+import { createTestRequest } from "../../helpers/test-request";
+import { findUsageThresholdEvents } from "@/lib/db/repositories/usage-threshold-repository";
+import { UnauthorizedError } from "@/lib/utils/errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/usage-threshold-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+
+const mockFindUsageThresholdEvents =
+  findUsageThresholdEvents as jest.MockedFunction<
+    typeof findUsageThresholdEvents
+  >;
+
+describe("GET /api/usage/thresholds.list", () => {
+  const clerkOrgId = "org_test_123";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId,
+    });
+  });
+
+  test("returns 200 with threshold events for the authenticated org", async () => {
+    // Arrange
+    mockFindUsageThresholdEvents.mockResolvedValue([
+      {
+        id: "evt_100",
+        clerkOrgId,
+        usageCounterId: "counter_123",
+        periodKey: "2025-01",
+        metric: "api_call",
+        threshold: 100,
+        included: 60,
+        used: 60,
+        createdAt: new Date("2025-01-21T08:00:00.000Z"),
+      },
+    ]);
+
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/thresholds.list?periodKey=2025-01&metric=api_call",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      data: {
+        events: [
+          {
+            id: "evt_100",
+            metric: "api_call",
+            periodKey: "2025-01",
+            threshold: 100,
+            included: 60,
+            used: 60,
+            createdAt: "2025-01-21T08:00:00.000Z",
+          },
+        ],
+      },
+      correlationId: expect.any(String),
+    });
+    expect(mockFindUsageThresholdEvents).toHaveBeenCalledWith(clerkOrgId, {
+      periodKey: "2025-01",
+      metric: "api_call",
+      limit: 50,
+    });
+  });
+
+  test("returns 400 for invalid periodKey", async () => {
+    // Arrange
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/thresholds.list?periodKey=January",
+    });
+
+    // Act
+    const response = await GET(request);
+    const body = await response.json();
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body.error).toBeDefined();
+    expect(mockFindUsageThresholdEvents).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAuthWithOrg.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    const request = createTestRequest({
+      method: "GET",
+      url: "http://localhost:3000/api/usage/thresholds.list",
+    });
+
+    // Act
+    const response = await GET(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
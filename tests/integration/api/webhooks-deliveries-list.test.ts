@@ -0,0 +1,85 @@
+/**
+ * Integration Tests: GET /api/webhooks/deliveries.list
+ *
+ * Tests the webhook delivery log API with mocked repositories.
+ */
+
+import { GET } from "@/app/api/webhooks/deliveries.list/route";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+import { findWebhookDeliveries } from "@/lib/db/repositories/webhook-delivery-repository";
+import { mockWebhookDeliveryRecord } from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/webhook-delivery-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+const mockFindWebhookDeliveries = findWebhookDeliveries as jest.MockedFunction<
+  typeof findWebhookDeliveries
+>;
+
+describe("GET /api/webhooks/deliveries.list", () => {
+  const buildRequest = (query: string) =>
+    createTestRequestWithHeaders({
+      url: `http://localhost:3000/api/webhooks/deliveries.list${query}`,
+      method: "GET",
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId: "org_test456",
+    });
+  });
+
+  test("returns 200 with filtered deliveries", async () => {
+    // Arrange
+    const { endpoint: _endpoint, ...delivery } = mockWebhookDeliveryRecord({
+      status: "failed",
+      attempts: 8,
+      nextAttemptAt: null,
+    });
+    mockFindWebhookDeliveries.mockResolvedValue([delivery]);
+
+    // Act
+    const response = await GET(buildRequest("?status=failed&limit=10"));
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockFindWebhookDeliveries).toHaveBeenCalledWith("org_test456", {
+      status: "failed",
+      limit: 10,
+    });
+    expect(body).toMatchObject({
+      data: {
+        deliveries: [
+          {
+            id: "whd_123",
+            eventType: "quota.exhausted",
+            status: "failed",
+            attempts: 8,
+            nextAttemptAt: null,
+          },
+        ],
+      },
+    });
+  });
+
+  test("returns 400 for an invalid status filter", async () => {
+    // Act
+    const response = await GET(buildRequest("?status=lost"));
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(mockFindWebhookDeliveries).not.toHaveBeenCalled();
+  });
+});
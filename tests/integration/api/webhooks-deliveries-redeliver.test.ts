@@ -0,0 +1,86 @@
+/**
+ * Integration Tests: POST /api/webhooks/deliveries.redeliver
+ *
+ * Tests the manual webhook redelivery API with mocked service.
+ */
+
+import { POST } from "@/app/api/webhooks/deliveries.redeliver/route";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+import { redeliverWebhook } from "@/lib/services/webhooks/webhook-delivery-service";
+import { WebhookDeliveryNotFoundError } from "@/lib/errors/webhook-errors";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/services/webhooks/webhook-delivery-service");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+const mockRedeliverWebhook = redeliverWebhook as jest.MockedFunction<
+  typeof redeliverWebhook
+>;
+
+describe("POST /api/webhooks/deliveries.redeliver", () => {
+  const buildRequest = (body: unknown) =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/webhooks/deliveries.redeliver",
+      method: "POST",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId: "org_test456",
+    });
+  });
+
+  test("returns 200 with the delivery after the attempt", async () => {
+    // Arrange
+    mockRedeliverWebhook.mockResolvedValue({
+      id: "whd_123",
+      endpointId: "whe_123",
+      eventId: "quota.exhausted:counter_123",
+      eventType: "quota.exhausted",
+      status: "succeeded",
+      attempts: 9,
+      nextAttemptAt: null,
+      lastAttemptAt: "2025-01-20T10:00:00.000Z",
+      responseStatus: 200,
+      lastError: null,
+      createdAt: "2025-01-19T10:00:00.000Z",
+    });
+
+    // Act
+    const response = await POST(buildRequest({ deliveryId: "whd_123" }));
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockRedeliverWebhook).toHaveBeenCalledWith("org_test456", "whd_123");
+    expect(body).toMatchObject({
+      data: { id: "whd_123", status: "succeeded", responseStatus: 200 },
+    });
+  });
+
+  test("returns 404 when the delivery doesn't belong to the org", async () => {
+    // Arrange
+    mockRedeliverWebhook.mockRejectedValue(
+      new WebhookDeliveryNotFoundError("Webhook delivery not found: whd_404")
+    );
+
+    // Act
+    const response = await POST(buildRequest({ deliveryId: "whd_404" }));
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(404);
+    expect(body).toMatchObject({ error: { code: "NOT_FOUND" } });
+  });
+});
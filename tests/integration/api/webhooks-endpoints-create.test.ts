@@ -0,0 +1,156 @@
+/**
+ * Integration Tests: POST /api/webhooks/endpoints.create
+ *
+ * Tests the webhook endpoint registration API with mocked repositories.
+ */
+
+import { POST } from "@/app/api/webhooks/endpoints.create/route";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import { createWebhookEndpoint } from "@/lib/db/repositories/webhook-endpoint-repository";
+import { UnauthorizedError } from "@/lib/utils/errors";
+import {
+  mockOrganizationRecord,
+  mockWebhookEndpointRecord,
+} from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/webhook-endpoint-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockCreateWebhookEndpoint = createWebhookEndpoint as jest.MockedFunction<
+  typeof createWebhookEndpoint
+>;
+
+describe("POST /api/webhooks/endpoints.create", () => {
+  const buildRequest = (body: unknown) =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/webhooks/endpoints.create",
+      method: "POST",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId: "org_test456",
+    });
+    mockFindOrganizationByClerkOrgId.mockResolvedValue(
+      mockOrganizationRecord()
+    );
+    mockCreateWebhookEndpoint.mockImplementation(async (data) =>
+      mockWebhookEndpointRecord({
+        url: data.url,
+        secret: data.secret,
+        events: data.events,
+      })
+    );
+  });
+
+  test("returns 201 with the endpoint and its signing secret", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        url: "https://example.com/webhooks",
+        events: ["usage.threshold_crossed", "trial.ending"],
+      })
+    );
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({
+      data: {
+        id: "whe_123",
+        url: "https://example.com/webhooks",
+        events: ["usage.threshold_crossed", "trial.ending"],
+        enabled: true,
+        secret: expect.stringMatching(/^whsec_/),
+      },
+      correlationId: "test-correlation-id-456",
+    });
+  });
+
+  test("returns 400 for a non-https URL", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        url: "http://example.com/webhooks",
+        events: ["quota.exhausted"],
+      })
+    );
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ error: { code: "VALIDATION_ERROR" } });
+    expect(mockCreateWebhookEndpoint).not.toHaveBeenCalled();
+  });
+
+  test.each([
+    "https://127.0.0.1/webhooks",
+    "https://10.0.0.5/webhooks",
+    "https://169.254.169.254/latest/meta-data",
+    "https://[::1]/webhooks",
+    "https://[::ffff:192.168.1.1]/webhooks",
+    "https://localhost/webhooks",
+    "https://metadata.google.internal/webhooks",
+  ])("returns 400 for a non-public host: %s", async (url) => {
+    // Act
+    const response = await POST(
+      buildRequest({ url, events: ["quota.exhausted"] })
+    );
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ error: { code: "VALIDATION_ERROR" } });
+    expect(mockCreateWebhookEndpoint).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 for an unknown event type", async () => {
+    // Act
+    const response = await POST(
+      buildRequest({
+        url: "https://example.com/webhooks",
+        events: ["invoice.paid"],
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(mockCreateWebhookEndpoint).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAuthWithOrg.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    // Act
+    const response = await POST(
+      buildRequest({
+        url: "https://example.com/webhooks",
+        events: ["quota.exhausted"],
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
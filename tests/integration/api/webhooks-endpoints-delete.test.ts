@@ -0,0 +1,76 @@
+/**
+ * Integration Tests: POST /api/webhooks/endpoints.delete
+ *
+ * Tests the webhook endpoint delete API with mocked repositories.
+ */
+
+import { POST } from "@/app/api/webhooks/endpoints.delete/route";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+import {
+  deleteWebhookEndpoint,
+  findWebhookEndpointById,
+} from "@/lib/db/repositories/webhook-endpoint-repository";
+import { mockWebhookEndpointRecord } from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/webhook-endpoint-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+const mockFindWebhookEndpointById =
+  findWebhookEndpointById as jest.MockedFunction<
+    typeof findWebhookEndpointById
+  >;
+const mockDeleteWebhookEndpoint = deleteWebhookEndpoint as jest.MockedFunction<
+  typeof deleteWebhookEndpoint
+>;
+
+describe("POST /api/webhooks/endpoints.delete", () => {
+  const buildRequest = (body: unknown) =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/webhooks/endpoints.delete",
+      method: "POST",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId: "org_test456",
+    });
+  });
+
+  test("returns 200 after deleting the endpoint", async () => {
+    // Arrange
+    mockFindWebhookEndpointById.mockResolvedValue(mockWebhookEndpointRecord());
+
+    // Act
+    const response = await POST(buildRequest({ endpointId: "whe_123" }));
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ data: { deleted: true } });
+    expect(mockDeleteWebhookEndpoint).toHaveBeenCalledWith("whe_123");
+  });
+
+  test("returns 404 when the endpoint doesn't exist", async () => {
+    // Arrange
+    mockFindWebhookEndpointById.mockResolvedValue(null);
+
+    // Act
+    const response = await POST(buildRequest({ endpointId: "whe_404" }));
+
+    // Assert
+    expect(response.status).toBe(404);
+    expect(mockDeleteWebhookEndpoint).not.toHaveBeenCalled();
+  });
+});
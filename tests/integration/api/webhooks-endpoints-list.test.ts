@@ -0,0 +1,82 @@
+/**
+ * Integration Tests: GET /api/webhooks/endpoints.list
+ *
+ * Tests the webhook endpoint listing API with mocked repositories.
+ */
+
+import { GET } from "@/app/api/webhooks/endpoints.list/route";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+import { findWebhookEndpointsByClerkOrgId } from "@/lib/db/repositories/webhook-endpoint-repository";
+import { UnauthorizedError } from "@/lib/utils/errors";
+import { mockWebhookEndpointRecord } from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/webhook-endpoint-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+const mockFindWebhookEndpointsByClerkOrgId =
+  findWebhookEndpointsByClerkOrgId as jest.MockedFunction<
+    typeof findWebhookEndpointsByClerkOrgId
+  >;
+
+describe("GET /api/webhooks/endpoints.list", () => {
+  const buildRequest = () =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/webhooks/endpoints.list",
+      method: "GET",
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId: "org_test456",
+    });
+  });
+
+  test("returns 200 with endpoints and no secrets", async () => {
+    // Arrange
+    mockFindWebhookEndpointsByClerkOrgId.mockResolvedValue([
+      mockWebhookEndpointRecord(),
+    ]);
+
+    // Act
+    const response = await GET(buildRequest());
+    const body = await extractJsonBody<{
+      data: { endpoints: Record<string, unknown>[] };
+    }>(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockFindWebhookEndpointsByClerkOrgId).toHaveBeenCalledWith(
+      "org_test456"
+    );
+    expect(body.data.endpoints).toHaveLength(1);
+    expect(body.data.endpoints[0]).toMatchObject({
+      id: "whe_123",
+      url: "https://example.com/webhooks",
+    });
+    expect(body.data.endpoints[0]).not.toHaveProperty("secret");
+  });
+
+  test("returns 401 when not authenticated", async () => {
+    // Arrange
+    mockRequireAuthWithOrg.mockRejectedValue(
+      new UnauthorizedError("Authentication required")
+    );
+
+    // Act
+    const response = await GET(buildRequest());
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
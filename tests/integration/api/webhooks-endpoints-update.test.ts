@@ -0,0 +1,97 @@
+/**
+ * Integration Tests: POST /api/webhooks/endpoints.update
+ *
+ * Tests the webhook endpoint update API with mocked repositories.
+ */
+
+import { POST } from "@/app/api/webhooks/endpoints.update/route";
+import {
+  createTestRequestWithHeaders,
+  extractJsonBody,
+} from "../../helpers/test-request";
+import {
+  findWebhookEndpointById,
+  updateWebhookEndpoint,
+} from "@/lib/db/repositories/webhook-endpoint-repository";
+import { mockWebhookEndpointRecord } from "../../helpers/mock-db";
+
+// Mock dependencies
+jest.mock("@/lib/middleware/auth");
+jest.mock("@/lib/db/repositories/webhook-endpoint-repository");
+
+const mockRequireAuthWithOrg = jest.requireMock("@/lib/middleware/auth")
+  .requireAuthWithOrg as jest.MockedFunction<
+  typeof import("@/lib/middleware/auth").requireAuthWithOrg
+>;
+const mockFindWebhookEndpointById =
+  findWebhookEndpointById as jest.MockedFunction<
+    typeof findWebhookEndpointById
+  >;
+const mockUpdateWebhookEndpoint = updateWebhookEndpoint as jest.MockedFunction<
+  typeof updateWebhookEndpoint
+>;
+
+describe("POST /api/webhooks/endpoints.update", () => {
+  const buildRequest = (body: unknown) =>
+    createTestRequestWithHeaders({
+      url: "http://localhost:3000/api/webhooks/endpoints.update",
+      method: "POST",
+      body,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRequireAuthWithOrg.mockResolvedValue({
+      userId: "user_123",
+      clerkOrgId: "org_test456",
+    });
+    mockFindWebhookEndpointById.mockResolvedValue(mockWebhookEndpointRecord());
+  });
+
+  test("returns 200 with the updated endpoint", async () => {
+    // Arrange
+    mockUpdateWebhookEndpoint.mockResolvedValue(
+      mockWebhookEndpointRecord({ enabled: false })
+    );
+
+    // Act
+    const response = await POST(
+      buildRequest({ endpointId: "whe_123", enabled: false })
+    );
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(mockUpdateWebhookEndpoint).toHaveBeenCalledWith("whe_123", {
+      enabled: false,
+    });
+    expect(body).toMatchObject({ data: { id: "whe_123", enabled: false } });
+  });
+
+  test("returns 404 for an endpoint owned by another org", async () => {
+    // Arrange
+    mockFindWebhookEndpointById.mockResolvedValue(
+      mockWebhookEndpointRecord({ clerkOrgId: "org_other" })
+    );
+
+    // Act
+    const response = await POST(
+      buildRequest({ endpointId: "whe_123", enabled: false })
+    );
+    const body = await extractJsonBody(response);
+
+    // Assert
+    expect(response.status).toBe(404);
+    expect(body).toMatchObject({ error: { code: "NOT_FOUND" } });
+    expect(mockUpdateWebhookEndpoint).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 when endpointId is missing", async () => {
+    // Act
+    const response = await POST(buildRequest({ enabled: false }));
+
+    // Assert
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Unit Tests: API Key Service
+ *
+ * Tests issuing, rotating, revoking and authenticating org-scoped API keys
+ */
+
+import {
+  issueApiKey,
+  listApiKeys,
+  rotateApiKey,
+  revokeApiKey,
+  authenticateApiKey,
+} from "@/lib/services/orgs/api-key-service";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import {
+  createApiKey,
+  findApiKeyByHash,
+  findApiKeyById,
+  findApiKeysByClerkOrgId,
+  updateApiKey,
+} from "@/lib/db/repositories/api-key-repository";
+import { OrgNotFoundError } from "@/lib/errors/org-errors";
+import {
+  ApiKeyNotFoundError,
+  ApiKeyValidationError,
+} from "@/lib/errors/api-key-errors";
+import { hashApiKey } from "@/lib/utils/security/api-key-secret";
+import { ApplicationError } from "@/lib/utils/errors";
+import {
+  mockOrganizationRecord,
+  mockApiKeyRecord,
+} from "../../helpers/mock-db";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/api-key-repository");
+
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockCreateApiKey = createApiKey as jest.MockedFunction<
+  typeof createApiKey
+>;
+const mockFindApiKeyByHash = findApiKeyByHash as jest.MockedFunction<
+  typeof findApiKeyByHash
+>;
+const mockFindApiKeyById = findApiKeyById as jest.MockedFunction<
+  typeof findApiKeyById
+>;
+const mockFindApiKeysByClerkOrgId =
+  findApiKeysByClerkOrgId as jest.MockedFunction<
+    typeof findApiKeysByClerkOrgId
+  >;
+const mockUpdateApiKey = updateApiKey as jest.MockedFunction<
+  typeof updateApiKey
+>;
+
+describe("API Key Service", () => {
+  const clerkOrgId = "org_test456";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFindOrganizationByClerkOrgId.mockResolvedValue(
+      mockOrganizationRecord()
+    );
+    mockFindApiKeyById.mockResolvedValue(mockApiKeyRecord());
+    mockCreateApiKey.mockImplementation(async (data) =>
+      mockApiKeyRecord({
+        prefix: data.prefix,
+        keyHash: data.keyHash,
+        scopes: data.scopes,
+        expiresAt: data.expiresAt,
+      })
+    );
+    mockUpdateApiKey.mockImplementation(async (id, data) =>
+      mockApiKeyRecord({ id, ...data })
+    );
+  });
+
+  describe("issueApiKey", () => {
+    test("returns the full key once and stores only its hash and prefix", async () => {
+      // Act
+      const result = await issueApiKey(clerkOrgId, "user_admin", {
+        name: "Backend metering",
+        scopes: ["usage:write", "quota:check", "usage:write"],
+      });
+
+      // Assert
+      expect(result.key).toMatch(/^msk_[0-9a-f]{8}_[0-9a-f]{48}$/);
+      expect(result.key.startsWith(result.prefix)).toBe(true);
+      expect(result.status).toBe("active");
+      expect(mockCreateApiKey).toHaveBeenCalledWith({
+        organizationId: "org_internal_123",
+        clerkOrgId,
+        name: "Backend metering",
+        prefix: result.prefix,
+        keyHash: hashApiKey(result.key),
+        scopes: ["usage:write", "quota:check"],
+        expiresAt: null,
+        createdByUserId: "user_admin",
+      });
+      expect(JSON.stringify(mockCreateApiKey.mock.calls)).not.toContain(
+        result.key
+      );
+    });
+
+    test("stores the expiry when given", async () => {
+      // Arrange
+      const expiresAt = new Date(Date.now() + 86400000).toISOString();
+
+      // Act
+      const result = await issueApiKey(clerkOrgId, "user_admin", {
+        name: "Temporary",
+        scopes: ["quota:check"],
+        expiresAt,
+      });
+
+      // Assert
+      expect(result.expiresAt).toBe(expiresAt);
+      expect(mockCreateApiKey).toHaveBeenCalledWith(
+        expect.objectContaining({ expiresAt: new Date(expiresAt) })
+      );
+    });
+
+    test("rejects an expiry in the past", async () => {
+      // Act & Assert
+      await expect(
+        issueApiKey(clerkOrgId, "user_admin", {
+          name: "Expired",
+          scopes: ["quota:check"],
+          expiresAt: "2020-01-01T00:00:00.000Z",
+        })
+      ).rejects.toThrow(ApiKeyValidationError);
+      expect(mockCreateApiKey).not.toHaveBeenCalled();
+    });
+
+    test("throws OrgNotFoundError when the organization does not exist", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        issueApiKey(clerkOrgId, "user_admin", {
+          name: "Backend metering",
+          scopes: ["quota:check"],
+        })
+      ).rejects.toThrow(OrgNotFoundError);
+    });
+  });
+
+  describe("listApiKeys", () => {
+    test("lists keys by prefix with their status and without hashes", async () => {
+      // Arrange
+      mockFindApiKeysByClerkOrgId.mockResolvedValue([
+        mockApiKeyRecord({ id: "key_active" }),
+        mockApiKeyRecord({ id: "key_revoked", revokedAt: new Date() }),
+        mockApiKeyRecord({
+          id: "key_expired",
+          expiresAt: new Date("2020-01-01T00:00:00.000Z"),
+        }),
+      ]);
+
+      // Act
+      const result = await listApiKeys(clerkOrgId);
+
+      // Assert
+      expect(result.keys.map((key) => [key.id, key.status])).toEqual([
+        ["key_active", "active"],
+        ["key_revoked", "revoked"],
+        ["key_expired", "expired"],
+      ]);
+      expect(result.keys[0]).not.toHaveProperty("keyHash");
+      expect(result.keys[0]).not.toHaveProperty("key");
+    });
+  });
+
+  describe("rotateApiKey", () => {
+    test("replaces the secret of the same key", async () => {
+      // Act
+      const result = await rotateApiKey(clerkOrgId, "key_123");
+
+      // Assert
+      expect(result.id).toBe("key_123");
+      expect(result.prefix).not.toBe("msk_1a2b3c4d");
+      expect(mockUpdateApiKey).toHaveBeenCalledWith("key_123", {
+        prefix: result.prefix,
+        keyHash: hashApiKey(result.key),
+      });
+    });
+
+    test("refuses to rotate a revoked key", async () => {
+      // Arrange
+      mockFindApiKeyById.mockResolvedValue(
+        mockApiKeyRecord({ revokedAt: new Date() })
+      );
+
+      // Act & Assert
+      await expect(rotateApiKey(clerkOrgId, "key_123")).rejects.toThrow(
+        ApiKeyValidationError
+      );
+      expect(mockUpdateApiKey).not.toHaveBeenCalled();
+    });
+
+    test("throws ApiKeyNotFoundError for another organization's key", async () => {
+      // Arrange
+      mockFindApiKeyById.mockResolvedValue(
+        mockApiKeyRecord({ clerkOrgId: "org_other" })
+      );
+
+      // Act & Assert
+      await expect(rotateApiKey(clerkOrgId, "key_123")).rejects.toThrow(
+        ApiKeyNotFoundError
+      );
+    });
+  });
+
+  describe("revokeApiKey", () => {
+    test("sets the revocation time", async () => {
+      // Act
+      const result = await revokeApiKey(clerkOrgId, "key_123");
+
+      // Assert
+      expect(result.status).toBe("revoked");
+      expect(mockUpdateApiKey).toHaveBeenCalledWith("key_123", {
+        revokedAt: expect.any(Date),
+      });
+    });
+
+    test("is a no-op for a key that is already revoked", async () => {
+      // Arrange
+      mockFindApiKeyById.mockResolvedValue(
+        mockApiKeyRecord({ revokedAt: new Date() })
+      );
+
+      // Act
+      const result = await revokeApiKey(clerkOrgId, "key_123");
+
+      // Assert
+      expect(result.status).toBe("revoked");
+      expect(mockUpdateApiKey).not.toHaveBeenCalled();
+    });
+
+    test("throws ApiKeyNotFoundError for a missing key", async () => {
+      // Arrange
+      mockFindApiKeyById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(revokeApiKey(clerkOrgId, "key_missing")).rejects.toThrow(
+        ApiKeyNotFoundError
+      );
+    });
+  });
+
+  describe("authenticateApiKey", () => {
+    const key = "msk_1a2b3c4d_secret";
+
+    test("resolves an active key to its organization and scopes", async () => {
+      // Arrange
+      mockFindApiKeyByHash.mockResolvedValue(mockApiKeyRecord());
+
+      // Act
+      const result = await authenticateApiKey(key);
+
+      // Assert
+      expect(mockFindApiKeyByHash).toHaveBeenCalledWith(hashApiKey(key));
+      expect(result).toEqual({
+        apiKeyId: "key_123",
+        clerkOrgId,
+        scopes: ["quota:check", "usage:write"],
+      });
+      expect(mockUpdateApiKey).toHaveBeenCalledWith("key_123", {
+        lastUsedAt: expect.any(Date),
+      });
+    });
+
+    test("does not rewrite a recent last-used time", async () => {
+      // Arrange
+      mockFindApiKeyByHash.mockResolvedValue(
+        mockApiKeyRecord({ lastUsedAt: new Date(Date.now() - 5000) })
+      );
+
+      // Act
+      const result = await authenticateApiKey(key);
+
+      // Assert
+      expect(result).not.toBeNull();
+      expect(mockUpdateApiKey).not.toHaveBeenCalled();
+    });
+
+    test("still authenticates when the last-used time cannot be written", async () => {
+      // Arrange
+      mockFindApiKeyByHash.mockResolvedValue(mockApiKeyRecord());
+      mockUpdateApiKey.mockRejectedValue(
+        new ApplicationError("db down", "API_KEY_UPDATE_ERROR", 500)
+      );
+
+      // Act
+      const result = await authenticateApiKey(key);
+
+      // Assert
+      expect(result?.apiKeyId).toBe("key_123");
+    });
+
+    test("returns null for unknown, revoked and expired keys", async () => {
+      // Arrange
+      mockFindApiKeyByHash
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockApiKeyRecord({ revokedAt: new Date() }))
+        .mockResolvedValueOnce(
+          mockApiKeyRecord({ expiresAt: new Date(Date.now() - 1000) })
+        );
+
+      // Act & Assert
+      await expect(authenticateApiKey(key)).resolves.toBeNull();
+      await expect(authenticateApiKey(key)).resolves.toBeNull();
+      await expect(authenticateApiKey(key)).resolves.toBeNull();
+      expect(mockUpdateApiKey).not.toHaveBeenCalled();
+    });
+  });
+});
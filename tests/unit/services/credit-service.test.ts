@@ -0,0 +1,428 @@
+/**
+ * Unit Tests: Credit Service
+ *
+ * Tests business logic for prepaid credit packs and the credit ledger
+ */
+
+import Stripe from "stripe";
+import {
+  createCreditCheckout,
+  grantCreditsForCheckout,
+  applyCredits,
+  releaseCredits,
+  listCreditLedger,
+  expireCredits,
+} from "@/lib/services/credits/credit-service";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import {
+  createCreditGrant,
+  sumAvailableCredits,
+  findActiveCreditGrants,
+  drawCredits,
+  releaseCreditDraws,
+  expireCreditGrants,
+  findCreditLedgerEntries,
+  CreditGrantRecord,
+} from "@/lib/db/repositories/credit-repository";
+import {
+  StripeValidationError,
+  StripeOrgNotFoundError,
+  StripeApiError,
+} from "@/lib/errors/stripe-errors";
+import {
+  mockStripe,
+  mockStripeCheckoutSessionCreate,
+  mockStripeCheckoutSessionCreateError,
+  resetStripeMocks,
+} from "../../helpers/mock-stripe";
+import {
+  mockOrganizationRecord,
+  mockUsageCounterRecord,
+} from "../../helpers/mock-db";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/credit-repository");
+
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockCreateCreditGrant = createCreditGrant as jest.MockedFunction<
+  typeof createCreditGrant
+>;
+const mockSumAvailableCredits = sumAvailableCredits as jest.MockedFunction<
+  typeof sumAvailableCredits
+>;
+const mockFindActiveCreditGrants =
+  findActiveCreditGrants as jest.MockedFunction<typeof findActiveCreditGrants>;
+const mockDrawCredits = drawCredits as jest.MockedFunction<typeof drawCredits>;
+const mockReleaseCreditDraws = releaseCreditDraws as jest.MockedFunction<
+  typeof releaseCreditDraws
+>;
+const mockExpireCreditGrants = expireCreditGrants as jest.MockedFunction<
+  typeof expireCreditGrants
+>;
+const mockFindCreditLedgerEntries =
+  findCreditLedgerEntries as jest.MockedFunction<
+    typeof findCreditLedgerEntries
+  >;
+
+const clerkOrgId = "org_test_123";
+
+function creditGrant(
+  overrides?: Partial<CreditGrantRecord>
+): CreditGrantRecord {
+  return {
+    id: "grant_123",
+    clerkOrgId,
+    organizationId: "org_internal_123",
+    metric: "api_call",
+    packCode: "api_call_1k",
+    amount: 1000,
+    remaining: 1000,
+    expiresAt: new Date("2026-01-15T00:00:00Z"),
+    stripeCheckoutSessionId: "cs_test123",
+    createdAt: new Date("2025-01-15T00:00:00Z"),
+    updatedAt: new Date("2025-01-15T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("Credit Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetStripeMocks();
+  });
+
+  describe("createCreditCheckout", () => {
+    test("creates a one-time payment checkout for the pack", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ clerkOrgId, stripeCustomerId: "cus_test" })
+      );
+      mockStripeCheckoutSessionCreate("cs_test123");
+
+      // Act
+      const result = await createCreditCheckout(clerkOrgId, "api_call_1k");
+
+      // Assert
+      expect(result).toEqual({
+        checkoutSessionId: "cs_test123",
+        url: "https://checkout.stripe.com/c/pay/cs_test123",
+      });
+      expect(mockStripe.checkout.sessions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mode: "payment",
+          customer: "cus_test",
+          line_items: [{ price: "price_credits_api_call_1k", quantity: 1 }],
+          metadata: {
+            type: "credit_pack",
+            clerkOrgId,
+            packCode: "api_call_1k",
+          },
+        })
+      );
+    });
+
+    test("throws StripeOrgNotFoundError if organization not found", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        createCreditCheckout(clerkOrgId, "api_call_1k")
+      ).rejects.toThrow(StripeOrgNotFoundError);
+    });
+
+    test("throws StripeValidationError if org has no stripeCustomerId", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ clerkOrgId, stripeCustomerId: null })
+      );
+
+      // Act & Assert
+      await expect(
+        createCreditCheckout(clerkOrgId, "api_call_1k")
+      ).rejects.toThrow(StripeValidationError);
+    });
+
+    test("throws StripeApiError if Stripe rejects the session", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ clerkOrgId, stripeCustomerId: "cus_test" })
+      );
+      mockStripeCheckoutSessionCreateError(new Error("No such price"));
+
+      // Act & Assert
+      await expect(
+        createCreditCheckout(clerkOrgId, "api_call_1k")
+      ).rejects.toThrow(StripeApiError);
+    });
+  });
+
+  describe("grantCreditsForCheckout", () => {
+    const created = Math.floor(Date.UTC(2025, 0, 15) / 1000);
+
+    function checkoutSession(
+      overrides?: Partial<Stripe.Checkout.Session>
+    ): Stripe.Checkout.Session {
+      return {
+        id: "cs_test123",
+        created,
+        payment_status: "paid",
+        metadata: {
+          type: "credit_pack",
+          clerkOrgId,
+          packCode: "api_call_1k",
+        },
+        ...overrides,
+      } as Stripe.Checkout.Session;
+    }
+
+    test("grants the pack's credits with its validity", async () => {
+      // Arrange
+      const grant = creditGrant();
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ id: "org_internal_123", clerkOrgId })
+      );
+      mockCreateCreditGrant.mockResolvedValue(grant);
+
+      // Act
+      const result = await grantCreditsForCheckout(checkoutSession());
+
+      // Assert
+      expect(result).toBe(grant);
+      expect(mockCreateCreditGrant).toHaveBeenCalledWith({
+        organizationId: "org_internal_123",
+        clerkOrgId,
+        metric: "api_call",
+        packCode: "api_call_1k",
+        amount: 1000,
+        expiresAt: new Date("2026-01-15T00:00:00.000Z"),
+        stripeCheckoutSessionId: "cs_test123",
+      });
+    });
+
+    test("ignores sessions that are not credit pack purchases", async () => {
+      // Act
+      const result = await grantCreditsForCheckout(
+        checkoutSession({ metadata: {} })
+      );
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockCreateCreditGrant).not.toHaveBeenCalled();
+    });
+
+    test("waits for delayed payments to settle", async () => {
+      // Act
+      const result = await grantCreditsForCheckout(
+        checkoutSession({ payment_status: "unpaid" })
+      );
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockCreateCreditGrant).not.toHaveBeenCalled();
+    });
+
+    test("grants nothing more for a session already granted", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ clerkOrgId })
+      );
+      mockCreateCreditGrant.mockResolvedValue(null);
+
+      // Act
+      const result = await grantCreditsForCheckout(checkoutSession());
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("applyCredits", () => {
+    test("draws nothing while usage stays within included", async () => {
+      // Arrange
+      const counter = mockUsageCounterRecord({ included: 60, used: 50 });
+
+      // Act
+      const result = await applyCredits(counter, 10);
+
+      // Assert
+      expect(result).toEqual({ counter, draws: [] });
+      expect(mockSumAvailableCredits).not.toHaveBeenCalled();
+      expect(mockDrawCredits).not.toHaveBeenCalled();
+    });
+
+    test("draws the shortfall into included", async () => {
+      // Arrange
+      const counter = mockUsageCounterRecord({ included: 60, used: 58 });
+      mockSumAvailableCredits.mockResolvedValue(100);
+      mockDrawCredits.mockResolvedValue([
+        { creditGrantId: "grant_1", amount: 1 },
+        { creditGrantId: "grant_2", amount: 2 },
+      ]);
+
+      // Act
+      const result = await applyCredits(counter, 5);
+
+      // Assert
+      expect(mockDrawCredits).toHaveBeenCalledWith(
+        counter,
+        3,
+        expect.any(Date)
+      );
+      expect(result.counter).toMatchObject({
+        included: 63,
+        used: 58,
+        credited: 3,
+      });
+      expect(result.draws).toHaveLength(2);
+    });
+
+    test("draws no more than the credits available", async () => {
+      // Arrange
+      const counter = mockUsageCounterRecord({ included: 60, used: 60 });
+      mockSumAvailableCredits.mockResolvedValue(2);
+      mockDrawCredits.mockResolvedValue([
+        { creditGrantId: "grant_1", amount: 2 },
+      ]);
+
+      // Act
+      const result = await applyCredits(counter, 5);
+
+      // Assert
+      expect(mockDrawCredits).toHaveBeenCalledWith(
+        counter,
+        2,
+        expect.any(Date)
+      );
+      expect(result.counter.included).toBe(62);
+    });
+
+    test("leaves the counter unchanged without credits", async () => {
+      // Arrange
+      const counter = mockUsageCounterRecord({ included: 60, used: 60 });
+      mockSumAvailableCredits.mockResolvedValue(0);
+
+      // Act
+      const result = await applyCredits(counter, 1);
+
+      // Assert
+      expect(result).toEqual({ counter, draws: [] });
+      expect(mockDrawCredits).not.toHaveBeenCalled();
+    });
+
+    test("leaves the counter unchanged when a concurrent draw wins", async () => {
+      // Arrange
+      const counter = mockUsageCounterRecord({ included: 60, used: 60 });
+      mockSumAvailableCredits.mockResolvedValue(10);
+      mockDrawCredits.mockResolvedValue(null);
+
+      // Act
+      const result = await applyCredits(counter, 1);
+
+      // Assert
+      expect(result).toEqual({ counter, draws: [] });
+    });
+  });
+
+  describe("releaseCredits", () => {
+    test("returns the draws to their grants and lowers included", async () => {
+      // Arrange
+      const counter = {
+        ...mockUsageCounterRecord({ included: 63, used: 58 }),
+        credited: 3,
+      };
+      const draws = [
+        { creditGrantId: "grant_1", amount: 1 },
+        { creditGrantId: "grant_2", amount: 2 },
+      ];
+
+      // Act
+      const result = await releaseCredits(counter, draws);
+
+      // Assert
+      expect(mockReleaseCreditDraws).toHaveBeenCalledWith(counter, draws);
+      expect(result).toMatchObject({ included: 60, credited: 0, used: 58 });
+    });
+
+    test("does nothing when no credits were drawn", async () => {
+      // Arrange
+      const counter = mockUsageCounterRecord({ included: 60, used: 60 });
+
+      // Act
+      const result = await releaseCredits(counter, []);
+
+      // Assert
+      expect(result).toBe(counter);
+      expect(mockReleaseCreditDraws).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listCreditLedger", () => {
+    test("returns balances per metric, active grants and entries", async () => {
+      // Arrange
+      mockFindActiveCreditGrants.mockResolvedValue([
+        creditGrant({ id: "grant_1", remaining: 200 }),
+        creditGrant({ id: "grant_2", remaining: 1000 }),
+      ]);
+      mockFindCreditLedgerEntries.mockResolvedValue([
+        {
+          id: "entry_1",
+          clerkOrgId,
+          creditGrantId: "grant_1",
+          metric: "api_call",
+          type: "consume",
+          amount: -800,
+          usageCounterId: "counter_123",
+          createdAt: new Date("2025-01-20T00:00:00Z"),
+        },
+      ]);
+
+      // Act
+      const result = await listCreditLedger(clerkOrgId, { limit: 50 });
+
+      // Assert
+      expect(result.balances).toEqual([
+        { metric: "api_call", available: 1200 },
+      ]);
+      expect(result.grants).toHaveLength(2);
+      expect(result.entries).toEqual([
+        {
+          id: "entry_1",
+          creditGrantId: "grant_1",
+          metric: "api_call",
+          type: "consume",
+          amount: -800,
+          usageCounterId: "counter_123",
+          createdAt: "2025-01-20T00:00:00.000Z",
+        },
+      ]);
+      expect(mockFindCreditLedgerEntries).toHaveBeenCalledWith(clerkOrgId, {
+        limit: 50,
+      });
+    });
+  });
+
+  describe("expireCredits", () => {
+    test("reports grants expired and credits forfeited", async () => {
+      // Arrange
+      mockExpireCreditGrants.mockResolvedValue([
+        creditGrant({ id: "grant_1", remaining: 150 }),
+        creditGrant({ id: "grant_2", remaining: 50 }),
+      ]);
+
+      // Act
+      const result = await expireCredits();
+
+      // Assert
+      expect(result).toEqual({ expired: 2, credits: 200 });
+      expect(mockExpireCreditGrants).toHaveBeenCalledWith(
+        expect.any(Date),
+        500
+      );
+    });
+  });
+});
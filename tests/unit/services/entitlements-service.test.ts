@@ -1,41 +1,70 @@
 /**
  * Unit Tests: Entitlements Service
- * 
+ *
  * Tests the entitlements service layer business logic.
  */
 
-import { getEntitlements } from "@/lib/services/entitlements/entitlements-service";
+import {
+  getEntitlements,
+  getUsageForecast,
+  forecastUsage,
+} from "@/lib/services/entitlements/entitlements-service";
 import {
   findOrganizationByClerkOrgId,
+  findOrganizationById,
 } from "@/lib/db/repositories/org-repository";
+import { findPoolMemberUsage } from "@/lib/db/repositories/pool-repository";
 import {
-  findActiveSubscriptionByOrganizationId,
-} from "@/lib/db/repositories/subscription-repository";
-import {
-  findUsageCounter,
-} from "@/lib/db/repositories/usage-repository";
+  findMemberUsageCaps,
+  findMemberUsage,
+} from "@/lib/db/repositories/member-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
+import { findUsageCountersForPeriod } from "@/lib/db/repositories/usage-repository";
 import {
   EntitlementsOrgNotFoundError,
   EntitlementsNoActiveSubscriptionError,
 } from "@/lib/errors/entitlements-errors";
+import { db } from "@/lib/db";
+import {
+  mockOrganizationRecord,
+  mockSubscriptionRecord,
+  mockUsageCounterRecord,
+  mockUsageAnomalyRecord,
+} from "../../helpers/mock-db";
 
 // Mock repositories
 jest.mock("@/lib/db/repositories/org-repository");
 jest.mock("@/lib/db/repositories/subscription-repository");
+jest.mock("@/lib/db/repositories/pool-repository");
+jest.mock("@/lib/db/repositories/member-repository");
 jest.mock("@/lib/db/repositories/usage-repository", () => ({
   ...jest.requireActual("@/lib/db/repositories/usage-repository"),
-  findUsageCounter: jest.fn(),
+  findUsageCountersForPeriod: jest.fn(),
 }));
 
-const mockFindOrganizationByClerkOrgId = findOrganizationByClerkOrgId as jest.MockedFunction<
-  typeof findOrganizationByClerkOrgId
->;
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
 const mockFindActiveSubscriptionByOrganizationId =
   findActiveSubscriptionByOrganizationId as jest.MockedFunction<
     typeof findActiveSubscriptionByOrganizationId
   >;
-const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
-  typeof findUsageCounter
+const mockFindUsageCountersForPeriod =
+  findUsageCountersForPeriod as jest.MockedFunction<
+    typeof findUsageCountersForPeriod
+  >;
+const mockFindOrganizationById = findOrganizationById as jest.MockedFunction<
+  typeof findOrganizationById
+>;
+const mockFindPoolMemberUsage = findPoolMemberUsage as jest.MockedFunction<
+  typeof findPoolMemberUsage
+>;
+const mockFindMemberUsageCaps = findMemberUsageCaps as jest.MockedFunction<
+  typeof findMemberUsageCaps
+>;
+const mockFindMemberUsage = findMemberUsage as jest.MockedFunction<
+  typeof findMemberUsage
 >;
 
 describe("Entitlements Service", () => {
@@ -65,8 +94,8 @@ describe("Entitlements Service", () => {
       planCode: "starter",
       stripePriceId: "price_test",
       status: "active",
-      currentPeriodStart: new Date(2025, 0, 15), // January 15, 2025
-      currentPeriodEnd: new Date(2025, 1, 15), // February 15, 2025
+      currentPeriodStart: new Date("2025-01-15T08:00:00Z"), // January 15, 2025 (midnight in Los Angeles)
+      currentPeriodEnd: new Date("2025-02-15T08:00:00Z"), // February 15, 2025 (midnight in Los Angeles)
       trialEndsAt: null,
       organizationId: orgId,
       createdAt: new Date(),
@@ -76,9 +105,9 @@ describe("Entitlements Service", () => {
     const mockUsageCounter = {
       id: "counter_123",
       clerkOrgId,
-      periodKey: "2025-01",
-      periodStart: new Date(2025, 0, 1),
-      periodEnd: new Date(2025, 1, 1),
+      periodKey: "2025-01-15",
+      periodStart: new Date("2025-01-15T08:00:00Z"),
+      periodEnd: new Date("2025-02-15T08:00:00Z"),
       metric: "api_call",
       included: 60,
       used: 15,
@@ -94,7 +123,7 @@ describe("Entitlements Service", () => {
       mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
         mockSubscription
       );
-      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockFindUsageCountersForPeriod.mockResolvedValue([mockUsageCounter]);
 
       // Act
       const result = await getEntitlements(clerkOrgId);
@@ -102,20 +131,71 @@ describe("Entitlements Service", () => {
       // Assert
       expect(result).toEqual({
         planCode: "starter",
+        mode: "hard",
         included: 60,
+        rolledOver: 0,
         used: 15,
         remaining: 45,
-        periodKey: "2025-01",
+        overageAllowance: 0,
+        projectedUsed: 15,
+        exhaustsAt: null,
+        periodKey: "2025-01-15",
+        periodStart: "2025-01-15T08:00:00.000Z",
+        periodEnd: "2025-02-15T08:00:00.000Z",
+        metrics: [
+          {
+            metric: "api_call",
+            included: 60,
+            rolledOver: 0,
+            used: 15,
+            remaining: 45,
+            overageAllowance: 0,
+            projectedUsed: 15,
+            exhaustsAt: null,
+          },
+          {
+            metric: "token",
+            included: 0,
+            rolledOver: 0,
+            used: 0,
+            remaining: 0,
+            overageAllowance: 0,
+            projectedUsed: 0,
+            exhaustsAt: null,
+          },
+          {
+            metric: "storage_gb",
+            included: 0,
+            rolledOver: 0,
+            used: 0,
+            remaining: 0,
+            overageAllowance: 0,
+            projectedUsed: 0,
+            exhaustsAt: null,
+          },
+          {
+            metric: "export",
+            included: 0,
+            rolledOver: 0,
+            used: 0,
+            remaining: 0,
+            overageAllowance: 0,
+            projectedUsed: 0,
+            exhaustsAt: null,
+          },
+        ],
+        pool: null,
+        member: null,
+        anomalies: [],
       });
 
       expect(mockFindOrganizationByClerkOrgId).toHaveBeenCalledWith(clerkOrgId);
       expect(mockFindActiveSubscriptionByOrganizationId).toHaveBeenCalledWith(
         orgId
       );
-      expect(mockFindUsageCounter).toHaveBeenCalledWith(
+      expect(mockFindUsageCountersForPeriod).toHaveBeenCalledWith(
         clerkOrgId,
-        "2025-01",
-        "api_call"
+        "2025-01-15"
       );
     });
 
@@ -125,7 +205,7 @@ describe("Entitlements Service", () => {
       mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
         mockSubscription
       );
-      mockFindUsageCounter.mockResolvedValue(null);
+      mockFindUsageCountersForPeriod.mockResolvedValue([]);
 
       // Act
       const result = await getEntitlements(clerkOrgId);
@@ -133,11 +213,250 @@ describe("Entitlements Service", () => {
       // Assert
       expect(result).toEqual({
         planCode: "starter",
+        mode: "hard",
         included: 0,
+        rolledOver: 0,
         used: 0,
         remaining: 0,
-        periodKey: "2025-01",
+        overageAllowance: 0,
+        projectedUsed: 0,
+        exhaustsAt: null,
+        periodKey: "2025-01-15",
+        periodStart: "2025-01-15T08:00:00.000Z",
+        periodEnd: "2025-02-15T08:00:00.000Z",
+        metrics: [
+          {
+            metric: "api_call",
+            included: 0,
+            rolledOver: 0,
+            used: 0,
+            remaining: 0,
+            overageAllowance: 0,
+            projectedUsed: 0,
+            exhaustsAt: null,
+          },
+          {
+            metric: "token",
+            included: 0,
+            rolledOver: 0,
+            used: 0,
+            remaining: 0,
+            overageAllowance: 0,
+            projectedUsed: 0,
+            exhaustsAt: null,
+          },
+          {
+            metric: "storage_gb",
+            included: 0,
+            rolledOver: 0,
+            used: 0,
+            remaining: 0,
+            overageAllowance: 0,
+            projectedUsed: 0,
+            exhaustsAt: null,
+          },
+          {
+            metric: "export",
+            included: 0,
+            rolledOver: 0,
+            used: 0,
+            remaining: 0,
+            overageAllowance: 0,
+            projectedUsed: 0,
+            exhaustsAt: null,
+          },
+        ],
+        pool: null,
+        member: null,
+        anomalies: [],
+      });
+    });
+
+    test("returns entitlements for every metric in the plan", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCountersForPeriod.mockResolvedValue([
+        mockUsageCounter,
+        {
+          ...mockUsageCounter,
+          id: "counter_token_123",
+          metric: "token",
+          included: 250000,
+          used: 1000,
+        },
+        {
+          ...mockUsageCounter,
+          id: "counter_export_123",
+          metric: "export",
+          included: 20,
+          used: 25,
+        },
+      ]);
+
+      // Act
+      const result = await getEntitlements(clerkOrgId);
+
+      // Assert
+      expect(result.metrics).toEqual([
+        {
+          metric: "api_call",
+          included: 60,
+          rolledOver: 0,
+          used: 15,
+          remaining: 45,
+          overageAllowance: 0,
+          projectedUsed: 15,
+          exhaustsAt: null,
+        },
+        {
+          metric: "token",
+          included: 250000,
+          rolledOver: 0,
+          used: 1000,
+          remaining: 249000,
+          overageAllowance: 0,
+          projectedUsed: 1000,
+          exhaustsAt: null,
+        },
+        {
+          metric: "storage_gb",
+          included: 0,
+          rolledOver: 0,
+          used: 0,
+          remaining: 0,
+          overageAllowance: 0,
+          projectedUsed: 0,
+          exhaustsAt: null,
+        },
+        {
+          metric: "export",
+          included: 20,
+          rolledOver: 0,
+          used: 25,
+          remaining: -5,
+          overageAllowance: 0,
+          projectedUsed: 25,
+          exhaustsAt: null,
+        },
+      ]);
+      // Top-level fields mirror the default metric
+      expect(result.included).toBe(60);
+      expect(result.remaining).toBe(45);
+    });
+
+    test("exposes the overage allowance from the plan's enforcement policy", async () => {
+      // Arrange - growth: soft cap with 20% burst
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "growth",
+      });
+      mockFindUsageCountersForPeriod.mockResolvedValue([
+        { ...mockUsageCounter, included: 300, used: 320 },
+      ]);
+
+      // Act
+      const result = await getEntitlements(clerkOrgId);
+
+      // Assert
+      expect(result.mode).toBe("soft");
+      expect(result.overageAllowance).toBe(60);
+      expect(result.metrics[0]).toEqual({
+        metric: "api_call",
+        included: 300,
+        rolledOver: 0,
+        used: 320,
+        remaining: -20,
+        overageAllowance: 60,
+        projectedUsed: 320,
+        exhaustsAt: null,
+      });
+    });
+
+    test("shows quota rolled over from the previous period", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "growth",
+      });
+      mockFindUsageCountersForPeriod.mockResolvedValue([
+        { ...mockUsageCounter, included: 300, rolledOver: 75, used: 320 },
+      ]);
+
+      // Act
+      const result = await getEntitlements(clerkOrgId);
+
+      // Assert
+      expect(result).toMatchObject({
+        included: 300,
+        rolledOver: 75,
+        used: 320,
+        remaining: 55,
+      });
+    });
+
+    test("returns null overage allowance for unlimited plans", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "pro",
+      });
+      mockFindUsageCountersForPeriod.mockResolvedValue([]);
+
+      // Act
+      const result = await getEntitlements(clerkOrgId);
+
+      // Assert
+      expect(result.mode).toBe("unlimited");
+      expect(result.overageAllowance).toBeNull();
+      expect(
+        result.metrics.every((metric) => metric.overageAllowance === null)
+      ).toBe(true);
+    });
+
+    test("shows open anomalies and no overage for a metric under a hard cap", async () => {
+      // Arrange
+      const anomaly = mockUsageAnomalyRecord({
+        capUntil: new Date(Date.now() + 60 * 60 * 1000),
+      });
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "pro",
       });
+      mockFindUsageCountersForPeriod.mockResolvedValue([]);
+      (db.usageAnomaly.findMany as jest.Mock)
+        .mockResolvedValueOnce([anomaly])
+        .mockResolvedValueOnce([anomaly]);
+
+      // Act
+      const result = await getEntitlements(clerkOrgId);
+
+      // Assert
+      expect(result.mode).toBe("hard");
+      expect(result.overageAllowance).toBe(0);
+      expect(
+        result.metrics.find((metric) => metric.metric === "token")
+          ?.overageAllowance
+      ).toBeNull();
+      expect(
+        result.metrics.find((metric) => metric.metric === "api_call")
+          ?.overageAllowance
+      ).toBe(0);
+      expect(result.anomalies).toEqual([
+        {
+          metric: "api_call",
+          hour: "2025-01-15T10:00:00.000Z",
+          observed: 12000,
+          baseline: 40,
+          capUntil: anomaly.capUntil?.toISOString(),
+        },
+      ]);
     });
 
     test("throws EntitlementsOrgNotFoundError when organization not found", async () => {
@@ -181,10 +500,12 @@ describe("Entitlements Service", () => {
         mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
           mockSubscription
         );
-        mockFindUsageCounter.mockResolvedValue({
-          ...mockUsageCounter,
-          used,
-        });
+        mockFindUsageCountersForPeriod.mockResolvedValue([
+          {
+            ...mockUsageCounter,
+            used,
+          },
+        ]);
 
         // Act
         const result = await getEntitlements(clerkOrgId);
@@ -197,9 +518,10 @@ describe("Entitlements Service", () => {
     test("derives periodKey correctly from subscription currentPeriodStart", async () => {
       // Arrange
       const testCases = [
-        { date: new Date(2025, 0, 15), expected: "2025-01" }, // January
-        { date: new Date(2025, 11, 25), expected: "2025-12" }, // December
-        { date: new Date(2024, 5, 1), expected: "2024-06" }, // June
+        { date: new Date("2025-01-15T08:00:00Z"), expected: "2025-01-15" }, // January
+        { date: new Date("2025-12-25T08:00:00Z"), expected: "2025-12-25" }, // December
+        { date: new Date("2024-06-01T07:00:00Z"), expected: "2024-06-01" }, // June (PDT)
+        { date: new Date("2025-02-01T03:00:00Z"), expected: "2025-01-31" }, // Jan 31 evening in Los Angeles
       ];
 
       for (const { date, expected } of testCases) {
@@ -208,20 +530,21 @@ describe("Entitlements Service", () => {
           ...mockSubscription,
           currentPeriodStart: date,
         });
-        mockFindUsageCounter.mockResolvedValue({
-          ...mockUsageCounter,
-          periodKey: expected,
-        });
+        mockFindUsageCountersForPeriod.mockResolvedValue([
+          {
+            ...mockUsageCounter,
+            periodKey: expected,
+          },
+        ]);
 
         // Act
         const result = await getEntitlements(clerkOrgId);
 
         // Assert
         expect(result.periodKey).toBe(expected);
-        expect(mockFindUsageCounter).toHaveBeenCalledWith(
+        expect(mockFindUsageCountersForPeriod).toHaveBeenCalledWith(
           clerkOrgId,
-          expected,
-          "api_call"
+          expected
         );
       }
     });
@@ -233,7 +556,7 @@ describe("Entitlements Service", () => {
         ...mockSubscription,
         status: "trialing",
       });
-      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockFindUsageCountersForPeriod.mockResolvedValue([mockUsageCounter]);
 
       // Act
       const result = await getEntitlements(clerkOrgId);
@@ -242,6 +565,273 @@ describe("Entitlements Service", () => {
       expect(result.planCode).toBe("starter");
       expect(result.included).toBe(60);
     });
+
+    test("resolves a pool member to its parent's pool and its own caps", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue({
+        ...mockOrganization,
+        id: "org_internal_member",
+        clerkOrgId: "org_team_a",
+        parentOrganizationId: orgId,
+        poolCaps: { api_call: 10 },
+      });
+      mockFindOrganizationById.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCountersForPeriod.mockResolvedValue([mockUsageCounter]);
+      mockFindPoolMemberUsage.mockResolvedValue([
+        {
+          id: "pool_usage_123",
+          usageCounterId: "counter_123",
+          clerkOrgId: "org_team_a",
+          periodKey: "2025-01-15",
+          metric: "api_call",
+          used: 4,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      // Act
+      const result = await getEntitlements("org_team_a");
+
+      // Assert
+      expect(result).toMatchObject({
+        planCode: "starter",
+        included: 60,
+        used: 15,
+      });
+      expect(result.pool).toEqual({
+        parentOrgId: clerkOrgId,
+        metrics: [
+          { metric: "api_call", cap: 10, used: 4, remaining: 6 },
+          { metric: "token", cap: null, used: 0, remaining: null },
+          { metric: "storage_gb", cap: null, used: 0, remaining: null },
+          { metric: "export", cap: null, used: 0, remaining: null },
+        ],
+      });
+      expect(mockFindActiveSubscriptionByOrganizationId).toHaveBeenCalledWith(
+        orgId
+      );
+      expect(mockFindUsageCountersForPeriod).toHaveBeenCalledWith(
+        clerkOrgId,
+        "2025-01-15"
+      );
+    });
+
+    test("shows the caller's own usage and remaining under their member cap", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCountersForPeriod.mockResolvedValue([mockUsageCounter]);
+      mockFindMemberUsageCaps.mockResolvedValue([
+        {
+          id: "member_cap_123",
+          clerkOrgId,
+          userId: "user_test123",
+          metric: "api_call",
+          cap: 10,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+      mockFindMemberUsage.mockResolvedValue([
+        {
+          id: "member_usage_123",
+          usageCounterId: "counter_123",
+          clerkOrgId,
+          userId: "user_test123",
+          periodKey: "2025-01-15",
+          metric: "api_call",
+          used: 7,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      // Act
+      const result = await getEntitlements(clerkOrgId, "user_test123");
+
+      // Assert: organization totals are unchanged
+      expect(result).toMatchObject({ included: 60, used: 15, remaining: 45 });
+      expect(result.member).toEqual({
+        userId: "user_test123",
+        metrics: [
+          { metric: "api_call", cap: 10, used: 7, remaining: 3 },
+          { metric: "token", cap: null, used: 0, remaining: null },
+          { metric: "storage_gb", cap: null, used: 0, remaining: null },
+          { metric: "export", cap: null, used: 0, remaining: null },
+        ],
+      });
+      expect(mockFindMemberUsageCaps).toHaveBeenCalledWith(
+        clerkOrgId,
+        "user_test123"
+      );
+      expect(mockFindMemberUsage).toHaveBeenCalledWith(
+        clerkOrgId,
+        "2025-01-15",
+        "user_test123"
+      );
+    });
   });
-});
 
+  describe("forecastUsage", () => {
+    const periodStart = new Date("2025-01-01T00:00:00.000Z");
+    const periodEnd = new Date("2025-01-31T00:00:00.000Z");
+
+    test("projects usage to the period end at the average rate so far", () => {
+      // Act: 100 used in the first 10 days of a 30-day period
+      const result = forecastUsage(
+        { used: 100, limit: 250, periodStart, periodEnd },
+        new Date("2025-01-11T00:00:00.000Z")
+      );
+
+      // Assert
+      expect(result).toEqual({
+        dailyRate: 10,
+        projectedUsed: 300,
+        exhaustsAt: "2025-01-26T00:00:00.000Z",
+      });
+    });
+
+    test("has no exhaustion time when the quota lasts the period", () => {
+      // Act
+      const result = forecastUsage(
+        { used: 100, limit: 400, periodStart, periodEnd },
+        new Date("2025-01-11T00:00:00.000Z")
+      );
+
+      // Assert
+      expect(result.projectedUsed).toBe(300);
+      expect(result.exhaustsAt).toBeNull();
+    });
+
+    test("has no exhaustion time once the quota is used up", () => {
+      // Act
+      const result = forecastUsage(
+        { used: 300, limit: 300, periodStart, periodEnd },
+        new Date("2025-01-11T00:00:00.000Z")
+      );
+
+      // Assert
+      expect(result.exhaustsAt).toBeNull();
+    });
+
+    test("extrapolates early usage over the minimum elapsed time", () => {
+      // Act: 10 used in the first hour, taken as the first day
+      const result = forecastUsage(
+        { used: 10, limit: 1000, periodStart, periodEnd },
+        new Date("2025-01-01T01:00:00.000Z")
+      );
+
+      // Assert
+      expect(result.dailyRate).toBe(10);
+      expect(result.projectedUsed).toBe(310);
+    });
+
+    test("keeps usage as final after the period ends", () => {
+      // Act
+      const result = forecastUsage(
+        { used: 120, limit: 100, periodStart, periodEnd },
+        new Date("2025-02-05T00:00:00.000Z")
+      );
+
+      // Assert
+      expect(result).toEqual({
+        dailyRate: 4,
+        projectedUsed: 120,
+        exhaustsAt: null,
+      });
+    });
+  });
+
+  describe("getUsageForecast", () => {
+    const clerkOrgId = "org_test_123";
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date("2025-01-11T00:00:00.000Z"));
+
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ clerkOrgId })
+      );
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({
+          clerkOrgId,
+          currentPeriodStart: new Date("2025-01-01T00:00:00.000Z"),
+          currentPeriodEnd: new Date("2025-01-31T00:00:00.000Z"),
+        })
+      );
+      mockFindUsageCountersForPeriod.mockResolvedValue([
+        {
+          ...mockUsageCounterRecord({ clerkOrgId, included: 200, used: 100 }),
+          rolledOver: 50,
+        },
+        {
+          ...mockUsageCounterRecord({ clerkOrgId, included: 5000, used: 1000 }),
+          metric: "token",
+          rolledOver: 0,
+        },
+      ]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test("forecasts every metric in the plan for the current period", async () => {
+      // Act
+      const result = await getUsageForecast(clerkOrgId);
+
+      // Assert
+      expect(result).toMatchObject({
+        periodKey: "2024-12-31",
+        periodStart: "2025-01-01T00:00:00.000Z",
+        periodEnd: "2025-01-31T00:00:00.000Z",
+        asOf: "2025-01-11T00:00:00.000Z",
+      });
+      expect(result.forecasts.map((forecast) => forecast.metric)).toEqual([
+        "api_call",
+        "token",
+        "storage_gb",
+        "export",
+      ]);
+      expect(result.forecasts[0]).toEqual({
+        metric: "api_call",
+        used: 100,
+        limit: 250,
+        remaining: 150,
+        dailyRate: 10,
+        projectedUsed: 300,
+        projectedOverage: 50,
+        exhaustsAt: "2025-01-26T00:00:00.000Z",
+      });
+      expect(result.forecasts[1]).toMatchObject({
+        projectedUsed: 3000,
+        projectedOverage: 0,
+        exhaustsAt: null,
+      });
+    });
+
+    test("forecasts a single metric", async () => {
+      // Act
+      const result = await getUsageForecast(clerkOrgId, "token");
+
+      // Assert
+      expect(result.forecasts).toHaveLength(1);
+      expect(result.forecasts[0].metric).toBe("token");
+    });
+
+    test("throws EntitlementsNoActiveSubscriptionError without a subscription", async () => {
+      // Arrange
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(getUsageForecast(clerkOrgId)).rejects.toThrow(
+        EntitlementsNoActiveSubscriptionError
+      );
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Unit Tests: Idempotency Service
+ *
+ * Tests purging of expired usage idempotency keys
+ */
+
+import { purgeExpiredIdempotencyKeys } from "@/lib/services/usage/idempotency-service";
+import { deleteExpiredIdempotencyKeys } from "@/lib/db/repositories/idempotency-repository";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/idempotency-repository");
+
+const mockDeleteExpiredIdempotencyKeys =
+  deleteExpiredIdempotencyKeys as jest.MockedFunction<
+    typeof deleteExpiredIdempotencyKeys
+  >;
+
+describe("Idempotency Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("purgeExpiredIdempotencyKeys", () => {
+    test("deletes keys that expired before the reference time", async () => {
+      // Arrange
+      const now = new Date("2025-01-20T00:00:00.000Z");
+      mockDeleteExpiredIdempotencyKeys.mockResolvedValue(7);
+
+      // Act
+      const result = await purgeExpiredIdempotencyKeys(now);
+
+      // Assert
+      expect(result).toEqual({ deleted: 7 });
+      expect(mockDeleteExpiredIdempotencyKeys).toHaveBeenCalledWith(now);
+    });
+
+    test("defaults the reference time to now", async () => {
+      // Arrange
+      mockDeleteExpiredIdempotencyKeys.mockResolvedValue(0);
+
+      // Act
+      await purgeExpiredIdempotencyKeys();
+
+      // Assert
+      expect(mockDeleteExpiredIdempotencyKeys).toHaveBeenCalledWith(
+        expect.any(Date)
+      );
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Unit Tests: Member Cap Service
+ *
+ * Tests loading, looking up and managing per-member usage caps
+ */
+
+import {
+  loadMemberCaps,
+  getMemberCap,
+  setMemberCap,
+  listMemberCaps,
+} from "@/lib/services/orgs/member-cap-service";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import {
+  findMemberUsageCaps,
+  upsertMemberUsageCap,
+  deleteMemberUsageCap,
+  MemberUsageCapRecord,
+} from "@/lib/db/repositories/member-repository";
+import { OrgNotFoundError } from "@/lib/errors/org-errors";
+import { mockOrganizationRecord } from "../../helpers/mock-db";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/member-repository");
+
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockFindMemberUsageCaps = findMemberUsageCaps as jest.MockedFunction<
+  typeof findMemberUsageCaps
+>;
+const mockUpsertMemberUsageCap = upsertMemberUsageCap as jest.MockedFunction<
+  typeof upsertMemberUsageCap
+>;
+const mockDeleteMemberUsageCap = deleteMemberUsageCap as jest.MockedFunction<
+  typeof deleteMemberUsageCap
+>;
+
+const clerkOrgId = "org_test456";
+
+function memberCap(
+  userId: string,
+  metric: string,
+  cap: number
+): MemberUsageCapRecord {
+  return {
+    id: `member_cap_${userId}_${metric}`,
+    clerkOrgId,
+    userId,
+    metric,
+    cap,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("Member Cap Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("loadMemberCaps", () => {
+    test("groups caps by member, then metric", async () => {
+      // Arrange
+      mockFindMemberUsageCaps.mockResolvedValue([
+        memberCap("user_a", "api_call", 100),
+        memberCap("user_a", "token", 5000),
+        memberCap("user_b", "api_call", 50),
+      ]);
+
+      // Act
+      const caps = await loadMemberCaps(clerkOrgId);
+
+      // Assert
+      expect(caps).toEqual({
+        user_a: { api_call: 100, token: 5000 },
+        user_b: { api_call: 50 },
+      });
+      expect(mockFindMemberUsageCaps).toHaveBeenCalledWith(clerkOrgId);
+    });
+  });
+
+  describe("getMemberCap", () => {
+    const caps = { user_a: { api_call: 100 } };
+
+    test("returns the member's cap for the metric", () => {
+      expect(getMemberCap(caps, "user_a", "api_call")).toBe(100);
+    });
+
+    test("returns null for uncapped metrics, members and unattributed usage", () => {
+      expect(getMemberCap(caps, "user_a", "token")).toBeNull();
+      expect(getMemberCap(caps, "user_b", "api_call")).toBeNull();
+      expect(getMemberCap(caps, undefined, "api_call")).toBeNull();
+      expect(getMemberCap(undefined, "user_a", "api_call")).toBeNull();
+    });
+  });
+
+  describe("setMemberCap", () => {
+    test("sets a member's cap", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord()
+      );
+      mockUpsertMemberUsageCap.mockResolvedValue(
+        memberCap("user_a", "api_call", 100)
+      );
+
+      // Act
+      const result = await setMemberCap({
+        clerkOrgId,
+        userId: "user_a",
+        metric: "api_call",
+        cap: 100,
+      });
+
+      // Assert
+      expect(result).toEqual({
+        orgId: clerkOrgId,
+        userId: "user_a",
+        metric: "api_call",
+        cap: 100,
+      });
+      expect(mockUpsertMemberUsageCap).toHaveBeenCalledWith({
+        clerkOrgId,
+        userId: "user_a",
+        metric: "api_call",
+        cap: 100,
+      });
+      expect(mockDeleteMemberUsageCap).not.toHaveBeenCalled();
+    });
+
+    test("removes a member's cap when cap is null", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord()
+      );
+      mockDeleteMemberUsageCap.mockResolvedValue(true);
+
+      // Act
+      const result = await setMemberCap({
+        clerkOrgId,
+        userId: "user_a",
+        metric: "api_call",
+        cap: null,
+      });
+
+      // Assert
+      expect(result.cap).toBeNull();
+      expect(mockDeleteMemberUsageCap).toHaveBeenCalledWith({
+        clerkOrgId,
+        userId: "user_a",
+        metric: "api_call",
+      });
+      expect(mockUpsertMemberUsageCap).not.toHaveBeenCalled();
+    });
+
+    test("throws OrgNotFoundError for an unknown organization", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        setMemberCap({
+          clerkOrgId: "org_missing",
+          userId: "user_a",
+          metric: "api_call",
+          cap: 100,
+        })
+      ).rejects.toThrow(OrgNotFoundError);
+      expect(mockUpsertMemberUsageCap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listMemberCaps", () => {
+    test("lists the organization's caps, optionally for one member", async () => {
+      // Arrange
+      mockFindMemberUsageCaps.mockResolvedValue([
+        memberCap("user_a", "api_call", 100),
+      ]);
+
+      // Act
+      const result = await listMemberCaps(clerkOrgId, "user_a");
+
+      // Assert
+      expect(result).toEqual({
+        caps: [{ userId: "user_a", metric: "api_call", cap: 100 }],
+      });
+      expect(mockFindMemberUsageCaps).toHaveBeenCalledWith(
+        clerkOrgId,
+        "user_a"
+      );
+    });
+  });
+});
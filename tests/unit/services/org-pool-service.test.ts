@@ -0,0 +1,241 @@
+/**
+ * Unit Tests: Organization Pool Service
+ *
+ * Tests resolving pool members to their parent and managing pool membership
+ */
+
+import {
+  resolvePoolOwner,
+  getPoolMemberCap,
+  updatePoolMembership,
+} from "@/lib/services/orgs/org-pool-service";
+import {
+  findOrganizationById,
+  findOrganizationByClerkOrgId,
+  findChildOrganizations,
+  updateOrganizationPool,
+} from "@/lib/db/repositories/org-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
+import { OrgNotFoundError, OrgValidationError } from "@/lib/errors/org-errors";
+import {
+  mockOrganizationRecord,
+  mockSubscriptionRecord,
+} from "../../helpers/mock-db";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/subscription-repository");
+
+const mockFindOrganizationById = findOrganizationById as jest.MockedFunction<
+  typeof findOrganizationById
+>;
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockFindChildOrganizations =
+  findChildOrganizations as jest.MockedFunction<typeof findChildOrganizations>;
+const mockUpdateOrganizationPool =
+  updateOrganizationPool as jest.MockedFunction<typeof updateOrganizationPool>;
+const mockFindActiveSubscriptionByOrganizationId =
+  findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+    typeof findActiveSubscriptionByOrganizationId
+  >;
+
+const parent = mockOrganizationRecord({
+  id: "org_internal_parent",
+  clerkOrgId: "org_enterprise",
+});
+const member = mockOrganizationRecord({
+  id: "org_internal_member",
+  clerkOrgId: "org_team_a",
+});
+
+describe("Organization Pool Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("resolvePoolOwner", () => {
+    test("returns the organization itself outside a pool", async () => {
+      // Act
+      const result = await resolvePoolOwner(member);
+
+      // Assert
+      expect(result).toEqual({ owner: member });
+      expect(mockFindOrganizationById).not.toHaveBeenCalled();
+    });
+
+    test("returns the parent and pool context for a pool member", async () => {
+      // Arrange
+      mockFindOrganizationById.mockResolvedValue(parent);
+
+      // Act
+      const result = await resolvePoolOwner({
+        ...member,
+        parentOrganizationId: parent.id,
+        poolCaps: { api_call: 5000 },
+      });
+
+      // Assert
+      expect(result).toEqual({
+        owner: parent,
+        pool: {
+          clerkOrgId: "org_enterprise",
+          organizationId: "org_internal_parent",
+          caps: { api_call: 5000 },
+        },
+      });
+    });
+
+    test("throws OrgNotFoundError if the parent no longer exists", async () => {
+      // Arrange
+      mockFindOrganizationById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        resolvePoolOwner({ ...member, parentOrganizationId: parent.id })
+      ).rejects.toThrow(OrgNotFoundError);
+    });
+  });
+
+  describe("getPoolMemberCap", () => {
+    const pool = {
+      clerkOrgId: "org_enterprise",
+      organizationId: "org_internal_parent",
+      caps: { api_call: 5000 },
+    };
+
+    test("returns the member's cap for a capped metric", () => {
+      expect(getPoolMemberCap(pool, "api_call")).toBe(5000);
+    });
+
+    test("returns null for uncapped metrics and outside a pool", () => {
+      expect(getPoolMemberCap(pool, "token")).toBeNull();
+      expect(getPoolMemberCap(undefined, "api_call")).toBeNull();
+    });
+  });
+
+  describe("updatePoolMembership", () => {
+    beforeEach(() => {
+      mockFindOrganizationByClerkOrgId.mockImplementation(
+        async (clerkOrgId) =>
+          [parent, member].find((org) => org.clerkOrgId === clerkOrgId) ?? null
+      );
+      mockFindChildOrganizations.mockResolvedValue([]);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(null);
+    });
+
+    test("adds the organization to the parent's pool with its caps", async () => {
+      // Act
+      const result = await updatePoolMembership({
+        clerkOrgId: "org_team_a",
+        parentClerkOrgId: "org_enterprise",
+        caps: { api_call: 5000 },
+      });
+
+      // Assert
+      expect(result).toEqual({
+        orgId: "org_team_a",
+        parentOrgId: "org_enterprise",
+        caps: { api_call: 5000 },
+      });
+      expect(mockUpdateOrganizationPool).toHaveBeenCalledWith(
+        "org_internal_member",
+        {
+          parentOrganizationId: "org_internal_parent",
+          poolCaps: { api_call: 5000 },
+        }
+      );
+    });
+
+    test("removes the organization from its pool and clears its caps", async () => {
+      // Act
+      const result = await updatePoolMembership({
+        clerkOrgId: "org_team_a",
+        parentClerkOrgId: null,
+      });
+
+      // Assert
+      expect(result).toEqual({
+        orgId: "org_team_a",
+        parentOrgId: null,
+        caps: {},
+      });
+      expect(mockUpdateOrganizationPool).toHaveBeenCalledWith(
+        "org_internal_member",
+        { parentOrganizationId: null, poolCaps: {} }
+      );
+    });
+
+    test("throws OrgNotFoundError if the parent is not found", async () => {
+      // Act & Assert
+      await expect(
+        updatePoolMembership({
+          clerkOrgId: "org_team_a",
+          parentClerkOrgId: "org_missing",
+        })
+      ).rejects.toThrow(OrgNotFoundError);
+      expect(mockUpdateOrganizationPool).not.toHaveBeenCalled();
+    });
+
+    test("refuses a parent that is itself a pool member", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockImplementation(async (clerkOrgId) =>
+        clerkOrgId === "org_enterprise"
+          ? { ...parent, parentOrganizationId: "org_internal_other" }
+          : member
+      );
+
+      // Act & Assert
+      await expect(
+        updatePoolMembership({
+          clerkOrgId: "org_team_a",
+          parentClerkOrgId: "org_enterprise",
+        })
+      ).rejects.toThrow(OrgValidationError);
+      expect(mockUpdateOrganizationPool).not.toHaveBeenCalled();
+    });
+
+    test("refuses an organization that has pool members of its own", async () => {
+      // Arrange
+      mockFindChildOrganizations.mockResolvedValue([
+        mockOrganizationRecord({ id: "org_internal_child" }),
+      ]);
+
+      // Act & Assert
+      await expect(
+        updatePoolMembership({
+          clerkOrgId: "org_team_a",
+          parentClerkOrgId: "org_enterprise",
+        })
+      ).rejects.toThrow(OrgValidationError);
+    });
+
+    test("refuses an organization with its own active subscription", async () => {
+      // Arrange
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord()
+      );
+
+      // Act & Assert
+      await expect(
+        updatePoolMembership({
+          clerkOrgId: "org_team_a",
+          parentClerkOrgId: "org_enterprise",
+        })
+      ).rejects.toThrow(OrgValidationError);
+      expect(mockUpdateOrganizationPool).not.toHaveBeenCalled();
+    });
+
+    test("refuses pooling an organization with itself", async () => {
+      // Act & Assert
+      await expect(
+        updatePoolMembership({
+          clerkOrgId: "org_team_a",
+          parentClerkOrgId: "org_team_a",
+        })
+      ).rejects.toThrow(OrgValidationError);
+    });
+  });
+});
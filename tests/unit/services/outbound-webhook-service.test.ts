@@ -0,0 +1,258 @@
+/**
+ * Unit Tests: Outbound Webhook Service
+ *
+ * Tests tenant endpoint management and event fan-out to the delivery log
+ */
+
+import {
+  createEndpoint,
+  listEndpoints,
+  updateEndpoint,
+  deleteEndpoint,
+  publishWebhookEvent,
+} from "@/lib/services/webhooks/outbound-webhook-service";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  findSubscribedWebhookEndpoints,
+  findWebhookEndpointById,
+  findWebhookEndpointsByClerkOrgId,
+  updateWebhookEndpoint,
+} from "@/lib/db/repositories/webhook-endpoint-repository";
+import { createWebhookDeliveries } from "@/lib/db/repositories/webhook-delivery-repository";
+import { OrgNotFoundError } from "@/lib/errors/org-errors";
+import { WebhookEndpointNotFoundError } from "@/lib/errors/webhook-errors";
+import { ApplicationError } from "@/lib/utils/errors";
+import {
+  mockOrganizationRecord,
+  mockWebhookEndpointRecord,
+} from "../../helpers/mock-db";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/webhook-endpoint-repository");
+jest.mock("@/lib/db/repositories/webhook-delivery-repository");
+
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockCreateWebhookEndpoint = createWebhookEndpoint as jest.MockedFunction<
+  typeof createWebhookEndpoint
+>;
+const mockDeleteWebhookEndpoint = deleteWebhookEndpoint as jest.MockedFunction<
+  typeof deleteWebhookEndpoint
+>;
+const mockFindSubscribedWebhookEndpoints =
+  findSubscribedWebhookEndpoints as jest.MockedFunction<
+    typeof findSubscribedWebhookEndpoints
+  >;
+const mockFindWebhookEndpointById =
+  findWebhookEndpointById as jest.MockedFunction<
+    typeof findWebhookEndpointById
+  >;
+const mockFindWebhookEndpointsByClerkOrgId =
+  findWebhookEndpointsByClerkOrgId as jest.MockedFunction<
+    typeof findWebhookEndpointsByClerkOrgId
+  >;
+const mockUpdateWebhookEndpoint = updateWebhookEndpoint as jest.MockedFunction<
+  typeof updateWebhookEndpoint
+>;
+const mockCreateWebhookDeliveries =
+  createWebhookDeliveries as jest.MockedFunction<
+    typeof createWebhookDeliveries
+  >;
+
+describe("Outbound Webhook Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFindOrganizationByClerkOrgId.mockResolvedValue(
+      mockOrganizationRecord()
+    );
+    mockFindWebhookEndpointById.mockResolvedValue(mockWebhookEndpointRecord());
+  });
+
+  describe("createEndpoint", () => {
+    test("creates an endpoint with a generated secret and returns it once", async () => {
+      // Arrange
+      mockCreateWebhookEndpoint.mockImplementation(async (data) =>
+        mockWebhookEndpointRecord({
+          url: data.url,
+          secret: data.secret,
+          events: data.events,
+        })
+      );
+
+      // Act
+      const result = await createEndpoint("org_test456", {
+        url: "https://example.com/webhooks",
+        events: ["quota.exhausted"],
+      });
+
+      // Assert
+      expect(mockCreateWebhookEndpoint).toHaveBeenCalledWith({
+        organizationId: "org_internal_123",
+        clerkOrgId: "org_test456",
+        url: "https://example.com/webhooks",
+        secret: expect.stringMatching(/^whsec_[0-9a-f]{48}$/),
+        events: ["quota.exhausted"],
+        description: null,
+      });
+      expect(result.secret).toMatch(/^whsec_/);
+      expect(result.events).toEqual(["quota.exhausted"]);
+    });
+
+    test("throws OrgNotFoundError if organization doesn't exist", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        createEndpoint("org_missing", {
+          url: "https://example.com/webhooks",
+          events: ["quota.exhausted"],
+        })
+      ).rejects.toThrow(OrgNotFoundError);
+      expect(mockCreateWebhookEndpoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listEndpoints", () => {
+    test("returns endpoints without their secrets", async () => {
+      // Arrange
+      mockFindWebhookEndpointsByClerkOrgId.mockResolvedValue([
+        mockWebhookEndpointRecord(),
+      ]);
+
+      // Act
+      const result = await listEndpoints("org_test456");
+
+      // Assert
+      expect(result.endpoints).toHaveLength(1);
+      expect(result.endpoints[0]).not.toHaveProperty("secret");
+      expect(result.endpoints[0].url).toBe("https://example.com/webhooks");
+    });
+  });
+
+  describe("updateEndpoint", () => {
+    test("updates an endpoint owned by the organization", async () => {
+      // Arrange
+      mockUpdateWebhookEndpoint.mockResolvedValue(
+        mockWebhookEndpointRecord({ enabled: false })
+      );
+
+      // Act
+      const result = await updateEndpoint("org_test456", "whe_123", {
+        enabled: false,
+      });
+
+      // Assert
+      expect(mockUpdateWebhookEndpoint).toHaveBeenCalledWith("whe_123", {
+        enabled: false,
+      });
+      expect(result.enabled).toBe(false);
+    });
+
+    test("throws WebhookEndpointNotFoundError for another org's endpoint", async () => {
+      // Arrange
+      mockFindWebhookEndpointById.mockResolvedValue(
+        mockWebhookEndpointRecord({ clerkOrgId: "org_other" })
+      );
+
+      // Act & Assert
+      await expect(
+        updateEndpoint("org_test456", "whe_123", { enabled: false })
+      ).rejects.toThrow(WebhookEndpointNotFoundError);
+      expect(mockUpdateWebhookEndpoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteEndpoint", () => {
+    test("deletes an endpoint owned by the organization", async () => {
+      // Act
+      await deleteEndpoint("org_test456", "whe_123");
+
+      // Assert
+      expect(mockDeleteWebhookEndpoint).toHaveBeenCalledWith("whe_123");
+    });
+
+    test("throws WebhookEndpointNotFoundError if endpoint doesn't exist", async () => {
+      // Arrange
+      mockFindWebhookEndpointById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(deleteEndpoint("org_test456", "whe_404")).rejects.toThrow(
+        WebhookEndpointNotFoundError
+      );
+      expect(mockDeleteWebhookEndpoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("publishWebhookEvent", () => {
+    const event = {
+      clerkOrgId: "org_test456",
+      type: "quota.exhausted" as const,
+      eventId: "quota.exhausted:counter_123",
+      data: { metric: "api_call" },
+    };
+
+    test("enqueues one delivery per subscribed endpoint", async () => {
+      // Arrange
+      mockFindSubscribedWebhookEndpoints.mockResolvedValue([
+        mockWebhookEndpointRecord({ id: "whe_1" }),
+        mockWebhookEndpointRecord({ id: "whe_2" }),
+      ]);
+      mockCreateWebhookDeliveries.mockResolvedValue(2);
+
+      // Act
+      const count = await publishWebhookEvent(event);
+
+      // Assert
+      expect(count).toBe(2);
+      expect(mockFindSubscribedWebhookEndpoints).toHaveBeenCalledWith(
+        "org_test456",
+        "quota.exhausted"
+      );
+      const [deliveries] = mockCreateWebhookDeliveries.mock.calls[0];
+      expect(deliveries.map((d) => d.endpointId)).toEqual(["whe_1", "whe_2"]);
+      expect(deliveries[0]).toMatchObject({
+        clerkOrgId: "org_test456",
+        eventId: "quota.exhausted:counter_123",
+        eventType: "quota.exhausted",
+        payload: {
+          id: "quota.exhausted:counter_123",
+          type: "quota.exhausted",
+          clerkOrgId: "org_test456",
+          data: { metric: "api_call" },
+        },
+      });
+    });
+
+    test("does nothing when no endpoint is subscribed", async () => {
+      // Arrange
+      mockFindSubscribedWebhookEndpoints.mockResolvedValue([]);
+
+      // Act
+      const count = await publishWebhookEvent(event);
+
+      // Assert
+      expect(count).toBe(0);
+      expect(mockCreateWebhookDeliveries).not.toHaveBeenCalled();
+    });
+
+    test("swallows errors so the caller never fails", async () => {
+      // Arrange
+      mockFindSubscribedWebhookEndpoints.mockResolvedValue([
+        mockWebhookEndpointRecord(),
+      ]);
+      mockCreateWebhookDeliveries.mockRejectedValue(
+        new ApplicationError("db down", "WEBHOOK_DELIVERY_CREATE_ERROR", 500)
+      );
+
+      // Act & Assert
+      await expect(publishWebhookEvent(event)).resolves.toBe(0);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Unit Tests: Overage Reporting Service
+ *
+ * Tests business logic for reporting overage to Stripe metered billing
+ */
+
+import {
+  getOverageConfig,
+  reportOverageForCounter,
+  reportOverage,
+} from "@/lib/services/billing/overage-reporting-service";
+import { findSubscriptionById } from "@/lib/db/repositories/subscription-repository";
+import {
+  findUsageCountersInOverage,
+  findOverageReportsByUsageCounterId,
+  createOverageReport,
+  markOverageReportReported,
+} from "@/lib/db/repositories/overage-repository";
+import { StripeApiError } from "@/lib/errors/stripe-errors";
+import {
+  mockStripe,
+  mockStripeMeterEventCreate,
+  mockStripeMeterEventCreateError,
+  resetStripeMocks,
+} from "../../helpers/mock-stripe";
+import {
+  mockSubscriptionRecord,
+  mockUsageCounterRecord,
+  mockOverageReportRecord,
+} from "../../helpers/mock-db";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/subscription-repository");
+jest.mock("@/lib/db/repositories/overage-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/overage-repository"),
+  findUsageCountersInOverage: jest.fn(),
+  findOverageReportsByUsageCounterId: jest.fn(),
+  createOverageReport: jest.fn(),
+  markOverageReportReported: jest.fn(),
+}));
+
+const mockFindSubscriptionById = findSubscriptionById as jest.MockedFunction<
+  typeof findSubscriptionById
+>;
+const mockFindUsageCountersInOverage =
+  findUsageCountersInOverage as jest.MockedFunction<
+    typeof findUsageCountersInOverage
+  >;
+const mockFindOverageReportsByUsageCounterId =
+  findOverageReportsByUsageCounterId as jest.MockedFunction<
+    typeof findOverageReportsByUsageCounterId
+  >;
+const mockCreateOverageReport = createOverageReport as jest.MockedFunction<
+  typeof createOverageReport
+>;
+const mockMarkOverageReportReported =
+  markOverageReportReported as jest.MockedFunction<
+    typeof markOverageReportReported
+  >;
+
+describe("Overage Reporting Service", () => {
+  const growthCounter = mockUsageCounterRecord({ included: 300, used: 320 });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetStripeMocks();
+
+    mockStripeMeterEventCreate();
+    mockFindSubscriptionById.mockResolvedValue(
+      mockSubscriptionRecord({ planCode: "growth" })
+    );
+    mockFindOverageReportsByUsageCounterId.mockResolvedValue([]);
+    mockCreateOverageReport.mockImplementation(async (data) =>
+      mockOverageReportRecord({
+        usageCounterId: data.usageCounterId,
+        overageFrom: data.overageFrom,
+        overageTo: data.overageTo,
+        status: "pending",
+      })
+    );
+    mockMarkOverageReportReported.mockImplementation(async (id) =>
+      mockOverageReportRecord({ id, status: "reported" })
+    );
+  });
+
+  describe("getOverageConfig", () => {
+    test("returns overage price for plans that bill the metric", () => {
+      expect(getOverageConfig("growth", "api_call")).toEqual({
+        stripePriceId: "price_growth_api_call_overage",
+        meterEventName: "api_call_overage",
+      });
+    });
+
+    test("returns null when plan does not bill overage for the metric", () => {
+      expect(getOverageConfig("starter", "api_call")).toBeNull();
+      expect(getOverageConfig("growth", "token")).toBeNull();
+      expect(getOverageConfig("invalid", "api_call")).toBeNull();
+    });
+  });
+
+  describe("reportOverageForCounter", () => {
+    test("reports new overage as a meter event and marks it reported", async () => {
+      // Act
+      const quantity = await reportOverageForCounter(growthCounter);
+
+      // Assert
+      expect(quantity).toBe(20);
+      expect(mockCreateOverageReport).toHaveBeenCalledWith({
+        usageCounterId: "counter_123",
+        clerkOrgId: "org_test456",
+        periodKey: "2025-01-15",
+        metric: "api_call",
+        overageFrom: 0,
+        overageTo: 20,
+      });
+      expect(mockStripe.billing.meterEvents.create).toHaveBeenCalledWith({
+        event_name: "api_call_overage",
+        identifier: "ovg_counter_123_20",
+        timestamp: expect.any(Number),
+        payload: {
+          stripe_customer_id: "cus_test",
+          value: "20",
+        },
+      });
+      expect(mockMarkOverageReportReported).toHaveBeenCalledWith(
+        "ovg_record_123"
+      );
+    });
+
+    test("timestamps meter events inside the counter's billing period", async () => {
+      // Act
+      await reportOverageForCounter(growthCounter);
+
+      // Assert
+      const [params] = (mockStripe.billing.meterEvents.create as jest.Mock).mock
+        .calls[0];
+      expect(params.timestamp * 1000).toBeLessThan(
+        growthCounter.periodEnd.getTime()
+      );
+    });
+
+    test("reports only the overage not yet in the ledger", async () => {
+      // Arrange
+      mockFindOverageReportsByUsageCounterId.mockResolvedValue([
+        mockOverageReportRecord({ overageFrom: 0, overageTo: 20 }),
+      ]);
+
+      // Act
+      const quantity = await reportOverageForCounter(
+        mockUsageCounterRecord({ included: 300, used: 325 })
+      );
+
+      // Assert
+      expect(quantity).toBe(5);
+      expect(mockCreateOverageReport).toHaveBeenCalledWith(
+        expect.objectContaining({ overageFrom: 20, overageTo: 25 })
+      );
+      expect(mockStripe.billing.meterEvents.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          identifier: "ovg_counter_123_25",
+          payload: expect.objectContaining({ value: "5" }),
+        })
+      );
+    });
+
+    test("does nothing when all overage is already reported", async () => {
+      // Arrange
+      mockFindOverageReportsByUsageCounterId.mockResolvedValue([
+        mockOverageReportRecord({ overageFrom: 0, overageTo: 20 }),
+      ]);
+
+      // Act
+      const quantity = await reportOverageForCounter(growthCounter);
+
+      // Assert
+      expect(quantity).toBe(0);
+      expect(mockCreateOverageReport).not.toHaveBeenCalled();
+      expect(mockStripe.billing.meterEvents.create).not.toHaveBeenCalled();
+    });
+
+    test("resends pending entries with their original identifier", async () => {
+      // Arrange - previous run crashed after claiming the range
+      mockFindOverageReportsByUsageCounterId.mockResolvedValue([
+        mockOverageReportRecord({
+          overageFrom: 0,
+          overageTo: 20,
+          status: "pending",
+        }),
+      ]);
+
+      // Act
+      const quantity = await reportOverageForCounter(growthCounter);
+
+      // Assert
+      expect(quantity).toBe(20);
+      expect(mockCreateOverageReport).not.toHaveBeenCalled();
+      expect(mockStripe.billing.meterEvents.create).toHaveBeenCalledTimes(1);
+      expect(mockStripe.billing.meterEvents.create).toHaveBeenCalledWith(
+        expect.objectContaining({ identifier: "ovg_counter_123_20" })
+      );
+      expect(mockMarkOverageReportReported).toHaveBeenCalledTimes(1);
+    });
+
+    test("skips Stripe when another worker already claimed the range", async () => {
+      // Arrange
+      mockCreateOverageReport.mockResolvedValue(null);
+
+      // Act
+      const quantity = await reportOverageForCounter(growthCounter);
+
+      // Assert
+      expect(quantity).toBe(0);
+      expect(mockStripe.billing.meterEvents.create).not.toHaveBeenCalled();
+    });
+
+    test("leaves entry pending and throws StripeApiError when Stripe fails", async () => {
+      // Arrange
+      mockStripeMeterEventCreateError(new Error("Stripe API error"));
+
+      // Act & Assert
+      await expect(reportOverageForCounter(growthCounter)).rejects.toThrow(
+        StripeApiError
+      );
+      expect(mockMarkOverageReportReported).not.toHaveBeenCalled();
+    });
+
+    test("skips counters whose plan has no overage price", async () => {
+      // Arrange
+      mockFindSubscriptionById.mockResolvedValue(
+        mockSubscriptionRecord({ planCode: "starter" })
+      );
+
+      // Act
+      const quantity = await reportOverageForCounter(
+        mockUsageCounterRecord({ included: 60, used: 80 })
+      );
+
+      // Assert
+      expect(quantity).toBe(0);
+      expect(mockFindOverageReportsByUsageCounterId).not.toHaveBeenCalled();
+      expect(mockStripe.billing.meterEvents.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("reportOverage", () => {
+    test("reports every counter in overage and continues past failures", async () => {
+      // Arrange
+      mockFindUsageCountersInOverage.mockResolvedValue([
+        growthCounter,
+        { ...growthCounter, id: "counter_456" },
+      ]);
+      mockStripe.billing.meterEvents.create = jest
+        .fn()
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error("Stripe API error"));
+
+      // Act
+      const result = await reportOverage(new Date(2025, 0, 20));
+
+      // Assert
+      expect(result).toEqual({
+        countersChecked: 2,
+        countersReported: 1,
+        quantityReported: 20,
+        failed: 1,
+      });
+    });
+
+    test("includes periods that ended within the reporting window", async () => {
+      // Arrange
+      mockFindUsageCountersInOverage.mockResolvedValue([]);
+      const now = new Date(2025, 1, 1, 12, 0, 0);
+
+      // Act
+      await reportOverage(now);
+
+      // Assert
+      expect(mockFindUsageCountersInOverage).toHaveBeenCalledWith(
+        new Date(now.getTime() - 24 * 60 * 60 * 1000)
+      );
+    });
+  });
+});
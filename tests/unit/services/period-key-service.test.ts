@@ -0,0 +1,179 @@
+/**
+ * Unit Tests: Period Key Service
+ *
+ * Tests billing-period key derivation and the legacy period key migration.
+ */
+
+import { migrateLegacyPeriodKeys } from "@/lib/services/usage/period-key-service";
+import {
+  findLegacyPeriodKeyUsageCounters,
+  migrateUsageCounterPeriodKey,
+  formatPeriodKey,
+  isLegacyPeriodKey,
+} from "@/lib/db/repositories/usage-repository";
+import { mockUsageCounterRecord } from "../../helpers/mock-db";
+
+// Mock repository
+jest.mock("@/lib/db/repositories/usage-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/usage-repository"),
+  findLegacyPeriodKeyUsageCounters: jest.fn(),
+  migrateUsageCounterPeriodKey: jest.fn(),
+}));
+
+const mockFindLegacyPeriodKeyUsageCounters =
+  findLegacyPeriodKeyUsageCounters as jest.MockedFunction<
+    typeof findLegacyPeriodKeyUsageCounters
+  >;
+const mockMigrateUsageCounterPeriodKey =
+  migrateUsageCounterPeriodKey as jest.MockedFunction<
+    typeof migrateUsageCounterPeriodKey
+  >;
+
+describe("Period Key Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("formatPeriodKey", () => {
+    test("uses the calendar date the period starts on in the app timezone", () => {
+      // 2025-02-01T03:00Z is the evening of Jan 31 in Los Angeles
+      expect(formatPeriodKey(new Date("2025-02-01T03:00:00Z"))).toBe(
+        "2025-01-31"
+      );
+      expect(formatPeriodKey(new Date("2025-02-01T08:00:00Z"))).toBe(
+        "2025-02-01"
+      );
+    });
+
+    test("honours an explicit timezone", () => {
+      expect(formatPeriodKey(new Date("2025-02-01T03:00:00Z"), "UTC")).toBe(
+        "2025-02-01"
+      );
+      expect(
+        formatPeriodKey(new Date("2025-01-31T20:00:00Z"), "Asia/Tokyo")
+      ).toBe("2025-02-01");
+    });
+
+    test("gives periods starting in the same month distinct keys", () => {
+      const trialStart = formatPeriodKey(new Date("2025-03-03T17:00:00Z"));
+      const paidStart = formatPeriodKey(new Date("2025-03-17T17:00:00Z"));
+
+      expect(trialStart).toBe("2025-03-03");
+      expect(paidStart).toBe("2025-03-17");
+    });
+
+    test("follows month-end anchors", () => {
+      expect(formatPeriodKey(new Date("2025-01-31T08:00:00Z"))).toBe(
+        "2025-01-31"
+      );
+      expect(formatPeriodKey(new Date("2025-02-28T08:00:00Z"))).toBe(
+        "2025-02-28"
+      );
+    });
+  });
+
+  describe("isLegacyPeriodKey", () => {
+    test("matches only calendar-month keys", () => {
+      expect(isLegacyPeriodKey("2025-01")).toBe(true);
+      expect(isLegacyPeriodKey("2025-01-15")).toBe(false);
+    });
+  });
+
+  describe("migrateLegacyPeriodKeys", () => {
+    const legacyCounter = {
+      ...mockUsageCounterRecord({ periodKey: "2025-01" }),
+      id: "counter_legacy",
+      periodStart: new Date("2025-01-15T08:00:00Z"),
+    };
+
+    test("moves legacy counters to the key of their billing period", async () => {
+      // Arrange
+      mockFindLegacyPeriodKeyUsageCounters.mockResolvedValue([legacyCounter]);
+      mockMigrateUsageCounterPeriodKey.mockResolvedValue(true);
+
+      // Act
+      const result = await migrateLegacyPeriodKeys({
+        dryRun: false,
+        limit: 100,
+      });
+
+      // Assert
+      expect(mockFindLegacyPeriodKeyUsageCounters).toHaveBeenCalledWith(100);
+      expect(mockMigrateUsageCounterPeriodKey).toHaveBeenCalledWith(
+        "counter_legacy",
+        "2025-01-15"
+      );
+      expect(result).toEqual({
+        dryRun: false,
+        scanned: 1,
+        migrated: 1,
+        conflicts: 0,
+        counters: [
+          {
+            usageCounterId: "counter_legacy",
+            clerkOrgId: "org_test456",
+            metric: "api_call",
+            from: "2025-01",
+            to: "2025-01-15",
+            status: "migrated",
+          },
+        ],
+      });
+    });
+
+    test("only reports planned moves on a dry run", async () => {
+      // Arrange
+      mockFindLegacyPeriodKeyUsageCounters.mockResolvedValue([legacyCounter]);
+
+      // Act
+      const result = await migrateLegacyPeriodKeys({
+        dryRun: true,
+        limit: 100,
+      });
+
+      // Assert
+      expect(mockMigrateUsageCounterPeriodKey).not.toHaveBeenCalled();
+      expect(result.migrated).toBe(0);
+      expect(result.counters[0]).toMatchObject({
+        to: "2025-01-15",
+        status: "pending",
+      });
+    });
+
+    test("reports a conflict when the new key is already in use", async () => {
+      // Arrange
+      mockFindLegacyPeriodKeyUsageCounters.mockResolvedValue([legacyCounter]);
+      mockMigrateUsageCounterPeriodKey.mockResolvedValue(false);
+
+      // Act
+      const result = await migrateLegacyPeriodKeys({
+        dryRun: false,
+        limit: 100,
+      });
+
+      // Assert
+      expect(result).toMatchObject({ scanned: 1, migrated: 0, conflicts: 1 });
+      expect(result.counters[0].status).toBe("conflict");
+    });
+
+    test("returns an empty summary when nothing is left to migrate", async () => {
+      // Arrange
+      mockFindLegacyPeriodKeyUsageCounters.mockResolvedValue([]);
+
+      // Act
+      const result = await migrateLegacyPeriodKeys({
+        dryRun: false,
+        limit: 100,
+      });
+
+      // Assert
+      expect(result).toEqual({
+        dryRun: false,
+        scanned: 0,
+        migrated: 0,
+        conflicts: 0,
+        counters: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Unit Tests: Period Rollover Service
+ *
+ * Tests creating new period counters and closing previous periods.
+ */
+
+import {
+  rolloverSubscriptionPeriod,
+  rolloverUsagePeriods,
+} from "@/lib/services/usage/period-rollover-service";
+import { findActiveSubscriptions } from "@/lib/db/repositories/subscription-repository";
+import {
+  findUsageCounter,
+  findPreviousUsageCounter,
+  upsertUsageCounter,
+  findOpenUsageCountersBefore,
+  closeUsageCounters,
+} from "@/lib/db/repositories/usage-repository";
+import { ApplicationError } from "@/lib/utils/errors";
+import {
+  mockSubscriptionRecord,
+  mockUsageCounterRecord,
+} from "../../helpers/mock-db";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/subscription-repository");
+jest.mock("@/lib/db/repositories/usage-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/usage-repository"),
+  findUsageCounter: jest.fn(),
+  findPreviousUsageCounter: jest.fn(),
+  upsertUsageCounter: jest.fn(),
+  findOpenUsageCountersBefore: jest.fn(),
+  closeUsageCounters: jest.fn(),
+}));
+
+const mockFindActiveSubscriptions =
+  findActiveSubscriptions as jest.MockedFunction<
+    typeof findActiveSubscriptions
+  >;
+const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
+  typeof findUsageCounter
+>;
+const mockFindPreviousUsageCounter =
+  findPreviousUsageCounter as jest.MockedFunction<
+    typeof findPreviousUsageCounter
+  >;
+const mockUpsertUsageCounter = upsertUsageCounter as jest.MockedFunction<
+  typeof upsertUsageCounter
+>;
+const mockFindOpenUsageCountersBefore =
+  findOpenUsageCountersBefore as jest.MockedFunction<
+    typeof findOpenUsageCountersBefore
+  >;
+const mockCloseUsageCounters = closeUsageCounters as jest.MockedFunction<
+  typeof closeUsageCounters
+>;
+
+describe("Period Rollover Service", () => {
+  // Renewed on Feb 15: the January counters are still open
+  const subscription = mockSubscriptionRecord({
+    currentPeriodStart: new Date("2025-02-15T08:00:00Z"),
+    currentPeriodEnd: new Date("2025-03-15T07:00:00Z"),
+  });
+  const previousCounter = {
+    ...mockUsageCounterRecord({ used: 42 }),
+    id: "counter_january",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindUsageCounter.mockResolvedValue(null);
+    mockFindPreviousUsageCounter.mockResolvedValue(previousCounter);
+    mockUpsertUsageCounter.mockImplementation(async (data) => ({
+      ...mockUsageCounterRecord(data),
+      id: `counter_${data.metric}`,
+    }));
+    mockFindOpenUsageCountersBefore.mockResolvedValue([previousCounter]);
+    mockCloseUsageCounters.mockResolvedValue(1);
+  });
+
+  describe("rolloverSubscriptionPeriod", () => {
+    test("creates every plan metric's counter for the new period", async () => {
+      // Act
+      const result = await rolloverSubscriptionPeriod(subscription, false);
+
+      // Assert
+      expect(result).toEqual({
+        periodKey: "2025-02-15",
+        created: 4,
+        closed: 1,
+      });
+      expect(mockUpsertUsageCounter).toHaveBeenCalledTimes(4);
+      expect(mockUpsertUsageCounter).toHaveBeenCalledWith({
+        organizationId: "org_internal_123",
+        clerkOrgId: "org_test456",
+        subscriptionId: "sub_123",
+        periodKey: "2025-02-15",
+        periodStart: subscription.currentPeriodStart,
+        periodEnd: subscription.currentPeriodEnd,
+        metric: "api_call",
+        included: 60,
+        rollover: { units: 0, lots: [] },
+      });
+    });
+
+    test("rolls unused quota over on plans that allow it", async () => {
+      // Arrange: growth carries over up to 25% of included (300)
+      const growth = mockSubscriptionRecord({
+        planCode: "growth",
+        currentPeriodStart: subscription.currentPeriodStart,
+        currentPeriodEnd: subscription.currentPeriodEnd,
+      });
+      mockFindPreviousUsageCounter.mockResolvedValue({
+        ...mockUsageCounterRecord({ included: 300, used: 240 }),
+        metric: "api_call",
+      });
+
+      // Act
+      await rolloverSubscriptionPeriod(growth, false);
+
+      // Assert
+      expect(mockFindPreviousUsageCounter).toHaveBeenCalledWith(
+        "org_test456",
+        "api_call",
+        growth.currentPeriodStart
+      );
+      expect(mockUpsertUsageCounter).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metric: "api_call",
+          included: 300,
+          rollover: {
+            units: 60,
+            lots: [{ periodKey: "2025-01-15", units: 60, periodsLeft: 0 }],
+          },
+        })
+      );
+    });
+
+    test("closes the previous period at the new period start", async () => {
+      // Act
+      await rolloverSubscriptionPeriod(subscription, false);
+
+      // Assert
+      expect(mockFindOpenUsageCountersBefore).toHaveBeenCalledWith(
+        "org_test456",
+        "2025-02-15",
+        subscription.currentPeriodStart
+      );
+      expect(mockCloseUsageCounters).toHaveBeenCalledWith(
+        ["counter_january"],
+        subscription.currentPeriodStart
+      );
+    });
+
+    test("leaves existing counters untouched", async () => {
+      // Arrange
+      mockFindUsageCounter.mockResolvedValue(
+        mockUsageCounterRecord({ periodKey: "2025-02-15", used: 7 })
+      );
+      mockFindOpenUsageCountersBefore.mockResolvedValue([]);
+
+      // Act
+      const result = await rolloverSubscriptionPeriod(subscription, false);
+
+      // Assert
+      expect(result).toEqual({
+        periodKey: "2025-02-15",
+        created: 0,
+        closed: 0,
+      });
+      expect(mockUpsertUsageCounter).not.toHaveBeenCalled();
+      expect(mockCloseUsageCounters).not.toHaveBeenCalled();
+    });
+
+    test("counts changes without writing them on a dry run", async () => {
+      // Act
+      const result = await rolloverSubscriptionPeriod(subscription, true);
+
+      // Assert
+      expect(result).toEqual({
+        periodKey: "2025-02-15",
+        created: 4,
+        closed: 1,
+      });
+      expect(mockUpsertUsageCounter).not.toHaveBeenCalled();
+      expect(mockCloseUsageCounters).not.toHaveBeenCalled();
+    });
+
+    test("throws INVALID_PLAN_CODE for an unknown plan", async () => {
+      // Act & Assert
+      await expect(
+        rolloverSubscriptionPeriod(
+          mockSubscriptionRecord({ planCode: "legacy_plan" }),
+          false
+        )
+      ).rejects.toMatchObject({ code: "INVALID_PLAN_CODE" });
+      expect(mockUpsertUsageCounter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("rolloverUsagePeriods", () => {
+    test("rolls over every active subscription and summarizes the run", async () => {
+      // Arrange
+      const current = mockSubscriptionRecord({
+        id: "sub_current",
+        clerkOrgId: "org_current",
+      });
+      mockFindActiveSubscriptions.mockResolvedValue([subscription, current]);
+      mockFindUsageCounter.mockImplementation(async (clerkOrgId) =>
+        clerkOrgId === "org_current" ? mockUsageCounterRecord() : null
+      );
+      mockFindOpenUsageCountersBefore.mockImplementation(async (clerkOrgId) =>
+        clerkOrgId === "org_current" ? [] : [previousCounter]
+      );
+
+      // Act
+      const result = await rolloverUsagePeriods({ dryRun: false });
+
+      // Assert
+      expect(mockFindActiveSubscriptions).toHaveBeenCalledWith({
+        clerkOrgId: undefined,
+      });
+      expect(result).toEqual({
+        dryRun: false,
+        periodKey: null,
+        checked: 2,
+        updated: 1,
+        created: 4,
+        closed: 1,
+        failed: 0,
+      });
+    });
+
+    test("only rolls subscriptions in the requested period", async () => {
+      // Arrange
+      mockFindActiveSubscriptions.mockResolvedValue([
+        subscription,
+        mockSubscriptionRecord({ id: "sub_other", clerkOrgId: "org_other" }),
+      ]);
+
+      // Act
+      const result = await rolloverUsagePeriods({
+        periodKey: "2025-02-15",
+        clerkOrgId: "org_test456",
+        dryRun: true,
+      });
+
+      // Assert
+      expect(mockFindActiveSubscriptions).toHaveBeenCalledWith({
+        clerkOrgId: "org_test456",
+      });
+      expect(result).toMatchObject({
+        dryRun: true,
+        periodKey: "2025-02-15",
+        checked: 1,
+        updated: 1,
+      });
+    });
+
+    test("counts a failing subscription and continues", async () => {
+      // Arrange
+      mockFindActiveSubscriptions.mockResolvedValue([
+        mockSubscriptionRecord({ id: "sub_broken", planCode: "legacy_plan" }),
+        subscription,
+      ]);
+
+      // Act
+      const result = await rolloverUsagePeriods({ dryRun: false });
+
+      // Assert
+      expect(result).toMatchObject({ checked: 2, updated: 1, failed: 1 });
+    });
+
+    test("propagates repository errors from the subscription lookup", async () => {
+      // Arrange
+      mockFindActiveSubscriptions.mockRejectedValue(
+        new ApplicationError("db down", "DB_ERROR", 500)
+      );
+
+      // Act & Assert
+      await expect(rolloverUsagePeriods({ dryRun: false })).rejects.toThrow(
+        "db down"
+      );
+    });
+  });
+});
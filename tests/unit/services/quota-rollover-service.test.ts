@@ -0,0 +1,240 @@
+/**
+ * Unit Tests: Quota Rollover Service
+ *
+ * Tests carrying unused quota into the next period under each rollover policy
+ */
+
+import {
+  computeQuotaRollover,
+  resolveQuotaRollover,
+} from "@/lib/services/quota/quota-rollover-service";
+import {
+  findPreviousUsageCounter,
+  UsageCounterRecord,
+} from "@/lib/db/repositories/usage-repository";
+import { mockUsageCounterRecord } from "../../helpers/mock-db";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/usage-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/usage-repository"),
+  findPreviousUsageCounter: jest.fn(),
+}));
+
+const mockFindPreviousUsageCounter =
+  findPreviousUsageCounter as jest.MockedFunction<
+    typeof findPreviousUsageCounter
+  >;
+
+function previousCounter(
+  overrides?: Partial<UsageCounterRecord>
+): UsageCounterRecord {
+  return {
+    ...mockUsageCounterRecord({ periodKey: "2025-01-15", included: 300 }),
+    ...overrides,
+  };
+}
+
+describe("Quota Rollover Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("computeQuotaRollover", () => {
+    test("rolls nothing over under a none policy", () => {
+      // Act
+      const result = computeQuotaRollover(
+        { mode: "none" },
+        previousCounter({ used: 100 }),
+        300
+      );
+
+      // Assert
+      expect(result).toEqual({ units: 0, lots: [] });
+    });
+
+    test("rolls all unused quota over under a full policy", () => {
+      // Act
+      const result = computeQuotaRollover(
+        { mode: "full", expiresAfterPeriods: 3 },
+        previousCounter({ used: 100 }),
+        300
+      );
+
+      // Assert
+      expect(result).toEqual({
+        units: 200,
+        lots: [{ periodKey: "2025-01-15", units: 200, periodsLeft: 2 }],
+      });
+    });
+
+    test("caps the rollover in units", () => {
+      // Act
+      const result = computeQuotaRollover(
+        { mode: "units", limit: 50 },
+        previousCounter({ used: 100 }),
+        300
+      );
+
+      // Assert
+      expect(result.units).toBe(50);
+    });
+
+    test("caps the rollover as a percentage of the next period's quota", () => {
+      // Act
+      const result = computeQuotaRollover(
+        { mode: "percent", limit: 25 },
+        previousCounter({ used: 100 }),
+        300
+      );
+
+      // Assert
+      expect(result.units).toBe(75);
+    });
+
+    test("uses rolled-over units first and expires them on schedule", () => {
+      // Arrange: 80 units carried in (50 expiring now, 30 with a period
+      // left) and 100 used, so 20 of the period's own quota were used
+      const previous = previousCounter({
+        periodKey: "2025-03-15",
+        used: 100,
+        rolledOver: 80,
+        rolloverLots: [
+          { periodKey: "2025-01-15", units: 50, periodsLeft: 0 },
+          { periodKey: "2025-02-15", units: 30, periodsLeft: 1 },
+        ],
+      });
+
+      // Act
+      const result = computeQuotaRollover(
+        { mode: "full", expiresAfterPeriods: 2 },
+        previous,
+        300
+      );
+
+      // Assert
+      expect(result).toEqual({
+        units: 280,
+        lots: [{ periodKey: "2025-03-15", units: 280, periodsLeft: 1 }],
+      });
+    });
+
+    test("keeps unused rolled-over units until they expire", () => {
+      // Arrange
+      const previous = previousCounter({
+        periodKey: "2025-02-15",
+        used: 10,
+        rolledOver: 30,
+        rolloverLots: [{ periodKey: "2025-01-15", units: 30, periodsLeft: 1 }],
+      });
+
+      // Act
+      const result = computeQuotaRollover(
+        { mode: "full", expiresAfterPeriods: 2 },
+        previous,
+        300
+      );
+
+      // Assert
+      expect(result).toEqual({
+        units: 320,
+        lots: [
+          { periodKey: "2025-01-15", units: 20, periodsLeft: 0 },
+          { periodKey: "2025-02-15", units: 300, periodsLeft: 1 },
+        ],
+      });
+    });
+
+    test("cuts the oldest lots first when capped", () => {
+      // Arrange
+      const previous = previousCounter({
+        periodKey: "2025-02-15",
+        used: 0,
+        included: 60,
+        rolledOver: 30,
+        rolloverLots: [{ periodKey: "2025-01-15", units: 30, periodsLeft: 1 }],
+      });
+
+      // Act
+      const result = computeQuotaRollover(
+        { mode: "units", limit: 70, expiresAfterPeriods: 2 },
+        previous,
+        60
+      );
+
+      // Assert
+      expect(result).toEqual({
+        units: 70,
+        lots: [
+          { periodKey: "2025-01-15", units: 10, periodsLeft: 0 },
+          { periodKey: "2025-02-15", units: 60, periodsLeft: 1 },
+        ],
+      });
+    });
+
+    test("never rolls over prepaid credits", () => {
+      // Act: 300 plan quota plus 50 credits drawn, all of it used
+      const result = computeQuotaRollover(
+        { mode: "full" },
+        previousCounter({ included: 350, credited: 50, used: 350 }),
+        300
+      );
+
+      // Assert
+      expect(result).toEqual({ units: 0, lots: [] });
+    });
+  });
+
+  describe("resolveQuotaRollover", () => {
+    const request = {
+      clerkOrgId: "org_test456",
+      planCode: "growth",
+      metric: "api_call",
+      periodStart: new Date("2025-02-15T08:00:00Z"),
+      included: 300,
+    };
+
+    test("applies the plan's policy to the previous period's counter", async () => {
+      // Arrange
+      mockFindPreviousUsageCounter.mockResolvedValue(
+        previousCounter({ used: 280 })
+      );
+
+      // Act
+      const result = await resolveQuotaRollover(request);
+
+      // Assert
+      expect(result).toEqual({
+        units: 20,
+        lots: [{ periodKey: "2025-01-15", units: 20, periodsLeft: 0 }],
+      });
+      expect(mockFindPreviousUsageCounter).toHaveBeenCalledWith(
+        "org_test456",
+        "api_call",
+        request.periodStart
+      );
+    });
+
+    test("rolls nothing over without a previous period", async () => {
+      // Arrange
+      mockFindPreviousUsageCounter.mockResolvedValue(null);
+
+      // Act
+      const result = await resolveQuotaRollover(request);
+
+      // Assert
+      expect(result).toEqual({ units: 0, lots: [] });
+    });
+
+    test("skips the lookup for plans without rollover", async () => {
+      // Act
+      const result = await resolveQuotaRollover({
+        ...request,
+        planCode: "starter",
+      });
+
+      // Assert
+      expect(result).toEqual({ units: 0, lots: [] });
+      expect(mockFindPreviousUsageCounter).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,19 +1,22 @@
 /**
  * Unit Tests: Quota Service
- * 
+ *
  * Tests the quota service layer business logic.
  */
 
-import { checkQuota } from "@/lib/services/quota/quota-service";
+import { checkQuota, getUpgradeHint } from "@/lib/services/quota/quota-service";
 import {
   findOrganizationByClerkOrgId,
+  findOrganizationById,
 } from "@/lib/db/repositories/org-repository";
+import { findPoolMemberUsage } from "@/lib/db/repositories/pool-repository";
 import {
-  findActiveSubscriptionByOrganizationId,
-} from "@/lib/db/repositories/subscription-repository";
-import {
-  findUsageCounter,
-} from "@/lib/db/repositories/usage-repository";
+  findMemberUsageCaps,
+  findMemberUsage,
+} from "@/lib/db/repositories/member-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
+import { findUsageCounter } from "@/lib/db/repositories/usage-repository";
+import { db } from "@/lib/db";
 import {
   QuotaOrgNotFoundError,
   QuotaNoActiveSubscriptionError,
@@ -23,14 +26,17 @@ import {
 // Mock repositories
 jest.mock("@/lib/db/repositories/org-repository");
 jest.mock("@/lib/db/repositories/subscription-repository");
+jest.mock("@/lib/db/repositories/pool-repository");
+jest.mock("@/lib/db/repositories/member-repository");
 jest.mock("@/lib/db/repositories/usage-repository", () => ({
   ...jest.requireActual("@/lib/db/repositories/usage-repository"),
   findUsageCounter: jest.fn(),
 }));
 
-const mockFindOrganizationByClerkOrgId = findOrganizationByClerkOrgId as jest.MockedFunction<
-  typeof findOrganizationByClerkOrgId
->;
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
 const mockFindActiveSubscriptionByOrganizationId =
   findActiveSubscriptionByOrganizationId as jest.MockedFunction<
     typeof findActiveSubscriptionByOrganizationId
@@ -38,10 +44,24 @@ const mockFindActiveSubscriptionByOrganizationId =
 const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
   typeof findUsageCounter
 >;
+const mockFindOrganizationById = findOrganizationById as jest.MockedFunction<
+  typeof findOrganizationById
+>;
+const mockFindPoolMemberUsage = findPoolMemberUsage as jest.MockedFunction<
+  typeof findPoolMemberUsage
+>;
+
+const mockFindMemberUsageCaps = findMemberUsageCaps as jest.MockedFunction<
+  typeof findMemberUsageCaps
+>;
+const mockFindMemberUsage = findMemberUsage as jest.MockedFunction<
+  typeof findMemberUsage
+>;
 
 describe("Quota Service", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockFindMemberUsageCaps.mockResolvedValue([]);
   });
 
   describe("checkQuota", () => {
@@ -66,8 +86,8 @@ describe("Quota Service", () => {
       planCode: "starter",
       stripePriceId: "price_test",
       status: "active",
-      currentPeriodStart: new Date(2025, 0, 15), // January 15, 2025
-      currentPeriodEnd: new Date(2025, 1, 15), // February 15, 2025
+      currentPeriodStart: new Date("2025-01-15T08:00:00Z"), // January 15, 2025 (midnight in Los Angeles)
+      currentPeriodEnd: new Date("2025-02-15T08:00:00Z"), // February 15, 2025 (midnight in Los Angeles)
       trialEndsAt: null,
       organizationId: orgId,
       createdAt: new Date(),
@@ -77,9 +97,9 @@ describe("Quota Service", () => {
     const mockUsageCounter = {
       id: "counter_123",
       clerkOrgId,
-      periodKey: "2025-01",
-      periodStart: new Date(2025, 0, 1),
-      periodEnd: new Date(2025, 1, 1),
+      periodKey: "2025-01-15",
+      periodStart: new Date("2025-01-15T08:00:00Z"),
+      periodEnd: new Date("2025-02-15T08:00:00Z"),
       metric: "api_call",
       included: 60,
       used: 15,
@@ -103,7 +123,19 @@ describe("Quota Service", () => {
       // Assert
       expect(result).toEqual({
         allow: true,
+        limit: 60,
+        used: 15,
         remaining: 45, // 60 - 15
+        resetAt: "2025-02-15T08:00:00.000Z",
+        status: "within_quota",
+        mode: "hard",
+        overageAllowance: 0,
+        overageRemaining: 0,
+        rolledOver: 0,
+        credits: null,
+        upgrade: { planCode: "growth", limit: 300 },
+        pool: null,
+        member: null,
       });
 
       expect(mockFindOrganizationByClerkOrgId).toHaveBeenCalledWith(clerkOrgId);
@@ -112,7 +144,7 @@ describe("Quota Service", () => {
       );
       expect(mockFindUsageCounter).toHaveBeenCalledWith(
         clerkOrgId,
-        "2025-01",
+        "2025-01-15",
         "api_call"
       );
     });
@@ -134,7 +166,19 @@ describe("Quota Service", () => {
       // Assert
       expect(result).toEqual({
         allow: false,
+        limit: 60,
+        used: 60,
         remaining: 0, // Return 0 when denied
+        resetAt: "2025-02-15T08:00:00.000Z",
+        status: "blocked",
+        mode: "hard",
+        overageAllowance: 0,
+        overageRemaining: 0,
+        rolledOver: 0,
+        credits: 0,
+        upgrade: { planCode: "growth", limit: 300 },
+        pool: null,
+        member: null,
       });
     });
 
@@ -155,7 +199,19 @@ describe("Quota Service", () => {
       // Assert
       expect(result).toEqual({
         allow: false,
+        limit: 60,
+        used: 100,
         remaining: 0,
+        resetAt: "2025-02-15T08:00:00.000Z",
+        status: "blocked",
+        mode: "hard",
+        overageAllowance: 0,
+        overageRemaining: 0,
+        rolledOver: 0,
+        credits: 0,
+        upgrade: { planCode: "growth", limit: 300 },
+        pool: null,
+        member: null,
       });
     });
 
@@ -217,7 +273,7 @@ describe("Quota Service", () => {
       // Assert
       expect(mockFindUsageCounter).toHaveBeenCalledWith(
         clerkOrgId,
-        "2025-01",
+        "2025-01-15",
         "api_call" // Default metric
       );
     });
@@ -239,9 +295,422 @@ describe("Quota Service", () => {
       // Assert
       expect(result).toEqual({
         allow: true,
+        limit: 60,
+        used: 59,
         remaining: 1,
+        resetAt: "2025-02-15T08:00:00.000Z",
+        status: "within_quota",
+        mode: "hard",
+        overageAllowance: 0,
+        overageRemaining: 0,
+        rolledOver: 0,
+        credits: null,
+        upgrade: { planCode: "growth", limit: 300 },
+        pool: null,
+        member: null,
+      });
+    });
+
+    test("returns in_overage within the soft cap burst allowance", async () => {
+      // Arrange - growth: 300 included, 20% burst = 60
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "growth",
+      });
+      mockFindUsageCounter.mockResolvedValue({
+        ...mockUsageCounter,
+        included: 300,
+        used: 320,
+      });
+
+      // Act
+      const result = await checkQuota(clerkOrgId, "api_call");
+
+      // Assert
+      expect(result).toEqual({
+        allow: true,
+        limit: 300,
+        used: 320,
+        remaining: 0,
+        resetAt: "2025-02-15T08:00:00.000Z",
+        status: "in_overage",
+        mode: "soft",
+        overageAllowance: 60,
+        overageRemaining: 40,
+        rolledOver: 0,
+        credits: 0,
+        upgrade: { planCode: "pro", limit: 1500 },
+        pool: null,
+        member: null,
+      });
+    });
+
+    test("returns blocked once the soft cap burst allowance is used up", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "growth",
+      });
+      mockFindUsageCounter.mockResolvedValue({
+        ...mockUsageCounter,
+        included: 300,
+        used: 360,
+      });
+
+      // Act
+      const result = await checkQuota(clerkOrgId, "api_call");
+
+      // Assert
+      expect(result).toMatchObject({
+        allow: false,
+        status: "blocked",
+        mode: "soft",
+        overageRemaining: 0,
+      });
+    });
+
+    test("counts quota rolled over from the previous period", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue({
+        ...mockUsageCounter,
+        used: 70,
+        rolledOver: 20,
+      });
+
+      // Act
+      const result = await checkQuota(clerkOrgId, "api_call");
+
+      // Assert
+      expect(result).toMatchObject({
+        allow: true,
+        limit: 80,
+        used: 70,
+        remaining: 10,
+        status: "within_quota",
+        rolledOver: 20,
+        credits: null,
+      });
+    });
+
+    test("counts prepaid credits once included is used up", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue({
+        ...mockUsageCounter,
+        used: 60,
+      });
+      (db.creditGrant.aggregate as jest.Mock).mockResolvedValueOnce({
+        _sum: { remaining: 40 },
+      });
+
+      // Act
+      const result = await checkQuota(clerkOrgId, "api_call");
+
+      // Assert
+      expect(result).toMatchObject({
+        allow: true,
+        limit: 100,
+        used: 60,
+        remaining: 40,
+        status: "within_quota",
+        rolledOver: 0,
+        credits: 40,
+      });
+      expect(db.creditGrant.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ clerkOrgId, metric: "api_call" }),
+        })
+      );
+    });
+
+    test("never blocks unlimited plans", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "pro",
+      });
+      mockFindUsageCounter.mockResolvedValue({
+        ...mockUsageCounter,
+        included: 1500,
+        used: 10000,
+      });
+
+      // Act
+      const result = await checkQuota(clerkOrgId, "api_call");
+
+      // Assert
+      expect(result).toEqual({
+        allow: true,
+        limit: 1500,
+        used: 10000,
+        remaining: 0,
+        resetAt: "2025-02-15T08:00:00.000Z",
+        status: "in_overage",
+        mode: "unlimited",
+        overageAllowance: null,
+        overageRemaining: null,
+        rolledOver: 0,
+        credits: 0,
+        upgrade: null,
+        pool: null,
+        member: null,
       });
     });
+
+    test("enforces a hard cap on unlimited plans during a usage anomaly", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "pro",
+      });
+      mockFindUsageCounter.mockResolvedValue({
+        ...mockUsageCounter,
+        included: 1500,
+        used: 10000,
+      });
+      (db.usageAnomaly.findMany as jest.Mock).mockResolvedValueOnce([
+        {
+          id: "anomaly_123",
+          clerkOrgId,
+          metric: "api_call",
+          capUntil: new Date(Date.now() + 60 * 60 * 1000),
+        },
+      ]);
+
+      // Act
+      const result = await checkQuota(clerkOrgId, "api_call");
+
+      // Assert
+      expect(result).toMatchObject({
+        allow: false,
+        status: "blocked",
+        mode: "hard",
+        overageAllowance: 0,
+      });
+    });
+
+    test("checks a pool member against its parent's pool and its own cap", async () => {
+      // Arrange: the pool has 45 left, the member 5 under its cap
+      mockFindOrganizationByClerkOrgId.mockResolvedValue({
+        ...mockOrganization,
+        id: "org_internal_member",
+        clerkOrgId: "org_team_a",
+        parentOrganizationId: orgId,
+        poolCaps: { api_call: 10 },
+      });
+      mockFindOrganizationById.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockFindPoolMemberUsage.mockResolvedValue([
+        {
+          id: "pool_usage_123",
+          usageCounterId: "counter_123",
+          clerkOrgId: "org_team_a",
+          periodKey: "2025-01-15",
+          metric: "api_call",
+          used: 5,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      // Act
+      const result = await checkQuota("org_team_a", "api_call");
+
+      // Assert
+      expect(result).toMatchObject({
+        allow: true,
+        limit: 60,
+        used: 15,
+        remaining: 5,
+        pool: {
+          parentOrgId: clerkOrgId,
+          cap: 10,
+          used: 5,
+          remaining: 5,
+        },
+      });
+      expect(mockFindActiveSubscriptionByOrganizationId).toHaveBeenCalledWith(
+        orgId
+      );
+      expect(mockFindUsageCounter).toHaveBeenCalledWith(
+        clerkOrgId,
+        "2025-01-15",
+        "api_call"
+      );
+      expect(mockFindPoolMemberUsage).toHaveBeenCalledWith(
+        "org_team_a",
+        "2025-01-15"
+      );
+    });
+
+    test("blocks a pool member at its cap while the pool has quota left", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue({
+        ...mockOrganization,
+        clerkOrgId: "org_team_a",
+        parentOrganizationId: orgId,
+        poolCaps: { api_call: 10 },
+      });
+      mockFindOrganizationById.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockFindPoolMemberUsage.mockResolvedValue([
+        {
+          id: "pool_usage_123",
+          usageCounterId: "counter_123",
+          clerkOrgId: "org_team_a",
+          periodKey: "2025-01-15",
+          metric: "api_call",
+          used: 10,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      // Act
+      const result = await checkQuota("org_team_a", "api_call");
+
+      // Assert
+      expect(result).toMatchObject({
+        allow: false,
+        status: "blocked",
+        remaining: 0,
+        pool: { cap: 10, used: 10, remaining: 0 },
+      });
+    });
+
+    test("limits a capped member to what is left under their cap", async () => {
+      // Arrange: the organization has 45 left, the member 8 under their cap
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockFindMemberUsageCaps.mockResolvedValue([
+        {
+          id: "member_cap_123",
+          clerkOrgId,
+          userId: "user_runaway",
+          metric: "api_call",
+          cap: 10,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+      mockFindMemberUsage.mockResolvedValue([
+        {
+          id: "member_usage_123",
+          usageCounterId: "counter_123",
+          clerkOrgId,
+          userId: "user_runaway",
+          periodKey: "2025-01-15",
+          metric: "api_call",
+          used: 2,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      // Act
+      const result = await checkQuota(clerkOrgId, "api_call", "user_runaway");
+
+      // Assert
+      expect(result).toMatchObject({
+        allow: true,
+        used: 15,
+        remaining: 8,
+        member: { userId: "user_runaway", cap: 10, used: 2, remaining: 8 },
+      });
+      expect(mockFindMemberUsage).toHaveBeenCalledWith(
+        clerkOrgId,
+        "2025-01-15",
+        "user_runaway"
+      );
+    });
+
+    test("blocks a member at their cap while the organization has quota left", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockFindMemberUsageCaps.mockResolvedValue([
+        {
+          id: "member_cap_123",
+          clerkOrgId,
+          userId: "user_runaway",
+          metric: "api_call",
+          cap: 10,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+      mockFindMemberUsage.mockResolvedValue([
+        {
+          id: "member_usage_123",
+          usageCounterId: "counter_123",
+          clerkOrgId,
+          userId: "user_runaway",
+          periodKey: "2025-01-15",
+          metric: "api_call",
+          used: 10,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      // Act
+      const result = await checkQuota(clerkOrgId, "api_call", "user_runaway");
+      const uncapped = await checkQuota(clerkOrgId, "api_call", "user_other");
+
+      // Assert
+      expect(result).toMatchObject({
+        allow: false,
+        status: "blocked",
+        remaining: 0,
+        member: { cap: 10, used: 10, remaining: 0 },
+      });
+      expect(uncapped).toMatchObject({ allow: true, member: null });
+    });
   });
-});
 
+  describe("getUpgradeHint", () => {
+    test("suggests the next paid plan with more of the metric", () => {
+      expect(getUpgradeHint("trial", "api_call")).toEqual({
+        planCode: "starter",
+        limit: 60,
+      });
+      expect(getUpgradeHint("growth", "token")).toMatchObject({
+        planCode: "pro",
+      });
+    });
+
+    test("returns null on the largest plan", () => {
+      expect(getUpgradeHint("pro", "api_call")).toBeNull();
+    });
+
+    test("treats unknown plans as having no quota", () => {
+      expect(getUpgradeHint("legacy", "api_call")).toEqual({
+        planCode: "starter",
+        limit: 60,
+      });
+    });
+  });
+});
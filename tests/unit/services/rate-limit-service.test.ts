@@ -0,0 +1,389 @@
+/**
+ * Unit Tests: Rate Limit Service
+ *
+ * Tests token bucket rate limiting per plan
+ */
+
+import RedisMock from "ioredis-mock";
+import {
+  getRateLimitPolicy,
+  refillTokenBucket,
+  pruneIdleRateLimitBuckets,
+  takeRateLimitToken,
+  takeSharedRateLimitToken,
+  checkRateLimit,
+} from "@/lib/services/quota/rate-limit-service";
+import {
+  findOrganizationByClerkOrgId,
+  findOrganizationById,
+} from "@/lib/db/repositories/org-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
+import {
+  QuotaOrgNotFoundError,
+  QuotaNoActiveSubscriptionError,
+  RateLimitExceededError,
+} from "@/lib/errors/quota-errors";
+import {
+  mockOrganizationRecord,
+  mockSubscriptionRecord,
+} from "../../helpers/mock-db";
+
+// In-memory Redis stand-in; null keeps buckets in process memory
+let mockRedisClient: InstanceType<typeof RedisMock> | null = null;
+
+jest.mock("@/lib/redis", () => ({
+  get redis() {
+    return mockRedisClient;
+  },
+}));
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/subscription-repository");
+
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockFindOrganizationById = findOrganizationById as jest.MockedFunction<
+  typeof findOrganizationById
+>;
+const mockFindActiveSubscriptionByOrganizationId =
+  findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+    typeof findActiveSubscriptionByOrganizationId
+  >;
+
+describe("Rate Limit Service", () => {
+  const policy = { requestsPerSecond: 2, requestsPerMinute: 5 };
+  const start = Date.UTC(2025, 0, 15, 10, 0, 0);
+
+  // Buckets live in module state, so each test uses its own key
+  let keySequence = 0;
+  const nextKey = () => `org_rate_${++keySequence}`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("getRateLimitPolicy", () => {
+    test("returns the plan's limits from PLANS_CONFIG", () => {
+      expect(getRateLimitPolicy("growth")).toEqual({
+        requestsPerSecond: 20,
+        requestsPerMinute: 600,
+      });
+    });
+
+    test("falls back to trial limits for unknown plans", () => {
+      expect(getRateLimitPolicy("invalid")).toEqual(
+        getRateLimitPolicy("trial")
+      );
+    });
+  });
+
+  describe("refillTokenBucket", () => {
+    test("starts a missing bucket full", () => {
+      expect(refillTokenBucket(undefined, 10, 60, start)).toEqual({
+        tokens: 10,
+        updatedAt: start,
+      });
+    });
+
+    test("adds tokens in proportion to elapsed time, capped at the limit", () => {
+      const bucket = { tokens: 0, updatedAt: start };
+
+      expect(refillTokenBucket(bucket, 60, 60, start + 15_000).tokens).toBe(15);
+      expect(refillTokenBucket(bucket, 60, 60, start + 120_000).tokens).toBe(
+        60
+      );
+    });
+  });
+
+  describe("takeRateLimitToken", () => {
+    test("allows requests up to the per-second limit, then denies", () => {
+      const key = nextKey();
+
+      const first = takeRateLimitToken(key, policy, start);
+      const second = takeRateLimitToken(key, policy, start);
+      const third = takeRateLimitToken(key, policy, start);
+
+      expect(first).toMatchObject({ allow: true, remaining: 1 });
+      expect(second).toMatchObject({
+        allow: true,
+        window: "second",
+        remaining: 0,
+      });
+      expect(third).toEqual({
+        allow: false,
+        window: "second",
+        limit: 2,
+        remaining: 0,
+        retryAfterSeconds: 1,
+      });
+    });
+
+    test("refills the per-second bucket as time passes", () => {
+      const key = nextKey();
+      takeRateLimitToken(key, policy, start);
+      takeRateLimitToken(key, policy, start);
+
+      expect(takeRateLimitToken(key, policy, start + 500).allow).toBe(true);
+    });
+
+    test("denies on the per-minute limit with a Retry-After for that window", () => {
+      const key = nextKey();
+      const burstPolicy = { requestsPerSecond: 10, requestsPerMinute: 5 };
+      for (let i = 0; i < 5; i++) {
+        expect(takeRateLimitToken(key, burstPolicy, start).allow).toBe(true);
+      }
+
+      const denied = takeRateLimitToken(key, burstPolicy, start + 6000);
+
+      // 5 per minute refills one token every 12s; half a token has accrued
+      expect(denied).toEqual({
+        allow: false,
+        window: "minute",
+        limit: 5,
+        remaining: 0,
+        retryAfterSeconds: 6,
+      });
+    });
+
+    test("does not take tokens for denied requests", () => {
+      const key = nextKey();
+      const tightPolicy = { requestsPerSecond: 2, requestsPerMinute: 3 };
+      takeRateLimitToken(key, tightPolicy, start);
+      takeRateLimitToken(key, tightPolicy, start);
+      // Denied by the second bucket; must not drain the minute bucket
+      takeRateLimitToken(key, tightPolicy, start);
+      takeRateLimitToken(key, tightPolicy, start);
+
+      const next = takeRateLimitToken(key, tightPolicy, start + 1000);
+
+      expect(next).toMatchObject({
+        allow: true,
+        window: "minute",
+        remaining: 0,
+      });
+    });
+
+    test("keeps separate buckets per key", () => {
+      const key = nextKey();
+      takeRateLimitToken(key, policy, start);
+      takeRateLimitToken(key, policy, start);
+
+      expect(takeRateLimitToken(nextKey(), policy, start).allow).toBe(true);
+    });
+  });
+
+  describe("pruneIdleRateLimitBuckets", () => {
+    test("drops buckets idle for the longest window", () => {
+      // Far past every other test's buckets
+      const later = start + 365 * 24 * 60 * 60 * 1000;
+      takeRateLimitToken(nextKey(), policy, later);
+      pruneIdleRateLimitBuckets(later + 60_000);
+      const key = nextKey();
+      takeRateLimitToken(key, policy, later + 60_000);
+
+      expect(pruneIdleRateLimitBuckets(later + 119_999)).toBe(0);
+      expect(pruneIdleRateLimitBuckets(later + 120_000)).toBe(2);
+      // A pruned bucket starts full again
+      expect(takeRateLimitToken(key, policy, later + 120_000)).toMatchObject({
+        allow: true,
+        remaining: 1,
+      });
+    });
+  });
+
+  describe("takeSharedRateLimitToken", () => {
+    beforeEach(async () => {
+      mockRedisClient = new RedisMock();
+      await mockRedisClient.flushall();
+    });
+
+    afterEach(() => {
+      mockRedisClient?.disconnect();
+      mockRedisClient = null;
+    });
+
+    test("applies the same limits as the in-memory buckets", async () => {
+      const key = nextKey();
+
+      const first = await takeSharedRateLimitToken(key, policy, start);
+      await takeSharedRateLimitToken(key, policy, start);
+      const third = await takeSharedRateLimitToken(key, policy, start);
+      const refilled = await takeSharedRateLimitToken(key, policy, start + 500);
+
+      expect(first).toMatchObject({ allow: true, remaining: 1 });
+      expect(third).toEqual({
+        allow: false,
+        window: "second",
+        limit: 2,
+        remaining: 0,
+        retryAfterSeconds: 1,
+      });
+      expect(refilled.allow).toBe(true);
+    });
+
+    test("does not take tokens for denied requests", async () => {
+      const key = nextKey();
+      const burstPolicy = { requestsPerSecond: 10, requestsPerMinute: 5 };
+      for (let i = 0; i < 5; i++) {
+        await takeSharedRateLimitToken(key, burstPolicy, start);
+      }
+      await takeSharedRateLimitToken(key, burstPolicy, start);
+
+      const denied = await takeSharedRateLimitToken(
+        key,
+        burstPolicy,
+        start + 6000
+      );
+
+      expect(denied).toEqual({
+        allow: false,
+        window: "minute",
+        limit: 5,
+        remaining: 0,
+        retryAfterSeconds: 6,
+      });
+    });
+
+    test("keeps buckets in Redis until they would have refilled", async () => {
+      const key = nextKey();
+
+      await takeSharedRateLimitToken(key, policy, start);
+
+      expect(
+        await mockRedisClient?.hget(`ratelimit:${key}:minute`, "tokens")
+      ).toBe("4.000000");
+      const ttl = (await mockRedisClient?.pttl(`ratelimit:${key}:minute`)) ?? 0;
+      expect(ttl).toBeGreaterThan(59_000);
+      expect(ttl).toBeLessThanOrEqual(60_000);
+    });
+  });
+
+  describe("checkRateLimit", () => {
+    test("counts the request against the subscription plan's limits", async () => {
+      // Arrange
+      const clerkOrgId = nextKey();
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ clerkOrgId })
+      );
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({ clerkOrgId, planCode: "starter" })
+      );
+
+      // Act
+      const result = await checkRateLimit(clerkOrgId);
+
+      // Assert
+      expect(result).toEqual({
+        allow: true,
+        window: "second",
+        limit: 5,
+        remaining: 4,
+        retryAfterSeconds: 0,
+      });
+    });
+
+    test("limits a pool member by its parent's subscription plan", async () => {
+      // Arrange
+      const clerkOrgId = nextKey();
+      const parent = mockOrganizationRecord({
+        id: "org_internal_parent",
+        clerkOrgId: "org_parent",
+      });
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({
+          id: "org_internal_member",
+          clerkOrgId,
+          parentOrganizationId: parent.id,
+        })
+      );
+      mockFindOrganizationById.mockResolvedValue(parent);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({
+          clerkOrgId: "org_parent",
+          planCode: "starter",
+        })
+      );
+
+      // Act
+      const result = await checkRateLimit(clerkOrgId);
+
+      // Assert
+      expect(result).toMatchObject({ allow: true, limit: 5, remaining: 4 });
+      expect(mockFindActiveSubscriptionByOrganizationId).toHaveBeenCalledWith(
+        "org_internal_parent"
+      );
+    });
+
+    test("throws RateLimitExceededError with retry guidance when exhausted", async () => {
+      // Arrange
+      const clerkOrgId = nextKey();
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ clerkOrgId })
+      );
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({ clerkOrgId, planCode: "trial" })
+      );
+      await checkRateLimit(clerkOrgId);
+      await checkRateLimit(clerkOrgId);
+
+      // Act & Assert
+      const error = await checkRateLimit(clerkOrgId).catch((e) => e);
+      expect(error).toBeInstanceOf(RateLimitExceededError);
+      expect(error).toMatchObject({
+        code: "RATE_LIMITED",
+        statusCode: 429,
+        retryAfterSeconds: 1,
+        details: { window: "second", limit: 2, remaining: 0, retryAfter: 1 },
+      });
+    });
+
+    test("counts requests in Redis when REDIS_URL is set", async () => {
+      // Arrange
+      mockRedisClient = new RedisMock();
+      await mockRedisClient.flushall();
+      const clerkOrgId = nextKey();
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord({ clerkOrgId })
+      );
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({ clerkOrgId, planCode: "starter" })
+      );
+
+      try {
+        // Act
+        const result = await checkRateLimit(clerkOrgId);
+
+        // Assert
+        expect(result).toMatchObject({ allow: true, limit: 5, remaining: 4 });
+        expect(
+          await mockRedisClient.hget(`ratelimit:${clerkOrgId}:second`, "tokens")
+        ).toBe("4.000000");
+      } finally {
+        mockRedisClient.disconnect();
+        mockRedisClient = null;
+      }
+    });
+
+    test("throws QuotaOrgNotFoundError when organization not found", async () => {
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(null);
+
+      await expect(checkRateLimit(nextKey())).rejects.toThrow(
+        QuotaOrgNotFoundError
+      );
+    });
+
+    test("throws QuotaNoActiveSubscriptionError when no active subscription", async () => {
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord()
+      );
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(null);
+
+      await expect(checkRateLimit(nextKey())).rejects.toThrow(
+        QuotaNoActiveSubscriptionError
+      );
+    });
+  });
+});
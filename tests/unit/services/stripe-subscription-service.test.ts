@@ -1,6 +1,6 @@
 /**
  * Unit Tests: Stripe Subscription Service
- * 
+ *
  * Tests business logic for Stripe subscription operations
  */
 
@@ -16,6 +16,7 @@ import {
   StripeApiError,
 } from "@/lib/errors/stripe-errors";
 import {
+  mockStripe,
   mockStripeSubscriptionCreate,
   mockStripeSubscriptionCreateError,
   resetStripeMocks,
@@ -164,6 +165,26 @@ describe("Stripe Subscription Service", () => {
       expect(mockCreateSubscription).not.toHaveBeenCalled();
     });
 
+    test("throws StripeValidationError for pool members (billed through the parent)", async () => {
+      // Arrange
+      mockFindOrganizationById.mockResolvedValue({
+        id: orgId,
+        clerkOrgId,
+        name: "Test Org",
+        stripeCustomerId: "cus_test123",
+        parentOrganizationId: "org_internal_parent",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      // Act & Assert
+      await expect(
+        createSubscriptionForOrganization(orgId, "starter")
+      ).rejects.toThrow("is a pool member");
+
+      expect(mockCreateSubscription).not.toHaveBeenCalled();
+    });
+
     test("throws StripeApiError if Stripe subscription creation fails", async () => {
       // Arrange
       const mockOrg = {
@@ -273,6 +294,58 @@ describe("Stripe Subscription Service", () => {
       expect(result.trialEndsAt).toBeNull();
     });
 
+    test("adds metered overage price items for plans with overage", async () => {
+      // Arrange
+      const mockOrg = {
+        id: orgId,
+        clerkOrgId,
+        name: "Test Org",
+        stripeCustomerId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      mockFindOrganizationById.mockResolvedValue(mockOrg);
+      mockStripeSubscriptionCreate(
+        stripeSubscriptionId,
+        stripeCustomerId,
+        "active",
+        null,
+        "pro"
+      );
+      mockCreateSubscription.mockResolvedValue({
+        id: "sub_internal_123",
+        clerkOrgId,
+        stripeCustomerId,
+        stripeSubscriptionId,
+        planCode: "pro",
+        stripePriceId: "price_1SF56w33pr8E7tWLzL6eOFPW",
+        status: "active",
+        currentPeriodStart: new Date(),
+        currentPeriodEnd: new Date(),
+        trialEndsAt: null,
+        organizationId: orgId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      // Act
+      await createSubscriptionForOrganization(orgId, "pro");
+
+      // Assert
+      expect(mockStripe.subscriptions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          items: [
+            { price: "price_1SF56w33pr8E7tWLzL6eOFPW" },
+            { price: "price_pro_api_call_overage" },
+            { price: "price_pro_token_overage" },
+            { price: "price_pro_storage_gb_overage" },
+            { price: "price_pro_export_overage" },
+          ],
+        })
+      );
+    });
+
     test("maps Stripe status correctly to local status", async () => {
       // Arrange
       const mockOrg = {
@@ -317,7 +390,10 @@ describe("Stripe Subscription Service", () => {
         });
 
         // Act
-        const result = await createSubscriptionForOrganization(orgId, "starter");
+        const result = await createSubscriptionForOrganization(
+          orgId,
+          "starter"
+        );
 
         // Assert
         expect(result.status).toBe(localStatus);
@@ -325,4 +401,3 @@ describe("Stripe Subscription Service", () => {
     });
   });
 });
-
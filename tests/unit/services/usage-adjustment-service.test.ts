@@ -0,0 +1,272 @@
+/**
+ * Unit Tests: Usage Adjustment Service
+ *
+ * Tests business logic for crediting and debiting usage counters
+ */
+
+import {
+  createUsageAdjustment,
+  listUsageAdjustments,
+} from "@/lib/services/usage/usage-adjustment-service";
+import {
+  findUsageCounter,
+  findUsageCounterById,
+  findUsageRecordByRequestId,
+} from "@/lib/db/repositories/usage-repository";
+import {
+  applyUsageAdjustment,
+  findUsageAdjustments,
+} from "@/lib/db/repositories/usage-adjustment-repository";
+import { recordThresholdCrossings } from "@/lib/services/usage/usage-threshold-service";
+import {
+  UsageAdjustmentBelowZeroError,
+  UsageCounterNotFoundError,
+  UsageRecordNotFoundError,
+} from "@/lib/errors/usage-errors";
+import { ValidationError } from "@/lib/utils/errors";
+import {
+  mockUsageCounterRecord,
+  mockUsageAdjustmentRecord,
+} from "../../helpers/mock-db";
+
+// Mock repositories and services
+jest.mock("@/lib/db/repositories/usage-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/usage-repository"),
+  findUsageCounter: jest.fn(),
+  findUsageCounterById: jest.fn(),
+  findUsageRecordByRequestId: jest.fn(),
+}));
+jest.mock("@/lib/db/repositories/usage-adjustment-repository");
+jest.mock("@/lib/services/usage/usage-threshold-service");
+
+const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
+  typeof findUsageCounter
+>;
+const mockFindUsageCounterById = findUsageCounterById as jest.MockedFunction<
+  typeof findUsageCounterById
+>;
+const mockFindUsageRecordByRequestId =
+  findUsageRecordByRequestId as jest.MockedFunction<
+    typeof findUsageRecordByRequestId
+  >;
+const mockApplyUsageAdjustment = applyUsageAdjustment as jest.MockedFunction<
+  typeof applyUsageAdjustment
+>;
+const mockFindUsageAdjustments = findUsageAdjustments as jest.MockedFunction<
+  typeof findUsageAdjustments
+>;
+const mockRecordThresholdCrossings =
+  recordThresholdCrossings as jest.MockedFunction<
+    typeof recordThresholdCrossings
+  >;
+
+describe("Usage Adjustment Service", () => {
+  const clerkOrgId = "org_test456";
+  const actorUserId = "user_123";
+  const counter = mockUsageCounterRecord({ included: 60, used: 20 });
+
+  const usageRecord = {
+    id: "rec_1",
+    clerkOrgId,
+    metric: "api_call",
+    value: 5,
+    occurredAt: new Date("2025-01-10T00:00:00.000Z"),
+    metadata: { request_id: "req_failed" },
+    organizationId: "org_db_123",
+    subscriptionId: "sub_db_123",
+    usageCounterId: "counter_123",
+    createdAt: new Date("2025-01-10T00:00:00.000Z"),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFindUsageCounter.mockResolvedValue(counter);
+    mockFindUsageCounterById.mockResolvedValue(counter);
+    mockFindUsageRecordByRequestId.mockResolvedValue(usageRecord);
+    mockRecordThresholdCrossings.mockResolvedValue([]);
+    mockApplyUsageAdjustment.mockImplementation(async (data) => ({
+      adjustment: mockUsageAdjustmentRecord({
+        delta: data.delta,
+        usedBefore: 20,
+        referenceRequestId: data.referenceRequestId,
+      }),
+      counter: { ...counter, used: 20 + data.delta },
+    }));
+  });
+
+  describe("createUsageAdjustment", () => {
+    test("credits units back to the counter for a period", async () => {
+      // Act
+      const result = await createUsageAdjustment(clerkOrgId, actorUserId, {
+        metric: "api_call",
+        periodKey: "2025-01-15",
+        type: "credit",
+        amount: 5,
+        reason: "Refund for failed requests",
+      });
+
+      // Assert
+      expect(mockFindUsageCounter).toHaveBeenCalledWith(
+        clerkOrgId,
+        "2025-01-15",
+        "api_call"
+      );
+      expect(mockApplyUsageAdjustment).toHaveBeenCalledWith({
+        usageCounterId: "counter_123",
+        clerkOrgId,
+        periodKey: "2025-01-15",
+        metric: "api_call",
+        delta: -5,
+        reason: "Refund for failed requests",
+        actorUserId,
+        referenceRequestId: null,
+      });
+      expect(result).toEqual({
+        adjustment: {
+          id: "adj_123",
+          type: "credit",
+          metric: "api_call",
+          periodKey: "2025-01-15",
+          delta: -5,
+          usedBefore: 20,
+          usedAfter: 15,
+          reason: "Refund for failed requests",
+          actorUserId: "user_123",
+          request_id: null,
+          createdAt: "2025-01-21T08:00:00.000Z",
+        },
+        periodKey: "2025-01-15",
+        used: 15,
+        remaining: 45,
+      });
+      expect(mockRecordThresholdCrossings).not.toHaveBeenCalled();
+    });
+
+    test("records thresholds crossed by a debit", async () => {
+      // Act
+      await createUsageAdjustment(clerkOrgId, actorUserId, {
+        metric: "api_call",
+        periodKey: "2025-01-15",
+        type: "debit",
+        amount: 15,
+        reason: "Unmetered usage from outage",
+      });
+
+      // Assert
+      expect(mockApplyUsageAdjustment).toHaveBeenCalledWith(
+        expect.objectContaining({ delta: 15 })
+      );
+      expect(mockRecordThresholdCrossings).toHaveBeenCalledWith(
+        expect.objectContaining({ used: 35 }),
+        15
+      );
+    });
+
+    test("adjusts the counter of the referenced usage record", async () => {
+      // Act
+      const result = await createUsageAdjustment(clerkOrgId, actorUserId, {
+        metric: "api_call",
+        type: "credit",
+        amount: 5,
+        reason: "Refund for failed requests",
+        requestId: "req_failed",
+      });
+
+      // Assert
+      expect(mockFindUsageRecordByRequestId).toHaveBeenCalledWith(
+        clerkOrgId,
+        "req_failed"
+      );
+      expect(mockFindUsageCounterById).toHaveBeenCalledWith("counter_123");
+      expect(mockFindUsageCounter).not.toHaveBeenCalled();
+      expect(result.adjustment.request_id).toBe("req_failed");
+    });
+
+    test("throws UsageRecordNotFoundError when the org has no such request_id", async () => {
+      // Arrange
+      mockFindUsageRecordByRequestId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        createUsageAdjustment(clerkOrgId, actorUserId, {
+          metric: "api_call",
+          type: "credit",
+          amount: 5,
+          reason: "Refund",
+          requestId: "req_failed",
+        })
+      ).rejects.toThrow(UsageRecordNotFoundError);
+      expect(mockApplyUsageAdjustment).not.toHaveBeenCalled();
+    });
+
+    test("throws ValidationError when periodKey contradicts the referenced usage", async () => {
+      await expect(
+        createUsageAdjustment(clerkOrgId, actorUserId, {
+          metric: "api_call",
+          periodKey: "2024-12",
+          type: "credit",
+          amount: 5,
+          reason: "Refund",
+          requestId: "req_failed",
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    test("throws UsageCounterNotFoundError when the period has no counter", async () => {
+      // Arrange
+      mockFindUsageCounter.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        createUsageAdjustment(clerkOrgId, actorUserId, {
+          metric: "api_call",
+          periodKey: "2024-01",
+          type: "debit",
+          amount: 1,
+          reason: "Correction",
+        })
+      ).rejects.toThrow(UsageCounterNotFoundError);
+    });
+
+    test("throws UsageAdjustmentBelowZeroError when a credit exceeds usage", async () => {
+      // Arrange
+      mockApplyUsageAdjustment.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        createUsageAdjustment(clerkOrgId, actorUserId, {
+          metric: "api_call",
+          periodKey: "2025-01-15",
+          type: "credit",
+          amount: 25,
+          reason: "Refund",
+        })
+      ).rejects.toThrow(UsageAdjustmentBelowZeroError);
+    });
+  });
+
+  describe("listUsageAdjustments", () => {
+    test("returns adjustments for the organization", async () => {
+      // Arrange
+      mockFindUsageAdjustments.mockResolvedValue([
+        mockUsageAdjustmentRecord({ delta: 10 }),
+      ]);
+
+      // Act
+      const result = await listUsageAdjustments(clerkOrgId, {
+        periodKey: "2025-01-15",
+        limit: 50,
+      });
+
+      // Assert
+      expect(result.adjustments).toEqual([
+        expect.objectContaining({ id: "adj_123", type: "debit", delta: 10 }),
+      ]);
+      expect(mockFindUsageAdjustments).toHaveBeenCalledWith(clerkOrgId, {
+        periodKey: "2025-01-15",
+        limit: 50,
+      });
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Unit Tests: Usage Anomaly Service
+ *
+ * Tests spike detection against each organization's hourly baseline, anomaly
+ * hard caps and resolving anomalies
+ */
+
+import {
+  detectUsageAnomalies,
+  loadAnomalyCaps,
+  isAnomalyCapped,
+  resolveAnomaly,
+} from "@/lib/services/usage/usage-anomaly-service";
+import {
+  createUsageAnomaly,
+  findActiveUsageAnomalyCaps,
+  findUsageAnomalyById,
+  resolveUsageAnomaly,
+} from "@/lib/db/repositories/usage-anomaly-repository";
+import { findHourlyUsageWithBaseline } from "@/lib/db/repositories/usage-rollup-repository";
+import { UsageAnomalyNotFoundError } from "@/lib/errors/usage-errors";
+import { config } from "@/lib/config";
+import { mockUsageAnomalyRecord } from "../../helpers/mock-db";
+
+// Mock repositories, keeping the bucket helpers
+jest.mock("@/lib/db/repositories/usage-anomaly-repository");
+jest.mock("@/lib/db/repositories/usage-rollup-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/usage-rollup-repository"),
+  findHourlyUsageWithBaseline: jest.fn(),
+}));
+
+const mockCreateUsageAnomaly = createUsageAnomaly as jest.MockedFunction<
+  typeof createUsageAnomaly
+>;
+const mockFindActiveUsageAnomalyCaps =
+  findActiveUsageAnomalyCaps as jest.MockedFunction<
+    typeof findActiveUsageAnomalyCaps
+  >;
+const mockFindUsageAnomalyById = findUsageAnomalyById as jest.MockedFunction<
+  typeof findUsageAnomalyById
+>;
+const mockResolveUsageAnomaly = resolveUsageAnomaly as jest.MockedFunction<
+  typeof resolveUsageAnomaly
+>;
+const mockFindHourlyUsageWithBaseline =
+  findHourlyUsageWithBaseline as jest.MockedFunction<
+    typeof findHourlyUsageWithBaseline
+  >;
+
+describe("Usage Anomaly Service", () => {
+  const hour = new Date("2025-01-15T10:00:00.000Z");
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFindHourlyUsageWithBaseline.mockResolvedValue([]);
+    mockCreateUsageAnomaly.mockImplementation(async (data) =>
+      mockUsageAnomalyRecord(data)
+    );
+  });
+
+  describe("detectUsageAnomalies", () => {
+    test("flags hours far above the baseline and skips normal ones", async () => {
+      // Arrange
+      mockFindHourlyUsageWithBaseline.mockResolvedValue([
+        {
+          clerkOrgId: "org_leaked",
+          metric: "api_call",
+          observed: 12000,
+          baseline: 40,
+        },
+        {
+          clerkOrgId: "org_busy",
+          metric: "api_call",
+          observed: 5000,
+          baseline: 4000,
+        },
+        {
+          clerkOrgId: "org_small",
+          metric: "token",
+          observed: 5000,
+          baseline: 0,
+        },
+      ]);
+
+      // Act
+      const result = await detectUsageAnomalies({
+        hour: new Date("2025-01-15T10:42:00.000Z"),
+      });
+
+      // Assert
+      expect(result).toMatchObject({
+        hour: "2025-01-15T10:00:00.000Z",
+        checked: 3,
+        flagged: 1,
+        capped: 0,
+      });
+      expect(result.anomalies[0]).toMatchObject({
+        orgId: "org_leaked",
+        metric: "api_call",
+        observed: 12000,
+        ratio: 300,
+        capUntil: null,
+      });
+      expect(mockCreateUsageAnomaly).toHaveBeenCalledTimes(1);
+      expect(mockCreateUsageAnomaly).toHaveBeenCalledWith({
+        clerkOrgId: "org_leaked",
+        metric: "api_call",
+        observed: 12000,
+        baseline: 40,
+        hour,
+        capUntil: null,
+      });
+      expect(mockFindHourlyUsageWithBaseline).toHaveBeenCalledWith(
+        hour,
+        new Date("2025-01-08T10:00:00.000Z"),
+        expect.any(Number)
+      );
+    });
+
+    test("defaults to the last complete hour", async () => {
+      // Arrange
+      jest.useFakeTimers().setSystemTime(new Date("2025-01-15T11:05:00.000Z"));
+
+      try {
+        // Act
+        const result = await detectUsageAnomalies();
+
+        // Assert
+        expect(result.hour).toBe("2025-01-15T10:00:00.000Z");
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    test("applies a hard cap when configured", async () => {
+      // Arrange
+      jest.replaceProperty(config.anomalies, "capHours", 24);
+      mockFindHourlyUsageWithBaseline.mockResolvedValue([
+        {
+          clerkOrgId: "org_leaked",
+          metric: "api_call",
+          observed: 12000,
+          baseline: 40,
+        },
+      ]);
+
+      // Act
+      const result = await detectUsageAnomalies({ hour });
+
+      // Assert
+      expect(result.capped).toBe(1);
+      expect(mockCreateUsageAnomaly).toHaveBeenCalledWith(
+        expect.objectContaining({
+          capUntil: new Date("2025-01-16T11:00:00.000Z"),
+        })
+      );
+    });
+
+    test("does not report hours that were already flagged", async () => {
+      // Arrange
+      mockFindHourlyUsageWithBaseline.mockResolvedValue([
+        {
+          clerkOrgId: "org_leaked",
+          metric: "api_call",
+          observed: 12000,
+          baseline: 40,
+        },
+      ]);
+      mockCreateUsageAnomaly.mockResolvedValue(null);
+
+      // Act
+      const result = await detectUsageAnomalies({ hour });
+
+      // Assert
+      expect(result.flagged).toBe(0);
+      expect(result.anomalies).toEqual([]);
+    });
+  });
+
+  describe("anomaly caps", () => {
+    test("loads the latest cap end per metric", async () => {
+      // Arrange
+      mockFindActiveUsageAnomalyCaps.mockResolvedValue([
+        mockUsageAnomalyRecord({
+          capUntil: new Date("2025-01-16T11:00:00.000Z"),
+        }),
+        mockUsageAnomalyRecord({
+          id: "anomaly_456",
+          capUntil: new Date("2025-01-16T14:00:00.000Z"),
+        }),
+      ]);
+
+      // Act
+      const caps = await loadAnomalyCaps("org_test456");
+
+      // Assert
+      expect(caps).toEqual({ api_call: "2025-01-16T14:00:00.000Z" });
+    });
+
+    test("caps a metric only until the cap ends", () => {
+      const future = new Date(Date.now() + 60000).toISOString();
+      const past = new Date(Date.now() - 60000).toISOString();
+
+      expect(isAnomalyCapped({ api_call: future }, "api_call")).toBe(true);
+      expect(isAnomalyCapped({ api_call: past }, "api_call")).toBe(false);
+      expect(isAnomalyCapped({ api_call: future }, "token")).toBe(false);
+      expect(isAnomalyCapped(undefined, "api_call")).toBe(false);
+    });
+  });
+
+  describe("resolveAnomaly", () => {
+    test("resolves an open anomaly", async () => {
+      // Arrange
+      mockFindUsageAnomalyById.mockResolvedValue(mockUsageAnomalyRecord());
+      mockResolveUsageAnomaly.mockResolvedValue(
+        mockUsageAnomalyRecord({
+          status: "resolved",
+          resolvedAt: new Date("2025-01-15T12:00:00.000Z"),
+          resolvedByUserId: "user_admin",
+        })
+      );
+
+      // Act
+      const result = await resolveAnomaly("anomaly_123", "user_admin");
+
+      // Assert
+      expect(result).toMatchObject({
+        status: "resolved",
+        resolvedByUserId: "user_admin",
+      });
+      expect(mockResolveUsageAnomaly).toHaveBeenCalledWith(
+        "anomaly_123",
+        "user_admin"
+      );
+    });
+
+    test("leaves a resolved anomaly unchanged", async () => {
+      // Arrange
+      mockFindUsageAnomalyById.mockResolvedValue(
+        mockUsageAnomalyRecord({ status: "resolved" })
+      );
+
+      // Act
+      const result = await resolveAnomaly("anomaly_123", "user_admin");
+
+      // Assert
+      expect(result.status).toBe("resolved");
+      expect(mockResolveUsageAnomaly).not.toHaveBeenCalled();
+    });
+
+    test("throws UsageAnomalyNotFoundError for a missing anomaly", async () => {
+      // Arrange
+      mockFindUsageAnomalyById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        resolveAnomaly("anomaly_missing", "user_admin")
+      ).rejects.toThrow(UsageAnomalyNotFoundError);
+    });
+  });
+});
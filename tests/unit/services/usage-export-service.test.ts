@@ -0,0 +1,234 @@
+/**
+ * Unit Tests: Usage Export Service
+ *
+ * Tests business logic for streaming usage records and rollup sums as CSV
+ * and NDJSON
+ */
+
+import {
+  escapeCsvField,
+  formatUsageExportRow,
+  streamUsageExport,
+  UsageExportFormat,
+  UsageExportGranularity,
+} from "@/lib/services/usage/usage-export-service";
+import {
+  findUsageRecordsForExport,
+  UsageExportRow,
+} from "@/lib/db/repositories/usage-repository";
+import { sumUsageByBucket } from "@/lib/services/usage/usage-rollup-service";
+import { config } from "@/lib/config";
+
+// Mock dependencies
+jest.mock("@/lib/db/repositories/usage-repository");
+jest.mock("@/lib/services/usage/usage-rollup-service");
+
+const mockFindUsageRecordsForExport =
+  findUsageRecordsForExport as jest.MockedFunction<
+    typeof findUsageRecordsForExport
+  >;
+const mockSumUsageByBucket = sumUsageByBucket as jest.MockedFunction<
+  typeof sumUsageByBucket
+>;
+
+function exportRow(id: string, occurredAt: string): UsageExportRow {
+  return {
+    id,
+    clerkOrgId: "org_test456",
+    metric: "api_call",
+    value: 1,
+    occurredAt: new Date(occurredAt),
+    metadata: { request_id: `req_${id}` },
+    organizationId: "org_db_123",
+    subscriptionId: "sub_db_123",
+    usageCounterId: "counter_123",
+    createdAt: new Date(occurredAt),
+    usageCounter: { periodKey: "2025-01" },
+  };
+}
+
+async function collect(
+  format: UsageExportFormat,
+  metric?: string,
+  granularity?: UsageExportGranularity
+): Promise<string> {
+  let output = "";
+  for await (const chunk of streamUsageExport("org_test456", {
+    format,
+    granularity,
+    from: new Date("2025-01-01T00:00:00.000Z"),
+    to: new Date("2025-02-01T00:00:00.000Z"),
+    metric,
+  })) {
+    output += chunk;
+  }
+  return output;
+}
+
+describe("Usage Export Service", () => {
+  const pageSize = config.usage.exportPageSize;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindUsageRecordsForExport.mockResolvedValue([]);
+    mockSumUsageByBucket.mockResolvedValue([]);
+  });
+
+  describe("escapeCsvField", () => {
+    test("leaves plain values unchanged", () => {
+      expect(escapeCsvField("req_123")).toBe("req_123");
+    });
+
+    test("quotes values containing delimiters, quotes or newlines", () => {
+      expect(escapeCsvField("a,b")).toBe('"a,b"');
+      expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvField("line\nbreak")).toBe('"line\nbreak"');
+    });
+  });
+
+  describe("formatUsageExportRow", () => {
+    test("formats a CSV line", () => {
+      expect(
+        formatUsageExportRow(
+          exportRow("rec_1", "2025-01-02T08:00:00.000Z"),
+          "csv"
+        )
+      ).toBe("api_call,1,2025-01-02T08:00:00.000Z,req_rec_1,2025-01\n");
+    });
+
+    test("formats an NDJSON line with a null request_id when absent", () => {
+      const row = {
+        ...exportRow("rec_1", "2025-01-02T08:00:00.000Z"),
+        metadata: null,
+      };
+
+      expect(JSON.parse(formatUsageExportRow(row, "ndjson"))).toEqual({
+        metric: "api_call",
+        value: 1,
+        occurredAt: "2025-01-02T08:00:00.000Z",
+        request_id: null,
+        periodKey: "2025-01",
+      });
+    });
+  });
+
+  describe("streamUsageExport", () => {
+    test("writes a CSV header followed by every record", async () => {
+      // Arrange
+      mockFindUsageRecordsForExport.mockResolvedValueOnce([
+        exportRow("rec_1", "2025-01-02T08:00:00.000Z"),
+        exportRow("rec_2", "2025-01-02T09:00:00.000Z"),
+      ]);
+
+      // Act
+      const output = await collect("csv", "api_call");
+
+      // Assert
+      expect(output).toBe(
+        "metric,value,occurredAt,request_id,periodKey\n" +
+          "api_call,1,2025-01-02T08:00:00.000Z,req_rec_1,2025-01\n" +
+          "api_call,1,2025-01-02T09:00:00.000Z,req_rec_2,2025-01\n"
+      );
+      expect(mockFindUsageRecordsForExport).toHaveBeenCalledWith(
+        {
+          clerkOrgId: "org_test456",
+          metric: "api_call",
+          from: new Date("2025-01-01T00:00:00.000Z"),
+          to: new Date("2025-02-01T00:00:00.000Z"),
+        },
+        { limit: pageSize, after: undefined }
+      );
+    });
+
+    test("writes no header for NDJSON", async () => {
+      // Act
+      const output = await collect("ndjson");
+
+      // Assert
+      expect(output).toBe("");
+    });
+
+    test("reads page by page, continuing after the last record", async () => {
+      // Arrange
+      const firstPage = Array.from({ length: pageSize }, (_, i) =>
+        exportRow(`rec_${i}`, "2025-01-02T08:00:00.000Z")
+      );
+      mockFindUsageRecordsForExport
+        .mockResolvedValueOnce(firstPage)
+        .mockResolvedValueOnce([
+          exportRow("rec_last", "2025-01-02T10:00:00.000Z"),
+        ]);
+
+      // Act
+      const output = await collect("ndjson");
+
+      // Assert
+      expect(output.trim().split("\n")).toHaveLength(pageSize + 1);
+      expect(mockFindUsageRecordsForExport).toHaveBeenCalledTimes(2);
+      expect(mockFindUsageRecordsForExport).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        {
+          limit: pageSize,
+          after: {
+            occurredAt: new Date("2025-01-02T08:00:00.000Z"),
+            id: `rec_${pageSize - 1}`,
+          },
+        }
+      );
+    });
+
+    test("exports daily sums from the rollups instead of records", async () => {
+      // Arrange
+      mockSumUsageByBucket.mockResolvedValue([
+        {
+          metric: "api_call",
+          bucket: "2025-01-02T00:00:00.000Z",
+          value: 42,
+          count: 40,
+        },
+      ]);
+
+      // Act
+      const output = await collect("csv", "api_call", "day");
+
+      // Assert
+      expect(output).toBe(
+        "metric,bucket,value,count\n" +
+          "api_call,2025-01-02T00:00:00.000Z,42,40\n"
+      );
+      expect(mockSumUsageByBucket).toHaveBeenCalledWith(
+        {
+          clerkOrgId: "org_test456",
+          metric: "api_call",
+          from: new Date("2025-01-01T00:00:00.000Z"),
+          to: new Date("2025-02-01T00:00:00.000Z"),
+        },
+        "day"
+      );
+      expect(mockFindUsageRecordsForExport).not.toHaveBeenCalled();
+    });
+
+    test("formats hourly sums as NDJSON", async () => {
+      // Arrange
+      mockSumUsageByBucket.mockResolvedValue([
+        {
+          metric: "api_call",
+          bucket: "2025-01-02T08:00:00.000Z",
+          value: 3,
+          count: 2,
+        },
+      ]);
+
+      // Act
+      const output = await collect("ndjson", undefined, "hour");
+
+      // Assert
+      expect(JSON.parse(output)).toEqual({
+        metric: "api_call",
+        bucket: "2025-01-02T08:00:00.000Z",
+        value: 3,
+        count: 2,
+      });
+    });
+  });
+});
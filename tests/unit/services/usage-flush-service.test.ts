@@ -0,0 +1,548 @@
+/**
+ * Unit Tests: Usage Flush Service
+ *
+ * Tests the Redis usage counter cache end to end against an in-memory Redis
+ * stand-in: usage recorded and checked through the cache, and written
+ * through to Postgres by the journal flush.
+ */
+
+import RedisMock from "ioredis-mock";
+import { flushUsageJournal } from "@/lib/services/usage/usage-flush-service";
+import {
+  recordUsage,
+  consumeUsage,
+} from "@/lib/services/usage/usage-recording-service";
+import { checkQuota } from "@/lib/services/quota/quota-service";
+import { createUsageAdjustment } from "@/lib/services/usage/usage-adjustment-service";
+import { findOrganizationByClerkOrgId } from "@/lib/db/repositories/org-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
+import {
+  findUsageCounter,
+  applyUsageJournal,
+  consumeUsageCounterWithinQuota,
+  UsageCounterRecord,
+} from "@/lib/db/repositories/usage-repository";
+import { findIdempotencyKey } from "@/lib/db/repositories/idempotency-repository";
+import {
+  getCachedUsageCounter,
+  readUsageJournal,
+  acquireUsageJournalLock,
+} from "@/lib/db/repositories/usage-cache-repository";
+import { applyUsageAdjustment } from "@/lib/db/repositories/usage-adjustment-repository";
+import {
+  drawCredits,
+  releaseCreditDraws,
+} from "@/lib/db/repositories/credit-repository";
+import { db } from "@/lib/db";
+import { recordThresholdCrossings } from "@/lib/services/usage/usage-threshold-service";
+import { QuotaExceededError } from "@/lib/errors/quota-errors";
+import {
+  mockOrganizationRecord,
+  mockSubscriptionRecord,
+  mockUsageCounterRecord,
+} from "../../helpers/mock-db";
+
+// In-memory Redis stand-in; set to null to exercise the disabled path
+let mockRedisClient: InstanceType<typeof RedisMock> | null = null;
+
+jest.mock("@/lib/redis", () => ({
+  get redis() {
+    return mockRedisClient;
+  },
+}));
+jest.mock("@/lib/db/repositories/org-repository");
+jest.mock("@/lib/db/repositories/subscription-repository");
+jest.mock("@/lib/db/repositories/usage-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/usage-repository"),
+  findUsageCounter: jest.fn(),
+  upsertUsageCounter: jest.fn(),
+  applyUsageJournal: jest.fn(),
+  consumeUsageCounterWithinQuota: jest.fn(),
+}));
+jest.mock("@/lib/db/repositories/idempotency-repository");
+jest.mock("@/lib/db/repositories/usage-adjustment-repository");
+jest.mock("@/lib/db/repositories/credit-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/credit-repository"),
+  drawCredits: jest.fn(),
+  releaseCreditDraws: jest.fn(),
+}));
+jest.mock("@/lib/services/usage/usage-threshold-service");
+
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
+const mockFindActiveSubscriptionByOrganizationId =
+  findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+    typeof findActiveSubscriptionByOrganizationId
+  >;
+const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
+  typeof findUsageCounter
+>;
+const mockApplyUsageJournal = applyUsageJournal as jest.MockedFunction<
+  typeof applyUsageJournal
+>;
+const mockConsumeUsageCounterWithinQuota =
+  consumeUsageCounterWithinQuota as jest.MockedFunction<
+    typeof consumeUsageCounterWithinQuota
+  >;
+const mockFindIdempotencyKey = findIdempotencyKey as jest.MockedFunction<
+  typeof findIdempotencyKey
+>;
+const mockApplyUsageAdjustment = applyUsageAdjustment as jest.MockedFunction<
+  typeof applyUsageAdjustment
+>;
+const mockDrawCredits = drawCredits as jest.MockedFunction<typeof drawCredits>;
+const mockReleaseCreditDraws = releaseCreditDraws as jest.MockedFunction<
+  typeof releaseCreditDraws
+>;
+const mockRecordThresholdCrossings =
+  recordThresholdCrossings as jest.MockedFunction<
+    typeof recordThresholdCrossings
+  >;
+
+describe("Usage Flush Service", () => {
+  const clerkOrgId = "org_test456";
+  const periodKey = "2099-01-01";
+  const occurredAt = new Date(2099, 0, 10);
+
+  // Postgres state of the counter, advanced by the mocked flush
+  let dbCounter: UsageCounterRecord;
+  let dbRequestIds: Set<string>;
+
+  /**
+   * Applies journal entries to the in-test Postgres state, skipping entries
+   * whose idempotency key was already claimed
+   */
+  const applyToDb = async (
+    entries: Parameters<typeof applyUsageJournal>[0]
+  ) => {
+    const applied = entries.filter((entry) => !dbRequestIds.has(entry.id));
+    for (const entry of applied) {
+      dbRequestIds.add(entry.id);
+      dbCounter = { ...dbCounter, used: dbCounter.used + entry.value };
+    }
+    return { applied: applied.map((entry) => entry.id), counters: [dbCounter] };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedisClient = new RedisMock();
+    await mockRedisClient.flushall();
+
+    dbCounter = {
+      ...mockUsageCounterRecord({ clerkOrgId, periodKey, included: 60 }),
+      id: "counter_cached",
+      periodStart: new Date("2099-01-01T08:00:00Z"),
+      periodEnd: new Date("2099-02-01T08:00:00Z"),
+    };
+    dbRequestIds = new Set();
+
+    mockFindOrganizationByClerkOrgId.mockResolvedValue(
+      mockOrganizationRecord({ clerkOrgId })
+    );
+    mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+      mockSubscriptionRecord({
+        clerkOrgId,
+        planCode: "starter",
+        currentPeriodStart: new Date("2099-01-01T08:00:00Z"),
+        currentPeriodEnd: new Date("2099-02-01T08:00:00Z"),
+      })
+    );
+    mockFindUsageCounter.mockImplementation(async () => dbCounter);
+    mockApplyUsageJournal.mockImplementation(applyToDb);
+    mockFindIdempotencyKey.mockResolvedValue(null);
+    mockRecordThresholdCrossings.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    mockRedisClient?.disconnect();
+    mockRedisClient = null;
+  });
+
+  describe("cached usage recording", () => {
+    test("increments the cached counter and journals the usage", async () => {
+      // Act
+      const first = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        "req_1"
+      );
+      const second = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        3,
+        occurredAt,
+        "req_2"
+      );
+
+      // Assert
+      expect(first).toEqual({ periodKey, used: 5, remaining: 55 });
+      expect(second).toEqual({ periodKey, used: 8, remaining: 52 });
+      const journal = await readUsageJournal(10);
+      expect(journal.map((entry) => entry.requestId)).toEqual([
+        "req_1",
+        "req_2",
+      ]);
+      expect(journal[1]).toMatchObject({
+        usageCounterId: "counter_cached",
+        value: 3,
+        occurredAt,
+        response: second,
+      });
+      expect(dbCounter.used).toBe(0);
+    });
+
+    test("resolves the organization from Postgres only once", async () => {
+      // Act
+      await recordUsage(clerkOrgId, "api_call", 1, occurredAt, "req_1");
+      await recordUsage(clerkOrgId, "api_call", 1, occurredAt, "req_2");
+
+      // Assert
+      expect(mockFindOrganizationByClerkOrgId).toHaveBeenCalledTimes(1);
+      expect(mockFindUsageCounter).toHaveBeenCalledTimes(1);
+    });
+
+    test("replays a duplicate request_id without journaling it", async () => {
+      // Arrange
+      const original = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        "req_dup"
+      );
+
+      // Act
+      const replay = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        "req_dup"
+      );
+
+      // Assert
+      expect(replay).toEqual(original);
+      expect(await readUsageJournal(10)).toHaveLength(1);
+    });
+
+    test("replays a request_id recorded straight to Postgres", async () => {
+      // Arrange - recorded before the usage cache was enabled
+      const original = { periodKey, used: 5, remaining: 55 };
+      mockFindIdempotencyKey.mockResolvedValue({
+        id: "idem_1",
+        clerkOrgId,
+        requestId: "req_1",
+        response: original,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        createdAt: new Date(),
+      });
+
+      // Act
+      const first = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        "req_1"
+      );
+      const second = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        "req_1"
+      );
+
+      // Assert
+      expect(first).toEqual(original);
+      expect(second).toEqual(original);
+      expect(mockFindIdempotencyKey).toHaveBeenCalledTimes(1);
+      expect(await readUsageJournal(10)).toHaveLength(0);
+    });
+
+    test("replays usage a capped member recorded straight to Postgres", async () => {
+      // Arrange - a capped member's usage bypasses the cache
+      (db.memberUsageCap.findMany as jest.Mock).mockResolvedValueOnce([
+        { clerkOrgId, userId: "user_capped", metric: "api_call", cap: 50 },
+      ]);
+      mockConsumeUsageCounterWithinQuota.mockImplementation(async (data) => {
+        dbCounter = { ...dbCounter, used: dbCounter.used + data.value };
+        return dbCounter;
+      });
+      const original = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        "req_1",
+        "user_capped"
+      );
+
+      // Act - the retry comes without the user and goes through the cache
+      const replay = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        "req_1"
+      );
+
+      // Assert
+      expect(replay).toEqual(original);
+      expect(await readUsageJournal(10)).toHaveLength(0);
+      expect(dbCounter.used).toBe(5);
+    });
+
+    test("denies consumption beyond the hard limit without incrementing", async () => {
+      // Arrange
+      await recordUsage(clerkOrgId, "api_call", 58, occurredAt, "req_1");
+
+      // Act & Assert
+      await expect(
+        consumeUsage(clerkOrgId, "api_call", 3, occurredAt, "req_2")
+      ).rejects.toThrow(QuotaExceededError);
+
+      const counter = await getCachedUsageCounter(
+        clerkOrgId,
+        periodKey,
+        "api_call"
+      );
+      expect(counter?.used).toBe(58);
+      expect(await readUsageJournal(10)).toHaveLength(1);
+    });
+
+    test("returns credits drawn for a denied consumption", async () => {
+      // Arrange - 3 credits left can't cover 10 units past 58 of 60
+      const draws = [{ creditGrantId: "grant_1", amount: 3 }];
+      await recordUsage(clerkOrgId, "api_call", 58, occurredAt, "req_1");
+      (db.creditGrant.aggregate as jest.Mock).mockResolvedValueOnce({
+        _sum: { remaining: 3 },
+      });
+      mockDrawCredits.mockResolvedValue(draws);
+
+      // Act & Assert
+      await expect(
+        consumeUsage(clerkOrgId, "api_call", 10, occurredAt, "req_2")
+      ).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+        details: { limit: 60, used: 58 },
+      });
+
+      expect(mockReleaseCreditDraws).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "counter_cached", included: 63 }),
+        draws
+      );
+      const counter = await getCachedUsageCounter(
+        clerkOrgId,
+        periodKey,
+        "api_call"
+      );
+      expect(counter).toMatchObject({ included: 60, credited: 0, used: 58 });
+    });
+
+    test("answers quota checks from the cached counter", async () => {
+      // Arrange
+      await recordUsage(clerkOrgId, "api_call", 60, occurredAt, "req_1");
+      jest.clearAllMocks();
+
+      // Act
+      const result = await checkQuota(clerkOrgId, "api_call");
+
+      // Assert
+      expect(result).toMatchObject({
+        allow: false,
+        remaining: 0,
+        status: "blocked",
+      });
+      expect(mockFindOrganizationByClerkOrgId).not.toHaveBeenCalled();
+      expect(mockFindUsageCounter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("flushUsageJournal", () => {
+    test("returns enabled false when Redis is not configured", async () => {
+      // Arrange
+      mockRedisClient = null;
+
+      // Act
+      const result = await flushUsageJournal();
+
+      // Assert
+      expect(result).toEqual({
+        enabled: false,
+        flushed: 0,
+        applied: 0,
+        skipped: 0,
+      });
+      expect(mockApplyUsageJournal).not.toHaveBeenCalled();
+    });
+
+    test("writes journaled usage to Postgres and drains the journal", async () => {
+      // Arrange
+      await recordUsage(clerkOrgId, "api_call", 5, occurredAt, "req_1");
+      await recordUsage(clerkOrgId, "api_call", 3, occurredAt, "req_2");
+
+      // Act
+      const result = await flushUsageJournal();
+
+      // Assert
+      expect(result).toEqual({
+        enabled: true,
+        flushed: 2,
+        applied: 2,
+        skipped: 0,
+      });
+      expect(dbCounter.used).toBe(8);
+      expect(await readUsageJournal(10)).toHaveLength(0);
+      expect(
+        await mockRedisClient?.hget(
+          `usage:counter:${clerkOrgId}:${periodKey}:api_call`,
+          "pending"
+        )
+      ).toBe("0");
+    });
+
+    test("keeps usage recorded during a flush pending", async () => {
+      // Arrange
+      await recordUsage(clerkOrgId, "api_call", 5, occurredAt, "req_1");
+      mockApplyUsageJournal.mockImplementationOnce(async (entries) => {
+        const result = await applyToDb(entries);
+        await recordUsage(clerkOrgId, "api_call", 2, occurredAt, "req_2");
+        return result;
+      });
+
+      // Act
+      const result = await flushUsageJournal();
+
+      // Assert
+      expect(result.flushed).toBe(1);
+      expect(dbCounter.used).toBe(5);
+      const counter = await getCachedUsageCounter(
+        clerkOrgId,
+        periodKey,
+        "api_call"
+      );
+      expect(counter?.used).toBe(7);
+      const journal = await readUsageJournal(10);
+      expect(journal.map((entry) => entry.requestId)).toEqual(["req_2"]);
+    });
+
+    test("keeps an adjustment written to Postgres during a flush", async () => {
+      // Arrange: a debit commits after the flush's Postgres write but
+      // settles in Redis before the flush does
+      await recordUsage(clerkOrgId, "api_call", 5, occurredAt, "req_1");
+      mockApplyUsageAdjustment.mockImplementation(async (data) => {
+        dbCounter = { ...dbCounter, used: dbCounter.used + data.delta };
+        return {
+          adjustment: {
+            id: "adj_1",
+            usageCounterId: dbCounter.id,
+            clerkOrgId,
+            periodKey,
+            metric: "api_call",
+            delta: data.delta,
+            usedBefore: dbCounter.used - data.delta,
+            usedAfter: dbCounter.used,
+            reason: data.reason,
+            actorUserId: data.actorUserId,
+            referenceRequestId: null,
+            createdAt: new Date(),
+          },
+          counter: dbCounter,
+        };
+      });
+      mockApplyUsageJournal.mockImplementationOnce(async (entries) => {
+        const result = await applyToDb(entries);
+        await createUsageAdjustment(clerkOrgId, "user_admin", {
+          metric: "api_call",
+          periodKey,
+          type: "debit",
+          amount: 4,
+          reason: "Missed usage",
+        });
+        return result;
+      });
+
+      // Act
+      await flushUsageJournal();
+
+      // Assert
+      expect(dbCounter.used).toBe(9);
+      const counter = await getCachedUsageCounter(
+        clerkOrgId,
+        periodKey,
+        "api_call"
+      );
+      expect(counter?.used).toBe(9);
+      expect(
+        await mockRedisClient?.hget(
+          `usage:counter:${clerkOrgId}:${periodKey}:api_call`,
+          "pending"
+        )
+      ).toBe("0");
+    });
+
+    test("replays a batch left behind by a crash without double counting", async () => {
+      // Arrange: the first flush commits to Postgres, then dies before
+      // trimming the journal
+      await recordUsage(clerkOrgId, "api_call", 5, occurredAt, "req_1");
+      await applyToDb(await readUsageJournal(10));
+
+      // Act
+      const result = await flushUsageJournal();
+
+      // Assert
+      expect(result).toEqual({
+        enabled: true,
+        flushed: 1,
+        applied: 0,
+        skipped: 1,
+      });
+      expect(dbCounter.used).toBe(5);
+      const counter = await getCachedUsageCounter(
+        clerkOrgId,
+        periodKey,
+        "api_call"
+      );
+      expect(counter?.used).toBe(5);
+      expect(await readUsageJournal(10)).toHaveLength(0);
+    });
+
+    test("skips the run while another flush holds the lock", async () => {
+      // Arrange
+      await recordUsage(clerkOrgId, "api_call", 5, occurredAt, "req_1");
+      await acquireUsageJournalLock(60);
+
+      // Act
+      const result = await flushUsageJournal();
+
+      // Assert
+      expect(result).toEqual({
+        enabled: true,
+        flushed: 0,
+        applied: 0,
+        skipped: 0,
+      });
+      expect(mockApplyUsageJournal).not.toHaveBeenCalled();
+      expect(await readUsageJournal(10)).toHaveLength(1);
+    });
+
+    test("releases the lock when the Postgres write fails", async () => {
+      // Arrange
+      await recordUsage(clerkOrgId, "api_call", 5, occurredAt, "req_1");
+      mockApplyUsageJournal.mockRejectedValueOnce(new Error("db down"));
+
+      // Act & Assert
+      await expect(flushUsageJournal()).rejects.toThrow("db down");
+      expect(await readUsageJournal(10)).toHaveLength(1);
+
+      const retry = await flushUsageJournal();
+      expect(retry.applied).toBe(1);
+      expect(dbCounter.used).toBe(5);
+    });
+  });
+});
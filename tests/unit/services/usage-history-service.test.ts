@@ -0,0 +1,319 @@
+/**
+ * Unit Tests: Usage History Service
+ *
+ * Tests business logic for reading bucketed usage and paginated records
+ */
+
+import {
+  getUsageHistory,
+  encodeHistoryCursor,
+  decodeHistoryCursor,
+} from "@/lib/services/usage/usage-history-service";
+import {
+  findUsageRecordsPage,
+  sumUsageRecordsByBucket,
+  UsageRecordRecord,
+} from "@/lib/db/repositories/usage-repository";
+import { findUsageAdjustments } from "@/lib/db/repositories/usage-adjustment-repository";
+import { sumUsageByBucket } from "@/lib/services/usage/usage-rollup-service";
+import { ValidationError } from "@/lib/utils/errors";
+
+// Mock repositories
+jest.mock("@/lib/db/repositories/usage-repository");
+jest.mock("@/lib/db/repositories/usage-adjustment-repository");
+jest.mock("@/lib/services/usage/usage-rollup-service");
+
+const mockFindUsageRecordsPage = findUsageRecordsPage as jest.MockedFunction<
+  typeof findUsageRecordsPage
+>;
+const mockSumUsageRecordsByBucket =
+  sumUsageRecordsByBucket as jest.MockedFunction<
+    typeof sumUsageRecordsByBucket
+  >;
+const mockFindUsageAdjustments = findUsageAdjustments as jest.MockedFunction<
+  typeof findUsageAdjustments
+>;
+const mockSumUsageByBucket = sumUsageByBucket as jest.MockedFunction<
+  typeof sumUsageByBucket
+>;
+
+function usageRecord(id: string, occurredAt: string): UsageRecordRecord {
+  return {
+    id,
+    clerkOrgId: "org_test456",
+    metric: "api_call",
+    value: 1,
+    occurredAt: new Date(occurredAt),
+    metadata: { request_id: `req_${id}` },
+    organizationId: "org_db_123",
+    subscriptionId: "sub_db_123",
+    usageCounterId: "counter_123",
+    createdAt: new Date(occurredAt),
+  };
+}
+
+describe("Usage History Service", () => {
+  const clerkOrgId = "org_test456";
+  const from = "2025-01-01T00:00:00.000Z";
+  const to = "2025-01-08T00:00:00.000Z";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockSumUsageRecordsByBucket.mockResolvedValue([
+      { bucket: "2025-01", value: 3, count: 3 },
+    ]);
+    mockSumUsageByBucket.mockResolvedValue([
+      {
+        metric: "api_call",
+        bucket: "2025-01-02T00:00:00.000Z",
+        value: 3,
+        count: 3,
+      },
+    ]);
+    mockFindUsageRecordsPage.mockResolvedValue([]);
+    mockFindUsageAdjustments.mockResolvedValue([]);
+  });
+
+  describe("history cursors", () => {
+    test("round-trips occurredAt and id", () => {
+      const position = {
+        occurredAt: new Date("2025-01-02T10:00:00.000Z"),
+        id: "rec_2",
+      };
+
+      expect(decodeHistoryCursor(encodeHistoryCursor(position))).toEqual(
+        position
+      );
+    });
+
+    test("throws ValidationError for malformed cursors", () => {
+      expect(() => decodeHistoryCursor("not-a-cursor")).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        decodeHistoryCursor(
+          Buffer.from(JSON.stringify({ o: "never", i: "rec_1" })).toString(
+            "base64url"
+          )
+        )
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe("getUsageHistory", () => {
+    test("returns buckets and the first page of records", async () => {
+      // Arrange
+      mockFindUsageRecordsPage.mockResolvedValue([
+        usageRecord("rec_3", "2025-01-02T12:00:00.000Z"),
+        usageRecord("rec_2", "2025-01-02T10:00:00.000Z"),
+      ]);
+
+      // Act
+      const result = await getUsageHistory(clerkOrgId, {
+        metric: "api_call",
+        from,
+        to,
+        granularity: "day",
+        limit: 2,
+      });
+
+      // Assert
+      expect(result).toEqual({
+        metric: "api_call",
+        from,
+        to,
+        granularity: "day",
+        buckets: [{ bucket: "2025-01-02T00:00:00.000Z", value: 3, count: 3 }],
+        records: [
+          {
+            id: "rec_3",
+            value: 1,
+            occurredAt: "2025-01-02T12:00:00.000Z",
+            requestId: "req_rec_3",
+          },
+          {
+            id: "rec_2",
+            value: 1,
+            occurredAt: "2025-01-02T10:00:00.000Z",
+            requestId: "req_rec_2",
+          },
+        ],
+        nextCursor: null,
+        adjustments: [],
+      });
+      const filter = {
+        clerkOrgId,
+        metric: "api_call",
+        from: new Date(from),
+        to: new Date(to),
+      };
+      expect(mockSumUsageByBucket).toHaveBeenCalledWith(filter, "day");
+      expect(mockSumUsageRecordsByBucket).not.toHaveBeenCalled();
+      expect(mockFindUsageRecordsPage).toHaveBeenCalledWith(filter, {
+        limit: 3,
+        after: undefined,
+      });
+    });
+
+    test("returns a cursor pointing after the last record when more exist", async () => {
+      // Arrange
+      mockFindUsageRecordsPage.mockResolvedValue([
+        usageRecord("rec_3", "2025-01-02T12:00:00.000Z"),
+        usageRecord("rec_2", "2025-01-02T10:00:00.000Z"),
+        usageRecord("rec_1", "2025-01-02T08:00:00.000Z"),
+      ]);
+
+      // Act
+      const result = await getUsageHistory(clerkOrgId, {
+        metric: "api_call",
+        from,
+        to,
+        granularity: "day",
+        limit: 2,
+      });
+
+      // Assert
+      expect(result.records.map((record) => record.id)).toEqual([
+        "rec_3",
+        "rec_2",
+      ]);
+      expect(result.nextCursor).toEqual(expect.any(String));
+      expect(decodeHistoryCursor(result.nextCursor ?? "")).toEqual({
+        occurredAt: new Date("2025-01-02T10:00:00.000Z"),
+        id: "rec_2",
+      });
+    });
+
+    test("continues after the position in the cursor", async () => {
+      // Arrange
+      const cursor = encodeHistoryCursor({
+        occurredAt: new Date("2025-01-02T10:00:00.000Z"),
+        id: "rec_2",
+      });
+
+      // Act
+      await getUsageHistory(clerkOrgId, {
+        metric: "api_call",
+        from,
+        to,
+        granularity: "hour",
+        cursor,
+        limit: 2,
+      });
+
+      // Assert
+      expect(mockFindUsageRecordsPage).toHaveBeenCalledWith(
+        expect.any(Object),
+        {
+          limit: 3,
+          after: {
+            occurredAt: new Date("2025-01-02T10:00:00.000Z"),
+            id: "rec_2",
+          },
+        }
+      );
+    });
+
+    test("defaults to the configured range ending now", async () => {
+      // Arrange
+      jest.useFakeTimers().setSystemTime(new Date("2025-02-01T00:00:00.000Z"));
+
+      try {
+        // Act
+        const result = await getUsageHistory(clerkOrgId, {
+          metric: "api_call",
+          granularity: "period",
+          limit: 50,
+        });
+
+        // Assert
+        expect(result.from).toBe("2025-01-02T00:00:00.000Z");
+        expect(result.to).toBe("2025-02-01T00:00:00.000Z");
+        expect(result.buckets).toEqual([
+          { bucket: "2025-01", value: 3, count: 3 },
+        ]);
+        expect(mockSumUsageRecordsByBucket).toHaveBeenCalledWith(
+          expect.any(Object),
+          "period"
+        );
+        expect(mockSumUsageByBucket).not.toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    test("lists adjustments in the range separately from records", async () => {
+      // Arrange
+      mockFindUsageAdjustments.mockResolvedValue([
+        {
+          id: "adj_1",
+          clerkOrgId,
+          usageCounterId: "counter_123",
+          periodKey: "2025-01",
+          metric: "api_call",
+          delta: -5,
+          usedBefore: 20,
+          usedAfter: 15,
+          reason: "Failed requests",
+          actorUserId: "user_123",
+          referenceRequestId: null,
+          createdAt: new Date("2025-01-03T00:00:00.000Z"),
+        },
+      ]);
+
+      // Act
+      const result = await getUsageHistory(clerkOrgId, {
+        metric: "api_call",
+        from,
+        to,
+        granularity: "day",
+        limit: 50,
+      });
+
+      // Assert
+      expect(result.records).toEqual([]);
+      expect(result.adjustments).toEqual([
+        expect.objectContaining({ id: "adj_1", type: "credit", delta: -5 }),
+      ]);
+      expect(mockFindUsageAdjustments).toHaveBeenCalledWith(clerkOrgId, {
+        metric: "api_call",
+        from: new Date(from),
+        to: new Date(to),
+        limit: 50,
+      });
+    });
+
+    test("maps records without a request ID to null", async () => {
+      // Arrange
+      mockFindUsageRecordsPage.mockResolvedValue([
+        { ...usageRecord("rec_1", "2025-01-02T08:00:00.000Z"), metadata: null },
+      ]);
+
+      // Act
+      const result = await getUsageHistory(clerkOrgId, {
+        metric: "api_call",
+        from,
+        to,
+        granularity: "day",
+        limit: 50,
+      });
+
+      // Assert
+      expect(result.records[0].requestId).toBeNull();
+    });
+
+    test("throws ValidationError when from is not before to", async () => {
+      await expect(
+        getUsageHistory(clerkOrgId, {
+          metric: "api_call",
+          from: to,
+          to: from,
+          granularity: "day",
+          limit: 50,
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mockSumUsageByBucket).not.toHaveBeenCalled();
+    });
+  });
+});
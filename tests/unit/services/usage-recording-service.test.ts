@@ -1,24 +1,50 @@
 /**
  * Unit Tests: Usage Recording Service
- * 
+ *
  * Tests the usage recording service layer business logic.
  */
 
-import { recordUsage } from "@/lib/services/usage/usage-recording-service";
+import {
+  recordUsage,
+  consumeUsage,
+  recordUsageBatch,
+} from "@/lib/services/usage/usage-recording-service";
 import {
   findOrganizationByClerkOrgId,
+  findOrganizationById,
 } from "@/lib/db/repositories/org-repository";
+import { findPoolMemberUsage } from "@/lib/db/repositories/pool-repository";
 import {
-  findActiveSubscriptionByOrganizationId,
-} from "@/lib/db/repositories/subscription-repository";
+  findMemberUsageCaps,
+  findMemberUsage,
+} from "@/lib/db/repositories/member-repository";
+import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
 import {
   findUsageCounter,
-  incrementUsageCounter,
-  createUsageRecord,
-  findUsageRecordByRequestId,
+  findUsageCountersCoveringTime,
   upsertUsageCounter,
+  consumeUsageCounterWithinQuota,
+  applyUsageBatch,
 } from "@/lib/db/repositories/usage-repository";
+import {
+  findIdempotencyKey,
+  findIdempotencyKeys,
+  IdempotencyKeyRecord,
+} from "@/lib/db/repositories/idempotency-repository";
+import { recordThresholdCrossings } from "@/lib/services/usage/usage-threshold-service";
+import {
+  drawCredits,
+  releaseCreditDraws,
+} from "@/lib/db/repositories/credit-repository";
+import { db } from "@/lib/db";
 import { ApplicationError } from "@/lib/utils/errors";
+import { QuotaExceededError } from "@/lib/errors/quota-errors";
+import { DuplicateRequestIdError } from "@/lib/errors/usage-errors";
+import {
+  mockOrganizationRecord,
+  mockSubscriptionRecord,
+  mockUsageCounterRecord,
+} from "../../helpers/mock-db";
 
 // Mock repositories
 jest.mock("@/lib/db/repositories/org-repository");
@@ -26,38 +52,93 @@ jest.mock("@/lib/db/repositories/subscription-repository");
 jest.mock("@/lib/db/repositories/usage-repository", () => ({
   ...jest.requireActual("@/lib/db/repositories/usage-repository"),
   findUsageCounter: jest.fn(),
-  incrementUsageCounter: jest.fn(),
-  createUsageRecord: jest.fn(),
-  findUsageRecordByRequestId: jest.fn(),
+  findUsageCountersCoveringTime: jest.fn(),
   upsertUsageCounter: jest.fn(),
+  consumeUsageCounterWithinQuota: jest.fn(),
+  applyUsageBatch: jest.fn(),
+}));
+jest.mock("@/lib/db/repositories/idempotency-repository");
+jest.mock("@/lib/db/repositories/pool-repository");
+jest.mock("@/lib/db/repositories/member-repository");
+jest.mock("@/lib/services/usage/usage-threshold-service");
+jest.mock("@/lib/db/repositories/credit-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/credit-repository"),
+  drawCredits: jest.fn(),
+  releaseCreditDraws: jest.fn(),
 }));
 
-const mockFindOrganizationByClerkOrgId = findOrganizationByClerkOrgId as jest.MockedFunction<
-  typeof findOrganizationByClerkOrgId
->;
+const mockRecordThresholdCrossings =
+  recordThresholdCrossings as jest.MockedFunction<
+    typeof recordThresholdCrossings
+  >;
+const mockFindOrganizationByClerkOrgId =
+  findOrganizationByClerkOrgId as jest.MockedFunction<
+    typeof findOrganizationByClerkOrgId
+  >;
 const mockFindActiveSubscriptionByOrganizationId =
   findActiveSubscriptionByOrganizationId as jest.MockedFunction<
     typeof findActiveSubscriptionByOrganizationId
   >;
-const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
-  typeof findUsageCounter
+const mockFindOrganizationById = findOrganizationById as jest.MockedFunction<
+  typeof findOrganizationById
 >;
-const mockIncrementUsageCounter = incrementUsageCounter as jest.MockedFunction<
-  typeof incrementUsageCounter
+const mockFindPoolMemberUsage = findPoolMemberUsage as jest.MockedFunction<
+  typeof findPoolMemberUsage
 >;
-const mockCreateUsageRecord = createUsageRecord as jest.MockedFunction<
-  typeof createUsageRecord
+const mockFindMemberUsageCaps = findMemberUsageCaps as jest.MockedFunction<
+  typeof findMemberUsageCaps
 >;
-const mockFindUsageRecordByRequestId = findUsageRecordByRequestId as jest.MockedFunction<
-  typeof findUsageRecordByRequestId
+const mockFindMemberUsage = findMemberUsage as jest.MockedFunction<
+  typeof findMemberUsage
 >;
+const mockFindUsageCounter = findUsageCounter as jest.MockedFunction<
+  typeof findUsageCounter
+>;
+const mockFindUsageCountersCoveringTime =
+  findUsageCountersCoveringTime as jest.MockedFunction<
+    typeof findUsageCountersCoveringTime
+  >;
 const mockUpsertUsageCounter = upsertUsageCounter as jest.MockedFunction<
   typeof upsertUsageCounter
 >;
+const mockConsumeUsageCounterWithinQuota =
+  consumeUsageCounterWithinQuota as jest.MockedFunction<
+    typeof consumeUsageCounterWithinQuota
+  >;
+const mockDrawCredits = drawCredits as jest.MockedFunction<typeof drawCredits>;
+const mockReleaseCreditDraws = releaseCreditDraws as jest.MockedFunction<
+  typeof releaseCreditDraws
+>;
+const mockFindIdempotencyKey = findIdempotencyKey as jest.MockedFunction<
+  typeof findIdempotencyKey
+>;
+const mockFindIdempotencyKeys = findIdempotencyKeys as jest.MockedFunction<
+  typeof findIdempotencyKeys
+>;
+
+function idempotencyKey(
+  requestId: string,
+  response: unknown
+): IdempotencyKeyRecord {
+  return {
+    id: `idem_${requestId}`,
+    clerkOrgId: "org_test_123",
+    requestId,
+    response,
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  };
+}
+const mockApplyUsageBatch = applyUsageBatch as jest.MockedFunction<
+  typeof applyUsageBatch
+>;
 
 describe("Usage Recording Service", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockFindIdempotencyKey.mockResolvedValue(null);
+    mockFindIdempotencyKeys.mockResolvedValue([]);
+    mockFindMemberUsageCaps.mockResolvedValue([]);
   });
 
   describe("recordUsage", () => {
@@ -85,8 +166,8 @@ describe("Usage Recording Service", () => {
       planCode: "starter",
       stripePriceId: "price_test",
       status: "active",
-      currentPeriodStart: new Date(2025, 0, 15),
-      currentPeriodEnd: new Date(2025, 1, 15),
+      currentPeriodStart: new Date("2025-01-15T08:00:00Z"),
+      currentPeriodEnd: new Date("2025-02-15T08:00:00Z"),
       trialEndsAt: null,
       organizationId: orgId,
       createdAt: new Date(),
@@ -96,9 +177,9 @@ describe("Usage Recording Service", () => {
     const mockUsageCounter = {
       id: counterId,
       clerkOrgId,
-      periodKey: "2025-01",
-      periodStart: new Date(2025, 0, 1),
-      periodEnd: new Date(2025, 1, 1),
+      periodKey: "2025-01-15",
+      periodStart: new Date("2025-01-15T08:00:00Z"),
+      periodEnd: new Date("2025-02-15T08:00:00Z"),
       metric: "api_call",
       included: 60,
       used: 15,
@@ -110,28 +191,15 @@ describe("Usage Recording Service", () => {
 
     test("records usage successfully", async () => {
       // Arrange
-      mockFindUsageRecordByRequestId.mockResolvedValue(null); // No existing record
       mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
       mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
         mockSubscription
       );
       mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
-      mockIncrementUsageCounter.mockResolvedValue({
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
         ...mockUsageCounter,
         used: 20, // 15 + 5
       });
-      mockCreateUsageRecord.mockResolvedValue({
-        id: "record_123",
-        clerkOrgId,
-        metric: "api_call",
-        value: 5,
-        occurredAt,
-        metadata: { request_id: requestId },
-        organizationId: orgId,
-        subscriptionId,
-        usageCounterId: counterId,
-        createdAt: new Date(),
-      });
 
       // Act
       const result = await recordUsage(
@@ -144,44 +212,51 @@ describe("Usage Recording Service", () => {
 
       // Assert
       expect(result).toEqual({
-        periodKey: "2025-01",
+        periodKey: "2025-01-15",
         used: 20,
         remaining: 40, // 60 - 20
       });
 
-      expect(mockFindUsageRecordByRequestId).toHaveBeenCalledWith(requestId);
-      expect(mockIncrementUsageCounter).toHaveBeenCalledWith(counterId, 5);
-      expect(mockCreateUsageRecord).toHaveBeenCalledWith({
+      expect(mockFindIdempotencyKey).toHaveBeenCalledWith(
+        clerkOrgId,
+        requestId,
+        expect.any(Date)
+      );
+      // Increment, usage record and idempotency key in one uncapped transaction
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith({
         organizationId: orgId,
         clerkOrgId,
         subscriptionId,
         usageCounterId: counterId,
         metric: "api_call",
         value: 5,
+        overageAllowance: null,
         occurredAt,
         metadata: { request_id: requestId },
+        idempotency: {
+          now: expect.any(Date),
+          expiresAt: expect.any(Date),
+          response: expect.any(Function),
+        },
       });
+      expect(mockRecordThresholdCrossings).toHaveBeenCalledWith(
+        { ...mockUsageCounter, used: 20 },
+        5
+      );
     });
 
-    test("returns existing result when request_id already exists (idempotent)", async () => {
-      // Arrange
-      const existingRecord = {
-        id: "record_existing_123",
-        clerkOrgId,
-        metric: "api_call",
-        value: 5,
-        occurredAt,
-        metadata: { request_id: requestId },
-        organizationId: orgId,
-        subscriptionId,
-        usageCounterId: counterId,
-        createdAt: new Date(),
-      };
-
-      mockFindUsageRecordByRequestId.mockResolvedValue(existingRecord);
+    test("returns the original response when request_id already exists (idempotent)", async () => {
+      // Arrange - counter has moved on since, the replay must not reflect that
+      mockFindIdempotencyKey.mockResolvedValue(
+        idempotencyKey(requestId, {
+          periodKey: "2025-01-15",
+          used: 20,
+          remaining: 40,
+        })
+      );
       mockFindUsageCounter.mockResolvedValue({
         ...mockUsageCounter,
-        used: 20, // Already recorded
+        used: 35,
       });
 
       // Act
@@ -195,46 +270,97 @@ describe("Usage Recording Service", () => {
 
       // Assert
       expect(result).toEqual({
-        periodKey: "2025-01",
+        periodKey: "2025-01-15",
         used: 20,
         remaining: 40,
       });
 
       // Should not increment or create new record
-      expect(mockIncrementUsageCounter).not.toHaveBeenCalled();
-      expect(mockCreateUsageRecord).not.toHaveBeenCalled();
+      expect(mockConsumeUsageCounterWithinQuota).not.toHaveBeenCalled();
+      expect(mockFindOrganizationByClerkOrgId).not.toHaveBeenCalled();
+    });
+
+    test("stores a response that expires after the idempotency window", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
+        ...mockUsageCounter,
+        used: 20,
+      });
+
+      // Act
+      await recordUsage(clerkOrgId, "api_call", 5, occurredAt, requestId);
+
+      // Assert
+      const [{ idempotency }] =
+        mockConsumeUsageCounterWithinQuota.mock.calls[0];
+      expect(idempotency.expiresAt.getTime() - idempotency.now.getTime()).toBe(
+        24 * 60 * 60 * 1000
+      );
+      expect(idempotency.response({ ...mockUsageCounter, used: 20 })).toEqual({
+        periodKey: "2025-01-15",
+        used: 20,
+        remaining: 40,
+      });
+    });
+
+    test("returns the concurrent winner's response when the request_id is claimed mid-flight", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockConsumeUsageCounterWithinQuota.mockRejectedValue(
+        new DuplicateRequestIdError("Usage already recorded")
+      );
+      mockFindIdempotencyKey.mockResolvedValueOnce(null).mockResolvedValueOnce(
+        idempotencyKey(requestId, {
+          periodKey: "2025-01-15",
+          used: 20,
+          remaining: 40,
+        })
+      );
+
+      // Act
+      const result = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        requestId
+      );
+
+      // Assert
+      expect(result).toEqual({
+        periodKey: "2025-01-15",
+        used: 20,
+        remaining: 40,
+      });
+      expect(mockRecordThresholdCrossings).not.toHaveBeenCalled();
     });
 
     test("creates usage counter if it doesn't exist", async () => {
       // Arrange
-      mockFindUsageRecordByRequestId.mockResolvedValue(null);
       mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
       mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
         mockSubscription
       );
       mockFindUsageCounter.mockResolvedValue(null); // Counter doesn't exist
-      
+
       const newCounter = {
         ...mockUsageCounter,
         used: 0,
       };
       mockUpsertUsageCounter.mockResolvedValue(newCounter);
-      mockIncrementUsageCounter.mockResolvedValue({
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
         ...newCounter,
         used: 5,
       });
-      mockCreateUsageRecord.mockResolvedValue({
-        id: "record_123",
-        clerkOrgId,
-        metric: "api_call",
-        value: 5,
-        occurredAt,
-        metadata: { request_id: requestId },
-        organizationId: orgId,
-        subscriptionId,
-        usageCounterId: counterId,
-        createdAt: new Date(),
-      });
 
       // Act
       const result = await recordUsage(
@@ -250,18 +376,18 @@ describe("Usage Recording Service", () => {
         organizationId: orgId,
         clerkOrgId,
         subscriptionId,
-        periodKey: "2025-01",
+        periodKey: "2025-01-15",
         periodStart: mockSubscription.currentPeriodStart,
         periodEnd: mockSubscription.currentPeriodEnd,
         metric: "api_call",
         included: 60, // From starter plan
+        rollover: { units: 0, lots: [] }, // starter rolls nothing over
       });
       expect(result.used).toBe(5);
     });
 
     test("throws error when organization not found", async () => {
       // Arrange
-      mockFindUsageRecordByRequestId.mockResolvedValue(null);
       mockFindOrganizationByClerkOrgId.mockResolvedValue(null);
 
       // Act & Assert
@@ -275,7 +401,6 @@ describe("Usage Recording Service", () => {
 
     test("throws error when no active subscription", async () => {
       // Arrange
-      mockFindUsageRecordByRequestId.mockResolvedValue(null);
       mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
       mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(null);
 
@@ -290,7 +415,6 @@ describe("Usage Recording Service", () => {
 
     test("handles negative remaining when over quota", async () => {
       // Arrange
-      mockFindUsageRecordByRequestId.mockResolvedValue(null);
       mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
       mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
         mockSubscription
@@ -299,36 +423,944 @@ describe("Usage Recording Service", () => {
         ...mockUsageCounter,
         used: 58, // Close to limit
       });
-      mockIncrementUsageCounter.mockResolvedValue({
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
         ...mockUsageCounter,
         used: 65, // Over quota (60 included)
       });
-      mockCreateUsageRecord.mockResolvedValue({
-        id: "record_123",
+
+      // Act
+      const result = await recordUsage(
         clerkOrgId,
-        metric: "api_call",
-        value: 7,
+        "api_call",
+        7,
         occurredAt,
-        metadata: { request_id: requestId },
+        requestId
+      );
+
+      // Assert
+      expect(result.used).toBe(65);
+      expect(result.remaining).toBe(-5); // Negative remaining indicates over-quota
+    });
+  });
+
+  describe("consumeUsage", () => {
+    const clerkOrgId = "org_test_123";
+    const orgId = "org_internal_123";
+    const subscriptionId = "sub_123";
+    const counterId = "counter_123";
+    const requestId = "req_consume_123";
+    const occurredAt = new Date(2025, 0, 15, 10, 30, 0);
+
+    const mockOrganization = {
+      id: orgId,
+      clerkOrgId,
+      name: "Test Org",
+      stripeCustomerId: "cus_test",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const mockSubscription = {
+      id: subscriptionId,
+      clerkOrgId,
+      stripeCustomerId: "cus_test",
+      stripeSubscriptionId: "sub_stripe_test",
+      planCode: "starter",
+      stripePriceId: "price_test",
+      status: "active",
+      currentPeriodStart: new Date("2025-01-15T08:00:00Z"),
+      currentPeriodEnd: new Date("2025-02-15T08:00:00Z"),
+      trialEndsAt: null,
+      organizationId: orgId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const mockUsageCounter = {
+      id: counterId,
+      clerkOrgId,
+      periodKey: "2025-01-15",
+      periodStart: new Date("2025-01-15T08:00:00Z"),
+      periodEnd: new Date("2025-02-15T08:00:00Z"),
+      metric: "api_call",
+      included: 60,
+      used: 58,
+      organizationId: orgId,
+      subscriptionId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    test("consumes usage when within quota", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
+        ...mockUsageCounter,
+        used: 60,
+      });
+
+      // Act
+      const result = await consumeUsage(
+        clerkOrgId,
+        "api_call",
+        2,
+        occurredAt,
+        requestId
+      );
+
+      // Assert
+      expect(result).toEqual({
+        periodKey: "2025-01-15",
+        used: 60,
+        remaining: 0,
+      });
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith({
         organizationId: orgId,
+        clerkOrgId,
         subscriptionId,
         usageCounterId: counterId,
-        createdAt: new Date(),
+        metric: "api_call",
+        value: 2,
+        overageAllowance: 0,
+        occurredAt,
+        metadata: { request_id: requestId },
+        idempotency: expect.objectContaining({
+          response: expect.any(Function),
+        }),
+      });
+    });
+
+    test("throws QuotaExceededError when consumption would exceed quota", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue(null);
+
+      // Act & Assert
+      const promise = consumeUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        requestId
+      );
+      await expect(promise).rejects.toThrow(QuotaExceededError);
+      await expect(promise).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+        statusCode: 429,
+        details: { metric: "api_call", remaining: 2 },
+      });
+    });
+
+    test("consumes a pool member's usage from its parent's counter", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue({
+        ...mockOrganization,
+        id: "org_internal_member",
+        clerkOrgId: "org_team_a",
+        parentOrganizationId: orgId,
+        poolCaps: { api_call: 10 },
+      });
+      mockFindOrganizationById.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
+        ...mockUsageCounter,
+        used: 60,
       });
 
       // Act
-      const result = await recordUsage(
+      await consumeUsage("org_team_a", "api_call", 2, occurredAt, requestId);
+
+      // Assert
+      expect(mockFindActiveSubscriptionByOrganizationId).toHaveBeenCalledWith(
+        orgId
+      );
+      expect(mockFindUsageCounter).toHaveBeenCalledWith(
+        clerkOrgId,
+        "2025-01-15",
+        "api_call"
+      );
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({
+          organizationId: "org_internal_member",
+          clerkOrgId: "org_team_a",
+          usageCounterId: counterId,
+          poolMember: { periodKey: "2025-01-15", cap: 10 },
+        })
+      );
+    });
+
+    test("denies a pool member past its cap with the cap as the limit", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue({
+        ...mockOrganization,
+        clerkOrgId: "org_team_a",
+        parentOrganizationId: orgId,
+        poolCaps: { api_call: 10 },
+      });
+      mockFindOrganizationById.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue({ ...mockUsageCounter, used: 20 });
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue(null);
+      mockFindPoolMemberUsage.mockResolvedValue([
+        {
+          id: "pool_usage_123",
+          usageCounterId: counterId,
+          clerkOrgId: "org_team_a",
+          periodKey: "2025-01-15",
+          metric: "api_call",
+          used: 9,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      // Act & Assert
+      await expect(
+        consumeUsage("org_team_a", "api_call", 2, occurredAt, requestId)
+      ).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+        details: { limit: 10, used: 9, remaining: 1, upgrade: null },
+      });
+    });
+
+    test("attributes consumed usage to the calling user within their cap", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockFindMemberUsageCaps.mockResolvedValue([
+        {
+          id: "member_cap_123",
+          clerkOrgId,
+          userId: "user_runaway",
+          metric: "api_call",
+          cap: 10,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
+        ...mockUsageCounter,
+        used: 60,
+      });
+
+      // Act
+      await consumeUsage(
         clerkOrgId,
         "api_call",
-        7,
+        2,
+        occurredAt,
+        requestId,
+        "user_runaway"
+      );
+
+      // Assert
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: { request_id: requestId, user_id: "user_runaway" },
+          member: { userId: "user_runaway", periodKey: "2025-01-15", cap: 10 },
+        })
+      );
+    });
+
+    test("denies a member past their cap with the cap as the limit", async () => {
+      // Arrange: the organization has quota left, the member does not
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue({ ...mockUsageCounter, used: 20 });
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue(null);
+      mockFindMemberUsageCaps.mockResolvedValue([
+        {
+          id: "member_cap_123",
+          clerkOrgId,
+          userId: "user_runaway",
+          metric: "api_call",
+          cap: 10,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+      mockFindMemberUsage.mockResolvedValue([
+        {
+          id: "member_usage_123",
+          usageCounterId: counterId,
+          clerkOrgId,
+          userId: "user_runaway",
+          periodKey: "2025-01-15",
+          metric: "api_call",
+          used: 9,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      // Act & Assert
+      await expect(
+        consumeUsage(
+          clerkOrgId,
+          "api_call",
+          2,
+          occurredAt,
+          requestId,
+          "user_runaway"
+        )
+      ).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+        message: "Member usage cap exceeded",
+        details: { limit: 10, used: 9, remaining: 1, upgrade: null },
+      });
+    });
+
+    test("draws prepaid credits before consuming past included", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      (db.creditGrant.aggregate as jest.Mock).mockResolvedValueOnce({
+        _sum: { remaining: 10 },
+      });
+      mockDrawCredits.mockResolvedValue([
+        { creditGrantId: "grant_1", amount: 3 },
+      ]);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
+        ...mockUsageCounter,
+        included: 63,
+        used: 63,
+      });
+
+      // Act
+      const result = await consumeUsage(
+        clerkOrgId,
+        "api_call",
+        5,
         occurredAt,
         requestId
       );
 
       // Assert
-      expect(result.used).toBe(65);
-      expect(result.remaining).toBe(-5); // Negative remaining indicates over-quota
+      expect(result).toEqual({
+        periodKey: "2025-01-15",
+        used: 63,
+        remaining: 0,
+      });
+      expect(mockDrawCredits).toHaveBeenCalledWith(
+        mockUsageCounter,
+        3,
+        expect.any(Date)
+      );
+      // Burst allowance stays a share of the plan quota (hard cap: 0)
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({ value: 5, overageAllowance: 0 })
+      );
+    });
+
+    test("returns drawn credits when the consumption is denied", async () => {
+      // Arrange - a concurrent consume takes the headroom the credits made
+      const draws = [{ creditGrantId: "grant_1", amount: 3 }];
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      (db.creditGrant.aggregate as jest.Mock).mockResolvedValueOnce({
+        _sum: { remaining: 10 },
+      });
+      mockDrawCredits.mockResolvedValue(draws);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        consumeUsage(clerkOrgId, "api_call", 5, occurredAt, requestId)
+      ).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+        details: { limit: 60, used: 58, remaining: 2 },
+      });
+      expect(mockReleaseCreditDraws).toHaveBeenCalledWith(
+        expect.objectContaining({ id: counterId, included: 63 }),
+        draws
+      );
+    });
+
+    test("caps consumption at the plan's burst allowance on soft plans", async () => {
+      // Arrange - growth: 300 included, 20% burst = 60
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "growth",
+      });
+      mockFindUsageCounter.mockResolvedValue({
+        ...mockUsageCounter,
+        included: 300,
+        used: 310,
+      });
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
+        ...mockUsageCounter,
+        included: 300,
+        used: 315,
+      });
+
+      // Act
+      const result = await consumeUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        requestId
+      );
+
+      // Assert
+      expect(result).toEqual({
+        periodKey: "2025-01-15",
+        used: 315,
+        remaining: -15,
+      });
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({ overageAllowance: 60 })
+      );
+    });
+
+    test("does not cap consumption on unlimited plans", async () => {
+      // Arrange
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(mockOrganization);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        ...mockSubscription,
+        planCode: "pro",
+      });
+      mockFindUsageCounter.mockResolvedValue(mockUsageCounter);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
+        ...mockUsageCounter,
+        used: 63,
+      });
+
+      // Act
+      await consumeUsage(clerkOrgId, "api_call", 5, occurredAt, requestId);
+
+      // Assert
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({ overageAllowance: null })
+      );
+    });
+
+    test("returns the original response when request_id already exists (idempotent)", async () => {
+      // Arrange
+      mockFindIdempotencyKey.mockResolvedValue(
+        idempotencyKey(requestId, {
+          periodKey: "2025-01-15",
+          used: 60,
+          remaining: 0,
+        })
+      );
+
+      // Act
+      const result = await consumeUsage(
+        clerkOrgId,
+        "api_call",
+        2,
+        occurredAt,
+        requestId
+      );
+
+      // Assert
+      expect(result).toEqual({
+        periodKey: "2025-01-15",
+        used: 60,
+        remaining: 0,
+      });
+      expect(mockConsumeUsageCounterWithinQuota).not.toHaveBeenCalled();
     });
   });
-});
 
+  describe("recordUsageBatch", () => {
+    const clerkOrgId = "org_test456";
+    const occurredAt = new Date(2025, 0, 15, 10, 30, 0);
+    const item = (requestId: string, value: number, metric = "api_call") => ({
+      metric,
+      value,
+      occurredAt,
+      requestId,
+    });
+
+    beforeEach(() => {
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord()
+      );
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({ clerkOrgId })
+      );
+      mockFindUsageCounter.mockImplementation(
+        async (_clerkOrgId, _periodKey, metric) => ({
+          ...mockUsageCounterRecord({ used: 10 }),
+          id: `counter_${metric}`,
+          metric,
+        })
+      );
+      mockApplyUsageBatch.mockImplementation(async ({ increments }) =>
+        increments.map((increment) => ({
+          ...mockUsageCounterRecord({ used: 10 + increment.value }),
+          id: increment.usageCounterId,
+          metric: increment.usageCounterId.replace("counter_", ""),
+        }))
+      );
+    });
+
+    test("aggregates increments per counter and records every item", async () => {
+      // Act
+      const result = await recordUsageBatch(clerkOrgId, [
+        item("req_1", 5),
+        item("req_2", 3),
+        item("req_3", 2, "token"),
+      ]);
+
+      // Assert
+      expect(mockApplyUsageBatch).toHaveBeenCalledTimes(1);
+      const [{ increments, records }] = mockApplyUsageBatch.mock.calls[0];
+      expect(increments).toEqual([
+        { usageCounterId: "counter_api_call", value: 8 },
+        { usageCounterId: "counter_token", value: 2 },
+      ]);
+      expect(records.map((record) => record.metadata.request_id)).toEqual([
+        "req_1",
+        "req_2",
+        "req_3",
+      ]);
+      expect(result).toMatchObject({
+        recorded: 3,
+        duplicates: 0,
+        rejected: 0,
+        counters: [
+          {
+            metric: "api_call",
+            periodKey: "2025-01-15",
+            used: 18,
+            remaining: 42,
+          },
+          { metric: "token", periodKey: "2025-01-15", used: 12, remaining: 48 },
+        ],
+      });
+      expect(result.results.map((r) => r.status)).toEqual([
+        "recorded",
+        "recorded",
+        "recorded",
+      ]);
+      expect(mockRecordThresholdCrossings).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "counter_api_call" }),
+        8
+      );
+    });
+
+    test("marks previously recorded and repeated request_ids as duplicates", async () => {
+      // Arrange
+      mockFindIdempotencyKeys.mockResolvedValue([
+        idempotencyKey("req_1", {
+          periodKey: "2025-01-15",
+          used: 15,
+          remaining: 45,
+        }),
+      ]);
+
+      // Act
+      const result = await recordUsageBatch(clerkOrgId, [
+        item("req_1", 5),
+        item("req_2", 3),
+        item("req_2", 3),
+      ]);
+
+      // Assert
+      expect(result.results).toEqual([
+        { index: 0, request_id: "req_1", status: "duplicate" },
+        { index: 1, request_id: "req_2", status: "recorded" },
+        { index: 2, request_id: "req_2", status: "duplicate" },
+      ]);
+      expect(mockFindIdempotencyKeys).toHaveBeenCalledWith(
+        clerkOrgId,
+        ["req_1", "req_2"],
+        expect.any(Date)
+      );
+      expect(mockApplyUsageBatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          increments: [{ usageCounterId: "counter_api_call", value: 3 }],
+          idempotency: expect.objectContaining({
+            response: expect.any(Function),
+          }),
+        })
+      );
+    });
+
+    test("fails the whole batch when a request_id is recorded concurrently", async () => {
+      // Arrange
+      mockApplyUsageBatch.mockRejectedValue(
+        new DuplicateRequestIdError("Usage already recorded")
+      );
+
+      // Act & Assert
+      await expect(
+        recordUsageBatch(clerkOrgId, [item("req_1", 5)])
+      ).rejects.toMatchObject({ code: "CONFLICT", statusCode: 409 });
+      expect(mockRecordThresholdCrossings).not.toHaveBeenCalled();
+    });
+
+    test("returns credits drawn for a batch that fails to apply", async () => {
+      // Arrange - 10 of 60 used, so 55 more draws 5 credits
+      const draws = [{ creditGrantId: "grant_1", amount: 5 }];
+      (db.creditGrant.aggregate as jest.Mock).mockResolvedValueOnce({
+        _sum: { remaining: 10 },
+      });
+      mockDrawCredits.mockResolvedValue(draws);
+      mockApplyUsageBatch.mockRejectedValue(
+        new DuplicateRequestIdError("Usage already recorded")
+      );
+
+      // Act & Assert
+      await expect(
+        recordUsageBatch(clerkOrgId, [item("req_1", 55)])
+      ).rejects.toMatchObject({ code: "CONFLICT" });
+      expect(mockReleaseCreditDraws).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "counter_api_call", included: 65 }),
+        draws
+      );
+    });
+
+    test("rejects invalid items and metrics outside the plan without failing the batch", async () => {
+      // Arrange - counters don't exist yet, so the plan quota is looked up
+      mockFindUsageCounter.mockResolvedValue(null);
+      mockUpsertUsageCounter.mockImplementation(async (data) => ({
+        ...mockUsageCounterRecord(),
+        id: `counter_${data.metric}`,
+        metric: data.metric,
+      }));
+
+      // Act
+      const result = await recordUsageBatch(clerkOrgId, [
+        { requestId: "req_bad", validationError: "value: Too small" },
+        item("req_1", 5),
+        item("req_2", 1, "unknown_metric"),
+      ]);
+
+      // Assert
+      expect(result.results).toEqual([
+        {
+          index: 0,
+          request_id: "req_bad",
+          status: "rejected",
+          code: "VALIDATION_ERROR",
+          reason: "value: Too small",
+        },
+        { index: 1, request_id: "req_1", status: "recorded" },
+        {
+          index: 2,
+          request_id: "req_2",
+          status: "rejected",
+          code: "UNKNOWN_METRIC",
+          reason: expect.stringContaining("unknown_metric"),
+        },
+      ]);
+      expect(result).toMatchObject({ recorded: 1, rejected: 2 });
+    });
+
+    test("does not touch counters when nothing is left to record", async () => {
+      // Act
+      const result = await recordUsageBatch(clerkOrgId, [
+        { requestId: null, validationError: "request_id: Required" },
+      ]);
+
+      // Assert
+      expect(result).toMatchObject({ recorded: 0, rejected: 1, counters: [] });
+      expect(mockApplyUsageBatch).not.toHaveBeenCalled();
+    });
+
+    test("throws when the organization has no active subscription", async () => {
+      // Arrange
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        recordUsageBatch(clerkOrgId, [item("req_1", 5)])
+      ).rejects.toMatchObject({ code: "NO_ACTIVE_SUBSCRIPTION" });
+      expect(mockApplyUsageBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("backdated usage", () => {
+    const clerkOrgId = "org_test456";
+    const hour = 60 * 60 * 1000;
+    const currentPeriodStart = new Date(Date.now() - 2 * hour);
+    const previousPeriodStart = new Date(Date.now() - 30 * 24 * hour);
+    const occurredAt = new Date(Date.now() - 5 * hour);
+
+    const currentCounter = {
+      ...mockUsageCounterRecord({ periodKey: "current", used: 10 }),
+      id: "counter_current",
+      periodStart: currentPeriodStart,
+      periodEnd: new Date(currentPeriodStart.getTime() + 30 * 24 * hour),
+    };
+    const previousCounter = {
+      ...mockUsageCounterRecord({ periodKey: "previous", used: 50 }),
+      id: "counter_previous",
+      periodStart: previousPeriodStart,
+      periodEnd: currentPeriodStart,
+    };
+
+    beforeEach(() => {
+      mockFindOrganizationByClerkOrgId.mockResolvedValue(
+        mockOrganizationRecord()
+      );
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({ clerkOrgId, currentPeriodStart })
+      );
+      mockFindUsageCounter.mockResolvedValue(currentCounter);
+      mockFindUsageCountersCoveringTime.mockResolvedValue([previousCounter]);
+    });
+
+    test("attributes usage to the period it occurred in", async () => {
+      // Arrange
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
+        ...previousCounter,
+        used: 55,
+      });
+
+      // Act
+      const result = await recordUsage(
+        clerkOrgId,
+        "api_call",
+        5,
+        occurredAt,
+        "req_late"
+      );
+
+      // Assert
+      expect(result).toEqual({ periodKey: "previous", used: 55, remaining: 5 });
+      expect(mockFindUsageCountersCoveringTime).toHaveBeenCalledWith(
+        clerkOrgId,
+        occurredAt
+      );
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({
+          usageCounterId: "counter_previous",
+          subscriptionId: previousCounter.subscriptionId,
+          occurredAt,
+        })
+      );
+      expect(mockFindUsageCounter).not.toHaveBeenCalled();
+    });
+
+    test("creates the metric's counter in the earlier period from the plan quota", async () => {
+      // Arrange - only another metric was used in that period
+      mockFindUsageCountersCoveringTime.mockResolvedValue([
+        { ...previousCounter, id: "counter_token", metric: "token" },
+      ]);
+      mockUpsertUsageCounter.mockResolvedValue(previousCounter);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue({
+        ...previousCounter,
+        used: 51,
+      });
+
+      // Act
+      await consumeUsage(clerkOrgId, "api_call", 1, occurredAt, "req_late");
+
+      // Assert
+      expect(mockUpsertUsageCounter).toHaveBeenCalledWith(
+        expect.objectContaining({
+          periodKey: "previous",
+          periodStart: previousPeriodStart,
+          periodEnd: currentPeriodStart,
+          metric: "api_call",
+          included: 60,
+        })
+      );
+    });
+
+    test("holds a capped user to their member cap in the earlier period", async () => {
+      // Arrange
+      mockFindMemberUsageCaps.mockResolvedValue([
+        {
+          id: "member_cap_123",
+          clerkOrgId,
+          userId: "user_runaway",
+          metric: "api_call",
+          cap: 10,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+      mockFindMemberUsage.mockResolvedValue([
+        {
+          id: "member_usage_123",
+          usageCounterId: "counter_previous",
+          clerkOrgId,
+          userId: "user_runaway",
+          periodKey: "previous",
+          metric: "api_call",
+          used: 9,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        consumeUsage(
+          clerkOrgId,
+          "api_call",
+          2,
+          occurredAt,
+          "req_late",
+          "user_runaway"
+        )
+      ).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+        message: "Member usage cap exceeded",
+        details: { limit: 10, used: 9, remaining: 1 },
+      });
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({
+          usageCounterId: "counter_previous",
+          member: { userId: "user_runaway", periodKey: "previous", cap: 10 },
+        })
+      );
+    });
+
+    test("applies an anomaly hard cap to usage in the earlier period", async () => {
+      // Arrange - growth is a soft plan with a burst allowance
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({
+          clerkOrgId,
+          planCode: "growth",
+          currentPeriodStart,
+        })
+      );
+      mockFindUsageCountersCoveringTime.mockResolvedValue([
+        { ...previousCounter, included: 300, used: 300 },
+      ]);
+      (db.usageAnomaly.findMany as jest.Mock).mockResolvedValueOnce([
+        {
+          id: "anomaly_123",
+          clerkOrgId,
+          metric: "api_call",
+          capUntil: new Date(Date.now() + hour),
+        },
+      ]);
+      mockConsumeUsageCounterWithinQuota.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        consumeUsage(clerkOrgId, "api_call", 5, occurredAt, "req_late")
+      ).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+        details: { mode: "hard" },
+      });
+      expect(mockConsumeUsageCounterWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({
+          usageCounterId: "counter_previous",
+          overageAllowance: 0,
+        })
+      );
+    });
+
+    test("rejects usage for a period that closed beyond the late usage window", async () => {
+      // Arrange - the previous period ended 25 hours ago
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscriptionRecord({
+          clerkOrgId,
+          currentPeriodStart: new Date(Date.now() - 25 * hour),
+        })
+      );
+
+      // Act & Assert
+      await expect(
+        recordUsage(
+          clerkOrgId,
+          "api_call",
+          5,
+          new Date(Date.now() - 26 * hour),
+          "req_late"
+        )
+      ).rejects.toMatchObject({ code: "USAGE_TOO_LATE", statusCode: 422 });
+      expect(mockFindUsageCountersCoveringTime).not.toHaveBeenCalled();
+      expect(mockConsumeUsageCounterWithinQuota).not.toHaveBeenCalled();
+    });
+
+    test("rejects usage that falls in no known period", async () => {
+      // Arrange
+      mockFindUsageCountersCoveringTime.mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(
+        recordUsage(clerkOrgId, "api_call", 5, occurredAt, "req_late")
+      ).rejects.toMatchObject({
+        code: "USAGE_PERIOD_NOT_FOUND",
+        statusCode: 422,
+      });
+      expect(mockConsumeUsageCounterWithinQuota).not.toHaveBeenCalled();
+    });
+
+    test("splits a batch across periods and rejects items outside any known period", async () => {
+      // Arrange
+      mockFindUsageCountersCoveringTime.mockImplementation(async (_org, at) =>
+        at < previousPeriodStart ? [] : [previousCounter]
+      );
+      mockApplyUsageBatch.mockImplementation(async ({ increments }) =>
+        increments.map((increment) =>
+          increment.usageCounterId === "counter_previous"
+            ? previousCounter
+            : currentCounter
+        )
+      );
+
+      // Act
+      const result = await recordUsageBatch(clerkOrgId, [
+        {
+          metric: "api_call",
+          value: 1,
+          occurredAt: new Date(),
+          requestId: "req_1",
+        },
+        { metric: "api_call", value: 2, occurredAt, requestId: "req_2" },
+        {
+          metric: "api_call",
+          value: 3,
+          occurredAt: new Date(occurredAt.getTime() - hour),
+          requestId: "req_3",
+        },
+        {
+          metric: "api_call",
+          value: 4,
+          occurredAt: new Date(previousPeriodStart.getTime() - hour),
+          requestId: "req_4",
+        },
+      ]);
+
+      // Assert
+      expect(mockApplyUsageBatch.mock.calls[0][0].increments).toEqual([
+        { usageCounterId: "counter_current", value: 1 },
+        { usageCounterId: "counter_previous", value: 5 },
+      ]);
+      // The second earlier-period item reuses the resolved counter
+      expect(mockFindUsageCountersCoveringTime).toHaveBeenCalledTimes(2);
+      expect(result.results[3]).toMatchObject({
+        status: "rejected",
+        code: "USAGE_PERIOD_NOT_FOUND",
+      });
+      expect(result).toMatchObject({ recorded: 3, rejected: 1 });
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Unit Tests: Usage Rollup Service
+ *
+ * Tests reading bucketed usage from rollups and raw records, and rebuilding
+ * rollups
+ */
+
+import {
+  planUsageRollupSegments,
+  sumUsageByBucket,
+  rebuildUsageRollups,
+} from "@/lib/services/usage/usage-rollup-service";
+import {
+  findUsageRollups,
+  rebuildUsageRollupsForDay,
+  sumUsageRecordsIntoRollups,
+} from "@/lib/db/repositories/usage-rollup-repository";
+import { ValidationError } from "@/lib/utils/errors";
+
+// Mock repositories, keeping the bucket helpers
+jest.mock("@/lib/db/repositories/usage-rollup-repository", () => ({
+  ...jest.requireActual("@/lib/db/repositories/usage-rollup-repository"),
+  findUsageRollups: jest.fn(),
+  rebuildUsageRollupsForDay: jest.fn(),
+  sumUsageRecordsIntoRollups: jest.fn(),
+}));
+
+const mockFindUsageRollups = findUsageRollups as jest.MockedFunction<
+  typeof findUsageRollups
+>;
+const mockRebuildUsageRollupsForDay =
+  rebuildUsageRollupsForDay as jest.MockedFunction<
+    typeof rebuildUsageRollupsForDay
+  >;
+const mockSumUsageRecordsIntoRollups =
+  sumUsageRecordsIntoRollups as jest.MockedFunction<
+    typeof sumUsageRecordsIntoRollups
+  >;
+
+function rollup(metric: string, bucket: string, value: number, count = 1) {
+  return {
+    clerkOrgId: "org_test456",
+    metric,
+    bucket: new Date(bucket),
+    value,
+    count,
+  };
+}
+
+describe("Usage Rollup Service", () => {
+  const clerkOrgId = "org_test456";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFindUsageRollups.mockResolvedValue([]);
+    mockSumUsageRecordsIntoRollups.mockResolvedValue([]);
+    mockRebuildUsageRollupsForDay.mockResolvedValue({ hourly: 24, daily: 2 });
+  });
+
+  describe("planUsageRollupSegments", () => {
+    const segments = (from: string, to: string, granularity: "hour" | "day") =>
+      planUsageRollupSegments(new Date(from), new Date(to), granularity).map(
+        (segment) => [
+          segment.source,
+          segment.from.toISOString(),
+          segment.to.toISOString(),
+        ]
+      );
+
+    test("reads whole hours from rollups and partial hours from records", () => {
+      expect(
+        segments("2025-01-01T08:30:00Z", "2025-01-01T12:15:00Z", "hour")
+      ).toEqual([
+        ["records", "2025-01-01T08:30:00.000Z", "2025-01-01T09:00:00.000Z"],
+        ["hour", "2025-01-01T09:00:00.000Z", "2025-01-01T12:00:00.000Z"],
+        ["records", "2025-01-01T12:00:00.000Z", "2025-01-01T12:15:00.000Z"],
+      ]);
+    });
+
+    test("reads whole days from daily rollups for day buckets", () => {
+      expect(
+        segments("2025-01-01T22:00:00Z", "2025-01-04T03:00:00Z", "day")
+      ).toEqual([
+        ["hour", "2025-01-01T22:00:00.000Z", "2025-01-02T00:00:00.000Z"],
+        ["day", "2025-01-02T00:00:00.000Z", "2025-01-04T00:00:00.000Z"],
+        ["hour", "2025-01-04T00:00:00.000Z", "2025-01-04T03:00:00.000Z"],
+      ]);
+    });
+
+    test("reads only records for a range within one hour", () => {
+      expect(
+        segments("2025-01-01T08:10:00Z", "2025-01-01T08:50:00Z", "day")
+      ).toEqual([
+        ["records", "2025-01-01T08:10:00.000Z", "2025-01-01T08:50:00.000Z"],
+      ]);
+    });
+  });
+
+  describe("sumUsageByBucket", () => {
+    test("merges rollups and records into one sum per metric and bucket", async () => {
+      // Arrange
+      mockFindUsageRollups.mockImplementation(async (granularity) =>
+        granularity === "day"
+          ? [rollup("api_call", "2025-01-02T00:00:00Z", 100, 90)]
+          : [rollup("api_call", "2025-01-01T23:00:00Z", 5, 5)]
+      );
+      mockSumUsageRecordsIntoRollups.mockResolvedValue([
+        rollup("api_call", "2025-01-01T00:00:00Z", 2, 2),
+        rollup("storage_gb", "2025-01-01T00:00:00Z", 7, 1),
+      ]);
+
+      // Act
+      const result = await sumUsageByBucket(
+        {
+          clerkOrgId,
+          from: new Date("2025-01-01T22:30:00Z"),
+          to: new Date("2025-01-03T00:00:00Z"),
+        },
+        "day"
+      );
+
+      // Assert
+      expect(result).toEqual([
+        {
+          metric: "api_call",
+          bucket: "2025-01-01T00:00:00.000Z",
+          value: 7,
+          count: 7,
+        },
+        {
+          metric: "storage_gb",
+          bucket: "2025-01-01T00:00:00.000Z",
+          value: 7,
+          count: 1,
+        },
+        {
+          metric: "api_call",
+          bucket: "2025-01-02T00:00:00.000Z",
+          value: 100,
+          count: 90,
+        },
+      ]);
+      expect(mockSumUsageRecordsIntoRollups).toHaveBeenCalledWith(
+        {
+          clerkOrgId,
+          from: new Date("2025-01-01T22:30:00Z"),
+          to: new Date("2025-01-01T23:00:00Z"),
+        },
+        "day"
+      );
+      expect(mockFindUsageRollups).toHaveBeenCalledWith("day", {
+        clerkOrgId,
+        from: new Date("2025-01-02T00:00:00Z"),
+        to: new Date("2025-01-03T00:00:00Z"),
+      });
+    });
+
+    test("passes the metric filter to every source", async () => {
+      // Act
+      await sumUsageByBucket(
+        {
+          clerkOrgId,
+          metric: "api_call",
+          from: new Date("2025-01-01T08:30:00Z"),
+          to: new Date("2025-01-01T10:30:00Z"),
+        },
+        "hour"
+      );
+
+      // Assert
+      expect(mockFindUsageRollups).toHaveBeenCalledWith(
+        "hour",
+        expect.objectContaining({ metric: "api_call" })
+      );
+      expect(mockSumUsageRecordsIntoRollups).toHaveBeenCalledTimes(2);
+      expect(mockSumUsageRecordsIntoRollups).toHaveBeenCalledWith(
+        expect.objectContaining({ metric: "api_call" }),
+        "hour"
+      );
+    });
+  });
+
+  describe("rebuildUsageRollups", () => {
+    test("rebuilds every UTC day the range touches", async () => {
+      // Act
+      const result = await rebuildUsageRollups({
+        from: new Date("2025-01-01T06:00:00Z"),
+        to: new Date("2025-01-02T18:00:00Z"),
+        clerkOrgId,
+      });
+
+      // Assert
+      expect(result).toEqual({
+        from: "2025-01-01T00:00:00.000Z",
+        to: "2025-01-03T00:00:00.000Z",
+        days: 2,
+        hourlyBuckets: 48,
+        dailyBuckets: 4,
+      });
+      expect(mockRebuildUsageRollupsForDay.mock.calls).toEqual([
+        [new Date("2025-01-01T00:00:00Z"), clerkOrgId],
+        [new Date("2025-01-02T00:00:00Z"), clerkOrgId],
+      ]);
+    });
+
+    test("throws ValidationError for ranges longer than the limit", async () => {
+      // Act & Assert
+      await expect(
+        rebuildUsageRollups({
+          from: new Date("2024-01-01T00:00:00Z"),
+          to: new Date("2025-01-01T00:00:00Z"),
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRebuildUsageRollupsForDay).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,12 +1,10 @@
 /**
  * Unit Tests: Usage Service
- * 
+ *
  * Tests business logic for usage counter operations
  */
 
-import {
-  seedUsageCounter,
-} from "@/lib/services/usage/usage-service";
+import { seedUsageCounter } from "@/lib/services/usage/usage-service";
 import { findActiveSubscriptionByOrganizationId } from "@/lib/db/repositories/subscription-repository";
 import { findOrganizationById } from "@/lib/db/repositories/org-repository";
 import { upsertUsageCounter } from "@/lib/db/repositories/usage-repository";
@@ -20,9 +18,10 @@ jest.mock("@/lib/db/repositories/usage-repository", () => ({
   upsertUsageCounter: jest.fn(),
 }));
 
-const mockFindActiveSubscriptionByOrganizationId = findActiveSubscriptionByOrganizationId as jest.MockedFunction<
-  typeof findActiveSubscriptionByOrganizationId
->;
+const mockFindActiveSubscriptionByOrganizationId =
+  findActiveSubscriptionByOrganizationId as jest.MockedFunction<
+    typeof findActiveSubscriptionByOrganizationId
+  >;
 const mockFindOrganizationById = findOrganizationById as jest.MockedFunction<
   typeof findOrganizationById
 >;
@@ -39,9 +38,8 @@ describe("Usage Service", () => {
     const orgId = "org_internal_123";
     const clerkOrgId = "org_test456";
     const subscriptionId = "sub_internal_789";
-    const now = new Date();
-    const periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    const periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+    const periodStart = new Date("2025-11-01T07:00:00Z"); // midnight in Los Angeles
+    const periodEnd = new Date("2025-12-01T08:00:00Z");
 
     test("seeds usage counter successfully for trial plan", async () => {
       // Arrange
@@ -73,7 +71,7 @@ describe("Usage Service", () => {
       const mockCounter = {
         id: "counter_123",
         clerkOrgId,
-        periodKey: "2025-11",
+        periodKey: "2025-11-01",
         periodStart,
         periodEnd,
         metric: "api_call",
@@ -85,7 +83,9 @@ describe("Usage Service", () => {
         updatedAt: new Date(),
       };
 
-      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
       mockFindOrganizationById.mockResolvedValue(mockOrg);
       mockUpsertUsageCounter.mockResolvedValue(mockCounter);
 
@@ -93,18 +93,90 @@ describe("Usage Service", () => {
       const result = await seedUsageCounter(orgId);
 
       // Assert
-      expect(result.periodKey).toBe("2025-11");
+      expect(result.periodKey).toBe("2025-11-01");
       expect(result.remaining).toBe(30);
       expect(mockUpsertUsageCounter).toHaveBeenCalledWith({
         organizationId: orgId,
         clerkOrgId,
         subscriptionId,
-        periodKey: "2025-11",
+        periodKey: "2025-11-01",
         periodStart,
         periodEnd,
         metric: "api_call",
         included: 30,
+        rollover: { units: 0, lots: [] },
+      });
+    });
+
+    test("seeds one usage counter per metric in the plan", async () => {
+      // Arrange
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue({
+        id: subscriptionId,
+        clerkOrgId,
+        stripeCustomerId: "cus_test",
+        stripeSubscriptionId: "sub_stripe_test",
+        planCode: "growth",
+        stripePriceId: "price_test",
+        status: "active",
+        currentPeriodStart: periodStart,
+        currentPeriodEnd: periodEnd,
+        trialEndsAt: null,
+        organizationId: orgId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockFindOrganizationById.mockResolvedValue({
+        id: orgId,
+        clerkOrgId,
+        name: "Test Org",
+        stripeCustomerId: "cus_test",
+        createdAt: new Date(),
+        updatedAt: new Date(),
       });
+      mockUpsertUsageCounter.mockImplementation(async (data) => ({
+        id: `counter_${data.metric}`,
+        ...data,
+        used: data.metric === "token" ? 500 : 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }));
+
+      // Act
+      const result = await seedUsageCounter(orgId);
+
+      // Assert
+      expect(mockUpsertUsageCounter).toHaveBeenCalledTimes(4);
+      expect(result.remaining).toBe(300);
+      expect(result.counters).toEqual([
+        {
+          metric: "api_call",
+          included: 300,
+          rolledOver: 0,
+          used: 0,
+          remaining: 300,
+        },
+        {
+          metric: "token",
+          included: 1000000,
+          rolledOver: 0,
+          used: 500,
+          remaining: 999500,
+        },
+        {
+          metric: "storage_gb",
+          included: 25,
+          rolledOver: 0,
+          used: 0,
+          remaining: 25,
+        },
+        {
+          metric: "export",
+          included: 100,
+          rolledOver: 0,
+          used: 0,
+          remaining: 100,
+        },
+      ]);
     });
 
     test("seeds usage counter for different plan codes", async () => {
@@ -145,7 +217,7 @@ describe("Usage Service", () => {
         const mockCounter = {
           id: `counter_${code}`,
           clerkOrgId,
-          periodKey: "2025-11",
+          periodKey: "2025-11-01",
           periodStart,
           periodEnd,
           metric: "api_call",
@@ -157,7 +229,9 @@ describe("Usage Service", () => {
           updatedAt: new Date(),
         };
 
-        mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+        mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+          mockSubscription
+        );
         mockFindOrganizationById.mockResolvedValue(mockOrg);
         mockUpsertUsageCounter.mockResolvedValue(mockCounter);
 
@@ -204,7 +278,7 @@ describe("Usage Service", () => {
       const mockCounter = {
         id: "counter_123",
         clerkOrgId,
-        periodKey: "2025-11",
+        periodKey: "2025-11-01",
         periodStart,
         periodEnd,
         metric: "api_call",
@@ -216,7 +290,9 @@ describe("Usage Service", () => {
         updatedAt: new Date(),
       };
 
-      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
       mockFindOrganizationById.mockResolvedValue(mockOrg);
       mockUpsertUsageCounter.mockResolvedValue(mockCounter);
 
@@ -260,7 +336,9 @@ describe("Usage Service", () => {
         updatedAt: new Date(),
       };
 
-      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
       mockFindOrganizationById.mockResolvedValue(null);
 
       // Act & Assert
@@ -301,7 +379,9 @@ describe("Usage Service", () => {
         updatedAt: new Date(),
       };
 
-      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+      mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+        mockSubscription
+      );
       mockFindOrganizationById.mockResolvedValue(mockOrg);
 
       // Act & Assert
@@ -318,9 +398,10 @@ describe("Usage Service", () => {
     test("formats period key correctly from subscription period start", async () => {
       // Arrange
       const testCases = [
-        { date: new Date(2025, 0, 15), expected: "2025-01" }, // January
-        { date: new Date(2025, 11, 25), expected: "2025-12" }, // December
-        { date: new Date(2024, 5, 1), expected: "2024-06" }, // June
+        { date: new Date("2025-01-15T08:00:00Z"), expected: "2025-01-15" }, // January
+        { date: new Date("2025-12-25T08:00:00Z"), expected: "2025-12-25" }, // December
+        { date: new Date("2024-06-01T07:00:00Z"), expected: "2024-06-01" }, // June (PDT)
+        { date: new Date("2025-02-01T03:00:00Z"), expected: "2025-01-31" }, // Jan 31 evening in Los Angeles
       ];
 
       const mockOrg = {
@@ -365,7 +446,9 @@ describe("Usage Service", () => {
           updatedAt: new Date(),
         };
 
-        mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(mockSubscription);
+        mockFindActiveSubscriptionByOrganizationId.mockResolvedValue(
+          mockSubscription
+        );
         mockFindOrganizationById.mockResolvedValue(mockOrg);
         mockUpsertUsageCounter.mockResolvedValue(mockCounter);
 
@@ -378,4 +461,3 @@ describe("Usage Service", () => {
     });
   });
 });
-
@@ -0,0 +1,240 @@
+/**
+ * Unit Tests: Usage Threshold Service
+ *
+ * Tests threshold detection and exactly-once recording of threshold events
+ */
+
+import {
+  getCrossedThresholds,
+  recordThresholdCrossings,
+  listThresholdEvents,
+} from "@/lib/services/usage/usage-threshold-service";
+import {
+  createUsageThresholdEvent,
+  findUsageThresholdEvents,
+} from "@/lib/db/repositories/usage-threshold-repository";
+import { publishWebhookEvent } from "@/lib/services/webhooks/outbound-webhook-service";
+import { ApplicationError } from "@/lib/utils/errors";
+import { mockUsageCounterRecord } from "../../helpers/mock-db";
+
+// Mock repository and webhook publishing
+jest.mock("@/lib/db/repositories/usage-threshold-repository");
+jest.mock("@/lib/services/webhooks/outbound-webhook-service");
+
+const mockCreateUsageThresholdEvent =
+  createUsageThresholdEvent as jest.MockedFunction<
+    typeof createUsageThresholdEvent
+  >;
+const mockFindUsageThresholdEvents =
+  findUsageThresholdEvents as jest.MockedFunction<
+    typeof findUsageThresholdEvents
+  >;
+const mockPublishWebhookEvent = publishWebhookEvent as jest.MockedFunction<
+  typeof publishWebhookEvent
+>;
+
+describe("Usage Threshold Service", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCreateUsageThresholdEvent.mockImplementation(async (data) => ({
+      id: `evt_${data.threshold}`,
+      createdAt: new Date(2025, 0, 20),
+      ...data,
+    }));
+  });
+
+  describe("getCrossedThresholds", () => {
+    test("returns thresholds crossed by the increment", () => {
+      expect(getCrossedThresholds(60, 25, 30)).toEqual([50]);
+      expect(getCrossedThresholds(60, 47, 48)).toEqual([80]);
+      expect(getCrossedThresholds(60, 59, 60)).toEqual([100]);
+    });
+
+    test("returns every threshold crossed by a single large increment", () => {
+      expect(getCrossedThresholds(60, 0, 100)).toEqual([50, 80, 100]);
+    });
+
+    test("returns nothing when no threshold is crossed", () => {
+      expect(getCrossedThresholds(60, 30, 40)).toEqual([]);
+      // Already past 100% - nothing new to cross
+      expect(getCrossedThresholds(60, 70, 80)).toEqual([]);
+    });
+
+    test("returns nothing when included is zero", () => {
+      expect(getCrossedThresholds(0, 0, 10)).toEqual([]);
+    });
+
+    test("accepts custom thresholds", () => {
+      expect(getCrossedThresholds(100, 0, 95, [90, 25])).toEqual([25, 90]);
+    });
+  });
+
+  describe("recordThresholdCrossings", () => {
+    test("records an event for each crossed threshold", async () => {
+      // Arrange - 40 → 50 of 60 crosses 80%
+      const counter = mockUsageCounterRecord({ included: 60, used: 50 });
+
+      // Act
+      const events = await recordThresholdCrossings(counter, 10);
+
+      // Assert
+      expect(mockCreateUsageThresholdEvent).toHaveBeenCalledTimes(1);
+      expect(mockCreateUsageThresholdEvent).toHaveBeenCalledWith({
+        usageCounterId: "counter_123",
+        clerkOrgId: "org_test456",
+        periodKey: "2025-01-15",
+        metric: "api_call",
+        threshold: 80,
+        included: 60,
+        used: 50,
+      });
+      expect(events).toHaveLength(1);
+      expect(events[0].threshold).toBe(80);
+    });
+
+    test("publishes usage.threshold_crossed for each new event", async () => {
+      // Arrange
+      const counter = mockUsageCounterRecord({ included: 60, used: 50 });
+
+      // Act
+      await recordThresholdCrossings(counter, 10);
+
+      // Assert
+      expect(mockPublishWebhookEvent).toHaveBeenCalledTimes(1);
+      expect(mockPublishWebhookEvent).toHaveBeenCalledWith({
+        clerkOrgId: "org_test456",
+        type: "usage.threshold_crossed",
+        eventId: "usage.threshold_crossed:evt_80",
+        data: {
+          metric: "api_call",
+          periodKey: "2025-01-15",
+          threshold: 80,
+          included: 60,
+          used: 50,
+        },
+      });
+    });
+
+    test("publishes quota.exhausted once when included is used up", async () => {
+      // Arrange - 55 → 65 of 60 crosses 100%
+      const counter = mockUsageCounterRecord({ included: 60, used: 65 });
+
+      // Act
+      await recordThresholdCrossings(counter, 10);
+
+      // Assert
+      expect(mockPublishWebhookEvent).toHaveBeenCalledWith({
+        clerkOrgId: "org_test456",
+        type: "quota.exhausted",
+        eventId: "quota.exhausted:counter_123",
+        data: {
+          metric: "api_call",
+          periodKey: "2025-01-15",
+          included: 60,
+          used: 65,
+        },
+      });
+    });
+
+    test("does not publish quota.exhausted when already past included", async () => {
+      // Arrange - 65 → 70 of 60
+      const counter = mockUsageCounterRecord({ included: 60, used: 70 });
+
+      // Act
+      await recordThresholdCrossings(counter, 5);
+
+      // Assert
+      expect(mockPublishWebhookEvent).not.toHaveBeenCalled();
+    });
+
+    test("skips thresholds that were already recorded", async () => {
+      // Arrange - repository returns null on unique conflict
+      mockCreateUsageThresholdEvent.mockResolvedValue(null);
+      const counter = mockUsageCounterRecord({ included: 60, used: 60 });
+
+      // Act
+      const events = await recordThresholdCrossings(counter, 1);
+
+      // Assert
+      expect(mockCreateUsageThresholdEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ threshold: 100 })
+      );
+      expect(events).toEqual([]);
+      expect(mockPublishWebhookEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: "usage.threshold_crossed" })
+      );
+    });
+
+    test("does not touch the database when no threshold is crossed", async () => {
+      // Arrange
+      const counter = mockUsageCounterRecord({ included: 60, used: 20 });
+
+      // Act
+      const events = await recordThresholdCrossings(counter, 5);
+
+      // Assert
+      expect(events).toEqual([]);
+      expect(mockCreateUsageThresholdEvent).not.toHaveBeenCalled();
+    });
+
+    test("swallows repository errors so usage recording never fails", async () => {
+      // Arrange
+      mockCreateUsageThresholdEvent.mockRejectedValue(
+        new ApplicationError(
+          "Failed to create usage threshold event",
+          "USAGE_THRESHOLD_CREATE_ERROR",
+          500
+        )
+      );
+      const counter = mockUsageCounterRecord({ included: 60, used: 30 });
+
+      // Act & Assert
+      await expect(recordThresholdCrossings(counter, 5)).resolves.toEqual([]);
+    });
+  });
+
+  describe("listThresholdEvents", () => {
+    test("returns events with ISO timestamps", async () => {
+      // Arrange
+      mockFindUsageThresholdEvents.mockResolvedValue([
+        {
+          id: "evt_80",
+          clerkOrgId: "org_test456",
+          usageCounterId: "counter_123",
+          periodKey: "2025-01-15",
+          metric: "api_call",
+          threshold: 80,
+          included: 60,
+          used: 48,
+          createdAt: new Date("2025-01-20T10:00:00.000Z"),
+        },
+      ]);
+
+      // Act
+      const result = await listThresholdEvents("org_test456", {
+        periodKey: "2025-01-15",
+        limit: 50,
+      });
+
+      // Assert
+      expect(mockFindUsageThresholdEvents).toHaveBeenCalledWith("org_test456", {
+        periodKey: "2025-01-15",
+        limit: 50,
+      });
+      expect(result).toEqual({
+        events: [
+          {
+            id: "evt_80",
+            metric: "api_call",
+            periodKey: "2025-01-15",
+            threshold: 80,
+            included: 60,
+            used: 48,
+            createdAt: "2025-01-20T10:00:00.000Z",
+          },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,483 @@
+/**
+ * Unit Tests: Webhook Delivery Service
+ *
+ * Tests signed delivery, backoff scheduling and manual redelivery against a
+ * local HTTP server standing in for a tenant endpoint
+ */
+
+import dns from "dns";
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  getRetryDelaySeconds,
+  attemptWebhookDelivery,
+  deliverPendingWebhooks,
+  redeliverWebhook,
+  listDeliveries,
+} from "@/lib/services/webhooks/webhook-delivery-service";
+import {
+  claimWebhookDelivery,
+  findDueWebhookDeliveries,
+  findWebhookDeliveries,
+  findWebhookDeliveryById,
+  recordWebhookDeliveryAttempt,
+} from "@/lib/db/repositories/webhook-delivery-repository";
+import { verifyWebhookSignatureHeader } from "@/lib/utils/webhooks/outbound-webhook-signature";
+import { WebhookDeliveryNotFoundError } from "@/lib/errors/webhook-errors";
+import { ApplicationError } from "@/lib/utils/errors";
+import { config } from "@/lib/config";
+import {
+  mockWebhookDeliveryRecord,
+  mockWebhookEndpointRecord,
+} from "../../helpers/mock-db";
+
+// Mock repository
+jest.mock("@/lib/db/repositories/webhook-delivery-repository");
+
+const mockClaimWebhookDelivery = claimWebhookDelivery as jest.MockedFunction<
+  typeof claimWebhookDelivery
+>;
+const mockFindDueWebhookDeliveries =
+  findDueWebhookDeliveries as jest.MockedFunction<
+    typeof findDueWebhookDeliveries
+  >;
+const mockFindWebhookDeliveries = findWebhookDeliveries as jest.MockedFunction<
+  typeof findWebhookDeliveries
+>;
+const mockFindWebhookDeliveryById =
+  findWebhookDeliveryById as jest.MockedFunction<
+    typeof findWebhookDeliveryById
+  >;
+const mockRecordWebhookDeliveryAttempt =
+  recordWebhookDeliveryAttempt as jest.MockedFunction<
+    typeof recordWebhookDeliveryAttempt
+  >;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe("Webhook Delivery Service", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let responseStatus: number;
+  let received: ReceivedRequest[];
+
+  beforeAll(async () => {
+    // Local stand-in for a tenant endpoint
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end("ok");
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const endpoint = () => mockWebhookEndpointRecord({ url: `${baseUrl}/hooks` });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    responseStatus = 200;
+    received = [];
+
+    // The stand-in endpoint listens on loopback
+    jest.replaceProperty(
+      config.webhooks.outbound,
+      "allowPrivateNetworks",
+      true
+    );
+
+    mockClaimWebhookDelivery.mockResolvedValue(true);
+    mockRecordWebhookDeliveryAttempt.mockImplementation(async (id, data) => ({
+      ...mockWebhookDeliveryRecord({ id }),
+      ...data,
+    }));
+  });
+
+  describe("getRetryDelaySeconds", () => {
+    test("doubles the delay after each attempt", () => {
+      expect(getRetryDelaySeconds(1)).toBe(60);
+      expect(getRetryDelaySeconds(2)).toBe(120);
+      expect(getRetryDelaySeconds(5)).toBe(960);
+    });
+
+    test("caps the delay at the configured maximum", () => {
+      expect(getRetryDelaySeconds(20)).toBe(6 * 60 * 60);
+    });
+  });
+
+  describe("attemptWebhookDelivery", () => {
+    test("posts the payload signed with the endpoint secret", async () => {
+      // Arrange
+      const delivery = mockWebhookDeliveryRecord({ endpoint: endpoint() });
+
+      // Act
+      const status = await attemptWebhookDelivery(delivery);
+
+      // Assert
+      expect(status).toBe("succeeded");
+      expect(received).toHaveLength(1);
+      const [request] = received;
+      expect(JSON.parse(request.body)).toEqual(delivery.payload);
+      expect(request.headers["x-webhook-id"]).toBe(delivery.eventId);
+      expect(request.headers["x-webhook-event"]).toBe("quota.exhausted");
+      expect(
+        verifyWebhookSignatureHeader(
+          request.body,
+          request.headers["x-webhook-signature"] as string,
+          "whsec_test"
+        )
+      ).toBe(true);
+      expect(mockRecordWebhookDeliveryAttempt).toHaveBeenCalledWith(
+        delivery.id,
+        expect.objectContaining({
+          status: "succeeded",
+          attempts: 1,
+          nextAttemptAt: null,
+          responseStatus: 200,
+          lastError: null,
+        })
+      );
+    });
+
+    test("schedules a backoff retry when the endpoint returns an error", async () => {
+      // Arrange
+      responseStatus = 500;
+      const now = new Date("2025-01-20T10:00:00.000Z");
+      const delivery = mockWebhookDeliveryRecord({
+        endpoint: endpoint(),
+        attempts: 2,
+      });
+
+      // Act
+      const status = await attemptWebhookDelivery(delivery, now);
+
+      // Assert
+      expect(status).toBe("pending");
+      expect(mockRecordWebhookDeliveryAttempt).toHaveBeenCalledWith(
+        delivery.id,
+        expect.objectContaining({
+          status: "pending",
+          attempts: 3,
+          nextAttemptAt: new Date("2025-01-20T10:04:00.000Z"),
+          responseStatus: 500,
+          lastError: "Endpoint responded with HTTP 500",
+        })
+      );
+    });
+
+    test("retries when the endpoint is unreachable", async () => {
+      // Arrange - nothing listens on port 1
+      const delivery = mockWebhookDeliveryRecord({
+        endpoint: mockWebhookEndpointRecord({ url: "http://127.0.0.1:1/" }),
+      });
+
+      // Act
+      const status = await attemptWebhookDelivery(delivery);
+
+      // Assert
+      expect(status).toBe("pending");
+      expect(mockRecordWebhookDeliveryAttempt).toHaveBeenCalledWith(
+        delivery.id,
+        expect.objectContaining({
+          responseStatus: null,
+          lastError: expect.any(String),
+        })
+      );
+    });
+
+    test("gives up after the maximum number of attempts", async () => {
+      // Arrange
+      responseStatus = 503;
+      const delivery = mockWebhookDeliveryRecord({
+        endpoint: endpoint(),
+        attempts: 7,
+      });
+
+      // Act
+      const status = await attemptWebhookDelivery(delivery);
+
+      // Assert
+      expect(status).toBe("failed");
+      expect(mockRecordWebhookDeliveryAttempt).toHaveBeenCalledWith(
+        delivery.id,
+        expect.objectContaining({
+          status: "failed",
+          attempts: 8,
+          nextAttemptAt: null,
+        })
+      );
+    });
+
+    test("refuses to send to an address that is not public", async () => {
+      // Arrange
+      jest.replaceProperty(
+        config.webhooks.outbound,
+        "allowPrivateNetworks",
+        false
+      );
+      const delivery = mockWebhookDeliveryRecord({ endpoint: endpoint() });
+
+      // Act
+      const status = await attemptWebhookDelivery(delivery);
+
+      // Assert
+      expect(status).toBe("pending");
+      expect(received).toHaveLength(0);
+      expect(mockRecordWebhookDeliveryAttempt).toHaveBeenCalledWith(
+        delivery.id,
+        expect.objectContaining({
+          responseStatus: null,
+          lastError:
+            "Refusing to connect to non-public host 127.0.0.1:" +
+            new URL(baseUrl).port,
+        })
+      );
+    });
+
+    test("refuses to send to a name that resolves to a non-public address", async () => {
+      // Arrange - the endpoint's name was re-pointed at loopback
+      jest.replaceProperty(
+        config.webhooks.outbound,
+        "allowPrivateNetworks",
+        false
+      );
+      jest
+        .spyOn(dns, "lookup")
+        .mockImplementation(((
+          _hostname: string,
+          _options: dns.LookupAllOptions,
+          callback: (error: null, addresses: dns.LookupAddress[]) => void
+        ) => callback(null, [{ address: "127.0.0.1", family: 4 }])) as never);
+      const delivery = mockWebhookDeliveryRecord({
+        endpoint: mockWebhookEndpointRecord({
+          url: `${baseUrl.replace("127.0.0.1", "hooks.example.com")}/hooks`,
+        }),
+      });
+
+      // Act
+      const status = await attemptWebhookDelivery(delivery);
+
+      // Assert
+      expect(status).toBe("pending");
+      expect(received).toHaveLength(0);
+      expect(mockRecordWebhookDeliveryAttempt).toHaveBeenCalledWith(
+        delivery.id,
+        expect.objectContaining({
+          lastError:
+            "Refusing to connect to non-public address 127.0.0.1 for hooks.example.com",
+        })
+      );
+    });
+
+    test("fails without sending when the endpoint is disabled", async () => {
+      // Arrange
+      const delivery = mockWebhookDeliveryRecord({
+        endpoint: mockWebhookEndpointRecord({
+          url: `${baseUrl}/hooks`,
+          enabled: false,
+        }),
+      });
+
+      // Act
+      const status = await attemptWebhookDelivery(delivery);
+
+      // Assert
+      expect(status).toBe("failed");
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  describe("deliverPendingWebhooks", () => {
+    test("sends claimed deliveries and skips ones claimed elsewhere", async () => {
+      // Arrange
+      mockFindDueWebhookDeliveries.mockResolvedValue([
+        mockWebhookDeliveryRecord({ id: "whd_1", endpoint: endpoint() }),
+        mockWebhookDeliveryRecord({ id: "whd_2", endpoint: endpoint() }),
+      ]);
+      mockClaimWebhookDelivery
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      // Act
+      const result = await deliverPendingWebhooks(
+        new Date("2025-01-20T10:00:00.000Z")
+      );
+
+      // Assert
+      expect(result).toEqual({
+        checked: 2,
+        delivered: 1,
+        retrying: 0,
+        failed: 0,
+        skipped: 1,
+        errors: 0,
+      });
+      expect(received).toHaveLength(1);
+      expect(mockFindDueWebhookDeliveries).toHaveBeenCalledWith(
+        new Date("2025-01-20T10:00:00.000Z"),
+        50
+      );
+    });
+
+    test("leases and schedules each delivery from when it is claimed", async () => {
+      // Arrange - a run that started well before its deliveries are sent
+      const { timeoutMs } = config.webhooks.outbound;
+      mockFindDueWebhookDeliveries.mockResolvedValue([
+        mockWebhookDeliveryRecord({ id: "whd_1", endpoint: endpoint() }),
+        mockWebhookDeliveryRecord({ id: "whd_2", endpoint: endpoint() }),
+      ]);
+      const before = Date.now();
+
+      // Act
+      await deliverPendingWebhooks(new Date(before - 60 * 60 * 1000));
+
+      // Assert
+      expect(mockClaimWebhookDelivery).toHaveBeenCalledTimes(2);
+      for (const [, , leaseUntil] of mockClaimWebhookDelivery.mock.calls) {
+        expect(leaseUntil.getTime()).toBeGreaterThanOrEqual(
+          before + timeoutMs * 2
+        );
+      }
+      for (const [, data] of mockRecordWebhookDeliveryAttempt.mock.calls) {
+        expect(data.lastAttemptAt.getTime()).toBeGreaterThanOrEqual(before);
+      }
+    });
+
+    test("continues past deliveries that error", async () => {
+      // Arrange
+      mockFindDueWebhookDeliveries.mockResolvedValue([
+        mockWebhookDeliveryRecord({ id: "whd_1", endpoint: endpoint() }),
+        mockWebhookDeliveryRecord({ id: "whd_2", endpoint: endpoint() }),
+      ]);
+      mockRecordWebhookDeliveryAttempt.mockRejectedValueOnce(
+        new ApplicationError("db down", "WEBHOOK_DELIVERY_UPDATE_ERROR", 500)
+      );
+
+      // Act
+      const result = await deliverPendingWebhooks();
+
+      // Assert
+      expect(result.errors).toBe(1);
+      expect(result.delivered).toBe(1);
+    });
+  });
+
+  describe("redeliverWebhook", () => {
+    test("resends a failed delivery and marks it succeeded", async () => {
+      // Arrange
+      mockFindWebhookDeliveryById.mockResolvedValue(
+        mockWebhookDeliveryRecord({
+          endpoint: endpoint(),
+          status: "failed",
+          attempts: 8,
+          nextAttemptAt: null,
+        })
+      );
+
+      // Act
+      const result = await redeliverWebhook("org_test456", "whd_123");
+
+      // Assert
+      expect(received).toHaveLength(1);
+      expect(result).toMatchObject({
+        id: "whd_123",
+        status: "succeeded",
+        attempts: 9,
+        responseStatus: 200,
+      });
+    });
+
+    test("keeps status and schedule when the manual attempt fails", async () => {
+      // Arrange
+      responseStatus = 500;
+      mockFindWebhookDeliveryById.mockResolvedValue(
+        mockWebhookDeliveryRecord({
+          endpoint: endpoint(),
+          status: "failed",
+          attempts: 8,
+          nextAttemptAt: null,
+        })
+      );
+
+      // Act
+      const result = await redeliverWebhook("org_test456", "whd_123");
+
+      // Assert
+      expect(result).toMatchObject({
+        status: "failed",
+        nextAttemptAt: null,
+        responseStatus: 500,
+        lastError: "Endpoint responded with HTTP 500",
+      });
+    });
+
+    test("throws WebhookDeliveryNotFoundError for another org's delivery", async () => {
+      // Arrange
+      mockFindWebhookDeliveryById.mockResolvedValue(
+        mockWebhookDeliveryRecord({ clerkOrgId: "org_other" })
+      );
+
+      // Act & Assert
+      await expect(redeliverWebhook("org_test456", "whd_123")).rejects.toThrow(
+        WebhookDeliveryNotFoundError
+      );
+      expect(received).toHaveLength(0);
+    });
+
+    test("rejects redelivery to a disabled endpoint", async () => {
+      // Arrange
+      mockFindWebhookDeliveryById.mockResolvedValue(
+        mockWebhookDeliveryRecord({
+          endpoint: mockWebhookEndpointRecord({ enabled: false }),
+        })
+      );
+
+      // Act & Assert
+      await expect(
+        redeliverWebhook("org_test456", "whd_123")
+      ).rejects.toMatchObject({ code: "WEBHOOK_ENDPOINT_DISABLED" });
+    });
+  });
+
+  describe("listDeliveries", () => {
+    test("returns deliveries with ISO timestamps", async () => {
+      // Arrange
+      const { endpoint: _endpoint, ...delivery } = mockWebhookDeliveryRecord({
+        nextAttemptAt: new Date("2025-01-20T10:00:00.000Z"),
+      });
+      mockFindWebhookDeliveries.mockResolvedValue([delivery]);
+
+      // Act
+      const result = await listDeliveries("org_test456", {
+        status: "pending",
+        limit: 50,
+      });
+
+      // Assert
+      expect(mockFindWebhookDeliveries).toHaveBeenCalledWith("org_test456", {
+        status: "pending",
+        limit: 50,
+      });
+      expect(result.deliveries[0]).toMatchObject({
+        id: "whd_123",
+        eventType: "quota.exhausted",
+        status: "pending",
+        nextAttemptAt: "2025-01-20T10:00:00.000Z",
+        lastAttemptAt: null,
+      });
+    });
+  });
+});
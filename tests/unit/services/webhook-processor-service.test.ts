@@ -13,11 +13,15 @@ import {
   findSubscriptionByStripeSubscriptionId,
   updateSubscriptionFromStripe,
 } from "@/lib/db/repositories/subscription-repository";
+import { publishWebhookEvent } from "@/lib/services/webhooks/outbound-webhook-service";
+import { grantCreditsForCheckout } from "@/lib/services/credits/credit-service";
 import { ApplicationError } from "@/lib/utils/errors";
 
 // Mock dependencies
 jest.mock("@/lib/db/repositories/webhook-repository");
 jest.mock("@/lib/db/repositories/subscription-repository");
+jest.mock("@/lib/services/webhooks/outbound-webhook-service");
+jest.mock("@/lib/services/credits/credit-service");
 
 const mockFindWebhookEvent = findWebhookEvent as jest.MockedFunction<
   typeof findWebhookEvent
@@ -33,6 +37,13 @@ const mockUpdateSubscriptionFromStripe =
   updateSubscriptionFromStripe as jest.MockedFunction<
     typeof updateSubscriptionFromStripe
   >;
+const mockPublishWebhookEvent = publishWebhookEvent as jest.MockedFunction<
+  typeof publishWebhookEvent
+>;
+const mockGrantCreditsForCheckout =
+  grantCreditsForCheckout as jest.MockedFunction<
+    typeof grantCreditsForCheckout
+  >;
 
 describe("Webhook Processor Service", () => {
   beforeEach(() => {
@@ -58,7 +69,8 @@ describe("Webhook Processor Service", () => {
               id: stripeSubscriptionId,
               status: "active",
               current_period_start: Math.floor(Date.now() / 1000),
-              current_period_end: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
+              current_period_end:
+                Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
               trial_end: null,
             },
           },
@@ -84,7 +96,9 @@ describe("Webhook Processor Service", () => {
       };
 
       mockFindWebhookEvent.mockResolvedValue(webhookEvent);
-      mockFindSubscriptionByStripeSubscriptionId.mockResolvedValue(dbSubscription);
+      mockFindSubscriptionByStripeSubscriptionId.mockResolvedValue(
+        dbSubscription
+      );
       mockUpdateSubscriptionFromStripe.mockResolvedValue({
         ...dbSubscription,
         status: "active",
@@ -106,6 +120,17 @@ describe("Webhook Processor Service", () => {
       );
       expect(mockUpdateSubscriptionFromStripe).toHaveBeenCalled();
       expect(mockMarkWebhookProcessed).toHaveBeenCalledWith(eventId);
+      expect(mockPublishWebhookEvent).toHaveBeenCalledWith({
+        clerkOrgId: "org_test456",
+        type: "subscription.status_changed",
+        eventId: `subscription.status_changed:${eventId}`,
+        data: {
+          subscriptionId: "sub_internal_123",
+          planCode: "trial",
+          previousStatus: "trialing",
+          status: "active",
+        },
+      });
     });
 
     test("returns idempotent response for already processed event", async () => {
@@ -182,7 +207,9 @@ describe("Webhook Processor Service", () => {
       };
 
       mockFindWebhookEvent.mockResolvedValue(webhookEvent);
-      mockFindSubscriptionByStripeSubscriptionId.mockResolvedValue(dbSubscription);
+      mockFindSubscriptionByStripeSubscriptionId.mockResolvedValue(
+        dbSubscription
+      );
       mockUpdateSubscriptionFromStripe.mockResolvedValue({
         ...dbSubscription,
         status: "canceled",
@@ -204,6 +231,121 @@ describe("Webhook Processor Service", () => {
           status: "canceled",
         })
       );
+      expect(mockPublishWebhookEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "subscription.status_changed",
+          data: expect.objectContaining({
+            previousStatus: "active",
+            status: "canceled",
+          }),
+        })
+      );
+    });
+
+    test("publishes trial.ending for subscription.trial_will_end event", async () => {
+      // Arrange
+      const trialEnd = Math.floor(Date.UTC(2025, 0, 25) / 1000);
+      const webhookEvent = {
+        id: "webhook_queue_id",
+        eventId,
+        eventType: "customer.subscription.trial_will_end",
+        processed: false,
+        payload: {
+          id: eventId,
+          type: "customer.subscription.trial_will_end",
+          data: {
+            object: {
+              id: stripeSubscriptionId,
+              status: "trialing",
+              trial_end: trialEnd,
+            },
+          },
+        },
+        createdAt: new Date(),
+        processedAt: null,
+      };
+
+      mockFindWebhookEvent.mockResolvedValue(webhookEvent);
+      mockFindSubscriptionByStripeSubscriptionId.mockResolvedValue({
+        id: "sub_internal_123",
+        clerkOrgId: "org_test456",
+        stripeCustomerId: "cus_test789",
+        stripeSubscriptionId,
+        planCode: "trial",
+        stripePriceId: "price_test123",
+        status: "trialing",
+        currentPeriodStart: new Date(),
+        currentPeriodEnd: new Date(),
+        trialEndsAt: new Date(trialEnd * 1000),
+        organizationId: "org_internal_123",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockMarkWebhookProcessed.mockResolvedValue({
+        ...webhookEvent,
+        processed: true,
+        processedAt: new Date(),
+      });
+
+      // Act
+      const result = await processStripeWebhook(eventId);
+
+      // Assert
+      expect(result.converged).toBe(true);
+      expect(mockPublishWebhookEvent).toHaveBeenCalledWith({
+        clerkOrgId: "org_test456",
+        type: "trial.ending",
+        eventId: `trial.ending:${eventId}`,
+        data: {
+          subscriptionId: "sub_internal_123",
+          planCode: "trial",
+          trialEndsAt: "2025-01-25T00:00:00.000Z",
+        },
+      });
+    });
+
+    test("grants credits for checkout.session.completed event", async () => {
+      // Arrange
+      const session = {
+        id: "cs_test123",
+        payment_status: "paid",
+        metadata: {
+          type: "credit_pack",
+          clerkOrgId: "org_test456",
+          packCode: "api_call_1k",
+        },
+      };
+      const webhookEvent = {
+        id: "webhook_queue_id",
+        eventId,
+        eventType: "checkout.session.completed",
+        processed: false,
+        payload: {
+          id: eventId,
+          type: "checkout.session.completed",
+          data: {
+            object: session,
+          },
+        },
+        createdAt: new Date(),
+        processedAt: null,
+      };
+
+      mockFindWebhookEvent.mockResolvedValue(webhookEvent);
+      mockGrantCreditsForCheckout.mockResolvedValue(null);
+      mockMarkWebhookProcessed.mockResolvedValue({
+        ...webhookEvent,
+        processed: true,
+        processedAt: new Date(),
+      });
+
+      // Act
+      const result = await processStripeWebhook(eventId);
+
+      // Assert
+      expect(result.converged).toBe(true);
+      expect(mockGrantCreditsForCheckout).toHaveBeenCalledWith(session);
+      expect(mockMarkWebhookProcessed).toHaveBeenCalledWith(eventId);
     });
 
     test("handles unhandled event types gracefully", async () => {
@@ -251,7 +393,8 @@ describe("Webhook Processor Service", () => {
               id: stripeSubscriptionId,
               status: "active",
               current_period_start: Math.floor(Date.now() / 1000),
-              current_period_end: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
+              current_period_end:
+                Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
             },
           },
         },
@@ -276,7 +419,9 @@ describe("Webhook Processor Service", () => {
       };
 
       mockFindWebhookEvent.mockResolvedValue(webhookEvent);
-      mockFindSubscriptionByStripeSubscriptionId.mockResolvedValue(dbSubscription);
+      mockFindSubscriptionByStripeSubscriptionId.mockResolvedValue(
+        dbSubscription
+      );
       mockUpdateSubscriptionFromStripe.mockRejectedValue(
         new Error("Update failed")
       );
@@ -287,4 +432,3 @@ describe("Webhook Processor Service", () => {
     });
   });
 });
-